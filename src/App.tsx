@@ -4,7 +4,7 @@ import {
   Cloud, CloudOff, RefreshCw, Brain, ChevronLeft,
   ChevronRight, DownloadCloud, Sparkles, Mail, DollarSign,
   Menu, X, UserCheck, Lock, Eye, EyeOff, BarChart3, ArrowRight, LogOut,
-  ShieldAlert, Rocket,
+  ShieldAlert, Rocket, Megaphone, GitMerge, Trash2,
 } from 'lucide-react';
 import { startSession, trackPageView, trackAction, setupSessionFlush, getCurrentSession, endSession, forceLogoutAll, requestLiveAccessCode, submitGuestLogoutFeedback, type SessionInfo } from './services/sessionTracker';
 import { useAppStore } from './stores/appStore';
@@ -15,11 +15,14 @@ import ClinicDiscovery from './components/ClinicDiscovery';
 import CRM from './components/CRM';
 import VoiceAgent from './components/VoiceAgent';
 import EmailOutreach from './components/EmailOutreach';
+import Campaigns from './components/Campaigns';
 import RevenueForecastPage from './components/RevenueForecast';
 import PatientLeads from './components/PatientLeads';
 import AdAnalytics from './components/AdAnalytics';
 import AIEngine from './components/AIEngine';
 import EngineCopilot from './components/EngineCopilot';
+import SyncConflictsPanel from './components/SyncConflictsPanel';
+import TrashPanel from './components/TrashPanel';
 
 const navItems = [
   { id: 'dashboard', label: 'Command Center', shortLabel: 'Home', icon: LayoutDashboard, badge: null },
@@ -27,6 +30,7 @@ const navItems = [
   { id: 'aiengine', label: 'AI Engine', shortLabel: 'AI', icon: Brain, badge: 'aiengine' },
   { id: 'clinics', label: 'Clinic Discovery', shortLabel: 'Clinics', icon: Building2, badge: 'clinics' },
   { id: 'email', label: 'Email Outreach', shortLabel: 'Email', icon: Mail, badge: 'emails' },
+  { id: 'campaigns', label: 'Campaigns', shortLabel: 'Campaigns', icon: Megaphone, badge: 'campaigns' },
   { id: 'keywords', label: 'Keyword Scanner', shortLabel: 'Keywords', icon: TrendingUp, badge: 'trends' },
   { id: 'leads', label: 'Patient Leads', shortLabel: 'Leads', icon: UserCheck, badge: 'leads' },
   { id: 'crm', label: 'Pipeline CRM', shortLabel: 'CRM', icon: Users, badge: 'contacts' },
@@ -166,8 +170,9 @@ function LoginScreen({ onAuth }: { onAuth: (session: SessionInfo) => void }) {
 
 function App() {
   const {
-    currentView, setCurrentView, supabaseReady, isSyncing,
-    initSupabase, pushToSupabase, contacts, clinics, keywordTrends, callHistory, sentEmails, markets,
+    currentView, setCurrentView, supabaseReady, isSyncing, unsyncedChanges,
+    initSupabase, pushToSupabase, contacts, clinics, keywordTrends, callHistory, sentEmails, markets, campaigns,
+    syncConflicts,
   } = useAppStore();
 
   const [isSidebarHovered, setIsSidebarHovered] = useState(false);
@@ -186,6 +191,8 @@ function App() {
   const [guestFeedback, setGuestFeedback] = useState('');
   const [guestFeedbackError, setGuestFeedbackError] = useState(false);
   const [submittingFeedback, setSubmittingFeedback] = useState(false);
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   const isAdmin = sessionInfo?.role === 'admin';
   const isGuest2104 = sessionInfo?.role === 'guest' && sessionInfo?.code === GUEST_CODE;
   const canRunLive = isAdmin || engineMode === 'live';
@@ -316,6 +323,7 @@ function App() {
       case 'contacts': return contacts.length || null;
       case 'calls': return callHistory.length || null;
       case 'emails': return sentEmails.length || null;
+      case 'campaigns': return campaigns.filter(c => c.status === 'active').length || null;
       case 'markets': return markets.length || null;
       case 'forecast': return markets.length || null;
       case 'aiengine': {
@@ -337,6 +345,7 @@ function App() {
       case 'leads': return <PatientLeads />;
       case 'voice': return <VoiceAgent />;
       case 'email': return <EmailOutreach />;
+      case 'campaigns': return <Campaigns />;
       case 'analytics': return <AdAnalytics />;
       case 'forecast': return <RevenueForecastPage />;
       case 'aiengine': return <AIEngine />;
@@ -463,11 +472,17 @@ function App() {
           <button
             onClick={() => pushToSupabase()}
             disabled={!supabaseReady || isSyncing || !canRunLive}
-            className="p-2 rounded-lg hover:bg-white/5"
+            title={unsyncedChanges > 0 ? `${unsyncedChanges} change${unsyncedChanges === 1 ? '' : 's'} not synced yet` : undefined}
+            className="relative p-2 rounded-lg hover:bg-white/5"
           >
             {isSyncing ? <RefreshCw className="w-4 h-4 text-emerald-400 animate-spin" /> :
              supabaseReady ? <Cloud className="w-4 h-4 text-emerald-400" /> :
              <CloudOff className="w-4 h-4 text-slate-600" />}
+            {unsyncedChanges > 0 && (
+              <span className="absolute top-0.5 right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-[9px] font-bold text-black leading-[14px] text-center">
+                {unsyncedChanges > 99 ? '99+' : unsyncedChanges}
+              </span>
+            )}
           </button>
           <button onClick={() => setMobileMenuOpen(!mobileMenuOpen)} className="p-2 rounded-lg hover:bg-white/5">
             {mobileMenuOpen ? <X className="w-5 h-5 text-slate-300" /> : <Menu className="w-5 h-5 text-slate-300" />}
@@ -644,9 +659,11 @@ function App() {
           <button
             onClick={() => pushToSupabase()}
             disabled={!supabaseReady || isSyncing || !canRunLive}
-            title={collapsed ? (supabaseReady ? 'Sync to Cloud' : 'Cloud Offline') : undefined}
+            title={unsyncedChanges > 0
+              ? `${unsyncedChanges} change${unsyncedChanges === 1 ? '' : 's'} not synced yet`
+              : collapsed ? (supabaseReady ? 'Sync to Cloud' : 'Cloud Offline') : undefined}
             className={cn(
-              'w-full flex items-center gap-2.5 rounded-lg text-[12px] font-medium transition-colors',
+              'relative w-full flex items-center gap-2.5 rounded-lg text-[12px] font-medium transition-colors',
               collapsed ? 'px-0 py-2 justify-center' : 'px-3 py-2',
               supabaseReady
                 ? 'text-emerald-400 hover:bg-white/5'
@@ -657,8 +674,44 @@ function App() {
              supabaseReady ? <Cloud className="w-4 h-4 shrink-0" /> :
              <CloudOff className="w-4 h-4 shrink-0" />}
             {!collapsed && (isSyncing ? 'Syncing...' : supabaseReady ? 'Sync to Cloud' : 'Cloud Offline')}
+            {unsyncedChanges > 0 && (
+              <span className={cn(
+                'rounded-full bg-amber-500/15 border border-amber-500/30 text-amber-300 text-[10px] font-semibold',
+                collapsed ? 'absolute top-0.5 right-1 px-1' : 'ml-auto px-1.5'
+              )}>
+                {unsyncedChanges > 99 ? '99+' : unsyncedChanges}
+              </span>
+            )}
           </button>
 
+          {syncConflicts.length > 0 && (
+            <button
+              onClick={() => setShowSyncConflicts(true)}
+              title={collapsed ? `${syncConflicts.length} sync conflict${syncConflicts.length === 1 ? '' : 's'}` : undefined}
+              className={cn(
+                'w-full flex items-center gap-2.5 rounded-lg text-[12px] font-medium text-amber-400 hover:bg-white/5 transition-colors',
+                collapsed ? 'px-0 py-2 justify-center' : 'px-3 py-2'
+              )}
+            >
+              <GitMerge className="w-4 h-4 shrink-0" />
+              {!collapsed && `${syncConflicts.length} Sync Conflict${syncConflicts.length === 1 ? '' : 's'}`}
+            </button>
+          )}
+
+          {isAdmin && (
+            <button
+              onClick={() => setShowTrash(true)}
+              title={collapsed ? 'Trash' : undefined}
+              className={cn(
+                'w-full flex items-center gap-2.5 rounded-lg text-[12px] font-medium text-slate-300 hover:bg-white/5 transition-colors',
+                collapsed ? 'px-0 py-2 justify-center' : 'px-3 py-2'
+              )}
+            >
+              <Trash2 className="w-4 h-4 shrink-0" />
+              {!collapsed && 'Trash'}
+            </button>
+          )}
+
           <button
             onClick={handleLogout}
             title={collapsed ? 'Logout' : undefined}
@@ -753,6 +806,9 @@ function App() {
         </div>
       )}
 
+      {showSyncConflicts && <SyncConflictsPanel onClose={() => setShowSyncConflicts(false)} />}
+      {showTrash && isAdmin && <TrashPanel onClose={() => setShowTrash(false)} />}
+
       {showLiveModal && (
         <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
           <div className="w-full max-w-md rounded-2xl border border-emerald-400/40 bg-[#030712]/95 p-5">
@@ -1726,6 +1726,7 @@ export default function AIEngine() {
         throw new Error('Missing enrichment provider keys: set VITE_APOLLO_API_KEYS (or VITE_APOLLO_API_KEY) or VITE_LEADMAGIC_API_KEY.');
       }
 
+      const { enrichmentWaterfall } = useAppStore.getState();
       const { data, error } = await supabase.functions.invoke('dm-enrichment-batch', {
         body: {
           limit: 60,
@@ -1734,6 +1735,7 @@ export default function AIEngine() {
           apolloApiKeys,
           revenueBaseKey,
           leadMagicKey,
+          waterfall: { emailOrder: enrichmentWaterfall.order.email, creditCost: enrichmentWaterfall.creditCost },
         },
       });
 
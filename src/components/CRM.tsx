@@ -7,17 +7,22 @@ import {
   Zap, Target, FileText, ChevronDown, ChevronUp,
   BarChart3, ArrowUpRight, Sparkles, CircleDot, ArrowUpDown,
   ChevronLeft, ChevronRight, MapPinned, Loader2, Radar, Map as MapIcon,
-  Trash2,
+  Trash2, SlidersHorizontal, Voicemail, Layers,
 } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
-import { enrichmentService } from '../services/enrichmentService';
+import { enrichmentWaterfallService } from '../services/enrichmentWaterfallService';
 import { googleVerifyService } from '../services/googleVerifyService';
 import { analyzeCompetitorIntel, CompetitorIntel, buildAttributionReport, AttributionReport } from '../services/intelligenceService';
 import { ContactStatus, Priority, Clinic, CRMContact, Activity } from '../types';
 import { computeLeadScore } from '../utils/leadScoring';
+import { firstPages, paginate } from '../utils/paging';
+import ScoringModelPanel from './ScoringModelPanel';
+import EmailThreadPanel from './EmailThreadPanel';
+import FieldProvenancePanel from './FieldProvenancePanel';
 import { cn } from '../utils/cn';
 import type { SentEmail } from '../services/resendService';
 import toast from 'react-hot-toast';
+import { undoToast } from './TrashPanel';
 
 /* ─── Config ─── */
 
@@ -132,28 +137,37 @@ function googleVerifyBadge(status?: Clinic['googleVerifyStatus']) {
   return { label: 'Not Found', cls: 'bg-slate-500/10 text-slate-400 border-white/[0.06]' };
 }
 
+/** Cards per board column before "show more", regions per page, rows per region before "show more" */
+const BOARD_PAGE_SIZE = 25;
+const REGIONS_PAGE_SIZE = 20;
+const REGION_ROWS_PAGE_SIZE = 25;
+
 /* ─── Main Component ─── */
 
 function CRM() {
-  const { contacts, sentEmails, selectedContact, selectContact, updateContact, updateContactStatus, removeContact } = useAppStore();
+  const { contacts, sentEmails, selectedContact, selectContact, updateContact, updateContactStatus, removeContact, activeScoringModelId } = useAppStore();
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<ContactStatus | ''>('');
   const [priorityFilter, setPriorityFilter] = useState<Priority | ''>('');
   const [regionFilter, setRegionFilter] = useState('');
   const [layout, setLayout] = useState<'board' | 'regions'>('board');
   const [isEnriching, setIsEnriching] = useState(false);
-  const [drawerTab, setDrawerTab] = useState<'intel' | 'details' | 'activity'>('intel');
+  const [drawerTab, setDrawerTab] = useState<'intel' | 'details' | 'emails' | 'activity'>('intel');
   const [showEmailDraft, setShowEmailDraft] = useState(false);
   const [showFollowUp, setShowFollowUp] = useState(false);
   const [followUpDate, setFollowUpDate] = useState('');
   const [expanded, setExpanded] = useState<Record<string, boolean>>({ opener: true, talkingPoints: true, valueProps: true, objections: false });
   const [collapsedRegions, setCollapsedRegions] = useState<Record<string, boolean>>({});
+  /** Pages shown per board column / region, keyed by column or region key */
+  const [shownPages, setShownPages] = useState<Record<string, number>>({});
+  const [regionPage, setRegionPage] = useState(1);
   const [outreachAlert, setOutreachAlert] = useState<{ contact: CRMContact; action: 'email' | 'call'; history: Activity[] } | null>(null);
   const [competitorIntel, setCompetitorIntel] = useState<CompetitorIntel | null>(null);
   const [competitorLoading, setCompetitorLoading] = useState(false);
   const [attribution, setAttribution] = useState<AttributionReport | null>(null);
   const [aiImports, setAiImports] = useState<any[]>([]);
   const [showAiImports, setShowAiImports] = useState(false);
+  const [showScoringModel, setShowScoringModel] = useState(false);
 
   // Load AI Engine imports from localStorage
   useEffect(() => {
@@ -277,6 +291,15 @@ function CRM() {
     return groups;
   }, [filtered]);
 
+  // A new filter starts every list from its first page
+  useEffect(() => {
+    setShownPages({});
+    setRegionPage(1);
+  }, [search, statusFilter, priorityFilter, regionFilter, layout]);
+
+  const regionsPage = useMemo(() => paginate(regions, regionPage, REGIONS_PAGE_SIZE), [regions, regionPage]);
+  const showMore = (key: string) => setShownPages(p => ({ ...p, [key]: (p[key] || 1) + 1 }));
+
   /* ── All region keys for filter dropdown ── */
   const allRegionKeys = useMemo(() => {
     const set = new Set<string>();
@@ -311,7 +334,7 @@ function CRM() {
     setIsEnriching(true);
     toast.loading('Finding & verifying decision makers...', { id: 'enrich-crm' });
     try {
-      const dms = await enrichmentService.findDecisionMakers(contact.clinic);
+      const dms = await enrichmentWaterfallService.findDecisionMakers(contact.clinic);
       if (!dms.length) { toast('No decision makers found', { id: 'enrich-crm' }); setIsEnriching(false); return; }
 
       // Build enrichedContacts array with verification status
@@ -484,6 +507,12 @@ function CRM() {
 
   const intel = selectedContact ? generateCallIntel(selectedContact) : null;
   const emailDraft = selectedContact ? generateEmailDraft(selectedContact) : null;
+  // Recomputed with the active model so the panel explains the current score
+  const scoreBreakdown = useMemo(
+    () => selectedContact ? computeLeadScore(selectedContact) : null,
+    [selectedContact, activeScoringModelId],
+  );
+  const totalScoreWeight = scoreBreakdown?.breakdown.reduce((s, f) => s + f.weight, 0) || 1;
   const drawerOpen = !!selectedContact;
 
   return (
@@ -497,11 +526,14 @@ function CRM() {
             <p className="text-xs text-slate-500 mt-0.5">{filtered.length} accounts across {regions.length} region{regions.length !== 1 ? 's' : ''}</p>
           </div>
           <div className="flex items-center gap-2">
+            <button onClick={() => setShowScoringModel(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-slate-300 bg-white/5 border border-white/[0.06] hover:bg-white/[0.08] transition-all">
+              <SlidersHorizontal className="w-3.5 h-3.5" /> Scoring
+            </button>
             {contacts.length > 0 && (
               <button onClick={() => {
                 if (confirm(`Clear all ${contacts.length} CRM contacts? This also removes them from Supabase.`)) {
-                  useAppStore.getState().clearContacts();
-                  toast.success('All CRM contacts cleared');
+                  undoToast(useAppStore.getState().clearContacts(), 'All CRM contacts cleared');
                 }
               }}
                 className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-red-400 bg-red-500/10 border border-red-500/20 hover:bg-red-500/20 transition-all">
@@ -674,7 +706,9 @@ function CRM() {
 
                 return (
                   <div className="flex gap-3 overflow-x-auto pb-4">
-                    {cols.map(col => (
+                    {cols.map(col => {
+                      const shown = firstPages(colsData[col.key], shownPages[col.key] || 1, BOARD_PAGE_SIZE);
+                      return (
                       <div key={col.key} className="w-[320px] shrink-0">
                         <div className="sticky top-0 z-10 backdrop-blur-sm bg-black/85 border border-white/[0.06] rounded-xl p-3">
                           <div className="flex items-center gap-2">
@@ -687,7 +721,7 @@ function CRM() {
                         </div>
 
                         <div className="mt-2 space-y-2">
-                          {colsData[col.key].map(contact => {
+                          {shown.items.map(contact => {
                             const dm = contact.decisionMaker;
                             const latest = latestEmailByContactId.get(contact.id);
                             const badge = eventBadge(latest);
@@ -727,7 +761,9 @@ function CRM() {
                                       <button
                                         onClick={e => {
                                           e.stopPropagation();
-                                          if (confirm(`Remove ${contact.clinic.name} from pipeline? This deletes the CRM contact.`)) removeContact(contact.id);
+                                          if (confirm(`Remove ${contact.clinic.name} from pipeline? This deletes the CRM contact.`)) {
+                                            undoToast(removeContact(contact.id), `${contact.clinic.name} removed`);
+                                          }
                                         }}
                                         className="ml-auto p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-opacity"
                                         title="Remove from pipeline"
@@ -777,6 +813,12 @@ function CRM() {
                               </div>
                             );
                           })}
+                          {shown.remaining > 0 && (
+                            <button onClick={() => showMore(col.key)}
+                              className="w-full rounded-xl border border-white/[0.06] bg-white/[0.02] hover:bg-white/[0.04] p-2 text-[11px] font-medium text-slate-400 hover:text-slate-200 transition-colors">
+                              Show {Math.min(shown.remaining, BOARD_PAGE_SIZE)} more · {shown.remaining} hidden
+                            </button>
+                          )}
                           {colsData[col.key].length === 0 && (
                             <div className="rounded-xl border border-white/[0.06] bg-white/[0.01] p-3 text-[10px] text-slate-600">
                               No accounts in this stage.
@@ -784,15 +826,17 @@ function CRM() {
                           )}
                         </div>
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 );
               })()}
             </div>
           ) : regions.length > 0 ? (
             <div className="pb-4">
-              {regions.map(region => {
+              {regionsPage.items.map(region => {
                 const isCollapsed = collapsedRegions[region.key];
+                const rows = firstPages(region.contacts, shownPages[region.key] || 1, REGION_ROWS_PAGE_SIZE);
                 return (
                   <div key={region.key} className="mb-1">
                     {/* Region header */}
@@ -842,7 +886,7 @@ function CRM() {
                       <div className="overflow-x-auto">
                       <table className="w-full text-sm min-w-[640px]">
                         <tbody className="divide-y divide-white/[0.04]">
-                          {region.contacts.map(contact => {
+                          {rows.items.map(contact => {
                             const dm = contact.decisionMaker;
                             const hasEmail = !!(dm?.email || contact.clinic.managerEmail);
                             const isOverdue = contact.nextFollowUp && new Date(contact.nextFollowUp) < new Date();
@@ -910,11 +954,33 @@ function CRM() {
                           })}
                         </tbody>
                       </table>
+                      {rows.remaining > 0 && (
+                        <button onClick={() => showMore(region.key)}
+                          className="w-full py-2 text-[11px] font-medium text-slate-400 hover:text-slate-200 hover:bg-white/[0.02] border-t border-white/[0.04] transition-colors">
+                          Show {Math.min(rows.remaining, REGION_ROWS_PAGE_SIZE)} more in {region.city} · {rows.remaining} hidden
+                        </button>
+                      )}
                       </div>
                     )}
                   </div>
                 );
               })}
+              {regionsPage.pageCount > 1 && (
+                <div className="flex items-center justify-between px-6 py-3 text-[11px] text-slate-500">
+                  <span className="tabular-nums">Regions {regionsPage.from}–{regionsPage.to} of {regionsPage.total}</span>
+                  <div className="flex items-center gap-1">
+                    <button onClick={() => setRegionPage(regionsPage.page - 1)} disabled={regionsPage.page === 1}
+                      className="p-1.5 rounded-lg border border-white/[0.06] bg-white/[0.03] text-slate-300 hover:bg-white/[0.06] disabled:opacity-40">
+                      <ChevronLeft className="w-3.5 h-3.5" />
+                    </button>
+                    <span className="tabular-nums px-1">{regionsPage.page} / {regionsPage.pageCount}</span>
+                    <button onClick={() => setRegionPage(regionsPage.page + 1)} disabled={regionsPage.page === regionsPage.pageCount}
+                      className="p-1.5 rounded-lg border border-white/[0.06] bg-white/[0.03] text-slate-300 hover:bg-white/[0.06] disabled:opacity-40">
+                      <ChevronRight className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
             <div className="flex flex-col items-center justify-center h-full text-slate-500">
@@ -971,7 +1037,7 @@ function CRM() {
 
               {/* Drawer Tabs */}
               <div className="flex border-b border-white/[0.06] px-5 shrink-0">
-                {([{ key: 'intel' as const, label: 'Intel', icon: Zap }, { key: 'details' as const, label: 'Details', icon: Building2 }, { key: 'activity' as const, label: 'Activity', icon: Clock }]).map(t => (
+                {([{ key: 'intel' as const, label: 'Intel', icon: Zap }, { key: 'details' as const, label: 'Details', icon: Building2 }, { key: 'emails' as const, label: 'Emails', icon: Mail }, { key: 'activity' as const, label: 'Activity', icon: Clock }]).map(t => (
                   <button key={t.key} onClick={() => setDrawerTab(t.key)} className={cn('flex items-center gap-1 px-3 py-2 text-[11px] font-medium border-b-2 -mb-px transition-colors', drawerTab === t.key ? 'border-novalyte-500 text-novalyte-400' : 'border-transparent text-slate-500 hover:text-slate-300')}>
                     <t.icon className="w-3 h-3" />{t.label}
                   </button>
@@ -1204,6 +1270,63 @@ function CRM() {
                     </div>
                   </Section>
 
+                  <Section title="Field Sources" icon={<Layers className="w-3.5 h-3.5 text-slate-400" />}>
+                    <FieldProvenancePanel contact={selectedContact} />
+                  </Section>
+
+                  {selectedContact.callInsights && (() => {
+                    const ci = selectedContact.callInsights;
+                    const rows: [string, string | undefined][] = [
+                      ['Decision maker', [ci.decisionMakerName, ci.decisionMakerTitle].filter(Boolean).join(' · ') || undefined],
+                      ['Direct line', ci.directLine],
+                      ['Best callback', ci.bestCallbackTime],
+                      ['Agency', ci.marketingAgency],
+                      ['Ad spend', ci.monthlyAdSpend ? `$${ci.monthlyAdSpend.toLocaleString()}/mo` : undefined],
+                      ['Interest', ci.interestLevel],
+                      ['Email given', ci.emailCaptured],
+                      ['Competitor', ci.competitorMentioned],
+                    ];
+                    return (
+                      <Section title="Call Insights" icon={<PhoneCall className="w-3.5 h-3.5 text-emerald-500" />} accent="emerald">
+                        <div className="space-y-2 text-xs">
+                          {rows.filter(([, v]) => v).map(([label, value]) => {
+                            const field = ci.fields.find(f => f.value === value && !f.applied);
+                            return (
+                              <div key={label} className="flex items-center justify-between gap-2">
+                                <span className="text-slate-500">{label}</span>
+                                <span className="font-medium text-slate-300 text-right truncate" title={field ? `${field.reason} (${field.previous})` : undefined}>
+                                  {value}{field && <span className="ml-1 text-[10px] text-amber-400">not applied</span>}
+                                </span>
+                              </div>
+                            );
+                          })}
+                          {ci.objections.length > 0 && (
+                            <div className="flex flex-wrap gap-1">{ci.objections.map((o, i) => <span key={i} className="text-[10px] px-2 py-0.5 rounded bg-red-500/10 text-red-300 border border-red-500/10">{o}</span>)}</div>
+                          )}
+                          <p className="text-[10px] text-slate-600">From call {ci.callId.slice(0, 8)} · {new Date(ci.extractedAt).toLocaleString()}</p>
+                        </div>
+                      </Section>
+                    );
+                  })()}
+
+                  {scoreBreakdown && <Section title={`Score Breakdown · ${scoreBreakdown.score}`} icon={<Target className="w-3.5 h-3.5 text-novalyte-400" />} accent="novalyte">
+                    <div className="space-y-2 text-xs">
+                      {scoreBreakdown.breakdown.map(f => (
+                        <div key={f.id}>
+                          <div className="flex items-center justify-between">
+                            <span className="text-slate-300">{f.label}</span>
+                            <span className="text-slate-400 tabular-nums">{f.points.toFixed(1)} <span className="text-slate-600">/ {(f.weight * 100 / totalScoreWeight).toFixed(0)}</span></span>
+                          </div>
+                          <div className="h-1.5 mt-1 rounded-full bg-white/[0.04] overflow-hidden">
+                            <div className="h-full rounded-full bg-novalyte-500/70" style={{ width: `${Math.round(f.signal * 100)}%` }} />
+                          </div>
+                          <p className="text-[10px] text-slate-500 mt-0.5">{f.detail}</p>
+                        </div>
+                      ))}
+                      <p className="text-[10px] text-slate-600">Model v{scoreBreakdown.modelVersion}</p>
+                    </div>
+                  </Section>}
+
                   <Section title="Market Intelligence" icon={<BarChart3 className="w-3.5 h-3.5 text-emerald-500" />} accent="emerald">
                     <div className="grid grid-cols-2 gap-2 text-xs">
                       <div className="p-2 bg-white/[0.03] rounded-lg"><p className="text-[10px] text-slate-500">Affluence</p><p className="font-bold text-slate-300">{selectedContact.clinic.marketZone.affluenceScore}/10</p></div>
@@ -1294,6 +1417,9 @@ function CRM() {
                   )}
                 </>)}
 
+                {/* EMAILS TAB */}
+                {drawerTab === 'emails' && <EmailThreadPanel contact={selectedContact} />}
+
                 {/* ACTIVITY TAB */}
                 {drawerTab === 'activity' && (<>
                   {/* Attribution Journey */}
@@ -1346,6 +1472,7 @@ function CRM() {
                             status_change: { icon: ArrowUpDown, color: 'text-amber-400', bg: 'bg-amber-500/15' },
                             follow_up_set: { icon: Calendar, color: 'text-blue-400', bg: 'bg-blue-500/15' },
                             enriched: { icon: Sparkles, color: 'text-purple-400', bg: 'bg-purple-500/15' },
+                            voicemail_left: { icon: Voicemail, color: 'text-amber-400', bg: 'bg-amber-500/15' },
                           };
                           const cfg = iconMap[act.type] || { icon: CircleDot, color: 'text-slate-500', bg: 'bg-white/5' };
                           const Icon = cfg.icon;
@@ -1394,6 +1521,8 @@ function CRM() {
       </div>
 
       {/* ═══ Prior Outreach Alert Modal ═══ */}
+      {showScoringModel && <ScoringModelPanel onClose={() => setShowScoringModel(false)} />}
+
       {outreachAlert && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
           <div className="bg-black rounded-xl shadow-2xl w-full max-w-md mx-4 overflow-hidden border border-white/[0.06]">
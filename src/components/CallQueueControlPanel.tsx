@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  CheckCircle2,
+  Loader2,
+  PauseCircle,
+  PhoneCall,
+  PlayCircle,
+  RotateCcw,
+  ShieldAlert,
+  Trash2,
+  XOctagon,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '../utils/cn';
+import {
+  type CallJob,
+  type CallQueueControl,
+  type CallQueueStats,
+  type CallRetryPolicy,
+  type RetryableCallStatus,
+  callQueueService,
+} from '../services/callQueueService';
+
+const EMPTY_STATS: CallQueueStats = {
+  pending: 0,
+  paused: 0,
+  inFlight: 0,
+  completed: 0,
+  failed: 0,
+  cancelled: 0,
+};
+
+const RETRY_LABELS: Record<RetryableCallStatus, string> = {
+  no_answer: 'No answer',
+  voicemail: 'Voicemail',
+  failed: 'Failed',
+};
+
+interface Props {
+  /** Bumped by the parent after it queues a batch so the panel refreshes immediately */
+  refreshKey?: number;
+}
+
+export default function CallQueueControlPanel({ refreshKey }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [stats, setStats] = useState<CallQueueStats>(EMPTY_STATS);
+  const [control, setControl] = useState<CallQueueControl | null>(null);
+  const [jobs, setJobs] = useState<CallJob[]>([]);
+  const [policyDraft, setPolicyDraft] = useState<CallRetryPolicy | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!callQueueService.isConfigured) return;
+    const [nextStats, nextControl, nextJobs] = await Promise.all([
+      callQueueService.fetchStats(),
+      callQueueService.fetchQueueControl(),
+      callQueueService.fetchRecentJobs(40),
+    ]);
+    setStats(nextStats);
+    setControl(nextControl);
+    setJobs(nextJobs);
+  }, []);
+
+  useEffect(() => {
+    refresh().catch(() => {});
+  }, [refresh, refreshKey]);
+
+  // While the page is open it also nudges the dispatcher; a scheduled job keeps it running otherwise.
+  useEffect(() => {
+    if (!callQueueService.isConfigured) return;
+    const id = setInterval(() => {
+      refresh().catch(() => {});
+      callQueueService.runDispatcher(5).catch(() => {});
+    }, 10000);
+    return () => clearInterval(id);
+  }, [refresh]);
+
+  // Open batches: anything with queued, held or live jobs
+  const batches = useMemo(() => {
+    const map = new Map<string, { id: string; pending: number; paused: number; live: number }>();
+    for (const j of jobs) {
+      if (!j.batch_id || !['pending', 'paused', 'dispatching', 'in_call'].includes(j.status)) continue;
+      const b = map.get(j.batch_id) || { id: j.batch_id, pending: 0, paused: 0, live: 0 };
+      if (j.status === 'pending') b.pending++;
+      else if (j.status === 'paused') b.paused++;
+      else b.live++;
+      map.set(j.batch_id, b);
+    }
+    return Array.from(map.values());
+  }, [jobs]);
+
+  const run = async (action: () => Promise<string>, failure: string) => {
+    setLoading(true);
+    try {
+      const message = await action();
+      await refresh();
+      toast.success(message);
+    } catch (err: any) {
+      toast.error(`${failure}: ${err.message || 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pauseQueue = () => run(async () => {
+    await callQueueService.setQueuePaused(true);
+    return 'Call queue paused. Live calls will finish.';
+  }, 'Failed to pause queue');
+
+  const resumeQueue = () => run(async () => {
+    await callQueueService.setQueuePaused(false);
+    await callQueueService.runDispatcher(5);
+    return 'Call queue resumed.';
+  }, 'Failed to resume queue');
+
+  const emergencyStop = () => {
+    if (!confirm('Emergency stop: pause the queue and cancel every queued call?')) return;
+    run(async () => {
+      const cleared = await callQueueService.emergencyStop();
+      return `Emergency stop enabled. ${cleared} queued calls cancelled.`;
+    }, 'Failed to stop queue');
+  };
+
+  const clearQueue = (batchId?: string) => run(async () => {
+    const cleared = await callQueueService.clearQueue(batchId);
+    return `Cancelled ${cleared} queued calls.`;
+  }, 'Failed to clear queue');
+
+  const toggleBatch = (batchId: string, paused: boolean) => run(async () => {
+    await callQueueService.setBatchPaused(batchId, paused);
+    return paused ? 'Batch paused.' : 'Batch resumed.';
+  }, 'Failed to update batch');
+
+  const saveMaxConcurrent = (value: number) => run(async () => {
+    await callQueueService.setMaxConcurrent(value);
+    return `Concurrency limit set to ${Math.max(0, Math.round(value))}.`;
+  }, 'Failed to update limit');
+
+  const savePolicy = () => {
+    if (!policyDraft) return;
+    run(async () => {
+      await callQueueService.setRetryPolicy(policyDraft);
+      setPolicyDraft(null);
+      return 'Retry policy saved.';
+    }, 'Failed to save retry policy');
+  };
+
+  if (!callQueueService.isConfigured) {
+    return (
+      <div className="glass-card p-4 border border-amber-500/30 bg-amber-500/10">
+        <p className="text-xs text-amber-300">Server call queue requires Supabase to be configured — batches run in this tab instead.</p>
+      </div>
+    );
+  }
+
+  const policy = policyDraft || control?.retry_policy;
+  const stopped = control?.emergency_stop;
+  const paused = control?.is_paused;
+
+  return (
+    <div className="glass-card p-4 border border-white/[0.08] space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-200">Call Queue</h3>
+          <p className="text-[11px] text-slate-500">
+            Pending: {stats.pending} · Held: {stats.paused} · Live: {stats.inFlight}/{control?.max_concurrent ?? '—'}
+          </p>
+        </div>
+        <span className={cn('px-2 py-0.5 rounded-full border text-[11px]',
+          stopped ? 'text-red-300 border-red-500/40 bg-red-500/10'
+            : paused ? 'text-amber-300 border-amber-500/40 bg-amber-500/10'
+            : 'text-emerald-300 border-emerald-500/40 bg-emerald-500/10')}>
+          {stopped ? 'Stopped' : paused ? 'Paused' : 'Live'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {paused ? (
+          <button onClick={resumeQueue} disabled={loading}
+            className="px-3 py-2 rounded-lg bg-emerald-500/15 text-emerald-300 border border-emerald-500/40 text-xs font-semibold hover:bg-emerald-500/25 flex items-center gap-1.5">
+            {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <PlayCircle className="w-3.5 h-3.5" />} Resume Queue
+          </button>
+        ) : (
+          <button onClick={pauseQueue} disabled={loading}
+            className="px-3 py-2 rounded-lg bg-amber-500/15 text-amber-300 border border-amber-500/40 text-xs font-semibold hover:bg-amber-500/25 flex items-center gap-1.5">
+            {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <PauseCircle className="w-3.5 h-3.5" />} Pause Queue
+          </button>
+        )}
+        <button onClick={emergencyStop} disabled={loading || stopped}
+          className="px-3 py-2 rounded-lg bg-red-500/15 text-red-300 border border-red-500/40 text-xs font-semibold hover:bg-red-500/25 disabled:opacity-40 flex items-center gap-1.5">
+          <XOctagon className="w-3.5 h-3.5" /> Emergency Stop
+        </button>
+        <button onClick={() => clearQueue()} disabled={loading}
+          className="px-3 py-2 rounded-lg bg-white/5 text-slate-300 border border-white/10 text-xs font-semibold hover:bg-white/10 flex items-center gap-1.5">
+          <Trash2 className="w-3.5 h-3.5" /> Clear Queue
+        </button>
+        <label className="ml-auto flex items-center gap-2 text-[11px] text-slate-500">
+          Max concurrent
+          <input type="number" min={0} max={50} key={control?.max_concurrent} defaultValue={control?.max_concurrent ?? 5}
+            onBlur={e => { const v = Number(e.target.value); if (v !== control?.max_concurrent) saveMaxConcurrent(v); }}
+            className="input w-16 text-center text-xs" />
+        </label>
+      </div>
+
+      {policy && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-[11px]">
+          {(Object.keys(RETRY_LABELS) as RetryableCallStatus[]).map(status => (
+            <div key={status} className="rounded-lg bg-white/[0.02] border border-white/[0.06] p-2 space-y-1">
+              <p className="text-slate-400 font-medium">{RETRY_LABELS[status]}</p>
+              <div className="flex items-center gap-2 text-slate-500">
+                <input type="number" min={1} max={10} value={policy[status].maxAttempts}
+                  onChange={e => setPolicyDraft({ ...policy, [status]: { ...policy[status], maxAttempts: Math.max(1, Number(e.target.value)) } })}
+                  className="input w-12 text-center text-xs" /> tries
+                <input type="number" min={5} max={10080} value={policy[status].delayMinutes}
+                  onChange={e => setPolicyDraft({ ...policy, [status]: { ...policy[status], delayMinutes: Math.max(5, Number(e.target.value)) } })}
+                  className="input w-16 text-center text-xs" /> min apart
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {policyDraft && (
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setPolicyDraft(null)} className="px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-slate-200">Discard</button>
+          <button onClick={savePolicy} disabled={loading}
+            className="px-3 py-1.5 rounded-lg bg-[#06B6D4] text-black text-xs font-semibold hover:bg-[#22D3EE]">Save retry policy</button>
+        </div>
+      )}
+
+      {batches.length > 0 && (
+        <div className="space-y-1">
+          {batches.map(b => (
+            <div key={b.id} className="flex items-center justify-between rounded-lg bg-white/[0.02] border border-white/[0.06] px-2.5 py-2 text-[11px]">
+              <span className="text-slate-400 truncate">{b.id} · {b.pending} queued · {b.paused} held · {b.live} live</span>
+              <div className="flex items-center gap-1.5 shrink-0">
+                {b.paused > 0 ? (
+                  <button onClick={() => toggleBatch(b.id, false)} disabled={loading} className="flex items-center gap-1 text-emerald-300 hover:text-emerald-200">
+                    <RotateCcw className="w-3.5 h-3.5" /> Resume
+                  </button>
+                ) : (
+                  <button onClick={() => toggleBatch(b.id, true)} disabled={loading || b.pending === 0} className="flex items-center gap-1 text-amber-300 hover:text-amber-200 disabled:opacity-40">
+                    <PauseCircle className="w-3.5 h-3.5" /> Hold
+                  </button>
+                )}
+                <button onClick={() => clearQueue(b.id)} disabled={loading} className="text-slate-500 hover:text-red-300">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1 max-h-44 overflow-auto pr-1">
+        {jobs.slice(0, 10).map(job => (
+          <div key={job.id} className="flex items-center justify-between gap-2 rounded-lg bg-white/[0.02] border border-white/[0.06] px-2.5 py-2 text-[11px]">
+            <div className="min-w-0">
+              <p className="text-slate-300 truncate">{job.payload?.clinicName || job.contact_id}</p>
+              <p className="text-slate-600 truncate">
+                Attempt {job.attempts}
+                {job.status === 'pending' && ` · next ${formatDistanceToNow(new Date(job.next_attempt_at), { addSuffix: true })}`}
+                {(job.outcome_reason || job.last_error) && ` · ${job.outcome_reason || job.last_error}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-1.5 shrink-0">
+              {job.status === 'completed' && <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400" />}
+              {job.status === 'in_call' && <PhoneCall className="w-3.5 h-3.5 text-sky-400" />}
+              {job.status === 'failed' && <ShieldAlert className="w-3.5 h-3.5 text-red-400" />}
+              <span className={cn(
+                'px-1.5 py-0.5 rounded border',
+                job.status === 'completed' && 'text-emerald-300 border-emerald-500/30 bg-emerald-500/10',
+                job.status === 'failed' && 'text-red-300 border-red-500/30 bg-red-500/10',
+                ['pending', 'dispatching', 'in_call'].includes(job.status) && 'text-sky-300 border-sky-500/30 bg-sky-500/10',
+                job.status === 'paused' && 'text-amber-300 border-amber-500/30 bg-amber-500/10',
+                job.status === 'cancelled' && 'text-slate-400 border-white/10 bg-white/[0.03]'
+              )}>{job.call_status && job.status === 'pending' ? `retry · ${job.call_status}` : job.status}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
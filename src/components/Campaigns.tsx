@@ -0,0 +1,305 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Megaphone, Plus, Rocket, Pause, Play, CheckCircle2, Trash2, Save, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { undoToast } from './TrashPanel';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import type { Campaign, ClinicType } from '../types';
+import { EMPTY_CAMPAIGN_STATS, computeCampaignStats, findCampaignCandidates } from '../utils/campaigns';
+
+const CLINIC_TYPES: { id: ClinicType; label: string }[] = [
+  { id: 'mens_health_clinic', label: "Men's Health" },
+  { id: 'hormone_clinic', label: 'Hormone' },
+  { id: 'med_spa', label: 'Med Spa' },
+  { id: 'urology_practice', label: 'Urology' },
+  { id: 'anti_aging_clinic', label: 'Anti-Aging' },
+  { id: 'wellness_center', label: 'Wellness' },
+  { id: 'aesthetic_clinic', label: 'Aesthetic' },
+];
+
+const statusStyle: Record<Campaign['status'], string> = {
+  draft: 'bg-slate-500/10 text-slate-400',
+  active: 'bg-emerald-500/10 text-emerald-400',
+  paused: 'bg-amber-500/10 text-amber-400',
+  completed: 'bg-novalyte-500/10 text-novalyte-400',
+};
+
+const rate = (n: number, d: number) => d ? `${Math.round((n / d) * 100)}%` : '—';
+
+function newCampaign(): Campaign {
+  const now = new Date();
+  return {
+    id: `camp-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    name: '',
+    description: '',
+    status: 'draft',
+    targetMarkets: [],
+    targetKeywords: [],
+    clinicTypes: [],
+    script: '',
+    stats: { ...EMPTY_CAMPAIGN_STATS },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export default function Campaigns() {
+  const {
+    campaigns, contacts, sentEmails, activeCalls, callHistory, markets, sequences,
+    saveCampaign, deleteCampaign, launchCampaign, setCampaignStatus, refreshCampaignStats,
+  } = useAppStore();
+  const [draft, setDraft] = useState<Campaign | null>(null);
+  const [keywordsText, setKeywordsText] = useState('');
+
+  // Keep the persisted snapshot in step with what the table shows
+  useEffect(() => { refreshCampaignStats(); }, [contacts, sentEmails, callHistory, refreshCampaignStats]);
+
+  const calls = useMemo(() => [...activeCalls, ...callHistory], [activeCalls, callHistory]);
+  const rows = useMemo(() => campaigns.map(c => ({
+    campaign: c,
+    stats: computeCampaignStats(c, { contacts, sentEmails, calls }),
+  })), [campaigns, contacts, sentEmails, calls]);
+
+  const candidates = useMemo(
+    () => draft ? findCampaignCandidates(draft, contacts, campaigns) : [],
+    [draft, contacts, campaigns],
+  );
+
+  const edit = (c: Campaign) => {
+    setDraft({ ...c });
+    setKeywordsText(c.targetKeywords.join(', '));
+  };
+
+  const patch = (updates: Partial<Campaign>) => setDraft(d => d ? { ...d, ...updates } : d);
+
+  const toggleMarket = (id: string) => {
+    if (!draft) return;
+    const has = draft.targetMarkets.some(m => m.id === id);
+    patch({
+      targetMarkets: has
+        ? draft.targetMarkets.filter(m => m.id !== id)
+        : [...draft.targetMarkets, ...markets.filter(m => m.id === id)],
+    });
+  };
+
+  const toggleType = (id: ClinicType) => {
+    if (!draft) return;
+    patch({ clinicTypes: draft.clinicTypes.includes(id) ? draft.clinicTypes.filter(t => t !== id) : [...draft.clinicTypes, id] });
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) { toast.error('Campaign needs a name'); return; }
+    saveCampaign({ ...draft, name: draft.name.trim() });
+    toast.success(`Saved ${draft.name.trim()}`);
+  };
+
+  const handleLaunch = (c: Campaign) => {
+    if (draft?.id === c.id) saveCampaign({ ...draft, name: draft.name.trim() || c.name });
+    const added = launchCampaign(c.id);
+    toast.success(added ? `${c.name || 'Campaign'} launched — ${added} contacts added` : `${c.name || 'Campaign'} active — no new matching contacts`);
+    setDraft(null);
+  };
+
+  const handleDelete = (c: Campaign) => {
+    if (!confirm(`Delete campaign "${c.name}"? Members are released; past attribution stays on their activity.`)) return;
+    undoToast(deleteCampaign(c.id), `${c.name || 'Campaign'} deleted`);
+    if (draft?.id === c.id) setDraft(null);
+  };
+
+  return (
+    <div className="p-4 lg:p-6 space-y-5 max-w-[1400px] mx-auto">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl lg:text-2xl font-bold text-white flex items-center gap-2">
+            <Megaphone className="w-6 h-6 text-novalyte-400" />
+            Campaigns
+          </h1>
+          <p className="text-xs text-slate-500 mt-0.5">Membership rules, attached sequence and script — stats come from attributed emails, calls and status changes</p>
+        </div>
+        <button onClick={() => edit(newCampaign())}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-novalyte-500/20 text-novalyte-300 text-xs font-medium hover:bg-novalyte-500/30">
+          <Plus className="w-4 h-4" /> New Campaign
+        </button>
+      </div>
+
+      {/* Side-by-side comparison */}
+      <div className="bg-white/[0.02] border border-white/[0.06] rounded-xl overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] text-slate-500 uppercase tracking-wider border-b border-white/[0.06]">
+              <th className="text-left px-4 py-2.5">Campaign</th>
+              <th className="text-right px-3 py-2.5">Contacts</th>
+              <th className="text-right px-3 py-2.5">Emails</th>
+              <th className="text-right px-3 py-2.5">Open</th>
+              <th className="text-right px-3 py-2.5">Reply</th>
+              <th className="text-right px-3 py-2.5">Calls</th>
+              <th className="text-right px-3 py-2.5">Connect</th>
+              <th className="text-right px-3 py-2.5">Voicemail</th>
+              <th className="text-right px-3 py-2.5">Qualified</th>
+              <th className="text-right px-3 py-2.5">Not Int.</th>
+              <th className="px-4 py-2.5" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr><td colSpan={11} className="px-4 py-8 text-center text-slate-500">No campaigns yet — create one to start attributing outreach.</td></tr>
+            )}
+            {rows.map(({ campaign: c, stats: s }) => (
+              <tr key={c.id} onClick={() => edit(c)}
+                className={cn('border-b border-white/[0.04] cursor-pointer hover:bg-white/[0.02]', draft?.id === c.id && 'bg-white/[0.03]')}>
+                <td className="px-4 py-2.5">
+                  <div className="flex items-center gap-2">
+                    <span className="text-slate-200 font-medium">{c.name || 'Untitled'}</span>
+                    <span className={cn('px-1.5 py-0.5 rounded text-[10px] capitalize', statusStyle[c.status])}>{c.status}</span>
+                  </div>
+                  {c.sequenceId && <p className="text-[10px] text-slate-500">{sequences.find(q => q.id === c.sequenceId)?.name || c.sequenceId}</p>}
+                </td>
+                <td className="text-right px-3 text-slate-300">{s.totalContacts}</td>
+                <td className="text-right px-3 text-slate-300">{s.emailsSent}</td>
+                <td className="text-right px-3 text-slate-400">{rate(s.emailsOpened, s.emailsSent)}</td>
+                <td className="text-right px-3 text-slate-400">{rate(s.emailsReplied, s.emailsSent)}</td>
+                <td className="text-right px-3 text-slate-300">{s.called}</td>
+                <td className="text-right px-3 text-slate-400">{rate(s.connected, s.called)}</td>
+                <td className="text-right px-3 text-slate-400">{s.voicemails}</td>
+                <td className="text-right px-3 text-emerald-400">{s.qualified} <span className="text-slate-500">({rate(s.qualified, s.totalContacts)})</span></td>
+                <td className="text-right px-3 text-slate-400">{s.notInterested}</td>
+                <td className="px-4" onClick={e => e.stopPropagation()}>
+                  <div className="flex items-center justify-end gap-1">
+                    {(c.status === 'draft' || c.status === 'active') && (
+                      <button title={c.status === 'draft' ? 'Launch' : 'Add new matching contacts'} onClick={() => handleLaunch(c)}
+                        className="p-1.5 rounded-lg text-novalyte-400 hover:bg-white/[0.06]"><Rocket className="w-3.5 h-3.5" /></button>
+                    )}
+                    {c.status === 'active' && (
+                      <button title="Pause" onClick={() => setCampaignStatus(c.id, 'paused')}
+                        className="p-1.5 rounded-lg text-amber-400 hover:bg-white/[0.06]"><Pause className="w-3.5 h-3.5" /></button>
+                    )}
+                    {c.status === 'paused' && (
+                      <button title="Resume" onClick={() => setCampaignStatus(c.id, 'active')}
+                        className="p-1.5 rounded-lg text-emerald-400 hover:bg-white/[0.06]"><Play className="w-3.5 h-3.5" /></button>
+                    )}
+                    {(c.status === 'active' || c.status === 'paused') && (
+                      <button title="Complete" onClick={() => setCampaignStatus(c.id, 'completed')}
+                        className="p-1.5 rounded-lg text-slate-400 hover:bg-white/[0.06]"><CheckCircle2 className="w-3.5 h-3.5" /></button>
+                    )}
+                    <button title="Delete" onClick={() => handleDelete(c)}
+                      className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-white/[0.06]"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Editor */}
+      {draft && (
+        <div className="bg-white/[0.02] border border-white/[0.06] rounded-xl p-5 grid grid-cols-1 lg:grid-cols-2 gap-5">
+          <div className="space-y-4">
+            <div>
+              <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Name</label>
+              <input value={draft.name} onChange={e => patch({ name: e.target.value })}
+                className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200" />
+            </div>
+            <div>
+              <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Description</label>
+              <textarea value={draft.description} onChange={e => patch({ description: e.target.value })} rows={2}
+                className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200" />
+            </div>
+            <div>
+              <p className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-1.5">Markets <span className="normal-case text-slate-600">(none = all)</span></p>
+              <div className="flex flex-wrap gap-1.5 max-h-32 overflow-auto">
+                {markets.map(m => {
+                  const on = draft.targetMarkets.some(t => t.id === m.id);
+                  return (
+                    <button key={m.id} onClick={() => toggleMarket(m.id)}
+                      className={cn('px-2 py-1 rounded-md text-[11px] border', on ? 'border-novalyte-500/40 bg-novalyte-500/15 text-novalyte-300' : 'border-white/[0.06] text-slate-400 hover:text-slate-200')}>
+                      {m.city}, {m.state}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <div>
+              <p className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-1.5">Clinic types <span className="normal-case text-slate-600">(none = all)</span></p>
+              <div className="flex flex-wrap gap-1.5">
+                {CLINIC_TYPES.map(t => (
+                  <button key={t.id} onClick={() => toggleType(t.id)}
+                    className={cn('px-2 py-1 rounded-md text-[11px] border', draft.clinicTypes.includes(t.id) ? 'border-novalyte-500/40 bg-novalyte-500/15 text-novalyte-300' : 'border-white/[0.06] text-slate-400 hover:text-slate-200')}>
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="col-span-1 text-[10px] text-slate-500">
+                Min score
+                <input type="number" min={0} max={100} value={draft.scoreRange?.min ?? ''} placeholder="—"
+                  onChange={e => {
+                    const v = e.target.value === '' ? undefined : Number(e.target.value);
+                    const max = draft.scoreRange?.max ?? 100;
+                    patch({ scoreRange: v === undefined && max === 100 ? undefined : { min: v ?? 0, max } });
+                  }}
+                  className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1 text-xs text-slate-200" />
+              </label>
+              <label className="col-span-1 text-[10px] text-slate-500">
+                Max score
+                <input type="number" min={0} max={100} value={draft.scoreRange?.max ?? ''} placeholder="—"
+                  onChange={e => {
+                    const v = e.target.value === '' ? undefined : Number(e.target.value);
+                    const min = draft.scoreRange?.min ?? 0;
+                    patch({ scoreRange: v === undefined && min === 0 ? undefined : { min, max: v ?? 100 } });
+                  }}
+                  className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1 text-xs text-slate-200" />
+              </label>
+            </div>
+            <div>
+              <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Keywords <span className="normal-case text-slate-600">(comma separated, any match)</span></label>
+              <input value={keywordsText}
+                onChange={e => {
+                  setKeywordsText(e.target.value);
+                  patch({ targetKeywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean) });
+                }}
+                placeholder="trt, low testosterone, ed treatment"
+                className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200" />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Sequence</label>
+              <select value={draft.sequenceId || ''} onChange={e => patch({ sequenceId: e.target.value || undefined })}
+                className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200">
+                <option value="">No sequence — attribution only</option>
+                {sequences.map(q => <option key={q.id} value={q.id}>{q.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Call script</label>
+              <textarea value={draft.script} onChange={e => patch({ script: e.target.value })} rows={7}
+                placeholder="Talking points the voice agent works into calls for this campaign's contacts"
+                className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200 font-mono" />
+            </div>
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Users className="w-4 h-4 text-novalyte-400" />
+              {candidates.length} matching contact{candidates.length === 1 ? '' : 's'} not yet in a live campaign
+            </div>
+            <div className="flex items-center justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white">Close</button>
+              <button onClick={handleSave}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/[0.06] text-xs text-slate-200 hover:bg-white/[0.1]">
+                <Save className="w-3.5 h-3.5" /> Save
+              </button>
+              {(draft.status === 'draft' || draft.status === 'active') && (
+                <button onClick={() => { if (draft.name.trim()) handleLaunch(draft); else toast.error('Campaign needs a name'); }}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-novalyte-500/20 text-xs text-novalyte-300 hover:bg-novalyte-500/30">
+                  <Rocket className="w-3.5 h-3.5" /> {draft.status === 'draft' ? 'Launch' : 'Add matches'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
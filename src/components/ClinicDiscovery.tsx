@@ -3,17 +3,19 @@ import {
   Building2, Search, RefreshCw, MapPin, Star, Phone, Globe, Plus,
   ExternalLink, Users, Radar, X, ChevronDown, ChevronUp,
   UserSearch, Trash2, CheckCircle2, LayoutGrid, LayoutList, Mail, Download,
-  Brain,
+  Brain, Layers,
 } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import EnrichmentWaterfallPanel from './EnrichmentWaterfallPanel';
 import { clinicService } from '../services/clinicService';
 import { discoveryService } from '../services/discoveryService';
-import { enrichmentService } from '../services/enrichmentService';
+import { enrichmentWaterfallService } from '../services/enrichmentWaterfallService';
 import { googleVerifyService } from '../services/googleVerifyService';
 import { Clinic, CRMContact, MarketZone } from '../types';
 import { computeLeadScore } from '../utils/leadScoring';
 import { cn } from '../utils/cn';
 import toast from 'react-hot-toast';
+import { undoToast } from './TrashPanel';
 
 type SortKey = 'name' | 'rating' | 'reviewCount' | 'type' | 'market';
 type SortDir = 'asc' | 'desc';
@@ -37,6 +39,7 @@ function ClinicDiscovery() {
   const [sortKey, setSortKey] = useState<SortKey>('rating');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
   const [viewMode, setViewMode] = useState<ViewMode>('table');
+  const [showWaterfall, setShowWaterfall] = useState(false);
 
   // ─── Helpers ───
 
@@ -159,7 +162,7 @@ function ClinicDiscovery() {
     if (isInCRM(clinic)) { toast.error(`${clinic.name} is already in CRM`); return; }
     toast.loading('Adding to CRM...', { id: 'adding' });
     try {
-      const dms = await enrichmentService.findDecisionMakers(clinic);
+      const dms = await enrichmentWaterfallService.findDecisionMakers(clinic);
       const best = selectBestDM(dms);
       if (best) {
         const upd: any = { managerName: `${best.firstName} ${best.lastName}`.trim(), managerEmail: best.email };
@@ -183,7 +186,7 @@ function ClinicDiscovery() {
   const handleEnrichClinic = async (clinic: Clinic) => {
     toast.loading('Finding decision makers...', { id: `enrich-${clinic.id}` });
     try {
-      const dms = await enrichmentService.findDecisionMakers(clinic);
+      const dms = await enrichmentWaterfallService.findDecisionMakers(clinic);
       if (!dms.length) { toast('No decision makers found', { id: `enrich-${clinic.id}` }); return; }
       
       // Store ALL decision makers with emails as enrichedContacts
@@ -272,7 +275,7 @@ function ClinicDiscovery() {
       toast.loading(`${i + 1}/${toSave.length}: ${clinic.name}`, { id: 'bulk' });
       let best: any = null;
       try {
-        const dms = await enrichmentService.findDecisionMakers(clinic);
+        const dms = await enrichmentWaterfallService.findDecisionMakers(clinic);
         best = selectBestDM(dms);
         if (best) {
           const enrichedContacts = dms
@@ -523,11 +526,13 @@ function ClinicDiscovery() {
               <Brain className="w-4 h-4 mr-2" /> Push to AI Engine ({filteredClinics.length})
             </button>
           )}
+          <button onClick={() => setShowWaterfall(true)} className="btn btn-secondary" title="Enrichment provider order, credits and ROI">
+            <Layers className="w-4 h-4 mr-2" /> Waterfall
+          </button>
           {clinics.length > 0 && (
             <button onClick={() => {
-              if (confirm(`Clear all ${clinics.length} discovered clinics? This cannot be undone.`)) {
-                useAppStore.getState().clearClinics();
-                toast.success('All clinics cleared');
+              if (confirm(`Clear all ${clinics.length} discovered clinics?`)) {
+                undoToast(useAppStore.getState().clearClinics(), 'All clinics cleared');
               }
             }} className="btn bg-red-500/10 text-red-400 border border-red-500/20 hover:bg-red-500/20">
               <Trash2 className="w-4 h-4 mr-2" /> Clear All ({clinics.length})
@@ -973,6 +978,8 @@ function ClinicDiscovery() {
         </div>
         </div>
       )}
+
+      {showWaterfall && <EnrichmentWaterfallPanel onClose={() => setShowWaterfall(false)} />}
     </div>
   );
 }
@@ -0,0 +1,85 @@
+import { Loader2, RefreshCw, ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import type { AuthCheck, DomainPreflight, DraftPreflight } from '../utils/deliverability';
+
+interface Props {
+  reports: DraftPreflight[];
+  domains: DomainPreflight[];
+  checkingDomains: boolean;
+  onRecheckDomains: () => void;
+}
+
+const authCls: Record<AuthCheck['status'], string> = {
+  pass: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/20',
+  warn: 'bg-amber-500/10 text-amber-300 border-amber-500/20',
+  fail: 'bg-red-500/10 text-red-300 border-red-500/20',
+};
+
+export function preflightScoreCls(report: DraftPreflight): string {
+  return report.verdict === 'block' ? 'bg-red-500/10 text-red-400'
+    : report.verdict === 'flag' ? 'bg-amber-500/10 text-amber-400'
+    : report.issues.length ? 'bg-white/5 text-slate-400'
+    : 'bg-emerald-500/10 text-emerald-400';
+}
+
+export default function DeliverabilityPreflightPanel({ reports, domains, checkingDomains, onRecheckDomains }: Props) {
+  const { preflightPolicy, setPreflightPolicy } = useAppStore();
+  const blocked = reports.filter(r => r.verdict === 'block').length;
+  const flagged = reports.filter(r => r.verdict === 'flag').length;
+  const avg = reports.length ? Math.round(reports.reduce((s, r) => s + r.score, 0) / reports.length) : 0;
+  const Icon = blocked ? ShieldX : flagged ? ShieldAlert : ShieldCheck;
+
+  return (
+    <div className="p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] space-y-2.5">
+      <div className="flex items-center gap-2">
+        <Icon className={cn('w-4 h-4', blocked ? 'text-red-400' : flagged ? 'text-amber-400' : 'text-emerald-400')} />
+        <span className="text-xs font-medium text-slate-300">Deliverability Pre-flight</span>
+        <span className="text-[10px] text-slate-500">
+          avg {avg}/100 · {reports.length - blocked - flagged} pass
+          {flagged > 0 && <span className="text-amber-400"> · {flagged} flagged</span>}
+          {blocked > 0 && <span className="text-red-400"> · {blocked} blocked</span>}
+        </span>
+        <div className="ml-auto flex items-center gap-2 text-[10px] text-slate-500">
+          <label className="flex items-center gap-1">
+            Min score
+            <input type="number" min={0} max={100} value={preflightPolicy.minScore}
+              onChange={e => setPreflightPolicy({ minScore: Math.max(0, Math.min(100, Number(e.target.value) || 0)) })}
+              className="w-12 bg-white/5 border border-white/[0.06] rounded px-1.5 py-0.5 text-slate-300" />
+          </label>
+          <select value={preflightPolicy.onFail} onChange={e => setPreflightPolicy({ onFail: e.target.value as 'block' | 'flag' })}
+            className="bg-white/5 border border-white/[0.06] rounded px-1.5 py-0.5 text-slate-300">
+            <option value="block">Block failures</option>
+            <option value="flag">Flag failures</option>
+          </select>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={preflightPolicy.requireDomainAuth}
+              onChange={e => setPreflightPolicy({ requireDomainAuth: e.target.checked })} />
+            Require SPF + DKIM
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {domains.length === 0 && !checkingDomains && (
+          <span className="text-[10px] text-slate-600">No sending domain to check for this provider</span>
+        )}
+        {domains.map(d => (
+          <div key={d.domain} className="flex items-center gap-1 text-[10px]">
+            <span className="text-slate-400 font-medium">{d.domain}</span>
+            {(['spf', 'dkim', 'dmarc'] as const).map(k => (
+              <span key={k} title={`${d[k].detail}${d[k].record ? `\n${d[k].record}` : ''}`}
+                className={cn('px-1.5 py-0.5 rounded border uppercase', authCls[d[k].status])}>
+                {k}
+              </span>
+            ))}
+          </div>
+        ))}
+        <button onClick={onRecheckDomains} disabled={checkingDomains}
+          className="ml-auto p-1 rounded text-slate-500 hover:text-slate-300 hover:bg-white/[0.06]" title="Re-check DNS">
+          {checkingDomains ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 import {
   Mail, Send, RefreshCw, Search, CheckCircle, Clock,
   AlertCircle, MousePointerClick, TrendingUp,
@@ -7,20 +7,40 @@ import {
   ShieldCheck, ShieldAlert, ShieldX, Trash2,
   Upload, PenLine, Filter, ArrowUpDown, Plus,
   CheckSquare, Square, MinusSquare,
-  Phone, Play, Pause, StopCircle, Eye,
+  Phone, Play, Pause, StopCircle, Eye, Voicemail, LayoutTemplate, Server,
 } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
 import { resendService, SentEmail, EmailEvent } from '../services/resendService';
-import { generatePersonalizedEmail, SequenceStep } from '../services/intelligenceService';
+import { SequenceQueueItem, generatePersonalizedEmail, computeSequenceState, getSequenceQueue } from '../services/intelligenceService';
+import {
+  SequenceBranch, SequenceDefinition, SequenceEmailKind, SequenceEnrollment, SequenceEvent,
+  SequenceStepDefinition, SequenceStepRun, createEnrollment, exitEnrollment, getStep,
+  getStepDayNumbers, getStepRun, isStepDue, markStepExecuted, updateStepRun,
+} from '../services/sequenceEngine';
 import { voiceAgentService } from '../services/voiceAgentService';
 import { smtpSendService } from '../services/smtpSendService';
+import { ScheduledSendRequest, emailScheduleService } from '../services/emailScheduleService';
+import { suppressionService, isSuppressionActive } from '../services/suppressionService';
 import { vertexAI } from '../services/vertexAI';
 import { googleVerifyService } from '../services/googleVerifyService';
-import { CRMContact } from '../types';
+import { emailVerificationService } from '../services/emailVerificationService';
+import { CRMContact, ContactStatus, SuppressionEntry } from '../types';
+import { MissingMergeFieldError, renderEmailTemplate } from '../utils/emailTemplates';
+import TemplateLibraryPanel from './TemplateLibraryPanel';
+import ExperimentsPanel from './ExperimentsPanel';
+import SenderPoolPanel from './SenderPoolPanel';
+import DeliverabilityPreflightPanel, { preflightScoreCls } from './DeliverabilityPreflightPanel';
+import { deliverabilityService } from '../services/deliverabilityService';
+import type { DomainPreflight } from '../utils/deliverability';
+import type { EmailVerification } from '../utils/emailVerification';
+import { computePoolCapacity, remainingFor } from '../utils/senderPool';
+import { applyVariantToTemplate, assignVariant, findActiveExperiment } from '../utils/experiments';
+import { SEND_TIME_BASIS_LABELS, buildSendTimeModel, planSendTime } from '../utils/sendTime';
+import { formatLocalTime, resolveClinicTimezone } from '../utils/callingWindows';
 import { cn } from '../utils/cn';
 import toast from 'react-hot-toast';
+import { undoToast } from './TrashPanel';
 import { format, formatDistanceToNow } from 'date-fns';
-import axios from 'axios';
 
 /* ─── Types ─── */
 type Tab = 'compose' | 'manual' | 'sequences' | 'stream' | 'analytics';
@@ -51,19 +71,15 @@ function getContactEmail(c: CRMContact): string | null {
 /* ─── Email Verification Types ─── */
 type VerificationStatus = 'valid' | 'invalid' | 'risky' | 'unknown' | 'pending';
 
-interface EmailVerification {
-  email: string;
-  status: VerificationStatus;
-  confidence: number; // 0-100
-}
+const VERIFIED_CONFIDENCE: Record<EmailVerification['status'], number> = { valid: 95, invalid: 5, risky: 60, unknown: 40 };
 
 function getEmailConfidence(contact: CRMContact, verifications: Map<string, EmailVerification>): { score: number; status: VerificationStatus; label: string } {
   const email = getContactEmail(contact);
   if (!email) return { score: 0, status: 'unknown', label: 'No email' };
 
-  // Check verification cache first
-  const v = verifications.get(email);
-  if (v) return { score: v.confidence, status: v.status, label: v.status === 'valid' ? 'Verified' : v.status === 'invalid' ? 'Invalid' : v.status === 'risky' ? 'Risky' : 'Unverified' };
+  // Check the shared verification cache first
+  const v = verifications.get(email.toLowerCase());
+  if (v) return { score: VERIFIED_CONFIDENCE[v.status], status: v.status, label: v.status === 'valid' ? 'Verified' : v.status === 'invalid' ? 'Invalid' : v.status === 'risky' ? 'Risky' : 'Unverified' };
 
   // Check DM verification status from enrichment
   const dm = contact.decisionMaker;
@@ -97,12 +113,13 @@ const REVENUEBASE_KEY = (() => {
 export default function EmailOutreach() {
   const {
     contacts, sentEmails, addSentEmails, updateSentEmails,
-    updateContact,
+    updateContact, sendingMailboxes,
   } = useAppStore();
 
   const [tab, setTab] = useState<Tab>('compose');
   const [refreshing, setRefreshing] = useState(false);
   const [sendProvider, setSendProvider] = useState<'resend' | 'smtp'>('resend');
+  const [showSenderPool, setShowSenderPool] = useState(false);
 
   const isConfigured = resendService.isConfigured;
   const smtpConfigured = smtpSendService.isConfigured;
@@ -117,6 +134,7 @@ export default function EmailOutreach() {
     const opened = todayEmails.filter(e => e.lastEvent === 'opened' || e.lastEvent === 'clicked');
     const bounced = todayEmails.filter(e => e.lastEvent === 'bounced');
     const clicked = todayEmails.filter(e => e.lastEvent === 'clicked');
+    const pool = computePoolCapacity(sendingMailboxes, sentEmails);
     return {
       sentToday: todayEmails.length,
       resendSentToday: resendToday.length,
@@ -126,11 +144,12 @@ export default function EmailOutreach() {
       bounced: bounced.length,
       clicked: clicked.length,
       openRate: todayEmails.length ? Math.round((opened.length / todayEmails.length) * 100) : 0,
-      resendRemaining: Math.max(0, 100 - resendToday.length),
-      smtpRemaining: Math.max(0, 900 - smtpToday.length),
+      // Real capacity of the sender pool: warmup caps, health throttling and paused mailboxes
+      resendRemaining: remainingFor(pool, 'resend'),
+      smtpRemaining: remainingFor(pool, 'smtp'),
       total: sentEmails.length,
     };
-  }, [sentEmails]);
+  }, [sentEmails, sendingMailboxes]);
 
   const remainingForProvider = sendProvider === 'smtp' ? stats.smtpRemaining : stats.resendRemaining;
 
@@ -179,6 +198,9 @@ export default function EmailOutreach() {
             )}>
               {remainingForProvider} left
             </span>
+            <button onClick={() => setShowSenderPool(true)} className="text-slate-500 hover:text-slate-200" title="Sender pool — mailboxes, warmup and health">
+              <Server className="w-3.5 h-3.5" />
+            </button>
           </div>
           <button onClick={handleRefreshStatuses} disabled={refreshing || sentEmails.length === 0}
             className="btn btn-secondary gap-2">
@@ -275,6 +297,7 @@ export default function EmailOutreach() {
       {tab === 'analytics' && (
         <AnalyticsTab emails={sentEmails} />
       )}
+      {showSenderPool && <SenderPoolPanel onClose={() => setShowSenderPool(false)} />}
     </div>
   );
 }
@@ -308,7 +331,7 @@ function ComposeTab({
   remaining: number;
   provider: 'resend' | 'smtp';
 }) {
-  const { addContacts, markets, selectedMarket } = useAppStore();
+  const { addContacts, markets, selectedMarket, sendingMailboxes, preflightPolicy, emailVerifications } = useAppStore();
   const [search, setSearch] = useState('');
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -320,7 +343,7 @@ function ComposeTab({
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editSubject, setEditSubject] = useState('');
   const [editBody, setEditBody] = useState('');
-  const [verifications, setVerifications] = useState<Map<string, EmailVerification>>(new Map());
+  const verifications = useMemo(() => new Map(emailVerifications.map(v => [v.email, v])), [emailVerifications]);
   const [verifying, setVerifying] = useState(false);
   const [verifyProgress, setVerifyProgress] = useState({ done: 0, total: 0 });
   const [showImport, setShowImport] = useState(false);
@@ -331,6 +354,8 @@ function ComposeTab({
   const [aiDirection, setAiDirection] = useState('');
   const [googleVerifying, setGoogleVerifying] = useState(false);
   const [googleVerifyProgress, setGoogleVerifyProgress] = useState({ done: 0, total: 0 });
+  const [domainChecks, setDomainChecks] = useState<DomainPreflight[]>([]);
+  const [checkingDomains, setCheckingDomains] = useState(false);
 
   // Eligible contacts: have email, not emailed today
   const eligible = useMemo(() => {
@@ -581,53 +606,47 @@ function ComposeTab({
     const toVerify = selectedContacts.map(c => ({ id: c.id, email: getContactEmail(c)! })).filter(e => e.email);
     const unique = [...new Map(toVerify.map(e => [e.email, e])).values()];
     setVerifyProgress({ done: 0, total: unique.length });
-    const newVerifications = new Map(verifications);
-    let validCount = 0, invalidCount = 0;
+    let validCount = 0, invalidCount = 0, cachedCount = 0;
 
+    // Results land in the store's verification cache; fresh ones are not re-checked
     for (let i = 0; i < unique.length; i += 3) {
       const batch = unique.slice(i, i + 3);
       await Promise.all(batch.map(async ({ email }) => {
-        try {
-          const res = await axios.post('https://api.revenuebase.ai/v1/process-email', { email }, {
-            headers: { 'x-key': REVENUEBASE_KEY, 'Content-Type': 'application/json' }, timeout: 10000,
-          });
-          const status = (res.data.status || res.data.result || res.data.verification_status || '').toLowerCase();
-          let vs: VerificationStatus = 'unknown';
-          let confidence = 40;
-          if (status === 'valid' || status === 'deliverable' || status === 'safe') { vs = 'valid'; confidence = 95; validCount++; }
-          else if (status === 'invalid' || status === 'undeliverable' || status === 'bounce') { vs = 'invalid'; confidence = 5; invalidCount++; }
-          else if (status === 'risky' || status === 'catch-all' || status === 'catch_all' || status === 'accept_all') { vs = 'risky'; confidence = 60; }
-          newVerifications.set(email, { email, status: vs, confidence });
-        } catch (err: any) {
-          if (err?.response?.status === 422 || err?.response?.status === 400) {
-            newVerifications.set(email, { email, status: 'invalid', confidence: 5 }); invalidCount++;
-          } else {
-            newVerifications.set(email, { email, status: 'unknown', confidence: 40 });
-          }
-        }
+        const result = await emailVerificationService.verify(email);
+        if (!result) return;
+        if (result.cached) cachedCount++;
+        if (result.verification.status === 'valid') validCount++;
+        else if (result.verification.status === 'invalid') invalidCount++;
       }));
       setVerifyProgress({ done: Math.min(i + 3, unique.length), total: unique.length });
-      setVerifications(new Map(newVerifications));
     }
 
     setVerifying(false);
-    toast.success(`Verified ${unique.length} emails: ${validCount} valid, ${invalidCount} invalid`);
+    toast.success(`Verified ${unique.length} emails: ${validCount} valid, ${invalidCount} invalid${cachedCount ? ` (${cachedCount} from cache)` : ''}`);
   };
 
   const handleRemoveBadEmails = () => {
     const badIds = new Set<string>();
+    const newSuppressions: SuppressionEntry[] = [];
     for (const c of selectedContacts) {
       const email = getContactEmail(c);
       if (!email) { badIds.add(c.id); continue; }
-      const v = verifications.get(email);
-      if (v?.status === 'invalid') badIds.add(c.id);
-      else if (c.decisionMaker?.emailVerified && c.decisionMaker.emailVerificationStatus === 'invalid') badIds.add(c.id);
-      else if (c.clinic.enrichedContacts?.find(ec => ec.email === email)?.emailVerificationStatus === 'invalid') badIds.add(c.id);
+      if (suppressionService.isEmailSuppressed(email)) { badIds.add(c.id); continue; }
+      const v = verifications.get(email.toLowerCase());
+      const invalid = v?.status === 'invalid'
+        || (c.decisionMaker?.emailVerified && c.decisionMaker.emailVerificationStatus === 'invalid')
+        || c.clinic.enrichedContacts?.find(ec => ec.email === email)?.emailVerificationStatus === 'invalid';
+      if (invalid) {
+        badIds.add(c.id);
+        // Invalid addresses would hard-bounce — keep every channel away from them
+        newSuppressions.push(suppressionService.createEntry({ email, contactId: c.id, reason: 'bounce', source: 'email_verification' }));
+      }
     }
     if (badIds.size === 0) { toast('No invalid emails to remove'); return; }
+    if (newSuppressions.length) useAppStore.getState().addSuppressions(newSuppressions);
     setSelectedIds(prev => { const s = new Set(prev); badIds.forEach(id => s.delete(id)); return s; });
     setDrafts(prev => { const m = new Map(prev); badIds.forEach(id => m.delete(id)); return m; });
-    toast.success(`Removed ${badIds.size} invalid email${badIds.size !== 1 ? 's' : ''}`);
+    toast.success(`Removed ${badIds.size} invalid or suppressed email${badIds.size !== 1 ? 's' : ''}`);
   };
 
   // Verification summary for selected contacts
@@ -729,12 +748,54 @@ function ComposeTab({
     toast.success('Draft updated');
   };
 
+  /* ─── Deliverability pre-flight ─── */
+  const preflight = useMemo(() => new Map(
+    Array.from(drafts.values()).map(d => [d.contactId, deliverabilityService.scoreDraft(d, preflightPolicy)]),
+  ), [drafts, preflightPolicy]);
+
+  // Domains of the pool mailboxes this provider can send from (the SMTP_FROM mailbox has none on record)
+  const sendingDomains = useMemo(() => Array.from(new Set(
+    sendingMailboxes.filter(m => m.provider === provider && m.status === 'active' && m.domain).map(m => m.domain.toLowerCase()),
+  )), [sendingMailboxes, provider]);
+
+  const runDomainCheck = useCallback(async (force = false) => {
+    setCheckingDomains(true);
+    const results = await deliverabilityService.checkDomains(sendingDomains, force);
+    setDomainChecks(results);
+    setCheckingDomains(false);
+    return results;
+  }, [sendingDomains]);
+
+  const hasDrafts = drafts.size > 0;
+  useEffect(() => { if (hasDrafts) runDomainCheck(); }, [hasDrafts, runDomainCheck]);
+
+  /** Drafts cleared to send, or null when the batch should not go out */
+  const runPreflight = async (): Promise<GeneratedDraft[] | null> => {
+    const unauthenticated = (await runDomainCheck()).filter(d => !d.authenticated);
+    if (preflightPolicy.requireDomainAuth && unauthenticated.length) {
+      const names = unauthenticated.map(d => d.domain).join(', ');
+      if (preflightPolicy.onFail === 'block') {
+        toast.error(`Sending blocked: ${names} is missing SPF or DKIM`);
+        return null;
+      }
+      if (!confirm(`${names} is missing SPF or DKIM, so mail from it is likely to land in spam. Send anyway?`)) return null;
+    }
+    const all = Array.from(drafts.values());
+    const flagged = all.filter(d => preflight.get(d.contactId)?.verdict === 'flag');
+    const blocked = all.filter(d => preflight.get(d.contactId)?.verdict === 'block');
+    if (flagged.length && !confirm(`${flagged.length} draft${flagged.length !== 1 ? 's' : ''} scored below ${preflightPolicy.minScore} in pre-flight. Send anyway?`)) return null;
+    if (blocked.length) toast.error(`Held back ${blocked.length} draft${blocked.length !== 1 ? 's' : ''} that failed pre-flight`);
+    return all.filter(d => !blocked.includes(d));
+  };
+
   const handleSendAll = async () => {
     if (sending || drafts.size === 0) return;
     if (provider === 'resend' && !isConfigured) { toast.error('V-send (Resend) not configured'); return; }
     if (provider === 'smtp' && !smtpSendService.isConfigured) { toast.error('SMTP not configured'); return; }
     setSending(true);
-    const toSend = Array.from(drafts.values()).slice(0, remaining);
+    const cleared = await runPreflight();
+    if (!cleared?.length) { setSending(false); return; }
+    const toSend = cleared.slice(0, remaining);
     setSendProgress({ sent: 0, total: toSend.length });
     let successCount = 0;
 
@@ -743,7 +804,7 @@ function ComposeTab({
       try {
         const result = provider === 'smtp'
           ? await smtpSendService.sendAIPersonalized(draft.contact, draft.email, { subject: draft.subject, html: draft.html, text: draft.plainText }, draft.step)
-          : await resendService.sendAIPersonalized(draft.contact, draft.email, { subject: draft.subject, html: draft.html }, draft.step);
+          : await resendService.sendAIPersonalized(draft.contact, draft.email, { subject: draft.subject, html: draft.html, text: draft.plainText }, draft.step);
         addSentEmails([result]);
         const ct = contacts.find(c => c.id === draft.contactId);
         if (ct) {
@@ -1131,6 +1192,12 @@ function ComposeTab({
                           </span>
                         );
                       })()}
+                      {preflight.get(draft.contactId) && (
+                        <span title={preflight.get(draft.contactId)!.issues.map(i => `−${i.penalty} ${i.message}`).join('\n') || 'No deliverability issues'}
+                          className={cn('text-[9px] font-bold px-1.5 py-0.5 rounded', preflightScoreCls(preflight.get(draft.contactId)!))}>
+                          Pre-flight {preflight.get(draft.contactId)!.score}
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-1.5 shrink-0">
                       {!isEditing && (
@@ -1178,6 +1245,9 @@ function ComposeTab({
                       {draft.notes && (
                         <p className="text-[9px] text-purple-400/60 mt-2 italic">AI angle: {draft.notes}</p>
                       )}
+                      {preflight.get(draft.contactId)?.verdict !== 'pass' && preflight.get(draft.contactId)?.issues.map(issue => (
+                        <p key={issue.code} className="text-[10px] text-amber-400/80 mt-1">−{issue.penalty} · {issue.message}</p>
+                      ))}
                     </div>
                   )}
                 </div>
@@ -1252,6 +1322,13 @@ function ComposeTab({
             );
           })()}
 
+          <DeliverabilityPreflightPanel
+            reports={Array.from(preflight.values())}
+            domains={domainChecks}
+            checkingDomains={checkingDomains}
+            onRecheckDomains={() => runDomainCheck(true)}
+          />
+
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <Send className="w-4 h-4 text-novalyte-400" />
@@ -1312,6 +1389,17 @@ function ManualComposeTab({
   const [showBulkImport, setShowBulkImport] = useState(false);
   const [bulkText, setBulkText] = useState('');
 
+  // Saved template mode — rendered per recipient, blocked when a required merge field is empty
+  const { emailTemplates, senderProfiles, experiments } = useAppStore();
+  const [templateId, setTemplateId] = useState('');
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [blocked, setBlocked] = useState<{ email: string; reason: string }[]>([]);
+  const template = emailTemplates.find(t => t.id === templateId && !t.archived);
+  const templateSender = template
+    ? senderProfiles.find(p => p.id === template.senderProfileId) || senderProfiles.find(p => p.isDefault)
+    : undefined;
+  const templateExperiment = template ? findActiveExperiment(experiments, { kind: 'template', templateId: template.id }) : undefined;
+
   // AI Sidecar (Vertex AI / Gemini) — drafts subject + body based on optional context.
   const [aiDirection, setAiDirection] = useState('');
   const [aiContext, setAiContext] = useState('');
@@ -1358,10 +1446,77 @@ function ManualComposeTab({
     toast.success(`Added ${newEmails.length} email${newEmails.length !== 1 ? 's' : ''}`);
   };
 
+  const findContactByEmail = (email: string) => contacts.find(c => {
+    const ce = getContactEmail(c);
+    return ce && ce.toLowerCase() === email;
+  });
+
+  const templateReadiness = useMemo(() => {
+    if (!template) return null;
+    const issues: { email: string; reason: string }[] = [];
+    for (const email of toEmails) {
+      const contact = findContactByEmail(email);
+      if (!contact) { issues.push({ email, reason: 'Not in CRM — nothing to merge' }); continue; }
+      const { missing, unknown } = renderEmailTemplate(template, contact, templateSender);
+      if (missing.length || unknown.length) issues.push({ email, reason: `Empty: ${[...missing, ...unknown].join(', ')}` });
+    }
+    return issues;
+  }, [template, templateSender, toEmails, contacts]);
+
+  const handleTemplateSend = async () => {
+    if (!template) return;
+    setSending(true);
+    setBlocked([]);
+    const toSend = toEmails.slice(0, remaining);
+    setSendProgress({ sent: 0, total: toSend.length });
+    const skipped: { email: string; reason: string }[] = [];
+    let successCount = 0;
+
+    for (let i = 0; i < toSend.length; i++) {
+      const email = toSend[i];
+      const contact = findContactByEmail(email);
+      try {
+        if (!contact) throw new Error('Not in CRM — nothing to merge');
+        // One variant per recipient while an experiment runs; the winner once it is decided
+        const variant = templateExperiment ? assignVariant(templateExperiment) : undefined;
+        const sendAs = variant ? applyVariantToTemplate(template, variant) : template;
+        const assignment = variant && templateExperiment ? { experimentId: templateExperiment.id, variantId: variant.id } : undefined;
+        const result = provider === 'smtp'
+          ? await smtpSendService.sendTemplate(contact, sendAs, email, templateSender, assignment)
+          : await resendService.sendTemplate(contact, sendAs, email, templateSender, assignment);
+        addSentEmails([result]);
+        updateContact(contact.id, {
+          lastContactedAt: new Date(),
+          activities: [...(contact.activities || []), {
+            id: `act-tpl-${Date.now()}-${i}`, type: 'email_sent' as const,
+            description: `Template email sent: "${result.subject}" (${template.name} v${template.version}) to ${email}`,
+            timestamp: new Date(),
+            metadata: { resendId: result.id, templateId: template.id, templateVersion: template.version },
+          }],
+        });
+        successCount++;
+      } catch (err: any) {
+        skipped.push({ email, reason: err instanceof MissingMergeFieldError ? `Empty: ${err.fields.join(', ')}` : (err?.message || 'Send failed') });
+      }
+      setSendProgress({ sent: i + 1, total: toSend.length });
+      if (i < toSend.length - 1) await new Promise(r => setTimeout(r, 1200));
+    }
+
+    setSending(false);
+    setBlocked(skipped);
+    if (successCount > 0) {
+      toast.success(`Sent ${successCount}/${toSend.length} emails${skipped.length ? ` — ${skipped.length} blocked` : ''}`);
+      setToEmails(prev => prev.filter(e => skipped.some(s => s.email === e)));
+    } else {
+      toast.error('No emails sent — see blocked recipients');
+    }
+  };
+
   const handleSend = async () => {
     if (provider === 'resend' && !isConfigured) { toast.error('V-send (Resend) not configured'); return; }
     if (provider === 'smtp' && !smtpSendService.isConfigured) { toast.error('SMTP not configured'); return; }
     if (toEmails.length === 0) { toast.error('Add at least one recipient'); return; }
+    if (template) { await handleTemplateSend(); return; }
     if (!subject.trim()) { toast.error('Subject is required'); return; }
     if (!body.trim()) { toast.error('Body is required'); return; }
 
@@ -1503,6 +1658,7 @@ function ManualComposeTab({
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-[1.15fr_0.85fr] gap-4">
+      {showLibrary && <TemplateLibraryPanel onClose={() => setShowLibrary(false)} initialTemplateId={templateId || undefined} />}
       <div className="space-y-4">
       {provider === 'resend' && !isConfigured && (
         <div className="glass-card p-4 border-amber-500/20 flex items-center gap-3">
@@ -1594,11 +1750,52 @@ function ManualComposeTab({
 
       {/* Compose */}
       <div className="glass-card p-5 space-y-4">
-        <div className="flex items-center gap-2">
-          <PenLine className="w-4 h-4 text-novalyte-400" />
-          <h3 className="text-sm font-semibold text-slate-200">Compose Email</h3>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <PenLine className="w-4 h-4 text-novalyte-400" />
+            <h3 className="text-sm font-semibold text-slate-200">Compose Email</h3>
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={templateId} onChange={e => { setTemplateId(e.target.value); setBlocked([]); }}
+              className="px-2 py-1.5 rounded-lg bg-white/[0.03] border border-white/[0.08] text-[11px] text-slate-300 outline-none">
+              <option value="">Free-form</option>
+              {emailTemplates.filter(t => !t.archived).map(t => <option key={t.id} value={t.id}>{t.name} (v{t.version})</option>)}
+            </select>
+            <button onClick={() => setShowLibrary(true)}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11px] font-medium border bg-white/[0.03] text-slate-400 border-white/[0.06] hover:bg-white/[0.06]">
+              <LayoutTemplate className="w-3 h-3" /> Library
+            </button>
+          </div>
         </div>
 
+        {template ? (
+          <div className="space-y-2">
+            <p className="text-[11px] text-slate-400">
+              Sending <span className="text-slate-200">{template.name}</span> v{template.version}
+              {templateSender && <> as <span className="text-slate-200">{templateSender.fromName} &lt;{templateSender.fromEmail}&gt;</span></>} — rendered per recipient from their CRM record.
+            </p>
+            {templateExperiment && (
+              <p className="text-[11px] text-violet-300">
+                {templateExperiment.status === 'running'
+                  ? <>A/B test <span className="text-violet-200">{templateExperiment.name}</span> is running — each recipient gets one of {templateExperiment.variants.length} variants.</>
+                  : <>A/B test <span className="text-violet-200">{templateExperiment.name}</span> decided — sending the winning variant.</>}
+              </p>
+            )}
+            {templateReadiness && templateReadiness.length > 0 && (
+              <div className="px-3 py-2 rounded-lg bg-amber-500/10 border border-amber-500/20 text-[11px] text-amber-300 space-y-0.5">
+                <p className="font-medium">{templateReadiness.length} recipient{templateReadiness.length !== 1 ? 's' : ''} will be blocked:</p>
+                {templateReadiness.slice(0, 6).map(r => <p key={r.email} className="text-amber-300/80">{r.email} — {r.reason}</p>)}
+                {templateReadiness.length > 6 && <p className="text-amber-300/60">…and {templateReadiness.length - 6} more</p>}
+              </div>
+            )}
+            {blocked.length > 0 && (
+              <div className="px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-[11px] text-red-300 space-y-0.5">
+                <p className="font-medium">Not sent:</p>
+                {blocked.map(r => <p key={r.email} className="text-red-300/80">{r.email} — {r.reason}</p>)}
+              </div>
+            )}
+          </div>
+        ) : (<>
         <div>
           <label className="text-[10px] text-slate-500 block mb-1">Subject</label>
           <input value={subject} onChange={e => setSubject(e.target.value)}
@@ -1613,13 +1810,14 @@ function ManualComposeTab({
             rows={10}
             className="w-full px-3 py-2 rounded-lg bg-white/[0.03] border border-white/[0.08] text-sm text-slate-300 placeholder:text-slate-600 outline-none focus:border-novalyte-500/30 resize-y leading-relaxed" />
         </div>
+        </>)}
 
         <div className="flex items-center justify-between">
           <p className="text-[10px] text-slate-500">
             {toEmails.length} recipient{toEmails.length !== 1 ? 's' : ''} · {remaining} sends remaining today
           </p>
           <button onClick={handleSend}
-            disabled={(provider === 'resend' ? !isConfigured : !smtpSendService.isConfigured) || sending || toEmails.length === 0 || !subject.trim() || !body.trim() || remaining === 0}
+            disabled={(provider === 'resend' ? !isConfigured : !smtpSendService.isConfigured) || sending || toEmails.length === 0 || (!template && (!subject.trim() || !body.trim())) || remaining === 0}
             className={cn('btn gap-2', sending ? 'btn-secondary' : 'btn-primary')}>
             {sending ? (
               <><Loader2 className="w-4 h-4 animate-spin" /> Sending {sendProgress.sent}/{sendProgress.total}</>
@@ -1745,70 +1943,241 @@ function ManualComposeTab({
 
 
 /* ═══════════════════════════════════════════════════════════════
-   SEQUENCES TAB — Smart sequencing engine view
+   SEQUENCES TAB — runs whatever the selected sequence defines
    ═══════════════════════════════════════════════════════════════ */
 
-const stepConfig: Record<SequenceStep, { label: string; color: string; bg: string; icon: typeof Mail; day: number }> = {
-  intro: { label: 'Day 1 · Intro Email', color: 'text-blue-400', bg: 'bg-blue-500/10', icon: Mail, day: 1 },
-  follow_up: { label: 'Day 2 · Follow-Up', color: 'text-amber-400', bg: 'bg-amber-500/10', icon: Send, day: 2 },
-  phone_call: { label: 'Day 3 · Phone Call', color: 'text-novalyte-400', bg: 'bg-novalyte-500/10', icon: Phone, day: 3 },
-  value_add: { label: 'Day 4 · Value-Add', color: 'text-purple-400', bg: 'bg-purple-500/10', icon: Sparkles, day: 4 },
-  breakup: { label: 'Day 5 · Breakup', color: 'text-red-400', bg: 'bg-red-500/10', icon: MailX, day: 5 },
-  completed: { label: 'Completed', color: 'text-emerald-400', bg: 'bg-emerald-500/10', icon: CheckCircle, day: 0 },
-  replied: { label: 'Engaged', color: 'text-violet-400', bg: 'bg-violet-500/10', icon: MailOpen, day: 0 },
-  opted_out: { label: 'Opted Out', color: 'text-slate-500', bg: 'bg-white/5', icon: AlertCircle, day: 0 },
+const emailKindConfig: Record<SequenceEmailKind, { label: string; desc: string; color: string; bg: string; icon: typeof Mail }> = {
+  intro: { label: 'Intro', desc: 'Personalized intro with market data', color: 'text-blue-400', bg: 'bg-blue-500/10', icon: Mail },
+  follow_up: { label: 'Follow-Up', desc: 'Reference intro, add new value', color: 'text-amber-400', bg: 'bg-amber-500/10', icon: Send },
+  value_add: { label: 'Value-Add', desc: 'Case study or market insight', color: 'text-purple-400', bg: 'bg-purple-500/10', icon: Sparkles },
+  breakup: { label: 'Breakup', desc: 'Graceful close, leave door open', color: 'text-red-400', bg: 'bg-red-500/10', icon: MailX },
+  voicemail_follow_up: { label: 'Voicemail Follow-Up', desc: 'Reference the voicemail we just left', color: 'text-teal-400', bg: 'bg-teal-500/10', icon: Voicemail },
 };
 
-function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts: CRMContact[]; sentEmails: SentEmail[]; provider: 'resend' | 'smtp'; remaining: number }) {
-  /* ─── 5-Day Sequence Types ─── */
-  type SeqStatus = 'active' | 'paused' | 'stopped' | 'completed' | 'replied';
-
-  interface StepDraft {
-    day: number;
-    step: SequenceStep;
-    type: 'email' | 'phone';
-    status: 'pending' | 'generating' | 'ready' | 'sent' | 'called' | 'skipped';
-    subject?: string;
-    body?: string;
-    html?: string;
-    callId?: string;
-    callStatus?: string;
-    executedAt?: Date;
-    edited?: boolean;
+function getStepVisual(step: SequenceStepDefinition): { desc: string; color: string; bg: string; icon: typeof Mail } {
+  if (step.channel === 'vapi_call') {
+    return { desc: step.instructions || 'Voice agent call via Vapi', color: 'text-novalyte-400', bg: 'bg-novalyte-500/10', icon: Phone };
   }
-
-  interface Enrollment {
-    contactId: string;
-    status: SeqStatus;
-    currentDay: number;
-    enrolledAt: Date;
-    steps: StepDraft[];
+  if (step.channel === 'manual_task') {
+    return { desc: step.instructions || 'Manual task', color: 'text-slate-300', bg: 'bg-white/5', icon: CheckSquare };
   }
+  const cfg = emailKindConfig[step.emailKind || 'intro'];
+  return { ...cfg, desc: step.instructions || cfg.desc };
+}
+
+const SEQUENCE_EVENTS: SequenceEvent[] = ['opened', 'clicked', 'replied', 'bounced'];
+
+function newStepId() {
+  return `step-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/* ─── Sequence editor ─── */
+function SequenceEditor({ sequence, onSave, onCancel }: {
+  sequence: SequenceDefinition;
+  onSave: (sequence: SequenceDefinition) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<SequenceDefinition>(sequence);
+
+  const updateStep = (id: string, patch: Partial<SequenceStepDefinition>) => {
+    setDraft(d => ({ ...d, steps: d.steps.map(s => s.id === id ? { ...s, ...patch } : s) }));
+  };
+  const addStep = () => {
+    setDraft(d => ({
+      ...d,
+      steps: [...d.steps, { id: newStepId(), name: 'Follow-Up Email', channel: 'email', emailKind: 'follow_up', delay: { days: 2 } }],
+    }));
+  };
+  const removeStep = (id: string) => {
+    setDraft(d => ({
+      ...d,
+      steps: d.steps
+        .filter(s => s.id !== id)
+        .map(s => ({ ...s, branches: s.branches?.filter(b => b.targetStepId !== id) })),
+    }));
+  };
+  const setBranch = (stepId: string, idx: number, patch: Partial<SequenceBranch> | null) => {
+    setDraft(d => ({
+      ...d,
+      steps: d.steps.map(s => {
+        if (s.id !== stepId) return s;
+        const branches = [...(s.branches || [])];
+        if (patch === null) branches.splice(idx, 1);
+        else if (idx >= branches.length) branches.push({ on: 'clicked', action: 'exit', ...patch });
+        else branches[idx] = { ...branches[idx], ...patch };
+        return { ...s, branches };
+      }),
+    }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) { toast.error('Sequence needs a name'); return; }
+    if (draft.steps.length === 0) { toast.error('Add at least one step'); return; }
+    onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  const inputCls = 'bg-white/[0.03] border border-white/[0.08] rounded-md px-2 py-1 text-[11px] text-slate-200 outline-none focus:border-novalyte-500/30';
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Edit3 className="w-4 h-4 text-novalyte-400" />
+        <h4 className="text-sm font-semibold text-slate-200">Edit Sequence</h4>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+          placeholder="Sequence name" className={cn(inputCls, 'text-xs py-2')} />
+        <input value={draft.description} onChange={e => setDraft(d => ({ ...d, description: e.target.value }))}
+          placeholder="Description" className={cn(inputCls, 'text-xs py-2')} />
+      </div>
+
+      <div className="space-y-2">
+        {draft.steps.map((s, i) => (
+          <div key={s.id} className="rounded-lg border border-white/[0.06] bg-white/[0.01] p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-[10px] font-bold text-slate-500 w-5">{i + 1}</span>
+              <input value={s.name} onChange={e => updateStep(s.id, { name: e.target.value })} className={cn(inputCls, 'flex-1 min-w-[140px]')} />
+              <select value={s.channel} onChange={e => updateStep(s.id, { channel: e.target.value as SequenceStepDefinition['channel'] })} className={inputCls}>
+                <option value="email">Email</option>
+                <option value="vapi_call">Vapi Call</option>
+                <option value="manual_task">Manual Task</option>
+              </select>
+              {s.channel === 'email' && (
+                <select value={s.emailKind || 'intro'} onChange={e => updateStep(s.id, { emailKind: e.target.value as SequenceEmailKind })} className={inputCls}>
+                  {(Object.keys(emailKindConfig) as SequenceEmailKind[]).map(k => (
+                    <option key={k} value={k}>{emailKindConfig[k].label}</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                {i === 0 ? 'Start after' : 'Wait'}
+                <input type="number" min={0} value={s.delay.days}
+                  onChange={e => updateStep(s.id, { delay: { ...s.delay, days: Math.max(0, Number(e.target.value) || 0) } })}
+                  className={cn(inputCls, 'w-14')} />
+                days
+              </label>
+              <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                <input type="checkbox" checked={!!s.delay.businessDaysOnly}
+                  onChange={e => updateStep(s.id, { delay: { ...s.delay, businessDaysOnly: e.target.checked } })} />
+                business days
+              </label>
+              <button onClick={() => removeStep(s.id)} className="p-1 rounded hover:bg-white/[0.05] text-slate-500 hover:text-red-400" title="Remove step">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {s.channel !== 'email' && (
+              <input value={s.instructions || ''} onChange={e => updateStep(s.id, { instructions: e.target.value })}
+                placeholder="Instructions (shown on the timeline)" className={cn(inputCls, 'w-full')} />
+            )}
+            {(s.branches || []).map((b, bi) => (
+              <div key={bi} className="flex flex-wrap items-center gap-2 pl-7 text-[10px] text-slate-500">
+                If
+                <select value={b.on} onChange={e => setBranch(s.id, bi, { on: e.target.value as SequenceEvent })} className={inputCls}>
+                  {SEQUENCE_EVENTS.map(ev => <option key={ev} value={ev}>{ev}</option>)}
+                </select>
+                then
+                <select value={b.action} onChange={e => setBranch(s.id, bi, { action: e.target.value as SequenceBranch['action'] })} className={inputCls}>
+                  <option value="goto">jump to</option>
+                  <option value="pause">pause</option>
+                  <option value="exit">exit</option>
+                </select>
+                {b.action === 'goto' && (
+                  <select value={b.targetStepId || ''} onChange={e => setBranch(s.id, bi, { targetStepId: e.target.value })} className={inputCls}>
+                    <option value="">Select step…</option>
+                    {draft.steps.slice(i + 1).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                )}
+                {b.action === 'pause' && (
+                  <>
+                    <input type="number" min={1} value={b.pauseDays ?? 1}
+                      onChange={e => setBranch(s.id, bi, { pauseDays: Math.max(1, Number(e.target.value) || 1) })}
+                      className={cn(inputCls, 'w-14')} />
+                    days
+                  </>
+                )}
+                <button onClick={() => setBranch(s.id, bi, null)} className="p-1 rounded hover:bg-white/[0.05] hover:text-red-400" title="Remove branch">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            <button onClick={() => setBranch(s.id, (s.branches || []).length, {})}
+              className="ml-7 text-[10px] text-novalyte-400 hover:text-novalyte-300">+ Add branch</button>
+          </div>
+        ))}
+        <button onClick={addStep} className="btn btn-secondary gap-1 text-xs">
+          <Plus className="w-3 h-3" /> Add Step
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[11px] text-slate-400">
+        <span className="text-[10px] text-slate-500 uppercase tracking-wider">Exit when</span>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={draft.exitConditions.onReply}
+            onChange={e => setDraft(d => ({ ...d, exitConditions: { ...d.exitConditions, onReply: e.target.checked } }))} />
+          reply received
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={draft.exitConditions.onBounce}
+            onChange={e => setDraft(d => ({ ...d, exitConditions: { ...d.exitConditions, onBounce: e.target.checked } }))} />
+          email bounces
+        </label>
+        {(['qualified', 'not_interested', 'wrong_number'] as ContactStatus[]).map(st => (
+          <label key={st} className="flex items-center gap-1">
+            <input type="checkbox" checked={draft.exitConditions.onStatuses.includes(st)}
+              onChange={e => setDraft(d => ({
+                ...d,
+                exitConditions: {
+                  ...d.exitConditions,
+                  onStatuses: e.target.checked
+                    ? [...d.exitConditions.onStatuses, st]
+                    : d.exitConditions.onStatuses.filter(x => x !== st),
+                },
+              }))} />
+            status → {st.replace(/_/g, ' ')}
+          </label>
+        ))}
+      </div>
 
-  const SEQ_BLUEPRINT: { day: number; step: SequenceStep; type: 'email' | 'phone'; label: string; desc: string }[] = [
-    { day: 1, step: 'intro', type: 'email', label: 'Intro Email', desc: 'Personalized intro with market data' },
-    { day: 2, step: 'follow_up', type: 'email', label: 'Follow-Up Email', desc: 'Reference intro, add new value' },
-    { day: 3, step: 'phone_call', type: 'phone', label: 'Phone Call (Kaizen)', desc: 'Voice agent call via Vapi' },
-    { day: 4, step: 'value_add', type: 'email', label: 'Value-Add Email', desc: 'Case study or market insight' },
-    { day: 5, step: 'breakup', type: 'email', label: 'Breakup Email', desc: 'Graceful close, leave door open' },
-  ];
+      <div className="flex items-center gap-2 justify-end">
+        <button onClick={onCancel} className="btn btn-secondary text-xs">Cancel</button>
+        <button onClick={handleSave} className="btn btn-primary text-xs gap-1">
+          <CheckCircle className="w-3.5 h-3.5" /> Save Sequence
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts: CRMContact[]; sentEmails: SentEmail[]; provider: 'resend' | 'smtp'; remaining: number }) {
+  const {
+    sequences, sequenceEnrollments, saveSequence, deleteSequence,
+    upsertSequenceEnrollments, removeSequenceEnrollment, addSentEmails, suppressions, experiments, syncScheduledSends,
+  } = useAppStore();
 
   /* ─── State ─── */
-  const [enrollments, setEnrollments] = useState<Map<string, Enrollment>>(new Map());
+  const [activeSequenceId, setActiveSequenceId] = useState<string>(sequences[0]?.id || '');
+  const [editingSequence, setEditingSequence] = useState<SequenceDefinition | null>(null);
   const [showEnroll, setShowEnroll] = useState(false);
   const [enrollSearch, setEnrollSearch] = useState('');
   const [enrollSelected, setEnrollSelected] = useState<Set<string>>(new Set());
   const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [editingStep, setEditingStep] = useState<{ contactId: string; day: number } | null>(null);
+  const [editingStep, setEditingStep] = useState<{ enrollmentId: string; stepId: string } | null>(null);
   const [editSubject, setEditSubject] = useState('');
   const [editBody, setEditBody] = useState('');
   const [generating, setGenerating] = useState(false);
   const [genProgress, setGenProgress] = useState({ done: 0, total: 0 });
   const [executing, setExecuting] = useState(false);
   const [execProgress, setExecProgress] = useState({ done: 0, total: 0 });
+  const [bestSendTime, setBestSendTime] = useState(true);
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'paused' | 'completed' | 'replied'>('all');
   const [sequenceDirection, setSequenceDirection] = useState('');
 
+  const activeSequence = sequences.find(s => s.id === activeSequenceId) || sequences[0];
+  const sequenceById = useMemo(() => new Map(sequences.map(s => [s.id, s])), [sequences]);
+
+  /** Latest enrollment from the store — handlers run async loops, so never trust a render-time copy */
+  const freshEnrollment = (id: string) => useAppStore.getState().sequenceEnrollments.find(e => e.id === id);
+
   /* ─── Source detection helpers ─── */
   const getSource = (c: CRMContact): 'ai-engine' | 'discovery' | 'crm' => {
     if (c.tags?.includes('drip-sequence')) return 'ai-engine';
@@ -1824,13 +2193,17 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
 
   const [sourceFilter, setSourceFilter] = useState<'all' | 'ai-engine' | 'discovery' | 'crm'>('all');
 
-  /* ─── Eligible contacts for enrollment ─── */
+  /* ─── Eligible contacts for enrollment (not already in a live sequence, not suppressed) ─── */
   const eligible = useMemo(() => {
+    const live = new Set(sequenceEnrollments
+      .filter(e => e.status === 'active' || e.status === 'paused')
+      .map(e => e.contactId));
+    const suppressedIds = new Set(suppressions.filter(s => isSuppressionActive(s)).map(s => s.contactId).filter(Boolean));
     return contacts.filter(c => {
       const email = getContactEmail(c);
-      return !!email && !enrollments.has(c.id);
+      return !!email && !live.has(c.id) && !suppressedIds.has(c.id) && !suppressionService.isEmailSuppressed(email);
     }).sort((a, b) => b.score - a.score);
-  }, [contacts, enrollments]);
+  }, [contacts, sequenceEnrollments, suppressions]);
 
   /* ─── Source counts ─── */
   const sourceCounts = useMemo(() => {
@@ -1861,73 +2234,82 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
 
   /* ─── Enrollment list with filters ─── */
   const enrollmentList = useMemo(() => {
-    const list = Array.from(enrollments.entries()).map(([id, e]) => ({
-      enrollment: e,
-      contact: contacts.find(c => c.id === id)!,
-    })).filter(x => x.contact);
+    const contactById = new Map(contacts.map(c => [c.id, c]));
+    const list = sequenceEnrollments
+      .map(e => ({ enrollment: e, contact: contactById.get(e.contactId)!, sequence: sequenceById.get(e.sequenceId)! }))
+      .filter(x => x.contact && x.sequence);
     if (filterStatus === 'all') return list;
     return list.filter(x => x.enrollment.status === filterStatus);
-  }, [enrollments, contacts, filterStatus]);
+  }, [sequenceEnrollments, contacts, sequenceById, filterStatus]);
 
   /* ─── Stats ─── */
   const seqStats = useMemo(() => {
     let active = 0, paused = 0, completed = 0, replied = 0, stopped = 0;
-    enrollments.forEach(e => {
+    sequenceEnrollments.forEach(e => {
       if (e.status === 'active') active++;
       else if (e.status === 'paused') paused++;
       else if (e.status === 'completed') completed++;
       else if (e.status === 'replied') replied++;
       else if (e.status === 'stopped') stopped++;
     });
-    return { total: enrollments.size, active, paused, completed, replied, stopped };
-  }, [enrollments]);
-
-  /* ─── Check reply detection from sent emails ─── */
-  const checkReplies = useCallback(() => {
-    setEnrollments(prev => {
-      const updated = new Map(prev);
-      let changed = false;
-      for (const [id, enrollment] of updated) {
-        if (enrollment.status !== 'active') continue;
-        const contact = contacts.find(c => c.id === id);
-        const hasReply = Boolean(contact?.activities?.some(a => a.type === 'email_reply'));
-        const contactEmails = sentEmails.filter(e => e.contactId === id);
-        const hasBounce = contactEmails.some(e => e.lastEvent === 'bounced');
-        if (hasReply) {
-          updated.set(id, { ...enrollment, status: 'replied' });
-          changed = true;
-        } else if (hasBounce) {
-          updated.set(id, { ...enrollment, status: 'stopped' });
-          changed = true;
-        }
-      }
-      return changed ? updated : prev;
+    return { total: sequenceEnrollments.length, active, paused, completed, replied, stopped };
+  }, [sequenceEnrollments]);
+
+  /* ─── Pick up scheduled sends that went out (or failed) while the tab was closed ─── */
+  useEffect(() => {
+    syncScheduledSends().catch(() => {});
+  }, [syncScheduledSends]);
+
+  /* ─── Re-evaluate exit conditions + branches whenever outreach state changes ─── */
+  useEffect(() => {
+    const changed: SequenceEnrollment[] = [];
+    for (const e of sequenceEnrollments) {
+      const next = computeSequenceState(e, sequences, contacts, sentEmails);
+      if (next !== e) changed.push(next);
+    }
+    if (changed.length > 0) upsertSequenceEnrollments(changed);
+  }, [sentEmails, contacts, sequences, sequenceEnrollments, upsertSequenceEnrollments]);
+
+  /* ─── Sequence definitions ─── */
+  const handleSaveSequence = (seq: SequenceDefinition) => {
+    saveSequence(seq);
+    setActiveSequenceId(seq.id);
+    setEditingSequence(null);
+    toast.success(`Saved "${seq.name}"`);
+  };
+
+  const handleNewSequence = () => {
+    const now = new Date();
+    setEditingSequence({
+      ...activeSequence,
+      id: `seq-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      name: `${activeSequence?.name || 'Sequence'} (copy)`,
+      steps: (activeSequence?.steps || []).map(s => ({ ...s })),
+      createdAt: now,
+      updatedAt: now,
     });
-  }, [sentEmails, contacts]);
+  };
 
-  // Auto-check replies when sentEmails change
-  useMemo(() => { checkReplies(); }, [sentEmails]);
+  const handleDeleteSequence = () => {
+    if (!activeSequence || sequences.length <= 1) return;
+    const inUse = sequenceEnrollments.filter(e => e.sequenceId === activeSequence.id).length;
+    if (inUse > 0 && !confirm(`Delete "${activeSequence.name}" and its ${inUse} enrollment(s)?`)) return;
+    deleteSequence(activeSequence.id);
+    setActiveSequenceId(sequences.find(s => s.id !== activeSequence.id)?.id || '');
+    toast.success('Sequence deleted');
+  };
 
-  /* ─── Enroll clinics into sequence ─── */
+  /* ─── Enroll clinics into the selected sequence ─── */
   const handleEnroll = () => {
-    if (enrollSelected.size === 0) return;
-    const newEnrollments = new Map(enrollments);
-    let count = 0;
-    for (const id of enrollSelected) {
-      if (newEnrollments.has(id)) continue;
-      const steps: StepDraft[] = SEQ_BLUEPRINT.map(s => ({
-        day: s.day, step: s.step, type: s.type, status: 'pending' as const,
-      }));
-      newEnrollments.set(id, {
-        contactId: id, status: 'active', currentDay: 1,
-        enrolledAt: new Date(), steps,
-      });
-      count++;
-    }
-    setEnrollments(newEnrollments);
+    if (enrollSelected.size === 0 || !activeSequence) return;
+    const eligibleIds = new Set(eligible.map(c => c.id));
+    const created = Array.from(enrollSelected)
+      .filter(id => eligibleIds.has(id))
+      .map(id => createEnrollment(id, activeSequence));
+    upsertSequenceEnrollments(created);
     setEnrollSelected(new Set());
     setShowEnroll(false);
-    toast.success(`Enrolled ${count} clinic${count !== 1 ? 's' : ''} in 5-day sequence`);
+    toast.success(`Enrolled ${created.length} clinic${created.length !== 1 ? 's' : ''} in "${activeSequence.name}"`);
   };
 
   const handleEnrollStagedFromAI = () => {
@@ -1937,116 +2319,111 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
     setShowEnroll(true);
   };
 
-  /* ─── AI Generate all email steps for an enrollment ─── */
-  const handleGenerateSteps = async (contactId: string) => {
-    const contact = contacts.find(c => c.id === contactId);
-    const enrollment = enrollments.get(contactId);
-    if (!contact || !enrollment) return;
-    setGenerating(true);
-    const emailSteps = enrollment.steps.filter(s => s.type === 'email' && s.status === 'pending');
-    setGenProgress({ done: 0, total: emailSteps.length });
-    const updatedSteps = [...enrollment.steps];
-
-    for (let i = 0; i < emailSteps.length; i++) {
-      const s = emailSteps[i];
-      const idx = updatedSteps.findIndex(us => us.day === s.day);
-      updatedSteps[idx] = { ...updatedSteps[idx], status: 'generating' };
-      setEnrollments(prev => {
-        const m = new Map(prev);
-        m.set(contactId, { ...enrollment, steps: [...updatedSteps] });
-        return m;
-      });
-
+  /* ─── AI-generate pending email steps for one enrollment ─── */
+  const pendingEmailSteps = (enrollment: SequenceEnrollment, sequence: SequenceDefinition) =>
+    sequence.steps.filter(s => s.channel === 'email' && (getStepRun(enrollment, s.id)?.status ?? 'pending') === 'pending');
+
+  const generateForEnrollment = async (enrollmentId: string, onStep: () => void) => {
+    const initial = freshEnrollment(enrollmentId);
+    const sequence = initial && sequenceById.get(initial.sequenceId);
+    const contact = initial && contacts.find(c => c.id === initial.contactId);
+    if (!initial || !sequence || !contact) return 0;
+    const steps = pendingEmailSteps(initial, sequence);
+    let generated = 0;
+
+    for (let i = 0; i < steps.length; i++) {
+      const s = steps[i];
+      const before = freshEnrollment(enrollmentId);
+      if (!before) break;
+      upsertSequenceEnrollments([updateStepRun(before, s.id, { status: 'generating' })]);
+      let patch: Partial<SequenceStepRun> = { status: 'pending' };
       try {
-        const stepType = s.step === 'intro' ? 'intro' : s.step === 'follow_up' ? 'follow_up' : 'breakup';
-        const prevEmails = sentEmails.filter(e => e.contactId === contactId);
-        const ai = await generatePersonalizedEmail(contact, stepType as any, prevEmails, sequenceDirection || undefined);
-        updatedSteps[idx] = {
-          ...updatedSteps[idx], status: 'ready',
-          subject: ai.subject, body: ai.plainText, html: ai.html,
+        const prevEmails = sentEmails.filter(e => e.contactId === contact.id);
+        // The variant is drawn when the draft is written so the copy and the recorded variant always match
+        const experiment = findActiveExperiment(experiments, { kind: 'sequence_step', sequenceId: sequence.id, stepId: s.id });
+        const variant = experiment ? assignVariant(experiment) : undefined;
+        const direction = [sequenceDirection, variant?.instructions].filter(Boolean).join('\n') || undefined;
+        const ai = await generatePersonalizedEmail(contact, s.emailKind || 'intro', prevEmails, direction);
+        const variantSubject = variant?.subject?.trim() ? renderEmailTemplate({ subject: variant.subject, html: '' }, contact) : undefined;
+        patch = {
+          status: 'ready',
+          subject: variantSubject && !variantSubject.missing.length && !variantSubject.unknown.length ? variantSubject.subject : ai.subject,
+          body: ai.plainText, html: ai.html,
+          experimentId: variant ? experiment!.id : undefined,
+          variantId: variant?.id,
         };
-      } catch {
-        updatedSteps[idx] = { ...updatedSteps[idx], status: 'pending' };
-      }
-      setGenProgress({ done: i + 1, total: emailSteps.length });
-      setEnrollments(prev => {
-        const m = new Map(prev);
-        m.set(contactId, { ...enrollment, steps: [...updatedSteps] });
-        return m;
-      });
-      if (i < emailSteps.length - 1) await new Promise(r => setTimeout(r, 1000));
+        generated++;
+      } catch { /* leave pending */ }
+      const after = freshEnrollment(enrollmentId);
+      if (after) upsertSequenceEnrollments([updateStepRun(after, s.id, patch)]);
+      onStep();
+      if (i < steps.length - 1) await new Promise(r => setTimeout(r, 1000));
     }
+    return generated;
+  };
+
+  const handleGenerateSteps = async (enrollmentId: string) => {
+    const enrollment = freshEnrollment(enrollmentId);
+    const sequence = enrollment && sequenceById.get(enrollment.sequenceId);
+    const contact = enrollment && contacts.find(c => c.id === enrollment.contactId);
+    if (!enrollment || !sequence || !contact) return;
+    const total = pendingEmailSteps(enrollment, sequence).length;
+    if (total === 0) { toast('No pending email steps'); return; }
+    setGenerating(true);
+    let done = 0;
+    setGenProgress({ done: 0, total });
+    const generated = await generateForEnrollment(enrollmentId, () => setGenProgress({ done: ++done, total }));
     setGenerating(false);
-    toast.success(`Generated ${emailSteps.length} email drafts for ${contact.clinic.name}`);
+    toast.success(`Generated ${generated} email drafts for ${contact.clinic.name}`);
   };
 
-  /* ─── Generate all steps for ALL active enrollments ─── */
+  /* ─── Generate pending steps for ALL active enrollments ─── */
   const handleGenerateAll = async () => {
-    const active = Array.from(enrollments.entries())
-      .filter(([_, e]) => e.status === 'active' && e.steps.some(s => s.type === 'email' && s.status === 'pending'));
+    const active = sequenceEnrollments.filter(e => {
+      const seq = sequenceById.get(e.sequenceId);
+      return e.status === 'active' && seq && pendingEmailSteps(e, seq).length > 0;
+    });
     if (active.length === 0) { toast('No pending email steps to generate'); return; }
     setGenerating(true);
-    let totalSteps = 0;
-    active.forEach(([_, e]) => { totalSteps += e.steps.filter(s => s.type === 'email' && s.status === 'pending').length; });
-    setGenProgress({ done: 0, total: totalSteps });
-    let doneCount = 0;
-
-    for (const [id] of active) {
-      const contact = contacts.find(c => c.id === id);
-      const enrollment = enrollments.get(id);
-      if (!contact || !enrollment) continue;
-      const emailSteps = enrollment.steps.filter(s => s.type === 'email' && s.status === 'pending');
-      const updatedSteps = [...enrollment.steps];
-
-      for (const s of emailSteps) {
-        const idx = updatedSteps.findIndex(us => us.day === s.day);
-        try {
-          const stepType = s.step === 'intro' ? 'intro' : s.step === 'follow_up' ? 'follow_up' : 'breakup';
-          const ai = await generatePersonalizedEmail(contact, stepType as any, sentEmails.filter(e => e.contactId === id), sequenceDirection || undefined);
-          updatedSteps[idx] = { ...updatedSteps[idx], status: 'ready', subject: ai.subject, body: ai.plainText, html: ai.html };
-        } catch { /* skip */ }
-        doneCount++;
-        setGenProgress({ done: doneCount, total: totalSteps });
-        setEnrollments(prev => {
-          const m = new Map(prev);
-          m.set(id, { ...enrollment, steps: [...updatedSteps] });
-          return m;
-        });
-        await new Promise(r => setTimeout(r, 800));
-      }
+    const total = active.reduce((n, e) => n + pendingEmailSteps(e, sequenceById.get(e.sequenceId)!).length, 0);
+    let done = 0;
+    let generated = 0;
+    setGenProgress({ done: 0, total });
+    for (const e of active) {
+      generated += await generateForEnrollment(e.id, () => setGenProgress({ done: ++done, total }));
     }
     setGenerating(false);
-    toast.success(`Generated ${doneCount} email drafts`);
+    toast.success(`Generated ${generated} email drafts`);
   };
 
-  /* ─── Execute current day step for a clinic ─── */
-  const handleExecuteStep = async (contactId: string, day: number) => {
-    const contact = contacts.find(c => c.id === contactId);
-    const enrollment = enrollments.get(contactId);
-    if (!contact || !enrollment) return;
+  /* ─── Execute the current step of an enrollment ─── */
+  const handleExecuteStep = async (enrollmentId: string, stepId: string) => {
+    const enrollment = freshEnrollment(enrollmentId);
+    const sequence = enrollment && sequenceById.get(enrollment.sequenceId);
+    const contact = enrollment && contacts.find(c => c.id === enrollment.contactId);
+    const step = sequence && getStep(sequence, stepId);
+    if (!enrollment || !sequence || !contact || !step) return;
     if (enrollment.status !== 'active') { toast.error('Sequence is not active'); return; }
+    if (enrollment.currentStepId !== stepId) { toast.error('This step is not the current step'); return; }
+    const run = getStepRun(enrollment, stepId);
 
-    const stepIdx = enrollment.steps.findIndex(s => s.day === day);
-    const step = enrollment.steps[stepIdx];
-    if (!step) return;
+    if (step.channel === 'manual_task') {
+      upsertSequenceEnrollments([markStepExecuted(enrollment, sequence, stepId, { status: 'done' })]);
+      toast.success(`${step.name} marked done`);
+      return;
+    }
 
-    if (step.type === 'phone') {
-      // Phone call via voice agent
+    if (step.channel === 'vapi_call') {
       if (!voiceAgentService.isConfigured) { toast.error('Vapi not configured'); return; }
-      if (!voiceAgentService.isWithinBusinessHours()) {
-        toast.error(`Outside business hours. ${voiceAgentService.getNextBusinessWindow()}`);
+      if (!voiceAgentService.isWithinBusinessHours(contact.clinic)) {
+        toast.error(`Outside ${contact.clinic.name}'s calling hours. ${voiceAgentService.getNextBusinessWindow(contact.clinic)}`);
         return;
       }
       if (!contact.clinic.phone) { toast.error('No phone number for this clinic'); return; }
       try {
         const call = await voiceAgentService.initiateCall(contact);
-        const updatedSteps = [...enrollment.steps];
-        updatedSteps[stepIdx] = { ...step, status: 'called', callId: call.id, callStatus: call.status, executedAt: new Date() };
-        setEnrollments(prev => {
-          const m = new Map(prev);
-          m.set(contactId, { ...enrollment, steps: updatedSteps, currentDay: Math.min(day + 1, 5) });
-          return m;
-        });
+        const latest = freshEnrollment(enrollmentId) || enrollment;
+        upsertSequenceEnrollments([markStepExecuted(latest, sequence, stepId, { status: 'called', callId: call.id, callStatus: call.status })]);
         toast.success(`Call initiated to ${contact.clinic.name}`);
       } catch (err: any) {
         toast.error(err.message || 'Call failed');
@@ -2055,7 +2432,7 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
     }
 
     // Email step
-    if (!step.subject || !step.html) { toast.error('Generate email content first'); return; }
+    if (!run?.subject || !run?.html) { toast.error('Generate email content first'); return; }
     const email = getContactEmail(contact);
     if (!email) { toast.error('No email for this contact'); return; }
 
@@ -2063,58 +2440,32 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
       if (provider === 'resend' && !resendService.isConfigured) { toast.error('V-send (Resend) not configured'); return; }
       if (provider === 'smtp' && !smtpSendService.isConfigured) { toast.error('SMTP not configured'); return; }
 
-      if (provider === 'smtp') {
-        await smtpSendService.sendAIPersonalized(
-          contact,
-          email,
-          { subject: step.subject, html: step.html, text: step.body },
-          step.step === 'value_add' ? 'follow_up' : step.step as any
-        );
-      } else {
-        await resendService.sendAIPersonalized(
-          contact,
-          email,
-          { subject: step.subject, html: step.html },
-          step.step === 'value_add' ? 'follow_up' : step.step as any
-        );
-      }
-      const updatedSteps = [...enrollment.steps];
-      updatedSteps[stepIdx] = { ...step, status: 'sent', executedAt: new Date() };
-      setEnrollments(prev => {
-        const m = new Map(prev);
-        const nextDay = Math.min(day + 1, 5);
-        const isLast = day === 5;
-        m.set(contactId, {
-          ...enrollment, steps: updatedSteps,
-          currentDay: nextDay,
-          status: isLast ? 'completed' : enrollment.status,
-        });
-        return m;
-      });
-      toast.success(`Day ${day} email sent to ${contact.clinic.name}`);
+      const kind = step.emailKind || 'intro';
+      const assignment = run.experimentId && run.variantId ? { experimentId: run.experimentId, variantId: run.variantId } : undefined;
+      const result = provider === 'smtp'
+        ? await smtpSendService.sendAIPersonalized(contact, email, { subject: run.subject, html: run.html, text: run.body }, kind, assignment)
+        : await resendService.sendAIPersonalized(contact, email, { subject: run.subject, html: run.html }, kind, assignment);
+      addSentEmails([{ ...result, sequenceEnrollmentId: enrollmentId, sequenceStepId: stepId }]);
+      const latest = freshEnrollment(enrollmentId) || enrollment;
+      upsertSequenceEnrollments([markStepExecuted(latest, sequence, stepId, { status: 'sent', sentEmailId: result.id })]);
+      toast.success(`${step.name} sent to ${contact.clinic.name}`);
     } catch (err: any) {
       toast.error(err.message || 'Send failed');
     }
   };
 
-  /* ─── Execute all ready steps for current day across all active enrollments ─── */
+  /* ─── Execute every due email step that has a ready draft ─── */
   const handleExecuteAllReady = async () => {
-    const ready: { contactId: string; day: number }[] = [];
-    enrollments.forEach((e, id) => {
-      if (e.status !== 'active') return;
-      const currentStep = e.steps.find(s => s.day === e.currentDay);
-      if (!currentStep) return;
-      if (currentStep.type === 'email' && currentStep.status === 'ready') {
-        ready.push({ contactId: id, day: e.currentDay });
-      }
-    });
-    if (ready.length === 0) { toast('No ready steps to execute'); return; }
+    const ready = getSequenceQueue(contacts, sentEmails, sequences, sequenceEnrollments)
+      .filter(q => q.step.channel === 'email' && getStepRun(q.enrollment, q.step.id)?.status === 'ready');
+    if (ready.length === 0) { toast('No ready steps due'); return; }
     if (remaining === 0) { toast.error('No sends remaining for selected provider today'); return; }
-    setExecuting(true);
     const toRun = ready.slice(0, remaining);
+    if (bestSendTime) { await scheduleSteps(toRun); return; }
+    setExecuting(true);
     setExecProgress({ done: 0, total: toRun.length });
     for (let i = 0; i < toRun.length; i++) {
-      await handleExecuteStep(toRun[i].contactId, toRun[i].day);
+      await handleExecuteStep(toRun[i].enrollment.id, toRun[i].step.id);
       setExecProgress({ done: i + 1, total: toRun.length });
       if (i < toRun.length - 1) await new Promise(r => setTimeout(r, 1200));
     }
@@ -2122,78 +2473,117 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
     toast.success(`Executed ${toRun.length} sequence steps`);
   };
 
-  /* ─── Pause / Resume / Stop controls ─── */
-  const handlePause = (contactId: string) => {
-    setEnrollments(prev => {
-      const m = new Map(prev);
-      const e = m.get(contactId);
-      if (e && e.status === 'active') m.set(contactId, { ...e, status: 'paused' });
-      return m;
-    });
+  /* ─── Hold due steps for each recipient's best local send time (see utils/sendTime) ─── */
+  const scheduleSteps = async (items: SequenceQueueItem[]) => {
+    if (!emailScheduleService.isConfigured) { toast.error('Scheduled sends need Supabase — untick "Best send time" to send now'); return; }
+    if (provider === 'resend' && !resendService.isConfigured) { toast.error('V-send (Resend) not configured'); return; }
+    const model = buildSendTimeModel(sentEmails, contacts);
+    const requests: ScheduledSendRequest[] = [];
+    let skipped = 0;
+    for (const { enrollment, step, contact } of items) {
+      const run = getStepRun(enrollment, step.id);
+      const email = getContactEmail(contact);
+      if (!run?.subject || !run?.html || !email) { skipped++; continue; }
+      const kind = step.emailKind || 'intro';
+      const assignment = run.experimentId && run.variantId ? { experimentId: run.experimentId, variantId: run.variantId } : undefined;
+      try {
+        const payload = provider === 'smtp'
+          ? smtpSendService.prepareAIPersonalized(contact, email, { subject: run.subject, html: run.html, text: run.body }, kind, assignment)
+          : resendService.prepareAIPersonalized(contact, email, { subject: run.subject, html: run.html }, kind, assignment);
+        requests.push({ contact, enrollmentId: enrollment.id, stepId: step.id, provider, payload, plan: planSendTime(model, contact) });
+      } catch {
+        skipped++; // suppressed, or the sender pool is exhausted
+      }
+    }
+    if (!requests.length) { toast.error('No steps could be scheduled'); return; }
+
+    setExecuting(true);
+    try {
+      const jobIds = await emailScheduleService.schedule(requests);
+      const updates = requests.flatMap((r, i) => {
+        const latest = freshEnrollment(r.enrollmentId);
+        return latest ? [updateStepRun(latest, r.stepId, {
+          status: 'scheduled', sendJobId: jobIds[i], scheduledAt: r.plan.at, sendTimeBasis: r.plan.basis, sendError: undefined,
+        })] : [];
+      });
+      upsertSequenceEnrollments(updates);
+      const immediate = requests.filter(r => r.plan.at.getTime() <= Date.now()).length;
+      if (immediate > 0) emailScheduleService.runDispatcher().then(() => syncScheduledSends()).catch(() => {});
+      toast.success(`Scheduled ${requests.length} step${requests.length !== 1 ? 's' : ''} for each clinic's best local time${immediate ? ` (${immediate} going out now)` : ''}${skipped ? ` · ${skipped} skipped` : ''}`);
+    } catch (err: any) {
+      toast.error(err.message || 'Scheduling failed');
+    }
+    setExecuting(false);
   };
 
-  const handleResume = (contactId: string) => {
-    setEnrollments(prev => {
-      const m = new Map(prev);
-      const e = m.get(contactId);
-      if (e && e.status === 'paused') m.set(contactId, { ...e, status: 'active' });
-      return m;
-    });
+  /** Pull a scheduled step back to ready. False when the dispatcher already has it. */
+  const releaseScheduled = async (enrollmentId: string, stepId: string) => {
+    const enrollment = freshEnrollment(enrollmentId);
+    const jobId = enrollment && getStepRun(enrollment, stepId)?.sendJobId;
+    if (!jobId) return false;
+    const cancelled = await emailScheduleService.cancel([jobId]).catch(() => [] as string[]);
+    if (!cancelled.length) { toast.error('This email is already going out'); return false; }
+    const latest = freshEnrollment(enrollmentId);
+    if (latest) upsertSequenceEnrollments([updateStepRun(latest, stepId, { status: 'ready', sendJobId: undefined, scheduledAt: undefined })]);
+    return true;
   };
 
-  const handleStop = (contactId: string) => {
-    setEnrollments(prev => {
-      const m = new Map(prev);
-      const e = m.get(contactId);
-      if (e) m.set(contactId, { ...e, status: 'stopped' });
-      return m;
-    });
+  const handleSendScheduledNow = async (enrollmentId: string, stepId: string) => {
+    if (await releaseScheduled(enrollmentId, stepId)) await handleExecuteStep(enrollmentId, stepId);
   };
 
-  const handleRemove = (contactId: string) => {
-    setEnrollments(prev => { const m = new Map(prev); m.delete(contactId); return m; });
+  /* ─── Pause / Resume / Stop controls ─── */
+  const setStatus = (ids: string[], from: SequenceEnrollment['status'][], status: SequenceEnrollment['status']) => {
+    const now = new Date();
+    const updates = sequenceEnrollments
+      .filter(e => ids.includes(e.id) && from.includes(e.status))
+      .map(e => ({ ...e, status, updatedAt: now }));
+    upsertSequenceEnrollments(updates);
+    return updates.length;
+  };
+
+  const handlePause = (id: string) => { setStatus([id], ['active'], 'paused'); };
+  const handleResume = (id: string) => { setStatus([id], ['paused'], 'active'); };
+
+  const handleStop = (id: string) => {
+    const e = freshEnrollment(id);
+    if (e) upsertSequenceEnrollments([exitEnrollment(e, 'manual')]);
+  };
+
+  const handleRemove = (id: string) => {
+    removeSequenceEnrollment(id);
   };
 
   const handleBulkPause = () => {
-    setEnrollments(prev => {
-      const m = new Map(prev);
-      m.forEach((e, id) => { if (e.status === 'active') m.set(id, { ...e, status: 'paused' }); });
-      return m;
-    });
+    setStatus(sequenceEnrollments.map(e => e.id), ['active'], 'paused');
     toast.success('All active sequences paused');
   };
 
   const handleBulkResume = () => {
-    setEnrollments(prev => {
-      const m = new Map(prev);
-      m.forEach((e, id) => { if (e.status === 'paused') m.set(id, { ...e, status: 'active' }); });
-      return m;
-    });
+    setStatus(sequenceEnrollments.map(e => e.id), ['paused'], 'active');
     toast.success('All paused sequences resumed');
   };
 
   /* ─── Edit step content ─── */
   const handleSaveStepEdit = () => {
     if (!editingStep) return;
-    setEnrollments(prev => {
-      const m = new Map(prev);
-      const e = m.get(editingStep.contactId);
-      if (!e) return prev;
-      const steps = [...e.steps];
-      const idx = steps.findIndex(s => s.day === editingStep.day);
-      if (idx === -1) return prev;
-      const htmlBody = editBody.split('\n').map(l => l.trim()).filter(Boolean)
-        .map(l => `<p style="font-size:15px;line-height:1.7;margin:0 0 12px 0;">${l.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</p>`)
-        .join('\n');
-      const html = `<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">${htmlBody}</div>`;
-      steps[idx] = { ...steps[idx], subject: editSubject, body: editBody, html, edited: true, status: 'ready' };
-      m.set(editingStep.contactId, { ...e, steps });
-      return m;
-    });
+    const e = freshEnrollment(editingStep.enrollmentId);
+    if (!e) return;
+    const htmlBody = editBody.split('\n').map(l => l.trim()).filter(Boolean)
+      .map(l => `<p style="font-size:15px;line-height:1.7;margin:0 0 12px 0;">${l.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</p>`)
+      .join('\n');
+    const html = `<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">${htmlBody}</div>`;
+    upsertSequenceEnrollments([updateStepRun(e, editingStep.stepId, { subject: editSubject, body: editBody, html, edited: true, status: 'ready' })]);
     setEditingStep(null);
     toast.success('Step updated');
   };
 
+  const activeDays = activeSequence ? getStepDayNumbers(activeSequence) : {};
+  const describeBranch = (seq: SequenceDefinition, b: SequenceBranch) =>
+    b.action === 'goto' ? `${b.on} → ${getStep(seq, b.targetStepId)?.name || '?'}` :
+    b.action === 'pause' ? `${b.on} → pause ${b.pauseDays ?? 1}d` :
+    `${b.on} → exit`;
+
   return (
     <div className="space-y-4">
       {/* AI Engine → Outreach handoff */}
@@ -2211,7 +2601,7 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
               <button
                 onClick={handleEnrollStagedFromAI}
                 className="btn btn-primary gap-2 text-xs"
-                title="Enroll AI Engine staged clinics into the 5-day sequence"
+                title="Enroll AI Engine staged clinics into the selected sequence"
               >
                 <Plus className="w-3.5 h-3.5" />
                 Enroll Staged ({Math.min(stagedFromAI.length, 200)})
@@ -2230,30 +2620,49 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
 
       {/* ─── Sequence Blueprint ─── */}
       <div className="glass-card p-4">
-        <div className="flex items-center gap-2 mb-3">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
           <Zap className="w-4 h-4 text-novalyte-400" />
-          <h3 className="text-sm font-semibold text-slate-200">5-Day Multi-Touch Sequence</h3>
-          <span className="text-[10px] px-2 py-0.5 rounded-full bg-novalyte-500/10 text-novalyte-400">AI + Voice</span>
+          <select value={activeSequence?.id || ''} onChange={e => setActiveSequenceId(e.target.value)}
+            className="bg-white/[0.03] border border-white/[0.06] rounded-lg text-sm font-semibold text-slate-200 px-2 py-1 outline-none">
+            {sequences.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          {activeSequence?.description && <span className="text-[11px] text-slate-500">{activeSequence.description}</span>}
+          <div className="ml-auto flex items-center gap-1">
+            <button onClick={() => activeSequence && setEditingSequence(activeSequence)} className="btn btn-secondary gap-1 text-xs">
+              <Edit3 className="w-3 h-3" /> Edit
+            </button>
+            <button onClick={handleNewSequence} className="btn btn-secondary gap-1 text-xs">
+              <Plus className="w-3 h-3" /> Duplicate
+            </button>
+            {sequences.length > 1 && (
+              <button onClick={handleDeleteSequence} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-red-400" title="Delete sequence">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
         </div>
         <div className="flex items-center gap-1 overflow-x-auto pb-2">
-          {SEQ_BLUEPRINT.map((s, i) => {
-            const cfg = stepConfig[s.step];
+          {activeSequence?.steps.map((s, i) => {
+            const cfg = getStepVisual(s);
             const StepIcon = cfg.icon;
             return (
-              <div key={s.day} className="flex items-center shrink-0">
+              <div key={s.id} className="flex items-center shrink-0">
                 <div className={cn('flex items-center gap-2 px-3 py-2 rounded-lg border', cfg.bg, 'border-white/[0.06]')}>
                   <div className={cn('w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold', cfg.bg, cfg.color)}>
-                    {s.day}
+                    {activeDays[s.id]}
                   </div>
                   <div>
                     <div className="flex items-center gap-1">
                       <StepIcon className={cn('w-3 h-3', cfg.color)} />
-                      <span className={cn('text-[11px] font-medium', cfg.color)}>{s.label}</span>
+                      <span className={cn('text-[11px] font-medium', cfg.color)}>{s.name}</span>
                     </div>
-                    <p className="text-[9px] text-slate-500">{s.desc}</p>
+                    <p className="text-[9px] text-slate-500">{cfg.desc}</p>
+                    {s.branches?.map((b, bi) => (
+                      <p key={bi} className="text-[9px] text-violet-400">{describeBranch(activeSequence, b)}</p>
+                    ))}
                   </div>
                 </div>
-                {i < SEQ_BLUEPRINT.length - 1 && (
+                {i < activeSequence.steps.length - 1 && (
                   <div className="w-4 h-px bg-white/10 shrink-0" />
                 )}
               </div>
@@ -2262,6 +2671,11 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
         </div>
       </div>
 
+      {editingSequence && (
+        <SequenceEditor key={editingSequence.id} sequence={editingSequence}
+          onSave={handleSaveSequence} onCancel={() => setEditingSequence(null)} />
+      )}
+
       {/* ─── Stats Bar ─── */}
       <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
         {[
@@ -2300,7 +2714,7 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
             </span>
           )}
         </button>
-        <button onClick={handleGenerateAll} disabled={generating || enrollments.size === 0}
+        <button onClick={handleGenerateAll} disabled={generating || sequenceEnrollments.length === 0}
           className="btn btn-secondary gap-1.5 text-xs">
           {generating ? (
             <><Loader2 className="w-3.5 h-3.5 animate-spin" /> Generating {genProgress.done}/{genProgress.total}</>
@@ -2308,14 +2722,21 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
             <><Wand2 className="w-3.5 h-3.5" /> AI Generate All</>
           )}
         </button>
-        <button onClick={handleExecuteAllReady} disabled={executing || enrollments.size === 0}
+        <button onClick={handleExecuteAllReady} disabled={executing || sequenceEnrollments.length === 0}
           className="btn btn-secondary gap-1.5 text-xs">
           {executing ? (
-            <><Loader2 className="w-3.5 h-3.5 animate-spin" /> Executing {execProgress.done}/{execProgress.total}</>
+            <><Loader2 className="w-3.5 h-3.5 animate-spin" /> {bestSendTime ? 'Scheduling…' : `Executing ${execProgress.done}/${execProgress.total}`}</>
+          ) : bestSendTime ? (
+            <><Clock className="w-3.5 h-3.5" /> Schedule Due Steps</>
           ) : (
-            <><Play className="w-3.5 h-3.5" /> Execute Ready Steps</>
+            <><Play className="w-3.5 h-3.5" /> Execute Due Steps</>
           )}
         </button>
+        <label className="flex items-center gap-1.5 text-[11px] text-slate-400 cursor-pointer"
+          title="Hold each email for the recipient's best local send time, learned from past opens">
+          <input type="checkbox" checked={bestSendTime} onChange={e => setBestSendTime(e.target.checked)} className="accent-novalyte-500" />
+          Best send time
+        </label>
         {seqStats.active > 0 && (
           <button onClick={handleBulkPause} className="btn btn-secondary gap-1 text-xs">
             <Pause className="w-3 h-3" /> Pause All
@@ -2467,8 +2888,8 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
             )}
           </div>
           <div className="flex items-center justify-between">
-            <p className="text-[10px] text-slate-500">{filteredEnroll.length} clinics available</p>
-            <button onClick={handleEnroll} disabled={enrollSelected.size === 0}
+            <p className="text-[10px] text-slate-500">{filteredEnroll.length} clinics available · enrolling into "{activeSequence?.name}"</p>
+            <button onClick={handleEnroll} disabled={enrollSelected.size === 0 || !activeSequence}
               className="btn btn-primary text-xs gap-1.5">
               <Zap className="w-3.5 h-3.5" /> Enroll {enrollSelected.size} Clinic{enrollSelected.size !== 1 ? 's' : ''}
             </button>
@@ -2481,14 +2902,16 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
         <div className="glass-card p-12 text-center">
           <Zap className="w-10 h-10 text-slate-600 mx-auto mb-3" />
           <p className="text-slate-400">No clinics enrolled yet</p>
-          <p className="text-xs text-slate-500 mt-1">Click "Import Prospects" to pull clinics from AI Engine, Discovery, or CRM into a 5-day sequence</p>
+          <p className="text-xs text-slate-500 mt-1">Click "Import Prospects" to pull clinics from AI Engine, Discovery, or CRM into the selected sequence</p>
         </div>
       ) : (
         <div className="space-y-2">
-          {enrollmentList.map(({ enrollment, contact }) => {
-            const isExpanded = expandedId === contact.id;
+          {enrollmentList.map(({ enrollment, contact, sequence }) => {
+            const isExpanded = expandedId === enrollment.id;
             const email = getContactEmail(contact) || '';
             const dm = contact.decisionMaker;
+            const days = getStepDayNumbers(sequence);
+            const due = isStepDue(enrollment);
             const statusColors: Record<string, string> = {
               active: 'text-novalyte-400 bg-novalyte-500/10',
               paused: 'text-amber-400 bg-amber-500/10',
@@ -2496,12 +2919,13 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
               replied: 'text-violet-400 bg-violet-500/10',
               stopped: 'text-red-400 bg-red-500/10',
             };
+            const isDone = (status: string) => status === 'sent' || status === 'called' || status === 'done';
 
             return (
-              <div key={contact.id} className="glass-card overflow-hidden">
+              <div key={enrollment.id} className="glass-card overflow-hidden">
                 {/* Header row */}
                 <div className="flex items-center gap-3 px-4 py-3 cursor-pointer hover:bg-white/[0.02] transition-all"
-                  onClick={() => setExpandedId(isExpanded ? null : contact.id)}>
+                  onClick={() => setExpandedId(isExpanded ? null : enrollment.id)}>
                   <ChevronDown className={cn('w-4 h-4 text-slate-500 transition-transform shrink-0', isExpanded && 'rotate-180')} />
                   <span className={cn('px-2 py-0.5 rounded text-[10px] font-medium shrink-0', statusColors[enrollment.status])}>
                     {enrollment.status.charAt(0).toUpperCase() + enrollment.status.slice(1)}
@@ -2520,20 +2944,25 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
                         );
                       })()}
                     </div>
-                    <p className="text-[10px] text-slate-500">{email} · {contact.clinic.address.city}, {contact.clinic.address.state}</p>
+                    <p className="text-[10px] text-slate-500">
+                      {email} · {contact.clinic.address.city}, {contact.clinic.address.state} · {sequence.name}
+                      {enrollment.exitReason && enrollment.exitReason !== 'completed' && ` · exited: ${enrollment.exitReason.replace(/_/g, ' ')}`}
+                    </p>
                   </div>
                   {/* Timeline dots */}
                   <div className="flex items-center gap-1 shrink-0">
-                    {enrollment.steps.map(s => {
-                      const cfg = stepConfig[s.step];
+                    {sequence.steps.map(s => {
+                      const cfg = getStepVisual(s);
+                      const status = getStepRun(enrollment, s.id)?.status || 'pending';
                       return (
-                        <div key={s.day} className={cn('w-6 h-6 rounded-full flex items-center justify-center text-[9px] font-bold border',
-                          s.status === 'sent' || s.status === 'called' ? `${cfg.bg} ${cfg.color} border-transparent` :
-                          s.status === 'ready' ? 'bg-white/5 text-slate-300 border-novalyte-500/30' :
-                          s.day === enrollment.currentDay ? 'bg-white/5 text-slate-400 border-white/20' :
+                        <div key={s.id} className={cn('w-6 h-6 rounded-full flex items-center justify-center text-[9px] font-bold border',
+                          isDone(status) ? `${cfg.bg} ${cfg.color} border-transparent` :
+                          status === 'skipped' ? 'bg-white/[0.02] text-slate-700 border-white/[0.04] line-through' :
+                          status === 'ready' ? 'bg-white/5 text-slate-300 border-novalyte-500/30' :
+                          s.id === enrollment.currentStepId ? 'bg-white/5 text-slate-400 border-white/20' :
                           'bg-white/[0.02] text-slate-600 border-white/[0.06]'
-                        )} title={`Day ${s.day}: ${s.status}`}>
-                          {s.day}
+                        )} title={`Day ${days[s.id]} · ${s.name}: ${status}`}>
+                          {days[s.id]}
                         </div>
                       );
                     })}
@@ -2541,21 +2970,21 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
                   {/* Controls */}
                   <div className="flex items-center gap-1 shrink-0" onClick={e => e.stopPropagation()}>
                     {enrollment.status === 'active' && (
-                      <button onClick={() => handlePause(contact.id)} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-amber-400 transition-all" title="Pause">
+                      <button onClick={() => handlePause(enrollment.id)} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-amber-400 transition-all" title="Pause">
                         <Pause className="w-3.5 h-3.5" />
                       </button>
                     )}
                     {enrollment.status === 'paused' && (
-                      <button onClick={() => handleResume(contact.id)} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-novalyte-400 transition-all" title="Resume">
+                      <button onClick={() => handleResume(enrollment.id)} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-novalyte-400 transition-all" title="Resume">
                         <Play className="w-3.5 h-3.5" />
                       </button>
                     )}
                     {(enrollment.status === 'active' || enrollment.status === 'paused') && (
-                      <button onClick={() => handleStop(contact.id)} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-red-400 transition-all" title="Stop">
+                      <button onClick={() => handleStop(enrollment.id)} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-red-400 transition-all" title="Stop">
                         <StopCircle className="w-3.5 h-3.5" />
                       </button>
                     )}
-                    <button onClick={() => handleRemove(contact.id)} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-red-400 transition-all" title="Remove">
+                    <button onClick={() => handleRemove(enrollment.id)} className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-red-400 transition-all" title="Remove">
                       <X className="w-3.5 h-3.5" />
                     </button>
                   </div>
@@ -2565,25 +2994,34 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
                 {isExpanded && (
                   <div className="border-t border-white/[0.06] px-4 py-3 space-y-2">
                     <div className="flex items-center justify-between mb-2">
-                      <p className="text-[10px] text-slate-500 uppercase tracking-wider">Sequence Timeline</p>
+                      <p className="text-[10px] text-slate-500 uppercase tracking-wider">
+                        Sequence Timeline
+                        {enrollment.status === 'active' && enrollment.dueAt && !due && (
+                          <span className="normal-case tracking-normal ml-2 text-slate-400">
+                            next step due {formatDistanceToNow(new Date(enrollment.pausedUntil && new Date(enrollment.pausedUntil) > new Date(enrollment.dueAt) ? enrollment.pausedUntil : enrollment.dueAt), { addSuffix: true })}
+                          </span>
+                        )}
+                      </p>
                       {enrollment.status === 'active' && (
-                        <button onClick={() => handleGenerateSteps(contact.id)} disabled={generating}
+                        <button onClick={() => handleGenerateSteps(enrollment.id)} disabled={generating}
                           className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-[11px] font-medium bg-purple-500/10 text-purple-400 border border-purple-500/20 hover:bg-purple-500/20 transition-colors">
                           {generating ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
                           AI Generate All Steps
                         </button>
                       )}
                     </div>
-                    {enrollment.steps.map(s => {
-                      const cfg = stepConfig[s.step];
+                    {sequence.steps.map(s => {
+                      const cfg = getStepVisual(s);
                       const StepIcon = cfg.icon;
-                      const isCurrentDay = s.day === enrollment.currentDay && enrollment.status === 'active';
-                      const isEditing = editingStep?.contactId === contact.id && editingStep?.day === s.day;
+                      const run: SequenceStepRun = getStepRun(enrollment, s.id) || { stepId: s.id, status: 'pending' };
+                      const isCurrent = s.id === enrollment.currentStepId && enrollment.status === 'active';
+                      const canRun = isCurrent && due;
+                      const isEditing = editingStep?.enrollmentId === enrollment.id && editingStep?.stepId === s.id;
 
                       return (
-                        <div key={s.day} className={cn('rounded-lg border p-3 transition-all',
-                          isCurrentDay ? 'border-novalyte-500/30 bg-novalyte-500/5' : 'border-white/[0.06] bg-white/[0.01]',
-                          s.status === 'sent' || s.status === 'called' ? 'opacity-70' : ''
+                        <div key={s.id} className={cn('rounded-lg border p-3 transition-all',
+                          isCurrent ? 'border-novalyte-500/30 bg-novalyte-500/5' : 'border-white/[0.06] bg-white/[0.01]',
+                          isDone(run.status) || run.status === 'skipped' ? 'opacity-70' : ''
                         )}>
                           <div className="flex items-center gap-3">
                             <div className={cn('w-8 h-8 rounded-lg flex items-center justify-center shrink-0', cfg.bg)}>
@@ -2591,61 +3029,91 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
                             </div>
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2">
-                                <span className={cn('text-xs font-medium', cfg.color)}>Day {s.day} · {cfg.label.split(' · ')[1] || cfg.label}</span>
+                                <span className={cn('text-xs font-medium', cfg.color)}>Day {days[s.id]} · {s.name}</span>
                                 <span className={cn('text-[9px] px-1.5 py-0.5 rounded-full font-medium',
-                                  s.status === 'sent' || s.status === 'called' ? 'bg-emerald-500/10 text-emerald-400' :
-                                  s.status === 'ready' ? 'bg-novalyte-500/10 text-novalyte-400' :
-                                  s.status === 'generating' ? 'bg-purple-500/10 text-purple-400' :
+                                  isDone(run.status) ? 'bg-emerald-500/10 text-emerald-400' :
+                                  run.status === 'ready' ? 'bg-novalyte-500/10 text-novalyte-400' :
+                                  run.status === 'scheduled' ? 'bg-amber-500/10 text-amber-400' :
+                                  run.status === 'generating' ? 'bg-purple-500/10 text-purple-400' :
                                   'bg-white/5 text-slate-500'
-                                )}>{s.status}</span>
-                                {s.edited && <span className="text-[9px] text-amber-400">edited</span>}
-                                {s.executedAt && <span className="text-[9px] text-slate-500">{format(new Date(s.executedAt), 'MMM d, h:mm a')}</span>}
+                                )}>{run.status}</span>
+                                {run.edited && <span className="text-[9px] text-amber-400">edited</span>}
+                                {run.executedAt && <span className="text-[9px] text-slate-500">{format(new Date(run.executedAt), 'MMM d, h:mm a')}</span>}
                               </div>
-                              {s.subject && !isEditing && (
-                                <p className="text-[11px] text-slate-400 mt-0.5 truncate">Subject: {s.subject}</p>
+                              {run.subject && !isEditing && (
+                                <p className="text-[11px] text-slate-400 mt-0.5 truncate">Subject: {run.subject}</p>
+                              )}
+                              {run.status === 'scheduled' && run.scheduledAt && (
+                                <p className="text-[10px] text-amber-300/80 mt-0.5">
+                                  Sends {formatLocalTime(new Date(run.scheduledAt), resolveClinicTimezone(contact.clinic))} · {SEND_TIME_BASIS_LABELS[run.sendTimeBasis || 'default']}
+                                </p>
+                              )}
+                              {run.status === 'ready' && run.sendError && (
+                                <p className="text-[10px] text-red-400 mt-0.5">Scheduled send did not go out: {run.sendError}</p>
+                              )}
+                              {s.channel === 'manual_task' && s.instructions && (
+                                <p className="text-[11px] text-slate-400 mt-0.5">{s.instructions}</p>
                               )}
-                              {s.type === 'phone' && s.callId && (
-                                <p className="text-[11px] text-novalyte-400 mt-0.5">Call ID: {s.callId} · Status: {s.callStatus || 'unknown'}</p>
+                              {s.channel === 'vapi_call' && run.callId && (
+                                <p className="text-[11px] text-novalyte-400 mt-0.5">Call ID: {run.callId} · Status: {run.callStatus || 'unknown'}</p>
                               )}
-                              {s.type === 'phone' && !s.callId && s.status === 'pending' && (
+                              {s.channel === 'vapi_call' && !run.callId && run.status === 'pending' && (
                                 <p className="text-[10px] text-slate-500 mt-0.5">
                                   {contact.clinic.phone ? `Will call ${contact.clinic.phone}` : 'No phone number — will skip'}
-                                  {!voiceAgentService.isWithinBusinessHours() && ' · Outside business hours'}
+                                  {!voiceAgentService.isWithinBusinessHours(contact.clinic) && ' · Outside local calling hours'}
                                 </p>
                               )}
                             </div>
                             <div className="flex items-center gap-1 shrink-0">
-                              {s.type === 'email' && s.status === 'ready' && !isEditing && (
+                              {s.channel === 'email' && run.status === 'ready' && !isEditing && (
                                 <>
-                                  <button onClick={() => { setEditingStep({ contactId: contact.id, day: s.day }); setEditSubject(s.subject || ''); setEditBody(s.body || ''); }}
+                                  <button onClick={() => { setEditingStep({ enrollmentId: enrollment.id, stepId: s.id }); setEditSubject(run.subject || ''); setEditBody(run.body || ''); }}
                                     className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-slate-300 transition-all" title="Edit">
                                     <Edit3 className="w-3.5 h-3.5" />
                                   </button>
-                                  <button onClick={() => { setEditingStep(null); handleGenerateSteps(contact.id); }}
+                                  <button onClick={() => { setEditingStep(null); handleGenerateSteps(enrollment.id); }}
                                     className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-purple-400 transition-all" title="Regenerate">
                                     <Wand2 className="w-3.5 h-3.5" />
                                   </button>
                                 </>
                               )}
-                              {s.type === 'email' && s.status === 'ready' && isCurrentDay && enrollment.status === 'active' && (
-                                <button onClick={() => handleExecuteStep(contact.id, s.day)}
+                              {s.channel === 'email' && run.status === 'ready' && canRun && (
+                                <button onClick={() => handleExecuteStep(enrollment.id, s.id)}
                                   className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-medium bg-novalyte-500/20 text-novalyte-300 hover:bg-novalyte-500/30 transition-all">
                                   <Send className="w-3 h-3" /> Send
                                 </button>
                               )}
-                              {s.type === 'phone' && s.status === 'pending' && isCurrentDay && enrollment.status === 'active' && contact.clinic.phone && (
-                                <button onClick={() => handleExecuteStep(contact.id, s.day)}
+                              {s.channel === 'email' && run.status === 'scheduled' && (
+                                <>
+                                  <button onClick={() => handleSendScheduledNow(enrollment.id, s.id)}
+                                    className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-medium bg-novalyte-500/20 text-novalyte-300 hover:bg-novalyte-500/30 transition-all">
+                                    <Send className="w-3 h-3" /> Send now
+                                  </button>
+                                  <button onClick={() => releaseScheduled(enrollment.id, s.id)}
+                                    className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-red-400 transition-all" title="Unschedule">
+                                    <X className="w-3.5 h-3.5" />
+                                  </button>
+                                </>
+                              )}
+                              {s.channel === 'vapi_call' && run.status === 'pending' && canRun && contact.clinic.phone && (
+                                <button onClick={() => handleExecuteStep(enrollment.id, s.id)}
                                   className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-medium bg-novalyte-500/20 text-novalyte-300 hover:bg-novalyte-500/30 transition-all">
                                   <Phone className="w-3 h-3" /> Call
                                 </button>
                               )}
-                              {s.status === 'pending' && s.type === 'email' && (
-                                <button onClick={() => { setEditingStep({ contactId: contact.id, day: s.day }); setEditSubject(''); setEditBody(''); }}
+                              {s.channel === 'manual_task' && run.status === 'pending' && canRun && (
+                                <button onClick={() => handleExecuteStep(enrollment.id, s.id)}
+                                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-medium bg-novalyte-500/20 text-novalyte-300 hover:bg-novalyte-500/30 transition-all">
+                                  <CheckCircle className="w-3 h-3" /> Mark Done
+                                </button>
+                              )}
+                              {run.status === 'pending' && s.channel === 'email' && (
+                                <button onClick={() => { setEditingStep({ enrollmentId: enrollment.id, stepId: s.id }); setEditSubject(''); setEditBody(''); }}
                                   className="p-1.5 rounded hover:bg-white/[0.05] text-slate-500 hover:text-slate-300 transition-all" title="Write manually">
                                   <PenLine className="w-3.5 h-3.5" />
                                 </button>
                               )}
-                              {(s.status === 'sent' || s.status === 'called') && (
+                              {isDone(run.status) && (
                                 <Eye className="w-3.5 h-3.5 text-slate-600" />
                               )}
                             </div>
@@ -2674,8 +3142,8 @@ function SequencesTab({ contacts, sentEmails, provider, remaining }: { contacts:
                           )}
 
                           {/* Preview body when ready and not editing */}
-                          {s.body && !isEditing && s.status === 'ready' && (
-                            <div className="mt-2 text-[11px] text-slate-500 leading-relaxed line-clamp-2">{s.body}</div>
+                          {run.body && !isEditing && run.status === 'ready' && (
+                            <div className="mt-2 text-[11px] text-slate-500 leading-relaxed line-clamp-2">{run.body}</div>
                           )}
                         </div>
                       );
@@ -2723,8 +3191,7 @@ function StreamTab({ emails, onRefresh, refreshing }: {
         <div className="flex items-center gap-2">
           <button onClick={() => {
             if (confirm(`Clear all ${sorted.length} sent email records?`)) {
-              useAppStore.getState().clearSentEmails();
-              toast.success('Sent emails cleared');
+              undoToast(useAppStore.getState().clearSentEmails(), 'Sent emails cleared');
             }
           }} className="btn bg-red-500/10 text-red-400 border border-red-500/20 hover:bg-red-500/20 gap-2 text-xs">
             <Trash2 className="w-3.5 h-3.5" /> Clear All
@@ -2839,10 +3306,13 @@ function AnalyticsTab({ emails }: { emails: SentEmail[] }) {
 
   if (emails.length === 0) {
     return (
-      <div className="glass-card p-12 text-center">
-        <BarChart3 className="w-10 h-10 text-slate-600 mx-auto mb-3" />
-        <p className="text-slate-400">No data yet</p>
-        <p className="text-xs text-slate-500 mt-1">Analytics will appear after you send emails</p>
+      <div className="space-y-4">
+        <ExperimentsPanel />
+        <div className="glass-card p-12 text-center">
+          <BarChart3 className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-400">No data yet</p>
+          <p className="text-xs text-slate-500 mt-1">Analytics will appear after you send emails</p>
+        </div>
       </div>
     );
   }
@@ -2907,6 +3377,8 @@ function AnalyticsTab({ emails }: { emails: SentEmail[] }) {
           </div>
         </div>
       )}
+
+      <ExperimentsPanel />
     </div>
   );
 }
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowDownLeft, ArrowUpRight, Loader2, Mail, RefreshCw, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAppStore } from '../stores/appStore';
+import { supabaseSync } from '../services/supabaseSync';
+import { resendService } from '../services/resendService';
+import { smtpSendService } from '../services/smtpSendService';
+import { CRMContact } from '../types';
+import { cn } from '../utils/cn';
+import {
+  type ThreadMessage,
+  buildThreads,
+  normalizeMessageId,
+  replyThreading,
+} from '../utils/emailThreads';
+
+interface Props {
+  contact: CRMContact;
+}
+
+const escHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function replyHtml(text: string, signatureHtml?: string): string {
+  const paragraphs = text.split(/\n{2,}/).map(p => `<p style="margin:0 0 12px 0;">${escHtml(p.trim()).replace(/\n/g, '<br/>')}</p>`).join('\n');
+  return `<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;font-size:15px;line-height:1.6;">${paragraphs}${signatureHtml ? `<p style="margin:16px 0 0 0;">${signatureHtml}</p>` : ''}</div>`;
+}
+
+const stripHtml = (html: string) => html.replace(/<style[\s\S]*?<\/style>/gi, '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+/** What the store knows without Supabase: sent emails + reply activities (snippets only) */
+function localMessages(contact: CRMContact, sentEmails: { id: string; contactId: string; from: string; to: string; subject: string; sentAt: Date; messageId?: string; inReplyTo?: string }[]): ThreadMessage[] {
+  const outbound: ThreadMessage[] = sentEmails
+    .filter(e => e.contactId === contact.id)
+    .map(e => ({
+      id: e.id, direction: 'outbound', messageId: e.messageId, inReplyTo: e.inReplyTo, references: [],
+      from: e.from, to: e.to, subject: e.subject, at: new Date(e.sentAt),
+    }));
+  const inbound: ThreadMessage[] = (contact.activities || [])
+    .filter(a => a.type === 'email_reply')
+    .map(a => ({
+      id: String(a.metadata?.replyId || a.id), direction: 'inbound',
+      messageId: normalizeMessageId(a.metadata?.messageId), inReplyTo: normalizeMessageId(a.metadata?.inReplyTo), references: [],
+      sentEmailId: a.metadata?.sentEmailId || undefined,
+      from: String(a.metadata?.fromEmail || ''), to: String(a.metadata?.toEmail || ''),
+      subject: String(a.metadata?.subject || ''), text: a.metadata?.snippet || a.description, at: new Date(a.timestamp),
+    }));
+  return [...outbound, ...inbound];
+}
+
+export default function EmailThreadPanel({ contact }: Props) {
+  const { sentEmails, senderProfiles, recordThreadReply } = useAppStore();
+  const [remote, setRemote] = useState<ThreadMessage[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [provider, setProvider] = useState<'resend' | 'smtp'>('resend');
+  const [senderId, setSenderId] = useState(() => senderProfiles.find(p => p.isDefault)?.id || senderProfiles[0]?.id || '');
+  const [sending, setSending] = useState(false);
+
+  const replyCount = (contact.activities || []).filter(a => a.type === 'email_reply').length;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setRemote(await supabaseSync.fetchEmailThreadMessages(contact.id));
+    setLoading(false);
+  }, [contact.id]);
+
+  // Refetch when the outreach poll brings in a new reply
+  useEffect(() => { load(); }, [load, replyCount]);
+  useEffect(() => { setActiveThreadId(null); setDraft(''); }, [contact.id]);
+
+  const threads = useMemo(() => {
+    const byId = new Map<string, ThreadMessage>();
+    for (const m of localMessages(contact, sentEmails)) byId.set(m.id, m);
+    for (const m of remote || []) byId.set(m.id, m);
+    return buildThreads(Array.from(byId.values()));
+  }, [contact, sentEmails, remote]);
+
+  const active = threads.find(t => t.id === activeThreadId) || threads[0];
+  const lastInbound = active && [...active.messages].reverse().find(m => m.direction === 'inbound');
+  const replyTo = lastInbound?.from || active?.messages[active.messages.length - 1]?.to || '';
+
+  const handleSend = async () => {
+    if (!active || !draft.trim() || !replyTo) return;
+    if (provider === 'resend' && !resendService.isConfigured) { toast.error('V-send (Resend) not configured'); return; }
+    if (provider === 'smtp' && !smtpSendService.isConfigured) { toast.error('SMTP not configured'); return; }
+    const sender = senderProfiles.find(p => p.id === senderId);
+    const { subject, inReplyTo, references } = replyThreading(active);
+    const reply = { subject, text: draft.trim(), html: replyHtml(draft.trim(), sender?.signatureHtml) };
+    setSending(true);
+    try {
+      const sent = provider === 'smtp'
+        ? await smtpSendService.sendReply(contact, replyTo, reply, { inReplyTo, references }, sender)
+        : await resendService.sendReply(contact, replyTo, reply, { inReplyTo, references }, sender);
+      recordThreadReply(contact.id, sent);
+      setRemote(prev => [...(prev || []), {
+        id: sent.id, direction: 'outbound', messageId: sent.messageId, inReplyTo, references,
+        from: sent.from, to: sent.to, subject, text: reply.text, at: sent.sentAt,
+      }]);
+      setDraft('');
+      toast.success(`Reply sent to ${replyTo}`);
+    } catch (err: any) {
+      toast.error(err?.message || 'Reply failed');
+    }
+    setSending(false);
+  };
+
+  if (!threads.length) {
+    return (
+      <div className="text-center py-8">
+        <Mail className="w-6 h-6 text-slate-600 mx-auto mb-2" />
+        <p className="text-xs text-slate-400">{loading ? 'Loading conversation…' : 'No emails with this contact yet'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select value={active?.id} onChange={e => setActiveThreadId(e.target.value)}
+          className="flex-1 min-w-0 text-[11px] py-1.5 px-2 bg-white/5 border border-white/[0.06] rounded-md text-slate-300">
+          {threads.map(t => (
+            <option key={t.id} value={t.id}>{t.subject} ({t.messages.length}) · {t.lastAt.toLocaleDateString()}</option>
+          ))}
+        </select>
+        <button onClick={load} disabled={loading} className="p-1.5 rounded-md text-slate-500 hover:text-slate-300 hover:bg-white/[0.06]" title="Refresh">
+          <RefreshCw className={cn('w-3.5 h-3.5', loading && 'animate-spin')} />
+        </button>
+      </div>
+
+      {active && (
+        <div className="space-y-2">
+          {active.messages.map(m => {
+            const inbound = m.direction === 'inbound';
+            const body = m.text || (m.html ? stripHtml(m.html) : '');
+            return (
+              <div key={m.id} className={cn('rounded-lg border p-2.5', inbound ? 'bg-emerald-500/[0.06] border-emerald-500/15 mr-6' : 'bg-novalyte-500/[0.06] border-novalyte-500/15 ml-6')}>
+                <div className="flex items-center gap-1.5 text-[10px] text-slate-500">
+                  {inbound ? <ArrowDownLeft className="w-3 h-3 text-emerald-400" /> : <ArrowUpRight className="w-3 h-3 text-novalyte-400" />}
+                  <span className="truncate">{inbound ? m.from : `To ${m.to}`}</span>
+                  <span className="ml-auto shrink-0">{m.at.toLocaleString()}</span>
+                </div>
+                <p className="text-[11px] font-medium text-slate-300 mt-1">{m.subject}</p>
+                {body
+                  ? <p className="text-xs text-slate-300 mt-1 whitespace-pre-wrap break-words">{body}</p>
+                  : <p className="text-[10px] text-slate-600 mt-1 italic">Body not stored</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="rounded-lg border border-white/[0.06] bg-white/[0.02] p-2.5 space-y-2">
+        <div className="flex items-center gap-2 text-[10px] text-slate-500">
+          <span className="truncate">Reply to {replyTo || '—'}</span>
+          <select value={provider} onChange={e => setProvider(e.target.value as 'resend' | 'smtp')}
+            className="ml-auto bg-white/5 border border-white/[0.06] rounded px-1.5 py-0.5 text-[10px] text-slate-300">
+            <option value="resend">V-send</option>
+            <option value="smtp">SMTP</option>
+          </select>
+          {senderProfiles.length > 0 && (
+            <select value={senderId} onChange={e => setSenderId(e.target.value)}
+              className="bg-white/5 border border-white/[0.06] rounded px-1.5 py-0.5 text-[10px] text-slate-300">
+              {senderProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          )}
+        </div>
+        <textarea value={draft} onChange={e => setDraft(e.target.value)} rows={4} placeholder="Write a reply…"
+          className="w-full text-xs p-2 bg-white/[0.03] border border-white/[0.06] rounded-md text-slate-300 focus:outline-none focus:ring-2 focus:ring-novalyte-500/20 placeholder:text-slate-600 resize-y" />
+        <div className="flex items-center justify-between">
+          <p className="text-[10px] text-slate-600">Stops any active sequence for this contact.</p>
+          <button onClick={handleSend} disabled={sending || !draft.trim() || !replyTo}
+            className="inline-flex items-center gap-1 px-2.5 py-1.5 bg-novalyte-500 text-black font-semibold rounded-md text-[11px] hover:bg-novalyte-400 disabled:opacity-50">
+            {sending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />} Send reply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeft, ArrowRight, Layers, Loader2, Plus, RefreshCw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import {
+  type EnrichmentField,
+  type EnrichmentProvider,
+  DEFAULT_WATERFALL_CONFIG,
+  ENRICHMENT_FIELDS,
+  ENRICHMENT_PROVIDERS,
+  LEDGER_RETENTION_DAYS,
+  MIN_CALLS_FOR_VERDICT,
+  PROVIDER_FIELDS,
+  PROVIDER_LABELS,
+  summarizeLedger,
+} from '../utils/enrichmentWaterfall';
+
+interface Props {
+  onClose: () => void;
+}
+
+const inputCls = 'w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1 text-xs text-slate-200';
+const labelCls = 'text-[10px] font-semibold text-slate-500 uppercase tracking-wider';
+
+const WINDOWS = [7, 30, LEDGER_RETENTION_DAYS];
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+const usd = (n: number) => `$${n.toFixed(2)}`;
+
+export default function EnrichmentWaterfallPanel({ onClose }: Props) {
+  const { enrichmentWaterfall: config, enrichmentLedger, setEnrichmentWaterfall, refreshEnrichmentLedger } = useAppStore();
+  const [windowDays, setWindowDays] = useState(30);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const report = useMemo(
+    () => summarizeLedger(enrichmentLedger, config, new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000)),
+    [enrichmentLedger, config, windowDays],
+  );
+  const totalCost = report.reduce((s, r) => s + r.costUsd, 0);
+  const totalVerified = report.filter(r => r.provider !== 'revenuebase').reduce((s, r) => s + r.verifiedEmails, 0);
+
+  const setOrder = (field: EnrichmentField, providers: EnrichmentProvider[]) =>
+    setEnrichmentWaterfall({ order: { ...config.order, [field]: providers } });
+
+  const move = (field: EnrichmentField, i: number, delta: number) => {
+    const next = [...config.order[field]];
+    const j = i + delta;
+    if (j < 0 || j >= next.length) return;
+    [next[i], next[j]] = [next[j], next[i]];
+    setOrder(field, next);
+  };
+
+  const dropEverywhere = (provider: EnrichmentProvider) => {
+    setEnrichmentWaterfall({
+      order: Object.fromEntries(
+        ENRICHMENT_FIELDS.map(f => [f, config.order[f].filter(p => p !== provider)]),
+      ) as Record<EnrichmentField, EnrichmentProvider[]>,
+    });
+    toast.success(`${PROVIDER_LABELS[provider]} removed from the waterfall`);
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refreshEnrichmentLedger();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-black rounded-xl shadow-2xl w-full max-w-5xl mx-4 overflow-hidden border border-white/[0.06] max-h-[90vh] flex flex-col">
+        <div className="px-5 py-4 border-b border-white/[0.06] flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Layers className="w-5 h-5 text-novalyte-400" />
+            <h3 className="font-semibold text-white text-sm">Enrichment Waterfall</h3>
+            <span className="text-[11px] text-slate-500">
+              {usd(totalCost)} spent · {totalVerified} verified emails
+              {totalVerified > 0 && ` · ${usd(totalCost / totalVerified)} each`}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={windowDays} onChange={e => setWindowDays(Number(e.target.value))}
+              className="bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1 text-[11px] text-slate-300">
+              {WINDOWS.map(d => <option key={d} value={d}>Last {d} days</option>)}
+            </select>
+            <button onClick={handleRefresh} disabled={refreshing} title="Pull ledger rows from other browsers and batch runs"
+              className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/[0.06]">
+              {refreshing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/[0.06]"><X className="w-4 h-4" /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5 space-y-5">
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-slate-500 text-left">
+                <th className="font-medium py-1.5">Provider</th>
+                <th className="font-medium py-1.5 text-right">Calls</th>
+                <th className="font-medium py-1.5 text-right">Hit rate</th>
+                <th className="font-medium py-1.5 text-right">Credits</th>
+                <th className="font-medium py-1.5 text-right">Cost</th>
+                <th className="font-medium py-1.5 text-right">Verified emails</th>
+                <th className="font-medium py-1.5 text-right">Cost / verified</th>
+                <th className="font-medium py-1.5">Verdict</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.length === 0 && (
+                <tr><td colSpan={8} className="py-4 text-center text-slate-600">No enrichment calls in this window</td></tr>
+              )}
+              {report.map(r => {
+                const inOrder = ENRICHMENT_FIELDS.some(f => config.order[f].includes(r.provider));
+                return (
+                  <tr key={r.provider} className="border-t border-white/[0.04]">
+                    <td className="py-2 text-slate-200">{PROVIDER_LABELS[r.provider]}</td>
+                    <td className="py-2 text-right text-slate-400">{r.calls}</td>
+                    <td className="py-2 text-right text-slate-300">{pct(r.hitRate)}</td>
+                    <td className="py-2 text-right text-slate-400">{Math.round(r.credits * 100) / 100}</td>
+                    <td className="py-2 text-right text-slate-300">{usd(r.costUsd)}</td>
+                    <td className="py-2 text-right text-slate-300">{r.verifiedEmails}</td>
+                    <td className="py-2 text-right text-slate-300">{r.costPerVerifiedEmail === null ? '—' : usd(r.costPerVerifiedEmail)}</td>
+                    <td className="py-2">
+                      {r.paysForItself === null ? (
+                        <span className="text-[10px] text-slate-600">&lt; {MIN_CALLS_FOR_VERDICT} calls</span>
+                      ) : r.paysForItself ? (
+                        <span className="px-1.5 py-0.5 rounded border text-[10px] bg-emerald-500/10 text-emerald-300 border-emerald-500/20">pays</span>
+                      ) : (
+                        <span className="flex items-center gap-2">
+                          <span className="px-1.5 py-0.5 rounded border text-[10px] bg-red-500/10 text-red-300 border-red-500/20">doesn't pay</span>
+                          {inOrder && (
+                            <button onClick={() => dropEverywhere(r.provider)} className="text-[10px] text-red-400 hover:underline">Drop</button>
+                          )}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className={labelCls}>Provider order per field</span>
+              <button onClick={() => setEnrichmentWaterfall({ order: DEFAULT_WATERFALL_CONFIG.order, stopAt: DEFAULT_WATERFALL_CONFIG.stopAt })}
+                className="text-[10px] text-slate-500 hover:text-slate-300">Reset order</button>
+            </div>
+            {ENRICHMENT_FIELDS.map(field => {
+              const order = config.order[field];
+              const addable = ENRICHMENT_PROVIDERS.filter(p => PROVIDER_FIELDS[p].includes(field) && !order.includes(p));
+              return (
+                <div key={field} className="flex items-center gap-2 rounded-lg border border-white/[0.06] bg-white/[0.02] px-3 py-2">
+                  <span className="w-12 text-xs text-slate-300 capitalize">{field}</span>
+                  <div className="flex-1 flex flex-wrap items-center gap-1.5">
+                    {order.length === 0 && <span className="text-[10px] text-slate-600">Not enriched</span>}
+                    {order.map((p, i) => (
+                      <span key={p} className="flex items-center gap-0.5 pl-2 pr-1 py-0.5 rounded-md bg-white/5 border border-white/[0.06] text-[11px] text-slate-300">
+                        <span className="text-slate-600 mr-1">{i + 1}</span>{PROVIDER_LABELS[p]}
+                        <button onClick={() => move(field, i, -1)} disabled={i === 0} className="p-0.5 text-slate-500 hover:text-slate-200 disabled:opacity-30"><ArrowLeft className="w-3 h-3" /></button>
+                        <button onClick={() => move(field, i, 1)} disabled={i === order.length - 1} className="p-0.5 text-slate-500 hover:text-slate-200 disabled:opacity-30"><ArrowRight className="w-3 h-3" /></button>
+                        <button onClick={() => setOrder(field, order.filter(x => x !== p))} className="p-0.5 text-slate-500 hover:text-red-300"><X className="w-3 h-3" /></button>
+                      </span>
+                    ))}
+                    {addable.length > 0 && (
+                      <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                        <Plus className="w-3 h-3" />
+                        <select value="" onChange={e => e.target.value && setOrder(field, [...order, e.target.value as EnrichmentProvider])}
+                          className="bg-transparent text-slate-400">
+                          <option value="">Add</option>
+                          {addable.map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+                        </select>
+                      </label>
+                    )}
+                  </div>
+                  <label className="flex items-center gap-1.5 text-[10px] text-slate-500 whitespace-nowrap">
+                    Stop at
+                    <input type="number" min={0} max={100} value={config.stopAt[field]}
+                      onChange={e => setEnrichmentWaterfall({ stopAt: { ...config.stopAt, [field]: Math.max(0, Math.min(100, Number(e.target.value) || 0)) } })}
+                      className={cn(inputCls, 'w-14')} />
+                    % conf
+                  </label>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {ENRICHMENT_PROVIDERS.map(p => (
+              <label key={p}>
+                <span className={labelCls}>{PROVIDER_LABELS[p]} $/credit</span>
+                <input type="number" min={0} step={0.001} value={config.creditCost[p]}
+                  onChange={e => setEnrichmentWaterfall({ creditCost: { ...config.creditCost, [p]: Math.max(0, Number(e.target.value) || 0) } })}
+                  className={cn(inputCls, 'mt-1')} />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-[11px] text-slate-400">
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={config.verifyEmails} onChange={e => setEnrichmentWaterfall({ verifyEmails: e.target.checked })} />
+              Verify new emails with RevenueBase
+            </label>
+            <label className="flex items-center gap-1.5">
+              Flag below
+              <input type="number" min={0} max={100} value={Math.round(config.minHitRate * 100)}
+                onChange={e => setEnrichmentWaterfall({ minHitRate: Math.max(0, Math.min(100, Number(e.target.value) || 0)) / 100 })}
+                className={cn(inputCls, 'w-14')} />
+              % hit rate
+            </label>
+            <label className="flex items-center gap-1.5">
+              or above $
+              <input type="number" min={0} step={0.1} value={config.maxCostPerVerifiedEmail}
+                onChange={e => setEnrichmentWaterfall({ maxCostPerVerifiedEmail: Math.max(0, Number(e.target.value) || 0) })}
+                className={cn(inputCls, 'w-16')} />
+              per verified email
+            </label>
+          </div>
+          <p className="text-[10px] text-slate-600">
+            dm-enrichment-batch follows the email order (Apollo, LeadMagic and pattern guesses) and books its calls in the same ledger.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
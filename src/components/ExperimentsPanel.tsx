@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FlaskConical, Play, Plus, RefreshCw, Trash2, Trophy, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import { validateTemplateSource } from '../utils/emailTemplates';
+import {
+  type EmailExperiment,
+  type ExperimentMetric,
+  type ExperimentTarget,
+  type ExperimentVariant,
+  DEFAULT_CONFIDENCE,
+  DEFAULT_MIN_SAMPLE_PER_VARIANT,
+  collectRepliedEmailIds,
+  computeVariantStats,
+  evaluateExperiment,
+} from '../utils/experiments';
+
+const inputCls = 'mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200';
+const labelCls = 'text-[10px] font-semibold text-slate-500 uppercase tracking-wider';
+
+const statusCls: Record<EmailExperiment['status'], string> = {
+  draft: 'bg-slate-500/10 text-slate-400 border-slate-500/20',
+  running: 'bg-violet-500/10 text-violet-300 border-violet-500/20',
+  completed: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/20',
+};
+
+function newVariant(index: number): ExperimentVariant {
+  return {
+    id: `var-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    name: String.fromCharCode(65 + index),
+    subject: '', html: '', instructions: '', weight: 1,
+  };
+}
+
+function newExperiment(): EmailExperiment {
+  const now = new Date();
+  return {
+    id: `exp-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    name: '',
+    target: { kind: 'template', templateId: '' },
+    variants: [newVariant(0), newVariant(1)],
+    metric: 'open',
+    status: 'draft',
+    minSamplePerVariant: DEFAULT_MIN_SAMPLE_PER_VARIANT,
+    confidence: DEFAULT_CONFIDENCE,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+export default function ExperimentsPanel() {
+  const {
+    contacts, sentEmails, emailTemplates, sequences, experiments,
+    saveExperiment, deleteExperiment, evaluateExperiments,
+  } = useAppStore();
+  const [draft, setDraft] = useState<EmailExperiment | null>(null);
+
+  // Webhook events land in sentEmails / reply activities — re-check running experiments as they arrive
+  useEffect(() => {
+    for (const x of evaluateExperiments()) {
+      const winner = x.variants.find(v => v.id === x.winnerVariantId);
+      toast.success(`A/B winner for "${x.name}": ${winner?.name || x.winnerVariantId}`);
+    }
+  }, [sentEmails, contacts, evaluateExperiments]);
+
+  const replied = useMemo(() => collectRepliedEmailIds(contacts, sentEmails), [contacts, sentEmails]);
+
+  const targetLabel = (t: ExperimentTarget) => {
+    if (t.kind === 'template') return `Template · ${emailTemplates.find(x => x.id === t.templateId)?.name || t.templateId}`;
+    const seq = sequences.find(s => s.id === t.sequenceId);
+    return `Sequence · ${seq?.name || t.sequenceId} → ${seq?.steps.find(s => s.id === t.stepId)?.name || t.stepId}`;
+  };
+
+  const emailSteps = (sequenceId: string) =>
+    sequences.find(s => s.id === sequenceId)?.steps.filter(s => s.channel === 'email') || [];
+
+  const draftProblems = useMemo(() => {
+    if (!draft) return [];
+    const problems: string[] = [];
+    if (!draft.name.trim()) problems.push('Name the experiment');
+    if (draft.target.kind === 'template' && !draft.target.templateId) problems.push('Pick a template');
+    if (draft.target.kind === 'sequence_step' && (!draft.target.sequenceId || !draft.target.stepId)) problems.push('Pick a sequence email step');
+    if (draft.variants.length < 2) problems.push('Add at least two variants');
+    for (const v of draft.variants) {
+      if (!v.subject?.trim() && !v.html?.trim() && !v.instructions?.trim()) problems.push(`Variant ${v.name} changes nothing`);
+      const { unknown, errors } = validateTemplateSource(v.subject || '', v.html || '');
+      if (unknown.length) problems.push(`Variant ${v.name}: unknown fields ${unknown.join(', ')}`);
+      for (const e of errors) problems.push(`Variant ${v.name}: ${e}`);
+    }
+    return problems;
+  }, [draft]);
+
+  const saveDraft = (start: boolean) => {
+    if (!draft || draftProblems.length) return;
+    saveExperiment({ ...draft, status: start ? 'running' : 'draft' });
+    toast.success(start ? `Started "${draft.name}"` : `Saved "${draft.name}"`);
+    setDraft(null);
+  };
+
+  const setVariant = (id: string, patch: Partial<ExperimentVariant>) =>
+    setDraft(d => d && { ...d, variants: d.variants.map(v => v.id === id ? { ...v, ...patch } : v) });
+
+  const sorted = [...experiments].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-violet-400" />
+          <h4 className="text-[10px] text-slate-500 uppercase tracking-wider">A/B Experiments</h4>
+        </div>
+        {!draft && (
+          <button onClick={() => setDraft(newExperiment())}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11px] font-medium border bg-white/[0.03] text-slate-300 border-white/[0.06] hover:bg-white/[0.06]">
+            <Plus className="w-3 h-3" /> New experiment
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="rounded-lg border border-white/[0.06] bg-white/[0.02] p-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="md:col-span-2">
+              <span className={labelCls}>Name</span>
+              <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputCls} placeholder="Intro subject line test" />
+            </label>
+            <label>
+              <span className={labelCls}>Winner metric</span>
+              <select value={draft.metric} onChange={e => setDraft({ ...draft, metric: e.target.value as ExperimentMetric })} className={inputCls}>
+                <option value="open">Open rate</option>
+                <option value="click">Click rate</option>
+                <option value="reply">Reply rate</option>
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label>
+                <span className={labelCls}>Sends per look</span>
+                <input type="number" min={10} value={draft.minSamplePerVariant}
+                  onChange={e => setDraft({ ...draft, minSamplePerVariant: Math.max(10, Number(e.target.value) || 0) })} className={inputCls} />
+              </label>
+              <label>
+                <span className={labelCls}>Confidence</span>
+                <select value={draft.confidence} onChange={e => setDraft({ ...draft, confidence: Number(e.target.value) })} className={inputCls}>
+                  <option value={0.9}>90%</option>
+                  <option value={0.95}>95%</option>
+                  <option value={0.99}>99%</option>
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label>
+              <span className={labelCls}>Attach to</span>
+              <select value={draft.target.kind} className={inputCls}
+                onChange={e => setDraft({
+                  ...draft,
+                  target: e.target.value === 'template'
+                    ? { kind: 'template', templateId: '' }
+                    : { kind: 'sequence_step', sequenceId: '', stepId: '' },
+                })}>
+                <option value="template">Template</option>
+                <option value="sequence_step">Sequence step</option>
+              </select>
+            </label>
+            {draft.target.kind === 'template' ? (
+              <label className="md:col-span-2">
+                <span className={labelCls}>Template</span>
+                <select value={draft.target.templateId} className={inputCls}
+                  onChange={e => setDraft({ ...draft, target: { kind: 'template', templateId: e.target.value } })}>
+                  <option value="">Select…</option>
+                  {emailTemplates.filter(t => !t.archived).map(t => <option key={t.id} value={t.id}>{t.name} (v{t.version})</option>)}
+                </select>
+              </label>
+            ) : (
+              <>
+                <label>
+                  <span className={labelCls}>Sequence</span>
+                  <select value={draft.target.sequenceId} className={inputCls}
+                    onChange={e => setDraft({ ...draft, target: { kind: 'sequence_step', sequenceId: e.target.value, stepId: emailSteps(e.target.value)[0]?.id || '' } })}>
+                    <option value="">Select…</option>
+                    {sequences.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </label>
+                <label>
+                  <span className={labelCls}>Email step</span>
+                  <select value={draft.target.stepId} className={inputCls}
+                    onChange={e => draft.target.kind === 'sequence_step' && setDraft({ ...draft, target: { ...draft.target, stepId: e.target.value } })}>
+                    {emailSteps(draft.target.sequenceId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </label>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {draft.variants.map((v, i) => (
+              <div key={v.id} className="rounded-lg border border-white/[0.06] p-2.5 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input value={v.name} onChange={e => setVariant(v.id, { name: e.target.value })}
+                    className="w-24 bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1 text-xs text-slate-200" />
+                  <span className="text-[10px] text-slate-500">Weight</span>
+                  <input type="number" min={0} value={v.weight} onChange={e => setVariant(v.id, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-16 bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1 text-xs text-slate-200" />
+                  {draft.variants.length > 2 && (
+                    <button onClick={() => setDraft({ ...draft, variants: draft.variants.filter(x => x.id !== v.id) })}
+                      className="ml-auto p-1 text-slate-500 hover:text-red-400" title="Remove variant">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                <input value={v.subject || ''} onChange={e => setVariant(v.id, { subject: e.target.value })} className={inputCls}
+                  placeholder={i === 0 ? 'Subject — leave empty to keep the original (control)' : 'Subject, e.g. {{clinic.name}}: patients searching in {{marketZone.city}}'} />
+                {draft.target.kind === 'template' ? (
+                  <textarea value={v.html || ''} onChange={e => setVariant(v.id, { html: e.target.value })} rows={3} className={cn(inputCls, 'font-mono')}
+                    placeholder="HTML body — leave empty to keep the template body" />
+                ) : (
+                  <textarea value={v.instructions || ''} onChange={e => setVariant(v.id, { instructions: e.target.value })} rows={2} className={inputCls}
+                    placeholder="Direction for the AI writer, e.g. lead with a single question, under 80 words" />
+                )}
+              </div>
+            ))}
+            {draft.variants.length < 5 && (
+              <button onClick={() => setDraft({ ...draft, variants: [...draft.variants, newVariant(draft.variants.length)] })}
+                className="flex items-center gap-1 text-[11px] text-slate-400 hover:text-slate-200">
+                <Plus className="w-3 h-3" /> Add variant
+              </button>
+            )}
+          </div>
+
+          {draftProblems.length > 0 && (
+            <div className="text-[11px] text-amber-300 space-y-0.5">
+              {draftProblems.map(p => <p key={p}>{p}</p>)}
+            </div>
+          )}
+          <div className="flex items-center justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-[11px] text-slate-400 hover:text-slate-200">Cancel</button>
+            <button onClick={() => saveDraft(false)} disabled={draftProblems.length > 0}
+              className="px-3 py-1.5 rounded-lg text-[11px] font-medium border bg-white/[0.03] text-slate-300 border-white/[0.06] hover:bg-white/[0.06] disabled:opacity-40">
+              Save draft
+            </button>
+            <button onClick={() => saveDraft(true)} disabled={draftProblems.length > 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-medium bg-violet-500/20 text-violet-200 border border-violet-500/30 hover:bg-violet-500/30 disabled:opacity-40">
+              <Play className="w-3 h-3" /> Start
+            </button>
+          </div>
+        </div>
+      )}
+
+      {sorted.length === 0 && !draft && (
+        <p className="text-xs text-slate-500">
+          Split a template or sequence email step into variants. Each recipient gets one at random and the winner is promoted once the difference is significant at one of the planned looks.
+        </p>
+      )}
+
+      {sorted.map(x => {
+        const stats = computeVariantStats(x, sentEmails, replied);
+        const decision = x.status === 'running' ? evaluateExperiment(x, sentEmails, replied) : undefined;
+        return (
+          <div key={x.id} className="rounded-lg border border-white/[0.06] p-3 space-y-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-sm text-slate-200 font-medium">{x.name}</span>
+              <span className={cn('px-1.5 py-0.5 rounded border text-[10px]', statusCls[x.status])}>{x.status}</span>
+              <span className="text-[11px] text-slate-500">{targetLabel(x.target)} · {x.metric} rate · {Math.round(x.confidence * 100)}% · looks every {x.minSamplePerVariant}/variant</span>
+              <div className="ml-auto flex items-center gap-1">
+                {x.status === 'draft' && (
+                  <button onClick={() => saveExperiment({ ...x, status: 'running' })}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-[11px] text-violet-300 hover:bg-violet-500/10">
+                    <Play className="w-3 h-3" /> Start
+                  </button>
+                )}
+                {x.status === 'running' && (
+                  <button onClick={() => { if (!evaluateExperiments().some(d => d.id === x.id)) toast(decision?.reason || 'No winner yet'); }}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-[11px] text-slate-400 hover:bg-white/[0.06]" title="Check for a winner now">
+                    <RefreshCw className="w-3 h-3" /> Check
+                  </button>
+                )}
+                <button onClick={() => { if (confirm(`Delete experiment "${x.name}"? Sent emails keep their variant tags.`)) deleteExperiment(x.id); }}
+                  className="p-1 text-slate-500 hover:text-red-400" title="Delete">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+            <table className="w-full text-[11px]">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="font-medium py-1">Variant</th>
+                  <th className="font-medium py-1 text-right">Sent</th>
+                  <th className="font-medium py-1 text-right">Open</th>
+                  <th className="font-medium py-1 text-right">Click</th>
+                  <th className="font-medium py-1 text-right">Reply</th>
+                </tr>
+              </thead>
+              <tbody>
+                {x.variants.map(v => {
+                  const s = stats.find(st => st.variantId === v.id)!;
+                  const isWinner = x.winnerVariantId === v.id;
+                  return (
+                    <tr key={v.id} className={cn('border-t border-white/[0.04]', isWinner && 'text-emerald-300')}>
+                      <td className="py-1">
+                        <span className="flex items-center gap-1.5">
+                          {isWinner && <Trophy className="w-3 h-3" />}
+                          <span className={isWinner ? '' : 'text-slate-300'}>{v.name}</span>
+                          <span className="text-slate-500 truncate max-w-[240px]">{v.subject || v.instructions || ''}</span>
+                        </span>
+                      </td>
+                      <td className="py-1 text-right text-slate-400">{s.sent}</td>
+                      <td className={cn('py-1 text-right', x.metric === 'open' ? 'text-slate-200' : 'text-slate-400')}>{pct(s.openRate)}</td>
+                      <td className={cn('py-1 text-right', x.metric === 'click' ? 'text-slate-200' : 'text-slate-400')}>{pct(s.clickRate)}</td>
+                      <td className={cn('py-1 text-right', x.metric === 'reply' ? 'text-slate-200' : 'text-slate-400')}>{pct(s.replyRate)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {decision && <p className="text-[11px] text-slate-500">{decision.reason}</p>}
+            {x.status === 'completed' && x.decidedAt && (
+              <p className="text-[11px] text-emerald-400/80">
+                Winner promoted {x.decidedAt.toLocaleDateString()}{x.target.kind === 'template' ? ' and saved as a new template version' : ' — new drafts for this step use it'}.
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
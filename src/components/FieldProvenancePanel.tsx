@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Pin, PinOff } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import { ClinicProvenanceField, ContactProvenanceField, CRMContact, FieldHistory } from '../types';
+import { cn } from '../utils/cn';
+import { SOURCE_LABELS, normalizeValue, rankValues } from '../utils/provenance';
+
+interface Props {
+  contact: CRMContact;
+}
+
+type Row =
+  | { scope: 'contact'; field: ContactProvenanceField; label: string; history?: FieldHistory }
+  | { scope: 'clinic'; field: ClinicProvenanceField; label: string; history?: FieldHistory };
+
+const VERIFICATION_BADGE: Record<string, { label: string; cls: string }> = {
+  valid: { label: '✓ valid', cls: 'bg-emerald-500/15 text-emerald-400' },
+  risky: { label: '! risky', cls: 'bg-amber-500/15 text-amber-400' },
+  invalid: { label: '✗ invalid', cls: 'bg-red-500/15 text-red-400' },
+};
+
+/** Competing values per field, why the current one won, and manual pinning */
+export default function FieldProvenancePanel({ contact }: Props) {
+  const { pinContactField, pinClinicField, selectContact } = useAppStore();
+  const [open, setOpen] = useState<string | null>(null);
+
+  const rows: Row[] = [
+    { scope: 'contact', field: 'name', label: 'Name', history: contact.provenance?.name },
+    { scope: 'contact', field: 'title', label: 'Title', history: contact.provenance?.title },
+    { scope: 'contact', field: 'email', label: 'Email', history: contact.provenance?.email },
+    { scope: 'contact', field: 'phone', label: 'Phone', history: contact.provenance?.phone },
+    { scope: 'clinic', field: 'email', label: 'Clinic email', history: contact.clinic.provenance?.email },
+    { scope: 'clinic', field: 'website', label: 'Website', history: contact.clinic.provenance?.website },
+  ];
+  const tracked = rows.filter(r => r.history?.observations.length);
+
+  const pin = (row: Row, value: string | null) => {
+    if (row.scope === 'contact') pinContactField(contact.id, row.field, value);
+    else pinClinicField(contact.id, row.field, value);
+    const u = useAppStore.getState().contacts.find(c => c.id === contact.id); if (u) selectContact(u);
+  };
+
+  if (!tracked.length) return <p className="text-slate-500 text-[11px]">No sourced values yet. Enrich the contact to collect them.</p>;
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      {tracked.map(row => {
+        const key = `${row.scope}.${row.field}`;
+        const history = row.history!;
+        const candidates = rankValues(row.field, history.observations);
+        const pinned = history.pinned && normalizeValue(row.field, history.pinned.value);
+        const expanded = open === key;
+        return (
+          <div key={key} className="rounded-lg bg-white/[0.03]">
+            <button onClick={() => setOpen(expanded ? null : key)} className="w-full flex items-center justify-between gap-2 p-2 text-left">
+              <div className="min-w-0">
+                <p className="text-[10px] text-slate-500">{row.label}</p>
+                <p className="font-medium text-slate-300 truncate">{history.winner || '—'}</p>
+                {history.reason && <p className="text-[10px] text-slate-500">{history.reason}</p>}
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                {pinned && <Pin className="w-3 h-3 text-novalyte-400" />}
+                {candidates.length > 1 && <span className="text-[10px] text-amber-400">{candidates.length} values</span>}
+                {expanded ? <ChevronUp className="w-3.5 h-3.5 text-slate-500" /> : <ChevronDown className="w-3.5 h-3.5 text-slate-500" />}
+              </div>
+            </button>
+            {expanded && (
+              <div className="px-2 pb-2 space-y-1">
+                {candidates.map(o => {
+                  const isPinned = pinned === normalizeValue(row.field, o.value);
+                  const sources = history.observations.filter(x => normalizeValue(row.field, x.value) === normalizeValue(row.field, o.value));
+                  const badge = o.verification && VERIFICATION_BADGE[o.verification];
+                  return (
+                    <div key={o.value} className={cn('flex items-center justify-between gap-2 p-1.5 rounded-md border',
+                      o.value === history.winner ? 'border-novalyte-500/20 bg-novalyte-500/5' : 'border-white/[0.04]')}>
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-1">
+                          <span className="text-slate-300 truncate">{o.value}</span>
+                          {badge && <span className={cn('text-[8px] px-1 rounded', badge.cls)}>{badge.label}</span>}
+                        </div>
+                        <p className="text-[10px] text-slate-500">
+                          {sources.map(x => `${SOURCE_LABELS[x.source]} ${x.confidence}%`).join(' · ')} · {new Date(o.observedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <button onClick={() => pin(row, isPinned ? null : o.value)} title={isPinned ? 'Unpin' : 'Pin this value'}
+                        className={cn('p-1 rounded hover:bg-white/[0.06]', isPinned ? 'text-novalyte-400' : 'text-slate-500 hover:text-slate-300')}>
+                        {isPinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ import { clinicService } from '../services/clinicService';
 import { KeywordTrend, MEN_HEALTH_KEYWORDS, MarketZone } from '../types';
 import { cn } from '../utils/cn';
 import toast from 'react-hot-toast';
+import { undoToast } from './TrashPanel';
 
 type SortKey = 'trendScore' | 'growthRate' | 'searchVolume' | 'competitorActivity' | 'keyword' | 'market';
 type SortDir = 'asc' | 'desc';
@@ -362,11 +363,11 @@ DESCRIPTION: [meta description]
             {keywordTrends.length > 0 && (
               <button onClick={() => {
                 if (confirm(`Clear all ${keywordTrends.length} keyword trends? This lets you scan fresh without mixing old data.`)) {
-                  useAppStore.getState().clearKeywordTrends();
+                  const entry = useAppStore.getState().clearKeywordTrends();
                   setSelectedKeyword(null);
                   setSelectedKeywords(new Set());
                   setSelectedTrend(null);
-                  toast.success('All keyword trends cleared');
+                  undoToast(entry, 'All keyword trends cleared');
                 }
               }} className="btn bg-red-500/10 text-red-400 border border-red-500/20 hover:bg-red-500/20">
                 <Trash2 className="w-4 h-4 mr-2" /> Clear All ({keywordTrends.length})
@@ -1,7 +1,8 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { Volume2, VolumeX, Users } from 'lucide-react';
+import { Volume2, VolumeX, Users, ChevronLeft, ChevronRight } from 'lucide-react';
 import { cn } from '../utils/cn';
+import { paginate } from '../utils/paging';
 
 interface LeadRow {
   id: string;
@@ -17,6 +18,8 @@ interface LeadRow {
   gclid: string | null;
 }
 
+const PAGE_SIZE = 40;
+
 function playLeadTone() {
   try {
     const Ctx = (window as any).AudioContext || (window as any).webkitAudioContext;
@@ -47,6 +50,7 @@ function getIntentBadge(score: number | null) {
 export default function LeadsTable({ leads }: { leads: LeadRow[] }) {
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [flashIds, setFlashIds] = useState<Record<string, boolean>>({});
+  const [page, setPage] = useState(1);
   const seenIdsRef = useRef<Set<string>>(new Set());
   const readyRef = useRef(false);
 
@@ -80,7 +84,8 @@ export default function LeadsTable({ leads }: { leads: LeadRow[] }) {
     return () => window.clearTimeout(timeout);
   }, [leads, soundEnabled]);
 
-  const rows = useMemo(() => leads.slice(0, 40), [leads]);
+  const current = useMemo(() => paginate(leads, page, PAGE_SIZE), [leads, page]);
+  const rows = current.items;
 
   return (
     <div className="glass-card p-4 border border-cyan-400/20 shadow-[0_0_36px_rgba(34,211,238,0.08)]">
@@ -163,6 +168,31 @@ export default function LeadsTable({ leads }: { leads: LeadRow[] }) {
       </div>
 
       {rows.length === 0 && <p className="text-center text-slate-500 py-6">No leads yet.</p>}
+
+      {current.pageCount > 1 && (
+        <div className="flex items-center justify-between mt-3 text-[10px] text-slate-500">
+          <span className="font-mono tabular-nums">{current.from}–{current.to} of {current.total}</span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setPage(current.page - 1)}
+              disabled={current.page === 1}
+              className="inline-flex items-center rounded-md border border-white/[0.08] bg-white/[0.03] p-1 text-slate-300 hover:bg-white/[0.06] disabled:opacity-40"
+              title="Newer leads"
+            >
+              <ChevronLeft className="w-3.5 h-3.5" />
+            </button>
+            <span className="font-mono tabular-nums px-1">{current.page} / {current.pageCount}</span>
+            <button
+              onClick={() => setPage(current.page + 1)}
+              disabled={current.page === current.pageCount}
+              className="inline-flex items-center rounded-md border border-white/[0.08] bg-white/[0.03] p-1 text-slate-300 hover:bg-white/[0.06] disabled:opacity-40"
+              title="Older leads"
+            >
+              <ChevronRight className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,187 @@
+import { useMemo, useState } from 'react';
+import { BarChart3, CheckCircle2, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import {
+  type ScoringBacktest,
+  type ScoringModel,
+  SCORING_FACTORS,
+  DEFAULT_SCORING_MODEL,
+  backtestScoringModel,
+} from '../utils/leadScoring';
+
+interface Props {
+  onClose: () => void;
+}
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+export default function ScoringModelPanel({ onClose }: Props) {
+  const { contacts, scoringModels, activeScoringModelId, saveScoringModel, activateScoringModel } = useAppStore();
+  const active = scoringModels.find(m => m.id === activeScoringModelId) || DEFAULT_SCORING_MODEL;
+
+  const [baseId, setBaseId] = useState(active.id);
+  const base = scoringModels.find(m => m.id === baseId) || active;
+  const [name, setName] = useState(base.name);
+  const [notes, setNotes] = useState('');
+  const [weights, setWeights] = useState<ScoringModel['weights']>({ ...base.weights });
+  const [tiers, setTiers] = useState<ScoringModel['tiers']>({ ...base.tiers });
+
+  const loadBase = (id: string) => {
+    const m = scoringModels.find(x => x.id === id);
+    if (!m) return;
+    setBaseId(id);
+    setName(m.name);
+    setNotes('');
+    setWeights({ ...m.weights });
+    setTiers({ ...m.tiers });
+  };
+
+  const candidate: ScoringModel = useMemo(() => ({
+    id: 'candidate', name, version: 0, weights, tiers, createdAt: new Date(),
+  }), [name, weights, tiers]);
+
+  const activeResult = useMemo(() => backtestScoringModel(active, contacts), [active, contacts]);
+  const candidateResult = useMemo(() => backtestScoringModel(candidate, contacts), [candidate, contacts]);
+  const totalWeight = Object.values(weights).reduce((s, w) => s + Math.max(0, w || 0), 0);
+  const tiersValid = tiers.critical > tiers.high && tiers.high > tiers.medium && tiers.medium > 0;
+  const canSave = totalWeight > 0 && tiersValid && name.trim().length > 0;
+
+  const handleSave = (activate: boolean) => {
+    if (!canSave) return;
+    const saved = saveScoringModel({ name: name.trim(), weights, tiers, notes: notes.trim() || undefined });
+    if (activate) {
+      activateScoringModel(saved.id);
+      toast.success(`Scoring v${saved.version} active — contacts rescored`);
+    } else {
+      toast.success(`Saved scoring v${saved.version}`);
+    }
+    setBaseId(saved.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-black rounded-xl shadow-2xl w-full max-w-3xl mx-4 overflow-hidden border border-white/[0.06] max-h-[90vh] flex flex-col">
+        <div className="px-5 py-4 border-b border-white/[0.06] flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-novalyte-400" />
+            <div>
+              <h3 className="font-semibold text-white text-sm">Lead Scoring Model</h3>
+              <p className="text-[11px] text-slate-500">Active: {active.name} v{active.version}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/[0.06]"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5 grid grid-cols-1 md:grid-cols-2 gap-5">
+          {/* Editor */}
+          <div className="space-y-4">
+            <div>
+              <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Start from</label>
+              <select value={baseId} onChange={e => loadBase(e.target.value)}
+                className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200">
+                {[...scoringModels].sort((a, b) => b.version - a.version).map(m => (
+                  <option key={m.id} value={m.id}>{m.name} v{m.version}{m.id === activeScoringModelId ? ' (active)' : ''}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <p className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-2">Factor weights</p>
+              <div className="space-y-2">
+                {SCORING_FACTORS.map(f => (
+                  <div key={f.id} className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-slate-300">{f.label}</p>
+                      <p className="text-[10px] text-slate-500 truncate">{f.description}</p>
+                    </div>
+                    <input type="number" min={0} value={weights[f.id]}
+                      onChange={e => setWeights(w => ({ ...w, [f.id]: Math.max(0, Number(e.target.value) || 0) }))}
+                      className="w-16 bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1 text-xs text-slate-200 text-right" />
+                    <span className="w-10 text-right text-[10px] text-slate-500">{totalWeight ? pct(weights[f.id] / totalWeight) : '—'}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-2">Tier thresholds</p>
+              <div className="grid grid-cols-3 gap-2">
+                {(['critical', 'high', 'medium'] as const).map(t => (
+                  <label key={t} className="text-[10px] text-slate-500 capitalize">
+                    {t}
+                    <input type="number" min={0} max={100} value={tiers[t]}
+                      onChange={e => setTiers(x => ({ ...x, [t]: Number(e.target.value) || 0 }))}
+                      className="mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1 text-xs text-slate-200" />
+                  </label>
+                ))}
+              </div>
+              {!tiersValid && <p className="text-[10px] text-red-400 mt-1">Thresholds must descend: critical &gt; high &gt; medium &gt; 0</p>}
+            </div>
+
+            <div className="space-y-2">
+              <input value={name} onChange={e => setName(e.target.value)} placeholder="Model name"
+                className="w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200" />
+              <textarea value={notes} onChange={e => setNotes(e.target.value)} placeholder="What changed and why"
+                rows={2} className="w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200 resize-none" />
+            </div>
+          </div>
+
+          {/* Back-test */}
+          <div>
+            <p className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-2">Back-test vs historical outcomes</p>
+            <p className="text-[11px] text-slate-500 mb-3">
+              {candidateResult.qualified} qualified · {candidateResult.notInterested} not interested. Status is ignored when scoring so outcomes don't leak into the score.
+            </p>
+            <div className="rounded-xl border border-white/[0.06] overflow-hidden text-xs">
+              <div className="grid grid-cols-3 px-3 py-2 bg-white/[0.03] text-[10px] text-slate-500 font-semibold">
+                <span>Metric</span><span className="text-right">Active</span><span className="text-right">Candidate</span>
+              </div>
+              <BacktestRow label="AUC" a={activeResult} b={candidateResult} get={r => r.auc} fmt={n => n.toFixed(3)} />
+              <BacktestRow label="Avg score · qualified" a={activeResult} b={candidateResult} get={r => r.meanQualified} fmt={n => n.toFixed(1)} />
+              <BacktestRow label="Avg score · not interested" a={activeResult} b={candidateResult} get={r => r.meanNotInterested} fmt={n => n.toFixed(1)} higherIsBetter={false} />
+              <BacktestRow label="Precision @ high+" a={activeResult} b={candidateResult} get={r => r.precisionAtHigh} fmt={pct} />
+              <BacktestRow label="Recall @ high+" a={activeResult} b={candidateResult} get={r => r.recallAtHigh} fmt={pct} />
+            </div>
+            {activeResult.auc === null && (
+              <p className="text-[11px] text-amber-400 mt-2">Need at least one qualified and one not-interested contact to compare ranking quality.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="px-5 py-3 border-t border-white/[0.06] flex items-center justify-end gap-2">
+          <button onClick={() => handleSave(false)} disabled={!canSave}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-slate-300 bg-white/5 border border-white/[0.06] hover:bg-white/[0.08] disabled:opacity-40 transition-all">
+            <Save className="w-3.5 h-3.5" /> Save as new version
+          </button>
+          <button onClick={() => handleSave(true)} disabled={!canSave}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-novalyte-300 bg-novalyte-500/20 border border-novalyte-500/30 hover:bg-novalyte-500/30 disabled:opacity-40 transition-all">
+            <CheckCircle2 className="w-3.5 h-3.5" /> Save &amp; activate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BacktestRow({ label, a, b, get, fmt, higherIsBetter = true }: {
+  label: string;
+  a: ScoringBacktest;
+  b: ScoringBacktest;
+  get: (r: ScoringBacktest) => number | null;
+  fmt: (n: number) => string;
+  higherIsBetter?: boolean;
+}) {
+  const av = get(a);
+  const bv = get(b);
+  const better = av !== null && bv !== null && bv !== av && ((bv > av) === higherIsBetter);
+  const worse = av !== null && bv !== null && bv !== av && !better;
+  return (
+    <div className="grid grid-cols-3 px-3 py-2 border-t border-white/[0.04]">
+      <span className="text-slate-400">{label}</span>
+      <span className="text-right text-slate-300">{av === null ? '—' : fmt(av)}</span>
+      <span className={cn('text-right font-medium', better ? 'text-emerald-400' : worse ? 'text-red-400' : 'text-slate-300')}>{bv === null ? '—' : fmt(bv)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useMemo, useState } from 'react';
+import { Pause, Play, Plus, Save, Server, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import {
+  type MailboxHealthState,
+  type SendingMailbox,
+  HEALTH_WINDOW_DAYS,
+  computePoolCapacity,
+  remainingFor,
+} from '../utils/senderPool';
+
+interface Props {
+  onClose: () => void;
+}
+
+const inputCls = 'mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200';
+const labelCls = 'text-[10px] font-semibold text-slate-500 uppercase tracking-wider';
+
+const healthCls: Record<MailboxHealthState, string> = {
+  healthy: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/20',
+  warning: 'bg-amber-500/10 text-amber-300 border-amber-500/20',
+  blocked: 'bg-red-500/10 text-red-300 border-red-500/20',
+};
+
+function newMailbox(): SendingMailbox {
+  const now = new Date();
+  return {
+    id: `mailbox-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    provider: 'resend', fromEmail: '', fromName: '', domain: '',
+    status: 'active',
+    warmupStartedAt: now, warmupStartCap: 20, warmupDailyIncrease: 5, maxDailyCap: 150,
+    createdAt: now, updatedAt: now,
+  };
+}
+
+const pct = (n: number, digits = 1) => `${(n * 100).toFixed(digits)}%`;
+
+export default function SenderPoolPanel({ onClose }: Props) {
+  const { sendingMailboxes, sentEmails, saveSendingMailbox, deleteSendingMailbox } = useAppStore();
+  const [editing, setEditing] = useState<SendingMailbox | null>(null);
+
+  const capacities = useMemo(() => computePoolCapacity(sendingMailboxes, sentEmails), [sendingMailboxes, sentEmails]);
+
+  const editingProblems = useMemo(() => {
+    if (!editing) return [];
+    const problems: string[] = [];
+    const needsAddress = editing.provider === 'resend' || editing.id !== 'mailbox-smtp-default';
+    if (needsAddress && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(editing.fromEmail)) problems.push('Enter the mailbox address');
+    if (editing.maxDailyCap < editing.warmupStartCap) problems.push('Max daily cap is below the starting cap');
+    const dupe = sendingMailboxes.find(m => m.id !== editing.id && m.provider === editing.provider
+      && m.fromEmail.toLowerCase() === editing.fromEmail.toLowerCase());
+    if (dupe) problems.push('That address is already in the pool');
+    return problems;
+  }, [editing, sendingMailboxes]);
+
+  const handleSave = () => {
+    if (!editing || editingProblems.length) return;
+    const fromEmail = editing.fromEmail.trim().toLowerCase();
+    saveSendingMailbox({
+      ...editing,
+      fromEmail,
+      fromName: editing.fromName?.trim() || undefined,
+      domain: fromEmail.split('@')[1] || editing.domain,
+    });
+    toast.success(`Saved ${fromEmail || 'SMTP_FROM mailbox'}`);
+    setEditing(null);
+  };
+
+  const setStatus = (m: SendingMailbox, status: SendingMailbox['status']) =>
+    saveSendingMailbox({ ...m, status, pausedReason: status === 'paused' ? 'Paused manually' : undefined });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-black rounded-xl shadow-2xl w-full max-w-5xl mx-4 overflow-hidden border border-white/[0.06] max-h-[90vh] flex flex-col">
+        <div className="px-5 py-4 border-b border-white/[0.06] flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Server className="w-5 h-5 text-novalyte-400" />
+            <h3 className="font-semibold text-white text-sm">Sender Pool</h3>
+            <span className="text-[11px] text-slate-500">
+              {remainingFor(capacities, 'resend')} V-send · {remainingFor(capacities, 'smtp')} SMTP left today
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {!editing && (
+              <button onClick={() => setEditing(newMailbox())}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11px] font-medium border bg-white/[0.03] text-slate-300 border-white/[0.06] hover:bg-white/[0.06]">
+                <Plus className="w-3 h-3" /> Add mailbox
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/[0.06]"><X className="w-4 h-4" /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5 space-y-4">
+          {editing && (
+            <div className="rounded-lg border border-white/[0.06] bg-white/[0.02] p-3 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <label>
+                  <span className={labelCls}>Provider</span>
+                  <select value={editing.provider} onChange={e => setEditing({ ...editing, provider: e.target.value as SendingMailbox['provider'] })} className={inputCls}>
+                    <option value="resend">V-send (Resend)</option>
+                    <option value="smtp">SMTP</option>
+                  </select>
+                </label>
+                <label>
+                  <span className={labelCls}>Mailbox address</span>
+                  <input value={editing.fromEmail} onChange={e => setEditing({ ...editing, fromEmail: e.target.value })} className={inputCls}
+                    placeholder={editing.id === 'mailbox-smtp-default' ? 'Empty = server SMTP_FROM' : 'jamil@novalyte-mail.com'} />
+                </label>
+                <label>
+                  <span className={labelCls}>Default from name</span>
+                  <input value={editing.fromName || ''} onChange={e => setEditing({ ...editing, fromName: e.target.value })} className={inputCls} placeholder="Novalyte AI" />
+                </label>
+                <label>
+                  <span className={labelCls}>Warmup started</span>
+                  <input type="date" value={editing.warmupStartedAt.toISOString().slice(0, 10)}
+                    onChange={e => e.target.value && setEditing({ ...editing, warmupStartedAt: new Date(`${e.target.value}T00:00:00`) })} className={inputCls} />
+                </label>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <label>
+                  <span className={labelCls}>Day-0 cap</span>
+                  <input type="number" min={0} value={editing.warmupStartCap}
+                    onChange={e => setEditing({ ...editing, warmupStartCap: Math.max(0, Number(e.target.value) || 0) })} className={inputCls} />
+                </label>
+                <label>
+                  <span className={labelCls}>+ per day</span>
+                  <input type="number" min={0} value={editing.warmupDailyIncrease}
+                    onChange={e => setEditing({ ...editing, warmupDailyIncrease: Math.max(0, Number(e.target.value) || 0) })} className={inputCls} />
+                </label>
+                <label>
+                  <span className={labelCls}>Max daily cap</span>
+                  <input type="number" min={0} value={editing.maxDailyCap}
+                    onChange={e => setEditing({ ...editing, maxDailyCap: Math.max(0, Number(e.target.value) || 0) })} className={inputCls} />
+                </label>
+              </div>
+              {editing.provider === 'smtp' && editing.fromEmail && (
+                <p className="text-[10px] text-slate-500">SMTP mailboxes other than SMTP_FROM need credentials in the smtp-send SMTP_MAILBOXES secret.</p>
+              )}
+              {editing.provider === 'resend' && (
+                <p className="text-[10px] text-slate-500">The address's domain must be verified in Resend.</p>
+              )}
+              {editingProblems.length > 0 && (
+                <div className="text-[11px] text-amber-300 space-y-0.5">{editingProblems.map(p => <p key={p}>{p}</p>)}</div>
+              )}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setEditing(null)} className="px-3 py-1.5 rounded-lg text-[11px] text-slate-400 hover:text-slate-200">Cancel</button>
+                <button onClick={handleSave} disabled={editingProblems.length > 0}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-medium bg-novalyte-500/20 text-novalyte-200 border border-novalyte-500/30 hover:bg-novalyte-500/30 disabled:opacity-40">
+                  <Save className="w-3 h-3" /> Save
+                </button>
+              </div>
+            </div>
+          )}
+
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-slate-500 text-left">
+                <th className="font-medium py-1.5">Mailbox</th>
+                <th className="font-medium py-1.5">Warmup</th>
+                <th className="font-medium py-1.5 text-right">Today</th>
+                <th className="font-medium py-1.5 text-right">Bounce ({HEALTH_WINDOW_DAYS}d)</th>
+                <th className="font-medium py-1.5 text-right">Complaint ({HEALTH_WINDOW_DAYS}d)</th>
+                <th className="font-medium py-1.5">Health</th>
+                <th className="py-1.5" />
+              </tr>
+            </thead>
+            <tbody>
+              {capacities.map(c => {
+                const m = c.mailbox;
+                return (
+                  <tr key={m.id} className={cn('border-t border-white/[0.04]', m.status === 'paused' && 'opacity-60')}>
+                    <td className="py-2">
+                      <button onClick={() => setEditing(m)} className="text-left">
+                        <span className="text-slate-200">{m.fromEmail || 'SMTP_FROM (server)'}</span>
+                        <span className="block text-[10px] text-slate-500">{m.provider === 'smtp' ? 'SMTP' : 'V-send'}{m.fromName ? ` · ${m.fromName}` : ''}</span>
+                      </button>
+                    </td>
+                    <td className="py-2 text-slate-400">
+                      {c.warmupCap >= m.maxDailyCap ? 'Warmed' : `Day ${c.warmupDay + 1}`} · cap {c.warmupCap}/{m.maxDailyCap}
+                    </td>
+                    <td className="py-2 text-right">
+                      <span className="text-slate-200">{c.sentToday}</span>
+                      <span className="text-slate-500"> / {c.cap}</span>
+                    </td>
+                    <td className="py-2 text-right text-slate-400">{c.health.sent ? pct(c.health.bounceRate) : '—'}</td>
+                    <td className="py-2 text-right text-slate-400">{c.health.sent ? pct(c.health.complaintRate, 2) : '—'}</td>
+                    <td className="py-2">
+                      <span className={cn('px-1.5 py-0.5 rounded border text-[10px]', m.status === 'paused' ? healthCls.blocked : healthCls[c.health.state])}>
+                        {m.status === 'paused' ? 'paused' : c.health.state === 'warning' ? 'throttled' : c.health.state}
+                      </span>
+                      {(m.status === 'paused' ? m.pausedReason : c.health.reason) && (
+                        <span className="block text-[10px] text-slate-500 mt-0.5">{m.status === 'paused' ? m.pausedReason : c.health.reason}</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {m.status === 'active' ? (
+                        <button onClick={() => setStatus(m, 'paused')} className="p-1 text-slate-500 hover:text-amber-300" title="Pause"><Pause className="w-3.5 h-3.5" /></button>
+                      ) : (
+                        <button onClick={() => setStatus(m, 'active')} className="p-1 text-slate-500 hover:text-emerald-300" title="Resume"><Play className="w-3.5 h-3.5" /></button>
+                      )}
+                      <button onClick={() => { if (confirm(`Remove ${m.fromEmail || 'the SMTP_FROM mailbox'} from the pool?`)) deleteSendingMailbox(m.id); }}
+                        className="p-1 text-slate-500 hover:text-red-400" title="Remove"><Trash2 className="w-3.5 h-3.5" /></button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {capacities.length === 0 && <p className="text-xs text-slate-500">No mailboxes — outbound email is blocked until one is added.</p>}
+          <p className="text-[10px] text-slate-500">
+            Sends rotate to the healthy mailbox with the most of today's cap left. A warning-level bounce or complaint rate halves the cap; a block-level rate stops the mailbox, and resend-webhook pauses it server-side.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { GitMerge, Trash2, X } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import type { SyncConflict } from '../utils/syncMerge';
+
+interface Props {
+  onClose: () => void;
+}
+
+const formatValue = (v: unknown): string => {
+  if (v === null || v === undefined || v === '') return '—';
+  if (v instanceof Date) return v.toLocaleString();
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+};
+
+const winnerCls: Record<SyncConflict['winner'], string> = {
+  local: 'bg-novalyte-500/10 text-novalyte-300 border-novalyte-500/20',
+  remote: 'bg-amber-500/10 text-amber-300 border-amber-500/20',
+};
+
+export default function SyncConflictsPanel({ onClose }: Props) {
+  const { syncConflicts, clearSyncConflicts } = useAppStore();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-black rounded-xl shadow-2xl w-full max-w-4xl mx-4 overflow-hidden border border-white/[0.06] max-h-[90vh] flex flex-col">
+        <div className="px-5 py-4 border-b border-white/[0.06] flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <GitMerge className="w-5 h-5 text-novalyte-400" />
+            <h3 className="font-semibold text-white text-sm">Sync Conflicts</h3>
+            <span className="text-[11px] text-slate-500">
+              Fields edited here and elsewhere before either side synced — the newer edit was kept
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {syncConflicts.length > 0 && (
+              <button onClick={clearSyncConflicts}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11px] font-medium border bg-white/[0.03] text-slate-300 border-white/[0.06] hover:bg-white/[0.06]">
+                <Trash2 className="w-3 h-3" /> Clear log
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/[0.06]"><X className="w-4 h-4" /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5">
+          {syncConflicts.length === 0 ? (
+            <p className="text-xs text-slate-500 text-center py-8">No conflicts — every synced edit merged cleanly.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] font-semibold text-slate-500 uppercase tracking-wider">
+                  <th className="pb-2 pr-3">Record</th>
+                  <th className="pb-2 pr-3">Field</th>
+                  <th className="pb-2 pr-3">This browser</th>
+                  <th className="pb-2 pr-3">Elsewhere</th>
+                  <th className="pb-2 pr-3">Kept</th>
+                  <th className="pb-2">Detected</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/[0.04]">
+                {syncConflicts.map(c => (
+                  <tr key={c.id} className="align-top">
+                    <td className="py-2 pr-3 text-slate-200">
+                      {c.label}
+                      <span className="block text-[10px] text-slate-500">{c.table === 'contacts' ? 'Contact' : 'Clinic'}</span>
+                    </td>
+                    <td className="py-2 pr-3 text-slate-400 font-mono">{c.field}</td>
+                    <td className="py-2 pr-3 text-slate-300 max-w-[200px] break-words">
+                      {formatValue(c.localValue)}
+                      <span className="block text-[10px] text-slate-500">{c.localEditedAt.toLocaleString()}</span>
+                    </td>
+                    <td className="py-2 pr-3 text-slate-300 max-w-[200px] break-words">
+                      {formatValue(c.remoteValue)}
+                      <span className="block text-[10px] text-slate-500">{c.remoteUpdatedAt.toLocaleString()}</span>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span className={cn('px-1.5 py-0.5 rounded border text-[10px] font-medium', winnerCls[c.winner])}>
+                        {c.winner === 'local' ? 'This browser' : 'Elsewhere'}
+                      </span>
+                    </td>
+                    <td className="py-2 text-slate-500">{c.detectedAt.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
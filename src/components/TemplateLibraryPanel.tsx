@@ -0,0 +1,331 @@
+import { useMemo, useRef, useState } from 'react';
+import { Archive, ArchiveRestore, History, LayoutTemplate, Plus, RotateCcw, Save, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import {
+  type EmailTemplate,
+  type SenderProfile,
+  MERGE_FIELDS,
+  renderEmailTemplate,
+  validateTemplateSource,
+} from '../utils/emailTemplates';
+
+interface Props {
+  onClose: () => void;
+  initialTemplateId?: string;
+}
+
+type Section = 'templates' | 'senders';
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  description: string;
+  subject: string;
+  html: string;
+  senderProfileId?: string;
+}
+
+const inputCls = 'mt-1 w-full bg-white/5 border border-white/[0.06] rounded-lg px-2 py-1.5 text-xs text-slate-200';
+const labelCls = 'text-[10px] font-semibold text-slate-500 uppercase tracking-wider';
+
+function toDraft(t?: EmailTemplate, defaultSenderId?: string): TemplateDraft {
+  return t
+    ? { id: t.id, name: t.name, description: t.description || '', subject: t.subject, html: t.html, senderProfileId: t.senderProfileId }
+    : { name: '', description: '', subject: '', html: '', senderProfileId: defaultSenderId };
+}
+
+function newSender(): SenderProfile {
+  const now = new Date();
+  return {
+    id: `sender-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    name: '', fromName: '', fromEmail: '', signatureHtml: '',
+    createdAt: now, updatedAt: now,
+  };
+}
+
+export default function TemplateLibraryPanel({ onClose, initialTemplateId }: Props) {
+  const {
+    contacts, emailTemplates, emailTemplateVersions, senderProfiles,
+    saveEmailTemplate, restoreEmailTemplateVersion, archiveEmailTemplate,
+    saveSenderProfile, deleteSenderProfile,
+  } = useAppStore();
+  const defaultSender = senderProfiles.find(p => p.isDefault) || senderProfiles[0];
+
+  const [section, setSection] = useState<Section>('templates');
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | undefined>(initialTemplateId || emailTemplates.find(t => !t.archived)?.id);
+  const selected = emailTemplates.find(t => t.id === selectedId);
+  const [draft, setDraft] = useState<TemplateDraft>(() => toDraft(selected, defaultSender?.id));
+  const [note, setNote] = useState('');
+  const [previewContactId, setPreviewContactId] = useState<string>(contacts[0]?.id || '');
+  const [sender, setSender] = useState<SenderProfile | null>(null);
+  const htmlRef = useRef<HTMLTextAreaElement>(null);
+
+  const select = (t?: EmailTemplate) => {
+    setSelectedId(t?.id);
+    setDraft(toDraft(t, defaultSender?.id));
+    setNote('');
+  };
+
+  const insertField = (path: string) => {
+    const tag = path === 'sender.signature' ? `{{{${path}}}}` : `{{${path}}}`;
+    const el = htmlRef.current;
+    const at = el ? el.selectionStart : draft.html.length;
+    setDraft(d => ({ ...d, html: d.html.slice(0, at) + tag + d.html.slice(at) }));
+  };
+
+  const validation = useMemo(() => validateTemplateSource(draft.subject, draft.html), [draft.subject, draft.html]);
+  const previewContact = contacts.find(c => c.id === previewContactId);
+  const previewSender = senderProfiles.find(p => p.id === draft.senderProfileId) || defaultSender;
+  const preview = useMemo(
+    () => previewContact ? renderEmailTemplate(draft, previewContact, previewSender) : null,
+    [draft, previewContact, previewSender],
+  );
+  const versions = useMemo(
+    () => emailTemplateVersions.filter(v => v.templateId === selectedId).sort((a, b) => b.version - a.version),
+    [emailTemplateVersions, selectedId],
+  );
+  const dirty = !selected || draft.name !== selected.name || draft.description !== (selected.description || '')
+    || draft.subject !== selected.subject || draft.html !== selected.html || draft.senderProfileId !== selected.senderProfileId;
+  const canSave = dirty && !!draft.name.trim() && !!draft.subject.trim() && !!draft.html.trim()
+    && validation.errors.length === 0 && validation.unknown.length === 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const saved = saveEmailTemplate({
+      id: draft.id, name: draft.name.trim(), description: draft.description.trim() || undefined,
+      subject: draft.subject, html: draft.html, senderProfileId: draft.senderProfileId,
+    }, note.trim() || undefined);
+    toast.success(`Saved ${saved.name} v${saved.version}`);
+    setSelectedId(saved.id);
+    setDraft(toDraft(saved));
+    setNote('');
+  };
+
+  const handleRestore = (version: number) => {
+    if (!selectedId) return;
+    restoreEmailTemplateVersion(selectedId, version);
+    const restored = useAppStore.getState().emailTemplates.find(t => t.id === selectedId);
+    if (restored) setDraft(toDraft(restored));
+    toast.success(`Restored v${version} as a new version`);
+  };
+
+  const visibleTemplates = emailTemplates.filter(t => showArchived || !t.archived);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-black rounded-xl shadow-2xl w-full max-w-6xl mx-4 overflow-hidden border border-white/[0.06] max-h-[90vh] flex flex-col">
+        <div className="px-5 py-4 border-b border-white/[0.06] flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <LayoutTemplate className="w-5 h-5 text-novalyte-400" />
+            <h3 className="font-semibold text-white text-sm">Template Library</h3>
+            <div className="flex items-center gap-1 ml-2">
+              {(['templates', 'senders'] as Section[]).map(s => (
+                <button key={s} onClick={() => setSection(s)}
+                  className={cn('px-2.5 py-1 rounded-lg text-[11px] capitalize', section === s ? 'bg-novalyte-500/20 text-novalyte-300' : 'text-slate-500 hover:text-slate-300')}>
+                  {s === 'senders' ? 'Sender profiles' : 'Templates'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/[0.06]"><X className="w-4 h-4" /></button>
+        </div>
+
+        {section === 'templates' ? (
+          <div className="flex-1 overflow-hidden grid grid-cols-[220px_1fr_1fr]">
+            {/* List */}
+            <div className="border-r border-white/[0.06] overflow-auto p-3 space-y-1">
+              <button onClick={() => select(undefined)}
+                className="w-full flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-xs text-novalyte-300 hover:bg-white/[0.04]">
+                <Plus className="w-3.5 h-3.5" /> New template
+              </button>
+              {visibleTemplates.map(t => (
+                <button key={t.id} onClick={() => select(t)}
+                  className={cn('w-full text-left px-2 py-1.5 rounded-lg text-xs', t.id === selectedId ? 'bg-white/[0.06] text-white' : 'text-slate-400 hover:bg-white/[0.03]', t.archived && 'opacity-50')}>
+                  <p className="truncate">{t.name}</p>
+                  <p className="text-[10px] text-slate-500">v{t.version}{t.archived ? ' · archived' : ''}</p>
+                </button>
+              ))}
+              <label className="flex items-center gap-1.5 pt-2 text-[10px] text-slate-500">
+                <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} /> Show archived
+              </label>
+            </div>
+
+            {/* Editor */}
+            <div className="overflow-auto p-4 space-y-3 border-r border-white/[0.06]">
+              <div className="grid grid-cols-2 gap-2">
+                <label className={labelCls}>Name<input value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} className={inputCls} /></label>
+                <label className={labelCls}>Sender
+                  <select value={draft.senderProfileId || ''} onChange={e => setDraft(d => ({ ...d, senderProfileId: e.target.value || undefined }))} className={inputCls}>
+                    <option value="">Default sender</option>
+                    {senderProfiles.map(p => <option key={p.id} value={p.id}>{p.name} — {p.fromEmail}</option>)}
+                  </select>
+                </label>
+              </div>
+              <label className={cn(labelCls, 'block')}>Description<input value={draft.description} onChange={e => setDraft(d => ({ ...d, description: e.target.value }))} className={inputCls} /></label>
+              <label className={cn(labelCls, 'block')}>Subject<input value={draft.subject} onChange={e => setDraft(d => ({ ...d, subject: e.target.value }))} className={inputCls} /></label>
+              <label className={cn(labelCls, 'block')}>HTML body
+                <textarea ref={htmlRef} value={draft.html} onChange={e => setDraft(d => ({ ...d, html: e.target.value }))} rows={12}
+                  className={cn(inputCls, 'font-mono text-[11px] leading-relaxed')} />
+              </label>
+              <div>
+                <p className={cn(labelCls, 'mb-1')}>Merge fields <span className="normal-case text-slate-600">— required unless written {'{{field | "fallback"}}'} or inside {'{{#if field}}'}</span></p>
+                <div className="flex flex-wrap gap-1">
+                  {MERGE_FIELDS.map(f => (
+                    <button key={f.path} onClick={() => insertField(f.path)} title={`${f.group}: ${f.label}`}
+                      className="px-1.5 py-0.5 rounded bg-white/[0.04] text-[10px] text-slate-400 hover:text-novalyte-300 font-mono">{f.path}</button>
+                  ))}
+                </div>
+              </div>
+              {(validation.errors.length > 0 || validation.unknown.length > 0) && (
+                <div className="text-[11px] text-red-400 space-y-0.5">
+                  {validation.errors.map(e => <p key={e}>{e}</p>)}
+                  {validation.unknown.length > 0 && <p>Unknown merge field{validation.unknown.length === 1 ? '' : 's'}: {validation.unknown.join(', ')}</p>}
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <input value={note} onChange={e => setNote(e.target.value)} placeholder="Change note (optional)" className={cn(inputCls, 'mt-0 flex-1')} />
+                <button onClick={handleSave} disabled={!canSave}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-novalyte-500/20 text-xs text-novalyte-300 hover:bg-novalyte-500/30 disabled:opacity-40">
+                  <Save className="w-3.5 h-3.5" /> {selected ? `Save v${selected.version + 1}` : 'Create'}
+                </button>
+                {selected && (
+                  <button onClick={() => archiveEmailTemplate(selected.id, !selected.archived)} title={selected.archived ? 'Unarchive' : 'Archive'}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/[0.06]">
+                    {selected.archived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+                  </button>
+                )}
+              </div>
+              {versions.length > 0 && (
+                <div>
+                  <p className={cn(labelCls, 'mb-1 flex items-center gap-1')}><History className="w-3 h-3" /> Version history</p>
+                  <div className="space-y-1">
+                    {versions.map(v => (
+                      <div key={v.id} className="flex items-center gap-2 text-[11px] text-slate-400">
+                        <span className="w-8 text-slate-300">v{v.version}</span>
+                        <span className="flex-1 truncate">{v.note || v.subject}</span>
+                        <span className="text-slate-600">{v.createdAt.getTime() ? v.createdAt.toLocaleDateString() : 'built-in'}</span>
+                        {v.version !== selected?.version && (
+                          <button onClick={() => handleRestore(v.version)} title="Restore" className="p-1 rounded text-slate-500 hover:text-novalyte-300"><RotateCcw className="w-3 h-3" /></button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Preview */}
+            <div className="overflow-auto p-4 space-y-3">
+              <label className={cn(labelCls, 'block')}>Preview as
+                <select value={previewContactId} onChange={e => setPreviewContactId(e.target.value)} className={inputCls}>
+                  {contacts.slice(0, 500).map(c => (
+                    <option key={c.id} value={c.id}>{c.clinic.name} — {c.clinic.address.city}{c.decisionMaker ? ` (${c.decisionMaker.firstName})` : ''}</option>
+                  ))}
+                </select>
+              </label>
+              {!preview ? (
+                <p className="text-xs text-slate-500">Add contacts to the CRM to preview templates.</p>
+              ) : (
+                <>
+                  {preview.missing.length > 0 ? (
+                    <div className="px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-[11px] text-red-300">
+                      Send blocked for this contact — empty: {preview.missing.join(', ')}
+                    </div>
+                  ) : (
+                    <div className="px-3 py-2 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-[11px] text-emerald-300">
+                      Every required field resolves for this contact
+                    </div>
+                  )}
+                  <div className="text-xs">
+                    <p className="text-[10px] text-slate-500">From: {previewSender ? `${previewSender.fromName} <${previewSender.fromEmail}>` : '—'}</p>
+                    <p className="text-slate-200 font-medium mt-1">{preview.subject || <span className="text-slate-600">(empty subject)</span>}</p>
+                  </div>
+                  <iframe title="Template preview" sandbox="" srcDoc={preview.html} className="w-full h-[420px] rounded-lg bg-white" />
+                </>
+              )}
+            </div>
+          </div>
+        ) : (
+          <SenderProfiles
+            profiles={senderProfiles}
+            editing={sender}
+            onEdit={setSender}
+            onSave={p => {
+              if (!p.name.trim() || !p.fromName.trim() || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(p.fromEmail)) {
+                toast.error('Name, from name and a valid from email are required');
+                return;
+              }
+              saveSenderProfile(p);
+              setSender(null);
+              toast.success(`Saved sender ${p.name}`);
+            }}
+            onDelete={id => { deleteSenderProfile(id); setSender(null); }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SenderProfiles({ profiles, editing, onEdit, onSave, onDelete }: {
+  profiles: SenderProfile[];
+  editing: SenderProfile | null;
+  onEdit: (p: SenderProfile | null) => void;
+  onSave: (p: SenderProfile) => void;
+  onDelete: (id: string) => void;
+}) {
+  const set = (updates: Partial<SenderProfile>) => editing && onEdit({ ...editing, ...updates });
+  return (
+    <div className="flex-1 overflow-auto grid grid-cols-[260px_1fr]">
+      <div className="border-r border-white/[0.06] p-3 space-y-1">
+        <button onClick={() => onEdit(newSender())}
+          className="w-full flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-xs text-novalyte-300 hover:bg-white/[0.04]">
+          <Plus className="w-3.5 h-3.5" /> New sender
+        </button>
+        {profiles.map(p => (
+          <button key={p.id} onClick={() => onEdit({ ...p })}
+            className={cn('w-full text-left px-2 py-1.5 rounded-lg text-xs', editing?.id === p.id ? 'bg-white/[0.06] text-white' : 'text-slate-400 hover:bg-white/[0.03]')}>
+            <p className="truncate">{p.name}{p.isDefault ? ' (default)' : ''}</p>
+            <p className="text-[10px] text-slate-500 truncate">{p.fromName} &lt;{p.fromEmail}&gt;</p>
+          </button>
+        ))}
+      </div>
+      {editing ? (
+        <div className="p-4 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <label className={labelCls}>Name<input value={editing.name} onChange={e => set({ name: e.target.value })} className={inputCls} /></label>
+            <label className={labelCls}>Title<input value={editing.title || ''} onChange={e => set({ title: e.target.value || undefined })} className={inputCls} /></label>
+            <label className={labelCls}>From name<input value={editing.fromName} onChange={e => set({ fromName: e.target.value })} className={inputCls} /></label>
+            <label className={labelCls}>From email<input value={editing.fromEmail} onChange={e => set({ fromEmail: e.target.value.trim() })} className={inputCls} /></label>
+            <label className={labelCls}>Reply-to<input value={editing.replyTo || ''} onChange={e => set({ replyTo: e.target.value.trim() || undefined })} className={inputCls} /></label>
+            <label className="flex items-end gap-1.5 text-[11px] text-slate-400 pb-1.5">
+              <input type="checkbox" checked={!!editing.isDefault} onChange={e => set({ isDefault: e.target.checked })} /> Default sender
+            </label>
+          </div>
+          <label className={cn(labelCls, 'block')}>Signature (HTML)
+            <textarea value={editing.signatureHtml} onChange={e => set({ signatureHtml: e.target.value })} rows={4} className={cn(inputCls, 'font-mono text-[11px]')} />
+          </label>
+          <iframe title="Signature preview" sandbox="" srcDoc={`<div style="font-family:Inter,Arial,sans-serif;font-size:15px;line-height:1.7;color:#1e293b;">${editing.signatureHtml}</div>`}
+            className="w-full h-24 rounded-lg bg-white" />
+          <p className="text-[10px] text-slate-500">The from address is used when it is a sender-pool mailbox with room left today; otherwise the pool rotates and only the from name is kept.</p>
+          <div className="flex items-center justify-end gap-2">
+            {profiles.some(p => p.id === editing.id) && !editing.isDefault && (
+              <button onClick={() => onDelete(editing.id)} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-red-400">
+                <Trash2 className="w-3.5 h-3.5" /> Delete
+              </button>
+            )}
+            <button onClick={() => onSave(editing)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-novalyte-500/20 text-xs text-novalyte-300 hover:bg-novalyte-500/30">
+              <Save className="w-3.5 h-3.5" /> Save sender
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="p-4 text-xs text-slate-500">Pick a sender profile to edit, or create a new one.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAppStore } from '../stores/appStore';
+import { cn } from '../utils/cn';
+import { AUDIT_ACTION_LABELS, AUDIT_RESTORE_DAYS, AuditEntry } from '../utils/audit';
+
+interface Props {
+  onClose: () => void;
+}
+
+/** Toast with an Undo button for a destructive action the store just recorded */
+export function undoToast(entry: AuditEntry | null, message: string) {
+  if (!entry) return;
+  toast((t) => (
+    <div className="flex items-center gap-3">
+      <span className="text-sm">{message}</span>
+      <button
+        onClick={async () => {
+          toast.dismiss(t.id);
+          const ok = await useAppStore.getState().restoreFromTrash(entry.id);
+          if (ok) toast.success('Restored');
+          else toast.error('Could not restore — check the trash');
+        }}
+        className="px-2.5 py-1 rounded bg-novalyte-500/20 text-novalyte-300 text-xs font-semibold hover:bg-novalyte-500/30"
+      >
+        Undo
+      </button>
+    </div>
+  ), { icon: '🗑️', duration: 8000 });
+}
+
+const status = (e: AuditEntry, now: Date): { label: string; cls: string } => {
+  if (e.restoredAt) return { label: `Restored ${e.restoredAt.toLocaleDateString()}`, cls: 'bg-novalyte-500/10 text-novalyte-300 border-novalyte-500/20' };
+  if (now >= e.restoreUntil) return { label: 'Purged', cls: 'bg-white/[0.03] text-slate-500 border-white/[0.06]' };
+  return { label: `Until ${e.restoreUntil.toLocaleDateString()}`, cls: 'bg-amber-500/10 text-amber-300 border-amber-500/20' };
+};
+
+export default function TrashPanel({ onClose }: Props) {
+  const { auditLog, refreshAuditLog, restoreFromTrash } = useAppStore();
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const now = new Date();
+
+  useEffect(() => {
+    refreshAuditLog().catch(err => console.warn('Trash refresh failed:', err));
+  }, [refreshAuditLog]);
+
+  const handleRestore = async (e: AuditEntry) => {
+    if (!confirm(`Restore ${e.recordCount} record${e.recordCount === 1 ? '' : 's'} from "${AUDIT_ACTION_LABELS[e.action]}"?`)) return;
+    setRestoring(e.id);
+    try {
+      const ok = await restoreFromTrash(e.id);
+      if (ok) toast.success(`Restored ${e.recordCount} record${e.recordCount === 1 ? '' : 's'}`);
+      else toast.error('Nothing to restore — the snapshot is gone');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-black rounded-xl shadow-2xl w-full max-w-4xl mx-4 overflow-hidden border border-white/[0.06] max-h-[90vh] flex flex-col">
+        <div className="px-5 py-4 border-b border-white/[0.06] flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Trash2 className="w-5 h-5 text-novalyte-400" />
+            <h3 className="font-semibold text-white text-sm">Trash</h3>
+            <span className="text-[11px] text-slate-500">
+              Cleared and deleted records stay restorable for {AUDIT_RESTORE_DAYS} days
+            </span>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/[0.06]"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5">
+          {auditLog.length === 0 ? (
+            <p className="text-xs text-slate-500 text-center py-8">Nothing deleted yet.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] font-semibold text-slate-500 uppercase tracking-wider">
+                  <th className="pb-2 pr-3">Action</th>
+                  <th className="pb-2 pr-3">By</th>
+                  <th className="pb-2 pr-3">Records</th>
+                  <th className="pb-2 pr-3">When</th>
+                  <th className="pb-2 pr-3">Restorable</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/[0.04]">
+                {auditLog.map(e => {
+                  const s = status(e, now);
+                  const open = !e.restoredAt && now < e.restoreUntil;
+                  return (
+                    <tr key={e.id} className="align-top">
+                      <td className="py-2 pr-3 text-slate-200">
+                        {AUDIT_ACTION_LABELS[e.action] || e.action}
+                        <span className="block text-[10px] text-slate-500 font-mono">
+                          {e.scope.tables.length ? e.scope.tables.join(', ') : 'this browser only'}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-3 text-slate-300">
+                        {e.actor.name}
+                        <span className="block text-[10px] text-slate-500">{e.actor.role}{e.actor.company ? ` · ${e.actor.company}` : ''}</span>
+                      </td>
+                      <td className="py-2 pr-3 text-slate-300">{e.recordCount}</td>
+                      <td className="py-2 pr-3 text-slate-500">{e.createdAt.toLocaleString()}</td>
+                      <td className="py-2 pr-3">
+                        <span className={cn('px-1.5 py-0.5 rounded border text-[10px] font-medium', s.cls)}>{s.label}</span>
+                      </td>
+                      <td className="py-2 text-right">
+                        {open && (
+                          <button onClick={() => handleRestore(e)} disabled={restoring !== null}
+                            className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[11px] font-medium border bg-white/[0.03] text-slate-300 border-white/[0.06] hover:bg-white/[0.06] disabled:opacity-50">
+                            <RotateCcw className={cn('w-3 h-3', restoring === e.id && 'animate-spin')} /> Restore
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,11 +10,20 @@ import {
 } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
 import { voiceAgentService } from '../services/voiceAgentService';
-import { enrichmentService } from '../services/enrichmentService';
-import { emailIntelService, EmailCandidate } from '../services/emailIntelService';
-import { CRMContact, VoiceCall, ContactStatus, DecisionMaker } from '../types';
+import { callQueueService } from '../services/callQueueService';
+import { suppressionService } from '../services/suppressionService';
+import { createEnrollment, VOICEMAIL_FOLLOW_UP_SEQUENCE_ID } from '../services/sequenceEngine';
+import { enrichmentWaterfallService } from '../services/enrichmentWaterfallService';
+import type { EmailCandidate } from '../services/emailIntelService';
+import { isGenericEmail } from '../utils/enrichmentWaterfall';
+import { CRMContact, VoiceCall, ContactStatus, DecisionMaker, Clinic } from '../types';
 import { cn } from '../utils/cn';
+import { formatLocalTime, getCallingSchedule } from '../utils/callingWindows';
+import { applyCallExtraction } from '../utils/callExtraction';
+import { planVoicemailFollowUp } from '../utils/voicemailFollowUp';
+import CallQueueControlPanel from './CallQueueControlPanel';
 import toast from 'react-hot-toast';
+import { undoToast } from './TrashPanel';
 import { format, formatDistanceToNow } from 'date-fns';
 
 /* ─── NPI result type for inline display ─── */
@@ -75,6 +84,7 @@ export default function VoiceAgent() {
     contacts, activeCalls, callHistory,
     addCall, updateCall, completeCall, clearStaleCalls,
     updateContact, updateContactStatus,
+    sequences, sequenceEnrollments, upsertSequenceEnrollments, campaigns,
   } = useAppStore();
 
   const [tab, setTab] = useState<Tab>('queue');
@@ -87,6 +97,7 @@ export default function VoiceAgent() {
   const [batchDelay, setBatchDelay] = useState(15);
   const [tick, setTick] = useState(0);
   const [customScripts, setCustomScripts] = useState<Record<string, string>>({});
+  const [queueRefreshKey, setQueueRefreshKey] = useState(0);
   const pollRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
   const tickRef = useRef<NodeJS.Timeout>();
   const batchRef = useRef(false);
@@ -161,7 +172,8 @@ export default function VoiceAgent() {
     if (callingIds.has(contact.id)) return;
     setCallingIds(prev => new Set(prev).add(contact.id));
     try {
-      const call = await voiceAgentService.initiateCall(contact, customMsg);
+      const campaign = contact.campaignId ? campaigns.find(c => c.id === contact.campaignId) : undefined;
+      const call = await voiceAgentService.initiateCall(contact, customMsg, campaign);
       addCall(call);
       updateContactStatus(contact.id, 'called');
       updateContact(contact.id, {
@@ -180,7 +192,35 @@ export default function VoiceAgent() {
     } finally {
       setCallingIds(prev => { const s = new Set(prev); s.delete(contact.id); return s; });
     }
-  }, [callingIds, addCall, updateContactStatus, updateContact]);
+  }, [callingIds, campaigns, addCall, updateContactStatus, updateContact]);
+
+  /* ─── Voicemail drop → rule-based next step ─── */
+  const recordVoicemailDrop = useCallback((callId: string, contactId: string) => {
+    const ct = contacts.find(c => c.id === contactId);
+    if (!ct) return;
+    const now = new Date();
+    const enrolled = sequenceEnrollments.some(e => e.contactId === contactId && (e.status === 'active' || e.status === 'paused'));
+    const plan = planVoicemailFollowUp(ct, {
+      now, enrolled, isEmailSuppressed: email => suppressionService.isEmailSuppressed(email),
+    });
+    if (plan.action === 'email') {
+      const sequence = sequences.find(s => s.id === VOICEMAIL_FOLLOW_UP_SEQUENCE_ID);
+      if (sequence) upsertSequenceEnrollments([createEnrollment(contactId, sequence, now)]);
+    }
+    updateContact(contactId, {
+      status: plan.status,
+      ...(plan.at || plan.action === 'stop' ? { nextFollowUp: plan.at } : {}),
+      activities: [...(ct.activities || []), {
+        id: `act-${Date.now()}`, type: 'voicemail_left' as const,
+        description: `Voicemail left — ${plan.description}`, timestamp: now,
+        metadata: {
+          callId, drop: voiceAgentService.config.voicemailDrop,
+          nextStep: plan.action, rule: plan.rule, dueAt: plan.at?.toISOString(),
+        },
+      }],
+    });
+    toast(`Voicemail left for ${ct.clinic.name}`, { icon: '📨' });
+  }, [contacts, sequences, sequenceEnrollments, upsertSequenceEnrollments, updateContact]);
 
   /* ─── Status Polling (with max retries) ─── */
   const startPolling = useCallback((callId: string, contactId: string) => {
@@ -202,14 +242,19 @@ export default function VoiceAgent() {
         return;
       }
       try {
-        const status = await voiceAgentService.getCallStatus(callId);
+        const { analysis, ...status } = await voiceAgentService.getCallStatus(callId);
         consecutiveErrors = 0;
         updateCall(callId, status);
-        if (status.status === 'completed' || status.status === 'failed' || status.status === 'no_answer') {
+        if (status.status === 'completed' || status.status === 'failed' || status.status === 'no_answer' || status.status === 'voicemail') {
           clearInterval(interval);
           pollRef.current.delete(callId);
+          if (status.status === 'voicemail') {
+            completeCall(callId, { ...status, followUpRequired: true, notes: status.notes || 'Voicemail left' });
+            recordVoicemailDrop(callId, contactId);
+            return;
+          }
           const outcome = status.status === 'completed' && status.transcript
-            ? voiceAgentService.analyzeCallOutcome(status.transcript) : undefined;
+            ? voiceAgentService.analyzeCallOutcome(status.transcript, analysis) : undefined;
           completeCall(callId, {
             ...status,
             outcome: outcome?.outcome, sentiment: outcome?.sentiment,
@@ -225,11 +270,15 @@ export default function VoiceAgent() {
             if (statusMap[outcome.outcome]) updateContactStatus(contactId, statusMap[outcome.outcome]);
             const ct = contacts.find(c => c.id === contactId);
             if (ct) {
+              // Write what the call learned back onto the DM / clinic
+              const extracted = outcome.extraction ? applyCallExtraction(ct, outcome.extraction, callId) : null;
+              const appliedFields = extracted?.insights.fields.filter(f => f.applied).map(f => f.field) || [];
               updateContact(contactId, {
+                ...extracted?.patch,
                 activities: [...(ct.activities || []), {
                   id: `act-${Date.now()}`, type: 'call_made' as const,
                   description: `Call completed: ${outcome.summary}`, timestamp: new Date(),
-                  metadata: { callId, outcome: outcome.outcome, sentiment: outcome.sentiment },
+                  metadata: { callId, outcome: outcome.outcome, sentiment: outcome.sentiment, appliedFields },
                 }],
               });
             }
@@ -251,7 +300,7 @@ export default function VoiceAgent() {
       }
     }, 5000);
     pollRef.current.set(callId, interval);
-  }, [updateCall, completeCall, updateContactStatus, updateContact, contacts]);
+  }, [updateCall, completeCall, updateContactStatus, updateContact, recordVoicemailDrop, contacts]);
 
   /* ─── Batch Call ─── */
   const startBatchCall = useCallback(async () => {
@@ -262,13 +311,45 @@ export default function VoiceAgent() {
     if (validation.warnings.length > 0) {
       for (const w of validation.warnings) toast(w, { icon: '⚠️' });
     }
-    if (validation.ready.length === 0) {
+    if (validation.ready.length === 0 && validation.scheduled.length === 0) {
       toast.error('No contacts ready to call');
       return;
     }
     if (validation.skipped.length > 0) {
       toast(`Skipping ${validation.skipped.length} contacts (DNC, no phone, etc.)`, { icon: 'ℹ️' });
     }
+    // Contacts outside their local calling window are booked for the next legal slot
+    for (const s of validation.scheduled) {
+      updateContact(s.contact.id, {
+        status: 'call_scheduled',
+        nextFollowUp: s.at,
+        activities: [...(s.contact.activities || []), {
+          id: `act-${Date.now()}-${s.contact.id}`, type: 'call_scheduled' as const,
+          description: `Call scheduled for ${formatLocalTime(s.at, s.timezone)} (outside local calling hours at ${s.localTime})`,
+          timestamp: new Date(),
+          metadata: { scheduledFor: s.at.toISOString(), timezone: s.timezone },
+        }],
+      });
+    }
+    if (validation.scheduled.length > 0) {
+      const first = validation.scheduled[0];
+      toast(`Scheduled ${validation.scheduled.length} contact${validation.scheduled.length !== 1 ? 's' : ''} into their local calling window (next: ${formatLocalTime(first.at, first.timezone)})`, { icon: '🕘' });
+    }
+    if (validation.ready.length === 0 && !callQueueService.isConfigured) return;
+
+    // With Supabase the batch runs server-side (call-dispatch) and survives this tab closing
+    if (callQueueService.isConfigured) {
+      try {
+        const { created, skipped } = await callQueueService.enqueueBatch(queue, { campaigns });
+        await callQueueService.runDispatcher(5).catch(() => ({ processed: 0, dispatched: 0 }));
+        setManualQueueIds(new Set());
+        setQueueRefreshKey(k => k + 1);
+        toast.success(`Queued ${created} calls on the server${skipped.length > 0 ? ` (${skipped.length} skipped)` : ''}`);
+      } catch (err: any) {
+        toast.error(`Failed to queue batch: ${err.message || 'Unknown error'}`);
+      }
+      return;
+    }
 
     setBatchCalling(true);
     batchRef.current = true;
@@ -287,7 +368,7 @@ export default function VoiceAgent() {
     }
     setBatchCalling(false);
     batchRef.current = false;
-  }, [batchCalling, queue, batchDelay, initiateCall]);
+  }, [batchCalling, queue, campaigns, batchDelay, initiateCall, updateContact]);
 
   const stopBatch = useCallback(() => {
     setBatchCalling(false);
@@ -368,6 +449,9 @@ export default function VoiceAgent() {
       </div>
 
       {/* Tab Content */}
+      {tab === 'queue' && callQueueService.isConfigured && (
+        <CallQueueControlPanel refreshKey={queueRefreshKey} />
+      )}
       {tab === 'queue' && (
         <QueueTab
           queue={queue} search={search} setSearch={setSearch}
@@ -390,8 +474,7 @@ export default function VoiceAgent() {
       {tab === 'history' && (
         <HistoryTab calls={callHistory} contacts={contacts} onSelect={setSelectedCall} onClear={() => {
           if (confirm(`Clear all ${callHistory.length} call history records?`)) {
-            useAppStore.getState().clearCallHistory();
-            toast.success('Call history cleared');
+            undoToast(useAppStore.getState().clearCallHistory(), 'Call history cleared');
           }
         }} />
       )}
@@ -445,7 +528,7 @@ function ClinicIntelPanel({ contact }: { contact: CRMContact }) {
     if (npiLoading) return;
     setNpiLoading(true);
     try {
-      const results = await enrichmentService.findDecisionMakers(clinic);
+      const results = await enrichmentWaterfallService.findDecisionMakers(clinic, { providers: ['npi'] });
       const npiPeople: NpiPerson[] = results
         .filter(r => r.source === 'npi')
         .map(r => ({
@@ -479,7 +562,25 @@ function ClinicIntelPanel({ contact }: { contact: CRMContact }) {
     if (emailsLoading) return;
     setEmailsLoading(true);
     try {
-      const candidates = await emailIntelService.findAndVerifyEmails(clinic);
+      const { people } = await enrichmentWaterfallService.run(clinic, { providers: ['exa', 'gemini', 'leadmagic', 'pattern'] });
+      const candidates: EmailCandidate[] = people
+        .filter(p => p.email)
+        .map(p => {
+          const email = p.email!;
+          const generic = isGenericEmail(email.value);
+          return {
+            email: email.value,
+            source: email.provider === 'gemini' ? 'gemini_extract'
+              : email.provider === 'pattern' ? (generic ? 'pattern_guess' : 'personal_pattern')
+              : 'exa_scrape',
+            confidence: email.confidence,
+            verified: !!p.emailStatus && p.emailStatus !== 'unknown',
+            verificationStatus: p.emailStatus,
+            personName: p.name?.value,
+            personTitle: p.title?.value,
+            isGeneric: generic,
+          };
+        });
       // Take top 3 non-generic personal emails, then fill with generics if needed
       const personal = candidates.filter(c => !c.isGeneric);
       const generic = candidates.filter(c => c.isGeneric);
@@ -854,6 +955,7 @@ function QueueTab({
                       {dm && <span className="flex items-center gap-1"><UserCheck className="w-3 h-3" />{dm.firstName} {dm.lastName}</span>}
                       <span className="flex items-center gap-1"><MapPin className="w-3 h-3" />{clinic.address.city}, {clinic.address.state}</span>
                       <span className="flex items-center gap-1"><Phone className="w-3 h-3" />{clinic.phone}</span>
+                      <LocalTimeBadge clinic={clinic} />
                     </div>
                   </div>
 
@@ -1749,3 +1851,21 @@ function CallDrawer({ call, contact, onClose }: {
     </div>
   );
 }
+
+/* ═══════════════════════════════════════════════════════════════
+   LOCAL TIME BADGE — clinic's local time + calling-window state
+   ═══════════════════════════════════════════════════════════════ */
+
+function LocalTimeBadge({ clinic }: { clinic: Clinic }) {
+  const schedule = getCallingSchedule(clinic);
+  return (
+    <span
+      className={cn('flex items-center gap-1', schedule.callableNow ? 'text-emerald-400' : 'text-amber-400')}
+      title={schedule.callableNow
+        ? 'Inside local calling window'
+        : schedule.nextStart ? `Opens ${formatLocalTime(schedule.nextStart, schedule.timezone)}` : 'No calling window soon'}
+    >
+      <Clock className="w-3 h-3" />{schedule.localTime}
+    </span>
+  );
+}
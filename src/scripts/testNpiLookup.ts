@@ -1,4 +1,4 @@
-import { enrichmentService } from '../services/enrichmentService';
+import { enrichmentWaterfallService } from '../services/enrichmentWaterfallService';
 import type { Clinic } from '../types';
 
 async function run() {
@@ -27,7 +27,7 @@ async function run() {
   };
 
   console.log('Searching NPI for:', clinic.name);
-  const dms = await enrichmentService.findDecisionMakers(clinic);
+  const dms = await enrichmentWaterfallService.findDecisionMakers(clinic, { providers: ['npi'] });
   console.log('Decision makers found:', dms.length);
   console.dir(dms, { depth: 3 });
 }
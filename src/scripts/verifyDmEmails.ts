@@ -2,8 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import axios from 'axios';
 import { createClient } from '@supabase/supabase-js';
-
-type VerificationStatus = 'valid' | 'invalid' | 'risky' | 'unknown';
+import { EmailVerification, VerificationStatus, buildVerification, isFresh, parseRevenueBaseResult } from '../utils/emailVerification';
 
 const GENERIC_PREFIXES = new Set([
   'info', 'contact', 'office', 'admin', 'frontdesk', 'hello', 'support', 'help',
@@ -61,15 +60,8 @@ function loadDotenv(dotenvPath: string) {
   }
 }
 
-function normalizeRevenueBaseStatus(raw: unknown): VerificationStatus {
-  const s = String(raw || '').toLowerCase();
-  if (s === 'valid' || s === 'deliverable' || s === 'safe' || s === 'verified') return 'valid';
-  if (s === 'invalid' || s === 'undeliverable' || s === 'bounce') return 'invalid';
-  if (s === 'risky' || s === 'catch-all' || s === 'catch_all' || s === 'accept_all') return 'risky';
-  return 'unknown';
-}
-
-async function verifyWithRevenueBase(revenueBaseKey: string, email: string): Promise<VerificationStatus> {
+/** Null when RevenueBase could not be reached — such a miss is not cached */
+async function verifyWithRevenueBase(revenueBaseKey: string, email: string): Promise<EmailVerification | null> {
   try {
     const response = await axios.post(
       'https://api.revenuebase.ai/v1/process-email',
@@ -79,11 +71,11 @@ async function verifyWithRevenueBase(revenueBaseKey: string, email: string): Pro
         timeout: 12_000,
       },
     );
-    const data = response.data;
-    return normalizeRevenueBaseStatus(data?.status || data?.result || data?.verification_status);
+    const { status, catchAll } = parseRevenueBaseResult(response.data);
+    return buildVerification(email, status, 'revenuebase', { catchAll });
   } catch (err: any) {
-    if (err?.response?.status === 422 || err?.response?.status === 400) return 'invalid';
-    return 'unknown';
+    if (err?.response?.status === 422 || err?.response?.status === 400) return buildVerification(email, 'invalid', 'revenuebase');
+    return null;
   }
 }
 
@@ -149,12 +141,31 @@ async function run() {
   const uniqueEmails = Array.from(new Set(targets.map(t => t.email)));
   const toProcess = all ? uniqueEmails : uniqueEmails.slice(0, limit);
 
+  // Fresh results in the shared verification cache are applied without spending a credit.
+  const cachedStatus = new Map<string, VerificationStatus>();
+  for (let i = 0; i < toProcess.length; i += 500) {
+    const { data, error } = await supabase
+      .from('email_verifications')
+      .select('email,status,provider,checked_at')
+      .in('email', toProcess.slice(i, i + 500));
+    if (error) {
+      console.warn(`email_verifications lookup failed: ${error.message}`);
+      break;
+    }
+    for (const r of (data || []) as any[]) {
+      if (isFresh(buildVerification(r.email, r.status, r.provider, { checkedAt: new Date(r.checked_at) }))) {
+        cachedStatus.set(r.email, r.status);
+      }
+    }
+  }
+
   console.log(JSON.stringify({
     mode: dryRun ? 'dry-run' : 'write',
     includeGeneric,
     concurrency,
     emailsTotalUnknown: uniqueEmails.length,
     emailsToVerify: toProcess.length,
+    emailsCached: cachedStatus.size,
   }));
 
   let processed = 0;
@@ -166,7 +177,21 @@ async function run() {
       const email = queue.shift();
       if (!email) return;
 
-      const status = await verifyWithRevenueBase(revenueBaseKey, email);
+      let status = cachedStatus.get(email);
+      if (!status) {
+        const verification = await verifyWithRevenueBase(revenueBaseKey, email);
+        status = verification?.status || 'unknown';
+        if (verification && !dryRun) {
+          await supabase.from('email_verifications').upsert({
+            email: verification.email,
+            status: verification.status,
+            provider: verification.provider,
+            checked_at: verification.checkedAt.toISOString(),
+            catch_all: verification.catchAll,
+            role_account: verification.roleAccount,
+          }, { onConflict: 'email' });
+        }
+      }
       processed += 1;
       counts[status] += 1;
 
@@ -0,0 +1,37 @@
+import { CRMContact, DecisionMaker } from '../types';
+import { enrichmentWaterfallService } from './enrichmentWaterfallService';
+import { suppressionService } from './suppressionService';
+import { EnrichmentProvider, isGenericEmail } from '../utils/enrichmentWaterfall';
+
+/**
+ * Finds a replacement address for a contact whose email hard-bounced
+ * (see utils/bounces). Runs the clinic back through the enrichment waterfall
+ * with the bounced, suppressed and known-invalid addresses filtered out of
+ * every provider's results, so the waterfall keeps going until it reaches a
+ * deliverable, non-generic address or runs out of providers.
+ */
+
+export interface EmailReplacement {
+  decisionMaker: DecisionMaker;
+  /** Provider that supplied the new address — 'unknown' when the waterfall didn't attribute it */
+  source: EnrichmentProvider | 'unknown';
+}
+
+class BounceRepairService {
+  /** `exclude` holds lower-cased addresses that must not come back (the bounced one included) */
+  async findReplacement(contact: CRMContact, exclude: Set<string>): Promise<EmailReplacement | null> {
+    const { people, decisionMakers } = await enrichmentWaterfallService.run(contact.clinic, {
+      skipEmail: email => exclude.has(email) || isGenericEmail(email) || suppressionService.isEmailSuppressed(email),
+    });
+
+    // A personal address only — a bounced decision maker is never "repaired" to info@ or office@
+    const usable = decisionMakers.filter(d => d.email && !isGenericEmail(d.email) && d.emailVerificationStatus !== 'invalid');
+    if (!usable.length) return null;
+    const dm = usable.find(d => d.emailVerificationStatus === 'valid')
+      || usable.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+    const source = people.find(p => p.email?.value === dm.email)?.email?.provider;
+    return { decisionMaker: dm, source: source || 'unknown' };
+  }
+}
+
+export const bounceRepairService = new BounceRepairService();
@@ -0,0 +1,270 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { Campaign, CallingWindow, CallStatus, CRMContact } from '../types';
+import { voiceAgentService } from './voiceAgentService';
+import { resolveCallingWindow, resolveClinicTimezone } from '../utils/callingWindows';
+
+/**
+ * Server-side outbound call queue (`call_jobs`, dispatched by the
+ * `call-dispatch` edge function). Batches keep running after the tab closes
+ * and the concurrency limit is enforced across every user.
+ */
+
+export type CallJobStatus =
+  | 'pending'
+  | 'paused'
+  | 'dispatching'
+  | 'in_call'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface CallJob {
+  id: string;
+  contact_id: string;
+  clinic_id: string | null;
+  batch_id: string | null;
+  status: CallJobStatus;
+  call_id: string | null;
+  call_status: string | null;
+  outcome_reason: string | null;
+  last_error: string | null;
+  attempts: number;
+  next_attempt_at: string;
+  priority: number;
+  payload: { clinicName?: string };
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export type RetryableCallStatus = Extract<CallStatus, 'no_answer' | 'voicemail' | 'failed'>;
+
+export type CallRetryPolicy = Record<RetryableCallStatus, { maxAttempts: number; delayMinutes: number }>;
+
+export const DEFAULT_CALL_RETRY_POLICY: CallRetryPolicy = {
+  no_answer: { maxAttempts: 3, delayMinutes: 240 },
+  voicemail: { maxAttempts: 2, delayMinutes: 1440 },
+  failed: { maxAttempts: 2, delayMinutes: 30 },
+};
+
+export interface CallQueueControl {
+  is_paused: boolean;
+  emergency_stop: boolean;
+  max_concurrent: number;
+  retry_policy: CallRetryPolicy;
+  updated_at: string;
+}
+
+export interface CallQueueStats {
+  pending: number;
+  paused: number;
+  inFlight: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+}
+
+const ACTIVE_STATUSES: CallJobStatus[] = ['pending', 'paused', 'dispatching', 'in_call'];
+
+function randomId() {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function countByStatus(statuses: CallJobStatus[]): Promise<number> {
+  if (!supabase) return 0;
+  const { count } = await supabase
+    .from('call_jobs')
+    .select('id', { count: 'exact', head: true })
+    .in('status', statuses as string[]);
+  return count || 0;
+}
+
+class CallQueueService {
+  get isConfigured() {
+    return isSupabaseConfigured && !!supabase;
+  }
+
+  /**
+   * Queue a batch. Contacts outside their local calling window are queued for
+   * the next legal start; DNC / recently-called contacts are skipped. Members
+   * of a campaign in `campaigns` get its script and calling window.
+   */
+  async enqueueBatch(contacts: CRMContact[], options: { campaignWindow?: CallingWindow; campaigns?: Campaign[]; priority?: number; now?: Date } = {}): Promise<{
+    batchId: string;
+    created: number;
+    scheduled: number;
+    skipped: { contact: CRMContact; reason: string }[];
+  }> {
+    const batchId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    if (!this.isConfigured || !supabase) {
+      return { batchId, created: 0, scheduled: 0, skipped: contacts.map(contact => ({ contact, reason: 'Supabase not configured' })) };
+    }
+
+    const now = options.now || new Date();
+    const validation = voiceAgentService.validateBatchReady(contacts, { campaignWindow: options.campaignWindow, now });
+    const due = [
+      ...validation.ready.map(contact => ({ contact, at: now })),
+      ...validation.scheduled.map(s => ({ contact: s.contact, at: s.at })),
+    ];
+    const skipped = [...validation.skipped];
+    if (!due.length) return { batchId, created: 0, scheduled: 0, skipped };
+
+    const { data: existing, error: existingErr } = await supabase
+      .from('call_jobs')
+      .select('contact_id')
+      .in('contact_id', due.map(d => d.contact.id))
+      .in('status', ACTIVE_STATUSES as string[]);
+    if (existingErr) throw new Error(existingErr.message);
+
+    const queued = new Set((existing || []).map((r: any) => r.contact_id));
+    const rows = [];
+    for (const { contact, at } of due) {
+      if (queued.has(contact.id)) {
+        skipped.push({ contact, reason: 'Already in the call queue' });
+        continue;
+      }
+      const campaign = contact.campaignId ? options.campaigns?.find(c => c.id === contact.campaignId) : undefined;
+      const vapi = voiceAgentService.buildCallPayload(contact, undefined, campaign);
+      rows.push({
+        id: randomId(),
+        contact_id: contact.id,
+        clinic_id: contact.clinic.id,
+        batch_id: batchId,
+        phone: vapi.customer.number,
+        status: 'pending',
+        priority: options.priority ?? 0,
+        next_attempt_at: at.toISOString(),
+        payload: {
+          clinicName: contact.clinic.name,
+          customer: vapi.customer,
+          metadata: vapi.metadata,
+          assistantOverrides: vapi.assistantOverrides,
+          timezone: resolveClinicTimezone(contact.clinic),
+          callingWindow: resolveCallingWindow(contact.clinic, campaign?.callingWindow || options.campaignWindow),
+        },
+      });
+    }
+
+    if (rows.length) {
+      const { error } = await supabase.from('call_jobs').insert(rows);
+      if (error) throw new Error(error.message);
+    }
+
+    const scheduled = rows.filter(r => new Date(r.next_attempt_at).getTime() > now.getTime()).length;
+    return { batchId, created: rows.length, scheduled, skipped };
+  }
+
+  async fetchQueueControl(): Promise<CallQueueControl> {
+    const fallback: CallQueueControl = {
+      is_paused: !this.isConfigured,
+      emergency_stop: false,
+      max_concurrent: voiceAgentService.batchConfig.maxConcurrent,
+      retry_policy: DEFAULT_CALL_RETRY_POLICY,
+      updated_at: new Date().toISOString(),
+    };
+    if (!this.isConfigured || !supabase) return fallback;
+    const { data } = await supabase
+      .from('call_queue_control')
+      .select('is_paused, emergency_stop, max_concurrent, retry_policy, updated_at')
+      .eq('id', 'global')
+      .single();
+
+    if (!data) return fallback;
+    return { ...data, retry_policy: { ...DEFAULT_CALL_RETRY_POLICY, ...(data.retry_policy || {}) } };
+  }
+
+  private async updateControl(patch: Partial<Omit<CallQueueControl, 'updated_at'>>): Promise<void> {
+    if (!this.isConfigured || !supabase) return;
+    const { error } = await supabase
+      .from('call_queue_control')
+      .upsert({ id: 'global', ...patch, updated_at: new Date().toISOString() }, { onConflict: 'id' });
+    if (error) throw new Error(error.message);
+  }
+
+  /** Stop claiming new jobs; calls already ringing finish normally */
+  async setQueuePaused(paused: boolean): Promise<void> {
+    await this.updateControl(paused ? { is_paused: true } : { is_paused: false, emergency_stop: false });
+  }
+
+  /** Pause everything and cancel every queued job */
+  async emergencyStop(): Promise<number> {
+    await this.updateControl({ is_paused: true, emergency_stop: true });
+    return this.clearQueue();
+  }
+
+  async setMaxConcurrent(maxConcurrent: number): Promise<void> {
+    await this.updateControl({ max_concurrent: Math.max(0, Math.round(maxConcurrent)) });
+  }
+
+  async setRetryPolicy(policy: CallRetryPolicy): Promise<void> {
+    await this.updateControl({ retry_policy: policy });
+  }
+
+  /** Hold or release one batch's queued jobs without touching the rest of the queue */
+  async setBatchPaused(batchId: string, paused: boolean): Promise<void> {
+    if (!this.isConfigured || !supabase) return;
+    const { error } = await supabase
+      .from('call_jobs')
+      .update({ status: paused ? 'paused' : 'pending', updated_at: new Date().toISOString() })
+      .eq('batch_id', batchId)
+      .eq('status', paused ? 'pending' : 'paused');
+    if (error) throw new Error(error.message);
+  }
+
+  async clearQueue(batchId?: string): Promise<number> {
+    if (!this.isConfigured || !supabase) return 0;
+    const { data, error } = await supabase.rpc('clear_pending_call_jobs', {
+      p_batch_id: batchId || null,
+    });
+    if (error) throw new Error(error.message);
+    return Number(data || 0);
+  }
+
+  async runDispatcher(batchSize = 5): Promise<{ processed: number; dispatched: number; paused?: boolean }> {
+    if (!this.isConfigured || !supabase) return { processed: 0, dispatched: 0 };
+
+    const { data, error } = await supabase.functions.invoke('call-dispatch', {
+      body: { batchSize },
+    });
+
+    if (error) throw new Error(error.message || 'Call dispatcher failed');
+    return {
+      processed: Number(data?.processed || 0),
+      dispatched: Number(data?.dispatched || 0),
+      paused: Boolean(data?.paused),
+    };
+  }
+
+  async fetchRecentJobs(limit = 50): Promise<CallJob[]> {
+    if (!this.isConfigured || !supabase) return [];
+    const { data, error } = await supabase
+      .from('call_jobs')
+      .select('id,contact_id,clinic_id,batch_id,status,call_id,call_status,outcome_reason,last_error,attempts,next_attempt_at,priority,payload,created_at,updated_at,completed_at')
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(error.message);
+    return (data || []) as CallJob[];
+  }
+
+  async fetchStats(): Promise<CallQueueStats> {
+    if (!this.isConfigured) {
+      return { pending: 0, paused: 0, inFlight: 0, completed: 0, failed: 0, cancelled: 0 };
+    }
+
+    const [pending, paused, inFlight, completed, failed, cancelled] = await Promise.all([
+      countByStatus(['pending']),
+      countByStatus(['paused']),
+      countByStatus(['dispatching', 'in_call']),
+      countByStatus(['completed']),
+      countByStatus(['failed']),
+      countByStatus(['cancelled']),
+    ]);
+
+    return { pending, paused, inFlight, completed, failed, cancelled };
+  }
+}
+
+export const callQueueService = new CallQueueService();
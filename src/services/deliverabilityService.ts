@@ -0,0 +1,74 @@
+import {
+  DnsResolver, DomainPreflight, DraftPreflight, PreflightDraft, PreflightPolicy,
+  checkDomainAuth, scoreDraft, staticDnsResolver,
+} from '../utils/deliverability';
+
+/**
+ * Pre-flight checks run before a batch send (see utils/deliverability).
+ *
+ * Domain lookups go through DNS-over-HTTPS (VITE_DNS_OVER_HTTPS_URL, Cloudflare
+ * by default). Set VITE_DNS_STUB_RECORDS to a JSON map of name → TXT records to
+ * answer from that map instead, e.g. when developing offline.
+ */
+
+const DOMAIN_CACHE_MS = 10 * 60 * 1000;
+
+const metaEnv: any = (typeof import.meta !== 'undefined' && (import.meta as any).env) ? (import.meta as any).env : {};
+
+function dohResolver(endpoint: string): DnsResolver {
+  return async (name: string) => {
+    const res = await fetch(`${endpoint}?name=${encodeURIComponent(name)}&type=TXT`, {
+      headers: { Accept: 'application/dns-json' },
+    });
+    if (!res.ok) throw new Error(`DNS lookup for ${name} failed (${res.status})`);
+    const data = await res.json();
+    // NXDOMAIN is an answer (no records), not a lookup failure
+    if (data.Status !== 0 && data.Status !== 3) throw new Error(`DNS lookup for ${name} failed (rcode ${data.Status})`);
+    return (data.Answer || [])
+      .filter((a: any) => a.type === 16)
+      // TXT data arrives quoted and may be split into 255-byte strings
+      .map((a: any) => String(a.data).replace(/"\s*"/g, '').replace(/^"|"$/g, ''));
+  };
+}
+
+function defaultResolver(): DnsResolver {
+  if (metaEnv.VITE_DNS_STUB_RECORDS) {
+    try {
+      return staticDnsResolver(JSON.parse(metaEnv.VITE_DNS_STUB_RECORDS));
+    } catch {
+      console.warn('VITE_DNS_STUB_RECORDS is not valid JSON — using DNS-over-HTTPS');
+    }
+  }
+  return dohResolver(metaEnv.VITE_DNS_OVER_HTTPS_URL || 'https://cloudflare-dns.com/dns-query');
+}
+
+class DeliverabilityService {
+  private resolver: DnsResolver = defaultResolver();
+  private domainCache = new Map<string, DomainPreflight>();
+
+  /** Swap the DNS source (tests, local fixtures) */
+  setResolver(resolver: DnsResolver) {
+    this.resolver = resolver;
+    this.domainCache.clear();
+  }
+
+  scoreDraft(draft: PreflightDraft, policy: PreflightPolicy): DraftPreflight {
+    return scoreDraft(draft, policy);
+  }
+
+  async checkDomain(domain: string, force = false): Promise<DomainPreflight> {
+    const key = domain.trim().toLowerCase();
+    const cached = this.domainCache.get(key);
+    if (!force && cached && Date.now() - cached.checkedAt.getTime() < DOMAIN_CACHE_MS) return cached;
+    const result = await checkDomainAuth(key, this.resolver);
+    this.domainCache.set(key, result);
+    return result;
+  }
+
+  async checkDomains(domains: string[], force = false): Promise<DomainPreflight[]> {
+    const unique = Array.from(new Set(domains.map(d => d.trim().toLowerCase()).filter(Boolean)));
+    return Promise.all(unique.map(d => this.checkDomain(d, force)));
+  }
+}
+
+export const deliverabilityService = new DeliverabilityService();
@@ -2,6 +2,7 @@ import axios from 'axios';
 import { Clinic } from '../types';
 import { vertexAI } from './vertexAI';
 import { bedrockService, MODELS } from './bedrockService';
+import { emailVerificationService } from './emailVerificationService';
 
 const getEnv = (key: string): string => {
   const metaEnv: any = (typeof import.meta !== 'undefined' && (import.meta as any).env) ? (import.meta as any).env : {};
@@ -29,12 +30,12 @@ export interface PersonFound {
 
 const GENERIC_PREFIXES = ['info', 'contact', 'office', 'admin', 'frontdesk', 'hello', 'support', 'help', 'reception', 'appointments', 'billing', 'marketing', 'sales', 'hr', 'careers', 'jobs', 'noreply', 'no-reply', 'webmaster', 'mail'];
 
-function isGenericEmail(email: string): boolean {
+export function isGenericEmail(email: string): boolean {
   const prefix = email.split('@')[0].toLowerCase();
   return GENERIC_PREFIXES.includes(prefix);
 }
 
-function extractDomain(website: string): string | null {
+export function extractDomain(website: string): string | null {
   try {
     const url = new URL(website.startsWith('http') ? website : `https://${website}`);
     const domain = url.hostname.replace(/^www\./, '');
@@ -47,7 +48,7 @@ function extractDomain(website: string): string | null {
 /**
  * Generate personal email patterns from a real name + domain
  */
-function generatePersonalEmails(firstName: string, lastName: string, domain: string): EmailCandidate[] {
+export function generatePersonalEmails(firstName: string, lastName: string, domain: string): EmailCandidate[] {
   const f = firstName.toLowerCase().replace(/[^a-z]/g, '');
   const l = lastName.toLowerCase().replace(/[^a-z]/g, '');
   if (!f || !l || !domain) return [];
@@ -62,6 +63,12 @@ function generatePersonalEmails(firstName: string, lastName: string, domain: str
   ];
 }
 
+/**
+ * Email intelligence providers — Exa, Gemini, LeadMagic and RevenueBase.
+ * Each call is one step of the enrichment waterfall
+ * (services/enrichmentWaterfallService), which decides the order and keeps
+ * the credit ledger.
+ */
 export class EmailIntelService {
   private revenueBaseKey: string;
   private exaKey: string;
@@ -73,206 +80,27 @@ export class EmailIntelService {
     this.leadMagicKey = getEnv('VITE_LEADMAGIC_API_KEY');
   }
 
-  /**
-   * Main pipeline: find real people → generate personal emails → verify
-   * Returns personal emails first, generic emails last
-   */
-  async findAndVerifyEmails(clinic: Clinic): Promise<EmailCandidate[]> {
-    const candidates: EmailCandidate[] = [];
-    const people: PersonFound[] = [];
-    let exaContent = '';
-
-    // Step 1: Exa — find real people (LinkedIn, staff pages, about pages)
-    if (this.exaKey) {
-      try {
-        const exa = await this.searchPeopleWithExa(clinic);
-        people.push(...exa.people);
-        candidates.push(...exa.emails);
-        exaContent = exa.content;
-      } catch (err) {
-        console.warn('Exa search failed:', err);
-      }
-    }
-
-    // Step 2: Gemini (via Vertex AI) — analyze Exa content to find more people + extract emails
-    if (vertexAI.isConfigured) {
-      try {
-        const gemini = await this.extractPeopleWithGemini(clinic, exaContent, people);
-        // Add new people
-        for (const p of gemini.people) {
-          if (!people.some(ep => ep.name.toLowerCase() === p.name.toLowerCase())) {
-            people.push(p);
-          }
-        }
-        // Add new emails
-        const existing = new Set(candidates.map(c => c.email.toLowerCase()));
-        for (const e of gemini.emails) {
-          if (!existing.has(e.email.toLowerCase())) {
-            candidates.push(e);
-            existing.add(e.email.toLowerCase());
-          }
-        }
-      } catch (err) {
-        console.warn('Gemini extraction failed:', err);
-      }
-    }
-
-    // Step 3: LeadMagic — find verified work emails for discovered people + discover employees
-    if (this.leadMagicKey) {
-      const domain = clinic.website ? extractDomain(clinic.website) : null;
-
-      // 3a: If we found people, use email-finder to get their verified work emails (1 credit each)
-      if (people.length > 0 && domain) {
-        const existing = new Set(candidates.map(c => c.email.toLowerCase()));
-        for (const person of people.slice(0, 3)) {
-          try {
-            const parts = person.name.trim().split(/\s+/);
-            if (parts.length < 2) continue;
-            const result = await this.leadMagicEmailFinder(parts[0], parts[parts.length - 1], domain, clinic.name);
-            if (result && !existing.has(result.email.toLowerCase())) {
-              candidates.push({
-                email: result.email.toLowerCase(),
-                source: 'exa_scrape', // categorize under existing source type
-                confidence: result.status === 'valid' ? 95 : result.status === 'valid_catch_all' ? 75 : 60,
-                personName: person.name,
-                personTitle: person.title,
-                isGeneric: isGenericEmail(result.email),
-                verified: true,
-                verificationStatus: result.status === 'valid' ? 'valid' : result.status === 'invalid' ? 'invalid' : 'risky',
-                raw: { source: 'leadmagic', ...result },
-              });
-              existing.add(result.email.toLowerCase());
-            }
-          } catch (err) {
-            console.warn('LeadMagic email-finder failed:', err);
-          }
-        }
-      }
-
-      // 3b: If we still have no people or no verified emails, use employee-finder to discover DMs
-      const hasVerifiedPersonal = candidates.some(c => !c.isGeneric && c.verified && c.verificationStatus === 'valid');
-      if (!hasVerifiedPersonal && domain) {
-        try {
-          const employees = await this.leadMagicEmployeeFinder(domain, clinic.name);
-          const existing = new Set(candidates.map(c => c.email.toLowerCase()));
-          // Filter for decision-maker titles
-          const dmTitles = /owner|founder|director|ceo|manager|administrator|partner|president|chief|vp|head/i;
-          const dms = employees.filter(e => dmTitles.test(e.title || ''));
-          const targets = dms.length > 0 ? dms : employees.slice(0, 3);
-
-          for (const emp of targets.slice(0, 3)) {
-            // Add as a discovered person
-            if (!people.some(p => p.name.toLowerCase() === emp.name.toLowerCase())) {
-              people.push({ name: emp.name, title: emp.title || 'Staff', source: 'leadmagic' });
-            }
-            // Now find their email
-            const parts = emp.name.trim().split(/\s+/);
-            if (parts.length < 2) continue;
-            try {
-              const result = await this.leadMagicEmailFinder(parts[0], parts[parts.length - 1], domain, clinic.name);
-              if (result && !existing.has(result.email.toLowerCase())) {
-                candidates.push({
-                  email: result.email.toLowerCase(),
-                  source: 'exa_scrape',
-                  confidence: result.status === 'valid' ? 95 : result.status === 'valid_catch_all' ? 75 : 60,
-                  personName: emp.name,
-                  personTitle: emp.title,
-                  isGeneric: isGenericEmail(result.email),
-                  verified: true,
-                  verificationStatus: result.status === 'valid' ? 'valid' : result.status === 'invalid' ? 'invalid' : 'risky',
-                  raw: { source: 'leadmagic', ...result },
-                });
-                existing.add(result.email.toLowerCase());
-              }
-            } catch (err) {
-              console.warn('LeadMagic email-finder for employee failed:', err);
-            }
-          }
-        } catch (err) {
-          console.warn('LeadMagic employee-finder failed:', err);
-        }
-      }
-    }
-
-    // Step 4: Generate personal email patterns from found people + clinic domain
-    const domain = clinic.website ? extractDomain(clinic.website) : null;
-    if (domain && people.length > 0) {
-      const existing = new Set(candidates.map(c => c.email.toLowerCase()));
-      for (const person of people) {
-        const parts = person.name.trim().split(/\s+/);
-        if (parts.length < 2) continue;
-        const firstName = parts[0];
-        const lastName = parts[parts.length - 1];
-        const personalEmails = generatePersonalEmails(firstName, lastName, domain);
-        for (const pe of personalEmails) {
-          pe.personTitle = person.title;
-          if (!existing.has(pe.email)) {
-            candidates.push(pe);
-            existing.add(pe.email);
-          }
-        }
-      }
-    }
-
-    // Step 5: Add generic fallbacks (low priority)
-    if (domain) {
-      const existing = new Set(candidates.map(c => c.email.toLowerCase()));
-      const generics = [
-        { email: `info@${domain}`, confidence: 25 },
-        { email: `contact@${domain}`, confidence: 20 },
-        { email: `office@${domain}`, confidence: 15 },
-      ];
-      for (const g of generics) {
-        if (!existing.has(g.email)) {
-          candidates.push({ email: g.email, source: 'pattern_guess', confidence: g.confidence, isGeneric: true, personTitle: 'General' });
-        }
-      }
-    }
-
-    // Step 6: Verify top personal (non-generic) candidates with RevenueBase
-    if (this.revenueBaseKey) {
-      const personalCandidates = candidates.filter(c => !c.isGeneric && !isGenericEmail(c.email));
-      const toVerify = personalCandidates.slice(0, 6);
-      // Also verify the top generic as fallback
-      const topGeneric = candidates.find(c => c.isGeneric || isGenericEmail(c.email));
-      if (topGeneric) toVerify.push(topGeneric);
-
-      await this.verifyWithRevenueBase(toVerify);
-    }
-
-    // Sort: verified valid personal → verified risky personal → high confidence personal → generic
-    candidates.sort((a, b) => {
-      const aGeneric = a.isGeneric || isGenericEmail(a.email);
-      const bGeneric = b.isGeneric || isGenericEmail(b.email);
-      // Personal always before generic
-      if (!aGeneric && bGeneric) return -1;
-      if (aGeneric && !bGeneric) return 1;
-      // Verified valid first
-      const aValid = a.verified && a.verificationStatus === 'valid' ? 200 : 0;
-      const bValid = b.verified && b.verificationStatus === 'valid' ? 200 : 0;
-      const aRisky = a.verified && a.verificationStatus === 'risky' ? 100 : 0;
-      const bRisky = b.verified && b.verificationStatus === 'risky' ? 100 : 0;
-      return (bValid + bRisky + b.confidence) - (aValid + aRisky + a.confidence);
-    });
-
-    return candidates;
-  }
+  get hasExa(): boolean { return !!this.exaKey; }
+  get hasLeadMagic(): boolean { return !!this.leadMagicKey; }
+  get hasRevenueBase(): boolean { return !!this.revenueBaseKey; }
 
   /**
    * Exa — search for real people at the clinic (LinkedIn, staff pages, bios)
    */
-  private async searchPeopleWithExa(clinic: Clinic): Promise<{ people: PersonFound[]; emails: EmailCandidate[]; content: string }> {
+  async searchPeopleWithExa(clinic: Clinic): Promise<{ people: PersonFound[]; emails: EmailCandidate[]; content: string; queries: number }> {
     const people: PersonFound[] = [];
     const emails: EmailCandidate[] = [];
     let content = '';
+    let queries = 0;
 
-    const queries = [
+    const searches = [
       `"${clinic.name}" owner OR founder OR "medical director" OR doctor ${clinic.address.city} ${clinic.address.state}`,
       `site:linkedin.com "${clinic.name}" ${clinic.address.city}`,
       `"${clinic.name}" team OR staff OR providers OR about`,
     ];
 
-    for (const query of queries) {
+    for (const query of searches) {
+      queries += 1;
       try {
         const response = await axios.post(
           'https://api.exa.ai/search',
@@ -354,7 +182,7 @@ export class EmailIntelService {
       }
     }
 
-    return { people: people.slice(0, 5), emails: emails.slice(0, 5), content };
+    return { people: people.slice(0, 5), emails: emails.slice(0, 5), content, queries };
   }
 
   private extractNameNearEmail(text: string, email: string): { name: string; title: string } {
@@ -369,7 +197,7 @@ export class EmailIntelService {
   /**
    * Vertex AI (Gemini) — analyze Exa-scraped content + generate smart guesses for people/emails
    */
-  private async extractPeopleWithGemini(
+  async extractPeopleWithGemini(
     clinic: Clinic,
     exaContent: string,
     existingPeople: PersonFound[]
@@ -493,7 +321,7 @@ Respond ONLY with valid JSON:
    * POST https://api.leadmagic.io/v1/people/email-finder
    * Cost: 1 credit per email found, FREE if not found
    */
-  private async leadMagicEmailFinder(
+  async leadMagicEmailFinder(
     firstName: string, lastName: string, domain: string, companyName: string
   ): Promise<{ email: string; status: string; company_name?: string } | null> {
     try {
@@ -521,7 +349,7 @@ Respond ONLY with valid JSON:
    * POST https://api.leadmagic.io/v1/people/employee-finder
    * Cost: 0.05 credits per employee returned (20 employees = 1 credit), FREE if none found
    */
-  private async leadMagicEmployeeFinder(
+  async leadMagicEmployeeFinder(
     domain: string, companyName: string
   ): Promise<Array<{ name: string; title: string; profile_url?: string }>> {
     try {
@@ -547,57 +375,25 @@ Respond ONLY with valid JSON:
   }
 
   /**
-   * RevenueBase — verify email addresses
-   * POST https://api.revenuebase.ai/v1/process-email with x-key header
+   * RevenueBase — verify email addresses, through the shared verification
+   * cache (services/emailVerificationService) so a fresh result is reused
    */
-  private async verifyWithRevenueBase(candidates: EmailCandidate[]): Promise<void> {
+  async verifyWithRevenueBase(candidates: EmailCandidate[]): Promise<void> {
     if (!this.revenueBaseKey || candidates.length === 0) return;
 
     const verifyOne = async (candidate: EmailCandidate) => {
-      try {
-        const response = await axios.post(
-          'https://api.revenuebase.ai/v1/process-email',
-          { email: candidate.email },
-          {
-            headers: {
-              'x-key': this.revenueBaseKey,
-              'Content-Type': 'application/json',
-            },
-            timeout: 10000,
-          }
-        );
-
-        const data = response.data;
-        candidate.verified = true;
-
-        // Interpret response — RevenueBase returns status/result fields
-        const status = (data.status || data.result || data.verification_status || '').toLowerCase();
-        if (status === 'valid' || status === 'deliverable' || status === 'safe') {
-          candidate.verificationStatus = 'valid';
-          candidate.confidence = Math.min(candidate.confidence + 30, 99);
-        } else if (status === 'invalid' || status === 'undeliverable' || status === 'bounce') {
-          candidate.verificationStatus = 'invalid';
-          candidate.confidence = Math.max(candidate.confidence - 40, 5);
-        } else if (status === 'risky' || status === 'catch-all' || status === 'catch_all' || status === 'accept_all') {
-          candidate.verificationStatus = 'risky';
-          candidate.confidence = Math.min(candidate.confidence + 10, 75);
-        } else {
-          candidate.verificationStatus = 'unknown';
-        }
-
-        candidate.raw = data;
-      } catch (err: any) {
-        // 422/400 often means invalid email format
-        if (err?.response?.status === 422 || err?.response?.status === 400) {
-          candidate.verified = true;
-          candidate.verificationStatus = 'invalid';
-          candidate.confidence = 5;
-        } else {
-          console.warn(`RevenueBase verification failed for ${candidate.email}:`, err?.message);
-          candidate.verified = false;
-          candidate.verificationStatus = 'unknown';
-        }
+      const result = await emailVerificationService.verify(candidate.email);
+      if (!result) {
+        candidate.verified = false;
+        candidate.verificationStatus = 'unknown';
+        return;
       }
+      const { status } = result.verification;
+      candidate.verified = true;
+      candidate.verificationStatus = status;
+      if (status === 'valid') candidate.confidence = Math.min(candidate.confidence + 30, 99);
+      else if (status === 'invalid') candidate.confidence = Math.max(candidate.confidence - 40, 5);
+      else if (status === 'risky') candidate.confidence = Math.min(candidate.confidence + 10, 75);
     };
 
     // Verify in parallel batches of 3 to avoid rate limits
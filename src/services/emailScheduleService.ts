@@ -0,0 +1,100 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import type { CRMContact } from '../types';
+import type { SendProvider } from '../utils/senderPool';
+import type { SendTimePlan } from '../utils/sendTime';
+
+/**
+ * Server-side scheduled-send queue (`email_send_jobs`, dispatched by the
+ * `email-dispatch` edge function). Sequence steps are rendered in the browser
+ * and held until the recipient's best local send time (see utils/sendTime);
+ * the queue keeps going after a reload or with the tab closed.
+ */
+
+export type EmailSendJobStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface EmailSendJob {
+  id: string;
+  contact_id: string;
+  sequence_enrollment_id: string | null;
+  sequence_step_id: string | null;
+  provider: SendProvider;
+  send_at: string;
+  timezone: string | null;
+  basis: string | null;
+  status: EmailSendJobStatus;
+  attempts: number;
+  sent_email_id: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduledSendRequest {
+  contact: CRMContact;
+  enrollmentId: string;
+  stepId: string;
+  provider: SendProvider;
+  /** Request body for resend-send / smtp-send (see prepareAIPersonalized on the send services) */
+  payload: Record<string, unknown>;
+  plan: SendTimePlan;
+}
+
+const JOB_COLUMNS = 'id,contact_id,sequence_enrollment_id,sequence_step_id,provider,send_at,timezone,basis,status,attempts,sent_email_id,last_error,sent_at,created_at,updated_at';
+
+class EmailScheduleService {
+  get isConfigured() {
+    return isSupabaseConfigured && !!supabase;
+  }
+
+  /** Queue rendered sends; returns the job id per request, in order */
+  async schedule(requests: ScheduledSendRequest[]): Promise<string[]> {
+    if (!requests.length) return [];
+    if (!this.isConfigured || !supabase) throw new Error('Scheduled sends need Supabase');
+    const rows = requests.map(r => ({
+      id: `send-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      contact_id: r.contact.id,
+      sequence_enrollment_id: r.enrollmentId,
+      sequence_step_id: r.stepId,
+      provider: r.provider,
+      payload: r.payload,
+      send_at: r.plan.at.toISOString(),
+      timezone: r.plan.timeZone,
+      basis: r.plan.basis,
+      status: 'pending',
+    }));
+    const { error } = await supabase.from('email_send_jobs').insert(rows);
+    if (error) throw new Error(error.message);
+    return rows.map(r => r.id);
+  }
+
+  async fetchJobs(ids: string[]): Promise<EmailSendJob[]> {
+    if (!this.isConfigured || !supabase || !ids.length) return [];
+    const { data, error } = await supabase.from('email_send_jobs').select(JOB_COLUMNS).in('id', ids);
+    if (error) throw new Error(error.message);
+    return (data || []) as EmailSendJob[];
+  }
+
+  /** Cancel jobs that have not started sending. Returns the ids actually cancelled. */
+  async cancel(ids: string[], reason = 'Cancelled by operator'): Promise<string[]> {
+    if (!this.isConfigured || !supabase || !ids.length) return [];
+    const { data, error } = await supabase
+      .from('email_send_jobs')
+      .update({ status: 'cancelled', last_error: reason, updated_at: new Date().toISOString() })
+      .in('id', ids)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data || []).map((r: any) => r.id);
+  }
+
+  /** Kick the dispatcher now instead of waiting for the next cron tick */
+  async runDispatcher(batchSize = 10): Promise<{ processed: number; sent: number }> {
+    if (!this.isConfigured || !supabase) return { processed: 0, sent: 0 };
+    const { data, error } = await supabase.functions.invoke('email-dispatch', { body: { batchSize } });
+    if (error) throw new Error(error.message || 'Email dispatcher failed');
+    return { processed: Number(data?.processed || 0), sent: Number(data?.sent || 0) };
+  }
+}
+
+export const emailScheduleService = new EmailScheduleService();
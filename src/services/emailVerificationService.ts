@@ -0,0 +1,150 @@
+import axios from 'axios';
+import {
+  EmailVerification, UpcomingSend,
+  buildVerification, isFresh, normalizeEmail, parseRevenueBaseResult, staleForUpcoming,
+} from '../utils/emailVerification';
+
+/**
+ * Runtime side of the email verification cache (see utils/emailVerification).
+ *
+ * Every verification — enrichment, the outreach "Verify" button, google-verify,
+ * bounces — goes through here, so an address is checked with RevenueBase once
+ * per TTL no matter who asks. The store loads the persisted results and
+ * subscribes to new ones; concurrent checks of the same address share one call.
+ */
+
+const getEnv = (key: string): string => {
+  const metaEnv: any = (typeof import.meta !== 'undefined' && (import.meta as any).env) ? (import.meta as any).env : {};
+  return metaEnv?.[key] || '';
+};
+
+export interface VerifyResult {
+  verification: EmailVerification;
+  /** Answered from the cache (or another caller's in-flight check) — no credit spent */
+  cached: boolean;
+}
+
+/** How often the background job looks for stale addresses in upcoming sends */
+const REVERIFY_INTERVAL_MS = 30 * 60 * 1000;
+const REVERIFY_FIRST_PASS_MS = 60 * 1000;
+
+const registry = new Map<string, EmailVerification>();
+const inflight = new Map<string, Promise<VerifyResult | null>>();
+let listener: ((entries: EmailVerification[]) => void) | null = null;
+let reverifyTimer: any = null;
+let reverifying = false;
+
+export class EmailVerificationService {
+  private revenueBaseKey = getEnv('VITE_REVENUEBASE_API_KEY');
+
+  /** Replace the cache with the persisted results (store rehydrate / pull) */
+  load(entries: EmailVerification[]) {
+    registry.clear();
+    for (const v of entries) this.remember(v);
+  }
+
+  /** The store subscribes so new results get persisted */
+  setListener(next: ((entries: EmailVerification[]) => void) | null) {
+    listener = next;
+  }
+
+  lookup(email: string): EmailVerification | undefined {
+    return registry.get(normalizeEmail(email));
+  }
+
+  /** Cached result still inside its TTL, if any */
+  fresh(email: string, at = new Date()): EmailVerification | null {
+    const v = this.lookup(email);
+    return v && isFresh(v, at) ? v : null;
+  }
+
+  /** Store results checked elsewhere (google-verify, bounces) */
+  record(entries: EmailVerification[]) {
+    const kept = entries.filter(v => this.remember(v));
+    if (kept.length) listener?.(kept);
+  }
+
+  /**
+   * Status of an address — from the cache while fresh, otherwise one
+   * RevenueBase check. `force` skips the cache (background re-verification).
+   * Null when RevenueBase is not configured or could not be reached.
+   */
+  async verify(email: string, opts: { force?: boolean } = {}): Promise<VerifyResult | null> {
+    const addr = normalizeEmail(email);
+    if (!addr) return null;
+    if (!opts.force) {
+      const hit = this.fresh(addr);
+      if (hit) return { verification: hit, cached: true };
+    }
+    const pending = inflight.get(addr);
+    if (pending) return pending.then(r => r && { ...r, cached: true });
+    if (!this.revenueBaseKey) return null;
+
+    const run = this.checkRevenueBase(addr).finally(() => inflight.delete(addr));
+    inflight.set(addr, run);
+    return run;
+  }
+
+  /**
+   * Re-verify stale addresses that sequences are about to email, every 30
+   * minutes. `targets` lists the upcoming sends (see upcomingSequenceEmails).
+   */
+  startReverification(targets: () => UpcomingSend[]) {
+    if (reverifyTimer) return;
+    const pass = async () => {
+      if (reverifying || !this.revenueBaseKey) return;
+      reverifying = true;
+      try {
+        for (const email of staleForUpcoming(registry, targets())) {
+          await this.verify(email, { force: true });
+        }
+      } catch (err) {
+        console.warn('[EmailVerification] re-verification pass failed:', err);
+      } finally {
+        reverifying = false;
+      }
+    };
+    setTimeout(pass, REVERIFY_FIRST_PASS_MS);
+    reverifyTimer = setInterval(pass, REVERIFY_INTERVAL_MS);
+  }
+
+  stopReverification() {
+    if (reverifyTimer) clearInterval(reverifyTimer);
+    reverifyTimer = null;
+  }
+
+  private async checkRevenueBase(addr: string): Promise<VerifyResult | null> {
+    let verification: EmailVerification;
+    try {
+      const response = await axios.post(
+        'https://api.revenuebase.ai/v1/process-email',
+        { email: addr },
+        {
+          headers: { 'x-key': this.revenueBaseKey, 'Content-Type': 'application/json' },
+          timeout: 10000,
+        },
+      );
+      const { status, catchAll } = parseRevenueBaseResult(response.data);
+      verification = buildVerification(addr, status, 'revenuebase', { catchAll });
+    } catch (err: any) {
+      // 422/400 means the address itself is malformed
+      if (err?.response?.status !== 422 && err?.response?.status !== 400) {
+        console.warn(`RevenueBase verification failed for ${addr}:`, err?.message);
+        return null;
+      }
+      verification = buildVerification(addr, 'invalid', 'revenuebase');
+    }
+    this.record([verification]);
+    return { verification, cached: false };
+  }
+
+  /** Keep the newest result per address; false when an equal or newer one is already cached */
+  private remember(v: EmailVerification): boolean {
+    const prev = registry.get(v.email);
+    if (prev && new Date(prev.checkedAt).getTime() >= new Date(v.checkedAt).getTime()) return false;
+    registry.set(v.email, v);
+    return true;
+  }
+}
+
+export const emailVerificationService = new EmailVerificationService();
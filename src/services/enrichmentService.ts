@@ -1,6 +1,5 @@
 import axios from 'axios';
 import { Clinic, DecisionMaker, DecisionMakerRole, DataSource } from '../types';
-import { emailIntelService } from './emailIntelService';
 import { supabase } from '../lib/supabase';
 
 interface ApolloSearchResponse {
@@ -28,12 +27,16 @@ interface ApolloSearchResponse {
   }>;
 }
 
+/**
+ * Decision-maker providers — Apollo (with key rotation), the NPI Registry and
+ * Clearbit. The enrichment waterfall (services/enrichmentWaterfallService)
+ * decides which of them runs for a clinic and in what order.
+ */
 export class EnrichmentService {
   private apolloKeys: string[];
   private currentKeyIndex: number;
   private exhaustedKeys: Set<number>;
   private clearbitApiKey: string;
-  private revenueBaseKey: string;
 
   constructor(apolloKey?: string, clearbitKey?: string) {
     const metaEnv: any = (typeof import.meta !== 'undefined' && (import.meta as any).env) ? (import.meta as any).env : {};
@@ -52,13 +55,15 @@ export class EnrichmentService {
     this.currentKeyIndex = 0;
     this.exhaustedKeys = new Set();
     this.clearbitApiKey = clearbitKey || metaEnv?.VITE_CLEARBIT_API_KEY || '';
-    this.revenueBaseKey = metaEnv?.VITE_REVENUEBASE_API_KEY || '';
     
     if (this.apolloKeys.length > 1) {
       console.log(`[Apollo] ${this.apolloKeys.length} API keys loaded for rotation`);
     }
   }
 
+  get hasApollo(): boolean { return !!this.apolloApiKey; }
+  get hasClearbit(): boolean { return !!this.clearbitApiKey; }
+
   /** Get the current active Apollo key, or empty if all exhausted */
   private get apolloApiKey(): string {
     if (this.exhaustedKeys.size >= this.apolloKeys.length) return '';
@@ -92,111 +97,6 @@ export class EnrichmentService {
     return false;
   }
 
-  /**
-   * Find decision makers at a clinic
-   */
-  async findDecisionMakers(clinic: Clinic): Promise<DecisionMaker[]> {
-    const decisionMakers: DecisionMaker[] = [];
-
-    // Try Apollo.io first
-    if (this.apolloApiKey) {
-      const apolloResults = await this.searchApollo(clinic);
-      decisionMakers.push(...apolloResults);
-    }
-
-    // If no results from Apollo, try the public NPI Registry
-    if (decisionMakers.length === 0) {
-      const npiResults = await this.searchNPI(clinic);
-      decisionMakers.push(...npiResults);
-
-      // If we found emails, try a Clearbit enrichment pass to fill missing fields
-      for (const dm of decisionMakers) {
-        if (dm.email && this.clearbitApiKey) {
-          const extra = await this.enrichWithClearbit(dm.email);
-          if (extra) {
-            dm.firstName = dm.firstName || extra.firstName || dm.firstName;
-            dm.lastName = dm.lastName || extra.lastName || dm.lastName;
-            dm.title = dm.title || extra.title || dm.title;
-            dm.linkedInUrl = dm.linkedInUrl || extra.linkedInUrl || dm.linkedInUrl;
-            dm.confidence = Math.max(dm.confidence || 0, extra.title ? 90 : 80);
-            dm.enrichedAt = new Date();
-            dm.source = 'clearbit' as DataSource;
-          }
-        }
-      }
-    }
-
-    // If still nothing, try broader NPI search by city/state + healthcare taxonomy
-    if (decisionMakers.length === 0 && clinic.address?.city) {
-      const broadNpi = await this.searchNPIBroad(clinic);
-      decisionMakers.push(...broadNpi);
-    }
-
-    // If still nothing, use Gemini + RevenueBase email intelligence pipeline
-    if (decisionMakers.length === 0) {
-      const emailCandidates = await emailIntelService.findAndVerifyEmails(clinic);
-      if (emailCandidates.length > 0) {
-        // ONLY use personal (non-generic) emails as decision makers
-        // Generic emails (info@, contact@, office@) are useless for reaching real people
-        const GENERIC_PREFIXES = ['info', 'contact', 'office', 'admin', 'frontdesk', 'hello', 'support', 'help', 'reception', 'appointments', 'billing', 'marketing', 'sales', 'hr', 'noreply', 'no-reply', 'webmaster', 'mail'];
-        const isGeneric = (email: string) => GENERIC_PREFIXES.includes(email.split('@')[0].toLowerCase());
-
-        const personalCandidates = emailCandidates.filter(c => !c.isGeneric && !isGeneric(c.email));
-        const topPersonal = personalCandidates
-          .filter(c => !(c.verified && c.verificationStatus === 'invalid'))
-          .slice(0, 3);
-
-        for (const candidate of topPersonal) {
-          const nameParts = (candidate.personName || '').split(' ');
-          const verifiedLabel = candidate.verified
-            ? ` [${candidate.verificationStatus}]`
-            : '';
-
-          decisionMakers.push({
-            id: `email-intel-${clinic.id}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
-            clinicId: clinic.id,
-            firstName: nameParts[0] || 'Unknown',
-            lastName: nameParts.slice(1).join(' ') || 'Contact',
-            title: (candidate.personTitle || 'Decision Maker') + verifiedLabel,
-            role: this.inferRole(candidate.personTitle || ''),
-            email: candidate.email,
-            phone: clinic.phone || undefined,
-            linkedInUrl: undefined,
-            confidence: candidate.confidence,
-            enrichedAt: new Date(),
-            source: (candidate.source === 'exa_scrape' ? 'website_scrape' : candidate.source === 'gemini_extract' ? 'website_scrape' : 'manual') as DataSource,
-            // `emailVerified` means deliverable/valid (safe to outreach). Status carries risky/invalid/unknown.
-            emailVerified: candidate.verificationStatus === 'valid',
-            emailVerificationStatus: candidate.verificationStatus || 'unknown',
-          });
-        }
-      }
-    }
-
-    // Last resort: create a contact entry from the clinic phone so the CRM is never empty
-    if (decisionMakers.length === 0 && clinic.phone) {
-      decisionMakers.push({
-        id: `phone-${clinic.id}-${Date.now()}`,
-        clinicId: clinic.id,
-        firstName: 'Front',
-        lastName: 'Desk',
-        title: 'Clinic Front Desk — call to reach decision maker',
-        role: 'clinic_manager' as DecisionMakerRole,
-        email: undefined,
-        phone: clinic.phone,
-        linkedInUrl: undefined,
-        confidence: 20,
-        enrichedAt: new Date(),
-        source: 'manual' as DataSource,
-      });
-    }
-
-    // ── Verify all emails via RevenueBase before returning ──
-    await this.verifyEmails(decisionMakers);
-
-    return decisionMakers;
-  }
-
   /**
    * Fetch NPI Registry results.
    * In browsers, the public NPI API can be blocked by CORS; we attempt a Supabase Edge Function proxy first.
@@ -218,80 +118,13 @@ export class EnrichmentService {
     return response.data;
   }
 
-  /**
-   * Verify all decision maker emails via RevenueBase
-   * Marks each DM with emailVerified + emailVerificationStatus
-   * Adjusts confidence scores based on verification result
-   */
-  private async verifyEmails(dms: DecisionMaker[]): Promise<void> {
-    if (!this.revenueBaseKey) return;
-    const withEmail = dms.filter(d => {
-      if (!d.email) return false;
-      // Only verify if we don't already have a non-unknown status.
-      const status = (d.emailVerificationStatus || 'unknown').toLowerCase();
-      if (status && status !== 'unknown') return false;
-      return true;
-    });
-    if (!withEmail.length) return;
-
-    const verifyOne = async (dm: DecisionMaker) => {
-      try {
-        const response = await axios.post(
-          'https://api.revenuebase.ai/v1/process-email',
-          { email: dm.email },
-          { headers: { 'x-key': this.revenueBaseKey, 'Content-Type': 'application/json' }, timeout: 10000 }
-        );
-        const data = response.data;
-        const raw = (data.status || data.result || data.verification_status || '').toLowerCase();
-        if (raw === 'valid' || raw === 'deliverable' || raw === 'safe' || raw === 'verified') {
-          dm.emailVerificationStatus = 'valid';
-          dm.emailVerified = true;
-          dm.confidence = Math.min(dm.confidence + 20, 99);
-        } else if (raw === 'invalid' || raw === 'undeliverable' || raw === 'bounce') {
-          dm.emailVerificationStatus = 'invalid';
-          dm.emailVerified = false;
-          dm.confidence = Math.max(dm.confidence - 30, 5);
-        } else if (raw === 'risky' || raw === 'catch-all' || raw === 'catch_all' || raw === 'accept_all') {
-          dm.emailVerificationStatus = 'risky';
-          dm.emailVerified = false;
-          dm.confidence = Math.min(dm.confidence + 5, 80);
-        } else {
-          dm.emailVerificationStatus = 'unknown';
-          dm.emailVerified = false;
-        }
-      } catch (err: any) {
-        if (err?.response?.status === 422 || err?.response?.status === 400) {
-          dm.emailVerified = false;
-          dm.emailVerificationStatus = 'invalid';
-          dm.confidence = Math.max(dm.confidence - 30, 5);
-        } else {
-          dm.emailVerified = false;
-          dm.emailVerificationStatus = 'unknown';
-        }
-      }
-    };
-
-    // Verify in parallel batches of 3
-    for (let i = 0; i < withEmail.length; i += 3) {
-      await Promise.all(withEmail.slice(i, i + 3).map(verifyOne));
-    }
-
-    // Re-sort: verified valid first, then by confidence
-    dms.sort((a, b) => {
-      const aV = a.emailVerificationStatus === 'valid' ? 100 : a.emailVerificationStatus === 'risky' ? 50 : 0;
-      const bV = b.emailVerificationStatus === 'valid' ? 100 : b.emailVerificationStatus === 'risky' ? 50 : 0;
-      if (aV !== bV) return bV - aV;
-      return b.confidence - a.confidence;
-    });
-  }
-
   /**
    * Search Apollo.io for decision makers
    * Uses domain-based search when website is available (more accurate),
    * falls back to org name search.
    * Automatically rotates API keys on 403/429 errors.
    */
-  private async searchApollo(clinic: Clinic): Promise<DecisionMaker[]> {
+  async searchApollo(clinic: Clinic): Promise<DecisionMaker[]> {
     const apiKey = this.apolloApiKey;
     if (!apiKey) return [];
 
@@ -437,7 +270,7 @@ export class EnrichmentService {
   /**
    * Search the public NPI Registry for organization/authorized official info
    */
-  private async searchNPI(clinic: Clinic): Promise<DecisionMaker[]> {
+  async searchNPI(clinic: Clinic): Promise<DecisionMaker[]> {
     try {
       const params: any = {
         version: '2.1',
@@ -518,7 +351,7 @@ export class EnrichmentService {
    * Broader NPI search — search by taxonomy (healthcare provider type) + location
    * when exact org name match fails
    */
-  private async searchNPIBroad(clinic: Clinic): Promise<DecisionMaker[]> {
+  async searchNPIBroad(clinic: Clinic): Promise<DecisionMaker[]> {
     try {
       // Search for individual providers near this clinic's location
       // using healthcare taxonomy codes common in men's health
@@ -582,7 +415,7 @@ export class EnrichmentService {
   /**
    * Infer decision maker role from job title
    */
-  private inferRole(title: string): DecisionMakerRole {
+  inferRole(title: string): DecisionMakerRole {
     const titleLower = title.toLowerCase();
 
     if (titleLower.includes('owner') || titleLower.includes('founder') || titleLower.includes('ceo')) {
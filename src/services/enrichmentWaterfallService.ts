@@ -0,0 +1,402 @@
+import { Clinic, DataSource, DecisionMaker } from '../types';
+import { enrichmentService } from './enrichmentService';
+import { emailIntelService, EmailCandidate, extractDomain, generatePersonalEmails } from './emailIntelService';
+import { vertexAI } from './vertexAI';
+import { bedrockService } from './bedrockService';
+import { emailVerificationService } from './emailVerificationService';
+import {
+  DEFAULT_WATERFALL_CONFIG, ENRICHMENT_PROVIDERS,
+  EmailStatus, EnrichmentField, EnrichmentLedgerEntry, EnrichmentProvider, ProviderHit, WaterfallConfig, WaterfallPerson,
+  applyEmailStatus, creditVerifiedEmails, isGenericEmail, ledgerCost, mergeHits, nextProvider, rankPeople,
+} from '../utils/enrichmentWaterfall';
+
+/**
+ * Enrichment waterfall orchestrator — the one way the app finds decision
+ * makers for a clinic. Each adapter below wraps a single provider call; the
+ * order, stop-on-confidence thresholds and credit costs come from the
+ * WaterfallConfig the store registers (utils/enrichmentWaterfall). Every call
+ * is written to the credit ledger, which goes back to the store through the
+ * registered listener.
+ */
+
+export interface WaterfallOptions {
+  /** Only these providers may run, still in the configured order */
+  providers?: EnrichmentProvider[];
+  /** Addresses that must not come back — bounced, suppressed, already tried */
+  skipEmail?: (email: string) => boolean;
+}
+
+export interface WaterfallResult {
+  /** Everyone found, best contact first — generic inboxes included */
+  people: WaterfallPerson[];
+  /** Named people and personal addresses, ready for the CRM */
+  decisionMakers: DecisionMaker[];
+  ledger: EnrichmentLedgerEntry[];
+}
+
+interface ProviderResult {
+  hits: ProviderHit[];
+  credits: number;
+  /** Not configured, or nothing to look up yet — no ledger row */
+  skipped?: boolean;
+}
+
+interface RunContext {
+  clinic: Clinic;
+  config: WaterfallConfig;
+  people: WaterfallPerson[];
+  /** Page text Exa scraped, which Gemini reads */
+  exaContent: string;
+  verify: (email: string) => Promise<EmailStatus>;
+}
+
+type Adapter = (ctx: RunContext) => Promise<ProviderResult>;
+
+const SKIPPED: ProviderResult = { hits: [], credits: 0, skipped: true };
+
+/** LeadMagic employee-finder bills 0.05 credits per employee returned */
+const LEADMAGIC_EMPLOYEE_CREDITS = 0.05;
+const DM_TITLE_PATTERN = /owner|founder|director|ceo|manager|administrator|partner|president|chief|vp|head/i;
+
+const PROVIDER_SOURCE: Record<EnrichmentProvider, DataSource> = {
+  apollo: 'apollo',
+  npi: 'npi',
+  clearbit: 'clearbit',
+  exa: 'website_scrape',
+  gemini: 'website_scrape',
+  leadmagic: 'website_scrape',
+  pattern: 'website_scrape',
+  revenuebase: 'website_scrape',
+};
+
+function splitName(name: string): { first: string; last: string; rest: string } {
+  const parts = name.replace(/^dr\.?\s+/i, '').trim().split(/\s+/).filter(Boolean);
+  return { first: parts[0] || '', last: parts.length > 1 ? parts[parts.length - 1] : '', rest: parts.slice(1).join(' ') };
+}
+
+const dmHit = (dm: DecisionMaker): ProviderHit => ({
+  id: dm.id,
+  name: `${dm.firstName} ${dm.lastName}`.trim() || undefined,
+  title: dm.title || undefined,
+  email: dm.email,
+  phone: dm.phone,
+  linkedInUrl: dm.linkedInUrl,
+  confidence: dm.confidence,
+  emailStatus: dm.email ? dm.emailVerificationStatus : undefined,
+});
+
+const candidateHit = (c: EmailCandidate): ProviderHit => ({
+  name: c.personName,
+  title: c.personTitle,
+  email: c.email,
+  confidence: c.confidence,
+  emailStatus: c.verificationStatus,
+});
+
+/** People with a full name still lacking a usable personal address */
+const needsEmail = (people: WaterfallPerson[]) => people.filter(p =>
+  p.name && splitName(p.name.value).last
+  && (!p.email || isGenericEmail(p.email.value) || p.emailStatus === 'invalid'));
+
+async function leadMagicHit(clinic: Clinic, domain: string, name: string, title?: string): Promise<ProviderHit | null> {
+  const { first, last } = splitName(name);
+  if (!first || !last) return null;
+  const found = await emailIntelService.leadMagicEmailFinder(first, last, domain, clinic.name);
+  if (!found) return null;
+  return {
+    name,
+    title,
+    email: found.email,
+    confidence: found.status === 'valid' ? 95 : found.status === 'valid_catch_all' ? 75 : 60,
+    emailStatus: found.status === 'valid' ? 'valid' : found.status === 'invalid' ? 'invalid' : 'risky',
+  };
+}
+
+const ADAPTERS: Record<EnrichmentProvider, Adapter> = {
+  apollo: async ({ clinic }) => {
+    if (!enrichmentService.hasApollo) return SKIPPED;
+    const dms = await enrichmentService.searchApollo(clinic);
+    return { hits: dms.map(dmHit), credits: 1 };
+  },
+
+  npi: async ({ clinic }) => {
+    let dms = await enrichmentService.searchNPI(clinic);
+    if (!dms.length && clinic.address?.city) dms = await enrichmentService.searchNPIBroad(clinic);
+    return { hits: dms.map(dmHit), credits: 0 };
+  },
+
+  // Reverse lookup by email — fills the name and title behind an address
+  clearbit: async ({ people }) => {
+    if (!enrichmentService.hasClearbit) return SKIPPED;
+    const targets = people
+      .filter(p => p.email && !isGenericEmail(p.email.value) && (!p.name || !p.title))
+      .slice(0, 3);
+    if (!targets.length) return SKIPPED;
+    const hits: ProviderHit[] = [];
+    for (const p of targets) {
+      const extra = await enrichmentService.enrichWithClearbit(p.email!.value);
+      if (!extra) continue;
+      hits.push({
+        name: `${extra.firstName || ''} ${extra.lastName || ''}`.trim() || undefined,
+        title: extra.title,
+        email: p.email!.value,
+        linkedInUrl: extra.linkedInUrl,
+        confidence: extra.title ? 90 : 80,
+      });
+    }
+    return { hits, credits: targets.length };
+  },
+
+  exa: async ctx => {
+    if (!emailIntelService.hasExa) return SKIPPED;
+    const found = await emailIntelService.searchPeopleWithExa(ctx.clinic);
+    ctx.exaContent = found.content;
+    return {
+      hits: [
+        ...found.people.map(p => ({ name: p.name, title: p.title, confidence: p.source === 'linkedin' ? 70 : 65 })),
+        ...found.emails.map(candidateHit),
+      ],
+      credits: found.queries,
+    };
+  },
+
+  gemini: async ctx => {
+    if (!vertexAI.isConfigured && !bedrockService.isConfigured) return SKIPPED;
+    const known = ctx.people
+      .filter(p => p.name)
+      .map(p => ({ name: p.name!.value, title: p.title?.value || '', source: p.name!.provider }));
+    const found = await emailIntelService.extractPeopleWithGemini(ctx.clinic, ctx.exaContent, known);
+    return {
+      hits: [
+        ...found.people.map(p => ({ name: p.name, title: p.title, confidence: ctx.exaContent ? 60 : 35 })),
+        // Address patterns are the pattern provider's job, verified one by one
+        ...found.emails.filter(e => e.source === 'gemini_extract').map(candidateHit),
+      ],
+      credits: 1,
+    };
+  },
+
+  leadmagic: async ({ clinic, people }) => {
+    const domain = clinic.website ? extractDomain(clinic.website) : null;
+    if (!emailIntelService.hasLeadMagic || !domain) return SKIPPED;
+    const hits: ProviderHit[] = [];
+    let credits = 0;
+
+    let targets = needsEmail(people).slice(0, 3).map(p => ({ name: p.name!.value, title: p.title?.value }));
+    if (!targets.length) {
+      // Nobody to look up yet — discover the clinic's decision makers first
+      const employees = await emailIntelService.leadMagicEmployeeFinder(domain, clinic.name);
+      credits += employees.length * LEADMAGIC_EMPLOYEE_CREDITS;
+      const dms = employees.filter(e => DM_TITLE_PATTERN.test(e.title || ''));
+      targets = (dms.length ? dms : employees).slice(0, 3).map(e => ({ name: e.name, title: e.title || 'Staff' }));
+      hits.push(...targets.map(t => ({ name: t.name, title: t.title, confidence: 60 })));
+    }
+
+    for (const t of targets) {
+      const hit = await leadMagicHit(clinic, domain, t.name, t.title);
+      if (!hit) continue;
+      credits += 1;
+      hits.push(hit);
+    }
+    return { hits, credits };
+  },
+
+  // Guess addresses from names, verifying each guess until one is deliverable
+  pattern: async ({ clinic, config, people, verify }) => {
+    const domain = clinic.website ? extractDomain(clinic.website) : null;
+    if (!domain) return SKIPPED;
+    const canVerify = config.verifyEmails && emailIntelService.hasRevenueBase;
+    const hits: ProviderHit[] = [];
+
+    for (const p of needsEmail(people).slice(0, 2)) {
+      const { first, last } = splitName(p.name!.value);
+      const guesses = generatePersonalEmails(first, last, domain);
+      if (!canVerify) {
+        if (guesses[0]) hits.push({ name: p.name!.value, email: guesses[0].email, confidence: guesses[0].confidence });
+        continue;
+      }
+      let fallback: ProviderHit | null = null;
+      for (const guess of guesses.slice(0, 4)) {
+        const status = await verify(guess.email);
+        if (status === 'invalid') continue;
+        const hit = { name: p.name!.value, email: guess.email, confidence: guess.confidence, emailStatus: status };
+        if (status === 'valid') { fallback = hit; break; }
+        fallback = fallback || hit;
+      }
+      if (fallback) hits.push(fallback);
+    }
+
+    // Shared inboxes as a last resort — they never satisfy the email field
+    hits.push(
+      { email: `info@${domain}`, title: 'General', confidence: 25 },
+      { email: `contact@${domain}`, title: 'General', confidence: 20 },
+    );
+    return { hits, credits: 0 };
+  },
+
+  // Verification only — runs through RunContext.verify, never as a waterfall step
+  revenuebase: async () => SKIPPED,
+};
+
+let configSource: (() => WaterfallConfig) | null = null;
+let ledgerListener: ((entries: EnrichmentLedgerEntry[]) => void) | null = null;
+
+export class EnrichmentWaterfallService {
+  /** The store registers the configured waterfall once it exists */
+  setConfigSource(next: (() => WaterfallConfig) | null) {
+    configSource = next;
+  }
+
+  /** The store subscribes so every run's ledger rows get persisted */
+  setLedgerListener(next: ((entries: EnrichmentLedgerEntry[]) => void) | null) {
+    ledgerListener = next;
+  }
+
+  get config(): WaterfallConfig {
+    return configSource ? configSource() : DEFAULT_WATERFALL_CONFIG;
+  }
+
+  async run(clinic: Clinic, opts: WaterfallOptions = {}): Promise<WaterfallResult> {
+    const config = this.config;
+    const runId = `ewr-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    let ledger: EnrichmentLedgerEntry[] = [];
+    const record = (provider: EnrichmentProvider, field: EnrichmentField | 'verify', patch: Partial<EnrichmentLedgerEntry>) => {
+      const credits = patch.credits || 0;
+      ledger.push({
+        id: `el-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        runId,
+        clinicId: clinic.id,
+        provider,
+        field,
+        credits,
+        costUsd: ledgerCost(config, provider, credits),
+        hit: false,
+        filled: [],
+        emailsFound: 0,
+        verifiedEmails: 0,
+        createdAt: new Date(),
+        ...patch,
+      });
+    };
+
+    const checked = new Map<string, EmailStatus>();
+    const ctx: RunContext = {
+      clinic,
+      config,
+      people: [],
+      exaContent: '',
+      verify: async email => {
+        const addr = email.toLowerCase();
+        const known = checked.get(addr);
+        if (known) return known;
+        const result = await emailVerificationService.verify(addr);
+        const status = result?.verification.status || 'unknown';
+        checked.set(addr, status);
+        // A cached result cost nothing this run
+        if (result && !result.cached) {
+          record('revenuebase', 'verify', { credits: 1, hit: status !== 'unknown', verifiedEmails: status === 'valid' ? 1 : 0 });
+        }
+        ctx.people = applyEmailStatus(ctx.people, addr, status);
+        return status;
+      },
+    };
+
+    const tried = new Set<EnrichmentProvider>(
+      opts.providers ? ENRICHMENT_PROVIDERS.filter(p => !opts.providers!.includes(p)) : [],
+    );
+
+    for (let step = nextProvider(config, ctx.people, tried); step; step = nextProvider(config, ctx.people, tried)) {
+      const { provider, field } = step;
+      tried.add(provider);
+
+      let result: ProviderResult;
+      try {
+        result = await ADAPTERS[provider](ctx);
+      } catch (err: any) {
+        console.warn(`[Waterfall] ${provider} failed for ${clinic.name}:`, err);
+        record(provider, field, { error: String(err?.message || err) });
+        continue;
+      }
+      if (result.skipped) continue;
+
+      const hits = opts.skipEmail
+        ? result.hits.map(h => (h.email && opts.skipEmail!(h.email.toLowerCase()) ? { ...h, email: undefined, emailStatus: undefined } : h))
+        : result.hits;
+      const merged = mergeHits(ctx.people, provider, hits);
+      ctx.people = merged.people;
+      record(provider, field, {
+        credits: result.credits,
+        hit: merged.filled.length > 0,
+        filled: merged.filled,
+        emailsFound: hits.filter(h => h.email && !isGenericEmail(h.email)).length,
+      });
+
+      if (config.verifyEmails && emailIntelService.hasRevenueBase) {
+        const unverified = rankPeople(ctx.people)
+          .filter(p => p.email && !isGenericEmail(p.email.value) && (!p.emailStatus || p.emailStatus === 'unknown'))
+          .filter(p => !checked.has(p.email!.value))
+          .slice(0, 3);
+        for (const p of unverified) await ctx.verify(p.email!.value);
+      }
+    }
+
+    const people = rankPeople(ctx.people);
+    ledger = creditVerifiedEmails(ledger, people);
+    if (ledger.length && ledgerListener) ledgerListener(ledger);
+
+    return { people, decisionMakers: this.toDecisionMakers(clinic, people), ledger };
+  }
+
+  async findDecisionMakers(clinic: Clinic, opts: WaterfallOptions = {}): Promise<DecisionMaker[]> {
+    return (await this.run(clinic, opts)).decisionMakers;
+  }
+
+  private toDecisionMakers(clinic: Clinic, people: WaterfallPerson[]): DecisionMaker[] {
+    const now = new Date();
+    const dms: DecisionMaker[] = people
+      .filter(p => p.name || (p.email && !isGenericEmail(p.email.value)))
+      .map((p, i) => {
+        const { first, rest } = splitName(p.name?.value || '');
+        const title = p.title?.value || '';
+        const email = p.email && !isGenericEmail(p.email.value) ? p.email : undefined;
+        const status = email ? p.emailStatus || 'unknown' : undefined;
+        return {
+          id: p.id || `wf-${clinic.id}-${now.getTime()}-${i}`,
+          clinicId: clinic.id,
+          firstName: first || 'Unknown',
+          lastName: rest || (first ? '' : 'Contact'),
+          title,
+          role: enrichmentService.inferRole(title),
+          email: email?.value,
+          phone: p.phone?.value,
+          linkedInUrl: p.linkedInUrl,
+          confidence: email?.confidence ?? p.name?.confidence ?? 0,
+          enrichedAt: now,
+          source: PROVIDER_SOURCE[(email || p.name || p.phone)!.provider],
+          emailVerified: status === 'valid',
+          emailVerificationStatus: status,
+        };
+      });
+
+    // Last resort: the front desk, so the CRM always has someone to call
+    if (!dms.some(d => d.email || d.phone) && clinic.phone) {
+      dms.push({
+        id: `phone-${clinic.id}-${now.getTime()}`,
+        clinicId: clinic.id,
+        firstName: 'Front',
+        lastName: 'Desk',
+        title: 'Clinic Front Desk — call to reach decision maker',
+        role: 'clinic_manager',
+        email: undefined,
+        phone: clinic.phone,
+        linkedInUrl: undefined,
+        confidence: 20,
+        enrichedAt: now,
+        source: 'manual',
+      });
+    }
+    return dms;
+  }
+}
+
+export const enrichmentWaterfallService = new EnrichmentWaterfallService();
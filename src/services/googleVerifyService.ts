@@ -1,6 +1,8 @@
 import axios from 'axios';
 import type { Clinic } from '../types';
 import { isSupabaseConfigured, supabase } from '../lib/supabase';
+import { buildVerification } from '../utils/emailVerification';
+import { emailVerificationService } from './emailVerificationService';
 
 export type GoogleVerifyStatus = 'Verified' | 'Mismatch' | 'Not Found';
 
@@ -80,7 +82,19 @@ export class GoogleVerifyService {
     };
   }
 
+  /** SMTP check of one address — answered from the shared verification cache while a result is fresh */
   async verifyEmail(email: string): Promise<VerifyEmailResult> {
+    const cached = emailVerificationService.fresh(email);
+    if (cached) {
+      const status = cached.status === 'risky' ? 'unknown' : cached.status;
+      return { status, verified: status !== 'unknown', reason: `Cached ${cached.provider} result from ${cached.checkedAt.toLocaleDateString()}` };
+    }
+    const result = await this.requestVerifyEmail(email);
+    emailVerificationService.record([buildVerification(email, result.status, 'google_verify')]);
+    return result;
+  }
+
+  private async requestVerifyEmail(email: string): Promise<VerifyEmailResult> {
     if (isSupabaseConfigured && supabase) {
       const { data, error } = await supabase.functions.invoke('google-verify', {
         body: { action: 'verify_email', email },
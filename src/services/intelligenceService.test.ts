@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { classifyReplyHeuristic, getReplyTransition, stripQuotedReply } from './intelligenceService';
+import type { CRMContact } from '../types';
+
+const FOOTER = '--\nUnsubscribe: https://example.functions.supabase.co/unsubscribe?t=abc';
+
+const gmailReply = [
+  'Sounds good — can you send pricing for two locations?',
+  '',
+  'On Mon, May 4, 2026 at 9:02 AM Jamie Rivera <jamie@novalyte.io>',
+  'wrote:',
+  '> Hi Dr. Lee,',
+  '> We help men\'s health clinics fill their calendars.',
+  '>',
+  `> ${FOOTER.replace('\n', '\n> ')}`,
+].join('\n');
+
+const outlookReply = [
+  'Please take me off your list.',
+  '',
+  '________________________________',
+  'From: Jamie Rivera <jamie@novalyte.io>',
+  'Sent: Monday, May 4, 2026 9:02 AM',
+  'To: Dr. Lee <lee@clinic.com>',
+  'Subject: Growth for Lee Clinic',
+].join('\n');
+
+describe('stripQuotedReply', () => {
+  it('cuts Gmail and Outlook quoted history, wrapped or not', () => {
+    expect(stripQuotedReply(gmailReply)).toBe('Sounds good — can you send pricing for two locations?');
+    expect(stripQuotedReply(outlookReply)).toBe('Please take me off your list.');
+    expect(stripQuotedReply('Yes.\n-----Original Message-----\nFrom: a@b.com')).toBe('Yes.');
+  });
+
+  it('works on the whitespace-collapsed snippet inbound-email stores', () => {
+    const snippet = gmailReply.replace(/\s+/g, ' ');
+    expect(stripQuotedReply(snippet)).toBe('Sounds good — can you send pricing for two locations?');
+    expect(stripQuotedReply('Call me Tuesday. Sent from my iPhone')).toBe('Call me Tuesday.');
+  });
+
+  it('drops signatures, our footers and stray quoted lines', () => {
+    expect(stripQuotedReply('Interested.\n--\nDr. Lee\nLee Clinic')).toBe('Interested.');
+    expect(stripQuotedReply(`Interested.\n\n${FOOTER}`)).toBe('Interested.');
+    expect(stripQuotedReply('Interested. Don\'t want to hear from us? Reply "unsubscribe"')).toBe('Interested.');
+    expect(stripQuotedReply('> quoted\nMy answer\n> more quoted')).toBe('My answer');
+    expect(stripQuotedReply('No quote here')).toBe('No quote here');
+  });
+});
+
+describe('classifyReplyHeuristic', () => {
+  it('reads an interested reply that quotes the unsubscribe footer as interested', () => {
+    const reply = classifyReplyHeuristic('Re: Growth for Lee Clinic', gmailReply);
+    expect(reply.category).toBe('interested');
+    expect(reply.summary).toBe('Sounds good — can you send pricing for two locations?');
+    expect(classifyReplyHeuristic('Re: Growth', gmailReply.replace(/\s+/g, ' ')).category).toBe('interested');
+  });
+
+  it('still catches an unsubscribe written above the quote', () => {
+    expect(classifyReplyHeuristic('Re: Growth for Lee Clinic', outlookReply)).toMatchObject({ category: 'unsubscribe', confidence: 80 });
+  });
+
+  it('takes referral addresses from the reply, never from a quoted From: line', () => {
+    const quotedOnly = `Please forward the details, thanks.\n\n${outlookReply.split('\n').slice(2).join('\n')}`;
+    expect(classifyReplyHeuristic('Re: Growth', quotedOnly).referredEmail).toBeUndefined();
+
+    const referral = classifyReplyHeuristic('Re: Growth', `Please reach out to sam@leeclinic.com, she runs marketing.\n\n${outlookReply.split('\n').slice(2).join('\n')}`);
+    expect(referral).toMatchObject({ category: 'referral', referredEmail: 'sam@leeclinic.com' });
+  });
+
+  it('recognises out-of-office and not-now replies', () => {
+    expect(classifyReplyHeuristic('Automatic reply: Growth', 'I am out of the office until May 12.').category).toBe('out_of_office');
+    expect(classifyReplyHeuristic('Re: Growth', 'Not right now — maybe next quarter.').category).toBe('not_now');
+  });
+});
+
+describe('getReplyTransition', () => {
+  const contact = { id: 'c1', status: 'contacted', tags: ['lead'] } as unknown as CRMContact;
+  const now = new Date('2026-05-04T12:00:00Z');
+
+  it('suppresses on unsubscribe and schedules a follow-up on not-now', () => {
+    expect(getReplyTransition(contact, classifyReplyHeuristic('', 'Remove me'), now)).toMatchObject({
+      status: 'not_interested', suppress: true, tags: ['lead', 'account', 'unsubscribed'],
+    });
+    const later = getReplyTransition(contact, classifyReplyHeuristic('', 'Check back next year'), now);
+    expect(later).toMatchObject({ status: 'follow_up', suppress: false });
+    expect(later.nextFollowUp!.getTime() - now.getTime()).toBe(60 * 86400000);
+  });
+
+  it('keeps closed-out statuses for anything but an opt-out', () => {
+    const qualified = { ...contact, status: 'qualified' } as CRMContact;
+    expect(getReplyTransition(qualified, classifyReplyHeuristic('', 'Sounds great'), now).status).toBe('qualified');
+    expect(getReplyTransition(qualified, classifyReplyHeuristic('', 'Unsubscribe'), now).status).toBe('not_interested');
+  });
+});
@@ -8,14 +8,19 @@
  * 
  * #1 AI Email Personalization
  * #2 Smart Sequencing
+ * #3 Reply Classification
  * #5 Competitor Intelligence
  * #7 Revenue Forecasting
  * #8 Multi-Touch Attribution
  */
 import { vertexAI } from './vertexAI';
 import { bedrockService, MODELS } from './bedrockService';
-import { CRMContact } from '../types';
+import { CRMContact, ContactStatus } from '../types';
 import { SentEmail } from './resendService';
+import {
+  ReplyCategory, SequenceDefinition, SequenceEmailKind, SequenceEnrollment, SequenceStepDefinition,
+  evaluateEnrollment, getDueSteps,
+} from './sequenceEngine';
 
 /* ═══════════════════════════════════════════════════════════════
    #1 — AI EMAIL PERSONALIZATION (Gemini writes unique emails)
@@ -31,7 +36,7 @@ export interface AIGeneratedEmail {
 
 export async function generatePersonalizedEmail(
   contact: CRMContact,
-  sequenceStep: 'intro' | 'follow_up' | 'breakup',
+  sequenceStep: SequenceEmailKind,
   previousEmails?: SentEmail[],
   userDirection?: string,
 ): Promise<AIGeneratedEmail> {
@@ -62,10 +67,12 @@ ${userDirection ? `\nUSER DIRECTION (follow this approach closely): ${userDirect
 RULES:
 - ${sequenceStep === 'intro' ? 'First touch — lead with a specific data point about their market or services. Be curious, not salesy.' : ''}
 - ${sequenceStep === 'follow_up' ? 'Second touch — reference the first email briefly, add new value (case study stat, market insight). Shorter than intro.' : ''}
+- ${sequenceStep === 'value_add' ? 'Value-add touch — no ask beyond a reply; share one concrete insight (case study stat or local market data) they can use today.' : ''}
 - ${sequenceStep === 'breakup' ? 'Final touch — graceful close, leave the door open, very short (3-4 sentences max).' : ''}
+- ${sequenceStep === 'voicemail_follow_up' ? 'Sent a couple of hours after our voice agent left them a voicemail today — open by referencing that voicemail, restate the one-line reason for calling, and offer an easy reply instead of a call back.' : ''}
 - Write like a real human, not a template. No corporate jargon.
 - Mention something specific about their clinic (services, rating, location).
-- Keep it under 150 words for intro/follow-up, under 80 for breakup.
+- Keep it under 150 words for intro/follow-up/value-add, under 80 for breakup and voicemail follow-up.
 - Sign off as "Jamil" from Novalyte.
 - Subject line must be compelling and under 60 chars. No emojis in subject.
 
@@ -138,148 +145,257 @@ function escHtml(s: string): string {
 
 /* ═══════════════════════════════════════════════════════════════
    #2 — SMART SEQUENCING ENGINE
-   Day 1: Intro → Day 3: Follow-up (if no open) → Day 7: Breakup
+   Sequences are data (see sequenceEngine.ts) — this wires the
+   engine to live CRM + outreach state.
    ═══════════════════════════════════════════════════════════════ */
 
-export type SequenceStep = 'intro' | 'follow_up' | 'phone_call' | 'value_add' | 'breakup' | 'completed' | 'replied' | 'opted_out';
-
-export interface ContactSequence {
-  contactId: string;
-  currentStep: SequenceStep;
-  introSentAt?: Date;
-  followUpSentAt?: Date;
-  breakupSentAt?: Date;
-  lastEventReceived?: string; // 'opened', 'clicked', 'bounced', etc.
-  pausedUntil?: Date;
-  completedAt?: Date;
+export interface SequenceQueueItem {
+  contact: CRMContact;
+  enrollment: SequenceEnrollment;
+  sequence: SequenceDefinition;
+  step: SequenceStepDefinition;
 }
 
-const SEQUENCE_DELAYS = {
-  intro_to_follow_up: 3, // days
-  follow_up_to_breakup: 4, // days (total day 7)
-};
-
+/** Re-evaluate one enrollment (exit conditions + branches) against current CRM state */
 export function computeSequenceState(
-  contactId: string,
+  enrollment: SequenceEnrollment,
+  sequences: SequenceDefinition[],
+  contacts: CRMContact[],
   sentEmails: SentEmail[],
-): ContactSequence {
-  const emails = sentEmails
-    .filter(e => e.contactId === contactId)
-    .sort((a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime());
+  now = new Date(),
+): SequenceEnrollment {
+  const sequence = sequences.find(s => s.id === enrollment.sequenceId);
+  if (!sequence) return enrollment;
+  const contact = contacts.find(c => c.id === enrollment.contactId);
+  return evaluateEnrollment(enrollment, sequence, { contact, sentEmails, now });
+}
 
-  if (emails.length === 0) {
-    return { contactId, currentStep: 'intro' };
-  }
+/** Get every enrollment whose current step is due, after re-evaluating it */
+export function getSequenceQueue(
+  contacts: CRMContact[],
+  sentEmails: SentEmail[],
+  sequences: SequenceDefinition[],
+  enrollments: SequenceEnrollment[],
+  now = new Date(),
+): SequenceQueueItem[] {
+  const contactById = new Map(contacts.map(c => [c.id, c]));
+  const evaluated = enrollments.map(e => computeSequenceState(e, sequences, contacts, sentEmails, now));
+  return getDueSteps(evaluated, sequences, now)
+    .map(d => ({ ...d, contact: contactById.get(d.enrollment.contactId)! }))
+    .filter(d => d.contact);
+}
 
-  const intro = emails[0];
-  const followUp = emails.length > 1 ? emails[1] : undefined;
-  const breakup = emails.length > 2 ? emails[2] : undefined;
-
-  // Check if any email was opened/clicked — sequence success
-  const anyOpened = emails.some(e => e.lastEvent === 'opened' || e.lastEvent === 'clicked');
-  const anyBounced = emails.some(e => e.lastEvent === 'bounced');
-
-  if (anyBounced) {
-    return {
-      contactId, currentStep: 'opted_out',
-      introSentAt: new Date(intro.sentAt),
-      lastEventReceived: 'bounced',
-      completedAt: new Date(),
-    };
-  }
 
-  if (anyOpened) {
-    return {
-      contactId,
-      currentStep: 'replied', // treat opens as engagement — manual follow-up
-      introSentAt: new Date(intro.sentAt),
-      followUpSentAt: followUp ? new Date(followUp.sentAt) : undefined,
-      breakupSentAt: breakup ? new Date(breakup.sentAt) : undefined,
-      lastEventReceived: 'opened',
-    };
-  }
+/* ═══════════════════════════════════════════════════════════════
+   #3 — REPLY CLASSIFICATION (Claude Haiku + Gemini fallback)
+   Inbound replies → interested / not now / unsubscribe /
+   out-of-office / wrong person / referral. Each class maps to a
+   contact + sequence transition.
+   ═══════════════════════════════════════════════════════════════ */
 
-  if (breakup) {
-    return {
-      contactId, currentStep: 'completed',
-      introSentAt: new Date(intro.sentAt),
-      followUpSentAt: followUp ? new Date(followUp.sentAt) : undefined,
-      breakupSentAt: new Date(breakup.sentAt),
-      completedAt: new Date(breakup.sentAt),
-    };
-  }
+export interface ReplyClassification {
+  category: ReplyCategory;
+  confidence: number;       // 0-100
+  returnDate?: Date;        // out_of_office / not_now, when stated
+  referredName?: string;    // referral
+  referredEmail?: string;   // referral
+  summary: string;
+  model: string;
+}
 
-  if (followUp) {
-    // Check if it's time for breakup
-    const daysSinceFollowUp = daysBetween(new Date(followUp.sentAt), new Date());
-    if (daysSinceFollowUp >= SEQUENCE_DELAYS.follow_up_to_breakup) {
-      return {
-        contactId, currentStep: 'breakup',
-        introSentAt: new Date(intro.sentAt),
-        followUpSentAt: new Date(followUp.sentAt),
-      };
-    }
-    return {
-      contactId, currentStep: 'follow_up', // waiting
-      introSentAt: new Date(intro.sentAt),
-      followUpSentAt: new Date(followUp.sentAt),
-      pausedUntil: addDays(new Date(followUp.sentAt), SEQUENCE_DELAYS.follow_up_to_breakup),
-    };
-  }
+const REPLY_CATEGORIES: ReplyCategory[] = ['interested', 'not_now', 'unsubscribe', 'out_of_office', 'wrong_person', 'referral'];
+
+/**
+ * Where quoted history, a signature or our own footer starts. The snippet
+ * inbound-email stores has its whitespace collapsed, so these match inside a
+ * line as well as at its start.
+ */
+const QUOTE_STARTS = [
+  /\bOn\s[\s\S]{0,200}?\bwrote:/,                          // Gmail / Apple Mail, possibly wrapped
+  /-{2,}\s*(Original Message|Forwarded message)\s*-{2,}/i,
+  /\bFrom:\s[\s\S]{0,300}?\b(Sent|Date):\s/,              // Outlook header block
+  /_{10,}/,                                               // Outlook separator
+  /^--\s*$/m,                                             // signature delimiter
+  /\bSent from my \w+/i,
+  /Don'?t want to hear from us\?/i,                       // unsubscribe footers (_shared/unsubscribe.ts)
+  /\bUnsubscribe:\s*https?:\/\//i,
+];
 
-  // Only intro sent — check if time for follow-up
-  const daysSinceIntro = daysBetween(new Date(intro.sentAt), new Date());
-  if (daysSinceIntro >= SEQUENCE_DELAYS.intro_to_follow_up) {
-    return {
-      contactId, currentStep: 'follow_up',
-      introSentAt: new Date(intro.sentAt),
-    };
+/**
+ * The part of a reply its sender wrote. Replies quote the original message —
+ * including its unsubscribe footer and From: address — which would otherwise
+ * read as an unsubscribe request or a referral.
+ */
+export function stripQuotedReply(body: string): string {
+  let end = body.length;
+  for (const re of QUOTE_STARTS) {
+    const m = re.exec(body);
+    if (m && m.index < end) end = m.index;
   }
+  return body.slice(0, end)
+    .split('\n')
+    .filter(line => !/^\s*>/.test(line))
+    .join('\n')
+    .trim();
+}
 
-  return {
-    contactId, currentStep: 'intro', // waiting for follow-up window
-    introSentAt: new Date(intro.sentAt),
-    pausedUntil: addDays(new Date(intro.sentAt), SEQUENCE_DELAYS.intro_to_follow_up),
-  };
+/** Keyword rules used when no LLM is configured (or both fail) */
+export function classifyReplyHeuristic(subject: string, rawBody: string): ReplyClassification {
+  const body = stripQuotedReply(rawBody);
+  const text = `${subject}\n${body}`.toLowerCase();
+  const emailMatch = body.match(/[\w.+-]+@[\w-]+\.[\w.-]+/);
+  const base = { confidence: 55, summary: body.replace(/\s+/g, ' ').trim().slice(0, 140), model: 'heuristic' };
+
+  if (/unsubscribe|remove me|take me off|stop emailing|do not (contact|email)|don'?t (contact|email)|opt[ -]?out/.test(text)) {
+    return { ...base, category: 'unsubscribe', confidence: 80 };
+  }
+  if (/out of (the )?office|automatic reply|auto-?reply|on vacation|on leave|away from (the )?office|limited access to email/.test(text)) {
+    return { ...base, category: 'out_of_office', confidence: 75 };
+  }
+  if (/(reach out to|contact|talk to|speak with|cc'?ing|looping in)\b.*\b(our|my|the) (manager|director|owner|partner|colleague|office manager|administrator)/.test(text) || (emailMatch && /reach out|contact|forward/.test(text))) {
+    return { ...base, category: 'referral', referredEmail: emailMatch?.[0] };
+  }
+  if (/no longer (with|at)|wrong person|not the right (person|contact)|left the (company|practice)/.test(text)) {
+    return { ...base, category: 'wrong_person' };
+  }
+  if (/not (right )?now|not at this time|maybe later|next (quarter|year|month)|circle back|check back|not interested right now/.test(text)) {
+    return { ...base, category: 'not_now' };
+  }
+  return { ...base, category: 'interested', confidence: 40 };
 }
 
-/** Get all contacts that need the next email in their sequence */
-export function getSequenceQueue(
-  contacts: CRMContact[],
-  sentEmails: SentEmail[],
-): { contact: CRMContact; step: SequenceStep; sequence: ContactSequence }[] {
-  const queue: { contact: CRMContact; step: SequenceStep; sequence: ContactSequence }[] = [];
+export async function classifyReply(input: {
+  subject?: string;
+  body: string;
+  contact?: CRMContact;
+  now?: Date;
+}): Promise<ReplyClassification> {
+  const subject = input.subject || '';
+  const body = stripQuotedReply(input.body || '');
+  const today = (input.now || new Date()).toISOString().slice(0, 10);
+
+  const prompt = `Classify this inbound reply to a B2B cold outreach email from Novalyte (a men's health clinic growth platform).
+${input.contact ? `The email was sent to ${input.contact.clinic.name}${input.contact.decisionMaker ? ` (${input.contact.decisionMaker.firstName} ${input.contact.decisionMaker.lastName})` : ''}.` : ''}
+Today is ${today}.
+
+SUBJECT: ${subject}
+BODY:
+${body.slice(0, 3000)}
+
+CATEGORIES:
+- interested: wants to talk, asks a question, asks for info or pricing
+- not_now: polite decline for now, asks to follow up later
+- unsubscribe: asks to stop emailing / be removed, or is hostile
+- out_of_office: automatic away / vacation / leave message
+- wrong_person: recipient is not the right contact and gives no alternative
+- referral: points us to a colleague (name and/or email)
 
-  for (const contact of contacts) {
-    const seq = computeSequenceState(contact.id, sentEmails);
+Respond ONLY with valid JSON:
+{
+  "category": "one of the categories above",
+  "confidence": 0-100,
+  "returnDate": "YYYY-MM-DD or null (return date for out_of_office, follow-up date for not_now)",
+  "referredName": "name or null",
+  "referredEmail": "email or null",
+  "summary": "one short sentence"
+}`;
 
-    // Skip completed/replied/opted-out
-    if (seq.currentStep === 'completed' || seq.currentStep === 'replied' || seq.currentStep === 'opted_out') continue;
+  type Raw = { category: string; confidence: number; returnDate?: string | null; referredName?: string | null; referredEmail?: string | null; summary?: string };
+  let raw: Raw | null = null;
+  let usedModel = 'unknown';
 
-    // Skip if paused (waiting for delay)
-    if (seq.pausedUntil && new Date() < new Date(seq.pausedUntil)) continue;
+  // Try Claude Haiku first (fast classification)
+  if (bedrockService.isConfigured) {
+    try {
+      raw = await bedrockService.generateJSON<Raw>({
+        prompt,
+        model: MODELS.CLAUDE_HAIKU,
+        temperature: 0,
+        maxTokens: 256,
+        systemPrompt: 'You classify sales email replies. Always respond with valid JSON only.',
+      });
+      usedModel = 'claude-haiku-3.5';
+    } catch (err) {
+      console.warn('Bedrock Claude failed for reply classification, falling back to Gemini:', err);
+    }
+  }
 
-    // Determine what to send next
-    if (seq.currentStep === 'intro' && !seq.introSentAt) {
-      queue.push({ contact, step: 'intro', sequence: seq });
-    } else if (seq.currentStep === 'follow_up' && !seq.followUpSentAt) {
-      queue.push({ contact, step: 'follow_up', sequence: seq });
-    } else if (seq.currentStep === 'breakup' && !seq.breakupSentAt) {
-      queue.push({ contact, step: 'breakup', sequence: seq });
+  // Fallback to Gemini
+  if (!raw?.category && vertexAI.isConfigured) {
+    try {
+      raw = await vertexAI.generateJSON<Raw>({
+        prompt,
+        model: 'gemini-2.0-flash',
+        temperature: 0,
+        maxOutputTokens: 256,
+      });
+      usedModel = 'gemini-2.0-flash';
+    } catch (err) {
+      console.warn('Gemini failed for reply classification, using keyword rules:', err);
     }
   }
 
-  return queue;
+  if (!raw || !REPLY_CATEGORIES.includes(raw.category as ReplyCategory)) {
+    return classifyReplyHeuristic(subject, body);
+  }
+
+  const returnDate = raw.returnDate ? new Date(raw.returnDate) : undefined;
+  return {
+    category: raw.category as ReplyCategory,
+    confidence: Math.max(0, Math.min(100, Number(raw.confidence) || 0)),
+    returnDate: returnDate && !isNaN(returnDate.getTime()) ? returnDate : undefined,
+    referredName: raw.referredName || undefined,
+    referredEmail: raw.referredEmail || undefined,
+    summary: raw.summary || '',
+    model: usedModel,
+  };
 }
 
-function daysBetween(a: Date, b: Date): number {
-  return Math.floor((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+export interface ReplyTransition {
+  status: ContactStatus;
+  tags: string[];
+  nextFollowUp?: Date;
+  /** Add the contact to the suppression list and stop every channel */
+  suppress: boolean;
 }
 
-function addDays(date: Date, days: number): Date {
-  const d = new Date(date);
-  d.setDate(d.getDate() + days);
-  return d;
+const NOT_NOW_FOLLOW_UP_DAYS = 60;
+
+/** What a classified reply does to the contact's pipeline state */
+export function getReplyTransition(contact: CRMContact, reply: ReplyClassification, now = new Date()): ReplyTransition {
+  const tags = new Set<string>(Array.isArray(contact.tags) ? contact.tags : []);
+  tags.add('account');
+  // Closed-out statuses stick unless the contact opted out
+  const keep = contact.status === 'qualified' || contact.status === 'not_interested';
+  const status = (next: ContactStatus) => keep ? contact.status : next;
+
+  switch (reply.category) {
+    case 'unsubscribe':
+      tags.add('unsubscribed');
+      return { status: 'not_interested', tags: Array.from(tags), suppress: true };
+    case 'out_of_office':
+      tags.add('out-of-office');
+      return { status: contact.status, tags: Array.from(tags), nextFollowUp: reply.returnDate, suppress: false };
+    case 'not_now': {
+      tags.add('replied');
+      tags.add('not-now');
+      const later = new Date(now);
+      later.setDate(later.getDate() + NOT_NOW_FOLLOW_UP_DAYS);
+      return { status: status('follow_up'), tags: Array.from(tags), nextFollowUp: reply.returnDate || later, suppress: false };
+    }
+    case 'wrong_person':
+      tags.add('replied');
+      tags.add('wrong-person');
+      return { status: status('researching'), tags: Array.from(tags), suppress: false };
+    case 'referral':
+      tags.add('replied');
+      tags.add('referral');
+      return { status: status('follow_up'), tags: Array.from(tags), nextFollowUp: now, suppress: false };
+    default:
+      tags.add('replied');
+      tags.add('interested');
+      return { status: status('follow_up'), tags: Array.from(tags), nextFollowUp: now, suppress: false };
+  }
 }
 
 
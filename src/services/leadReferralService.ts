@@ -2,12 +2,11 @@
  * Lead Referral Service
  * Generates and sends clinic referral emails containing the full patient assessment package.
  */
-import axios from 'axios';
+import { isSupabaseConfigured, supabase } from '../lib/supabase';
 import { PatientLead, getTreatmentLabel, getQuestionnaireForLead, NearbyClinic } from './patientLeadService';
+import { suppressionService } from './suppressionService';
 
-const RESEND_BASE = 'https://api.resend.com';
 const FROM_ADDRESS = 'Novalyte <outreach@novalyte.io>';
-const RESEND_KEY = (import.meta as any).env?.VITE_RESEND_API_KEY || '';
 
 function esc(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
@@ -169,32 +168,33 @@ export async function sendReferralEmail(
   clinic: NearbyClinic,
   toEmail: string
 ): Promise<{ success: boolean; error?: string }> {
-  if (!RESEND_KEY) return { success: false, error: 'Resend API key not configured' };
+  // resend-send signs the one-click unsubscribe link and List-Unsubscribe headers
+  if (!isSupabaseConfigured || !supabase) return { success: false, error: 'Supabase is not configured (referrals send through resend-send)' };
+  const suppressed = suppressionService.findForEmail(toEmail);
+  if (suppressed) return { success: false, error: `${toEmail} is suppressed (${suppressed.reason.replace(/_/g, ' ')})` };
 
   const html = generateReferralEmailHTML(lead, clinic);
   const subject = generateReferralSubject(lead);
 
-  try {
-    const { data } = await axios.post(
-      `${RESEND_BASE}/emails`,
-      {
-        from: FROM_ADDRESS,
-        to: [toEmail],
-        subject,
-        html,
-        tags: [
-          { name: 'type', value: 'patient_referral' },
-          { name: 'treatment', value: lead.treatment },
-          { name: 'clinic', value: clinic.name.slice(0, 256) },
-          { name: 'lead_id', value: lead.id },
-        ],
-      },
-      { headers: { Authorization: `Bearer ${RESEND_KEY}`, 'Content-Type': 'application/json' } }
-    );
-    return { success: true };
-  } catch (err: any) {
-    const msg = err?.response?.data?.message || err.message || 'Unknown error';
+  const { data, error } = await supabase.functions.invoke('resend-send', {
+    body: {
+      from: FROM_ADDRESS,
+      to: toEmail,
+      subject,
+      html,
+      clinicName: clinic.name.slice(0, 256),
+      tags: [
+        { name: 'type', value: 'patient_referral' },
+        { name: 'treatment', value: lead.treatment },
+        { name: 'clinic', value: clinic.name.slice(0, 256) },
+        { name: 'lead_id', value: lead.id },
+      ],
+    },
+  });
+  if (error || !data?.id) {
+    const msg = data?.error || error?.message || 'Unknown error';
     console.error('Referral email failed:', msg);
     return { success: false, error: msg };
   }
+  return { success: true };
 }
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { OUTBOX_RETRY_BASE_MS, OutboxEntry, createOutboxEntry } from '../utils/outbox';
+import type { OutboxService } from './outboxService';
+
+// Without IndexedDB the service keeps its queue in memory; the module is
+// reloaded per test so every test starts with an empty queue.
+let outbox: OutboxService;
+let pending: number[];
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.resetModules();
+  ({ outboxService: outbox } = await import('./outboxService'));
+  pending = [];
+  outbox.setListener(n => pending.push(n));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const fields = (id: string, values: Record<string, unknown>) =>
+  createOutboxEntry('updateContactFields', [id, values], `contacts:${id}`);
+
+/** An executor call the test settles by hand */
+function deferred() {
+  let settle!: (ok: boolean) => void;
+  const promise = new Promise<boolean>(resolve => { settle = resolve; });
+  return { promise, settle };
+}
+
+describe('outboxService', () => {
+  it('replays queued writes in order and drops each one Supabase accepted', async () => {
+    await outbox.enqueue(fields('c1', { status: 'called' }));
+    await outbox.enqueue(createOutboxEntry('syncCampaigns', [[{ id: 'k1' }]], 'campaigns'));
+    expect(outbox.pending).toBe(2);
+
+    const seen: string[] = [];
+    await outbox.start(async entry => { seen.push(entry.target); return true; });
+    expect(seen).toEqual(['contacts:c1', 'campaigns']);
+    expect(outbox.pending).toBe(0);
+    expect(pending).toEqual([1, 2, 1, 0]);
+  });
+
+  it('holds back the rest of a failed target for the pass and retries it after the backoff', async () => {
+    await outbox.enqueue(createOutboxEntry('upsertContact', [{ id: 'c1' }], 'contacts:c1'));
+    await outbox.enqueue(createOutboxEntry('syncCampaigns', [[{ id: 'k1' }]], 'campaigns'));
+    await outbox.enqueue(fields('c1', { status: 'called' }));
+
+    const seen: string[] = [];
+    let online = false;
+    await outbox.start(async entry => {
+      seen.push(entry.method);
+      if (!online && entry.target === 'contacts:c1') throw new Error('timeout');
+      return true;
+    });
+    expect(seen).toEqual(['upsertContact', 'syncCampaigns']);
+    expect(outbox.pending).toBe(2);
+
+    // Still backing off — nothing for c1 is attempted, not even the later write
+    await vi.advanceTimersByTimeAsync(OUTBOX_RETRY_BASE_MS / 2);
+    expect(seen).toHaveLength(2);
+
+    online = true;
+    await vi.advanceTimersByTimeAsync(OUTBOX_RETRY_BASE_MS);
+    expect(seen.slice(2)).toEqual(['upsertContact', 'updateContactFields']);
+    expect(outbox.pending).toBe(0);
+  });
+
+  it('lets a write merged in while the earlier one was in flight carry it, even when the first attempt fails', async () => {
+    const calls: OutboxEntry[] = [];
+    const first = deferred();
+    outbox.start(entry => {
+      calls.push(entry);
+      return calls.length === 1 ? first.promise : Promise.resolve(true);
+    });
+
+    const typed = fields('c1', { status: 'called' });
+    await outbox.enqueue(typed);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map(c => c.id)).toEqual([typed.id]);
+
+    // Queued while the first write is in flight: merges into it and takes it over
+    const more = fields('c1', { notes: 'call back Tuesday' });
+    await outbox.enqueue(more);
+    expect(outbox.pending).toBe(1);
+
+    // The failure must not put the replaced entry back next to the merged one
+    first.settle(false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map(c => c.id)).toEqual([typed.id, more.id]);
+    expect(calls[1].args).toEqual(['c1', { status: 'called', notes: 'call back Tuesday' }]);
+    expect(calls[1].attempts).toBe(0);
+    expect(outbox.pending).toBe(0);
+  });
+
+  it('still replays the merged write when the in-flight one lands', async () => {
+    const calls: OutboxEntry[] = [];
+    const first = deferred();
+    outbox.start(entry => {
+      calls.push(entry);
+      return calls.length === 1 ? first.promise : Promise.resolve(true);
+    });
+
+    await outbox.enqueue(fields('c1', { status: 'called' }));
+    await vi.advanceTimersByTimeAsync(0);
+    await outbox.enqueue(fields('c1', { status: 'qualified' }));
+
+    first.settle(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map(c => c.args[1])).toEqual([{ status: 'called' }, { status: 'qualified' }]);
+    expect(outbox.pending).toBe(0);
+  });
+
+  it('discards queued writes the store no longer wants', async () => {
+    await outbox.enqueue(fields('c1', { status: 'called' }));
+    await outbox.enqueue(createOutboxEntry('syncCampaigns', [[{ id: 'k1' }]], 'campaigns'));
+    await outbox.discard(e => e.target.startsWith('contacts:'));
+    expect(outbox.pending).toBe(1);
+
+    const seen: string[] = [];
+    await outbox.start(async entry => { seen.push(entry.target); return true; });
+    expect(seen).toEqual(['campaigns']);
+  });
+});
@@ -0,0 +1,198 @@
+import { OutboxEntry, dueOutboxEntries, enqueueOutbox, failOutboxEntry } from '../utils/outbox';
+
+/**
+ * Durable side of the outbox (see utils/outbox): entries live in IndexedDB so
+ * they survive reloads and outages. The store queues its writes here and, once
+ * Supabase is connected, starts replay with the function that performs an
+ * entry. Replay runs after every enqueue, when a backoff expires and whenever
+ * the browser comes back online. Without IndexedDB (private mode, tests) the
+ * queue is kept in memory only.
+ */
+
+const DB_NAME = 'novalyte-outbox';
+const STORE = 'mutations';
+/** Another tab replaying the same outbox waits for this one */
+const FLUSH_LOCK = 'novalyte-outbox-flush';
+
+export type OutboxExecutor = (entry: OutboxEntry) => Promise<boolean>;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let memoryQueue: OutboxEntry[] = [];
+/** Serialises queue reads/writes within this tab */
+let chain: Promise<unknown> = Promise.resolve();
+let executor: OutboxExecutor | null = null;
+let listener: ((pending: number) => void) | null = null;
+let pendingCount = 0;
+let flushing = false;
+let flushAgain = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let listeningOnline = false;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('seq', 'seq');
+        store.createIndex('target', 'target');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.warn('Outbox: IndexedDB unavailable, queueing in memory', req.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+const done = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+async function readQueue(): Promise<OutboxEntry[]> {
+  const db = await openDb();
+  if (!db) return [...memoryQueue];
+  const req = db.transaction(STORE, 'readonly').objectStore(STORE).index('seq').getAll();
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as OutboxEntry[]);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function writeQueue(put: OutboxEntry[], remove: string[]): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    const gone = new Set([...remove, ...put.map(e => e.id)]);
+    memoryQueue = [...memoryQueue.filter(e => !gone.has(e.id)), ...put].sort((a, b) => a.seq - b.seq);
+    return;
+  }
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  for (const id of remove) store.delete(id);
+  for (const entry of put) store.put(entry);
+  await done(tx);
+}
+
+/** Run a queue operation after the ones before it, then publish the new count */
+function serial<T>(op: () => Promise<T>): Promise<T> {
+  const run = chain.then(op).finally(async () => {
+    const queue = await readQueue().catch(() => null);
+    if (queue && queue.length !== pendingCount) {
+      pendingCount = queue.length;
+      listener?.(pendingCount);
+    }
+  });
+  chain = run.catch(() => undefined);
+  return run;
+}
+
+export class OutboxService {
+  /** The store shows the number of unsynced writes */
+  setListener(next: ((pending: number) => void) | null) {
+    listener = next;
+    if (next) serial(async () => undefined).catch(() => undefined);
+  }
+
+  get pending() {
+    return pendingCount;
+  }
+
+  enqueue(entry: OutboxEntry): Promise<void> {
+    return serial(async () => {
+      const { queue, replaced } = enqueueOutbox(await readQueue(), entry);
+      await writeQueue([queue[queue.length - 1]], replaced ? [replaced] : []);
+    })
+      .catch(err => console.warn('Outbox enqueue failed:', err))
+      .then(() => this.scheduleFlush(0));
+  }
+
+  /** Drop queued writes the store no longer wants (cleared collections, factory reset) */
+  discard(match: (entry: OutboxEntry) => boolean): Promise<void> {
+    return serial(async () => {
+      const ids = (await readQueue()).filter(match).map(e => e.id);
+      if (ids.length) await writeQueue([], ids);
+    }).catch(err => console.warn('Outbox discard failed:', err));
+  }
+
+  /** Begin replaying with `run` — called once Supabase is connected */
+  start(run: OutboxExecutor) {
+    executor = run;
+    if (typeof window !== 'undefined' && !listeningOnline) {
+      listeningOnline = true;
+      window.addEventListener('online', () => this.flush());
+    }
+    return this.flush();
+  }
+
+  /** Replay every due entry; resolves when this pass is finished */
+  async flush(): Promise<void> {
+    if (!executor) return;
+    if (flushing) {
+      flushAgain = true;
+      return;
+    }
+    flushing = true;
+    try {
+      const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+      if (locks) await locks.request(FLUSH_LOCK, () => this.replay());
+      else await this.replay();
+    } catch (err) {
+      console.warn('Outbox replay failed:', err);
+    } finally {
+      flushing = false;
+    }
+    if (flushAgain) {
+      flushAgain = false;
+      return this.flush();
+    }
+    await this.scheduleRetry();
+  }
+
+  private async replay() {
+    const queue = await readQueue();
+    const held = new Set<string>();
+    for (const entry of dueOutboxEntries(queue)) {
+      if (held.has(entry.target) || !executor) continue;
+      let ok = false;
+      let error = 'rejected';
+      try {
+        ok = await executor(entry);
+      } catch (err: any) {
+        error = err?.message || String(err);
+      }
+      if (ok) {
+        await serial(() => writeQueue([], [entry.id]));
+        continue;
+      }
+      held.add(entry.target);
+      await serial(async () => {
+        // Merged into a newer entry while in flight — that one carries the write now
+        if (!(await readQueue()).some(e => e.id === entry.id)) return;
+        await writeQueue([failOutboxEntry(entry, error)], []);
+      });
+    }
+  }
+
+  private scheduleFlush(delay: number) {
+    if (!executor) return;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /** Wake up when the earliest backoff expires */
+  private async scheduleRetry() {
+    const now = Date.now();
+    const waits = (await readQueue().catch(() => [])).map(e => new Date(e.nextAttemptAt).getTime()).filter(t => t > now);
+    if (waits.length) this.scheduleFlush(Math.min(...waits) - now);
+  }
+}
+
+export const outboxService = new OutboxService();
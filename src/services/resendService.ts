@@ -1,6 +1,12 @@
 import axios from 'axios';
 import { CRMContact } from '../types';
 import { isSupabaseConfigured, supabase } from '../lib/supabase';
+import { suppressionService } from './suppressionService';
+import { EmailTemplate, SenderProfile, formatFromAddress, renderForSend } from '../utils/emailTemplates';
+import { ExperimentAssignment, experimentTags } from '../utils/experiments';
+import { senderPoolService } from './senderPoolService';
+import { displayNameOf } from '../utils/senderPool';
+import type { BounceType } from '../utils/bounces';
 
 /* ─── Types ─── */
 
@@ -19,94 +25,50 @@ export interface SentEmail {
   lastEventAt: Date;
   openCount: number;
   clickCount: number;
-  sequenceStep?: 'intro' | 'follow_up' | 'breakup';
+  sequenceStep?: 'intro' | 'follow_up' | 'value_add' | 'breakup' | 'voicemail_follow_up';
+  /** Sequence enrollment + step that produced this email (see sequenceEngine) */
+  sequenceEnrollmentId?: string;
+  sequenceStepId?: string;
   aiGenerated?: boolean;
   /** Provider that sent the message. Default is 'resend'. */
   provider?: 'resend' | 'smtp';
+  campaignId?: string;
+  /** A/B experiment + variant this email was drawn from (see utils/experiments) */
+  experimentId?: string;
+  variantId?: string;
+  /** Sender-pool mailbox it went out from (see utils/senderPool) */
+  mailboxId?: string;
+  /** RFC 5322 threading (see utils/emailThreads) */
+  messageId?: string;
+  inReplyTo?: string;
+  /** Set by resend-webhook on a bounce (see utils/bounces) */
+  bounceType?: BounceType;
+  bounceReason?: string;
+  /** Soft bounces: when the step may be sent again */
+  bounceRetryAt?: Date;
 }
 
-export interface EmailTemplate {
-  id: string;
-  name: string;
-  subject: (c: CRMContact) => string;
-  html: (c: CRMContact) => string;
+interface SendEmailParams {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  contactId: string;
+  clinicName: string;
+  market: string;
+  tags?: { name: string; value: string }[];
+  /** Sender identity — the display name is kept; the address is used when it is a pool mailbox with room left */
+  from?: string;
+  replyTo?: string;
+  /** Message-IDs of the message being answered and its ancestors */
+  inReplyTo?: string;
+  references?: string[];
 }
 
 /* ─── Config ─── */
 
-const RESEND_PROXY = 'https://us-central1-intel-landing-page.cloudfunctions.net/resend-proxy';
 const RESEND_BASE = 'https://api.resend.com';
-const FROM_ADDRESS = 'Novalyte AI <noreply@novalyte.io>';
-
-/* ─── Templates ─── */
-
-function esc(s: string): string {
-  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-}
-
-export const EMAIL_TEMPLATES: EmailTemplate[] = [
-  {
-    id: 'intro-market-data',
-    name: 'Intro — Market Data Hook',
-    subject: (c) => `${c.clinic.name} — Untapped Patient Demand in ${c.clinic.marketZone.city}`,
-    html: (c) => {
-      const dm = c.decisionMaker;
-      const clinic = c.clinic;
-      const market = clinic.marketZone;
-      const services = clinic.services.slice(0, 3).join(', ');
-      const kw = c.keywordMatches[0];
-      const greeting = dm ? `Hi ${esc(dm.firstName)}` : 'Hi there';
-      const dataPoint = kw
-        ? `Our data shows that <strong>"${esc(kw.keyword)}"</strong> searches are growing <strong>${kw.growthRate}%</strong> in your area — there's significant untapped patient demand.`
-        : `With a median household income of <strong>$${(market.medianIncome / 1000).toFixed(0)}k</strong> in ${esc(market.city)}, there's strong demand for premium men's health services.`;
-      return `<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">
-  <p style="font-size:15px;line-height:1.7;">${greeting},</p>
-  <p style="font-size:15px;line-height:1.7;">I came across <strong>${esc(clinic.name)}</strong> while researching ${services ? esc(services) + ' providers' : "men's health clinics"} in ${esc(market.city)}.</p>
-  <p style="font-size:15px;line-height:1.7;">${dataPoint}</p>
-  <p style="font-size:15px;line-height:1.7;">We help clinics like yours capture high-intent patients through data-driven marketing. Our clients typically see a <strong>30-40% increase</strong> in qualified patient inquiries within 90 days.</p>
-  <p style="font-size:15px;line-height:1.7;">Would you be open to a quick 15-minute call this week to see if there's a fit?</p>
-  <p style="font-size:15px;line-height:1.7;margin-top:24px;">Best,<br/><strong>Jamil</strong><br/><span style="color:#64748b;font-size:13px;">Novalyte · Men's Health Growth Platform</span></p>
-</div>`;
-    },
-  },
-  {
-    id: 'follow-up-value',
-    name: 'Follow-Up — Value Prop',
-    subject: (c) => `Quick follow-up — ${c.clinic.marketZone.city} market insights for ${c.clinic.name}`,
-    html: (c) => {
-      const dm = c.decisionMaker;
-      const clinic = c.clinic;
-      const market = clinic.marketZone;
-      const greeting = dm ? `Hi ${esc(dm.firstName)}` : 'Hi there';
-      return `<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">
-  <p style="font-size:15px;line-height:1.7;">${greeting},</p>
-  <p style="font-size:15px;line-height:1.7;">I reached out last week about helping <strong>${esc(clinic.name)}</strong> capture more high-intent patients in ${esc(market.city)}.</p>
-  <p style="font-size:15px;line-height:1.7;">I wanted to share a quick stat: clinics in markets with an affluence score of <strong>${market.affluenceScore}/10</strong> like ${esc(market.city)} are seeing <strong>2-3x higher patient lifetime value</strong> for men's health services.</p>
-  <p style="font-size:15px;line-height:1.7;">We've helped similar clinics build predictable patient pipelines. Happy to share a free market report for your area — no strings attached.</p>
-  <p style="font-size:15px;line-height:1.7;">Worth a quick chat?</p>
-  <p style="font-size:15px;line-height:1.7;margin-top:24px;">Best,<br/><strong>Jamil</strong><br/><span style="color:#64748b;font-size:13px;">Novalyte · Men's Health Growth Platform</span></p>
-</div>`;
-    },
-  },
-  {
-    id: 'breakup',
-    name: 'Breakup — Last Touch',
-    subject: (c) => `Closing the loop — ${c.clinic.name}`,
-    html: (c) => {
-      const dm = c.decisionMaker;
-      const clinic = c.clinic;
-      const greeting = dm ? `Hi ${esc(dm.firstName)}` : 'Hi there';
-      return `<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">
-  <p style="font-size:15px;line-height:1.7;">${greeting},</p>
-  <p style="font-size:15px;line-height:1.7;">I've reached out a couple of times about helping <strong>${esc(clinic.name)}</strong> grow its patient base, and I don't want to be a bother.</p>
-  <p style="font-size:15px;line-height:1.7;">If the timing isn't right, no worries at all. I'll close out my notes on this for now.</p>
-  <p style="font-size:15px;line-height:1.7;">If things change down the road, feel free to reply to this email anytime — I'd be happy to help.</p>
-  <p style="font-size:15px;line-height:1.7;margin-top:24px;">All the best,<br/><strong>Jamil</strong><br/><span style="color:#64748b;font-size:13px;">Novalyte · Men's Health Growth Platform</span></p>
-</div>`;
-    },
-  },
-];
-
+const DEFAULT_FROM_NAME = 'Novalyte AI';
 
 /* ═══════════════════════════════════════════════════════════════
    RESEND SERVICE
@@ -120,29 +82,29 @@ export class ResendService {
   }
 
   get isConfigured(): boolean {
-    // Prefer server-side sending via Supabase Edge Function; fall back to client API key if present.
-    return !!this.apiKey || (isSupabaseConfigured && !!supabase);
+    // Every send goes through the resend-send edge function: it holds the API key and the
+    // secret that signs the unsubscribe link behind the List-Unsubscribe headers.
+    return isSupabaseConfigured && !!supabase;
   }
 
   private get headers() {
     return { Authorization: `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' };
   }
 
-  /* ─── Send a single email ─── */
-  async sendEmail(params: {
-    to: string;
-    subject: string;
-    html: string;
-    contactId: string;
-    clinicName: string;
-    market: string;
-    tags?: { name: string; value: string }[];
-  }): Promise<SentEmail> {
+  /* ─── Resolve the mailbox + resend-send payload for one email ─── */
+  private prepare(params: SendEmailParams) {
+    suppressionService.assertCanEmail(params.to);
+
+    // Rotates across the sender pool; throws SenderPoolExhaustedError when every mailbox is at its cap
+    const mailbox = senderPoolService.pick('resend', params.from);
+    const from = `${displayNameOf(params.from || '') || mailbox.fromName || DEFAULT_FROM_NAME} <${mailbox.fromEmail}>`;
     const payload = {
       to: params.to,
       subject: params.subject,
       html: params.html,
-      from: FROM_ADDRESS,
+      from,
+      ...(params.text ? { text: params.text } : {}),
+      ...(params.replyTo ? { reply_to: params.replyTo } : {}),
       tags: [
         { name: 'contact_id', value: params.contactId },
         { name: 'clinic', value: params.clinicName.slice(0, 256) },
@@ -150,39 +112,25 @@ export class ResendService {
         ...(params.tags || []),
       ],
     };
+    return { mailbox, from, payload };
+  }
 
-    // Primary: Supabase Edge Function (keeps API key server-side; avoids broken GCP proxy).
-    if (isSupabaseConfigured && supabase) {
-      const { data, error } = await supabase.functions.invoke('resend-send', { body: payload });
-      if (error) throw new Error(error.message);
-      if (!data?.id) throw new Error('Resend send failed: missing id');
-      return {
-        id: data.id,
-        contactId: params.contactId,
-        to: params.to,
-        from: FROM_ADDRESS,
-        subject: params.subject,
-        clinicName: params.clinicName,
-        market: params.market,
-        sentAt: new Date(),
-        lastEvent: 'sent',
-        lastEventAt: new Date(),
-        openCount: 0,
-        clickCount: 0,
-        provider: 'resend',
-      };
-    }
-
-    // Fallback: legacy GCP proxy (may be disabled/403 in some deployments).
-    const { data } = await axios.post<{ id: string }>(RESEND_PROXY, payload, {
-      headers: { 'Content-Type': 'application/json' },
-    });
+  /* ─── Send a single email ─── */
+  async sendEmail(params: SendEmailParams): Promise<SentEmail> {
+    const { mailbox, from, payload } = this.prepare(params);
 
-    return {
+    // resend-send adds the signed one-click unsubscribe link and RFC 8058 headers;
+    // there is no client-side path that could sign them.
+    if (!isSupabaseConfigured || !supabase) throw new Error('Resend sending needs the resend-send edge function (Supabase is not configured)');
+    const threading = params.inReplyTo ? { inReplyTo: params.inReplyTo, references: params.references || [] } : {};
+    const { data, error } = await supabase.functions.invoke('resend-send', { body: { ...payload, ...threading, mailboxId: mailbox.id } });
+    if (error) throw new Error(error.message);
+    if (!data?.id) throw new Error('Resend send failed: missing id');
+    return this.recordSend({
       id: data.id,
       contactId: params.contactId,
       to: params.to,
-      from: FROM_ADDRESS,
+      from,
       subject: params.subject,
       clinicName: params.clinicName,
       market: params.market,
@@ -192,53 +140,119 @@ export class ResendService {
       openCount: 0,
       clickCount: 0,
       provider: 'resend',
-    };
+      mailboxId: mailbox.id,
+      messageId: data.messageId || undefined,
+      inReplyTo: params.inReplyTo,
+    });
   }
 
-  /* ─── Send using a template ─── */
-  async sendTemplate(contact: CRMContact, templateId: string, toEmail: string): Promise<SentEmail> {
-    const template = EMAIL_TEMPLATES.find(t => t.id === templateId);
-    if (!template) throw new Error(`Template "${templateId}" not found`);
+  private recordSend(email: SentEmail): SentEmail {
+    senderPoolService.recordSend(email);
+    return email;
+  }
 
-    const subject = template.subject(contact);
-    const html = template.html(contact);
+  /* ─── Send using a template (blocked when a required merge field is empty) ─── */
+  async sendTemplate(
+    contact: CRMContact,
+    template: EmailTemplate,
+    toEmail: string,
+    sender?: SenderProfile,
+    experiment?: ExperimentAssignment,
+  ): Promise<SentEmail> {
+    const { subject, html } = renderForSend(template, contact, sender, toEmail);
 
-    return this.sendEmail({
+    const result = await this.sendEmail({
       to: toEmail,
       subject,
       html,
       contactId: contact.id,
       clinicName: contact.clinic.name,
       market: `${contact.clinic.marketZone.city}, ${contact.clinic.marketZone.state}`,
-      tags: [{ name: 'template', value: templateId }],
+      tags: [
+        { name: 'template', value: template.id },
+        { name: 'template_version', value: String(template.version) },
+        ...experimentTags(experiment),
+      ],
+      from: sender ? formatFromAddress(sender) : undefined,
+      replyTo: sender?.replyTo,
     });
+    return { ...result, ...experiment };
   }
 
   /* ─── Send AI-personalized email (Gemini-generated) ─── */
-  async sendAIPersonalized(
+  private aiPersonalizedParams(
     contact: CRMContact,
     toEmail: string,
-    aiEmail: { subject: string; html: string },
-    sequenceStep: 'intro' | 'follow_up' | 'breakup',
-  ): Promise<SentEmail> {
-    const result = await this.sendEmail({
+    aiEmail: { subject: string; html: string; text?: string },
+    sequenceStep: NonNullable<SentEmail['sequenceStep']>,
+    experiment?: ExperimentAssignment,
+  ): SendEmailParams {
+    return {
       to: toEmail,
       subject: aiEmail.subject,
       html: aiEmail.html,
+      text: aiEmail.text,
       contactId: contact.id,
       clinicName: contact.clinic.name,
       market: `${contact.clinic.marketZone.city}, ${contact.clinic.marketZone.state}`,
       tags: [
         { name: 'template', value: `ai-${sequenceStep}` },
         { name: 'ai_generated', value: 'true' },
+        ...experimentTags(experiment),
       ],
+    };
+  }
+
+  async sendAIPersonalized(
+    contact: CRMContact,
+    toEmail: string,
+    aiEmail: { subject: string; html: string; text?: string },
+    sequenceStep: NonNullable<SentEmail['sequenceStep']>,
+    experiment?: ExperimentAssignment,
+  ): Promise<SentEmail> {
+    const result = await this.sendEmail(this.aiPersonalizedParams(contact, toEmail, aiEmail, sequenceStep, experiment));
+    return { ...result, sequenceStep, aiGenerated: true, ...experiment };
+  }
+
+  /** resend-send body for a send that email-dispatch makes later (see emailScheduleService) */
+  prepareAIPersonalized(
+    contact: CRMContact,
+    toEmail: string,
+    aiEmail: { subject: string; html: string; text?: string },
+    sequenceStep: NonNullable<SentEmail['sequenceStep']>,
+    experiment?: ExperimentAssignment,
+  ): Record<string, unknown> {
+    const { mailbox, payload } = this.prepare(this.aiPersonalizedParams(contact, toEmail, aiEmail, sequenceStep, experiment));
+    return { ...payload, mailboxId: mailbox.id };
+  }
+
+  /* ─── Reply inside an existing conversation (CRM thread view) ─── */
+  async sendReply(
+    contact: CRMContact,
+    toEmail: string,
+    reply: { subject: string; html: string; text: string },
+    threading: { inReplyTo?: string; references: string[] },
+    sender?: SenderProfile,
+  ): Promise<SentEmail> {
+    return this.sendEmail({
+      to: toEmail,
+      subject: reply.subject,
+      html: reply.html,
+      text: reply.text,
+      contactId: contact.id,
+      clinicName: contact.clinic.name,
+      market: `${contact.clinic.marketZone.city}, ${contact.clinic.marketZone.state}`,
+      tags: [{ name: 'template', value: 'crm-reply' }],
+      from: sender ? formatFromAddress(sender) : undefined,
+      replyTo: sender?.replyTo,
+      inReplyTo: threading.inReplyTo,
+      references: threading.references,
     });
-    return { ...result, sequenceStep, aiGenerated: true };
   }
 
   /* ─── Batch send (up to 100/day target) ─── */
   async sendBatch(
-    contacts: { contact: CRMContact; email: string; templateId: string }[],
+    contacts: { contact: CRMContact; email: string; template: EmailTemplate; sender?: SenderProfile }[],
     delayMs = 1000,
     onProgress?: (sent: number, total: number, result: SentEmail | null, error?: string) => void,
   ): Promise<{ sent: SentEmail[]; failed: { contactId: string; error: string }[] }> {
@@ -246,9 +260,9 @@ export class ResendService {
     const failed: { contactId: string; error: string }[] = [];
 
     for (let i = 0; i < contacts.length; i++) {
-      const { contact, email, templateId } = contacts[i];
+      const { contact, email, template, sender } = contacts[i];
       try {
-        const result = await this.sendTemplate(contact, templateId, email);
+        const result = await this.sendTemplate(contact, template, email, sender);
         sent.push(result);
         onProgress?.(i + 1, contacts.length, result);
       } catch (err: any) {
@@ -0,0 +1,57 @@
+import type { SentEmail } from './resendService';
+import {
+  MailboxCapacity, SendProvider, SendingMailbox, SenderPoolExhaustedError,
+  computePoolCapacity, pickMailbox, remainingFor, startOfDay,
+} from '../utils/senderPool';
+
+/**
+ * Runtime side of the sender pool (see utils/senderPool) — every send asks it
+ * for a mailbox before going out.
+ *
+ * The mailboxes and sent emails are read from the store through the
+ * registered source. Sends made since the store last caught up are kept
+ * locally, so a batch loop cannot overshoot a cap between store updates.
+ */
+
+interface SenderPoolSource {
+  mailboxes: SendingMailbox[];
+  sentEmails: SentEmail[];
+}
+
+let source: (() => SenderPoolSource) | null = null;
+const recent = new Map<string, SentEmail>();
+
+export class SenderPoolService {
+  /** The store registers itself once it exists */
+  setSource(next: (() => SenderPoolSource) | null) {
+    source = next;
+  }
+
+  capacity(now = new Date()): MailboxCapacity[] {
+    if (!source) return [];
+    const { mailboxes, sentEmails } = source();
+    const today = startOfDay(now).getTime();
+    const known = new Set(sentEmails.map(e => e.id));
+    for (const [id, e] of recent) {
+      if (known.has(id) || new Date(e.sentAt).getTime() < today) recent.delete(id);
+    }
+    return computePoolCapacity(mailboxes, [...sentEmails, ...recent.values()], now);
+  }
+
+  remaining(provider: SendProvider, now = new Date()): number {
+    return remainingFor(this.capacity(now), provider);
+  }
+
+  /** Mailbox for the next send — throws SenderPoolExhaustedError when every mailbox is at its cap */
+  pick(provider: SendProvider, preferredEmail?: string): SendingMailbox {
+    const picked = pickMailbox(this.capacity(), provider, preferredEmail);
+    if (!picked) throw new SenderPoolExhaustedError(provider);
+    return picked.mailbox;
+  }
+
+  recordSend(email: SentEmail) {
+    recent.set(email.id, email);
+  }
+}
+
+export const senderPoolService = new SenderPoolService();
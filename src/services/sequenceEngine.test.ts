@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SEQUENCES, SequenceDefinition, applyDelay, applyReplyToEnrollment, createEnrollment,
+  evaluateEnrollment, getStepDayNumbers, isStepDue, markStepExecuted, retryBouncedStep,
+} from './sequenceEngine';
+import type { SentEmail } from './resendService';
+
+const multiTouch = DEFAULT_SEQUENCES.find(s => s.id === 'seq-5-day-multi-touch') as SequenceDefinition;
+const start = new Date('2026-03-02T15:00:00Z'); // Monday
+
+function sentEmail(id: string, patch: Partial<SentEmail> = {}): SentEmail {
+  return {
+    id, to: 'dr@clinic.com', from: 'x', subject: 's', contactId: 'c1', clinicName: 'Clinic',
+    market: 'Austin, TX', sentAt: start, lastEvent: 'delivered', lastEventAt: start,
+    openCount: 0, clickCount: 0, ...patch,
+  } as SentEmail;
+}
+
+describe('sequenceEngine', () => {
+  it('labels steps by cumulative delay', () => {
+    expect(getStepDayNumbers(multiTouch)).toEqual({ intro: 1, follow_up: 2, phone_call: 3, value_add: 4, breakup: 5 });
+  });
+
+  it('skips weekends for business-day delays', () => {
+    const friday = new Date('2026-03-06T15:00:00Z');
+    expect(applyDelay(friday, { days: 1, businessDaysOnly: true }).getDay()).toBe(1);
+  });
+
+  it('advances the pointer with the next step delay and completes at the end', () => {
+    let e = createEnrollment('c1', multiTouch, start);
+    expect(isStepDue(e, start)).toBe(true);
+    e = markStepExecuted(e, multiTouch, 'intro', { status: 'sent' }, start);
+    expect(e.currentStepId).toBe('follow_up');
+    expect(isStepDue(e, start)).toBe(false);
+    expect(isStepDue(e, applyDelay(start, { days: 1 }))).toBe(true);
+
+    for (const id of ['follow_up', 'phone_call', 'value_add', 'breakup']) {
+      e = markStepExecuted(e, multiTouch, id, {}, start);
+    }
+    expect(e.status).toBe('completed');
+    expect(e.currentStepId).toBeNull();
+  });
+
+  it('jumps to the call step when the intro is clicked, once', () => {
+    let e = createEnrollment('c1', multiTouch, start);
+    e = markStepExecuted(e, multiTouch, 'intro', { status: 'sent', sentEmailId: 'em1' }, start);
+    const emails = [sentEmail('em1', { clickCount: 1, lastEvent: 'clicked' })];
+
+    const jumped = evaluateEnrollment(e, multiTouch, { sentEmails: emails, now: start });
+    expect(jumped.currentStepId).toBe('phone_call');
+    expect(jumped.stepRuns.find(r => r.stepId === 'follow_up')?.status).toBe('skipped');
+    expect(evaluateEnrollment(jumped, multiTouch, { sentEmails: emails, now: start })).toBe(jumped);
+  });
+
+  it('exits on bounce', () => {
+    let e = createEnrollment('c1', multiTouch, start);
+    e = markStepExecuted(e, multiTouch, 'intro', { status: 'sent', sentEmailId: 'em1' }, start);
+    const out = evaluateEnrollment(e, multiTouch, { sentEmails: [sentEmail('em1', { lastEvent: 'bounced' })], now: start });
+    expect(out.status).toBe('stopped');
+    expect(out.exitReason).toBe('bounced');
+  });
+
+  it('keeps going on a soft bounce and re-queues the step for its retry', () => {
+    let e = createEnrollment('c1', multiTouch, start);
+    e = markStepExecuted(e, multiTouch, 'intro', { status: 'sent', sentEmailId: 'em1', subject: 'Hi' }, start);
+    const soft = [sentEmail('em1', { lastEvent: 'bounced', bounceType: 'soft' })];
+    expect(evaluateEnrollment(e, multiTouch, { sentEmails: soft, now: start })).toBe(e);
+
+    const retryAt = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    const retried = retryBouncedStep(e, 'intro', retryAt, 'Soft bounce', start);
+    expect(retried.currentStepId).toBe('intro');
+    expect(retried.stepRuns.find(r => r.stepId === 'intro')).toMatchObject({ status: 'ready', subject: 'Hi', sentEmailId: undefined, sendError: 'Soft bounce' });
+    expect(isStepDue(retried, start)).toBe(false);
+    expect(isStepDue(retried, retryAt)).toBe(true);
+
+    const moved = markStepExecuted(e, multiTouch, 'follow_up', { status: 'sent' }, retryAt);
+    expect(retryBouncedStep(moved, 'intro', retryAt, 'Soft bounce', retryAt)).toBe(moved);
+  });
+});
+
+describe('sequenceEngine - reply handling', () => {
+  it('pauses on out-of-office until the return date and ignores the auto-reply', () => {
+    const e = markStepExecuted(createEnrollment('c1', multiTouch, start), multiTouch, 'intro', { status: 'sent' }, start);
+    const back = new Date('2026-03-16T00:00:00Z');
+    const paused = applyReplyToEnrollment(e, { category: 'out_of_office', returnDate: back }, start);
+    expect(paused.status).toBe('active');
+    expect(paused.pausedUntil).toEqual(back);
+    expect(isStepDue(paused, new Date('2026-03-10T00:00:00Z'))).toBe(false);
+
+    const contact = {
+      id: 'c1', status: 'follow_up',
+      activities: [{ id: 'a1', type: 'email_reply', description: '', timestamp: start, metadata: { replyCategory: 'out_of_office' } }],
+    } as any;
+    expect(evaluateEnrollment(paused, multiTouch, { contact, sentEmails: [], now: start }).status).toBe('active');
+  });
+
+  it('stops the enrollment on unsubscribe', () => {
+    const e = createEnrollment('c1', multiTouch, start);
+    const out = applyReplyToEnrollment(e, { category: 'unsubscribe' }, start);
+    expect(out.status).toBe('stopped');
+    expect(out.exitReason).toBe('unsubscribed');
+  });
+});
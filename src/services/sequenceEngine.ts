@@ -0,0 +1,477 @@
+/**
+ * Sequence Engine — data-driven multi-step outreach sequences
+ *
+ * A sequence is a named, ordered list of steps. Each step has:
+ * - a channel (email, Vapi call, manual task)
+ * - a delay rule relative to the previous step's execution
+ * - optional branches that react to engagement events (opened, clicked, replied, bounced)
+ *
+ * Sequences also carry exit conditions (reply, bounce, pipeline status).
+ *
+ * The engine itself is pure — it takes an enrollment plus the latest
+ * contact / sent-email state and returns the next enrollment state.
+ * Persistence lives in supabaseSync + appStore.
+ */
+import { CRMContact, ContactStatus } from '../types';
+import type { SentEmail } from './resendService';
+import type { SendTimeBasis } from '../utils/sendTime';
+
+/* ─── Types ─── */
+
+export type SequenceChannel = 'email' | 'vapi_call' | 'manual_task';
+
+/** Which AI copy angle an email step uses */
+export type SequenceEmailKind = 'intro' | 'follow_up' | 'value_add' | 'breakup' | 'voicemail_follow_up';
+
+export type SequenceEvent = 'opened' | 'clicked' | 'replied' | 'bounced';
+
+export interface SequenceDelayRule {
+  days: number;
+  hours?: number;
+  /** Count only Mon–Fri when adding days */
+  businessDaysOnly?: boolean;
+}
+
+export interface SequenceBranch {
+  on: SequenceEvent;
+  action: 'goto' | 'exit' | 'pause';
+  targetStepId?: string; // for 'goto'
+  pauseDays?: number;    // for 'pause'
+}
+
+export interface SequenceStepDefinition {
+  id: string;
+  name: string;
+  channel: SequenceChannel;
+  delay: SequenceDelayRule;
+  emailKind?: SequenceEmailKind;
+  /** Instructions shown for manual tasks / call notes */
+  instructions?: string;
+  branches?: SequenceBranch[];
+}
+
+export interface SequenceExitConditions {
+  onReply: boolean;
+  onBounce: boolean;
+  onStatuses: ContactStatus[];
+}
+
+export interface SequenceDefinition {
+  id: string;
+  name: string;
+  description: string;
+  steps: SequenceStepDefinition[];
+  exitConditions: SequenceExitConditions;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SequenceEnrollmentStatus = 'active' | 'paused' | 'stopped' | 'completed' | 'replied';
+
+export type SequenceExitReason =
+  | 'completed' | 'replied' | 'bounced' | 'status_changed' | 'branch' | 'manual'
+  | 'unsubscribed' | 'wrong_person';
+
+/** How an inbound reply was classified (see classifyReply in intelligenceService) */
+export type ReplyCategory = 'interested' | 'not_now' | 'unsubscribe' | 'out_of_office' | 'wrong_person' | 'referral';
+
+export type SequenceStepRunStatus = 'pending' | 'generating' | 'ready' | 'scheduled' | 'sent' | 'called' | 'done' | 'skipped';
+
+export interface SequenceStepRun {
+  stepId: string;
+  status: SequenceStepRunStatus;
+  subject?: string;
+  body?: string;
+  html?: string;
+  edited?: boolean;
+  sentEmailId?: string;
+  callId?: string;
+  callStatus?: string;
+  executedAt?: Date;
+  /** A/B variant this draft was written for (see utils/experiments) */
+  experimentId?: string;
+  variantId?: string;
+  /** Queued in email_send_jobs for the recipient's best local send time (see utils/sendTime) */
+  sendJobId?: string;
+  scheduledAt?: Date;
+  sendTimeBasis?: SendTimeBasis;
+  /** Why the last scheduled send did not go out */
+  sendError?: string;
+}
+
+export interface SequenceEnrollment {
+  id: string;
+  contactId: string;
+  sequenceId: string;
+  status: SequenceEnrollmentStatus;
+  currentStepId: string | null;
+  dueAt?: Date;
+  /** Set by a 'pause' branch — the enrollment stays active but nothing is due before this */
+  pausedUntil?: Date;
+  stepRuns: SequenceStepRun[];
+  /** `${stepId}:${event}` keys so each branch fires at most once */
+  appliedBranches: string[];
+  exitReason?: SequenceExitReason;
+  enrolledAt: Date;
+  updatedAt: Date;
+}
+
+/* ─── Built-in sequences ─── */
+
+const DEFAULT_EXIT: SequenceExitConditions = {
+  onReply: true,
+  onBounce: true,
+  onStatuses: ['qualified', 'not_interested', 'wrong_number'],
+};
+
+/** Enrolled automatically after the voice agent leaves a voicemail (see utils/voicemailFollowUp) */
+export const VOICEMAIL_FOLLOW_UP_SEQUENCE_ID = 'seq-voicemail-follow-up';
+
+export const DEFAULT_SEQUENCES: SequenceDefinition[] = [
+  {
+    id: 'seq-5-day-multi-touch',
+    name: '5-Day Multi-Touch',
+    description: 'AI emails + Vapi call: intro, follow-up, call, value-add, breakup',
+    steps: [
+      { id: 'intro', name: 'Intro Email', channel: 'email', emailKind: 'intro', delay: { days: 0 },
+        branches: [{ on: 'clicked', action: 'goto', targetStepId: 'phone_call' }] },
+      { id: 'follow_up', name: 'Follow-Up Email', channel: 'email', emailKind: 'follow_up', delay: { days: 1 } },
+      { id: 'phone_call', name: 'Phone Call (Kaizen)', channel: 'vapi_call', delay: { days: 1 } },
+      { id: 'value_add', name: 'Value-Add Email', channel: 'email', emailKind: 'value_add', delay: { days: 1 } },
+      { id: 'breakup', name: 'Breakup Email', channel: 'email', emailKind: 'breakup', delay: { days: 1 } },
+    ],
+    exitConditions: DEFAULT_EXIT,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  },
+  {
+    id: 'seq-classic-3-touch',
+    name: 'Classic 3-Touch',
+    description: 'Intro → follow-up after 3 days → breakup after 4 more',
+    steps: [
+      { id: 'intro', name: 'Intro Email', channel: 'email', emailKind: 'intro', delay: { days: 0 } },
+      { id: 'follow_up', name: 'Follow-Up Email', channel: 'email', emailKind: 'follow_up', delay: { days: 3 } },
+      { id: 'breakup', name: 'Breakup Email', channel: 'email', emailKind: 'breakup', delay: { days: 4 } },
+    ],
+    exitConditions: DEFAULT_EXIT,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  },
+  {
+    id: VOICEMAIL_FOLLOW_UP_SEQUENCE_ID,
+    name: 'Voicemail Follow-Up',
+    description: 'Email referencing the voicemail 2 hours later → call back in 2 business days',
+    steps: [
+      { id: 'voicemail_email', name: 'Voicemail Follow-Up Email', channel: 'email', emailKind: 'voicemail_follow_up', delay: { days: 0, hours: 2 } },
+      { id: 'call_back', name: 'Call Back (Kaizen)', channel: 'vapi_call', delay: { days: 2, businessDaysOnly: true } },
+    ],
+    exitConditions: DEFAULT_EXIT,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  },
+];
+
+/* ─── Helpers ─── */
+
+function randomId(prefix: string) {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? `${prefix}_${crypto.randomUUID()}`
+    : `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Add a delay rule to a date. Business-day rules skip Saturdays and Sundays. */
+export function applyDelay(from: Date, rule: SequenceDelayRule): Date {
+  const d = new Date(from);
+  if (rule.businessDaysOnly) {
+    let remaining = Math.max(0, Math.floor(rule.days));
+    while (remaining > 0) {
+      d.setDate(d.getDate() + 1);
+      const dow = d.getDay();
+      if (dow !== 0 && dow !== 6) remaining--;
+    }
+  } else {
+    d.setDate(d.getDate() + (rule.days || 0));
+  }
+  if (rule.hours) d.setHours(d.getHours() + rule.hours);
+  return d;
+}
+
+/** 1-based "Day N" label for each step, from cumulative delays */
+export function getStepDayNumbers(sequence: SequenceDefinition): Record<string, number> {
+  const out: Record<string, number> = {};
+  let day = 1;
+  sequence.steps.forEach((s, i) => {
+    if (i > 0) day += Math.max(0, s.delay.days || 0);
+    out[s.id] = day;
+  });
+  return out;
+}
+
+export function getStep(sequence: SequenceDefinition, stepId: string | null | undefined) {
+  if (!stepId) return undefined;
+  return sequence.steps.find(s => s.id === stepId);
+}
+
+export function getStepRun(enrollment: SequenceEnrollment, stepId: string): SequenceStepRun | undefined {
+  return enrollment.stepRuns.find(r => r.stepId === stepId);
+}
+
+function nextStepOf(sequence: SequenceDefinition, stepId: string) {
+  const idx = sequence.steps.findIndex(s => s.id === stepId);
+  return idx >= 0 ? sequence.steps[idx + 1] : undefined;
+}
+
+function isExecuted(run?: SequenceStepRun) {
+  return !!run && (run.status === 'sent' || run.status === 'called' || run.status === 'done' || run.status === 'skipped');
+}
+
+/* ─── Lifecycle ─── */
+
+export function createEnrollment(contactId: string, sequence: SequenceDefinition, now = new Date()): SequenceEnrollment {
+  const first = sequence.steps[0];
+  return {
+    id: randomId('enr'),
+    contactId,
+    sequenceId: sequence.id,
+    status: first ? 'active' : 'completed',
+    currentStepId: first?.id ?? null,
+    dueAt: first ? applyDelay(now, first.delay) : undefined,
+    stepRuns: sequence.steps.map(s => ({ stepId: s.id, status: 'pending' })),
+    appliedBranches: [],
+    exitReason: first ? undefined : 'completed',
+    enrolledAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Is the current step due for execution? */
+export function isStepDue(enrollment: SequenceEnrollment, now = new Date()): boolean {
+  if (enrollment.status !== 'active' || !enrollment.currentStepId) return false;
+  if (enrollment.pausedUntil && new Date(enrollment.pausedUntil) > now) return false;
+  return !enrollment.dueAt || new Date(enrollment.dueAt) <= now;
+}
+
+/** Patch a step run (draft content, generation status) without moving the pointer */
+export function updateStepRun(
+  enrollment: SequenceEnrollment,
+  stepId: string,
+  patch: Partial<SequenceStepRun>,
+  now = new Date(),
+): SequenceEnrollment {
+  const exists = enrollment.stepRuns.some(r => r.stepId === stepId);
+  const stepRuns = exists
+    ? enrollment.stepRuns.map(r => r.stepId === stepId ? { ...r, ...patch, stepId } : r)
+    : [...enrollment.stepRuns, { status: 'pending' as const, ...patch, stepId }];
+  return { ...enrollment, stepRuns, updatedAt: now };
+}
+
+/**
+ * Record that a step ran. If it was the current step, the pointer moves to the
+ * next step and its due date is computed from the step's delay rule.
+ */
+export function markStepExecuted(
+  enrollment: SequenceEnrollment,
+  sequence: SequenceDefinition,
+  stepId: string,
+  patch: Partial<SequenceStepRun> = {},
+  now = new Date(),
+): SequenceEnrollment {
+  const updated = updateStepRun(enrollment, stepId, { status: 'done', ...patch, executedAt: now }, now);
+  if (enrollment.currentStepId !== stepId) return updated;
+
+  const next = nextStepOf(sequence, stepId);
+  if (!next) {
+    return { ...updated, currentStepId: null, dueAt: undefined, status: 'completed', exitReason: 'completed' };
+  }
+  return { ...updated, currentStepId: next.id, dueAt: applyDelay(now, next.delay) };
+}
+
+/** Stop an enrollment with a reason */
+export function exitEnrollment(
+  enrollment: SequenceEnrollment,
+  reason: SequenceExitReason,
+  now = new Date(),
+): SequenceEnrollment {
+  const status: SequenceEnrollmentStatus =
+    reason === 'replied' ? 'replied' :
+    reason === 'completed' || reason === 'branch' ? 'completed' :
+    'stopped';
+  return { ...enrollment, status, exitReason: reason, currentStepId: null, dueAt: undefined, updatedAt: now };
+}
+
+/**
+ * Put a step whose email soft-bounced back in line (see utils/bounces): the
+ * draft is kept, the pointer returns to the step and nothing is due before
+ * the retry. No-op once a later step has run or the enrollment was stopped.
+ */
+export function retryBouncedStep(
+  enrollment: SequenceEnrollment,
+  stepId: string,
+  retryAt: Date,
+  reason: string,
+  now = new Date(),
+): SequenceEnrollment {
+  const reopenable = enrollment.status === 'active' || enrollment.status === 'paused'
+    || (enrollment.status === 'completed' && enrollment.exitReason === 'completed');
+  const run = getStepRun(enrollment, stepId);
+  if (!reopenable || !run?.executedAt) return enrollment;
+  const ranAt = new Date(run.executedAt).getTime();
+  if (enrollment.stepRuns.some(r => r.stepId !== stepId && r.executedAt && new Date(r.executedAt).getTime() > ranAt)) return enrollment;
+  const updated = updateStepRun(enrollment, stepId, {
+    status: 'ready', sentEmailId: undefined, executedAt: undefined, sendJobId: undefined, scheduledAt: undefined, sendError: reason,
+  }, now);
+  return {
+    ...updated,
+    status: enrollment.status === 'completed' ? 'active' : enrollment.status,
+    exitReason: enrollment.status === 'completed' ? undefined : enrollment.exitReason,
+    currentStepId: stepId,
+    dueAt: retryAt,
+    pausedUntil: retryAt,
+  };
+}
+
+/**
+ * Apply a classified inbound reply. Out-of-office replies pause the enrollment
+ * until the return date (default one week); every other class ends it.
+ */
+export function applyReplyToEnrollment(
+  enrollment: SequenceEnrollment,
+  reply: { category: ReplyCategory; returnDate?: Date },
+  now = new Date(),
+): SequenceEnrollment {
+  if (enrollment.status !== 'active' && enrollment.status !== 'paused') return enrollment;
+  switch (reply.category) {
+    case 'out_of_office': {
+      const fallback = applyDelay(now, { days: 7 });
+      const until = reply.returnDate && reply.returnDate > now ? reply.returnDate : fallback;
+      return { ...enrollment, pausedUntil: until, updatedAt: now };
+    }
+    case 'unsubscribe':
+      return exitEnrollment(enrollment, 'unsubscribed', now);
+    case 'wrong_person':
+      return exitEnrollment(enrollment, 'wrong_person', now);
+    default:
+      return exitEnrollment(enrollment, 'replied', now);
+  }
+}
+
+/* ─── Event detection ─── */
+
+/**
+ * Collect engagement events per executed step. Email events come from the
+ * SentEmail recorded on the step run; replies are attributed to the most
+ * recent executed step before the reply arrived. Out-of-office auto-replies
+ * are not replies — they are handled by applyReplyToEnrollment.
+ */
+export function collectStepEvents(
+  enrollment: SequenceEnrollment,
+  contact: CRMContact | undefined,
+  sentEmails: SentEmail[],
+): Map<string, Set<SequenceEvent>> {
+  const events = new Map<string, Set<SequenceEvent>>();
+  const emailById = new Map(sentEmails.map(e => [e.id, e]));
+  const add = (stepId: string, ev: SequenceEvent) => {
+    if (!events.has(stepId)) events.set(stepId, new Set());
+    events.get(stepId)!.add(ev);
+  };
+
+  for (const run of enrollment.stepRuns) {
+    if (!run.sentEmailId) continue;
+    const em = emailById.get(run.sentEmailId);
+    if (!em) continue;
+    if (em.openCount > 0 || em.lastEvent === 'opened' || em.lastEvent === 'clicked') add(run.stepId, 'opened');
+    if (em.clickCount > 0 || em.lastEvent === 'clicked') add(run.stepId, 'clicked');
+    // Soft bounces are retried (retryBouncedStep), not treated as a dead address
+    if ((em.lastEvent === 'bounced' && em.bounceType !== 'soft') || em.lastEvent === 'complained') add(run.stepId, 'bounced');
+  }
+
+  const enrolledAt = new Date(enrollment.enrolledAt).getTime();
+  const replies = (contact?.activities || [])
+    .filter(a => a.type === 'email_reply' && new Date(a.timestamp).getTime() >= enrolledAt)
+    .filter(a => a.metadata?.replyCategory !== 'out_of_office');
+  if (replies.length > 0) {
+    const executed = enrollment.stepRuns
+      .filter(r => r.executedAt)
+      .sort((a, b) => new Date(b.executedAt!).getTime() - new Date(a.executedAt!).getTime());
+    for (const reply of replies) {
+      const ts = new Date(reply.timestamp).getTime();
+      const owner = executed.find(r => new Date(r.executedAt!).getTime() <= ts) || executed[executed.length - 1];
+      add(owner?.stepId || '*', 'replied');
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Re-evaluate an enrollment against the latest contact + email state:
+ * exit conditions first, then any not-yet-applied branches on executed steps.
+ * Returns the same object when nothing changed.
+ */
+export function evaluateEnrollment(
+  enrollment: SequenceEnrollment,
+  sequence: SequenceDefinition,
+  ctx: { contact?: CRMContact; sentEmails: SentEmail[]; now?: Date },
+): SequenceEnrollment {
+  if (enrollment.status !== 'active' && enrollment.status !== 'paused') return enrollment;
+  const now = ctx.now || new Date();
+  const stepEvents = collectStepEvents(enrollment, ctx.contact, ctx.sentEmails);
+  const allEvents = new Set<SequenceEvent>();
+  stepEvents.forEach(set => set.forEach(ev => allEvents.add(ev)));
+
+  const exit = sequence.exitConditions;
+  if (exit.onReply && allEvents.has('replied')) return exitEnrollment(enrollment, 'replied', now);
+  if (exit.onBounce && allEvents.has('bounced')) return exitEnrollment(enrollment, 'bounced', now);
+  if (ctx.contact && exit.onStatuses.includes(ctx.contact.status)) return exitEnrollment(enrollment, 'status_changed', now);
+
+  if (enrollment.status !== 'active') return enrollment;
+
+  let next = enrollment;
+  for (const step of sequence.steps) {
+    if (!step.branches?.length || !isExecuted(getStepRun(next, step.id))) continue;
+    const evs = stepEvents.get(step.id);
+    if (!evs) continue;
+    for (const branch of step.branches) {
+      const key = `${step.id}:${branch.on}`;
+      if (!evs.has(branch.on) || next.appliedBranches.includes(key)) continue;
+      next = { ...next, appliedBranches: [...next.appliedBranches, key], updatedAt: now };
+
+      if (branch.action === 'exit') return exitEnrollment(next, 'branch', now);
+      if (branch.action === 'pause') {
+        const until = applyDelay(now, { days: branch.pauseDays ?? 1 });
+        next = { ...next, pausedUntil: until };
+      }
+      if (branch.action === 'goto') {
+        const target = getStep(sequence, branch.targetStepId);
+        if (!target) continue;
+        // Steps jumped over are marked skipped so the timeline stays honest
+        const fromIdx = sequence.steps.findIndex(s => s.id === next.currentStepId);
+        const toIdx = sequence.steps.findIndex(s => s.id === target.id);
+        const stepRuns = next.stepRuns.map(r => {
+          const idx = sequence.steps.findIndex(s => s.id === r.stepId);
+          return fromIdx >= 0 && idx >= fromIdx && idx < toIdx && !isExecuted(r) ? { ...r, status: 'skipped' as const } : r;
+        });
+        // Jumping forward because of engagement → act now rather than waiting the normal delay
+        next = { ...next, stepRuns, currentStepId: target.id, dueAt: now };
+      }
+    }
+  }
+  return next;
+}
+
+/** Enrollments whose current step is due now, paired with their step definition */
+export function getDueSteps(
+  enrollments: SequenceEnrollment[],
+  sequences: SequenceDefinition[],
+  now = new Date(),
+): { enrollment: SequenceEnrollment; sequence: SequenceDefinition; step: SequenceStepDefinition }[] {
+  const byId = new Map(sequences.map(s => [s.id, s]));
+  const out: { enrollment: SequenceEnrollment; sequence: SequenceDefinition; step: SequenceStepDefinition }[] = [];
+  for (const enrollment of enrollments) {
+    if (!isStepDue(enrollment, now)) continue;
+    const sequence = byId.get(enrollment.sequenceId);
+    const step = sequence && getStep(sequence, enrollment.currentStepId);
+    if (sequence && step) out.push({ enrollment, sequence, step });
+  }
+  return out;
+}
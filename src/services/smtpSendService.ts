@@ -1,12 +1,34 @@
 import type { CRMContact } from '../types';
 import type { SentEmail } from './resendService';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { suppressionService } from './suppressionService';
+import { EmailTemplate, SenderProfile, renderForSend } from '../utils/emailTemplates';
+import { ExperimentAssignment, experimentTags } from '../utils/experiments';
+import { senderPoolService } from './senderPoolService';
 
 const getEnv = (key: string): string => {
   const metaEnv: any = (typeof import.meta !== 'undefined' && (import.meta as any).env) ? (import.meta as any).env : {};
   return metaEnv?.[key] || '';
 };
 
+interface SmtpSendParams {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  contactId: string;
+  clinicName: string;
+  market: string;
+  tags?: { name: string; value: string }[];
+  fromName?: string;
+  /** Preferred pool mailbox (a sender profile's address); otherwise the pool rotates */
+  fromEmail?: string;
+  replyTo?: string;
+  /** Message-IDs of the message being answered and its ancestors */
+  inReplyTo?: string;
+  references?: string[];
+}
+
 /**
  * SMTP send service via backend HTTP function (never send SMTP creds from the browser).
  *
@@ -25,24 +47,26 @@ export class SmtpSendService {
     return (isSupabaseConfigured && !!supabase) || !!this.baseUrl;
   }
 
-  async sendEmail(params: {
-    to: string;
-    subject: string;
-    html: string;
-    text?: string;
-    contactId: string;
-    clinicName: string;
-    market: string;
-    tags?: { name: string; value: string }[];
-  }): Promise<SentEmail> {
+  /** Resolve the pool mailbox + smtp-send body for one email */
+  private prepare(params: SmtpSendParams) {
+    suppressionService.assertCanEmail(params.to);
+
+    // Throws SenderPoolExhaustedError when every SMTP mailbox is at its cap
+    const mailbox = senderPoolService.pick('smtp', params.fromEmail);
+    return { mailbox, body: { ...params, mailboxId: mailbox.id, fromEmail: mailbox.fromEmail || undefined } };
+  }
+
+  async sendEmail(params: SmtpSendParams): Promise<SentEmail> {
+    const { mailbox, body } = this.prepare(params);
+
     // Primary: Supabase Edge Function (recommended)
     if (isSupabaseConfigured && supabase) {
-      const { data, error } = await supabase.functions.invoke('smtp-send', { body: params });
+      const { data, error } = await supabase.functions.invoke('smtp-send', { body });
       if (error) throw new Error(error.message || 'SMTP send failed');
       if (!data?.ok) throw new Error(data?.error || 'SMTP send failed');
       const from = String(data?.from || 'SMTP Sender');
       const id = String(data?.id || `smtp-${Date.now()}`);
-      return {
+      return this.recordSend({
         id,
         contactId: params.contactId,
         to: params.to,
@@ -56,7 +80,10 @@ export class SmtpSendService {
         openCount: 0,
         clickCount: 0,
         provider: 'smtp',
-      };
+        mailboxId: mailbox.id,
+        messageId: data?.messageId || undefined,
+        inReplyTo: params.inReplyTo,
+      });
     }
 
     // Fallback: direct HTTP function URL
@@ -64,7 +91,7 @@ export class SmtpSendService {
     const resp = await fetch(this.baseUrl, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(params),
+      body: JSON.stringify(body),
     });
     const data = await resp.json().catch(() => ({}));
     if (!resp.ok || !data?.ok) throw new Error(data?.error || `SMTP send failed (${resp.status})`);
@@ -72,7 +99,7 @@ export class SmtpSendService {
     const from = String(data?.from || 'SMTP Sender');
     const id = String(data?.id || `smtp-${Date.now()}`);
 
-    return {
+    return this.recordSend({
       id,
       contactId: params.contactId,
       to: params.to,
@@ -86,16 +113,25 @@ export class SmtpSendService {
       openCount: 0,
       clickCount: 0,
       provider: 'smtp',
-    };
+      mailboxId: mailbox.id,
+      messageId: data?.messageId || undefined,
+      inReplyTo: params.inReplyTo,
+    });
   }
 
-  async sendAIPersonalized(
+  private recordSend(email: SentEmail): SentEmail {
+    senderPoolService.recordSend(email);
+    return email;
+  }
+
+  private aiPersonalizedParams(
     contact: CRMContact,
     toEmail: string,
     aiEmail: { subject: string; html: string; text?: string },
-    sequenceStep: 'intro' | 'follow_up' | 'breakup',
-  ): Promise<SentEmail> {
-    const result = await this.sendEmail({
+    sequenceStep: NonNullable<SentEmail['sequenceStep']>,
+    experiment?: ExperimentAssignment,
+  ): SmtpSendParams {
+    return {
       to: toEmail,
       subject: aiEmail.subject,
       html: aiEmail.html,
@@ -106,9 +142,84 @@ export class SmtpSendService {
       tags: [
         { name: 'template', value: `ai-${sequenceStep}` },
         { name: 'ai_generated', value: 'true' },
+        ...experimentTags(experiment),
+      ],
+    };
+  }
+
+  async sendAIPersonalized(
+    contact: CRMContact,
+    toEmail: string,
+    aiEmail: { subject: string; html: string; text?: string },
+    sequenceStep: NonNullable<SentEmail['sequenceStep']>,
+    experiment?: ExperimentAssignment,
+  ): Promise<SentEmail> {
+    const result = await this.sendEmail(this.aiPersonalizedParams(contact, toEmail, aiEmail, sequenceStep, experiment));
+    return { ...result, sequenceStep, aiGenerated: true, ...experiment };
+  }
+
+  /** smtp-send body for a send that email-dispatch makes later (see emailScheduleService) */
+  prepareAIPersonalized(
+    contact: CRMContact,
+    toEmail: string,
+    aiEmail: { subject: string; html: string; text?: string },
+    sequenceStep: NonNullable<SentEmail['sequenceStep']>,
+    experiment?: ExperimentAssignment,
+  ): Record<string, unknown> {
+    return this.prepare(this.aiPersonalizedParams(contact, toEmail, aiEmail, sequenceStep, experiment)).body;
+  }
+
+  /** Reply inside an existing conversation (CRM thread view) */
+  async sendReply(
+    contact: CRMContact,
+    toEmail: string,
+    reply: { subject: string; html: string; text: string },
+    threading: { inReplyTo?: string; references: string[] },
+    sender?: SenderProfile,
+  ): Promise<SentEmail> {
+    return this.sendEmail({
+      to: toEmail,
+      subject: reply.subject,
+      html: reply.html,
+      text: reply.text,
+      contactId: contact.id,
+      clinicName: contact.clinic.name,
+      market: `${contact.clinic.marketZone.city}, ${contact.clinic.marketZone.state}`,
+      tags: [{ name: 'template', value: 'crm-reply' }],
+      fromName: sender?.fromName,
+      fromEmail: sender?.fromEmail,
+      replyTo: sender?.replyTo,
+      inReplyTo: threading.inReplyTo,
+      references: threading.references,
+    });
+  }
+
+  /** Blocked when a required merge field is empty (see utils/emailTemplates) */
+  async sendTemplate(
+    contact: CRMContact,
+    template: EmailTemplate,
+    toEmail: string,
+    sender?: SenderProfile,
+    experiment?: ExperimentAssignment,
+  ): Promise<SentEmail> {
+    const { subject, html } = renderForSend(template, contact, sender, toEmail);
+    const result = await this.sendEmail({
+      to: toEmail,
+      subject,
+      html,
+      contactId: contact.id,
+      clinicName: contact.clinic.name,
+      market: `${contact.clinic.marketZone.city}, ${contact.clinic.marketZone.state}`,
+      tags: [
+        { name: 'template', value: template.id },
+        { name: 'template_version', value: String(template.version) },
+        ...experimentTags(experiment),
       ],
+      fromName: sender?.fromName,
+      fromEmail: sender?.fromEmail,
+      replyTo: sender?.replyTo,
     });
-    return { ...result, sequenceStep, aiGenerated: true };
+    return { ...result, ...experiment };
   }
 }
 
@@ -6,14 +6,76 @@
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import {
   MarketZone, Clinic, CRMContact, KeywordTrend, DecisionMaker,
-  Activity, VoiceCall, Campaign,
+  Activity, VoiceCall, Campaign, SuppressionEntry,
 } from '../types';
 import type { SentEmail } from './resendService';
+import { DEFAULT_SEQUENCES, SequenceDefinition, SequenceEnrollment } from './sequenceEngine';
+import type { ScoringModel } from '../utils/leadScoring';
+import { EMPTY_CAMPAIGN_STATS } from '../utils/campaigns';
+import type { EmailTemplate, EmailTemplateVersion, SenderProfile } from '../utils/emailTemplates';
+import type { EmailExperiment } from '../utils/experiments';
+import type { SendingMailbox } from '../utils/senderPool';
+import { EnrichmentLedgerEntry, LEDGER_RETENTION_DAYS } from '../utils/enrichmentWaterfall';
+import { EmailVerification, MAX_VERIFICATIONS } from '../utils/emailVerification';
+import { ThreadMessage, normalizeMessageId, parseReferences } from '../utils/emailThreads';
+import { RemoteRecord, diffJunction } from '../utils/syncMerge';
+import { MigrationReportEntry, RowMigration, columnsFrom, missingRowMigration, upgradeRow } from '../utils/schemaMigrations';
+import { ROW_MIGRATIONS } from '../utils/rowMigrations';
+import { AUDIT_LOG_LIMIT, AuditActor, AuditEntry, AuditSnapshot } from '../utils/audit';
 
 // ─── Helpers ───
 const iso = (d: Date | string | undefined | null) =>
   d instanceof Date ? d.toISOString() : d ? String(d) : null;
 
+/** Built-in sequences known to be in the sequences table this session */
+const seededSequences = new Set<string>();
+
+// ─── Row schema (see utils/rowMigrations) ───
+/** Per table: the earliest row migration this database hasn't run — writes leave out its columns and newer ones */
+const missingSince: Record<string, number> = {};
+/** Row migrations applied to rows read since the last report */
+const rowUpgrades = new Map<string, { migration: RowMigration; count: number }>();
+/** `table:version` of missing migrations already reported */
+const reportedMissing = new Set<string>();
+
+/** A row read from Supabase, upgraded to the shape the mappers expect */
+function readRow(table: string, r: any): any {
+  const { row, applied } = upgradeRow(table, r, ROW_MIGRATIONS);
+  for (const m of applied) {
+    const key = `${m.table}:${m.version}`;
+    const seen = rowUpgrades.get(key);
+    if (seen) seen.count++;
+    else rowUpgrades.set(key, { migration: m, count: 1 });
+  }
+  return row;
+}
+
+/** A row about to be written, without the columns this database doesn't have yet */
+function writableRow<T extends Record<string, any>>(table: string, row: T): T {
+  const since = missingSince[table];
+  if (since === undefined) return row;
+  const legacy = { ...row };
+  for (const col of columnsFrom(table, since, ROW_MIGRATIONS)) delete legacy[col];
+  return legacy;
+}
+
+/** Tables destructive actions soft-delete from (migration 030, utils/audit) */
+const SOFT_DELETE_TABLES = ['clinics', 'contacts', 'keyword_trends', 'voice_calls', 'campaigns', 'sent_emails', 'email_replies', 'sequence_enrollments'];
+
+/** Upsert rows, retrying without the columns of any migration the database turns out not to have run */
+async function upsertRows(table: string, rows: Record<string, any>[], onConflict = 'id'): Promise<{ message: string } | null> {
+  if (!supabase) return { message: 'Supabase is not configured' };
+  // deleted_at / deleted_by are never in the payload — a routine write to a trashed row leaves it in the trash
+  for (;;) {
+    const { error } = await supabase.from(table).upsert(rows.map(r => writableRow(table, r)), { onConflict });
+    if (!error) return null;
+    const missing = missingRowMigration(table, error.message, ROW_MIGRATIONS);
+    if (!missing || (missingSince[table] ?? Infinity) <= missing.version) return error;
+    missingSince[table] = missing.version;
+    console.warn(`[Schema] ${table} predates ${String(missing.version).padStart(3, '0')}_${missing.name} — writing without its columns`);
+  }
+}
+
 // ─── Market mappers ───
 function marketToRow(m: MarketZone) {
   return {
@@ -52,30 +114,18 @@ function clinicToRow(c: Clinic) {
     google_verify_checked_at: c.googleVerifyCheckedAt || null,
     verification_status: c.verificationStatus || 'Ready',
     services: c.services || [],
+    timezone: c.timezone || null,
+    calling_window: c.callingWindow || null,
+    marketing_agency: c.marketingAgency || null,
+    monthly_ad_spend: c.monthlyAdSpend ?? null,
+    field_provenance: c.provenance || null,
     market_id: c.marketZone.id,
     discovered_at: iso(c.discoveredAt), last_updated: iso(c.lastUpdated),
   };
 }
 
-function isMissingVerificationStatusError(message?: string | null): boolean {
-  const text = (message || '').toLowerCase();
-  return text.includes('verification_status') && text.includes('schema cache');
-}
-
-function isMissingClinicGoogleVerifyColumnsError(message?: string | null): boolean {
-  const text = (message || '').toLowerCase();
-  if (!text.includes('schema cache')) return false;
-  const cols = [
-    'google_verify_status',
-    'google_verify_official_website',
-    'google_verify_confirmed_email',
-    'google_verify_found_emails',
-    'google_verify_checked_at',
-  ];
-  return cols.some(c => text.includes(c));
-}
-
 function rowToClinic(r: any, market: MarketZone): Clinic {
+  r = readRow('clinics', r);
   return {
     id: r.id, name: r.name, type: r.type,
     address: { street: r.street || '', city: r.city || '', state: r.state || '', zip: r.zip || '', country: r.country || 'USA' },
@@ -91,8 +141,13 @@ function rowToClinic(r: any, market: MarketZone): Clinic {
     googleVerifyFoundEmails: r.google_verify_found_emails || undefined,
     googleVerifyCheckedAt: r.google_verify_checked_at || undefined,
     enrichedContacts: r.enriched_contacts || undefined,
-    verificationStatus: r.verification_status || 'Ready',
+    verificationStatus: r.verification_status,
     services: r.services || [],
+    timezone: r.timezone || undefined,
+    callingWindow: r.calling_window || undefined,
+    marketingAgency: r.marketing_agency || undefined,
+    monthlyAdSpend: r.monthly_ad_spend != null ? Number(r.monthly_ad_spend) : undefined,
+    provenance: r.field_provenance || undefined,
     marketZone: market,
     discoveredAt: new Date(r.discovered_at), lastUpdated: new Date(r.last_updated),
   };
@@ -113,6 +168,7 @@ function dmToRow(dm: DecisionMaker) {
   };
 }
 function rowToDm(r: any): DecisionMaker {
+  r = readRow('decision_makers', r);
   return {
     id: r.id, clinicId: r.clinic_id,
     firstName: r.first_name, lastName: r.last_name,
@@ -184,13 +240,15 @@ function activityToRow(a: Activity, contactId: string) {
   return {
     id: a.id, contact_id: contactId, type: a.type,
     description: a.description, metadata: a.metadata || {},
-    timestamp: iso(a.timestamp),
+    timestamp: iso(a.timestamp), campaign_id: a.campaignId || null,
   };
 }
 function rowToActivity(r: any): Activity {
+  r = readRow('activities', r);
   return {
     id: r.id, type: r.type, description: r.description,
     metadata: r.metadata || {}, timestamp: new Date(r.timestamp),
+    campaignId: r.campaign_id || undefined,
   };
 }
 
@@ -203,10 +261,11 @@ function callToRow(c: VoiceCall) {
     outcome: c.outcome || null, transcript: c.transcript || null,
     recording_url: c.recording_url || null, sentiment: c.sentiment || null,
     notes: c.notes || null, follow_up_required: c.followUpRequired,
-    follow_up_date: iso(c.followUpDate),
+    follow_up_date: iso(c.followUpDate), campaign_id: c.campaignId || null,
   };
 }
 function rowToCall(r: any): VoiceCall {
+  r = readRow('voice_calls', r);
   return {
     id: r.id, contactId: r.contact_id, agentId: r.agent_id,
     startTime: new Date(r.start_time),
@@ -217,6 +276,7 @@ function rowToCall(r: any): VoiceCall {
     sentiment: r.sentiment || undefined, notes: r.notes || undefined,
     followUpRequired: r.follow_up_required || false,
     followUpDate: r.follow_up_date ? new Date(r.follow_up_date) : undefined,
+    campaignId: r.campaign_id || undefined,
   };
 }
 
@@ -236,12 +296,24 @@ function sentEmailToRow(e: SentEmail) {
     open_count: e.openCount ?? 0,
     click_count: e.clickCount ?? 0,
     sequence_step: e.sequenceStep || null,
+    sequence_enrollment_id: e.sequenceEnrollmentId || null,
+    sequence_step_id: e.sequenceStepId || null,
     ai_generated: Boolean(e.aiGenerated),
     provider: e.provider || 'resend',
+    campaign_id: e.campaignId || null,
+    experiment_id: e.experimentId || null,
+    variant_id: e.variantId || null,
+    mailbox_id: e.mailboxId || null,
+    message_id: e.messageId || null,
+    in_reply_to: e.inReplyTo || null,
+    bounce_type: e.bounceType || null,
+    bounce_reason: e.bounceReason || null,
+    bounce_retry_at: iso(e.bounceRetryAt),
   };
 }
 
 function rowToSentEmail(r: any): SentEmail {
+  r = readRow('sent_emails', r);
   return {
     id: String(r.id),
     contactId: String(r.contact_id || ''),
@@ -256,8 +328,52 @@ function rowToSentEmail(r: any): SentEmail {
     openCount: Number(r.open_count || 0),
     clickCount: Number(r.click_count || 0),
     sequenceStep: r.sequence_step || undefined,
+    sequenceEnrollmentId: r.sequence_enrollment_id || undefined,
+    sequenceStepId: r.sequence_step_id || undefined,
     aiGenerated: Boolean(r.ai_generated),
-    provider: (r.provider || 'resend') as any,
+    provider: r.provider,
+    campaignId: r.campaign_id || undefined,
+    experimentId: r.experiment_id || undefined,
+    variantId: r.variant_id || undefined,
+    mailboxId: r.mailbox_id || undefined,
+    messageId: r.message_id || undefined,
+    inReplyTo: r.in_reply_to || undefined,
+    bounceType: r.bounce_type || undefined,
+    bounceReason: r.bounce_reason || undefined,
+    bounceRetryAt: r.bounce_retry_at ? new Date(r.bounce_retry_at) : undefined,
+  };
+}
+
+// ─── Email thread mappers (CRM conversation view) ───
+function sentEmailRowToThreadMessage(r: any): ThreadMessage {
+  return {
+    id: String(r.id),
+    direction: 'outbound',
+    messageId: normalizeMessageId(r.message_id),
+    inReplyTo: normalizeMessageId(r.in_reply_to),
+    references: parseReferences(r.reference_ids),
+    from: String(r.from_email || ''),
+    to: String(r.to_email || ''),
+    subject: String(r.subject || ''),
+    text: r.body_text || undefined,
+    at: new Date(r.sent_at),
+  };
+}
+
+function replyRowToThreadMessage(r: any): ThreadMessage {
+  return {
+    id: String(r.id),
+    direction: 'inbound',
+    messageId: normalizeMessageId(r.message_id),
+    inReplyTo: normalizeMessageId(r.in_reply_to),
+    references: parseReferences(r.reference_ids),
+    sentEmailId: r.sent_email_id || undefined,
+    from: String(r.from_email || ''),
+    to: String(r.to_email || ''),
+    subject: String(r.subject || ''),
+    text: r.body_text || r.snippet || undefined,
+    html: r.body_html || undefined,
+    at: new Date(r.received_at),
   };
 }
 
@@ -268,21 +384,255 @@ function campaignToRow(c: Campaign) {
     status: c.status, script: c.script,
     start_date: iso(c.startDate), end_date: iso(c.endDate),
     stats: c.stats || {},
+    calling_window: c.callingWindow || null,
+    target_markets: c.targetMarkets || [],
+    target_keywords: c.targetKeywords || [],
+    score_range: c.scoreRange || null,
+    clinic_types: c.clinicTypes || [],
+    sequence_id: c.sequenceId || null,
     created_at: iso(c.createdAt), updated_at: iso(c.updatedAt),
   };
 }
 function rowToCampaign(r: any): Campaign {
+  r = readRow('campaigns', r);
   return {
     id: r.id, name: r.name, description: r.description || '',
     status: r.status, script: r.script || '',
     startDate: r.start_date ? new Date(r.start_date) : undefined,
     endDate: r.end_date ? new Date(r.end_date) : undefined,
-    stats: r.stats || { totalContacts: 0, called: 0, connected: 0, qualified: 0, notInterested: 0 },
-    targetMarkets: [], targetKeywords: [], contacts: [],
+    stats: { ...EMPTY_CAMPAIGN_STATS, ...(r.stats || {}) },
+    targetMarkets: r.target_markets,
+    targetKeywords: r.target_keywords,
+    scoreRange: r.score_range || undefined,
+    clinicTypes: r.clinic_types,
+    sequenceId: r.sequence_id || undefined,
+    callingWindow: r.calling_window || undefined,
+    createdAt: new Date(r.created_at), updatedAt: new Date(r.updated_at),
+  };
+}
+
+// ─── Sequence mappers ───
+function sequenceToRow(s: SequenceDefinition) {
+  return {
+    id: s.id, name: s.name, description: s.description || '',
+    steps: s.steps, exit_conditions: s.exitConditions,
+    created_at: iso(s.createdAt), updated_at: iso(s.updatedAt),
+  };
+}
+function rowToSequence(r: any): SequenceDefinition {
+  return {
+    id: r.id, name: r.name, description: r.description || '',
+    steps: Array.isArray(r.steps) ? r.steps : [],
+    exitConditions: r.exit_conditions || { onReply: true, onBounce: true, onStatuses: [] },
     createdAt: new Date(r.created_at), updatedAt: new Date(r.updated_at),
   };
 }
 
+function enrollmentToRow(e: SequenceEnrollment) {
+  return {
+    id: e.id, contact_id: e.contactId, sequence_id: e.sequenceId,
+    status: e.status, current_step_id: e.currentStepId,
+    due_at: iso(e.dueAt), paused_until: iso(e.pausedUntil),
+    step_runs: e.stepRuns, applied_branches: e.appliedBranches || [],
+    exit_reason: e.exitReason || null,
+    enrolled_at: iso(e.enrolledAt), updated_at: iso(e.updatedAt),
+  };
+}
+function rowToEnrollment(r: any): SequenceEnrollment {
+  return {
+    id: r.id, contactId: r.contact_id, sequenceId: r.sequence_id,
+    status: r.status, currentStepId: r.current_step_id || null,
+    dueAt: r.due_at ? new Date(r.due_at) : undefined,
+    pausedUntil: r.paused_until ? new Date(r.paused_until) : undefined,
+    stepRuns: (Array.isArray(r.step_runs) ? r.step_runs : []).map((run: any) => ({
+      ...run, executedAt: run.executedAt ? new Date(run.executedAt) : undefined,
+      scheduledAt: run.scheduledAt ? new Date(run.scheduledAt) : undefined,
+    })),
+    appliedBranches: r.applied_branches || [],
+    exitReason: r.exit_reason || undefined,
+    enrolledAt: new Date(r.enrolled_at), updatedAt: new Date(r.updated_at),
+  };
+}
+
+// ─── Suppression mappers ───
+function suppressionToRow(s: SuppressionEntry) {
+  return {
+    id: s.id, email: s.email?.toLowerCase() || null, phone: s.phone || null,
+    domain: s.domain?.toLowerCase() || null,
+    contact_id: s.contactId || null, reason: s.reason, source: s.source,
+    created_at: iso(s.createdAt), expires_at: iso(s.expiresAt),
+  };
+}
+function rowToSuppression(r: any): SuppressionEntry {
+  return {
+    id: r.id, email: r.email || undefined, phone: r.phone || undefined,
+    domain: r.domain || undefined,
+    contactId: r.contact_id || undefined, reason: r.reason, source: r.source || '',
+    createdAt: new Date(r.created_at),
+    expiresAt: r.expires_at ? new Date(r.expires_at) : undefined,
+  };
+}
+
+// ─── Scoring model mappers ───
+function scoringModelToRow(m: ScoringModel, activeId: string) {
+  return {
+    id: m.id, name: m.name, version: m.version,
+    weights: m.weights, tiers: m.tiers, notes: m.notes || null,
+    is_active: m.id === activeId,
+    created_at: iso(m.createdAt),
+  };
+}
+function rowToScoringModel(r: any): ScoringModel {
+  return {
+    id: r.id, name: r.name, version: Number(r.version),
+    weights: r.weights || {}, tiers: r.tiers || {},
+    notes: r.notes || undefined,
+    createdAt: new Date(r.created_at),
+  };
+}
+
+// ─── Email template mappers ───
+function senderProfileToRow(p: SenderProfile) {
+  return {
+    id: p.id, name: p.name, from_name: p.fromName, from_email: p.fromEmail,
+    reply_to: p.replyTo || null, title: p.title || null,
+    signature_html: p.signatureHtml, is_default: !!p.isDefault,
+    created_at: iso(p.createdAt), updated_at: iso(p.updatedAt),
+  };
+}
+function rowToSenderProfile(r: any): SenderProfile {
+  return {
+    id: r.id, name: r.name, fromName: r.from_name, fromEmail: r.from_email,
+    replyTo: r.reply_to || undefined, title: r.title || undefined,
+    signatureHtml: r.signature_html || '', isDefault: !!r.is_default,
+    createdAt: new Date(r.created_at), updatedAt: new Date(r.updated_at),
+  };
+}
+function emailTemplateToRow(t: EmailTemplate) {
+  return {
+    id: t.id, name: t.name, description: t.description || null,
+    subject: t.subject, html: t.html,
+    sender_profile_id: t.senderProfileId || null,
+    version: t.version, archived: !!t.archived,
+    created_at: iso(t.createdAt), updated_at: iso(t.updatedAt),
+  };
+}
+function rowToEmailTemplate(r: any): EmailTemplate {
+  return {
+    id: r.id, name: r.name, description: r.description || undefined,
+    subject: r.subject, html: r.html,
+    senderProfileId: r.sender_profile_id || undefined,
+    version: Number(r.version) || 1, archived: !!r.archived,
+    createdAt: new Date(r.created_at), updatedAt: new Date(r.updated_at),
+  };
+}
+function templateVersionToRow(v: EmailTemplateVersion) {
+  return {
+    id: v.id, template_id: v.templateId, version: v.version,
+    name: v.name, subject: v.subject, html: v.html,
+    sender_profile_id: v.senderProfileId || null, note: v.note || null,
+    created_at: iso(v.createdAt),
+  };
+}
+function rowToTemplateVersion(r: any): EmailTemplateVersion {
+  return {
+    id: r.id, templateId: r.template_id, version: Number(r.version),
+    name: r.name, subject: r.subject, html: r.html,
+    senderProfileId: r.sender_profile_id || undefined, note: r.note || undefined,
+    createdAt: new Date(r.created_at),
+  };
+}
+
+// ─── Email experiment mappers ───
+function experimentToRow(x: EmailExperiment) {
+  return {
+    id: x.id, name: x.name, target: x.target, variants: x.variants,
+    metric: x.metric, status: x.status,
+    min_sample_per_variant: x.minSamplePerVariant, confidence: x.confidence,
+    winner_variant_id: x.winnerVariantId || null, decided_at: iso(x.decidedAt),
+    created_at: iso(x.createdAt), updated_at: iso(x.updatedAt),
+  };
+}
+function rowToExperiment(r: any): EmailExperiment {
+  return {
+    id: r.id, name: r.name, target: r.target, variants: r.variants || [],
+    metric: r.metric || 'open', status: r.status || 'draft',
+    minSamplePerVariant: Number(r.min_sample_per_variant) || 50,
+    confidence: Number(r.confidence) || 0.95,
+    winnerVariantId: r.winner_variant_id || undefined,
+    decidedAt: r.decided_at ? new Date(r.decided_at) : undefined,
+    createdAt: new Date(r.created_at), updatedAt: new Date(r.updated_at),
+  };
+}
+
+// ─── Sender pool mappers ───
+function mailboxToRow(m: SendingMailbox) {
+  return {
+    id: m.id, provider: m.provider, from_email: m.fromEmail, from_name: m.fromName || null,
+    domain: m.domain, status: m.status, paused_reason: m.pausedReason || null,
+    warmup_started_at: iso(m.warmupStartedAt), warmup_start_cap: m.warmupStartCap,
+    warmup_daily_increase: m.warmupDailyIncrease, max_daily_cap: m.maxDailyCap,
+    created_at: iso(m.createdAt), updated_at: iso(m.updatedAt),
+  };
+}
+function rowToMailbox(r: any): SendingMailbox {
+  return {
+    id: r.id, provider: r.provider, fromEmail: r.from_email || '', fromName: r.from_name || undefined,
+    domain: r.domain, status: r.status || 'active', pausedReason: r.paused_reason || undefined,
+    warmupStartedAt: new Date(r.warmup_started_at), warmupStartCap: Number(r.warmup_start_cap) || 0,
+    warmupDailyIncrease: Number(r.warmup_daily_increase) || 0, maxDailyCap: Number(r.max_daily_cap) || 0,
+    createdAt: new Date(r.created_at), updatedAt: new Date(r.updated_at),
+  };
+}
+
+// ─── Enrichment ledger mappers ───
+function ledgerEntryToRow(e: EnrichmentLedgerEntry) {
+  return {
+    id: e.id, run_id: e.runId, clinic_id: e.clinicId, provider: e.provider, field: e.field,
+    credits: e.credits, cost_usd: e.costUsd, hit: e.hit, filled: e.filled,
+    emails_found: e.emailsFound, verified_emails: e.verifiedEmails, error: e.error || null,
+    created_at: iso(e.createdAt),
+  };
+}
+function rowToLedgerEntry(r: any): EnrichmentLedgerEntry {
+  return {
+    id: r.id, runId: r.run_id || '', clinicId: r.clinic_id || '', provider: r.provider, field: r.field,
+    credits: Number(r.credits) || 0, costUsd: Number(r.cost_usd) || 0, hit: !!r.hit, filled: r.filled || [],
+    emailsFound: Number(r.emails_found) || 0, verifiedEmails: Number(r.verified_emails) || 0,
+    error: r.error || undefined, createdAt: new Date(r.created_at),
+  };
+}
+
+// ─── Email verification mappers ───
+function verificationToRow(v: EmailVerification) {
+  return {
+    email: v.email, status: v.status, provider: v.provider, checked_at: iso(v.checkedAt),
+    catch_all: v.catchAll, role_account: v.roleAccount,
+  };
+}
+function rowToVerification(r: any): EmailVerification {
+  return {
+    email: r.email, status: r.status, provider: r.provider, checkedAt: new Date(r.checked_at),
+    catchAll: !!r.catch_all, roleAccount: !!r.role_account,
+  };
+}
+
+// ─── Audit log mappers ───
+function auditToRow(e: AuditEntry) {
+  return {
+    id: e.id, action: e.action, scope: e.scope, actor: e.actor, record_count: e.recordCount,
+    snapshot: e.snapshot || null, created_at: iso(e.createdAt), restore_until: iso(e.restoreUntil),
+    restored_at: iso(e.restoredAt), restored_by: e.restoredBy || null,
+  };
+}
+function rowToAudit(r: any): AuditEntry {
+  return {
+    id: r.id, action: r.action, scope: r.scope || { tables: [] }, actor: r.actor || { sessionId: null, role: 'unknown', name: 'Unknown' },
+    recordCount: Number(r.record_count) || 0, snapshot: r.snapshot || undefined,
+    createdAt: new Date(r.created_at), restoreUntil: new Date(r.restore_until),
+    restoredAt: r.restored_at ? new Date(r.restored_at) : undefined, restoredBy: r.restored_by || undefined,
+  };
+}
 
 /* ═══════════════════════════════════════════════════
    SYNC SERVICE — all public methods are no-ops
@@ -291,18 +641,45 @@ function rowToCampaign(r: any): Campaign {
 
 class SupabaseSyncService {
   private ready = false;
+  /** The database has run migration 030 — deletes are soft and recorded in audit_log */
+  private softDeletes = false;
   private readonly PAGE_SIZE = 1000;
 
-  private async fetchAllRows(table: string, select = '*'): Promise<any[]> {
+  /** Every row of `table`; soft-deleted rows only when asked for (contacts still point at cleared clinics) */
+  private async fetchAllRows(table: string, select = '*', includeDeleted = false): Promise<any[]> {
+    if (!supabase) return [];
+    const rows: any[] = [];
+    let from = 0;
+    const liveOnly = !includeDeleted && this.softDeletes && SOFT_DELETE_TABLES.includes(table);
+    while (true) {
+      let query = supabase
+        .from(table)
+        .select(select);
+      if (liveOnly) query = query.is('deleted_at', null);
+      const { data, error } = await query.range(from, from + this.PAGE_SIZE - 1);
+      if (error) throw new Error(`${table} fetch: ${error.message}`);
+      if (!data?.length) break;
+      rows.push(...data);
+      if (data.length < this.PAGE_SIZE) break;
+      from += this.PAGE_SIZE;
+    }
+    return rows;
+  }
+
+  /** Rows changed at or after `sinceIso` (server-side updated_at), oldest first */
+  private async fetchRowsSince(table: string, sinceIso: string): Promise<any[]> {
     if (!supabase) return [];
     const rows: any[] = [];
     let from = 0;
     while (true) {
       const { data, error } = await supabase
         .from(table)
-        .select(select)
+        .select('*')
+        .gte('updated_at', sinceIso)
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
         .range(from, from + this.PAGE_SIZE - 1);
-      if (error) throw new Error(`${table} fetch: ${error.message}`);
+      if (error) throw new Error(`${table} delta fetch: ${error.message}`);
       if (!data?.length) break;
       rows.push(...data);
       if (data.length < this.PAGE_SIZE) break;
@@ -311,6 +688,19 @@ class SupabaseSyncService {
     return rows;
   }
 
+  /** Rows whose `column` is one of `values`, fetched in chunks */
+  private async fetchRowsIn(table: string, column: string, values: string[]): Promise<any[]> {
+    if (!supabase || !values.length) return [];
+    const rows: any[] = [];
+    const unique = [...new Set(values)];
+    for (let i = 0; i < unique.length; i += 200) {
+      const { data, error } = await supabase.from(table).select('*').in(column, unique.slice(i, i + 200));
+      if (error) throw new Error(`${table} fetch: ${error.message}`);
+      rows.push(...(data || []));
+    }
+    return rows;
+  }
+
   /** Test connection and verify tables exist */
   async init(): Promise<boolean> {
     if (!isSupabaseConfigured || !supabase) return false;
@@ -321,6 +711,9 @@ class SupabaseSyncService {
         return false;
       }
       this.ready = true;
+      const audit = await supabase.from('audit_log').select('id').limit(1);
+      this.softDeletes = !audit.error;
+      if (audit.error) console.warn('audit_log not found — run migration 030; deletes are permanent until then.', audit.error.message);
       console.log('✓ Supabase sync connected');
       return true;
     } catch (e) {
@@ -331,6 +724,26 @@ class SupabaseSyncService {
 
   get isReady() { return this.ready; }
 
+  /** Supabase credentials are present — writes are worth queueing even while it is unreachable */
+  get isConfigured() { return isSupabaseConfigured; }
+
+  /** Row migrations applied since the last call, and — once each — the ones this database turned out not to have run */
+  takeMigrationReport(): MigrationReportEntry[] {
+    const entries: MigrationReportEntry[] = [];
+    for (const { migration: m, count } of rowUpgrades.values()) {
+      entries.push({ scope: 'rows', version: m.version, name: m.name, table: m.table, detail: `upgraded ${count} row(s) written before it` });
+    }
+    rowUpgrades.clear();
+    for (const [table, since] of Object.entries(missingSince)) {
+      for (const m of ROW_MIGRATIONS.filter(m => m.table === table && m.version >= since)) {
+        if (reportedMissing.has(`${table}:${m.version}`)) continue;
+        reportedMissing.add(`${table}:${m.version}`);
+        entries.push({ scope: 'rows', version: m.version, name: m.name, table, detail: `not run on this database — writes leave out ${m.columns.join(', ')}` });
+      }
+    }
+    return entries;
+  }
+
   // ─── Markets ───
   async syncMarkets(markets: MarketZone[]): Promise<void> {
     if (!this.ready || !supabase) return;
@@ -351,8 +764,11 @@ class SupabaseSyncService {
   }
 
   // ─── Clinics ───
-  async syncClinics(clinics: Clinic[]): Promise<void> {
-    if (!this.ready || !supabase || !clinics.length) return;
+  /** False when any clinic row failed to save */
+  async syncClinics(clinics: Clinic[]): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    if (!clinics.length) return true;
+    let saved = true;
     // Ensure markets exist first
     const markets = clinics.reduce<Record<string, MarketZone>>((acc, c) => {
       acc[c.marketZone.id] = c.marketZone; return acc;
@@ -366,26 +782,11 @@ class SupabaseSyncService {
     const rows = Array.from(rowById.values());
     // Batch upsert in chunks of 100
     for (let i = 0; i < rows.length; i += 100) {
-      const chunk = rows.slice(i, i + 100);
-      const { error } = await supabase.from('clinics').upsert(chunk, { onConflict: 'id' });
-      if (!error) continue;
-      if (!isMissingVerificationStatusError(error.message) && !isMissingClinicGoogleVerifyColumnsError(error.message)) {
+      const error = await upsertRows('clinics', rows.slice(i, i + 100));
+      if (error) {
         console.error('syncClinics error:', error.message);
-        continue;
+        saved = false;
       }
-
-      const legacyChunk = chunk.map(c => {
-        const legacy = { ...c } as Record<string, unknown>;
-        delete legacy.verification_status;
-        delete legacy.google_verify_status;
-        delete legacy.google_verify_official_website;
-        delete legacy.google_verify_confirmed_email;
-        delete legacy.google_verify_found_emails;
-        delete legacy.google_verify_checked_at;
-        return legacy;
-      });
-      const { error: legacyError } = await supabase.from('clinics').upsert(legacyChunk, { onConflict: 'id' });
-      if (legacyError) console.error('syncClinics fallback error:', legacyError.message);
     }
 
     // Backfill decision_makers from clinic-level enrichment cache before downstream scoring sync.
@@ -459,17 +860,10 @@ class SupabaseSyncService {
     }
 
     for (let i = 0; i < dmRows.length; i += 200) {
-      const chunk = dmRows.slice(i, i + 200);
-      const { error } = await supabase.from('decision_makers').upsert(chunk, { onConflict: 'id' });
-      if (!error) continue;
-      const legacyChunk = chunk.map(dm => {
-        const legacy = { ...dm };
-        delete legacy.email_verification_status;
-        return legacy;
-      });
-      const { error: legacyError } = await supabase.from('decision_makers').upsert(legacyChunk, { onConflict: 'id' });
-      if (legacyError) console.error('syncClinics decision_makers backfill error:', legacyError.message);
+      const error = await upsertRows('decision_makers', dmRows.slice(i, i + 200));
+      if (error) console.error('syncClinics decision_makers backfill error:', error.message);
     }
+    return saved;
   }
 
   async fetchClinics(marketMap: Record<string, MarketZone>): Promise<Clinic[] | null> {
@@ -487,13 +881,28 @@ class SupabaseSyncService {
     }
   }
 
+  /** Clinics changed since the cursor, with their server timestamps */
+  async fetchClinicsSince(marketMap: Record<string, MarketZone>, sinceIso: string): Promise<RemoteRecord<Clinic>[] | null> {
+    if (!this.ready || !supabase) return null;
+    try {
+      const data = await this.fetchRowsSince('clinics', sinceIso);
+      return data.flatMap(r => {
+        if (r.deleted_at) return [{ record: { id: r.id } as Clinic, updatedAt: new Date(r.updated_at), deleted: true }];
+        const market = marketMap[r.market_id];
+        return market ? [{ record: rowToClinic(r, market), updatedAt: new Date(r.updated_at) }] : [];
+      });
+    } catch (err) {
+      console.warn('fetchClinicsSince error:', err);
+      return null;
+    }
+  }
+
   // ─── Keyword Trends ───
   async syncKeywordTrends(trends: KeywordTrend[]): Promise<void> {
     if (!this.ready || !supabase || !trends.length) return;
     const rows = trends.map(trendToRow);
     for (let i = 0; i < rows.length; i += 100) {
-      const chunk = rows.slice(i, i + 100);
-      const { error } = await supabase.from('keyword_trends').upsert(chunk, { onConflict: 'id' });
+      const error = await upsertRows('keyword_trends', rows.slice(i, i + 100));
       if (error) console.error('syncKeywordTrends error:', error.message);
     }
   }
@@ -516,7 +925,7 @@ class SupabaseSyncService {
   // ─── Decision Makers ───
   async upsertDecisionMaker(dm: DecisionMaker): Promise<void> {
     if (!this.ready || !supabase) return;
-    const { error } = await supabase.from('decision_makers').upsert(dmToRow(dm), { onConflict: 'id' });
+    const error = await upsertRows('decision_makers', [dmToRow(dm)]);
     if (error) console.error('upsertDM error:', error.message);
   }
 
@@ -557,33 +966,24 @@ class SupabaseSyncService {
       created_at: iso(c.createdAt), updated_at: iso(c.updatedAt),
       last_contacted_at: iso(c.lastContactedAt),
       next_follow_up: iso(c.nextFollowUp),
+      call_insights: c.callInsights || null,
+      campaign_id: c.campaignId || null,
+      field_provenance: c.provenance || null,
     }));
 
     for (let i = 0; i < rows.length; i += 100) {
       const chunk = rows.slice(i, i + 100);
-      const { error } = await supabase.from('contacts').upsert(chunk, { onConflict: 'id' });
+      const error = await upsertRows('contacts', chunk);
       if (error) console.error('syncContacts error:', error.message);
     }
 
-    // Sync keyword matches junction
-    for (const c of contacts) {
-      if (!c.keywordMatches?.length) continue;
-      // Ensure trends exist
-      await this.syncKeywordTrends(c.keywordMatches);
-      const junctionRows = c.keywordMatches.map(km => ({
-        contact_id: c.id, keyword_trend_id: km.id,
-      }));
-      // Delete old matches then insert new
-      await supabase.from('contact_keyword_matches').delete().eq('contact_id', c.id);
-      const { error } = await supabase.from('contact_keyword_matches').insert(junctionRows);
-      if (error) console.error('syncContactKeywords error:', error.message);
-    }
+    await this.syncKeywordMatches(contacts);
 
     // Sync activities
     for (const c of contacts) {
       if (!c.activities?.length) continue;
       const actRows = c.activities.map(a => activityToRow(a, c.id));
-      const { error } = await supabase.from('activities').upsert(actRows, { onConflict: 'id' });
+      const error = await upsertRows('activities', actRows);
       if (error) console.error('syncActivities error:', error.message);
     }
   }
@@ -594,17 +994,58 @@ class SupabaseSyncService {
     if (!this.ready || !supabase) return null;
 
     // Fetch all needed data in parallel
-    const [contactRows, clinicRowsRaw, dmRowsRaw, activityRowsRaw, trendRowsRaw, junctionRowsRaw] = await Promise.all([
+    const [contactRows, clinicRows, dmRows, activityRows, trendRows, junctionRows] = await Promise.all([
       this.fetchAllRows('contacts'),
-      this.fetchAllRows('clinics'),
+      this.fetchAllRows('clinics', '*', true),
       this.fetchAllRows('decision_makers'),
       this.fetchAllRows('activities'),
-      this.fetchAllRows('keyword_trends'),
+      this.fetchAllRows('keyword_trends', '*', true),
       this.fetchAllRows('contact_keyword_matches'),
     ]);
 
     if (!contactRows.length) return null;
+    return this.assembleContacts(contactRows, clinicRows, dmRows, activityRows, trendRows, junctionRows, marketMap)
+      .map(x => x.record);
+  }
+
+  /**
+   * Contacts changed since the cursor, with their server timestamps. A new
+   * activity, keyword match or decision-maker edit bumps the contact's
+   * updated_at (migration 029), so those arrive here too.
+   */
+  async fetchContactsSince(marketMap: Record<string, MarketZone>, sinceIso: string): Promise<RemoteRecord<CRMContact>[] | null> {
+    if (!this.ready || !supabase) return null;
+    try {
+      const rows = await this.fetchRowsSince('contacts', sinceIso);
+      if (!rows.length) return [];
+      const deleted = rows.filter(r => r.deleted_at)
+        .map(r => ({ record: { id: r.id } as CRMContact, updatedAt: new Date(r.updated_at), deleted: true }));
+      const contactRows = rows.filter(r => !r.deleted_at);
+      if (!contactRows.length) return deleted;
+      const ids = contactRows.map(r => r.id);
+      const [clinicRows, dmRows, activityRows, junctionRows] = await Promise.all([
+        this.fetchRowsIn('clinics', 'id', contactRows.map(r => r.clinic_id)),
+        this.fetchRowsIn('decision_makers', 'id', contactRows.map(r => r.decision_maker_id).filter(Boolean)),
+        this.fetchRowsIn('activities', 'contact_id', ids),
+        this.fetchRowsIn('contact_keyword_matches', 'contact_id', ids),
+      ]);
+      const trendRows = await this.fetchRowsIn('keyword_trends', 'id', junctionRows.map(j => j.keyword_trend_id));
+      return [...deleted, ...this.assembleContacts(contactRows, clinicRows, dmRows, activityRows, trendRows, junctionRows, marketMap)];
+    } catch (err) {
+      console.warn('fetchContactsSince error:', err);
+      return null;
+    }
+  }
 
+  private assembleContacts(
+    contactRows: any[],
+    clinicRowsRaw: any[],
+    dmRowsRaw: any[],
+    activityRowsRaw: any[],
+    trendRowsRaw: any[],
+    junctionRowsRaw: any[],
+    marketMap: Record<string, MarketZone>,
+  ): RemoteRecord<CRMContact>[] {
     // Build lookup maps
     const clinicRows = new Map((clinicRowsRaw || []).map(r => [r.id, r]));
     const dmRows = new Map((dmRowsRaw || []).map(r => [r.id, r]));
@@ -620,7 +1061,7 @@ class SupabaseSyncService {
       junctionMap.get(j.contact_id)!.push(j.keyword_trend_id);
     }
 
-    const contacts: CRMContact[] = [];
+    const contacts: RemoteRecord<CRMContact>[] = [];
     for (const cr of contactRows) {
       const clinicRow = clinicRows.get(cr.clinic_id);
       if (!clinicRow) continue;
@@ -641,25 +1082,67 @@ class SupabaseSyncService {
         .filter(Boolean) as KeywordTrend[];
 
       contacts.push({
-        id: cr.id, clinic, decisionMaker: dm,
-        status: cr.status, priority: cr.priority, score: cr.score,
-        tags: cr.tags || [], notes: cr.notes || '',
-        keywordMatches, activities,
-        createdAt: new Date(cr.created_at), updatedAt: new Date(cr.updated_at),
-        lastContactedAt: cr.last_contacted_at ? new Date(cr.last_contacted_at) : undefined,
-        nextFollowUp: cr.next_follow_up ? new Date(cr.next_follow_up) : undefined,
+        record: {
+          id: cr.id, clinic, decisionMaker: dm,
+          status: cr.status, priority: cr.priority, score: cr.score,
+          tags: cr.tags || [], notes: cr.notes || '',
+          keywordMatches, activities,
+          createdAt: new Date(cr.created_at), updatedAt: new Date(cr.updated_at),
+          lastContactedAt: cr.last_contacted_at ? new Date(cr.last_contacted_at) : undefined,
+          nextFollowUp: cr.next_follow_up ? new Date(cr.next_follow_up) : undefined,
+          callInsights: cr.call_insights || undefined,
+          campaignId: cr.campaign_id || undefined,
+          provenance: cr.field_provenance || undefined,
+        },
+        updatedAt: new Date(cr.updated_at),
       });
     }
     return contacts;
   }
 
+  /** Bring contact_keyword_matches in line with each contact's matches — only the rows that differ are written */
+  private async syncKeywordMatches(contacts: CRMContact[]): Promise<void> {
+    if (!supabase) return;
+    const withMatches = contacts.filter(c => c.keywordMatches?.length);
+    if (!withMatches.length) return;
+    // Ensure trends exist
+    await this.syncKeywordTrends(withMatches.flatMap(c => c.keywordMatches));
+
+    let existing: any[];
+    try {
+      existing = await this.fetchRowsIn('contact_keyword_matches', 'contact_id', withMatches.map(c => c.id));
+    } catch (err) {
+      console.error('syncContactKeywords error:', err);
+      return;
+    }
+    const existingByContact = new Map<string, string[]>();
+    for (const j of existing) {
+      if (!existingByContact.has(j.contact_id)) existingByContact.set(j.contact_id, []);
+      existingByContact.get(j.contact_id)!.push(j.keyword_trend_id);
+    }
+
+    const inserts: { contact_id: string; keyword_trend_id: string }[] = [];
+    for (const c of withMatches) {
+      const { add, remove } = diffJunction(existingByContact.get(c.id) || [], c.keywordMatches.map(km => km.id));
+      for (const id of add) inserts.push({ contact_id: c.id, keyword_trend_id: id });
+      if (remove.length) {
+        const { error } = await supabase.from('contact_keyword_matches').delete().eq('contact_id', c.id).in('keyword_trend_id', remove);
+        if (error) console.error('syncContactKeywords delete error:', error.message);
+      }
+    }
+    for (let i = 0; i < inserts.length; i += 500) {
+      const { error } = await supabase.from('contact_keyword_matches').insert(inserts.slice(i, i + 500));
+      if (error) console.error('syncContactKeywords error:', error.message);
+    }
+  }
+
   // ─── Single-entity upserts (called on individual mutations) ───
 
-  async upsertContact(contact: CRMContact): Promise<void> {
-    if (!this.ready || !supabase) return;
+  async upsertContact(contact: CRMContact): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
     // Ensure clinic + market exist
     await this.syncMarkets([contact.clinic.marketZone]);
-    await this.syncClinics([contact.clinic]);
+    const clinicSaved = await this.syncClinics([contact.clinic]);
     if (contact.decisionMaker) await this.upsertDecisionMaker(contact.decisionMaker);
 
     const row = {
@@ -670,34 +1153,38 @@ class SupabaseSyncService {
       created_at: iso(contact.createdAt), updated_at: iso(contact.updatedAt),
       last_contacted_at: iso(contact.lastContactedAt),
       next_follow_up: iso(contact.nextFollowUp),
+      call_insights: contact.callInsights || null,
+      campaign_id: contact.campaignId || null,
+      field_provenance: contact.provenance || null,
     };
-    const { error } = await supabase.from('contacts').upsert(row, { onConflict: 'id' });
+    const error = await upsertRows('contacts', [row]);
     if (error) console.error('upsertContact error:', error.message);
 
-    // Sync keyword matches
-    if (contact.keywordMatches?.length) {
-      await this.syncKeywordTrends(contact.keywordMatches);
-      await supabase.from('contact_keyword_matches').delete().eq('contact_id', contact.id);
-      await supabase.from('contact_keyword_matches').insert(
-        contact.keywordMatches.map(km => ({ contact_id: contact.id, keyword_trend_id: km.id }))
-      );
-    }
+    await this.syncKeywordMatches([contact]);
 
     // Sync activities
+    let saved = clinicSaved && !error;
     if (contact.activities?.length) {
       const actRows = contact.activities.map(a => activityToRow(a, contact.id));
-      await supabase.from('activities').upsert(actRows, { onConflict: 'id' });
+      const actError = await upsertRows('activities', actRows);
+      if (actError) {
+        console.error('upsertContact activities error:', actError.message);
+        saved = false;
+      }
     }
+    return saved;
   }
 
-  async addActivity(contactId: string, activity: Activity): Promise<void> {
-    if (!this.ready || !supabase) return;
-    const { error } = await supabase.from('activities').upsert(activityToRow(activity, contactId), { onConflict: 'id' });
+  async addActivity(contactId: string, activity: Activity): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    const error = await upsertRows('activities', [activityToRow(activity, contactId)]);
     if (error) console.error('addActivity error:', error.message);
+    return !error;
   }
 
-  async updateContactFields(contactId: string, updates: Record<string, any>): Promise<void> {
-    if (!this.ready || !supabase) return;
+  /** True once Supabase has the contact row change */
+  async updateContactFields(contactId: string, updates: Record<string, any>): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
     // Map camelCase to snake_case for known fields
     const mapped: Record<string, any> = { updated_at: new Date().toISOString() };
     if ('status' in updates) mapped.status = updates.status;
@@ -707,6 +1194,9 @@ class SupabaseSyncService {
     if ('tags' in updates) mapped.tags = updates.tags;
     if ('lastContactedAt' in updates) mapped.last_contacted_at = iso(updates.lastContactedAt);
     if ('nextFollowUp' in updates) mapped.next_follow_up = iso(updates.nextFollowUp);
+    if ('callInsights' in updates) mapped.call_insights = updates.callInsights || null;
+    if ('campaignId' in updates) mapped.campaign_id = updates.campaignId || null;
+    if ('provenance' in updates) mapped.field_provenance = updates.provenance || null;
     if ('decisionMaker' in updates && updates.decisionMaker) {
       await this.upsertDecisionMaker(updates.decisionMaker);
       mapped.decision_maker_id = updates.decisionMaker.id;
@@ -715,13 +1205,25 @@ class SupabaseSyncService {
       await this.syncClinics([updates.clinic]);
     }
 
-    const { error } = await supabase.from('contacts').update(mapped).eq('id', contactId);
+    const { error } = await supabase.from('contacts').update(writableRow('contacts', mapped)).eq('id', contactId);
     if (error) console.error('updateContactFields error:', error.message);
+
+    let saved = !error;
+    if (Array.isArray(updates.activities) && updates.activities.length) {
+      const actRows = updates.activities.map((a: Activity) => activityToRow(a, contactId));
+      const actError = await upsertRows('activities', actRows);
+      if (actError) {
+        console.error('updateContactFields activities error:', actError.message);
+        saved = false;
+      }
+    }
+    return saved;
   }
 
   // ─── Voice Calls ───
-  async syncVoiceCalls(calls: VoiceCall[]): Promise<void> {
-    if (!this.ready || !supabase || !calls.length) return;
+  async syncVoiceCalls(calls: VoiceCall[]): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    if (!calls.length) return true;
     const rows = calls.map(callToRow);
     const contactIds = [...new Set(rows.map(r => r.contact_id).filter(Boolean))];
 
@@ -733,9 +1235,9 @@ class SupabaseSyncService {
         .in('id', contactIds);
       if (contactsError) {
         console.error('syncVoiceCalls contact precheck error:', contactsError.message);
-      } else {
-        validContactIds = new Set((data || []).map(c => c.id));
+        return false;
       }
+      validContactIds = new Set((data || []).map(c => c.id));
     }
 
     const rowsToSync =
@@ -747,10 +1249,11 @@ class SupabaseSyncService {
     if (droppedRows > 0) {
       console.warn(`syncVoiceCalls skipped ${droppedRows} orphan call(s) with missing contact_id FK.`);
     }
-    if (!rowsToSync.length) return;
+    if (!rowsToSync.length) return true;
 
-    const { error } = await supabase.from('voice_calls').upsert(rowsToSync, { onConflict: 'id' });
+    const error = await upsertRows('voice_calls', rowsToSync);
     if (error) console.error('syncVoiceCalls error:', error.message);
+    return !error;
   }
 
   async fetchVoiceCalls(): Promise<{ active: VoiceCall[]; history: VoiceCall[] } | null> {
@@ -770,11 +1273,18 @@ class SupabaseSyncService {
   }
 
   // ─── Campaigns ───
-  async syncCampaigns(campaigns: Campaign[]): Promise<void> {
-    if (!this.ready || !supabase || !campaigns.length) return;
-    const rows = campaigns.map(campaignToRow);
-    const { error } = await supabase.from('campaigns').upsert(rows, { onConflict: 'id' });
+  async syncCampaigns(campaigns: Campaign[]): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    if (!campaigns.length) return true;
+    const error = await upsertRows('campaigns', campaigns.map(campaignToRow));
     if (error) console.error('syncCampaigns error:', error.message);
+    return !error;
+  }
+
+  async deleteCampaign(campaignId: string, auditId?: string): Promise<void> {
+    if (!this.ready || !supabase) return;
+    const error = await this.removeRows('campaigns', auditId, q => q.eq('id', campaignId));
+    if (error) console.error('deleteCampaign error:', error.message);
   }
 
   async fetchCampaigns(): Promise<Campaign[] | null> {
@@ -790,14 +1300,18 @@ class SupabaseSyncService {
   }
 
   // ─── Sent Emails (Outreach tracking) ───
-  async syncSentEmails(emails: SentEmail[]): Promise<void> {
-    if (!this.ready || !supabase || !emails.length) return;
+  async syncSentEmails(emails: SentEmail[]): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    let saved = true;
     const rows = emails.map(sentEmailToRow);
     for (let i = 0; i < rows.length; i += 200) {
-      const chunk = rows.slice(i, i + 200);
-      const { error } = await supabase.from('sent_emails').upsert(chunk, { onConflict: 'id' });
-      if (error) console.error('syncSentEmails error:', error.message);
+      const error = await upsertRows('sent_emails', rows.slice(i, i + 200));
+      if (error) {
+        console.error('syncSentEmails error:', error.message);
+        saved = false;
+      }
     }
+    return saved;
   }
 
   async fetchSentEmails(): Promise<SentEmail[] | null> {
@@ -823,6 +1337,26 @@ class SupabaseSyncService {
     return (data || []).map(rowToSentEmail);
   }
 
+  /** Both sides of a contact's email conversation, bodies included */
+  async fetchEmailThreadMessages(contactId: string): Promise<ThreadMessage[] | null> {
+    if (!this.ready || !supabase) return null;
+    const [sent, replies] = await Promise.all([
+      supabase
+        .from('sent_emails')
+        .select('id, from_email, to_email, subject, sent_at, message_id, in_reply_to, reference_ids, body_text')
+        .eq('contact_id', contactId),
+      supabase
+        .from('email_replies')
+        .select('id, sent_email_id, from_email, to_email, subject, snippet, received_at, message_id, in_reply_to, reference_ids, body_text, body_html')
+        .eq('contact_id', contactId),
+    ]);
+    if (sent.error || replies.error) {
+      console.error('fetchEmailThreadMessages error:', (sent.error || replies.error)!.message);
+      return null;
+    }
+    return [...(sent.data || []).map(sentEmailRowToThreadMessage), ...(replies.data || []).map(replyRowToThreadMessage)];
+  }
+
   async fetchEmailReplyActivitiesSince(sinceIso: string): Promise<{ contactId: string; activity: Activity }[]> {
     if (!this.ready || !supabase) return [];
     const { data, error } = await supabase
@@ -838,6 +1372,320 @@ class SupabaseSyncService {
     }));
   }
 
+  // ─── Sequences ───
+  async syncSequences(sequences: SequenceDefinition[]): Promise<void> {
+    if (!this.ready || !supabase || !sequences.length) return;
+    const { error } = await supabase.from('sequences').upsert(sequences.map(sequenceToRow), { onConflict: 'id' });
+    if (error) console.error('syncSequences error:', error.message);
+  }
+
+  async fetchSequences(): Promise<SequenceDefinition[] | null> {
+    if (!this.ready || !supabase) return null;
+    let data: any[] = [];
+    try {
+      data = await this.fetchAllRows('sequences');
+    } catch {
+      return null;
+    }
+    if (!data.length) return null;
+    return data.map(rowToSequence);
+  }
+
+  async deleteSequence(sequenceId: string): Promise<void> {
+    if (!this.ready || !supabase) return;
+    const { error } = await supabase.from('sequences').delete().eq('id', sequenceId);
+    if (error) console.error('deleteSequence error:', error.message);
+  }
+
+  /**
+   * Built-in sequences only reach the table through saveSequence or pushAll;
+   * an enrollment into one that isn't there yet fails the sequence_id foreign
+   * key. Insert the missing ones — existing rows (possibly edited) are left alone.
+   */
+  private async ensureDefaultSequences(enrollments: SequenceEnrollment[]): Promise<void> {
+    if (!supabase) return;
+    const ids = new Set(enrollments.map(e => e.sequenceId));
+    const needed = DEFAULT_SEQUENCES.filter(seq => ids.has(seq.id) && !seededSequences.has(seq.id));
+    if (!needed.length) return;
+    const { error } = await supabase.from('sequences').upsert(needed.map(sequenceToRow), { onConflict: 'id', ignoreDuplicates: true });
+    if (error) console.error('ensureDefaultSequences error:', error.message);
+    else needed.forEach(seq => seededSequences.add(seq.id));
+  }
+
+  async syncSequenceEnrollments(enrollments: SequenceEnrollment[]): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    await this.ensureDefaultSequences(enrollments);
+    let saved = true;
+    const rows = enrollments.map(enrollmentToRow);
+    for (let i = 0; i < rows.length; i += 200) {
+      const error = await upsertRows('sequence_enrollments', rows.slice(i, i + 200));
+      if (error) {
+        console.error('syncSequenceEnrollments error:', error.message);
+        saved = false;
+      }
+    }
+    return saved;
+  }
+
+  async fetchSequenceEnrollments(): Promise<SequenceEnrollment[] | null> {
+    if (!this.ready || !supabase) return null;
+    let data: any[] = [];
+    try {
+      data = await this.fetchAllRows('sequence_enrollments');
+    } catch {
+      return null;
+    }
+    if (!data.length) return null;
+    return data.map(rowToEnrollment);
+  }
+
+  async deleteSequenceEnrollment(enrollmentId: string): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    const { error } = await supabase.from('sequence_enrollments').delete().eq('id', enrollmentId);
+    if (error) console.error('deleteSequenceEnrollment error:', error.message);
+    return !error;
+  }
+
+  async updateEmailReplyClassification(replyId: string, c: {
+    category: string; confidence: number; returnDate?: Date; summary?: string;
+  }): Promise<void> {
+    if (!this.ready || !supabase) return;
+    const { error } = await supabase.from('email_replies').update({
+      classification: c.category,
+      classification_confidence: c.confidence,
+      return_date: iso(c.returnDate),
+      classification_summary: c.summary || null,
+      classified_at: new Date().toISOString(),
+    }).eq('id', replyId);
+    if (error) console.error('updateEmailReplyClassification error:', error.message);
+  }
+
+  // ─── Suppression list ───
+  async syncSuppressions(entries: SuppressionEntry[]): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    if (!entries.length) return true;
+    const { error } = await supabase.from('suppression_list').upsert(entries.map(suppressionToRow), { onConflict: 'id' });
+    if (error) console.error('syncSuppressions error:', error.message);
+    return !error;
+  }
+
+  async fetchSuppressions(): Promise<SuppressionEntry[] | null> {
+    if (!this.ready || !supabase) return null;
+    let data: any[] = [];
+    try {
+      data = await this.fetchAllRows('suppression_list');
+    } catch {
+      return null;
+    }
+    if (!data.length) return null;
+    return data.map(rowToSuppression);
+  }
+
+  async fetchSuppressionsSince(sinceIso: string): Promise<SuppressionEntry[]> {
+    if (!this.ready || !supabase) return [];
+    const { data, error } = await supabase
+      .from('suppression_list')
+      .select('*')
+      .gt('created_at', sinceIso)
+      .order('created_at', { ascending: true })
+      .limit(500);
+    if (error) {
+      console.error('fetchSuppressionsSince error:', error.message);
+      return [];
+    }
+    return (data || []).map(rowToSuppression);
+  }
+
+  async deleteSuppressions(ids: string[]): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    if (!ids.length) return true;
+    const { error } = await supabase.from('suppression_list').delete().in('id', ids);
+    if (error) console.error('deleteSuppressions error:', error.message);
+    return !error;
+  }
+
+  // ─── Scoring models ───
+  async syncScoringModels(models: ScoringModel[], activeId: string): Promise<void> {
+    if (!this.ready || !supabase || !models.length) return;
+    const { error } = await supabase.from('scoring_models').upsert(models.map(m => scoringModelToRow(m, activeId)), { onConflict: 'id' });
+    if (error) console.error('syncScoringModels error:', error.message);
+  }
+
+  async fetchScoringModels(): Promise<{ models: ScoringModel[]; activeId: string | null } | null> {
+    if (!this.ready || !supabase) return null;
+    let data: any[] = [];
+    try {
+      data = await this.fetchAllRows('scoring_models');
+    } catch {
+      return null;
+    }
+    if (!data.length) return null;
+    return {
+      models: data.map(rowToScoringModel),
+      activeId: data.find(r => r.is_active)?.id || null,
+    };
+  }
+
+  // ─── Email templates + sender profiles ───
+  async syncSenderProfiles(profiles: SenderProfile[]): Promise<void> {
+    if (!this.ready || !supabase || !profiles.length) return;
+    const { error } = await supabase.from('sender_profiles').upsert(profiles.map(senderProfileToRow), { onConflict: 'id' });
+    if (error) console.error('syncSenderProfiles error:', error.message);
+  }
+
+  async deleteSenderProfile(id: string): Promise<void> {
+    if (!this.ready || !supabase) return;
+    const { error } = await supabase.from('sender_profiles').delete().eq('id', id);
+    if (error) console.error('deleteSenderProfile error:', error.message);
+  }
+
+  async syncEmailTemplates(templates: EmailTemplate[], versions: EmailTemplateVersion[] = []): Promise<void> {
+    if (!this.ready || !supabase || !templates.length) return;
+    const { error } = await supabase.from('email_templates').upsert(templates.map(emailTemplateToRow), { onConflict: 'id' });
+    if (error) { console.error('syncEmailTemplates error:', error.message); return; }
+    if (!versions.length) return;
+    // Versions are immutable — never overwrite history that is already there
+    const { error: vErr } = await supabase.from('email_template_versions')
+      .upsert(versions.map(templateVersionToRow), { onConflict: 'id', ignoreDuplicates: true });
+    if (vErr) console.error('syncEmailTemplates versions error:', vErr.message);
+  }
+
+  async fetchEmailTemplates(): Promise<{ templates: EmailTemplate[]; versions: EmailTemplateVersion[]; senderProfiles: SenderProfile[] } | null> {
+    if (!this.ready || !supabase) return null;
+    try {
+      const [templates, versions, senderProfiles] = await Promise.all([
+        this.fetchAllRows('email_templates'),
+        this.fetchAllRows('email_template_versions'),
+        this.fetchAllRows('sender_profiles'),
+      ]);
+      return {
+        templates: templates.map(rowToEmailTemplate),
+        versions: versions.map(rowToTemplateVersion),
+        senderProfiles: senderProfiles.map(rowToSenderProfile),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  // ─── Email experiments ───
+  async syncExperiments(experiments: EmailExperiment[]): Promise<void> {
+    if (!this.ready || !supabase || !experiments.length) return;
+    const { error } = await supabase.from('email_experiments').upsert(experiments.map(experimentToRow), { onConflict: 'id' });
+    if (error) console.error('syncExperiments error:', error.message);
+  }
+
+  async deleteExperiment(id: string): Promise<void> {
+    if (!this.ready || !supabase) return;
+    const { error } = await supabase.from('email_experiments').delete().eq('id', id);
+    if (error) console.error('deleteExperiment error:', error.message);
+  }
+
+  async fetchExperiments(): Promise<EmailExperiment[] | null> {
+    if (!this.ready || !supabase) return null;
+    try {
+      const data = await this.fetchAllRows('email_experiments');
+      return data.map(rowToExperiment);
+    } catch {
+      return null;
+    }
+  }
+
+  // ─── Sender pool ───
+  async syncSendingMailboxes(mailboxes: SendingMailbox[]): Promise<void> {
+    if (!this.ready || !supabase || !mailboxes.length) return;
+    const { error } = await supabase.from('sending_mailboxes').upsert(mailboxes.map(mailboxToRow), { onConflict: 'id' });
+    if (error) console.error('syncSendingMailboxes error:', error.message);
+  }
+
+  async deleteSendingMailbox(id: string): Promise<void> {
+    if (!this.ready || !supabase) return;
+    const { error } = await supabase.from('sending_mailboxes').delete().eq('id', id);
+    if (error) console.error('deleteSendingMailbox error:', error.message);
+  }
+
+  async fetchSendingMailboxes(): Promise<SendingMailbox[] | null> {
+    if (!this.ready || !supabase) return null;
+    try {
+      const data = await this.fetchAllRows('sending_mailboxes');
+      return data.map(rowToMailbox);
+    } catch {
+      return null;
+    }
+  }
+
+  // ─── Enrichment credit ledger (append-only) ───
+  async syncEnrichmentLedger(entries: EnrichmentLedgerEntry[]): Promise<void> {
+    if (!this.ready || !supabase || !entries.length) return;
+    const { error } = await supabase.from('enrichment_ledger').upsert(entries.map(ledgerEntryToRow), { onConflict: 'id' });
+    if (error) console.error('syncEnrichmentLedger error:', error.message);
+  }
+
+  async fetchEnrichmentLedger(): Promise<EnrichmentLedgerEntry[] | null> {
+    if (!this.ready || !supabase) return null;
+    const since = new Date(Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from('enrichment_ledger')
+      .select('*')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(5000);
+    if (error) {
+      console.error('fetchEnrichmentLedger error:', error.message);
+      return null;
+    }
+    return (data || []).map(rowToLedgerEntry);
+  }
+
+  // ─── Email verification cache (one row per address) ───
+  async syncEmailVerifications(entries: EmailVerification[]): Promise<void> {
+    if (!this.ready || !supabase || !entries.length) return;
+    const { error } = await supabase.from('email_verifications').upsert(entries.map(verificationToRow), { onConflict: 'email' });
+    if (error) console.error('syncEmailVerifications error:', error.message);
+  }
+
+  async fetchEmailVerifications(): Promise<EmailVerification[] | null> {
+    if (!this.ready || !supabase) return null;
+    const { data, error } = await supabase
+      .from('email_verifications')
+      .select('*')
+      .order('checked_at', { ascending: false })
+      .limit(MAX_VERIFICATIONS);
+    if (error) {
+      console.error('fetchEmailVerifications error:', error.message);
+      return null;
+    }
+    return (data || []).map(rowToVerification);
+  }
+
+  /** Newest server updated_at in a table — the starting cursor after a full pull */
+  async latestUpdatedAt(table: string): Promise<string | null> {
+    if (!this.ready || !supabase) return null;
+    const { data, error } = await supabase.from(table).select('updated_at').order('updated_at', { ascending: false }).limit(1);
+    if (error) {
+      console.warn(`latestUpdatedAt ${table} error:`, error.message);
+      return null;
+    }
+    return (data as any[])?.[0]?.updated_at || new Date(0).toISOString();
+  }
+
+  // ─── Realtime ───
+  /**
+   * Call `onChange(table)` whenever a row in one of `tables` changes (tables
+   * must be in the supabase_realtime publication, see migration 029).
+   * `onStatus` reports whether the channel is live. Returns the unsubscribe.
+   */
+  subscribeToChanges(tables: string[], onChange: (table: string) => void, onStatus?: (live: boolean) => void): () => void {
+    if (!this.ready || !supabase) return () => {};
+    const client = supabase;
+    const channel = client.channel('store-sync');
+    for (const table of tables) {
+      channel.on('postgres_changes', { event: '*', schema: 'public', table }, () => onChange(table));
+    }
+    channel.subscribe(status => onStatus?.(status === 'SUBSCRIBED'));
+    return () => { client.removeChannel(channel); };
+  }
+
   // ─── Full sync: push local → Supabase ───
   async pushAll(state: {
     markets: MarketZone[];
@@ -848,6 +1696,16 @@ class SupabaseSyncService {
     callHistory: VoiceCall[];
     campaigns: Campaign[];
     sentEmails?: SentEmail[];
+    sequences?: SequenceDefinition[];
+    sequenceEnrollments?: SequenceEnrollment[];
+    suppressions?: SuppressionEntry[];
+    scoringModels?: ScoringModel[];
+    activeScoringModelId?: string;
+    senderProfiles?: SenderProfile[];
+    emailTemplates?: EmailTemplate[];
+    emailTemplateVersions?: EmailTemplateVersion[];
+    experiments?: EmailExperiment[];
+    sendingMailboxes?: SendingMailbox[];
   }): Promise<void> {
     if (!this.ready) return;
     console.log('Pushing all data to Supabase...');
@@ -858,11 +1716,20 @@ class SupabaseSyncService {
     await this.syncVoiceCalls([...state.activeCalls, ...state.callHistory]);
     await this.syncCampaigns(state.campaigns);
     if (state.sentEmails?.length) await this.syncSentEmails(state.sentEmails);
+    if (state.sequences?.length) await this.syncSequences(state.sequences);
+    if (state.sequenceEnrollments?.length) await this.syncSequenceEnrollments(state.sequenceEnrollments);
+    if (state.suppressions?.length) await this.syncSuppressions(state.suppressions);
+    if (state.scoringModels?.length && state.activeScoringModelId) await this.syncScoringModels(state.scoringModels, state.activeScoringModelId);
+    if (state.senderProfiles?.length) await this.syncSenderProfiles(state.senderProfiles);
+    if (state.emailTemplates?.length) await this.syncEmailTemplates(state.emailTemplates, state.emailTemplateVersions);
+    if (state.experiments?.length) await this.syncExperiments(state.experiments);
+    if (state.sendingMailboxes?.length) await this.syncSendingMailboxes(state.sendingMailboxes);
     console.log('✓ Full push complete');
   }
 
   // ─── Full sync: pull Supabase → local ───
-  async pullAll(currentMarkets: MarketZone[]): Promise<{
+  /** `incremental` leaves clinics and contacts out — the caller pulls their deltas (fetchClinicsSince / fetchContactsSince) */
+  async pullAll(currentMarkets: MarketZone[], opts: { incremental?: boolean } = {}): Promise<{
     markets: MarketZone[];
     clinics: Clinic[];
     contacts: CRMContact[];
@@ -871,18 +1738,39 @@ class SupabaseSyncService {
     callHistory: VoiceCall[];
     campaigns: Campaign[];
     sentEmails: SentEmail[];
+    sequences: SequenceDefinition[];
+    sequenceEnrollments: SequenceEnrollment[];
+    suppressions: SuppressionEntry[];
+    scoringModels: ScoringModel[];
+    activeScoringModelId: string | null;
+    senderProfiles: SenderProfile[];
+    emailTemplates: EmailTemplate[];
+    emailTemplateVersions: EmailTemplateVersion[];
+    experiments: EmailExperiment[];
+    sendingMailboxes: SendingMailbox[];
+    enrichmentLedger: EnrichmentLedgerEntry[];
+    emailVerifications: EmailVerification[];
   } | null> {
     if (!this.ready) return null;
     console.log('Pulling all data from Supabase...');
 
     const markets = await this.fetchMarkets() || currentMarkets;
     const marketMap = Object.fromEntries(markets.map(m => [m.id, m]));
-    const clinics = await this.fetchClinics(marketMap) || [];
+    const clinics = opts.incremental ? [] : await this.fetchClinics(marketMap) || [];
     const keywordTrends = await this.fetchKeywordTrends(marketMap) || [];
-    const contacts = await this.fetchContacts(marketMap) || [];
+    const contacts = opts.incremental ? [] : await this.fetchContacts(marketMap) || [];
     const calls = await this.fetchVoiceCalls();
     const campaigns = await this.fetchCampaigns() || [];
     const sentEmails = await this.fetchSentEmails() || [];
+    const sequences = await this.fetchSequences() || [];
+    const sequenceEnrollments = await this.fetchSequenceEnrollments() || [];
+    const suppressions = await this.fetchSuppressions() || [];
+    const scoring = await this.fetchScoringModels();
+    const templates = await this.fetchEmailTemplates();
+    const experiments = await this.fetchExperiments() || [];
+    const sendingMailboxes = await this.fetchSendingMailboxes() || [];
+    const enrichmentLedger = await this.fetchEnrichmentLedger() || [];
+    const emailVerifications = await this.fetchEmailVerifications() || [];
 
     console.log(`✓ Pulled: ${markets.length} markets, ${clinics.length} clinics, ${contacts.length} contacts, ${keywordTrends.length} trends`);
     return {
@@ -891,70 +1779,161 @@ class SupabaseSyncService {
       callHistory: calls?.history || [],
       campaigns,
       sentEmails,
+      sequences,
+      sequenceEnrollments,
+      suppressions,
+      scoringModels: scoring?.models || [],
+      activeScoringModelId: scoring?.activeId || null,
+      senderProfiles: templates?.senderProfiles || [],
+      emailTemplates: templates?.templates || [],
+      emailTemplateVersions: templates?.versions || [],
+      experiments,
+      sendingMailboxes,
+      enrichmentLedger,
+      emailVerifications,
     };
   }
 
-  // ─── Delete all rows from a table ───
-  async deleteAllKeywordTrends(): Promise<void> {
+  // ─── Audit log and trash ───
+
+  /**
+   * Soft-delete the rows `filter` picks, tagged with the audit entry. On a
+   * database without migration 030 they are deleted for good, as before.
+   */
+  private async removeRows(table: string, auditId: string | undefined, filter: (query: any) => any): Promise<{ message: string } | null> {
+    if (!supabase) return null;
+    if (!this.softDeletes) return (await filter(supabase.from(table).delete())).error;
+    const query = supabase.from(table).update({ deleted_at: new Date().toISOString(), deleted_by: auditId || null });
+    return (await filter(query).is('deleted_at', null)).error;
+  }
+
+  async recordAudit(entry: AuditEntry): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    // Nowhere to record it yet — nothing to fail on either
+    if (!this.softDeletes) return true;
+    const { error } = await supabase.from('audit_log').upsert(auditToRow(entry), { onConflict: 'id' });
+    if (error) console.error('recordAudit error:', error.message);
+    return !error;
+  }
+
+  /** Recent audit entries, newest first, without their snapshots */
+  async fetchAuditLog(): Promise<AuditEntry[] | null> {
+    if (!this.ready || !supabase || !this.softDeletes) return null;
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('id, action, scope, actor, record_count, created_at, restore_until, restored_at, restored_by')
+      .order('created_at', { ascending: false })
+      .limit(AUDIT_LOG_LIMIT);
+    if (error) {
+      console.warn('fetchAuditLog error:', error.message);
+      return null;
+    }
+    return (data || []).map(rowToAudit);
+  }
+
+  /** Records as they were before the entry's action, as JSON */
+  async fetchAuditSnapshot(auditId: string): Promise<AuditSnapshot | null> {
+    if (!this.ready || !supabase || !this.softDeletes) return null;
+    const { data, error } = await supabase.from('audit_log').select('snapshot').eq('id', auditId).maybeSingle();
+    if (error) console.warn('fetchAuditSnapshot error:', error.message);
+    return data?.snapshot || null;
+  }
+
+  /**
+   * Bring back every row the entry soft-deleted. False when there is nothing
+   * to bring back server-side (rows were deleted for good) — the caller
+   * writes the snapshot again instead.
+   */
+  async restoreDeleted(auditId: string, actor: AuditActor): Promise<boolean> {
+    if (!this.ready || !supabase || !this.softDeletes) return false;
+    for (const table of SOFT_DELETE_TABLES) {
+      const { error } = await supabase.from(table).update({ deleted_at: null, deleted_by: null }).eq('deleted_by', auditId);
+      if (error) {
+        console.error(`restoreDeleted ${table} error:`, error.message);
+        return false;
+      }
+    }
+    const { error } = await supabase.from('audit_log')
+      .update({ restored_at: new Date().toISOString(), restored_by: actor })
+      .eq('id', auditId);
+    if (error) console.warn('restoreDeleted audit_log error:', error.message);
+    return true;
+  }
+
+  /** Remove soft-deleted rows past their restore window (purge_soft_deleted in migration 030) */
+  async purgeExpiredDeletes(): Promise<void> {
+    if (!this.ready || !supabase || !this.softDeletes) return;
+    const { data, error } = await supabase.rpc('purge_soft_deleted');
+    if (error) console.warn('purgeExpiredDeletes error:', error.message);
+    else if (data) console.log(`✓ Purged ${data} expired trash entr${data === 1 ? 'y' : 'ies'}`);
+  }
+
+  // ─── Delete all rows from a table (soft, see removeRows) ───
+  async deleteAllKeywordTrends(auditId?: string): Promise<void> {
     if (!this.ready || !supabase) return;
-    const { error } = await supabase.from('keyword_trends').delete().neq('id', '');
+    const error = await this.removeRows('keyword_trends', auditId, q => q.neq('id', ''));
     if (error) console.error('deleteAllKeywordTrends error:', error.message);
     else console.log('✓ Cleared keyword_trends from Supabase');
   }
 
-  async deleteAllClinics(): Promise<void> {
+  async deleteAllClinics(auditId?: string): Promise<void> {
     if (!this.ready || !supabase) return;
-    const { error } = await supabase.from('clinics').delete().neq('id', '');
+    const error = await this.removeRows('clinics', auditId, q => q.neq('id', ''));
     if (error) console.error('deleteAllClinics error:', error.message);
     else console.log('✓ Cleared clinics from Supabase');
   }
 
-  async deleteAllContacts(): Promise<void> {
+  async deleteAllContacts(auditId?: string): Promise<void> {
     if (!this.ready || !supabase) return;
-    // Delete junction table first (foreign key constraint)
-    await supabase.from('contact_keyword_matches').delete().neq('contact_id', '');
+    // A hard delete clears the junction table first (foreign key constraint); soft-deleted contacts keep their matches
+    if (!this.softDeletes) await supabase.from('contact_keyword_matches').delete().neq('contact_id', '');
     // Best-effort cleanup for outreach tracking (may not exist on older schemas)
-    await supabase.from('sent_emails').delete().neq('id', '').catch(() => {});
-    await supabase.from('email_replies').delete().neq('id', '').catch(() => {});
-    const { error } = await supabase.from('contacts').delete().neq('id', '');
+    await this.removeRows('sent_emails', auditId, q => q.neq('id', '')).catch(() => {});
+    await this.removeRows('email_replies', auditId, q => q.neq('id', '')).catch(() => {});
+    await this.removeRows('sequence_enrollments', auditId, q => q.neq('id', ''));
+    const error = await this.removeRows('contacts', auditId, q => q.neq('id', ''));
     if (error) console.error('deleteAllContacts error:', error.message);
     else console.log('✓ Cleared contacts from Supabase');
   }
 
-  async deleteContact(contactId: string): Promise<void> {
-    if (!this.ready || !supabase) return;
-    // Best-effort cleanup order to avoid FK errors on stricter schemas.
-    await supabase.from('activities').delete().eq('contact_id', contactId).catch(() => {});
-    await supabase.from('contact_keyword_matches').delete().eq('contact_id', contactId).catch(() => {});
-    await supabase.from('email_replies').delete().eq('contact_id', contactId).catch(() => {});
-    await supabase.from('sent_emails').delete().eq('contact_id', contactId).catch(() => {});
-    const { error } = await supabase.from('contacts').delete().eq('id', contactId);
+  async deleteContact(contactId: string, auditId?: string): Promise<boolean> {
+    if (!this.ready || !supabase) return false;
+    // Best-effort cleanup order to avoid FK errors on stricter schemas; soft-deleted contacts keep activities and matches
+    if (!this.softDeletes) {
+      await supabase.from('activities').delete().eq('contact_id', contactId).catch(() => {});
+      await supabase.from('contact_keyword_matches').delete().eq('contact_id', contactId).catch(() => {});
+    }
+    await this.removeRows('email_replies', auditId, q => q.eq('contact_id', contactId)).catch(() => {});
+    await this.removeRows('sent_emails', auditId, q => q.eq('contact_id', contactId)).catch(() => {});
+    await this.removeRows('sequence_enrollments', auditId, q => q.eq('contact_id', contactId));
+    const error = await this.removeRows('contacts', auditId, q => q.eq('id', contactId));
     if (error) console.error('deleteContact error:', error.message);
+    return !error;
   }
 
-  async deleteAllCalls(): Promise<void> {
+  async deleteAllCalls(auditId?: string): Promise<void> {
     if (!this.ready || !supabase) return;
-    const { error } = await supabase.from('voice_calls').delete().neq('id', '');
+    const error = await this.removeRows('voice_calls', auditId, q => q.neq('id', ''));
     if (error) console.error('deleteAllCalls error:', error.message);
     else console.log('✓ Cleared voice_calls from Supabase');
   }
 
-  async deleteAllCampaigns(): Promise<void> {
+  async deleteAllCampaigns(auditId?: string): Promise<void> {
     if (!this.ready || !supabase) return;
-    const { error } = await supabase.from('campaigns').delete().neq('id', '');
+    const error = await this.removeRows('campaigns', auditId, q => q.neq('id', ''));
     if (error) console.error('deleteAllCampaigns error:', error.message);
     else console.log('✓ Cleared campaigns from Supabase');
   }
 
-  /** Nuclear option — delete all user data from Supabase */
-  async deleteAll(): Promise<void> {
+  /** Nuclear option — delete all user data from Supabase (recoverable from the trash while the window lasts) */
+  async deleteAll(auditId?: string): Promise<void> {
     if (!this.ready || !supabase) return;
     console.log('🗑️ Deleting all data from Supabase...');
-    await this.deleteAllCalls();
-    await this.deleteAllCampaigns();
-    await this.deleteAllContacts();
-    await this.deleteAllKeywordTrends();
-    await this.deleteAllClinics();
+    await this.deleteAllCalls(auditId);
+    await this.deleteAllCampaigns(auditId);
+    await this.deleteAllContacts(auditId);
+    await this.deleteAllKeywordTrends(auditId);
+    await this.deleteAllClinics(auditId);
     console.log('✓ All Supabase data deleted');
   }
 }
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SuppressedRecipientError, suppressionService } from './suppressionService';
+
+const now = new Date('2026-03-02T15:00:00Z');
+
+describe('suppressionService', () => {
+  beforeEach(() => {
+    suppressionService.setListener(null);
+    suppressionService.load([]);
+  });
+
+  it('matches emails case-insensitively and by domain', () => {
+    suppressionService.register([
+      suppressionService.createEntry({ email: 'Dr@Clinic.com', reason: 'unsubscribe', source: 'test' }, now),
+      suppressionService.createEntry({ domain: '@blocked.org', reason: 'manual', source: 'test' }, now),
+    ]);
+    expect(suppressionService.isEmailSuppressed('dr@clinic.com')).toBe(true);
+    expect(suppressionService.isEmailSuppressed('office@clinic.com')).toBe(false);
+    expect(suppressionService.isEmailSuppressed('anyone@blocked.org')).toBe(true);
+    expect(() => suppressionService.assertCanEmail('x@blocked.org')).toThrow(SuppressedRecipientError);
+  });
+
+  it('normalises phones and ignores expired entries', () => {
+    suppressionService.register([
+      suppressionService.createEntry({ phone: '(512) 555-0100', reason: 'dnc_request', source: 'test' }, now),
+      suppressionService.createEntry({ email: 'soft@bounce.com', reason: 'bounce', source: 'test', expiresAt: new Date('2026-03-05T00:00:00Z') }, now),
+    ]);
+    expect(suppressionService.isPhoneSuppressed('+15125550100')).toBe(true);
+    expect(suppressionService.findForEmail('soft@bounce.com', now)).not.toBeNull();
+    expect(suppressionService.findForEmail('soft@bounce.com', new Date('2026-03-06T00:00:00Z'))).toBeNull();
+  });
+
+  it('hands service-raised entries to the listener', () => {
+    const added: string[] = [];
+    suppressionService.setListener({
+      add: entries => { added.push(...entries.map(e => e.phone || '')); suppressionService.register(entries); },
+      remove: ids => suppressionService.unregister(ids),
+    });
+    suppressionService.suppress([suppressionService.createEntry({ phone: '5125550199', reason: 'dnc_request', source: 'vapi_call' }, now)]);
+    expect(added).toEqual(['+15125550199']);
+    suppressionService.lift({ phone: '512-555-0199' });
+    expect(suppressionService.isPhoneSuppressed('5125550199')).toBe(false);
+  });
+});
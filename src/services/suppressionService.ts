@@ -0,0 +1,169 @@
+import type { SuppressionEntry, SuppressionReason } from '../types';
+
+/**
+ * Global suppression list — the single gate every outbound channel checks
+ * before contacting anyone (Resend, SMTP, referral emails, Vapi calls).
+ *
+ * Entries match on email, phone or whole email domain and may expire.
+ * The registry is in-memory for synchronous checks and is loaded from the
+ * store (which persists it to `suppression_list`); new entries raised by
+ * services are handed back to the store through the registered listener.
+ */
+
+/* ─── Normalisation ─── */
+
+export function normalizeSuppressionEmail(email: string): string {
+  return String(email || '').trim().toLowerCase();
+}
+
+export function normalizeSuppressionPhone(phone: string): string {
+  let cleaned = String(phone || '').replace(/[^\d+]/g, '');
+  if (/^\d{10}$/.test(cleaned)) cleaned = `+1${cleaned}`;
+  if (/^1\d{10}$/.test(cleaned)) cleaned = `+${cleaned}`;
+  if (cleaned && !cleaned.startsWith('+')) cleaned = `+${cleaned}`;
+  return cleaned;
+}
+
+export function emailDomain(email: string): string {
+  return normalizeSuppressionEmail(email).split('@')[1] || '';
+}
+
+export function isSuppressionActive(entry: SuppressionEntry, now = new Date()): boolean {
+  return !entry.expiresAt || new Date(entry.expiresAt).getTime() > now.getTime();
+}
+
+/* ─── Errors ─── */
+
+export class SuppressedRecipientError extends Error {
+  constructor(public readonly target: string, public readonly entry: SuppressionEntry) {
+    super(`${target} is suppressed (${entry.reason.replace(/_/g, ' ')})`);
+    this.name = 'SuppressedRecipientError';
+  }
+}
+
+/* ─── Registry ─── */
+
+interface SuppressionListener {
+  add: (entries: SuppressionEntry[]) => void;
+  remove: (ids: string[]) => void;
+}
+
+const registry = new Map<string, SuppressionEntry>();
+let listener: SuppressionListener | null = null;
+
+export class SuppressionService {
+  /** Replace the registry with the persisted list (store rehydrate / pull) */
+  load(entries: SuppressionEntry[]) {
+    registry.clear();
+    for (const e of entries) registry.set(e.id, e);
+  }
+
+  register(entries: SuppressionEntry[]) {
+    for (const e of entries) registry.set(e.id, e);
+  }
+
+  unregister(ids: string[]) {
+    for (const id of ids) registry.delete(id);
+  }
+
+  /** The store subscribes so service-raised entries get persisted */
+  setListener(next: SuppressionListener | null) {
+    listener = next;
+  }
+
+  /** Build an entry with normalised keys */
+  createEntry(input: {
+    email?: string;
+    phone?: string;
+    domain?: string;
+    contactId?: string;
+    reason: SuppressionReason;
+    source: string;
+    expiresAt?: Date;
+  }, now = new Date()): SuppressionEntry {
+    return {
+      id: `sup-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      email: input.email ? normalizeSuppressionEmail(input.email) : undefined,
+      phone: input.phone ? normalizeSuppressionPhone(input.phone) : undefined,
+      domain: input.domain ? input.domain.trim().toLowerCase().replace(/^@/, '') : undefined,
+      contactId: input.contactId,
+      reason: input.reason,
+      source: input.source,
+      createdAt: now,
+      expiresAt: input.expiresAt,
+    };
+  }
+
+  /** Add entries from a service (webhook result, call outcome…) */
+  suppress(entries: SuppressionEntry[]) {
+    if (!entries.length) return;
+    if (listener) listener.add(entries);
+    else this.register(entries);
+  }
+
+  /** Lift every active entry matching a phone or email */
+  lift(target: { email?: string; phone?: string }) {
+    const email = target.email ? normalizeSuppressionEmail(target.email) : '';
+    const phone = target.phone ? normalizeSuppressionPhone(target.phone) : '';
+    const ids = Array.from(registry.values())
+      .filter(e => (email && e.email === email) || (phone && e.phone === phone))
+      .map(e => e.id);
+    if (!ids.length) return;
+    if (listener) listener.remove(ids);
+    else this.unregister(ids);
+  }
+
+  findForEmail(email: string, now = new Date()): SuppressionEntry | null {
+    const addr = normalizeSuppressionEmail(email);
+    if (!addr) return null;
+    const domain = emailDomain(addr);
+    for (const e of registry.values()) {
+      if (!isSuppressionActive(e, now)) continue;
+      if (e.email && normalizeSuppressionEmail(e.email) === addr) return e;
+      if (e.domain && domain && e.domain === domain) return e;
+    }
+    return null;
+  }
+
+  findForPhone(phone: string, now = new Date()): SuppressionEntry | null {
+    const num = normalizeSuppressionPhone(phone);
+    if (!num) return null;
+    for (const e of registry.values()) {
+      if (!isSuppressionActive(e, now)) continue;
+      if (e.phone && normalizeSuppressionPhone(e.phone) === num) return e;
+    }
+    return null;
+  }
+
+  isEmailSuppressed(email: string): boolean {
+    return !!this.findForEmail(email);
+  }
+
+  isPhoneSuppressed(phone: string): boolean {
+    return !!this.findForPhone(phone);
+  }
+
+  /** Throws SuppressedRecipientError when the address may not be emailed */
+  assertCanEmail(email: string) {
+    const hit = this.findForEmail(email);
+    if (hit) throw new SuppressedRecipientError(email, hit);
+  }
+
+  /** Throws SuppressedRecipientError when the number may not be called */
+  assertCanCall(phone: string) {
+    const hit = this.findForPhone(phone);
+    if (hit) throw new SuppressedRecipientError(phone, hit);
+  }
+
+  get activeCount(): number {
+    const now = new Date();
+    return Array.from(registry.values()).filter(e => isSuppressionActive(e, now)).length;
+  }
+
+  get phoneCount(): number {
+    const now = new Date();
+    return Array.from(registry.values()).filter(e => e.phone && isSuppressionActive(e, now)).length;
+  }
+}
+
+export const suppressionService = new SuppressionService();
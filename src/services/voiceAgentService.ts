@@ -1,5 +1,11 @@
 import axios, { AxiosError } from 'axios';
-import { CRMContact, VoiceCall, CallStatus, CallOutcome } from '../types';
+import { CRMContact, VoiceCall, CallStatus, CallOutcome, CallingWindow, Clinic, CallExtraction, Campaign } from '../types';
+import { suppressionService, SuppressedRecipientError } from './suppressionService';
+import { CALL_EXTRACTION_SCHEMA, parseCallExtraction } from '../utils/callExtraction';
+import {
+  DEFAULT_CALLING_WINDOW, DEFAULT_TIMEZONE, describeCallingWindow, formatLocalTime, getCallingSchedule,
+  isWithinCallingWindow, nextCallingWindowStart, resolveCallingWindow, resolveClinicTimezone,
+} from '../utils/callingWindows';
 
 /* ─── Vapi API Types ─── */
 
@@ -7,6 +13,7 @@ interface VapiCallPayload {
   assistantId?: string;
   phoneNumberId: string;
   customer: { number: string; name?: string };
+  metadata?: Record<string, string>;
   assistantOverrides?: {
     firstMessage?: string;
     variableValues?: Record<string, string>;
@@ -24,6 +31,13 @@ interface VapiCallPayload {
     maxDurationSeconds?: number;
     backgroundSound?: string;
     hipaaEnabled?: boolean;
+    /** Answering-machine branch: when a machine picks up, leave voicemailMessage after the beep and hang up */
+    voicemailDetection?: {
+      provider: 'twilio' | 'vapi' | 'google' | 'openai';
+      voicemailExpectedDurationSeconds?: number;
+    };
+    /** Spoken (TTS) text, or a URL to a pre-recorded audio file */
+    voicemailMessage?: string;
     analysisPlan?: {
       summaryPrompt?: string;
       successEvaluationPrompt?: string;
@@ -46,6 +60,7 @@ interface VapiCallResponse {
   updatedAt: string;
   startedAt?: string;
   endedAt?: string;
+  endedReason?: string;
   transcript?: string;
   recordingUrl?: string;
   summary?: string;
@@ -59,6 +74,14 @@ interface VapiCallResponse {
   };
 }
 
+/** A batch contact outside its local calling window, with the next legal start */
+export interface BatchScheduledContact {
+  contact: CRMContact;
+  at: Date;
+  timezone: string;
+  localTime: string;
+}
+
 /* ─── Config ─── */
 
 const VAPI_BASE = 'https://api.vapi.ai';
@@ -68,24 +91,14 @@ const MAX_CONCURRENT_CALLS = 5;
 const CALL_SPACING_MS = 8000; // 8s between batch calls — Vapi rate limit safety
 const MAX_CALL_DURATION_SECONDS = 300; // 5 min max per call
 const SILENCE_TIMEOUT_SECONDS = 20; // hang up after 20s silence
-
-/* ─── Business Hours (Eastern Time) ─── */
-
-const BUSINESS_HOURS = {
-  start: 9,  // 9 AM
-  end: 17,   // 5 PM
-  days: [1, 2, 3, 4, 5], // Mon-Fri
-};
-
-/* ─── DNC Registry (in-memory, synced from store) ─── */
-
-const dncSet = new Set<string>();
+const VOICEMAIL_EXPECTED_DURATION_SECONDS = 25; // how long a greeting can run before we stop waiting for the beep
 
 export class VoiceAgentService {
   private apiKey: string;
   private phoneNumberId: string;
   private assistantId: string;
   private phoneNumber: string;
+  private voicemailAudioUrl: string;
   private activeCallCount = 0;
 
   constructor() {
@@ -93,6 +106,7 @@ export class VoiceAgentService {
     this.phoneNumberId = import.meta.env.VITE_VAPI_PHONE_NUMBER_ID || '';
     this.assistantId = import.meta.env.VITE_VAPI_ASSISTANT_ID || '';
     this.phoneNumber = import.meta.env.VITE_VAPI_PHONE_NUMBER || '';
+    this.voicemailAudioUrl = import.meta.env.VITE_VAPI_VOICEMAIL_AUDIO_URL || '';
   }
 
   get isConfigured(): boolean {
@@ -107,71 +121,62 @@ export class VoiceAgentService {
      BUSINESS HOURS CHECK
      ═══════════════════════════════════════════════════════════ */
 
-  isWithinBusinessHours(timezone = 'America/New_York'): boolean {
-    try {
-      const now = new Date();
-      const formatter = new Intl.DateTimeFormat('en-US', {
-        timeZone: timezone,
-        hour: 'numeric',
-        hour12: false,
-        weekday: 'short',
-      });
-      const parts = formatter.formatToParts(now);
-      const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '0');
-      const dayName = parts.find(p => p.type === 'weekday')?.value || '';
-      const dayMap: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 0 };
-      const dayNum = dayMap[dayName] ?? new Date().getDay();
-      return BUSINESS_HOURS.days.includes(dayNum) && hour >= BUSINESS_HOURS.start && hour < BUSINESS_HOURS.end;
-    } catch {
-      return true; // fail open
-    }
+  // Per-clinic local windows (see utils/callingWindows). Without a clinic the
+  // default window is checked in Eastern time.
+
+  isWithinBusinessHours(clinic?: Clinic, campaignWindow?: CallingWindow): boolean {
+    if (!clinic) return isWithinCallingWindow(new Date(), DEFAULT_TIMEZONE, campaignWindow || DEFAULT_CALLING_WINDOW);
+    return getCallingSchedule(clinic, new Date(), campaignWindow).callableNow;
   }
 
-  getNextBusinessWindow(timezone = 'America/New_York'): string {
-    try {
-      const now = new Date();
-      const formatter = new Intl.DateTimeFormat('en-US', {
-        timeZone: timezone, hour: 'numeric', minute: 'numeric', hour12: true, weekday: 'long',
-      });
-      return `Next window: Mon-Fri ${BUSINESS_HOURS.start}AM-${BUSINESS_HOURS.end > 12 ? BUSINESS_HOURS.end - 12 : BUSINESS_HOURS.end}PM (${timezone}). Current: ${formatter.format(now)}`;
-    } catch {
-      return 'Mon-Fri 9AM-5PM ET';
-    }
+  getNextBusinessWindow(clinic?: Clinic, campaignWindow?: CallingWindow): string {
+    const now = new Date();
+    const timezone = clinic ? resolveClinicTimezone(clinic) : DEFAULT_TIMEZONE;
+    const window = clinic ? resolveCallingWindow(clinic, campaignWindow) : (campaignWindow || DEFAULT_CALLING_WINDOW);
+    const next = nextCallingWindowStart(now, timezone, window);
+    const nextLabel = next ? formatLocalTime(next, timezone) : 'no opening in the next 3 weeks';
+    return `Next window: ${nextLabel} (${describeCallingWindow(window)}). Local now: ${formatLocalTime(now, timezone)}`;
   }
 
   /* ═══════════════════════════════════════════════════════════
      DNC (Do Not Call) MANAGEMENT
      ═══════════════════════════════════════════════════════════ */
 
-  addToDnc(phone: string) {
-    dncSet.add(this.normalizePhone(phone));
+  // Backed by the global suppression list (persisted via the store)
+
+  addToDnc(phone: string, source = 'manual') {
+    if (this.isOnDnc(phone)) return;
+    suppressionService.suppress([
+      suppressionService.createEntry({ phone, reason: source === 'manual' ? 'manual' : 'dnc_request', source }),
+    ]);
   }
 
   removeFromDnc(phone: string) {
-    dncSet.delete(this.normalizePhone(phone));
+    suppressionService.lift({ phone });
   }
 
   isOnDnc(phone: string): boolean {
-    return dncSet.has(this.normalizePhone(phone));
+    return suppressionService.isPhoneSuppressed(this.normalizePhone(phone));
   }
 
   get dncCount(): number {
-    return dncSet.size;
+    return suppressionService.phoneCount;
   }
 
   /* ═══════════════════════════════════════════════════════════
      OUTBOUND CALL — Production-grade
      ═══════════════════════════════════════════════════════════ */
 
-  async initiateCall(contact: CRMContact, customFirstMessage?: string): Promise<VoiceCall> {
+  async initiateCall(contact: CRMContact, customFirstMessage?: string, campaign?: Campaign): Promise<VoiceCall> {
     if (!contact.clinic.phone) throw new Error('No phone number for this clinic');
     if (!this.isConfigured) throw new Error('Vapi not configured — check API keys');
 
     const phone = this.normalizePhone(contact.clinic.phone);
 
-    // DNC check
-    if (this.isOnDnc(phone)) {
-      throw new Error(`${contact.clinic.name} is on the Do Not Call list`);
+    // DNC / suppression check
+    const suppressed = suppressionService.findForPhone(phone);
+    if (suppressed) {
+      throw new SuppressedRecipientError(`${contact.clinic.name} (${phone})`, suppressed);
     }
 
     // Concurrency guard
@@ -179,20 +184,53 @@ export class VoiceAgentService {
       throw new Error(`Max concurrent calls (${MAX_CONCURRENT_CALLS}) reached — wait for active calls to finish`);
     }
 
+    const payload = this.buildCallPayload(contact, customFirstMessage, campaign);
+
+    this.activeCallCount++;
+    try {
+      const response = await this.apiCallWithRetry<VapiCallResponse>(
+        () => axios.post(`${VAPI_BASE}/call/phone`, payload, { headers: this.headers })
+      );
+
+      return {
+        id: response.data.id,
+        contactId: contact.id,
+        agentId: this.assistantId,
+        startTime: new Date(response.data.createdAt),
+        status: this.mapStatus(response.data.status),
+        followUpRequired: false,
+        campaignId: campaign?.id,
+      };
+    } catch (err) {
+      this.activeCallCount = Math.max(0, this.activeCallCount - 1);
+      throw err;
+    }
+  }
+
+  /* ═══════════════════════════════════════════════════════════
+     CALL PAYLOAD — shared by direct dials and the server call queue
+     ═══════════════════════════════════════════════════════════ */
+
+  buildCallPayload(contact: CRMContact, customFirstMessage?: string, campaign?: Campaign): VapiCallPayload {
     const dm = contact.decisionMaker;
     const clinic = contact.clinic;
     const dmName = dm ? `${dm.firstName} ${dm.lastName}`.trim() : '';
 
     const firstMessage = customFirstMessage || this.buildFirstMessage(contact);
-    const systemPrompt = this.buildSystemPrompt(contact);
+    const systemPrompt = this.buildSystemPrompt(contact, campaign);
 
-    const payload: VapiCallPayload = {
+    return {
       assistantId: this.assistantId,
       phoneNumberId: this.phoneNumberId,
       customer: {
-        number: phone,
+        number: this.normalizePhone(clinic.phone),
         name: dmName || clinic.name,
       },
+      metadata: {
+        contactId: contact.id,
+        clinicId: clinic.id,
+        ...(campaign ? { campaignId: campaign.id } : {}),
+      },
       assistantOverrides: {
         firstMessage,
         variableValues: {
@@ -216,46 +254,20 @@ export class VoiceAgentService {
         endCallFunctionEnabled: true,
         endCallMessage: "Thanks for your time, have a great day!",
         hipaaEnabled: true,
+        voicemailDetection: {
+          provider: 'twilio',
+          voicemailExpectedDurationSeconds: VOICEMAIL_EXPECTED_DURATION_SECONDS,
+        },
+        voicemailMessage: this.voicemailAudioUrl || this.buildVoicemailMessage(contact),
         analysisPlan: {
           summaryPrompt: 'Summarize this sales call in 2-3 sentences. Include: who answered, their interest level, any next steps agreed upon, and any objections raised.',
           successEvaluationPrompt: 'Evaluate if this call was successful. A successful call means: the decision maker was reached AND they expressed interest OR agreed to a follow-up. A partially successful call means: reached a gatekeeper who took a message, or the DM asked for info to be sent. An unsuccessful call means: no answer, wrong number, or flat rejection.',
           successEvaluationRubric: 'NumericScale',
-          structuredDataPrompt: 'Extract the following from the call transcript.',
-          structuredDataSchema: {
-            type: 'object',
-            properties: {
-              reached_decision_maker: { type: 'boolean', description: 'Whether the actual decision maker was reached' },
-              interest_level: { type: 'string', enum: ['high', 'medium', 'low', 'none'], description: 'How interested the prospect seemed' },
-              next_step: { type: 'string', enum: ['demo_scheduled', 'send_info', 'callback', 'none', 'dnc'], description: 'Agreed next step' },
-              callback_time: { type: 'string', description: 'If callback requested, when (e.g. "Tuesday afternoon")' },
-              objections: { type: 'array', items: { type: 'string' }, description: 'Any objections raised' },
-              gatekeeper_name: { type: 'string', description: 'Name of gatekeeper if one was encountered' },
-              email_captured: { type: 'string', description: 'Any email address mentioned during the call' },
-              competitor_mentioned: { type: 'string', description: 'Any competitor names mentioned' },
-            },
-          },
+          structuredDataPrompt: 'Extract the following from the call transcript. Leave a field empty when it was not mentioned — never guess names, numbers or amounts.',
+          structuredDataSchema: CALL_EXTRACTION_SCHEMA,
         },
       },
     };
-
-    this.activeCallCount++;
-    try {
-      const response = await this.apiCallWithRetry<VapiCallResponse>(
-        () => axios.post(`${VAPI_BASE}/call/phone`, payload, { headers: this.headers })
-      );
-
-      return {
-        id: response.data.id,
-        contactId: contact.id,
-        agentId: this.assistantId,
-        startTime: new Date(response.data.createdAt),
-        status: this.mapStatus(response.data.status),
-        followUpRequired: false,
-      };
-    } catch (err) {
-      this.activeCallCount = Math.max(0, this.activeCallCount - 1);
-      throw err;
-    }
   }
 
   /* ═══════════════════════════════════════════════════════════
@@ -346,6 +358,7 @@ export class VoiceAgentService {
       maxConcurrent: MAX_CONCURRENT_CALLS,
       callSpacingMs: CALL_SPACING_MS,
       maxDurationSec: MAX_CALL_DURATION_SECONDS,
+      voicemailDrop: this.voicemailAudioUrl ? 'recorded' as const : 'tts' as const,
     };
   }
 
@@ -360,18 +373,18 @@ export class VoiceAgentService {
     return data;
   }
 
-  async getCallStatus(callId: string): Promise<Partial<VoiceCall>> {
+  async getCallStatus(callId: string): Promise<Partial<VoiceCall> & { analysis?: VapiCallResponse['analysis'] }> {
     const data = await this.getCall(callId);
-    const status = this.mapStatus(data.status);
+    const status = this.mapStatus(data.status, data.endedReason);
 
     // Decrement active count when call ends
-    if (status === 'completed' || status === 'failed' || status === 'no_answer') {
+    if (status === 'completed' || status === 'failed' || status === 'no_answer' || status === 'voicemail') {
       this.activeCallCount = Math.max(0, this.activeCallCount - 1);
     }
 
     // Auto-add to DNC if prospect said "don't call" / "remove me"
     if (data.analysis?.structuredData?.next_step === 'dnc' && data.customer?.number) {
-      this.addToDnc(data.customer.number);
+      this.addToDnc(data.customer.number, 'vapi_call');
     }
 
     return {
@@ -380,6 +393,7 @@ export class VoiceAgentService {
       transcript: data.transcript,
       recording_url: data.recordingUrl,
       notes: data.analysis?.summary || data.summary,
+      analysis: data.analysis,
       duration: data.startedAt && data.endedAt
         ? Math.round((new Date(data.endedAt).getTime() - new Date(data.startedAt).getTime()) / 1000)
         : undefined,
@@ -404,6 +418,7 @@ export class VoiceAgentService {
     sentiment: 'positive' | 'neutral' | 'negative';
     summary: string;
     structuredData?: Record<string, any>;
+    extraction?: CallExtraction;
   } {
     // Prefer Vapi's AI-powered structured analysis when available
     if (vapiAnalysis?.structuredData) {
@@ -416,6 +431,7 @@ export class VoiceAgentService {
         sentiment,
         summary: vapiAnalysis.summary || 'Call completed — see structured data',
         structuredData: sd,
+        extraction: parseCallExtraction(sd) || undefined,
       };
     }
 
@@ -489,11 +505,16 @@ export class VoiceAgentService {
      SCRIPT BUILDERS — Production conversation design
      ═══════════════════════════════════════════════════════════ */
 
+  private topService(contact: CRMContact): string {
+    const services = contact.clinic.services;
+    return services.find(s => /trt|testosterone|ed |erectile|weight|peptide|hormone/i.test(s)) || services[0] || "men's health";
+  }
+
   buildFirstMessage(contact: CRMContact): string {
     const dm = contact.decisionMaker;
     const clinic = contact.clinic;
     const city = clinic.address.city;
-    const topService = clinic.services.find(s => /trt|testosterone|ed |erectile|weight|peptide|hormone/i.test(s)) || clinic.services[0] || "men's health";
+    const topService = this.topService(contact);
 
     if (dm && dm.firstName) {
       return `Hi ${dm.firstName}, this is Kaizen from Novalyte AI. I'm calling because we have a few pre-qualified patients in ${city} looking for ${topService} services, and ${clinic.name} came up as a top match. Do you have capacity for a few more patients this week?`;
@@ -502,7 +523,21 @@ export class VoiceAgentService {
     return `Hi, this is Kaizen from Novalyte AI. We have pre-qualified patient referrals for men's health clinics in ${city}, and ${clinic.name} came up in our research as a strong fit. Could I speak with the practice owner or manager?`;
   }
 
-  buildSystemPrompt(contact: CRMContact): string {
+  /**
+   * The opener reworked for an answering machine: same pitch as
+   * buildFirstMessage, but no question, a call-back number and a heads-up
+   * that an email is coming (see utils/voicemailFollowUp).
+   */
+  buildVoicemailMessage(contact: CRMContact): string {
+    const dm = contact.decisionMaker;
+    const clinic = contact.clinic;
+    const greeting = dm?.firstName ? `Hi ${dm.firstName}` : `Hi, this message is for the practice owner or manager at ${clinic.name}`;
+    const callback = this.phoneNumber ? ` You can reach us back at ${this.formatPhoneForSpeech(this.phoneNumber)}.` : '';
+
+    return `${greeting}, this is Kaizen from Novalyte AI. We have a few pre-qualified patients in ${clinic.address.city} looking for ${this.topService(contact)} services, and ${clinic.name} came up as a top match. I'll send over a short email with the details shortly.${callback} Thanks, and have a great day!`;
+  }
+
+  buildSystemPrompt(contact: CRMContact, campaign?: Campaign): string {
     const c = contact.clinic;
     const dm = contact.decisionMaker;
     const market = c.marketZone;
@@ -583,20 +618,28 @@ export class VoiceAgentService {
       '- EMAIL CAPTURE IS YOUR #1 GOAL. If they show ANY interest, ask for their email before ending the call.',
       '- Always say "Novalyte AI" — never just "Novalyte".',
       '- Your tone should convey: "I\'m offering you something valuable, not asking for anything."',
+      ...(campaign?.script.trim() ? ['', `CAMPAIGN TALKING POINTS (${campaign.name}):`, campaign.script.trim()] : []),
     ];
     return promptLines.filter(Boolean).join('\n');
   }
 
   /* ═══════════════════════════════════════════════════════════
-     BATCH CALLING — Rate-limited, business-hours aware
+     BATCH CALLING — Rate-limited, local calling-window aware
      ═══════════════════════════════════════════════════════════ */
 
-  validateBatchReady(contacts: CRMContact[]): {
+  /**
+   * Split a batch into contacts callable right now, contacts scheduled into
+   * their next legal local window, and contacts that can't be called at all.
+   */
+  validateBatchReady(contacts: CRMContact[], options: { campaignWindow?: CallingWindow; now?: Date } = {}): {
     ready: CRMContact[];
+    scheduled: BatchScheduledContact[];
     skipped: { contact: CRMContact; reason: string }[];
     warnings: string[];
   } {
+    const now = options.now || new Date();
     const ready: CRMContact[] = [];
+    const scheduled: BatchScheduledContact[] = [];
     const skipped: { contact: CRMContact; reason: string }[] = [];
     const warnings: string[] = [];
 
@@ -604,10 +647,6 @@ export class VoiceAgentService {
       warnings.push('Vapi is not configured — check API keys in settings');
     }
 
-    if (!this.isWithinBusinessHours()) {
-      warnings.push(`Outside business hours. ${this.getNextBusinessWindow()}`);
-    }
-
     for (const c of contacts) {
       if (!c.clinic.phone) {
         skipped.push({ contact: c, reason: 'No phone number' });
@@ -634,10 +673,18 @@ export class VoiceAgentService {
           continue;
         }
       }
-      ready.push(c);
+      const schedule = getCallingSchedule(c.clinic, now, options.campaignWindow);
+      if (schedule.callableNow) {
+        ready.push(c);
+      } else if (schedule.nextStart) {
+        scheduled.push({ contact: c, at: schedule.nextStart, timezone: schedule.timezone, localTime: schedule.localTime });
+      } else {
+        skipped.push({ contact: c, reason: `No calling window in the next 3 weeks (${describeCallingWindow(schedule.window)})` });
+      }
     }
 
-    return { ready, skipped, warnings };
+    scheduled.sort((a, b) => a.at.getTime() - b.at.getTime());
+    return { ready, scheduled, skipped, warnings };
   }
 
   get batchConfig() {
@@ -645,7 +692,7 @@ export class VoiceAgentService {
       maxConcurrent: MAX_CONCURRENT_CALLS,
       callSpacingMs: CALL_SPACING_MS,
       maxDurationSec: MAX_CALL_DURATION_SECONDS,
-      businessHours: BUSINESS_HOURS,
+      callingWindow: DEFAULT_CALLING_WINDOW,
       isBusinessHours: this.isWithinBusinessHours(),
       nextWindow: this.getNextBusinessWindow(),
       activeCalls: this.activeCallCount,
@@ -713,7 +760,18 @@ export class VoiceAgentService {
     return cleaned;
   }
 
-  private mapStatus(status: string): CallStatus {
+  /** "+15551234567" → "555, 123, 4567" so TTS reads it digit-group by digit-group */
+  private formatPhoneForSpeech(phone: string): string {
+    const d = phone.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+    return d.length === 10 ? `${d.slice(0, 3)}, ${d.slice(3, 6)}, ${d.slice(6)}` : phone;
+  }
+
+  private mapStatus(status: string, endedReason?: string): CallStatus {
+    // Vapi reports every finished call as "ended" — the reason says how
+    const reason = (endedReason || '').toLowerCase();
+    if (reason.includes('voicemail')) return 'voicemail';
+    if (/did-not-answer|customer-busy/.test(reason)) return 'no_answer';
+
     const map: Record<string, CallStatus> = {
       queued: 'queued',
       ringing: 'ringing',
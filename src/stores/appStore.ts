@@ -2,12 +2,50 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import {
   CRMContact, KeywordTrend, MarketZone, Clinic, VoiceCall, Campaign,
-  ContactStatus, AFFLUENT_MARKETS,
+  ContactStatus, SuppressionEntry, AFFLUENT_MARKETS, ClinicProvenanceField, ContactProvenanceField,
 } from '../types';
 import { supabaseSync } from '../services/supabaseSync';
 import { SentEmail } from '../services/resendService';
-import { enrichmentService } from '../services/enrichmentService';
-import { computeLeadScore } from '../utils/leadScoring';
+import {
+  SequenceDefinition, SequenceEnrollment, DEFAULT_SEQUENCES, applyReplyToEnrollment,
+  createEnrollment, exitEnrollment, getStepRun, markStepExecuted, retryBouncedStep, updateStepRun,
+} from '../services/sequenceEngine';
+import { ReplyClassification, classifyReply, getReplyTransition } from '../services/intelligenceService';
+import { suppressionService } from '../services/suppressionService';
+import { enrichmentWaterfallService } from '../services/enrichmentWaterfallService';
+import { ScoringModel, DEFAULT_SCORING_MODEL, computeLeadScore, setActiveScoringModel } from '../utils/leadScoring';
+import { computeCampaignStats, findCampaignCandidates, sameCampaignStats } from '../utils/campaigns';
+import {
+  EmailTemplate, EmailTemplateVersion, SenderProfile,
+  DEFAULT_EMAIL_TEMPLATES, DEFAULT_SENDER_PROFILE, reviseTemplate, snapshotTemplate,
+} from '../utils/emailTemplates';
+import {
+  EmailExperiment, applyVariantToTemplate, collectRepliedEmailIds, evaluateExperiment, promoteWinner,
+} from '../utils/experiments';
+import { SendingMailbox, DEFAULT_SENDING_MAILBOXES } from '../utils/senderPool';
+import { PreflightPolicy, DEFAULT_PREFLIGHT_POLICY } from '../utils/deliverability';
+import { EnrichmentLedgerEntry, WaterfallConfig, DEFAULT_WATERFALL_CONFIG, PROVIDER_LABELS, trimLedger } from '../utils/enrichmentWaterfall';
+import { pinValue, reconcileClinic, reconcileContactUpdates } from '../utils/provenance';
+import { EmailVerification, buildVerification, mergeVerifications, upcomingSequenceEmails } from '../utils/emailVerification';
+import {
+  DirtyFields, DirtyMap, RemoteRecord, SyncConflict, SyncTable,
+  appendConflicts, clearDirty, deltaStart, dirtyKey, markDirty, mergeDelta, parseDirtyKey, sameValue, takeDelta,
+} from '../utils/syncMerge';
+import { BounceType, SOFT_BOUNCE_WINDOW_DAYS, invalidEmailsOf, invalidateBouncedEmail, planSoftBounce } from '../utils/bounces';
+import { bounceRepairService } from '../services/bounceRepairService';
+import { senderPoolService } from '../services/senderPoolService';
+import { emailVerificationService } from '../services/emailVerificationService';
+import { emailScheduleService } from '../services/emailScheduleService';
+import { outboxService } from '../services/outboxService';
+import { OutboxEntry, OutboxMethod, createOutboxEntry } from '../utils/outbox';
+import { createIdbStorage } from './idbStorage';
+import { STORE_MIGRATIONS, STORE_VERSION } from './storeMigrations';
+import { MigrationReportEntry, formatMigrationReport, runMigrations } from '../utils/schemaMigrations';
+import {
+  AuditAction, AuditCollection, AuditEntry, AuditScope, AuditSnapshot,
+  actorFromSession, createAuditEntry, isRestorable, mergeAuditLog, restoreSnapshot,
+} from '../utils/audit';
+import { getCurrentSession } from '../services/sessionTracker';
 
 interface AppState {
   // Markets
@@ -30,11 +68,45 @@ interface AppState {
   activeCampaign: Campaign | null;
   // Email outreach
   sentEmails: SentEmail[];
+  // Sequences
+  sequences: SequenceDefinition[];
+  sequenceEnrollments: SequenceEnrollment[];
+  // Suppression list
+  suppressions: SuppressionEntry[];
+  // Lead scoring models
+  scoringModels: ScoringModel[];
+  activeScoringModelId: string;
+  // Email template library
+  emailTemplates: EmailTemplate[];
+  emailTemplateVersions: EmailTemplateVersion[];
+  senderProfiles: SenderProfile[];
+  // A/B email experiments
+  experiments: EmailExperiment[];
+  // Outbound sender pool
+  sendingMailboxes: SendingMailbox[];
+  // Deliverability pre-flight thresholds (local to this browser)
+  preflightPolicy: PreflightPolicy;
+  // Enrichment waterfall order, thresholds and credit costs (local to this browser)
+  enrichmentWaterfall: WaterfallConfig;
+  // Enrichment credit ledger — one row per provider call
+  enrichmentLedger: EnrichmentLedgerEntry[];
+  // Shared email verification cache — one result per address
+  emailVerifications: EmailVerification[];
+  // Contact / clinic fields edited here and not yet confirmed by Supabase
+  syncDirty: DirtyMap;
+  // Fields edited both here and elsewhere, newest first (see utils/syncMerge)
+  syncConflicts: SyncConflict[];
   // UI State
   currentView: 'dashboard' | 'keywords' | 'clinics' | 'crm' | 'voice' | 'campaigns' | 'email' | 'forecast' | 'leads' | 'analytics' | 'aiengine';
   // Supabase
   supabaseReady: boolean;
   isSyncing: boolean;
+  // Writes waiting in the outbox for Supabase to confirm them
+  unsyncedChanges: number;
+  /** Schema migrations applied this session (utils/schemaMigrations) */
+  migrationReport: MigrationReportEntry[];
+  // Destructive actions with their before-snapshots, newest first (see utils/audit)
+  auditLog: AuditEntry[];
 
   // Actions
   setMarkets: (markets: MarketZone[]) => void;
@@ -46,8 +118,12 @@ interface AppState {
   setIsDiscovering: (isDiscovering: boolean) => void;
   addContact: (contact: CRMContact) => void;
   addContacts: (contacts: CRMContact[]) => void;
-  removeContact: (id: string) => void;
+  removeContact: (id: string) => AuditEntry | null;
   updateContact: (id: string, updates: Partial<CRMContact>) => void;
+  /** Pin a decision-maker field to one of its competing values (null unpins) */
+  pinContactField: (id: string, field: ContactProvenanceField, value: string | null) => void;
+  /** Pin the contact's clinic email / website (null unpins) */
+  pinClinicField: (id: string, field: ClinicProvenanceField, value: string | null) => void;
   selectContact: (contact: CRMContact | null) => void;
   updateContactStatus: (id: string, status: ContactStatus) => void;
   addCall: (call: VoiceCall) => void;
@@ -56,17 +132,60 @@ interface AppState {
   clearStaleCalls: () => void;
   setCampaigns: (campaigns: Campaign[]) => void;
   setActiveCampaign: (campaign: Campaign | null) => void;
+  saveCampaign: (campaign: Campaign) => void;
+  deleteCampaign: (id: string) => AuditEntry | null;
+  /** Add every matching contact and enroll them in the campaign's sequence. Returns how many joined. */
+  launchCampaign: (id: string) => number;
+  setCampaignStatus: (id: string, status: Campaign['status']) => void;
+  refreshCampaignStats: () => void;
   addSentEmails: (emails: SentEmail[]) => void;
   updateSentEmails: (emails: SentEmail[]) => void;
+  /** A reply sent from the CRM thread view: logs it, stamps lastContactedAt and hands the contact over from any sequence */
+  recordThreadReply: (contactId: string, email: SentEmail) => void;
+  saveSequence: (sequence: SequenceDefinition) => void;
+  deleteSequence: (id: string) => void;
+  upsertSequenceEnrollments: (enrollments: SequenceEnrollment[]) => void;
+  removeSequenceEnrollment: (id: string) => void;
+  /** Settle step runs whose scheduled send went out, failed or was cancelled server-side */
+  syncScheduledSends: () => Promise<void>;
+  addSuppressions: (entries: SuppressionEntry[]) => void;
+  removeSuppressions: (ids: string[]) => void;
+  applyReplyClassification: (contactId: string, reply: ReplyClassification, meta?: { replyId?: string; fromEmail?: string }) => void;
+  saveScoringModel: (model: Omit<ScoringModel, 'id' | 'version' | 'createdAt'>) => ScoringModel;
+  activateScoringModel: (id: string) => void;
+  /** Create a template (v1) or save an edit as the next version */
+  saveEmailTemplate: (draft: Pick<EmailTemplate, 'name' | 'subject' | 'html'> & Partial<Pick<EmailTemplate, 'id' | 'description' | 'senderProfileId'>>, note?: string) => EmailTemplate;
+  restoreEmailTemplateVersion: (templateId: string, version: number) => void;
+  archiveEmailTemplate: (id: string, archived: boolean) => void;
+  saveSenderProfile: (profile: SenderProfile) => void;
+  deleteSenderProfile: (id: string) => void;
+  saveExperiment: (experiment: EmailExperiment) => void;
+  deleteExperiment: (id: string) => void;
+  /** Promote any running experiment whose leader is significant. Returns the experiments decided this pass. */
+  evaluateExperiments: () => EmailExperiment[];
+  saveSendingMailbox: (mailbox: SendingMailbox) => void;
+  deleteSendingMailbox: (id: string) => void;
+  setPreflightPolicy: (updates: Partial<PreflightPolicy>) => void;
+  setEnrichmentWaterfall: (updates: Partial<WaterfallConfig>) => void;
+  recordEnrichmentLedger: (entries: EnrichmentLedgerEntry[]) => void;
+  /** Pull ledger rows written elsewhere (other browsers, dm-enrichment-batch) */
+  refreshEnrichmentLedger: () => Promise<void>;
+  /** Persist results from the verification cache (see emailVerificationService) */
+  recordEmailVerifications: (entries: EmailVerification[]) => void;
   setCurrentView: (view: AppState['currentView']) => void;
-  // Clear actions
-  clearClinics: () => void;
-  clearContacts: () => void;
-  clearKeywordTrends: () => void;
-  clearCallHistory: () => void;
-  clearSentEmails: () => void;
-  clearCampaigns: () => void;
+  clearSyncConflicts: () => void;
+  // Clear actions — each returns its audit entry, for the undo toast
+  clearClinics: () => AuditEntry;
+  clearContacts: () => AuditEntry;
+  clearKeywordTrends: () => AuditEntry;
+  clearCallHistory: () => AuditEntry;
+  clearSentEmails: () => AuditEntry;
+  clearCampaigns: () => AuditEntry;
   factoryReset: () => void;
+  /** Put an audit entry's records back, here and in Supabase; false once its window has passed */
+  restoreFromTrash: (auditId: string) => Promise<boolean>;
+  /** Pull entries recorded elsewhere (other browsers, before a factory reset) */
+  refreshAuditLog: () => Promise<void>;
   // Supabase actions
   initSupabase: () => Promise<void>;
   pushToSupabase: () => Promise<void>;
@@ -74,11 +193,61 @@ interface AppState {
 }
 
 /** Fire-and-forget Supabase sync — never blocks the UI */
-function bgSync(fn: () => Promise<void>) {
+function bgSync(fn: () => Promise<unknown>) {
   fn().catch(err => console.warn('Supabase sync error:', err));
 }
 
-let outreachPollTimer: any = null;
+/**
+ * Durable Supabase write — queued in the outbox (utils/outbox) and replayed
+ * until Supabase confirms it, so edits made offline are not lost. `target`
+ * keeps writes to one record in order; `dirty` are the fields it covers.
+ */
+function queueSync<M extends OutboxMethod>(method: M, args: Parameters<typeof supabaseSync[M]>, target: string, dirty?: DirtyFields) {
+  if (!supabaseSync.isConfigured) return;
+  outboxService.enqueue(createOutboxEntry(method, args, target, { dirty }));
+}
+
+/**
+ * Record a destructive action before it runs — in the store's audit log right
+ * away and in Supabase's audit_log through the outbox. The entry id tags the
+ * rows the action soft-deletes.
+ */
+function recordAudit(action: AuditAction, scope: AuditScope, snapshot: AuditSnapshot, set: any, get: any): AuditEntry {
+  const entry = createAuditEntry(action, scope, snapshot, actorFromSession(getCurrentSession()));
+  set({ auditLog: mergeAuditLog(get().auditLog, [entry]) });
+  queueSync('recordAudit', [entry], `audit_log:${entry.id}`);
+  return entry;
+}
+
+/** Write a restored snapshot again — for rows that were deleted for good rather than soft-deleted */
+function pushSnapshot(snapshot: AuditSnapshot) {
+  const { clinics, contacts, keywordTrends, callHistory, sentEmails, campaigns, sequenceEnrollments } = snapshot as Record<AuditCollection, any[] | undefined>;
+  if (clinics?.length) queueSync('syncClinics', [clinics], 'clinics');
+  for (const c of contacts || []) queueSync('upsertContact', [c], dirtyKey('contacts', c.id));
+  if (keywordTrends?.length) bgSync(() => supabaseSync.syncKeywordTrends(keywordTrends));
+  if (callHistory?.length) queueSync('syncVoiceCalls', [callHistory], 'voice_calls');
+  if (sentEmails?.length) queueSync('syncSentEmails', [sentEmails], 'sent_emails');
+  if (campaigns?.length) queueSync('syncCampaigns', [campaigns], 'campaigns');
+  if (sequenceEnrollments?.length) queueSync('syncSequenceEnrollments', [sequenceEnrollments], 'sequence_enrollments');
+}
+
+/** Queued writes to any of `tables` */
+const outboxTargets = (...tables: string[]) => (entry: OutboxEntry) =>
+  tables.some(t => entry.target === t || entry.target.startsWith(`${t}:`));
+
+/** Tag an outreach record with its contact's campaign unless it already has one */
+function withCampaign<T extends { campaignId?: string }>(item: T, campaignId?: string): T {
+  return item.campaignId || !campaignId ? item : { ...item, campaignId };
+}
+
+function campaignOf(get: any, contactId: string): string | undefined {
+  return get().contacts.find((c: CRMContact) => c.id === contactId)?.campaignId;
+}
+
+/** Point the scorer at the active model (falls back to the baseline) */
+function syncActiveScoringModel(models: ScoringModel[], activeId: string) {
+  setActiveScoringModel(models.find(m => m.id === activeId) || DEFAULT_SCORING_MODEL);
+}
 
 function isGenericDecisionMakerEmail(email?: string): boolean {
   const local = String(email || '').split('@')[0]?.toLowerCase() || '';
@@ -107,26 +276,158 @@ function selectBestDecisionMaker(dms: any[]) {
   return dms.reduce((a: any, b: any) => a.confidence > b.confidence ? a : b);
 }
 
+/**
+ * Mirror a server-side opt-out (unsubscribe link) locally: stop live sequence
+ * enrollments and mark the contact not interested. The unsubscribe function
+ * has already written both to Supabase, so nothing is synced back.
+ */
+function haltContactOutreach(contactId: string, set: any, get: any) {
+  const now = new Date();
+  const stopped = new Map<string, SequenceEnrollment>();
+  for (const e of get().sequenceEnrollments as SequenceEnrollment[]) {
+    if (e.contactId !== contactId) continue;
+    const next = applyReplyToEnrollment(e, { category: 'unsubscribe' }, now);
+    if (next !== e) stopped.set(e.id, next);
+  }
+  set((state: any) => ({
+    sequenceEnrollments: stopped.size
+      ? state.sequenceEnrollments.map((e: SequenceEnrollment) => stopped.get(e.id) || e)
+      : state.sequenceEnrollments,
+    contacts: state.contacts.map((c: CRMContact) => c.id === contactId && c.status !== 'not_interested'
+      ? { ...c, status: 'not_interested', tags: Array.from(new Set([...(c.tags || []), 'unsubscribed'])), updatedAt: now }
+      : c),
+  }));
+}
+
+const bounceRepairsInFlight = new Set<string>();
+
+/**
+ * Act on bounces resend-webhook classified (see utils/bounces). A hard bounce
+ * marks the address invalid on the contact and sends the contact back through
+ * enrichment for a replacement; a soft bounce puts the sequence step back for
+ * its retry. Each bounce is handled once — the note it leaves carries `bounceOf`.
+ */
+function applyBounceFeedback(emails: SentEmail[], get: any) {
+  const now = new Date();
+  for (const email of emails) {
+    if (email.lastEvent !== 'bounced' || !email.contactId) continue;
+    const contact: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === email.contactId);
+    if (!contact || (contact.activities || []).some(a => a.metadata?.bounceOf === email.id)) continue;
+
+    let kind: BounceType = email.bounceType || 'hard';
+    let retryAt = email.bounceRetryAt;
+    if (kind === 'soft' && !retryAt) {
+      // Webhook did not size the retry — apply the same policy over what the store knows
+      const windowStart = now.getTime() - SOFT_BOUNCE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+      const prior = (get().sentEmails as SentEmail[]).filter(e => e.id !== email.id && e.bounceType === 'soft'
+        && e.to.toLowerCase() === email.to.toLowerCase() && new Date(e.lastEventAt).getTime() >= windowStart).length;
+      const plan = planSoftBounce(prior, now);
+      if (plan.escalate) kind = 'hard';
+      else retryAt = plan.retryAt;
+    }
+    const reason = email.bounceReason ? ` (${email.bounceReason})` : '';
+
+    if (kind === 'soft' && retryAt) {
+      const retried = (get().sequenceEnrollments as SequenceEnrollment[]).flatMap(e => {
+        const run = e.stepRuns.find(r => r.sentEmailId === email.id);
+        const stepId = e.id === email.sequenceEnrollmentId ? email.sequenceStepId || run?.stepId : run?.stepId;
+        if (!stepId) return [];
+        const next = retryBouncedStep(e, stepId, retryAt!, `Soft bounce${reason} — retrying ${retryAt!.toLocaleString()}`, now);
+        return next === e ? [] : [next];
+      });
+      if (retried.length) get().upsertSequenceEnrollments(retried);
+      get().updateContact(contact.id, {
+        activities: [...(contact.activities || []), {
+          id: `act-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, type: 'note_added' as const,
+          description: `Soft bounce from ${email.to}${reason} — ${retried.length ? 'step re-queued' : 'will retry'} after ${retryAt.toLocaleString()}`,
+          timestamp: now,
+          metadata: { bounceOf: email.id, bounceType: 'soft', retryAt: retryAt.toISOString() },
+        }],
+      });
+      continue;
+    }
+
+    // The address is dead — no point verifying it again
+    emailVerificationService.record([buildVerification(email.to, 'invalid', 'bounce', { checkedAt: new Date(email.lastEventAt) })]);
+    const patch = invalidateBouncedEmail(contact, email.to);
+    get().updateContact(contact.id, {
+      ...(patch || {}),
+      activities: [...(contact.activities || []), {
+        id: `act-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, type: 'note_added' as const,
+        description: `Hard bounce from ${email.to}${reason} — address marked invalid, searching for a replacement`,
+        timestamp: now,
+        metadata: { bounceOf: email.id, bounceType: 'hard' },
+      }],
+    });
+    bgReplaceBouncedEmail(contact.id, email.to, get);
+  }
+}
+
+/** Re-run enrichment for a contact whose address hard-bounced and adopt the first deliverable replacement */
+function bgReplaceBouncedEmail(contactId: string, bouncedEmail: string, get: any) {
+  if (bounceRepairsInFlight.has(contactId)) return;
+  bounceRepairsInFlight.add(contactId);
+  (async () => {
+    const contact: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === contactId);
+    if (!contact) return;
+    const exclude = invalidEmailsOf(contact);
+    exclude.add(bouncedEmail.toLowerCase());
+    const found = await bounceRepairService.findReplacement(contact, exclude);
+    const latest: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === contactId);
+    if (!latest) return;
+    const at = new Date();
+    if (!found) {
+      get().updateContact(contactId, {
+        activities: [...(latest.activities || []), {
+          id: `act-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, type: 'enriched' as const,
+          description: `No replacement found for bounced ${bouncedEmail}`,
+          timestamp: at,
+          metadata: { replacedEmail: bouncedEmail, replacement: null },
+        }],
+      });
+      return;
+    }
+    const dm = found.decisionMaker;
+    const name = `${dm.firstName} ${dm.lastName}`.trim();
+    const updated: CRMContact = {
+      ...latest,
+      decisionMaker: dm,
+      clinic: { ...latest.clinic, managerName: name || latest.clinic.managerName, managerEmail: dm.email },
+    };
+    const { score, priority } = computeLeadScore(updated);
+    get().updateContact(contactId, {
+      decisionMaker: dm,
+      clinic: updated.clinic,
+      score,
+      priority,
+      activities: [...(latest.activities || []), {
+        id: `act-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, type: 'enriched' as const,
+        description: `Replaced bounced ${bouncedEmail} with ${dm.email}${name ? ` (${name})` : ''} via ${found.source === 'unknown' ? 'an unattributed provider' : PROVIDER_LABELS[found.source]}`,
+        timestamp: at,
+        metadata: { replacedEmail: bouncedEmail, replacement: dm.email, source: found.source },
+      }],
+    });
+  })()
+    .catch(err => console.warn('Bounce repair error:', err))
+    .finally(() => bounceRepairsInFlight.delete(contactId));
+}
+
 /** Background auto-enrichment for newly added contacts */
-function bgAutoEnrich(contacts: CRMContact[], set: any, get: any) {
+function bgAutoEnrich(contacts: CRMContact[], get: any) {
   (async () => {
     for (const contact of contacts) {
       if (contact.decisionMaker) continue; // already enriched
       try {
-        const dms = await enrichmentService.findDecisionMakers(contact.clinic);
+        const dms = await enrichmentWaterfallService.findDecisionMakers(contact.clinic);
         if (dms.length === 0) continue;
         const best = selectBestDecisionMaker(dms);
         if (!best) continue;
 
-        const updatedContact: CRMContact = { ...contact, decisionMaker: best, clinic: { ...contact.clinic, managerName: `${best.firstName} ${best.lastName}`.trim(), managerEmail: best.email } };
-        const { score, priority } = computeLeadScore(updatedContact);
-
-        set((state: any) => ({
-          contacts: state.contacts.map((c: any) =>
-            c.id === contact.id ? { ...c, decisionMaker: best, clinic: { ...c.clinic, managerName: `${best.firstName} ${best.lastName}`.trim(), managerEmail: best.email }, score, priority, status: best.email ? 'ready_to_call' : c.status, updatedAt: new Date() } : c
-          ),
-        }));
-        bgSync(() => supabaseSync.updateContactFields(contact.id, { decisionMaker: best, score, priority }));
+        const latest: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === contact.id);
+        if (!latest) continue;
+        const clinic = { ...latest.clinic, managerName: `${best.firstName} ${best.lastName}`.trim(), managerEmail: best.email };
+        const { score, priority } = computeLeadScore({ ...latest, decisionMaker: best, clinic });
+        get().updateContact(contact.id, { decisionMaker: best, clinic, score, priority, status: best.email ? 'ready_to_call' : latest.status });
       } catch (err) {
         console.warn(`Auto-enrich failed for ${contact.clinic.name}:`, err);
       }
@@ -137,6 +438,399 @@ function bgAutoEnrich(contacts: CRMContact[], set: any, get: any) {
   })().catch(err => console.warn('Auto-enrichment error:', err));
 }
 
+/**
+ * Bring in what the server learned about outreach — delivery events, replies,
+ * suppressions, held sends. Runs on realtime changes to the outreach tables,
+ * or on the fallback poll while realtime is down.
+ */
+async function refreshOutreach(set: any, get: any) {
+  const lastEventAt = localStorage.getItem('novalyte_outreach_last_event_at') || new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const lastReplyAt = localStorage.getItem('novalyte_outreach_last_reply_at') || new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const lastSuppressionAt = localStorage.getItem('novalyte_suppression_last_at') || new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+  const newEmails = await supabaseSync.fetchSentEmailsSince(lastEventAt);
+  if (newEmails.length > 0) {
+    // Merge into store
+    set((state: any) => {
+      const map = new Map(state.sentEmails.map((e: any) => [e.id, e]));
+      for (const e of newEmails) map.set(e.id, e);
+      return { sentEmails: Array.from(map.values()) };
+    });
+    const maxTs = newEmails.reduce((m, e) => Math.max(m, new Date(e.lastEventAt).getTime()), new Date(lastEventAt).getTime());
+    localStorage.setItem('novalyte_outreach_last_event_at', new Date(maxTs).toISOString());
+  }
+
+  applyBounceFeedback(newEmails, get);
+
+  // resend-webhook may have auto-paused a mailbox after these bounces / complaints
+  if (newEmails.some(e => e.lastEvent === 'bounced' || e.lastEvent === 'complained')) {
+    const mailboxes = await supabaseSync.fetchSendingMailboxes();
+    if (mailboxes?.length) set({ sendingMailboxes: mergeById(get().sendingMailboxes, mailboxes) });
+  }
+
+  // Server-side suppressions (webhook bounces, unsubscribe links)
+  const newSuppressions = await supabaseSync.fetchSuppressionsSince(lastSuppressionAt);
+  if (newSuppressions.length > 0) {
+    const merged = mergeById(get().suppressions, newSuppressions);
+    suppressionService.load(merged);
+    set({ suppressions: merged });
+    for (const e of newSuppressions) {
+      if (e.reason === 'unsubscribe' && e.contactId) haltContactOutreach(e.contactId, set, get);
+    }
+    const maxTs = newSuppressions.reduce((m, e) => Math.max(m, e.createdAt.getTime()), new Date(lastSuppressionAt).getTime());
+    localStorage.setItem('novalyte_suppression_last_at', new Date(maxTs).toISOString());
+  }
+
+  const newReplyActs = await supabaseSync.fetchEmailReplyActivitiesSince(lastReplyAt);
+  if (newReplyActs.length > 0) {
+    // Classify before merging so an out-of-office auto-reply never reads as a real reply
+    const classified: { contactId: string; activity: any; reply: ReplyClassification }[] = [];
+    for (const x of newReplyActs) {
+      const meta = x.activity.metadata || {};
+      const contact = get().contacts.find((c: any) => c.id === x.contactId);
+      const reply = await classifyReply({ subject: meta.subject, body: meta.snippet || x.activity.description, contact });
+      const activity = withCampaign({
+        ...x.activity,
+        metadata: {
+          ...meta,
+          replyCategory: reply.category,
+          replyConfidence: reply.confidence,
+          replySummary: reply.summary,
+          returnDate: reply.returnDate?.toISOString(),
+          referredName: reply.referredName,
+          referredEmail: reply.referredEmail,
+        },
+      }, contact?.campaignId);
+      classified.push({ contactId: x.contactId, activity, reply });
+      queueSync('addActivity', [x.contactId, activity], dirtyKey('contacts', x.contactId));
+    }
+    set((state: any) => {
+      const next = state.contacts.map((c: any) => {
+        const adds = classified.filter(x => x.contactId === c.id).map(x => x.activity);
+        if (adds.length === 0) return c;
+        // The classified copy replaces any raw one a contact delta already brought in
+        const addIds = new Set(adds.map((a: any) => a.id));
+        const mergedActs = [...(c.activities || []).filter((a: any) => !addIds.has(a.id)), ...adds];
+        return { ...c, activities: mergedActs };
+      });
+      return { contacts: next };
+    });
+    for (const x of classified) {
+      get().applyReplyClassification(x.contactId, x.reply, {
+        replyId: x.activity.metadata.replyId,
+        fromEmail: x.activity.metadata.fromEmail,
+      });
+    }
+    const maxTs = newReplyActs.reduce((m, x) => Math.max(m, new Date(x.activity.timestamp).getTime()), new Date(lastReplyAt).getTime());
+    localStorage.setItem('novalyte_outreach_last_reply_at', new Date(maxTs).toISOString());
+  }
+
+  if (newEmails.length > 0 || newReplyActs.length > 0) get().evaluateExperiments();
+
+  // Sequence steps held for their send window by email-dispatch
+  await get().syncScheduledSends();
+}
+
+// ─── Incremental contact / clinic sync (utils/syncMerge) ───
+
+const SYNC_TABLES: SyncTable[] = ['clinics', 'contacts'];
+const OUTREACH_TABLES = ['sent_emails', 'activities', 'suppression_list', 'email_send_jobs'];
+/** Poll used only while the realtime channel is down */
+const FALLBACK_POLL_MS = 15_000;
+/** A burst of row changes is pulled once */
+const REALTIME_DEBOUNCE_MS = 1_000;
+/** Catch-up pull even while realtime is up, in case an event was missed */
+const SAFETY_SWEEP_MS = 5 * 60 * 1000;
+const PUSHED_VALUES_LIMIT = 2000;
+
+const cursorKey = (table: SyncTable) => `novalyte_sync_cursor_${table}`;
+/** Rows already merged inside the cursor's overlap window (takeDelta) */
+const seenKey = (table: SyncTable) => `novalyte_sync_seen_${table}`;
+
+let realtimeLive = false;
+let fallbackPollTimer: any = null;
+let lastSweepAt = 0;
+const liveSyncDebounce: Record<'delta' | 'outreach', any> = { delta: null, outreach: null };
+const liveSyncRunning = { delta: false, outreach: false };
+
+/** Last value this browser pushed per `${table}:${id}:${field}` — its echo in a delta is not a conflict */
+const pushedValues = new Map<string, unknown>();
+
+function rememberPushed(table: SyncTable, id: string, values: Record<string, unknown>) {
+  for (const [field, value] of Object.entries(values)) {
+    const key = `${dirtyKey(table, id)}:${field}`;
+    pushedValues.delete(key);
+    pushedValues.set(key, value);
+  }
+  while (pushedValues.size > PUSHED_VALUES_LIMIT) pushedValues.delete(pushedValues.keys().next().value as string);
+}
+
+const isOwnEcho = (table: SyncTable) => (id: string, field: string, value: unknown) => {
+  const key = `${dirtyKey(table, id)}:${field}`;
+  return pushedValues.has(key) && sameValue(pushedValues.get(key), value);
+};
+
+const pickFields = (record: any, fields: string[]) => Object.fromEntries(fields.map(f => [f, record[f]]));
+
+/** Mark edited fields dirty; returns the record's marks as the push about to start will cover them */
+function markEdited(set: any, get: any, table: SyncTable, id: string, fields: string[]): DirtyFields | undefined {
+  set((state: any) => ({ syncDirty: markDirty(state.syncDirty, table, id, fields) }));
+  return get().syncDirty[dirtyKey(table, id)];
+}
+
+/** Supabase confirmed a push — drop the marks it covered */
+function confirmPushed(set: any, table: SyncTable, id: string, pending: DirtyFields | undefined, values: Record<string, unknown>) {
+  rememberPushed(table, id, values);
+  if (pending) set((state: any) => ({ syncDirty: clearDirty(state.syncDirty, table, id, pending) }));
+}
+
+/** Retry every edit Supabase has not confirmed yet — only the dirty fields of dirty records */
+async function pushDirtyRecords(set: any, get: any) {
+  for (const [key, pending] of Object.entries(get().syncDirty as DirtyMap)) {
+    const { table, id } = parseDirtyKey(key);
+    const record = (table === 'contacts' ? get().contacts : get().clinics).find((r: any) => r.id === id);
+    if (!record) {
+      set((state: any) => ({ syncDirty: clearDirty(state.syncDirty, table, id, pending) }));
+      continue;
+    }
+    const values = pickFields(record, Object.keys(pending));
+    const ok = table === 'contacts'
+      ? await supabaseSync.updateContactFields(id, values)
+      : await supabaseSync.syncClinics([record]);
+    if (ok) confirmPushed(set, table, id, pending, values);
+  }
+}
+
+/** Perform one outbox entry; once it lands, the edits it carried stop being dirty */
+async function replayOutboxEntry(entry: OutboxEntry, set: any): Promise<boolean> {
+  const write = supabaseSync[entry.method] as (...args: unknown[]) => Promise<boolean>;
+  const ok = await write.apply(supabaseSync, entry.args);
+  if (ok && entry.dirty) {
+    const { table, id } = parseDirtyKey(entry.target);
+    const values = entry.method === 'updateContactFields'
+      ? entry.args[1] as Record<string, unknown>
+      : pickFields((entry.args[0] as any[]).find(r => r.id === id) || {}, Object.keys(entry.dirty));
+    confirmPushed(set, table, id, entry.dirty, values);
+  }
+  return ok;
+}
+
+/** Merge rows changed on the server since the table's cursor, then move the cursor */
+async function pullTableDelta<T extends { id: string }>(
+  table: SyncTable,
+  fetchSince: (sinceIso: string) => Promise<RemoteRecord<T>[] | null>,
+  label: (record: T) => string,
+  set: any,
+  get: any,
+): Promise<T[]> {
+  const cursor = localStorage.getItem(cursorKey(table));
+  const fetched = await fetchSince(deltaStart(cursor));
+  if (!fetched?.length) return [];
+  const delta = takeDelta(cursor, JSON.parse(localStorage.getItem(seenKey(table)) || '[]'), fetched);
+  if (delta.cursor) localStorage.setItem(cursorKey(table), delta.cursor);
+  localStorage.setItem(seenKey(table), JSON.stringify(delta.seen));
+  const rows = delta.fresh;
+  if (!rows.length) return [];
+  const state = get();
+  const result = mergeDelta(table, state[table] as T[], rows, state.syncDirty, { label, isOwnEcho: isOwnEcho(table) });
+  set({
+    [table]: result.records,
+    syncDirty: result.dirty,
+    syncConflicts: appendConflicts(state.syncConflicts, result.conflicts),
+  });
+  if (result.conflicts.length) console.warn(`Sync: ${result.conflicts.length} conflicting ${table} field(s) — see the conflict log`);
+  const changed = new Set(rows.map(r => r.record.id));
+  return result.records.filter(r => changed.has(r.id));
+}
+
+async function pullDelta(set: any, get: any) {
+  const marketMap = Object.fromEntries((get().markets as MarketZone[]).map(m => [m.id, m]));
+  await pullTableDelta<Clinic>('clinics', since => supabaseSync.fetchClinicsSince(marketMap, since), c => c.name, set, get);
+  const contacts = await pullTableDelta<CRMContact>('contacts', since => supabaseSync.fetchContactsSince(marketMap, since), c => c.clinic.name, set, get);
+  const selected = get().selectedContact;
+  const refreshed = selected && contacts.find(c => c.id === selected.id);
+  if (refreshed) set({ selectedContact: get().contacts.find((c: CRMContact) => c.id === selected.id) || refreshed });
+}
+
+/** Debounced, never overlapping runs of the delta pull or the outreach refresh */
+function scheduleLiveSync(kind: 'delta' | 'outreach', set: any, get: any, delay = REALTIME_DEBOUNCE_MS) {
+  if (liveSyncDebounce[kind]) return;
+  liveSyncDebounce[kind] = setTimeout(async () => {
+    liveSyncDebounce[kind] = null;
+    if (liveSyncRunning[kind]) {
+      scheduleLiveSync(kind, set, get);
+      return;
+    }
+    liveSyncRunning[kind] = true;
+    try {
+      await (kind === 'delta' ? pullDelta(set, get) : refreshOutreach(set, get));
+    } catch (err) {
+      console.warn(`Live sync (${kind}) error:`, err);
+    } finally {
+      liveSyncRunning[kind] = false;
+    }
+  }, delay);
+}
+
+/**
+ * Keep the store current with Supabase: realtime row changes trigger a delta
+ * pull (contacts, clinics) or an outreach refresh. While the channel is down
+ * the 15-second poll takes over; while it is up, the poll only runs a sweep
+ * every few minutes.
+ */
+function startLiveSync(set: any, get: any) {
+  if (fallbackPollTimer) return;
+  supabaseSync.subscribeToChanges(
+    [...SYNC_TABLES, ...OUTREACH_TABLES],
+    table => scheduleLiveSync((SYNC_TABLES as string[]).includes(table) ? 'delta' : 'outreach', set, get),
+    live => {
+      // (Re)connected — replay queued writes and catch up on whatever changed while the channel was down
+      if (live && !realtimeLive) {
+        outboxService.flush();
+        scheduleLiveSync('delta', set, get);
+        scheduleLiveSync('outreach', set, get);
+      }
+      realtimeLive = live;
+    },
+  );
+  lastSweepAt = Date.now();
+  fallbackPollTimer = setInterval(() => {
+    if (realtimeLive && Date.now() - lastSweepAt < SAFETY_SWEEP_MS) return;
+    lastSweepAt = Date.now();
+    scheduleLiveSync('delta', set, get, 0);
+    scheduleLiveSync('outreach', set, get, 0);
+  }, FALLBACK_POLL_MS);
+}
+
+// ─── Persistence ───
+
+const reviveClinic = (c: any) => ({
+  ...c,
+  discoveredAt: c.discoveredAt ? new Date(c.discoveredAt) : new Date(),
+  lastUpdated: c.lastUpdated ? new Date(c.lastUpdated) : new Date(),
+});
+
+const reviveContact = (ct: any) => ({
+  ...ct,
+  createdAt: ct.createdAt ? new Date(ct.createdAt) : new Date(),
+  updatedAt: ct.updatedAt ? new Date(ct.updatedAt) : new Date(),
+  lastContactedAt: ct.lastContactedAt ? new Date(ct.lastContactedAt) : undefined,
+  nextFollowUp: ct.nextFollowUp ? new Date(ct.nextFollowUp) : undefined,
+  clinic: ct.clinic ? reviveClinic(ct.clinic) : ct.clinic,
+  decisionMaker: ct.decisionMaker ? {
+    ...ct.decisionMaker,
+    enrichedAt: ct.decisionMaker.enrichedAt ? new Date(ct.decisionMaker.enrichedAt) : undefined,
+  } : undefined,
+  keywordMatches: Array.isArray(ct.keywordMatches)
+    ? ct.keywordMatches.map((km: any) => ({ ...km, timestamp: km.timestamp ? new Date(km.timestamp) : new Date() }))
+    : ct.keywordMatches,
+  activities: Array.isArray(ct.activities)
+    ? ct.activities.map((a: any) => ({ ...a, timestamp: a.timestamp ? new Date(a.timestamp) : new Date() }))
+    : [],
+});
+
+const reviveCall = (call: any) => ({
+  ...call,
+  startTime: call.startTime ? new Date(call.startTime) : new Date(),
+  endTime: call.endTime ? new Date(call.endTime) : undefined,
+});
+
+const reviveKeywordTrend = (t: any) => ({
+  ...t,
+  timestamp: t.timestamp ? new Date(t.timestamp) : new Date(),
+});
+
+const reviveSentEmail = (e: any) => ({
+  ...e,
+  sentAt: e.sentAt ? new Date(e.sentAt) : new Date(),
+  lastEventAt: e.lastEventAt ? new Date(e.lastEventAt) : new Date(),
+  bounceRetryAt: e.bounceRetryAt ? new Date(e.bounceRetryAt) : undefined,
+});
+
+const reviveCampaign = (camp: any) => ({
+  ...camp,
+  startDate: camp.startDate ? new Date(camp.startDate) : undefined,
+  endDate: camp.endDate ? new Date(camp.endDate) : undefined,
+  createdAt: camp.createdAt ? new Date(camp.createdAt) : new Date(),
+  updatedAt: camp.updatedAt ? new Date(camp.updatedAt) : new Date(),
+});
+
+const reviveEnrollment = (en: any) => ({
+  ...en,
+  dueAt: en.dueAt ? new Date(en.dueAt) : undefined,
+  pausedUntil: en.pausedUntil ? new Date(en.pausedUntil) : undefined,
+  enrolledAt: en.enrolledAt ? new Date(en.enrolledAt) : new Date(),
+  updatedAt: en.updatedAt ? new Date(en.updatedAt) : new Date(),
+  stepRuns: Array.isArray(en.stepRuns)
+    ? en.stepRuns.map((r: any) => ({ ...r, executedAt: r.executedAt ? new Date(r.executedAt) : undefined, scheduledAt: r.scheduledAt ? new Date(r.scheduledAt) : undefined }))
+    : [],
+});
+
+const SNAPSHOT_REVIVERS: Record<AuditCollection, (record: any) => any> = {
+  clinics: reviveClinic,
+  contacts: reviveContact,
+  keywordTrends: reviveKeywordTrend,
+  callHistory: reviveCall,
+  sentEmails: reviveSentEmail,
+  campaigns: reviveCampaign,
+  sequenceEnrollments: reviveEnrollment,
+};
+
+/** Snapshot records parsed from JSON (Supabase, legacy localStorage) back into store records */
+const reviveSnapshot = (snapshot: AuditSnapshot): AuditSnapshot => Object.fromEntries(
+  Object.entries(snapshot).map(([key, records]) => [key, (records || []).map(SNAPSHOT_REVIVERS[key as AuditCollection])]),
+);
+
+const reviveAuditEntry = (e: any): AuditEntry => ({
+  ...e,
+  createdAt: new Date(e.createdAt),
+  restoreUntil: new Date(e.restoreUntil),
+  restoredAt: e.restoredAt ? new Date(e.restoredAt) : undefined,
+  snapshot: e.snapshot ? reviveSnapshot(e.snapshot) : undefined,
+});
+
+/** What the store keeps between sessions (partialize) */
+type PersistedState = Pick<AppState,
+  'markets' | 'selectedMarket' | 'keywordTrends' | 'clinics' | 'isDiscovering' | 'contacts' | 'selectedContact' |
+  'activeCalls' | 'callHistory' | 'campaigns' | 'activeCampaign' | 'sentEmails' | 'sequences' |
+  'sequenceEnrollments' | 'suppressions' | 'scoringModels' | 'activeScoringModelId' | 'emailTemplates' |
+  'emailTemplateVersions' | 'senderProfiles' | 'experiments' | 'sendingMailboxes' | 'preflightPolicy' |
+  'enrichmentWaterfall' | 'enrichmentLedger' | 'emailVerifications' | 'syncDirty' | 'syncConflicts' | 'auditLog' |
+  'currentView'
+>;
+
+/** The large collections get their own IndexedDB object stores; everything else persists as one record */
+const storeStorage = createIdbStorage<PersistedState>('novalyte-store', {
+  clinics: { revive: reviveClinic },
+  contacts: { revive: reviveContact },
+  callHistory: { revive: reviveCall },
+  sentEmails: { revive: reviveSentEmail },
+  keywordTrends: { revive: reviveKeywordTrend },
+  auditLog: { revive: reviveAuditEntry },
+});
+
+/** Store migrations run during hydration, reported once the store is up */
+const pendingMigrationReport: MigrationReportEntry[] = [];
+
+/** Log the migrations applied since the last report and keep them on the store */
+function reportMigrations(entries: MigrationReportEntry[], set: any, get: any) {
+  if (!entries.length) return;
+  console.info(`[Migrations] Applied ${entries.length}:\n${formatMigrationReport(entries).join('\n')}`);
+  set({ migrationReport: [...get().migrationReport, ...entries] });
+}
+
+/** Hydration from IndexedDB is async — anything that reads persisted data at startup waits for it */
+function whenHydrated(): Promise<void> {
+  const { persist } = useAppStore as any;
+  if (persist.hasHydrated()) return Promise.resolve();
+  return new Promise(resolve => {
+    const unsubscribe = persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
 const createPersistedStore = (persist as any)((set: any, get: any) => ({
   // Initial state
   markets: AFFLUENT_MARKETS.map((m, i) => ({ ...m, id: `market-${i}` })),
@@ -152,9 +846,28 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
   campaigns: [],
   activeCampaign: null,
   sentEmails: [],
+  sequences: DEFAULT_SEQUENCES,
+  sequenceEnrollments: [],
+  suppressions: [],
+  scoringModels: [DEFAULT_SCORING_MODEL],
+  activeScoringModelId: DEFAULT_SCORING_MODEL.id,
+  emailTemplates: DEFAULT_EMAIL_TEMPLATES,
+  emailTemplateVersions: DEFAULT_EMAIL_TEMPLATES.map(t => snapshotTemplate(t, 'Initial version')),
+  senderProfiles: [DEFAULT_SENDER_PROFILE],
+  experiments: [],
+  sendingMailboxes: DEFAULT_SENDING_MAILBOXES,
+  preflightPolicy: DEFAULT_PREFLIGHT_POLICY,
+  enrichmentWaterfall: DEFAULT_WATERFALL_CONFIG,
+  enrichmentLedger: [],
+  emailVerifications: [],
+  syncDirty: {},
+  syncConflicts: [],
   currentView: 'dashboard',
   supabaseReady: false,
   isSyncing: false,
+  unsyncedChanges: 0,
+  migrationReport: [],
+  auditLog: [],
 
   // ─── Actions ───
 
@@ -188,27 +901,31 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
         seen.add(batchKey);
         return true;
       });
-      added = newClinics;
-      if (newClinics.length === 0) return state;
-      return { clinics: [...state.clinics, ...newClinics] };
+      added = newClinics.map((c: Clinic) => ({ ...c, ...reconcileClinic(c) }));
+      if (added.length === 0) return state;
+      return { clinics: [...state.clinics, ...added] };
     });
     if (added.length > 0) {
-      bgSync(() => supabaseSync.syncClinics(added));
+      queueSync('syncClinics', [added], 'clinics');
     }
   },
 
   updateClinic: (id: string, updates: Partial<any>) => {
     set((state: any) => ({
-      clinics: state.clinics.map((c: any) => c.id === id ? { ...c, ...updates, lastUpdated: new Date() } : c),
+      clinics: state.clinics.map((c: any) => {
+        if (c.id !== id) return c;
+        const next = { ...c, ...updates, lastUpdated: new Date() };
+        return { ...next, ...reconcileClinic(next) };
+      }),
     }));
-    bgSync(async () => {
-      const clinic = get().clinics.find((c: any) => c.id === id);
-      if (clinic) await supabaseSync.syncClinics([clinic]);
-    });
+    const pending = markEdited(set, get, 'clinics', id, Object.keys(updates));
+    const clinic = get().clinics.find((c: any) => c.id === id);
+    if (clinic) queueSync('syncClinics', [[clinic]], dirtyKey('clinics', id), pending);
   },
   setIsDiscovering: (isDiscovering: boolean) => set({ isDiscovering }),
 
   addContact: (contact: any) => {
+    contact = { ...contact, ...reconcileContactUpdates(contact, { clinic: contact.clinic }) };
     let wasAdded = false;
     set((state: any) => {
       // Dedup by clinic.id AND clinic.googlePlaceId
@@ -220,7 +937,7 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
       wasAdded = true;
       return { contacts: [...state.contacts, contact] };
     });
-    if (wasAdded) bgSync(() => supabaseSync.upsertContact(contact));
+    if (wasAdded) queueSync('upsertContact', [contact], dirtyKey('contacts', contact.id));
   },
 
   addContacts: (newContacts: any) => {
@@ -239,34 +956,65 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
         seen.add(batchKey);
         return true;
       });
-      added = unique;
-      if (unique.length === 0) return state;
-      return { contacts: [...state.contacts, ...unique] };
+      added = unique.map((c: CRMContact) => ({ ...c, ...reconcileContactUpdates(c, { clinic: c.clinic }) }));
+      if (added.length === 0) return state;
+      return { contacts: [...state.contacts, ...added] };
     });
     if (added.length > 0) {
-      bgSync(async () => {
-        for (const c of added) await supabaseSync.upsertContact(c);
-      });
+      for (const c of added) queueSync('upsertContact', [c], dirtyKey('contacts', c.id));
       // Feature #6: Auto-enrichment — background enrich each new contact
-      bgAutoEnrich(added, set, get);
+      bgAutoEnrich(added, get);
     }
   },
 
   removeContact: (id: string) => {
+    const state = get();
+    const contact = state.contacts.find((c: CRMContact) => c.id === id);
+    if (!contact) return null;
+    const entry = recordAudit('delete_contact', { tables: ['contacts', 'sent_emails', 'email_replies', 'sequence_enrollments'], ids: [id] }, {
+      contacts: [contact],
+      sequenceEnrollments: state.sequenceEnrollments.filter((e: SequenceEnrollment) => e.contactId === id),
+    }, set, get);
     set((state: any) => ({
       contacts: state.contacts.filter((c: any) => c.id !== id),
       selectedContact: state.selectedContact?.id === id ? null : state.selectedContact,
+      sequenceEnrollments: state.sequenceEnrollments.filter((e: any) => e.contactId !== id),
     }));
-    bgSync(() => supabaseSync.deleteContact(id));
+    queueSync('deleteContact', [id, entry.id], dirtyKey('contacts', id));
+    return entry;
   },
 
   updateContact: (id: string, updates: Partial<any>) => {
+    // New activities are attributed to the campaign the contact is in
+    const current: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === id);
+    const campaignId = 'campaignId' in updates ? updates.campaignId : current?.campaignId;
+    if (Array.isArray(updates.activities) && campaignId) {
+      const known = new Set((current?.activities || []).map(a => a.id));
+      updates = { ...updates, activities: updates.activities.map((a: any) => known.has(a.id) ? a : withCampaign(a, campaignId)) };
+    }
+    // Decision maker / clinic writes go through the provenance rules (utils/provenance)
+    if (current) updates = reconcileContactUpdates(current, updates);
     set((state: any) => ({
       contacts: state.contacts.map((c: any) =>
         c.id === id ? { ...c, ...updates, updatedAt: new Date() } : c
       ),
     }));
-    bgSync(() => supabaseSync.updateContactFields(id, updates));
+    const pending = markEdited(set, get, 'contacts', id, Object.keys(updates));
+    queueSync('updateContactFields', [id, updates], dirtyKey('contacts', id), pending);
+  },
+
+  pinContactField: (id: string, field: ContactProvenanceField, value: string | null) => {
+    const contact: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === id);
+    if (!contact) return;
+    get().updateContact(id, { provenance: { ...contact.provenance, [field]: pinValue(contact.provenance?.[field], value) } });
+  },
+
+  pinClinicField: (id: string, field: ClinicProvenanceField, value: string | null) => {
+    const contact: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === id);
+    if (!contact) return;
+    const provenance = { ...contact.clinic.provenance, [field]: pinValue(contact.clinic.provenance?.[field], value) };
+    get().updateContact(id, { clinic: { ...contact.clinic, provenance } });
+    if (get().clinics.some((c: Clinic) => c.id === contact.clinic.id)) get().updateClinic(contact.clinic.id, { provenance });
   },
 
   selectContact: (contact: any) => set({ selectedContact: contact }),
@@ -277,22 +1025,22 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
         c.id === id ? { ...c, status, updatedAt: new Date() } : c
       ),
     }));
-    bgSync(() => supabaseSync.updateContactFields(id, { status }));
+    const pending = markEdited(set, get, 'contacts', id, ['status']);
+    queueSync('updateContactFields', [id, { status }], dirtyKey('contacts', id), pending);
   },
 
   addCall: (call: any) => {
+    call = withCampaign(call, campaignOf(get, call.contactId));
     set((state: any) => ({ activeCalls: [...state.activeCalls, call] }));
-    bgSync(() => supabaseSync.syncVoiceCalls([call]));
+    queueSync('syncVoiceCalls', [[call]], `voice_calls:${call.id}`);
   },
 
   updateCall: (id: string, updates: Partial<any>) => {
     set((state: any) => ({
       activeCalls: state.activeCalls.map((c: any) => c.id === id ? { ...c, ...updates } : c),
     }));
-    bgSync(async () => {
-      const call = get().activeCalls.find((c: any) => c.id === id);
-      if (call) await supabaseSync.syncVoiceCalls([call]);
-    });
+    const call = get().activeCalls.find((c: any) => c.id === id);
+    if (call) queueSync('syncVoiceCalls', [[call]], `voice_calls:${id}`);
   },
 
   completeCall: (id: string, updates: Partial<any>) => {
@@ -306,7 +1054,7 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
         callHistory: [...state.callHistory, completed],
       };
     });
-    if (completed) bgSync(() => supabaseSync.syncVoiceCalls([completed]));
+    if (completed) queueSync('syncVoiceCalls', [[completed]], `voice_calls:${id}`);
   },
 
   clearStaleCalls: () => {
@@ -324,13 +1072,128 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
 
   setCampaigns: (campaigns: any) => {
     set({ campaigns });
-    bgSync(() => supabaseSync.syncCampaigns(campaigns));
+    queueSync('syncCampaigns', [campaigns], 'campaigns');
   },
   setActiveCampaign: (campaign: any) => set({ activeCampaign: campaign }),
 
+  saveCampaign: (campaign: Campaign) => {
+    const saved = { ...campaign, updatedAt: new Date() };
+    set((state: any) => {
+      const exists = state.campaigns.some((c: Campaign) => c.id === saved.id);
+      return {
+        campaigns: exists
+          ? state.campaigns.map((c: Campaign) => c.id === saved.id ? saved : c)
+          : [...state.campaigns, saved],
+      };
+    });
+    queueSync('syncCampaigns', [[saved]], 'campaigns');
+  },
+
+  deleteCampaign: (id: string) => {
+    const campaign = get().campaigns.find((c: Campaign) => c.id === id);
+    if (!campaign) return null;
+    const entry = recordAudit('delete_campaign', { tables: ['campaigns'], ids: [id] }, { campaigns: [campaign] }, set, get);
+    const released = get().contacts.filter((c: CRMContact) => c.campaignId === id).map((c: CRMContact) => c.id);
+    set((state: any) => ({
+      campaigns: state.campaigns.filter((c: Campaign) => c.id !== id),
+      activeCampaign: state.activeCampaign?.id === id ? null : state.activeCampaign,
+      contacts: state.contacts.map((c: CRMContact) => c.campaignId === id ? { ...c, campaignId: undefined } : c),
+    }));
+    bgSync(async () => {
+      for (const contactId of released) await supabaseSync.updateContactFields(contactId, { campaignId: undefined });
+      await supabaseSync.deleteCampaign(id, entry.id);
+    });
+    return entry;
+  },
+
+  launchCampaign: (id: string) => {
+    const state = get();
+    const campaign: Campaign | undefined = state.campaigns.find((c: Campaign) => c.id === id);
+    if (!campaign) return 0;
+    const now = new Date();
+    const members = findCampaignCandidates(campaign, state.contacts, state.campaigns);
+    const memberIds = new Set(members.map(c => c.id));
+
+    const sequence: SequenceDefinition | undefined = campaign.sequenceId
+      ? state.sequences.find((s: SequenceDefinition) => s.id === campaign.sequenceId)
+      : undefined;
+    const alreadyEnrolled = new Set((state.sequenceEnrollments as SequenceEnrollment[])
+      .filter(e => e.sequenceId === sequence?.id && (e.status === 'active' || e.status === 'paused'))
+      .map(e => e.contactId));
+    const enrollments = sequence
+      ? members.filter(c => !alreadyEnrolled.has(c.id)).map(c => createEnrollment(c.id, sequence, now))
+      : [];
+
+    const contacts = state.contacts.map((c: CRMContact) => memberIds.has(c.id) ? { ...c, campaignId: id, updatedAt: now } : c);
+    const launched: Campaign = { ...campaign, status: 'active', startDate: campaign.startDate || now, updatedAt: now };
+    launched.stats = computeCampaignStats(launched, {
+      contacts, sentEmails: state.sentEmails, calls: [...state.activeCalls, ...state.callHistory],
+    });
+
+    set({
+      contacts,
+      campaigns: state.campaigns.map((c: Campaign) => c.id === id ? launched : c),
+      sequenceEnrollments: [...state.sequenceEnrollments, ...enrollments],
+    });
+    queueSync('syncCampaigns', [[launched]], 'campaigns');
+    if (members.length) {
+      for (const c of members) queueSync('updateContactFields', [c.id, { campaignId: id }], dirtyKey('contacts', c.id));
+    }
+    if (enrollments.length) queueSync('syncSequenceEnrollments', [enrollments], 'sequence_enrollments');
+    return members.length;
+  },
+
+  /** Pausing / completing a campaign pauses / stops its members' runs of the attached sequence */
+  setCampaignStatus: (id: string, status: Campaign['status']) => {
+    const campaign: Campaign | undefined = get().campaigns.find((c: Campaign) => c.id === id);
+    if (!campaign) return;
+    const now = new Date();
+    const updated: Campaign = {
+      ...campaign, status, updatedAt: now,
+      endDate: status === 'completed' ? now : campaign.endDate,
+    };
+    const memberIds = new Set(get().contacts.filter((c: CRMContact) => c.campaignId === id).map((c: CRMContact) => c.id));
+    const enrollments: SequenceEnrollment[] = [];
+    if (campaign.sequenceId) {
+      for (const e of get().sequenceEnrollments as SequenceEnrollment[]) {
+        if (e.sequenceId !== campaign.sequenceId || !memberIds.has(e.contactId)) continue;
+        if (status === 'paused' && e.status === 'active') enrollments.push({ ...e, status: 'paused', updatedAt: now });
+        else if (status === 'active' && e.status === 'paused') enrollments.push({ ...e, status: 'active', updatedAt: now });
+        else if (status === 'completed' && (e.status === 'active' || e.status === 'paused')) enrollments.push(exitEnrollment(e, 'manual', now));
+      }
+    }
+    set((state: any) => {
+      const byId = new Map(enrollments.map(e => [e.id, e]));
+      return {
+        campaigns: state.campaigns.map((c: Campaign) => c.id === id ? updated : c),
+        sequenceEnrollments: state.sequenceEnrollments.map((e: SequenceEnrollment) => byId.get(e.id) || e),
+      };
+    });
+    queueSync('syncCampaigns', [[updated]], 'campaigns');
+    if (enrollments.length) queueSync('syncSequenceEnrollments', [enrollments], 'sequence_enrollments');
+  },
+
+  /** Recompute every campaign's stats snapshot; only changed campaigns are written back */
+  refreshCampaignStats: () => {
+    const state = get();
+    const calls = [...state.activeCalls, ...state.callHistory];
+    const changed: Campaign[] = [];
+    const campaigns = state.campaigns.map((c: Campaign) => {
+      const stats = computeCampaignStats(c, { contacts: state.contacts, sentEmails: state.sentEmails, calls });
+      if (sameCampaignStats(stats, c.stats)) return c;
+      const next = { ...c, stats };
+      changed.push(next);
+      return next;
+    });
+    if (!changed.length) return;
+    set({ campaigns });
+    queueSync('syncCampaigns', [changed], 'campaigns');
+  },
+
   addSentEmails: (emails: SentEmail[]) => {
+    emails = emails.map(e => withCampaign(e, campaignOf(get, e.contactId)));
     set((state: any) => ({ sentEmails: [...state.sentEmails, ...emails] }));
-    bgSync(() => supabaseSync.syncSentEmails(emails));
+    queueSync('syncSentEmails', [emails], 'sent_emails');
   },
   updateSentEmails: (emails: SentEmail[]) => {
     set((state: any) => {
@@ -338,41 +1201,426 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
       for (const e of emails) map.set(e.id, e);
       return { sentEmails: Array.from(map.values()) };
     });
-    bgSync(() => supabaseSync.syncSentEmails(emails));
+    queueSync('syncSentEmails', [emails], 'sent_emails');
+  },
+
+  recordThreadReply: (contactId: string, email: SentEmail) => {
+    const contact: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === contactId);
+    if (!contact) return;
+    const now = new Date();
+    get().addSentEmails([email]);
+    get().updateContact(contactId, {
+      lastContactedAt: now,
+      activities: [...(contact.activities || []), {
+        id: `act-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        type: 'email_sent',
+        description: `Replied to ${email.to} — ${email.subject}`,
+        timestamp: now,
+        metadata: { sentEmailId: email.id, messageId: email.messageId, inReplyTo: email.inReplyTo },
+      }],
+    });
+    // A rep is in the conversation now — automated steps would talk over them
+    const handedOver = (get().sequenceEnrollments as SequenceEnrollment[])
+      .filter(e => e.contactId === contactId && (e.status === 'active' || e.status === 'paused'))
+      .map(e => exitEnrollment(e, 'replied', now));
+    get().upsertSequenceEnrollments(handedOver);
+  },
+  saveSequence: (sequence: SequenceDefinition) => {
+    const saved = { ...sequence, updatedAt: new Date() };
+    set((state: any) => {
+      const exists = state.sequences.some((s: SequenceDefinition) => s.id === saved.id);
+      return {
+        sequences: exists
+          ? state.sequences.map((s: SequenceDefinition) => s.id === saved.id ? saved : s)
+          : [...state.sequences, saved],
+      };
+    });
+    bgSync(() => supabaseSync.syncSequences([saved]));
+  },
+  deleteSequence: (id: string) => {
+    set((state: any) => ({
+      sequences: state.sequences.filter((s: SequenceDefinition) => s.id !== id),
+      sequenceEnrollments: state.sequenceEnrollments.filter((e: SequenceEnrollment) => e.sequenceId !== id),
+    }));
+    bgSync(() => supabaseSync.deleteSequence(id));
+  },
+  upsertSequenceEnrollments: (enrollments: SequenceEnrollment[]) => {
+    if (!enrollments.length) return;
+    set((state: any) => {
+      const map = new Map(state.sequenceEnrollments.map((e: SequenceEnrollment) => [e.id, e]));
+      for (const e of enrollments) map.set(e.id, e);
+      return { sequenceEnrollments: Array.from(map.values()) };
+    });
+    queueSync('syncSequenceEnrollments', [enrollments], 'sequence_enrollments');
+  },
+  syncScheduledSends: async () => {
+    const scheduled = (get().sequenceEnrollments as SequenceEnrollment[]).flatMap(e =>
+      e.stepRuns.filter(r => r.status === 'scheduled' && r.sendJobId).map(r => ({ enrollmentId: e.id, stepId: r.stepId, jobId: r.sendJobId! })));
+    if (!scheduled.length) return;
+    const jobs = new Map((await emailScheduleService.fetchJobs(scheduled.map(s => s.jobId))).map(j => [j.id, j]));
+
+    const updated = new Map<string, SequenceEnrollment>();
+    for (const { enrollmentId, stepId, jobId } of scheduled) {
+      const job = jobs.get(jobId);
+      const enrollment = updated.get(enrollmentId) || get().sequenceEnrollments.find((e: SequenceEnrollment) => e.id === enrollmentId);
+      const sequence = enrollment && get().sequences.find((s: SequenceDefinition) => s.id === enrollment.sequenceId);
+      if (!job || !enrollment || !sequence) continue;
+      if (job.status === 'sent') {
+        const sentAt = job.sent_at ? new Date(job.sent_at) : new Date();
+        updated.set(enrollmentId, markStepExecuted(enrollment, sequence, stepId, { status: 'sent', sentEmailId: job.sent_email_id || undefined, sendError: undefined }, sentAt));
+      } else if (job.status === 'failed' || job.status === 'cancelled') {
+        // Back to ready so the draft can be rescheduled or sent by hand
+        updated.set(enrollmentId, updateStepRun(enrollment, stepId, {
+          status: 'ready', sendJobId: undefined, scheduledAt: undefined, sendError: job.last_error || `Send ${job.status}`,
+        }));
+      } else if (job.status === 'pending') {
+        // email-dispatch moves a job a day on when the sender pool is at its cap
+        const run = getStepRun(enrollment, stepId);
+        const sendAt = new Date(job.send_at);
+        if (run?.scheduledAt && new Date(run.scheduledAt).getTime() !== sendAt.getTime()) {
+          updated.set(enrollmentId, updateStepRun(enrollment, stepId, { scheduledAt: sendAt, sendError: job.last_error || undefined }));
+        }
+      }
+    }
+    get().upsertSequenceEnrollments(Array.from(updated.values()));
+  },
+  removeSequenceEnrollment: (id: string) => {
+    set((state: any) => ({
+      sequenceEnrollments: state.sequenceEnrollments.filter((e: SequenceEnrollment) => e.id !== id),
+    }));
+    queueSync('deleteSequenceEnrollment', [id], 'sequence_enrollments');
+  },
+
+  addSuppressions: (entries: SuppressionEntry[]) => {
+    const key = (e: SuppressionEntry) => `${e.reason}:${e.email?.toLowerCase() || ''}:${e.phone || ''}:${e.domain || ''}`;
+    const seen = new Set(get().suppressions.map(key));
+    const fresh = entries.filter(e => !seen.has(key(e)));
+    if (!fresh.length) return;
+    suppressionService.register(fresh);
+    set((state: any) => ({ suppressions: [...state.suppressions, ...fresh] }));
+    queueSync('syncSuppressions', [fresh], 'suppression_list');
+  },
+  removeSuppressions: (ids: string[]) => {
+    if (!ids.length) return;
+    suppressionService.unregister(ids);
+    set((state: any) => ({ suppressions: state.suppressions.filter((e: SuppressionEntry) => !ids.includes(e.id)) }));
+    queueSync('deleteSuppressions', [ids], 'suppression_list');
+  },
+
+  /** Save an edited weight set as the next immutable version (not activated) */
+  saveScoringModel: (draft: Omit<ScoringModel, 'id' | 'version' | 'createdAt'>) => {
+    const version = Math.max(0, ...get().scoringModels.map((m: ScoringModel) => m.version)) + 1;
+    const model: ScoringModel = { ...draft, id: `scoring-v${version}-${Date.now()}`, version, createdAt: new Date() };
+    set((state: any) => ({ scoringModels: [...state.scoringModels, model] }));
+    bgSync(() => supabaseSync.syncScoringModels([model], get().activeScoringModelId));
+    return model;
+  },
+
+  /** Switch the active scoring model and rescore every contact with it */
+  activateScoringModel: (id: string) => {
+    const { scoringModels } = get();
+    if (!scoringModels.some((m: ScoringModel) => m.id === id)) return;
+    syncActiveScoringModel(scoringModels, id);
+
+    const changed: CRMContact[] = [];
+    const contacts = get().contacts.map((c: CRMContact) => {
+      const { score, priority } = computeLeadScore(c);
+      if (score === c.score && priority === c.priority) return c;
+      const next = { ...c, score, priority };
+      changed.push(next);
+      return next;
+    });
+    const selected = get().selectedContact;
+    set({
+      activeScoringModelId: id,
+      contacts,
+      selectedContact: selected ? contacts.find((c: CRMContact) => c.id === selected.id) || selected : null,
+    });
+    bgSync(() => supabaseSync.syncScoringModels(scoringModels, id));
+    if (changed.length) bgSync(() => supabaseSync.syncContacts(changed));
+  },
+
+  saveEmailTemplate: (draft: Parameters<AppState['saveEmailTemplate']>[0], note?: string) => {
+    const now = new Date();
+    const existing: EmailTemplate | undefined = draft.id ? get().emailTemplates.find((t: EmailTemplate) => t.id === draft.id) : undefined;
+    let template: EmailTemplate;
+    let version: EmailTemplateVersion;
+    if (existing) {
+      ({ template, version } = reviseTemplate(existing, {
+        name: draft.name, description: draft.description, subject: draft.subject,
+        html: draft.html, senderProfileId: draft.senderProfileId,
+      }, note, now));
+    } else {
+      template = {
+        id: draft.id || `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        name: draft.name,
+        description: draft.description,
+        subject: draft.subject,
+        html: draft.html,
+        senderProfileId: draft.senderProfileId,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      version = snapshotTemplate(template, note || 'Initial version');
+    }
+    set((state: any) => ({
+      emailTemplates: existing
+        ? state.emailTemplates.map((t: EmailTemplate) => t.id === template.id ? template : t)
+        : [...state.emailTemplates, template],
+      emailTemplateVersions: [...state.emailTemplateVersions, version],
+    }));
+    bgSync(() => supabaseSync.syncEmailTemplates([template], [version]));
+    return template;
+  },
+
+  restoreEmailTemplateVersion: (templateId: string, version: number) => {
+    const old: EmailTemplateVersion | undefined = get().emailTemplateVersions
+      .find((v: EmailTemplateVersion) => v.templateId === templateId && v.version === version);
+    if (!old) return;
+    get().saveEmailTemplate({
+      id: templateId, name: old.name, subject: old.subject, html: old.html, senderProfileId: old.senderProfileId,
+    }, `Restored v${version}`);
+  },
+
+  archiveEmailTemplate: (id: string, archived: boolean) => {
+    const template: EmailTemplate | undefined = get().emailTemplates.find((t: EmailTemplate) => t.id === id);
+    if (!template) return;
+    const updated = { ...template, archived, updatedAt: new Date() };
+    set((state: any) => ({ emailTemplates: state.emailTemplates.map((t: EmailTemplate) => t.id === id ? updated : t) }));
+    bgSync(() => supabaseSync.syncEmailTemplates([updated]));
+  },
+
+  saveSenderProfile: (profile: SenderProfile) => {
+    const saved = { ...profile, updatedAt: new Date() };
+    set((state: any) => {
+      // Only one default identity
+      const others = state.senderProfiles
+        .filter((p: SenderProfile) => p.id !== saved.id)
+        .map((p: SenderProfile) => saved.isDefault && p.isDefault ? { ...p, isDefault: false, updatedAt: saved.updatedAt } : p);
+      return { senderProfiles: [...others, saved] };
+    });
+    bgSync(() => supabaseSync.syncSenderProfiles(get().senderProfiles));
+  },
+
+  deleteSenderProfile: (id: string) => {
+    const profile: SenderProfile | undefined = get().senderProfiles.find((p: SenderProfile) => p.id === id);
+    if (!profile || profile.isDefault) return;
+    set((state: any) => ({
+      senderProfiles: state.senderProfiles.filter((p: SenderProfile) => p.id !== id),
+      emailTemplates: state.emailTemplates.map((t: EmailTemplate) => t.senderProfileId === id ? { ...t, senderProfileId: undefined } : t),
+    }));
+    bgSync(() => supabaseSync.deleteSenderProfile(id));
+  },
+
+  saveExperiment: (experiment: EmailExperiment) => {
+    const saved = { ...experiment, updatedAt: new Date() };
+    set((state: any) => ({
+      experiments: state.experiments.some((x: EmailExperiment) => x.id === saved.id)
+        ? state.experiments.map((x: EmailExperiment) => x.id === saved.id ? saved : x)
+        : [...state.experiments, saved],
+    }));
+    bgSync(() => supabaseSync.syncExperiments([saved]));
+  },
+
+  deleteExperiment: (id: string) => {
+    set((state: any) => ({ experiments: state.experiments.filter((x: EmailExperiment) => x.id !== id) }));
+    bgSync(() => supabaseSync.deleteExperiment(id));
+  },
+
+  /** Template experiments also write the winning copy back as the template's next version */
+  evaluateExperiments: () => {
+    const state = get();
+    const running = (state.experiments as EmailExperiment[]).filter(x => x.status === 'running');
+    if (!running.length) return [];
+    const replied = collectRepliedEmailIds(state.contacts, state.sentEmails);
+    const now = new Date();
+    const decided: EmailExperiment[] = [];
+    for (const x of running) {
+      const { winnerVariantId } = evaluateExperiment(x, state.sentEmails, replied, now);
+      if (winnerVariantId) decided.push(promoteWinner(x, winnerVariantId, now));
+    }
+    if (!decided.length) return [];
+
+    const byId = new Map(decided.map(x => [x.id, x]));
+    set((s: any) => ({ experiments: s.experiments.map((x: EmailExperiment) => byId.get(x.id) || x) }));
+    bgSync(() => supabaseSync.syncExperiments(decided));
+    for (const x of decided) {
+      if (x.target.kind !== 'template') continue;
+      const templateId = x.target.templateId;
+      const template: EmailTemplate | undefined = get().emailTemplates.find((t: EmailTemplate) => t.id === templateId);
+      const winner = x.variants.find(v => v.id === x.winnerVariantId);
+      if (!template || !winner) continue;
+      const promoted = applyVariantToTemplate(template, winner);
+      if (promoted.subject === template.subject && promoted.html === template.html) continue;
+      get().saveEmailTemplate({
+        id: template.id, name: template.name, description: template.description,
+        subject: promoted.subject, html: promoted.html, senderProfileId: template.senderProfileId,
+      }, `A/B winner: ${winner.name} (${x.name})`);
+    }
+    return decided;
+  },
+
+  saveSendingMailbox: (mailbox: SendingMailbox) => {
+    const saved = { ...mailbox, updatedAt: new Date() };
+    set((state: any) => ({
+      sendingMailboxes: state.sendingMailboxes.some((m: SendingMailbox) => m.id === saved.id)
+        ? state.sendingMailboxes.map((m: SendingMailbox) => m.id === saved.id ? saved : m)
+        : [...state.sendingMailboxes, saved],
+    }));
+    bgSync(() => supabaseSync.syncSendingMailboxes([saved]));
+  },
+
+  deleteSendingMailbox: (id: string) => {
+    set((state: any) => ({ sendingMailboxes: state.sendingMailboxes.filter((m: SendingMailbox) => m.id !== id) }));
+    bgSync(() => supabaseSync.deleteSendingMailbox(id));
+  },
+
+  setPreflightPolicy: (updates: Partial<PreflightPolicy>) => {
+    set((state: any) => ({ preflightPolicy: { ...state.preflightPolicy, ...updates } }));
+  },
+
+  setEnrichmentWaterfall: (updates: Partial<WaterfallConfig>) => {
+    set((state: any) => ({ enrichmentWaterfall: { ...state.enrichmentWaterfall, ...updates } }));
+  },
+
+  recordEnrichmentLedger: (entries: EnrichmentLedgerEntry[]) => {
+    if (!entries.length) return;
+    set((state: any) => ({ enrichmentLedger: trimLedger([...state.enrichmentLedger, ...entries]) }));
+    bgSync(() => supabaseSync.syncEnrichmentLedger(entries));
+  },
+
+  refreshEnrichmentLedger: async () => {
+    const remote = await supabaseSync.fetchEnrichmentLedger();
+    if (remote?.length) set((state: any) => ({ enrichmentLedger: trimLedger([...state.enrichmentLedger, ...remote]) }));
+  },
+
+  recordEmailVerifications: (entries: EmailVerification[]) => {
+    if (!entries.length) return;
+    set((state: any) => ({ emailVerifications: mergeVerifications(state.emailVerifications, entries) }));
+    bgSync(() => supabaseSync.syncEmailVerifications(entries));
+  },
+
+  /** Drive contact + sequence state from a classified inbound reply */
+  applyReplyClassification: (contactId: string, reply: ReplyClassification, meta?: { replyId?: string; fromEmail?: string }) => {
+    const now = new Date();
+    const contact: CRMContact | undefined = get().contacts.find((c: CRMContact) => c.id === contactId);
+    if (!contact) return;
+    const transition = getReplyTransition(contact, reply, now);
+    const updates = {
+      status: transition.status,
+      tags: transition.tags,
+      nextFollowUp: transition.nextFollowUp ?? contact.nextFollowUp,
+    };
+    const enrollments: SequenceEnrollment[] = [];
+    for (const e of get().sequenceEnrollments as SequenceEnrollment[]) {
+      if (e.contactId !== contactId) continue;
+      const next = applyReplyToEnrollment(e, reply, now);
+      if (next !== e) enrollments.push(next);
+    }
+
+    set((state: any) => {
+      const byId = new Map(enrollments.map((e: SequenceEnrollment) => [e.id, e]));
+      return {
+        contacts: state.contacts.map((c: any) => c.id === contactId ? { ...c, ...updates, updatedAt: now } : c),
+        sequenceEnrollments: state.sequenceEnrollments.map((e: SequenceEnrollment) => byId.get(e.id) || e),
+      };
+    });
+    const pending = markEdited(set, get, 'contacts', contactId, Object.keys(updates));
+    queueSync('updateContactFields', [contactId, updates], dirtyKey('contacts', contactId), pending);
+    if (enrollments.length) queueSync('syncSequenceEnrollments', [enrollments], 'sequence_enrollments');
+    if (meta?.replyId) bgSync(() => supabaseSync.updateEmailReplyClassification(meta.replyId!, reply));
+
+    if (transition.suppress) {
+      const email = meta?.fromEmail || contact.decisionMaker?.email || contact.clinic.email;
+      get().addSuppressions([suppressionService.createEntry({
+        email: email || undefined,
+        phone: contact.clinic.phone || undefined,
+        contactId,
+        reason: 'unsubscribe',
+        source: 'email_reply',
+      }, now)]);
+    }
   },
 
   setCurrentView: (view: any) => set({ currentView: view }),
 
-  // ─── Clear actions ───
+  clearSyncConflicts: () => set({ syncConflicts: [] }),
+
+  // ─── Clear actions (recorded in the audit log, restorable from the trash) ───
   clearClinics: () => {
+    const entry = recordAudit('clear_clinics', { tables: ['clinics'] }, { clinics: get().clinics }, set, get);
     set({ clinics: [] });
     localStorage.removeItem('novalyte_ai_engine_clinics');
     localStorage.removeItem('novalyte_ai_engine_state');
-    bgSync(() => supabaseSync.deleteAllClinics());
+    bgSync(async () => {
+      await outboxService.discard(outboxTargets('clinics'));
+      await supabaseSync.deleteAllClinics(entry.id);
+    });
+    return entry;
   },
   clearContacts: () => {
-    set({ contacts: [], selectedContact: null });
+    const { contacts, sequenceEnrollments } = get();
+    const entry = recordAudit('clear_contacts', { tables: ['contacts', 'sent_emails', 'email_replies', 'sequence_enrollments'] }, { contacts, sequenceEnrollments }, set, get);
+    set({ contacts: [], selectedContact: null, sequenceEnrollments: [] });
     localStorage.removeItem('novalyte_crm_imports');
-    bgSync(() => supabaseSync.deleteAllContacts());
+    bgSync(async () => {
+      await outboxService.discard(outboxTargets('contacts', 'sequence_enrollments'));
+      await supabaseSync.deleteAllContacts(entry.id);
+    });
+    return entry;
   },
   clearKeywordTrends: () => {
+    const entry = recordAudit('clear_keyword_trends', { tables: ['keyword_trends'] }, { keywordTrends: get().keywordTrends }, set, get);
     set({ keywordTrends: [] });
-    bgSync(() => supabaseSync.deleteAllKeywordTrends());
+    bgSync(() => supabaseSync.deleteAllKeywordTrends(entry.id));
+    return entry;
   },
   clearCallHistory: () => {
+    const { callHistory, activeCalls } = get();
+    const entry = recordAudit('clear_call_history', { tables: ['voice_calls'] }, { callHistory: [...callHistory, ...activeCalls] }, set, get);
     set({ callHistory: [], activeCalls: [] });
-    bgSync(() => supabaseSync.deleteAllCalls());
+    bgSync(async () => {
+      await outboxService.discard(outboxTargets('voice_calls'));
+      await supabaseSync.deleteAllCalls(entry.id);
+    });
+    return entry;
+  },
+  // Local only — sent_emails rows stay in Supabase
+  clearSentEmails: () => {
+    const entry = recordAudit('clear_sent_emails', { tables: [] }, { sentEmails: get().sentEmails }, set, get);
+    set({ sentEmails: [] });
+    return entry;
   },
-  clearSentEmails: () => set({ sentEmails: [] }),
   clearCampaigns: () => {
+    const entry = recordAudit('clear_campaigns', { tables: ['campaigns'] }, { campaigns: get().campaigns }, set, get);
     set({ campaigns: [], activeCampaign: null });
-    bgSync(() => supabaseSync.deleteAllCampaigns());
+    bgSync(async () => {
+      await outboxService.discard(outboxTargets('campaigns'));
+      await supabaseSync.deleteAllCampaigns(entry.id);
+    });
+    return entry;
   },
 
-  /** Nuclear reset — wipes ALL data from store + all localStorage keys + Supabase */
+  /** Nuclear reset — wipes ALL data from store + IndexedDB + all localStorage keys + Supabase (restorable from the trash) */
   factoryReset: () => {
-    // Clear Supabase first (fire and forget)
-    supabaseSync.deleteAll().catch(err => console.warn('Supabase delete error:', err));
+    const state = get();
+    const entry = createAuditEntry('factory_reset', {
+      tables: ['clinics', 'contacts', 'keyword_trends', 'voice_calls', 'campaigns', 'sent_emails', 'email_replies', 'sequence_enrollments'],
+    }, {
+      clinics: state.clinics,
+      contacts: state.contacts,
+      keywordTrends: state.keywordTrends,
+      callHistory: [...state.callHistory, ...state.activeCalls],
+      sentEmails: state.sentEmails,
+      campaigns: state.campaigns,
+      sequenceEnrollments: state.sequenceEnrollments,
+    }, actorFromSession(getCurrentSession()));
+    // Nothing queued offline may bring data back; the audit entry has to land before the rows it covers go
+    outboxService.discard(() => true);
+    const wiped = supabaseSync.recordAudit(entry)
+      .then(() => supabaseSync.deleteAll(entry.id))
+      .catch(err => console.warn('Supabase delete error:', err));
     // Clear all feature-specific localStorage
     const keys = [
       'novalyte-store',
@@ -384,25 +1632,86 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
       'novalyte_drip_sequences',
     ];
     keys.forEach(k => localStorage.removeItem(k));
-    // Small delay to let Supabase delete fire off
-    setTimeout(() => window.location.reload(), 500);
+    // The persisted store lives in IndexedDB — wait for it and the Supabase delete
+    const cleared = (useAppStore as any).persist.clearStorage() as Promise<void> | void;
+    Promise.all([cleared, wiped, new Promise(resolve => setTimeout(resolve, 500))])
+      .catch(err => console.warn('Storage clear error:', err))
+      .finally(() => window.location.reload());
+  },
+
+  restoreFromTrash: async (auditId: string) => {
+    let entry: AuditEntry | undefined = get().auditLog.find((e: AuditEntry) => e.id === auditId);
+    if (entry && !entry.snapshot && !entry.restoredAt) {
+      // Recorded in another browser or before a factory reset — the snapshot is in Supabase
+      const snapshot = await supabaseSync.fetchAuditSnapshot(auditId);
+      if (snapshot) entry = { ...entry, snapshot: reviveSnapshot(snapshot) };
+    }
+    if (!entry || !isRestorable(entry)) return false;
+    const snapshot = entry.snapshot!;
+    const actor = actorFromSession(getCurrentSession());
+    const state = get();
+    const restored = restoreSnapshot({
+      clinics: state.clinics,
+      contacts: state.contacts,
+      keywordTrends: state.keywordTrends,
+      callHistory: state.callHistory,
+      sentEmails: state.sentEmails,
+      campaigns: state.campaigns,
+      sequenceEnrollments: state.sequenceEnrollments,
+    }, snapshot);
+    set({ ...restored, auditLog: mergeAuditLog(state.auditLog, [{ ...entry, restoredAt: new Date(), restoredBy: actor }]) });
+    if (entry.scope.tables.length) {
+      bgSync(async () => {
+        if (!(await supabaseSync.restoreDeleted(auditId, actor))) pushSnapshot(snapshot);
+      });
+    }
+    return true;
+  },
+
+  refreshAuditLog: async () => {
+    const remote = await supabaseSync.fetchAuditLog();
+    if (remote) set({ auditLog: mergeAuditLog(get().auditLog, remote) });
   },
 
   // ─── Supabase lifecycle ───
 
   initSupabase: async () => {
+    // Merging remote data into a store that hasn't loaded yet would lose the local copy
+    await whenHydrated();
+    reportMigrations(pendingMigrationReport.splice(0), set, get);
+    // Snapshots past their restore window are dropped
+    set({ auditLog: mergeAuditLog(get().auditLog, []) });
     const ok = await supabaseSync.init();
     set({ supabaseReady: ok });
     if (ok) {
-      // Pull remote data — merge with local
+      // Replay writes queued while offline before pulling, so the pull already reflects them
+      await outboxService.start(entry => replayOutboxEntry(entry, set));
+      // Contacts and clinics come as deltas once this browser has cursors; the first sync pulls them whole
+      const incremental = SYNC_TABLES.every(t => localStorage.getItem(cursorKey(t)));
+      const startCursors = incremental ? null : await Promise.all(SYNC_TABLES.map(t => supabaseSync.latestUpdatedAt(t)));
       const state = get();
-      const remote = await supabaseSync.pullAll(state.markets);
+      const remote = await supabaseSync.pullAll(state.markets, { incremental });
       if (remote) {
         // Merge: remote wins for contacts/clinics/trends, local wins for UI state
-        const mergedContacts = mergeById(state.contacts, remote.contacts);
-        const mergedClinics = mergeById(state.clinics, remote.clinics);
+        const mergedContacts = incremental ? state.contacts : mergeById(state.contacts, remote.contacts);
+        const mergedClinics = incremental ? state.clinics : mergeById(state.clinics, remote.clinics);
         const mergedTrends = mergeById(state.keywordTrends, remote.keywordTrends);
         const mergedSentEmails = mergeById(state.sentEmails, remote.sentEmails || []);
+        const mergedSequences = mergeById(state.sequences, remote.sequences || []);
+        const mergedEnrollments = mergeById(state.sequenceEnrollments, remote.sequenceEnrollments || []);
+        const mergedSuppressions = mergeById(state.suppressions, remote.suppressions || []);
+        suppressionService.load(mergedSuppressions);
+        const mergedScoringModels = mergeById(state.scoringModels, remote.scoringModels || []);
+        const activeScoringModelId = remote.activeScoringModelId || state.activeScoringModelId;
+        syncActiveScoringModel(mergedScoringModels, activeScoringModelId);
+        const mergedTemplates = mergeById(state.emailTemplates, remote.emailTemplates || []);
+        const mergedTemplateVersions = mergeById(state.emailTemplateVersions, remote.emailTemplateVersions || []);
+        const mergedSenderProfiles = mergeById(state.senderProfiles, remote.senderProfiles || []);
+        const mergedExperiments = mergeById(state.experiments, remote.experiments || []);
+        const mergedMailboxes = mergeById(state.sendingMailboxes, remote.sendingMailboxes || []);
+        const mergedLedger = trimLedger([...state.enrichmentLedger, ...(remote.enrichmentLedger || [])]);
+        const mergedVerifications = mergeVerifications(state.emailVerifications, remote.emailVerifications || []);
+        emailVerificationService.load(mergedVerifications);
         set({
           markets: remote.markets.length > 0 ? remote.markets : state.markets,
           clinics: mergedClinics,
@@ -412,84 +1721,85 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
           callHistory: remote.callHistory.length > 0 ? remote.callHistory : state.callHistory,
           campaigns: remote.campaigns.length > 0 ? remote.campaigns : state.campaigns,
           sentEmails: mergedSentEmails,
+          sequences: mergedSequences,
+          sequenceEnrollments: mergedEnrollments,
+          suppressions: mergedSuppressions,
+          scoringModels: mergedScoringModels,
+          activeScoringModelId,
+          emailTemplates: mergedTemplates,
+          emailTemplateVersions: mergedTemplateVersions,
+          senderProfiles: mergedSenderProfiles,
+          experiments: mergedExperiments,
+          sendingMailboxes: mergedMailboxes,
+          enrichmentLedger: mergedLedger,
+          emailVerifications: mergedVerifications,
         });
         console.log('✓ Supabase data merged');
+        startCursors?.forEach((cursor, i) => {
+          if (cursor) localStorage.setItem(cursorKey(SYNC_TABLES[i]), cursor);
+          localStorage.removeItem(seenKey(SYNC_TABLES[i]));
+        });
       }
-      // Push any local-only data to Supabase
+      if (incremental) await pullDelta(set, get);
+      // Push any local-only data to Supabase — for contacts and clinics, only what Supabase lacks
       const fresh = get();
+      const remoteClinicIds = new Set((remote?.clinics || []).map(c => c.id));
+      const remoteContactIds = new Set((remote?.contacts || []).map(c => c.id));
+      bgSync(() => pushDirtyRecords(set, get));
+      bgSync(() => supabaseSync.purgeExpiredDeletes());
       bgSync(() => supabaseSync.pushAll({
         markets: fresh.markets,
-        clinics: fresh.clinics,
-        contacts: fresh.contacts,
+        clinics: incremental ? [] : fresh.clinics.filter((c: Clinic) => !remoteClinicIds.has(c.id)),
+        contacts: incremental ? [] : fresh.contacts.filter((c: CRMContact) => !remoteContactIds.has(c.id)),
         keywordTrends: fresh.keywordTrends,
         activeCalls: fresh.activeCalls,
         callHistory: fresh.callHistory,
         campaigns: fresh.campaigns,
         sentEmails: fresh.sentEmails,
+        sequences: fresh.sequences,
+        sequenceEnrollments: fresh.sequenceEnrollments,
+        suppressions: fresh.suppressions,
+        scoringModels: fresh.scoringModels,
+        activeScoringModelId: fresh.activeScoringModelId,
+        senderProfiles: fresh.senderProfiles,
+        emailTemplates: fresh.emailTemplates,
+        emailTemplateVersions: fresh.emailTemplateVersions,
+        experiments: fresh.experiments,
+        sendingMailboxes: fresh.sendingMailboxes,
       }));
 
-      // Lightweight polling for outreach events + inbound replies (keeps CRM pipeline live).
-      if (!outreachPollTimer) {
-        outreachPollTimer = setInterval(async () => {
-          try {
-            const lastEventAt = localStorage.getItem('novalyte_outreach_last_event_at') || new Date(Date.now() - 60 * 60 * 1000).toISOString();
-            const lastReplyAt = localStorage.getItem('novalyte_outreach_last_reply_at') || new Date(Date.now() - 60 * 60 * 1000).toISOString();
-
-            const newEmails = await supabaseSync.fetchSentEmailsSince(lastEventAt);
-            if (newEmails.length > 0) {
-              // Merge into store
-              set((state: any) => {
-                const map = new Map(state.sentEmails.map((e: any) => [e.id, e]));
-                for (const e of newEmails) map.set(e.id, e);
-                return { sentEmails: Array.from(map.values()) };
-              });
-              const maxTs = newEmails.reduce((m, e) => Math.max(m, new Date(e.lastEventAt).getTime()), new Date(lastEventAt).getTime());
-              localStorage.setItem('novalyte_outreach_last_event_at', new Date(maxTs).toISOString());
-            }
-
-            const newReplyActs = await supabaseSync.fetchEmailReplyActivitiesSince(lastReplyAt);
-            if (newReplyActs.length > 0) {
-              set((state: any) => {
-                const next = state.contacts.map((c: any) => {
-                  const adds = newReplyActs.filter(x => x.contactId === c.id).map(x => x.activity);
-                  if (adds.length === 0) return c;
-                  const existingIds = new Set((c.activities || []).map((a: any) => a.id));
-                  const mergedActs = [...(c.activities || [])];
-                  for (const a of adds) {
-                    if (!existingIds.has(a.id)) mergedActs.push(a);
-                  }
-                  const tagSet = new Set<string>(Array.isArray(c.tags) ? c.tags : []);
-                  tagSet.add('replied');
-                  tagSet.add('account');
-                  const nextStatus = (c.status === 'qualified' || c.status === 'not_interested') ? c.status : 'follow_up';
-                  return { ...c, activities: mergedActs, tags: Array.from(tagSet), status: nextStatus };
-                });
-                return { contacts: next };
-              });
-              const maxTs = newReplyActs.reduce((m, x) => Math.max(m, new Date(x.activity.timestamp).getTime()), new Date(lastReplyAt).getTime());
-              localStorage.setItem('novalyte_outreach_last_reply_at', new Date(maxTs).toISOString());
-            }
-          } catch {
-            // ignore polling errors
-          }
-        }, 15000);
-      }
+      reportMigrations(supabaseSync.takeMigrationReport(), set, get);
+      startLiveSync(set, get);
     }
   },
 
   pushToSupabase: async () => {
     if (!supabaseSync.isReady) return;
     set({ isSyncing: true });
+    await outboxService.flush();
+    // Contacts and clinics go as deltas — unconfirmed edits out, then changes from elsewhere in
+    await pushDirtyRecords(set, get);
+    await pullDelta(set, get);
     const state = get();
     await supabaseSync.pushAll({
       markets: state.markets,
-      clinics: state.clinics,
-      contacts: state.contacts,
+      clinics: [],
+      contacts: [],
       keywordTrends: state.keywordTrends,
       activeCalls: state.activeCalls,
       callHistory: state.callHistory,
       campaigns: state.campaigns,
       sentEmails: state.sentEmails,
+      sequences: state.sequences,
+      sequenceEnrollments: state.sequenceEnrollments,
+      suppressions: state.suppressions,
+      scoringModels: state.scoringModels,
+      activeScoringModelId: state.activeScoringModelId,
+      senderProfiles: state.senderProfiles,
+      emailTemplates: state.emailTemplates,
+      emailTemplateVersions: state.emailTemplateVersions,
+      experiments: state.experiments,
+      sendingMailboxes: state.sendingMailboxes,
     });
     set({ isSyncing: false });
   },
@@ -497,10 +1807,25 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
   pullFromSupabase: async () => {
     if (!supabaseSync.isReady) return;
     set({ isSyncing: true });
+    // A full replace would drop writes still in the outbox — replay them first, and hold off if any are left
+    await outboxService.flush();
+    if (outboxService.pending > 0) {
+      console.warn(`Pull skipped: ${outboxService.pending} change(s) not yet written to Supabase`);
+      set({ isSyncing: false });
+      return;
+    }
     const state = get();
+    const startCursors = await Promise.all(SYNC_TABLES.map(t => supabaseSync.latestUpdatedAt(t)));
     const remote = await supabaseSync.pullAll(state.markets);
     if (remote) {
+      // A full replace — pending edits are discarded and the delta cursors restart here
+      startCursors.forEach((cursor, i) => {
+        if (cursor) localStorage.setItem(cursorKey(SYNC_TABLES[i]), cursor);
+        else localStorage.removeItem(cursorKey(SYNC_TABLES[i]));
+        localStorage.removeItem(seenKey(SYNC_TABLES[i]));
+      });
       set({
+        syncDirty: {},
         markets: remote.markets,
         clinics: remote.clinics,
         contacts: remote.contacts,
@@ -509,13 +1834,37 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
         callHistory: remote.callHistory,
         campaigns: remote.campaigns,
         sentEmails: remote.sentEmails || [],
+        sequences: remote.sequences?.length ? remote.sequences : state.sequences,
+        sequenceEnrollments: remote.sequenceEnrollments || [],
+        suppressions: remote.suppressions || [],
+        scoringModels: remote.scoringModels?.length ? remote.scoringModels : state.scoringModels,
+        activeScoringModelId: remote.activeScoringModelId || state.activeScoringModelId,
+        emailTemplates: remote.emailTemplates?.length ? remote.emailTemplates : state.emailTemplates,
+        emailTemplateVersions: remote.emailTemplateVersions?.length ? remote.emailTemplateVersions : state.emailTemplateVersions,
+        senderProfiles: remote.senderProfiles?.length ? remote.senderProfiles : state.senderProfiles,
+        experiments: remote.experiments || [],
+        sendingMailboxes: remote.sendingMailboxes?.length ? remote.sendingMailboxes : state.sendingMailboxes,
+        enrichmentLedger: remote.enrichmentLedger?.length ? trimLedger(remote.enrichmentLedger) : state.enrichmentLedger,
+        emailVerifications: remote.emailVerifications?.length ? mergeVerifications(remote.emailVerifications) : state.emailVerifications,
       });
+      emailVerificationService.load(get().emailVerifications);
+      suppressionService.load(get().suppressions);
+      syncActiveScoringModel(get().scoringModels, get().activeScoringModelId);
     }
     set({ isSyncing: false });
   },
 }), {
   name: 'novalyte-store',
-  partialize: (state: any) => ({
+  storage: storeStorage,
+  version: STORE_VERSION,
+  migrate: (persisted: any, from: number) => {
+    const { value, applied } = runMigrations(persisted || {}, from, STORE_MIGRATIONS);
+    pendingMigrationReport.push(...applied.map(m => ({
+      scope: 'store' as const, version: m.version, name: m.name, detail: `upgraded data saved at version ${from}`,
+    })));
+    return value;
+  },
+  partialize: (state: AppState): PersistedState => ({
     markets: state.markets,
     selectedMarket: state.selectedMarket,
     keywordTrends: state.keywordTrends,
@@ -528,42 +1877,28 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
     campaigns: state.campaigns,
     activeCampaign: state.activeCampaign,
     sentEmails: state.sentEmails,
+    sequences: state.sequences,
+    sequenceEnrollments: state.sequenceEnrollments,
+    suppressions: state.suppressions,
+    scoringModels: state.scoringModels,
+    activeScoringModelId: state.activeScoringModelId,
+    emailTemplates: state.emailTemplates,
+    emailTemplateVersions: state.emailTemplateVersions,
+    senderProfiles: state.senderProfiles,
+    experiments: state.experiments,
+    sendingMailboxes: state.sendingMailboxes,
+    preflightPolicy: state.preflightPolicy,
+    enrichmentWaterfall: state.enrichmentWaterfall,
+    enrichmentLedger: state.enrichmentLedger,
+    emailVerifications: state.emailVerifications,
+    syncDirty: state.syncDirty,
+    syncConflicts: state.syncConflicts,
+    auditLog: state.auditLog,
     currentView: state.currentView,
   }),
   onRehydrateStorage: () => (state: any) => {
     if (!state) return;
     try {
-      if (Array.isArray(state.clinics)) {
-        state.clinics = state.clinics.map((c: any) => ({
-          ...c,
-          discoveredAt: c.discoveredAt ? new Date(c.discoveredAt) : new Date(),
-          lastUpdated: c.lastUpdated ? new Date(c.lastUpdated) : new Date(),
-        }));
-      }
-      if (Array.isArray(state.contacts)) {
-        state.contacts = state.contacts.map((ct: any) => ({
-          ...ct,
-          createdAt: ct.createdAt ? new Date(ct.createdAt) : new Date(),
-          updatedAt: ct.updatedAt ? new Date(ct.updatedAt) : new Date(),
-          lastContactedAt: ct.lastContactedAt ? new Date(ct.lastContactedAt) : undefined,
-          nextFollowUp: ct.nextFollowUp ? new Date(ct.nextFollowUp) : undefined,
-          clinic: ct.clinic ? {
-            ...ct.clinic,
-            discoveredAt: ct.clinic.discoveredAt ? new Date(ct.clinic.discoveredAt) : new Date(),
-            lastUpdated: ct.clinic.lastUpdated ? new Date(ct.clinic.lastUpdated) : new Date(),
-          } : ct.clinic,
-          decisionMaker: ct.decisionMaker ? {
-            ...ct.decisionMaker,
-            enrichedAt: ct.decisionMaker.enrichedAt ? new Date(ct.decisionMaker.enrichedAt) : undefined,
-          } : undefined,
-          keywordMatches: Array.isArray(ct.keywordMatches)
-            ? ct.keywordMatches.map((km: any) => ({ ...km, timestamp: km.timestamp ? new Date(km.timestamp) : new Date() }))
-            : ct.keywordMatches,
-          activities: Array.isArray(ct.activities)
-            ? ct.activities.map((a: any) => ({ ...a, timestamp: a.timestamp ? new Date(a.timestamp) : new Date() }))
-            : [],
-        }));
-      }
       if (Array.isArray(state.activeCalls)) {
         // Clean up stale active calls — if a call has been "active" for more than 10 minutes,
         // it's almost certainly done. Move it to history so it doesn't show as phantom active calls.
@@ -574,11 +1909,7 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
         for (const call of state.activeCalls) {
           const start = call.startTime ? new Date(call.startTime).getTime() : 0;
           const age = now - start;
-          const rehydrated = {
-            ...call,
-            startTime: call.startTime ? new Date(call.startTime) : new Date(),
-            endTime: call.endTime ? new Date(call.endTime) : undefined,
-          };
+          const rehydrated = reviveCall(call);
           if (age > TEN_MINUTES) {
             stale.push({ ...rehydrated, status: 'completed', notes: 'Auto-completed: stale after page reload' });
           } else {
@@ -591,33 +1922,83 @@ const createPersistedStore = (persist as any)((set: any, get: any) => ({
           console.info(`[Rehydrate] Moved ${stale.length} stale active call(s) to history`);
         }
       }
-      if (Array.isArray(state.callHistory)) {
-        state.callHistory = state.callHistory.map((call: any) => ({
-          ...call,
-          startTime: call.startTime ? new Date(call.startTime) : new Date(),
-          endTime: call.endTime ? new Date(call.endTime) : undefined,
+      if (Array.isArray(state.campaigns)) {
+        state.campaigns = state.campaigns.map(reviveCampaign);
+      }
+      if (Array.isArray(state.sequences)) {
+        state.sequences = state.sequences.map((seq: any) => ({
+          ...seq,
+          createdAt: seq.createdAt ? new Date(seq.createdAt) : new Date(),
+          updatedAt: seq.updatedAt ? new Date(seq.updatedAt) : new Date(),
         }));
       }
-      if (Array.isArray(state.campaigns)) {
-        state.campaigns = state.campaigns.map((camp: any) => ({
-          ...camp,
-          startDate: camp.startDate ? new Date(camp.startDate) : undefined,
-          endDate: camp.endDate ? new Date(camp.endDate) : undefined,
-          createdAt: camp.createdAt ? new Date(camp.createdAt) : new Date(),
-          updatedAt: camp.updatedAt ? new Date(camp.updatedAt) : new Date(),
+      if (Array.isArray(state.sequenceEnrollments)) {
+        state.sequenceEnrollments = state.sequenceEnrollments.map(reviveEnrollment);
+      }
+      if (Array.isArray(state.suppressions)) {
+        state.suppressions = state.suppressions.map((e: any) => ({
+          ...e,
+          createdAt: e.createdAt ? new Date(e.createdAt) : new Date(),
+          expiresAt: e.expiresAt ? new Date(e.expiresAt) : undefined,
+        }));
+        suppressionService.load(state.suppressions);
+      }
+      if (Array.isArray(state.scoringModels)) {
+        state.scoringModels = state.scoringModels.map((m: any) => ({
+          ...m,
+          createdAt: m.createdAt ? new Date(m.createdAt) : new Date(0),
         }));
+        syncActiveScoringModel(state.scoringModels, state.activeScoringModelId);
       }
-      if (Array.isArray(state.keywordTrends)) {
-        state.keywordTrends = state.keywordTrends.map((t: any) => ({
+      if (Array.isArray(state.emailTemplates)) {
+        state.emailTemplates = state.emailTemplates.map((t: any) => ({
           ...t,
-          timestamp: t.timestamp ? new Date(t.timestamp) : new Date(),
+          createdAt: t.createdAt ? new Date(t.createdAt) : new Date(0),
+          updatedAt: t.updatedAt ? new Date(t.updatedAt) : new Date(0),
         }));
       }
-      if (Array.isArray(state.sentEmails)) {
-        state.sentEmails = state.sentEmails.map((e: any) => ({
-          ...e,
-          sentAt: e.sentAt ? new Date(e.sentAt) : new Date(),
-          lastEventAt: e.lastEventAt ? new Date(e.lastEventAt) : new Date(),
+      if (Array.isArray(state.emailTemplateVersions)) {
+        state.emailTemplateVersions = state.emailTemplateVersions.map((v: any) => ({
+          ...v,
+          createdAt: v.createdAt ? new Date(v.createdAt) : new Date(0),
+        }));
+      }
+      if (Array.isArray(state.senderProfiles)) {
+        state.senderProfiles = state.senderProfiles.map((p: any) => ({
+          ...p,
+          createdAt: p.createdAt ? new Date(p.createdAt) : new Date(0),
+          updatedAt: p.updatedAt ? new Date(p.updatedAt) : new Date(0),
+        }));
+      }
+      if (Array.isArray(state.experiments)) {
+        state.experiments = state.experiments.map((x: any) => ({
+          ...x,
+          decidedAt: x.decidedAt ? new Date(x.decidedAt) : undefined,
+          createdAt: x.createdAt ? new Date(x.createdAt) : new Date(0),
+          updatedAt: x.updatedAt ? new Date(x.updatedAt) : new Date(0),
+        }));
+      }
+      if (Array.isArray(state.sendingMailboxes)) {
+        state.sendingMailboxes = state.sendingMailboxes.map((m: any) => ({
+          ...m,
+          warmupStartedAt: m.warmupStartedAt ? new Date(m.warmupStartedAt) : new Date(0),
+          createdAt: m.createdAt ? new Date(m.createdAt) : new Date(0),
+          updatedAt: m.updatedAt ? new Date(m.updatedAt) : new Date(0),
+        }));
+      }
+      if (Array.isArray(state.enrichmentLedger)) {
+        state.enrichmentLedger = state.enrichmentLedger.map((e: any) => ({ ...e, createdAt: new Date(e.createdAt) }));
+      }
+      if (Array.isArray(state.emailVerifications)) {
+        state.emailVerifications = state.emailVerifications.map((v: any) => ({ ...v, checkedAt: new Date(v.checkedAt) }));
+        emailVerificationService.load(state.emailVerifications);
+      }
+      if (Array.isArray(state.syncConflicts)) {
+        state.syncConflicts = state.syncConflicts.map((c: any) => ({
+          ...c,
+          localEditedAt: new Date(c.localEditedAt),
+          remoteUpdatedAt: new Date(c.remoteUpdatedAt),
+          detectedAt: new Date(c.detectedAt),
         }));
       }
     } catch (err) {
@@ -635,3 +2016,37 @@ function mergeById<T extends { id: string }>(local: T[], remote: T[]): T[] {
 }
 
 export const useAppStore = create<AppState>(createPersistedStore as any);
+
+// Every send picks its mailbox from the pool in the store
+senderPoolService.setSource(() => {
+  const { sendingMailboxes, sentEmails } = useAppStore.getState();
+  return { mailboxes: sendingMailboxes, sentEmails };
+});
+
+// Every enrichment run follows the configured waterfall and books its credits in the store's ledger
+enrichmentWaterfallService.setConfigSource(() => useAppStore.getState().enrichmentWaterfall);
+enrichmentWaterfallService.setLedgerListener(entries => useAppStore.getState().recordEnrichmentLedger(entries));
+
+// Entries raised inside services (call outcomes, DNC) persist through the store
+suppressionService.setListener({
+  add: entries => useAppStore.getState().addSuppressions(entries),
+  remove: ids => useAppStore.getState().removeSuppressions(ids),
+});
+
+// Queued writes survive reloads; the count drives the unsynced-changes indicator
+outboxService.setListener(pending => useAppStore.setState({ unsyncedChanges: pending }));
+
+// Supabase unreachable at startup — connect (and replay the outbox) once the browser is back online
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    const { supabaseReady, initSupabase } = useAppStore.getState();
+    if (!supabaseReady) initSupabase();
+  });
+}
+
+// Every verification lands in the shared cache; addresses about to be emailed are re-verified once stale
+emailVerificationService.setListener(entries => useAppStore.getState().recordEmailVerifications(entries));
+emailVerificationService.startReverification(() => {
+  const { sequenceEnrollments, sequences, contacts } = useAppStore.getState();
+  return upcomingSequenceEmails(sequenceEnrollments, sequences, contacts);
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { createIdbStorage } from './idbStorage';
+
+/**
+ * Just enough IndexedDB for the adapter: object stores in Maps, requests that
+ * succeed on the next microtask and transactions that complete on the next
+ * timer tick. Every put and delete is logged so a test can see what a write
+ * touched.
+ */
+function fakeIndexedDb() {
+  const stores = new Map<string, { keyPath?: string; records: Map<string, unknown>; indexes: string[] }>();
+  let version = 0;
+  const log: string[] = [];
+
+  const request = (result: () => unknown) => {
+    const req: any = {};
+    queueMicrotask(() => {
+      req.result = result();
+      req.onsuccess?.();
+    });
+    return req;
+  };
+
+  const objectStore = (name: string) => {
+    const s = stores.get(name)!;
+    const indexNames = Object.assign(s.indexes, { contains: (i: string) => s.indexes.includes(i) });
+    return {
+      indexNames,
+      createIndex: (index: string) => { s.indexes.push(index); },
+      deleteIndex: (index: string) => { s.indexes.splice(s.indexes.indexOf(index), 1); },
+      get: (key: string) => request(() => s.records.get(key)),
+      getAll: () => request(() => [...s.records.values()]),
+      put: (value: any, key?: string) => {
+        const id = key ?? value[s.keyPath!];
+        log.push(`put ${name}:${id}`);
+        s.records.set(id, value);
+      },
+      delete: (id: string) => {
+        log.push(`delete ${name}:${id}`);
+        s.records.delete(id);
+      },
+      clear: () => s.records.clear(),
+    };
+  };
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string, opts?: { keyPath: string }) => {
+      stores.set(name, { keyPath: opts?.keyPath, records: new Map(), indexes: [] });
+      return objectStore(name);
+    },
+    transaction: () => {
+      const tx: any = { objectStore, abort: () => tx.onabort?.() };
+      setTimeout(() => tx.oncomplete?.(), 0);
+      return tx;
+    },
+  };
+
+  const indexedDB = {
+    open: (_name: string, v: number) => {
+      const req: any = { result: db, transaction: { objectStore } };
+      queueMicrotask(() => {
+        if (v > version) {
+          version = v;
+          req.onupgradeneeded?.();
+        }
+        req.onsuccess?.();
+      });
+      return req;
+    },
+  };
+  return { indexedDB, stores, log };
+}
+
+function fakeLocalStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+}
+
+interface Contact {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+const reviveContact = (c: any): Contact => ({ ...c, createdAt: new Date(c.createdAt) });
+const COLLECTIONS = { contacts: { revive: reviveContact } };
+
+const contact = (id: string, name = id): Contact => ({ id, name, createdAt: new Date('2026-05-01T10:00:00Z') });
+
+let idb: ReturnType<typeof fakeIndexedDb>;
+let local: ReturnType<typeof fakeLocalStorage>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  idb = fakeIndexedDb();
+  local = fakeLocalStorage();
+  vi.stubGlobal('indexedDB', idb.indexedDB);
+  vi.stubGlobal('localStorage', local);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+/** Let the batched write and its transaction run */
+const settle = () => vi.advanceTimersByTimeAsync(500);
+
+describe('createIdbStorage', () => {
+  it('moves a localStorage snapshot into IndexedDB on the first load', async () => {
+    local.setItem('store', JSON.stringify({
+      version: 4,
+      state: { contacts: [contact('b'), contact('a')], currentView: 'crm' },
+    }));
+
+    const first = createIdbStorage<{ contacts: Contact[]; currentView: string }>('db', COLLECTIONS);
+    const loading = first.getItem('store');
+    await settle();
+    const moved = await loading;
+    expect(moved!.version).toBe(4);
+    expect(moved!.state.contacts.map(c => c.id)).toEqual(['b', 'a']);
+    expect(moved!.state.contacts[0].createdAt).toBeInstanceOf(Date);
+    expect(local.getItem('store')).toBeNull();
+    expect([...idb.stores.get('contacts')!.records.keys()].sort()).toEqual(['a', 'b']);
+
+    // The next session reads it back from IndexedDB, in the saved order
+    const second = createIdbStorage<{ contacts: Contact[]; currentView: string }>('db', COLLECTIONS);
+    const reloading = second.getItem('store');
+    await settle();
+    const reloaded = await reloading;
+    expect(reloaded).toEqual({ version: 4, state: { contacts: moved!.state.contacts, currentView: 'crm' } });
+  });
+
+  it('writes only the records whose object changed since the last write', async () => {
+    const storage = createIdbStorage<{ contacts: Contact[] }>('db', COLLECTIONS);
+    const loading = storage.getItem('store');
+    await settle();
+    expect(await loading).toBeNull();
+
+    const [a, b, c] = [contact('a'), contact('b'), contact('c')];
+    storage.setItem('store', { version: 1, state: { contacts: [a, b, c] } });
+    await settle();
+    expect(idb.log.filter(l => l.startsWith('put contacts'))).toEqual(['put contacts:a', 'put contacts:b', 'put contacts:c']);
+
+    // The store replaces the record it edits — only that one, the new one and the removal are written
+    idb.log.length = 0;
+    storage.setItem('store', { version: 1, state: { contacts: [a, { ...b, name: 'B' }, contact('d')] } });
+    await settle();
+    expect(idb.log).toEqual(['put contacts:b', 'put contacts:d', 'delete contacts:c', 'put meta:store']);
+    expect((idb.stores.get('meta')!.records.get('store') as any).order.contacts).toEqual(['a', 'b', 'd']);
+  });
+
+  it('batches a burst of writes and ignores writes made before the first load', async () => {
+    const storage = createIdbStorage<{ contacts: Contact[] }>('db', COLLECTIONS);
+    storage.setItem('store', { version: 1, state: { contacts: [] } });
+
+    const loading = storage.getItem('store');
+    await settle();
+    await loading;
+    expect(idb.log).toEqual([]);
+
+    const a = contact('a');
+    storage.setItem('store', { version: 1, state: { contacts: [a] } });
+    storage.setItem('store', { version: 1, state: { contacts: [a, contact('b')] } });
+    storage.setItem('store', { version: 1, state: { contacts: [contact('b')] } });
+    await settle();
+    expect(idb.log).toEqual(['put contacts:b', 'put meta:store']);
+  });
+
+  it('drops the record indexes an older version created', async () => {
+    const old = idb.indexedDB.open('db', 2);
+    old.onupgradeneeded = () => old.result.createObjectStore('contacts', { keyPath: 'id' }).createIndex('status', 'status');
+    await new Promise(resolve => { old.onsuccess = resolve; });
+    expect([...idb.stores.get('contacts')!.indexes]).toEqual(['status']);
+
+    const loading = createIdbStorage<{ contacts: Contact[] }>('db', COLLECTIONS).getItem('store');
+    await settle();
+    await loading;
+    expect([...idb.stores.get('contacts')!.indexes]).toEqual([]);
+  });
+
+  it('keeps the state in localStorage as JSON when IndexedDB is missing', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const storage = createIdbStorage<{ contacts: Contact[] }>('db', COLLECTIONS);
+    expect(await storage.getItem('store')).toBeNull();
+
+    storage.setItem('store', { version: 2, state: { contacts: [contact('a')] } });
+    await settle();
+    const saved = await createIdbStorage<{ contacts: Contact[] }>('db', COLLECTIONS).getItem('store');
+    expect(saved!.state.contacts[0]).toEqual(contact('a'));
+  });
+});
@@ -0,0 +1,221 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+
+/**
+ * Zustand persist storage backed by IndexedDB.
+ *
+ * The large collections each get an object store keyed by record id; the
+ * rest of the persisted state is one record in `meta`, along with each
+ * collection's id order. The store holds every record in memory and the views
+ * filter there, so load reads each collection whole and the object stores
+ * carry no indexes. Records are stored as structured clones, so Dates come
+ * back as Dates and nothing is re-parsed on load. Writes are batched and only touch
+ * records whose object changed since the last write — the store replaces a
+ * record whenever it edits it, so a reference check finds them.
+ *
+ * The first load moves an existing localStorage snapshot into IndexedDB and
+ * removes it. Without IndexedDB (private mode, tests) the adapter keeps using
+ * localStorage as JSON.
+ */
+
+export interface CollectionConfig {
+  /** Rebuild a record parsed from JSON (legacy localStorage snapshot) — Dates etc. */
+  revive: (record: unknown) => unknown;
+}
+
+interface MetaRecord {
+  version?: number;
+  state: Record<string, unknown>;
+  order: Record<string, string[]>;
+}
+
+const META_STORE = 'meta';
+/** Bump when the collections change (3 dropped the unused record indexes) */
+const DB_VERSION = 3;
+const WRITE_DELAY_MS = 200;
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const done = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export function createIdbStorage<S>(dbName: string, collections: Record<string, CollectionConfig>): PersistStorage<S> {
+  const names = Object.keys(collections);
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+  /** Per collection: id → record object as last written */
+  const written = new Map<string, Map<string, unknown>>();
+  /** Writes issued before the first load would replace stored data with the store's defaults */
+  let loaded = false;
+  let pending: { name: string; value: StorageValue<S> } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const req = indexedDB.open(dbName, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+          for (const name of names) {
+            const store = db.objectStoreNames.contains(name)
+              ? req.transaction!.objectStore(name)
+              : db.createObjectStore(name, { keyPath: 'id' });
+            for (const index of Array.from(store.indexNames)) store.deleteIndex(index);
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          console.warn(`[Storage] IndexedDB unavailable, keeping ${dbName} in localStorage`, req.error);
+          resolve(null);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  /** Parse a JSON snapshot and revive the collection records */
+  const readLocal = (name: string): StorageValue<S> | null => {
+    const raw = localStorage.getItem(name);
+    if (!raw) return null;
+    const value = JSON.parse(raw) as StorageValue<Record<string, unknown>>;
+    const state = { ...value.state };
+    for (const c of names) {
+      const records = state[c];
+      if (Array.isArray(records)) state[c] = records.map(collections[c].revive);
+    }
+    return { ...value, state: state as S };
+  };
+
+  const write = async (db: IDBDatabase, name: string, value: StorageValue<S>) => {
+    const state = { ...(value.state as Record<string, unknown>) };
+    const meta: MetaRecord = { version: value.version, state, order: {} };
+    const next = new Map<string, Map<string, unknown>>();
+    const tx = db.transaction([META_STORE, ...names], 'readwrite');
+    try {
+      for (const c of names) {
+        const records = (Array.isArray(state[c]) ? state[c] : []) as { id: string }[];
+        delete state[c];
+        meta.order[c] = records.map(r => r.id);
+        const prev = written.get(c) || new Map();
+        const ids = new Map<string, unknown>();
+        const store = tx.objectStore(c);
+        for (const record of records) {
+          ids.set(record.id, record);
+          if (prev.get(record.id) !== record) store.put(record);
+        }
+        for (const id of prev.keys()) {
+          if (!ids.has(id)) store.delete(id);
+        }
+        next.set(c, ids);
+      }
+      tx.objectStore(META_STORE).put(meta, name);
+    } catch (err) {
+      tx.abort();
+      throw err;
+    }
+    await done(tx);
+    for (const [c, ids] of next) written.set(c, ids);
+  };
+
+  const flush = async () => {
+    const job = pending;
+    pending = null;
+    if (!job) return;
+    const db = await open();
+    if (!db) {
+      localStorage.setItem(job.name, JSON.stringify(job.value));
+      return;
+    }
+    try {
+      await write(db, job.name, job.value);
+    } catch (err) {
+      // Unknown what landed — the next write puts every record again
+      written.clear();
+      console.warn(`[Storage] Failed to save ${job.name}`, err);
+    }
+  };
+
+  const load = async (name: string): Promise<StorageValue<S> | null> => {
+    const db = await open();
+    if (!db) return readLocal(name);
+    const tx = db.transaction([META_STORE, ...names], 'readonly');
+    const [meta, ...lists] = await Promise.all([
+      request(tx.objectStore(META_STORE).get(name)) as Promise<MetaRecord | undefined>,
+      ...names.map(c => request(tx.objectStore(c).getAll())),
+    ]);
+
+    if (!meta) {
+      // First run on IndexedDB — move the localStorage snapshot across
+      const legacy = readLocal(name);
+      if (!legacy) return null;
+      try {
+        await write(db, name, legacy);
+        localStorage.removeItem(name);
+        console.info(`[Storage] Moved ${name} from localStorage to IndexedDB`);
+      } catch (err) {
+        written.clear();
+        console.warn(`[Storage] Could not move ${name} to IndexedDB, will retry next load`, err);
+      }
+      return legacy;
+    }
+
+    const state: Record<string, unknown> = { ...meta.state };
+    names.forEach((c, i) => {
+      const byId = new Map((lists[i] as { id: string }[]).map(r => [r.id, r]));
+      const records = (meta.order[c] || []).map(id => byId.get(id)).filter(Boolean) as { id: string }[];
+      state[c] = records;
+      written.set(c, new Map(records.map(r => [r.id, r])));
+    });
+    return { state: state as S, version: meta.version };
+  };
+
+  // Don't leave a batched write behind when the tab is hidden or closed
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState !== 'hidden' || !timer) return;
+      clearTimeout(timer);
+      timer = null;
+      writing = writing.then(flush);
+    });
+  }
+
+  return {
+    getItem: async name => {
+      try {
+        return await load(name);
+      } finally {
+        loaded = true;
+      }
+    },
+    setItem: (name, value) => {
+      if (!loaded) return;
+      pending = { name, value };
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = null;
+        writing = writing.then(flush);
+      }, WRITE_DELAY_MS);
+    },
+    removeItem: async name => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending = null;
+      await writing;
+      written.clear();
+      localStorage.removeItem(name);
+      const db = await open();
+      if (!db) return;
+      const tx = db.transaction([META_STORE, ...names], 'readwrite');
+      tx.objectStore(META_STORE).delete(name);
+      for (const c of names) tx.objectStore(c).clear();
+      await done(tx);
+    },
+  };
+}
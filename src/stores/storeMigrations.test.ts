@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { STORE_MIGRATIONS, STORE_VERSION } from './storeMigrations';
+import { runMigrations } from '../utils/schemaMigrations';
+import { EMPTY_CAMPAIGN_STATS } from '../utils/campaigns';
+import { DEFAULT_PREFLIGHT_POLICY } from '../utils/deliverability';
+import { DEFAULT_WATERFALL_CONFIG } from '../utils/enrichmentWaterfall';
+import { DEFAULT_SENDING_MAILBOXES } from '../utils/senderPool';
+import { VOICEMAIL_FOLLOW_UP_SEQUENCE_ID } from '../services/sequenceEngine';
+
+/** A snapshot saved before versioning (version 0), as JSON-parsed from localStorage */
+const v0 = () => ({
+  contacts: [],
+  campaigns: [{ id: 'k1', name: 'Q3 push', stats: { totalCalls: 4 } }],
+  sequences: [{ id: 'seq-custom', name: 'Custom', steps: [] }],
+  sentEmails: [{ id: 'e1', to: 'dr@clinic.com', lastEvent: 'sent' }],
+  preflightPolicy: { minScore: 60 },
+  enrichmentWaterfall: { order: { email: ['apollo'] } },
+});
+
+const migrationNamed = (name: string) => STORE_MIGRATIONS.find(m => m.name === name)!;
+
+describe('storeMigrations', () => {
+  it('brings a pre-versioning snapshot up to the current version', () => {
+    const { value, version, applied } = runMigrations<Record<string, any>>(v0(), 0, STORE_MIGRATIONS);
+    expect(version).toBe(STORE_VERSION);
+    expect(applied).toHaveLength(STORE_MIGRATIONS.length);
+
+    expect(value.campaigns[0]).toMatchObject({ targetMarkets: [], targetKeywords: [], clinicTypes: [], stats: { ...EMPTY_CAMPAIGN_STATS, totalCalls: 4 } });
+    expect(value.sequences.map((s: any) => s.id)).toEqual(['seq-custom', VOICEMAIL_FOLLOW_UP_SEQUENCE_ID]);
+    expect(value).toMatchObject({ experiments: [], sendingMailboxes: DEFAULT_SENDING_MAILBOXES, enrichmentLedger: [], emailVerifications: [], syncDirty: {}, syncConflicts: [] });
+    expect(value.sentEmails[0]).toMatchObject({ openCount: 0, clickCount: 0, provider: 'resend' });
+    expect(value.preflightPolicy).toEqual({ ...DEFAULT_PREFLIGHT_POLICY, minScore: 60 });
+    expect(value.enrichmentWaterfall.order).toEqual({ ...DEFAULT_WATERFALL_CONFIG.order, email: ['apollo'] });
+    expect(value.enrichmentWaterfall.stopAt).toEqual(DEFAULT_WATERFALL_CONFIG.stopAt);
+  });
+
+  it('keeps what a snapshot already has', () => {
+    const saved = {
+      ...v0(),
+      sequences: [{ id: VOICEMAIL_FOLLOW_UP_SEQUENCE_ID, name: 'Edited follow-up', steps: [] }],
+      sendingMailboxes: [{ id: 'mb-1' }],
+      sentEmails: [{ id: 'e1', openCount: 3, clickCount: 1, provider: 'smtp' }],
+      syncDirty: { 'contacts:c1': { status: '2026-05-04T12:00:00.000Z' } },
+    };
+    expect(migrationNamed('voicemail_follow_up_sequence').up(saved).sequences).toEqual(saved.sequences);
+    expect(migrationNamed('sender_pool').up(saved).sendingMailboxes).toEqual([{ id: 'mb-1' }]);
+    expect(migrationNamed('sent_email_tracking').up(saved).sentEmails).toEqual(saved.sentEmails);
+    expect(migrationNamed('incremental_sync').up(saved).syncDirty).toBe(saved.syncDirty);
+  });
+
+  it('runs only the migrations newer than the saved version', () => {
+    const savedAt5 = { campaigns: [{ id: 'k1' }], enrichmentLedger: [{ id: 'l1' }] };
+    const { value, applied } = runMigrations<Record<string, any>>(savedAt5, 5, STORE_MIGRATIONS);
+    expect(applied.map(m => m.name)).toEqual(['enrichment_ledger_and_verifications', 'incremental_sync', 'audit_log']);
+    expect(value.campaigns).toEqual([{ id: 'k1' }]);
+    expect(value).toMatchObject({ enrichmentLedger: [{ id: 'l1' }], emailVerifications: [], syncConflicts: [], auditLog: [] });
+  });
+});
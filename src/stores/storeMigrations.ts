@@ -0,0 +1,108 @@
+import { DEFAULT_SEQUENCES, VOICEMAIL_FOLLOW_UP_SEQUENCE_ID } from '../services/sequenceEngine';
+import { EMPTY_CAMPAIGN_STATS } from '../utils/campaigns';
+import { DEFAULT_PREFLIGHT_POLICY } from '../utils/deliverability';
+import { DEFAULT_WATERFALL_CONFIG } from '../utils/enrichmentWaterfall';
+import { DEFAULT_SENDING_MAILBOXES } from '../utils/senderPool';
+import { Migration, assertMigrationOrder, latestVersion } from '../utils/schemaMigrations';
+
+/**
+ * Migrations for the persisted `novalyte-store` state, run by zustand persist
+ * when the saved version is older than STORE_VERSION. Browsers saved before
+ * versioning are version 0 and run all of them, so every step only fills
+ * what is missing. A new persisted field, or a new field on a record or
+ * settings object that needs a value other than undefined, gets a migration
+ * here — onRehydrateStorage only revives Dates.
+ */
+
+type PersistedState = Record<string, any>;
+
+const mapArray = (state: PersistedState, key: string, fn: (item: any) => any): PersistedState =>
+  Array.isArray(state[key]) ? { ...state, [key]: state[key].map(fn) } : state;
+
+export const STORE_MIGRATIONS: Migration<PersistedState>[] = [
+  {
+    version: 1,
+    name: 'campaign_targeting',
+    up: state => mapArray(state, 'campaigns', camp => ({
+      ...camp,
+      targetMarkets: camp.targetMarkets || [],
+      targetKeywords: camp.targetKeywords || [],
+      clinicTypes: camp.clinicTypes || [],
+      stats: { ...EMPTY_CAMPAIGN_STATS, ...(camp.stats || {}) },
+    })),
+  },
+  {
+    version: 2,
+    name: 'voicemail_follow_up_sequence',
+    // Voicemail drops enroll into this built-in
+    up: state => {
+      if (!Array.isArray(state.sequences) || state.sequences.some((seq: any) => seq.id === VOICEMAIL_FOLLOW_UP_SEQUENCE_ID)) return state;
+      return { ...state, sequences: [...state.sequences, ...DEFAULT_SEQUENCES.filter(seq => seq.id === VOICEMAIL_FOLLOW_UP_SEQUENCE_ID)] };
+    },
+  },
+  {
+    version: 3,
+    name: 'sender_pool',
+    up: state => ({
+      ...state,
+      experiments: Array.isArray(state.experiments) ? state.experiments : [],
+      sendingMailboxes: Array.isArray(state.sendingMailboxes) ? state.sendingMailboxes : DEFAULT_SENDING_MAILBOXES,
+    }),
+  },
+  {
+    version: 4,
+    name: 'sent_email_tracking',
+    up: state => mapArray(state, 'sentEmails', e => ({
+      ...e,
+      openCount: e.openCount ?? 0,
+      clickCount: e.clickCount ?? 0,
+      provider: e.provider || 'resend',
+    })),
+  },
+  {
+    version: 5,
+    name: 'policy_defaults',
+    // Fields added to the policies before versioning fall back to their defaults
+    up: state => {
+      const waterfall = state.enrichmentWaterfall || {};
+      return {
+        ...state,
+        preflightPolicy: { ...DEFAULT_PREFLIGHT_POLICY, ...(state.preflightPolicy || {}) },
+        enrichmentWaterfall: {
+          ...DEFAULT_WATERFALL_CONFIG,
+          ...waterfall,
+          order: { ...DEFAULT_WATERFALL_CONFIG.order, ...(waterfall.order || {}) },
+          stopAt: { ...DEFAULT_WATERFALL_CONFIG.stopAt, ...(waterfall.stopAt || {}) },
+          creditCost: { ...DEFAULT_WATERFALL_CONFIG.creditCost, ...(waterfall.creditCost || {}) },
+        },
+      };
+    },
+  },
+  {
+    version: 6,
+    name: 'enrichment_ledger_and_verifications',
+    up: state => ({
+      ...state,
+      enrichmentLedger: Array.isArray(state.enrichmentLedger) ? state.enrichmentLedger : [],
+      emailVerifications: Array.isArray(state.emailVerifications) ? state.emailVerifications : [],
+    }),
+  },
+  {
+    version: 7,
+    name: 'incremental_sync',
+    up: state => ({
+      ...state,
+      syncDirty: state.syncDirty && typeof state.syncDirty === 'object' ? state.syncDirty : {},
+      syncConflicts: Array.isArray(state.syncConflicts) ? state.syncConflicts : [],
+    }),
+  },
+  {
+    version: 8,
+    name: 'audit_log',
+    up: state => ({ ...state, auditLog: Array.isArray(state.auditLog) ? state.auditLog : [] }),
+  },
+];
+
+assertMigrationOrder(STORE_MIGRATIONS);
+
+export const STORE_VERSION = latestVersion(STORE_MIGRATIONS);
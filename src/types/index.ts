@@ -154,10 +154,28 @@ export interface Clinic {
   verificationStatus?: 'Ready' | 'Verified_Active' | 'Sequence_Active';
   services: string[];
   marketZone: MarketZone;
+  /** IANA timezone override; derived from the market / address state when unset */
+  timezone?: string;
+  /** Clinic-specific calling hours (take precedence over the campaign's) */
+  callingWindow?: CallingWindow;
+  // Learned on calls (see CallInsights for provenance)
+  marketingAgency?: string;
+  monthlyAdSpend?: number; // USD
+  /** Competing values for email / website and which one won (see utils/provenance) */
+  provenance?: FieldProvenance<ClinicProvenanceField>;
   discoveredAt: Date;
   lastUpdated: Date;
 }
 
+// Local-time window in which a clinic may be called
+export interface CallingWindow {
+  days: number[];        // 0 = Sunday … 6 = Saturday
+  startHour: number;     // local, fractional allowed (8.5 = 8:30)
+  endHour: number;
+  lunchBlackout?: { startHour: number; endHour: number };
+  skipFederalHolidays: boolean;
+}
+
 export type ClinicType = 
   | 'mens_health_clinic'
   | 'hormone_clinic'
@@ -200,7 +218,8 @@ export type DataSource =
   | 'linkedin'
   | 'manual'
   | 'website_scrape'
-  | 'ai-engine';
+  | 'ai-engine'
+  | 'vapi_call';
 
 // CRM Contact - combined clinic + decision maker for outreach
 export interface CRMContact {
@@ -218,15 +237,81 @@ export interface CRMContact {
   updatedAt: Date;
   lastContactedAt?: Date;
   nextFollowUp?: Date;
+  /** Structured data extracted from the most recent analysed call */
+  callInsights?: CallInsights;
+  /** Campaign this contact was launched into — outreach is attributed to it */
+  campaignId?: string;
+  /** Competing values for the decision maker's fields and which one won (see utils/provenance) */
+  provenance?: FieldProvenance<ContactProvenanceField>;
+}
+
+// Fields Vapi extracts from a call transcript (analysisPlan.structuredDataSchema)
+export interface CallExtraction {
+  reachedDecisionMaker?: boolean;
+  decisionMakerName?: string;
+  decisionMakerTitle?: string;
+  directLine?: string;
+  bestCallbackTime?: string;
+  marketingAgency?: string;
+  monthlyAdSpend?: number; // USD
+  objections: string[];
+  interestLevel?: 'high' | 'medium' | 'low' | 'none';
+  nextStep?: 'demo_scheduled' | 'send_info' | 'callback' | 'none' | 'dnc';
+  emailCaptured?: string;
+  gatekeeperName?: string;
+  competitorMentioned?: string;
+}
+
+// One CRM field a call tried to set, and whether it was written
+export interface CallFieldUpdate {
+  field: string; // e.g. 'decisionMaker.phone', 'clinic.marketingAgency'
+  value: string;
+  previous?: string;
+  applied: boolean;
+  reason?: string;
+}
+
+export interface CallInsights extends CallExtraction {
+  callId: string;
+  extractedAt: string; // ISO
+  fields: CallFieldUpdate[];
+}
+
+// Field-level provenance: every value a source reported for a field
+export type ProvenanceSource = DataSource | 'google_verify' | 'import';
+
+export interface FieldObservation {
+  value: string;
+  source: ProvenanceSource;
+  observedAt: string; // ISO, first time this source reported the value
+  confidence: number; // 0-100
+  verification?: 'valid' | 'invalid' | 'risky' | 'unknown'; // emails only
+  /** Decision-maker fields: normalised name of the person the value belongs to */
+  person?: string;
+}
+
+export interface FieldHistory {
+  observations: FieldObservation[];
+  /** Value a user pinned — beats every rule until unpinned */
+  pinned?: { value: string; pinnedAt: string };
+  /** Value the rules chose, and the rule that decided it */
+  winner?: string;
+  reason?: string;
 }
 
+export type FieldProvenance<F extends string> = Partial<Record<F, FieldHistory>>;
+export type ContactProvenanceField = 'name' | 'title' | 'email' | 'phone';
+export type ClinicProvenanceField = 'email' | 'website';
+
 // Activity log entry for CRM timeline
 export interface Activity {
   id: string;
-  type: 'email_sent' | 'email_reply' | 'call_made' | 'call_scheduled' | 'note_added' | 'status_change' | 'follow_up_set' | 'enriched';
+  type: 'email_sent' | 'email_reply' | 'call_made' | 'call_scheduled' | 'note_added' | 'status_change' | 'follow_up_set' | 'enriched' | 'voicemail_left';
   description: string;
   timestamp: Date;
   metadata?: Record<string, any>;
+  /** Campaign the contact belonged to when this happened */
+  campaignId?: string;
 }
 
 export type ContactStatus = 
@@ -259,6 +344,7 @@ export interface VoiceCall {
   notes?: string;
   followUpRequired: boolean;
   followUpDate?: Date;
+  campaignId?: string;
 }
 
 export type CallStatus = 
@@ -280,24 +366,37 @@ export type CallOutcome =
   | 'gatekeeper_block';
 
 // Campaign for batch calling
+export interface CampaignStats {
+  totalContacts: number;
+  called: number;
+  connected: number;
+  qualified: number;
+  notInterested: number;
+  voicemails: number;
+  emailsSent: number;
+  emailsOpened: number;
+  emailsReplied: number;
+}
+
 export interface Campaign {
   id: string;
   name: string;
   description: string;
   status: 'draft' | 'active' | 'paused' | 'completed';
+  // Membership rules — a contact matches when it passes every rule that is set
   targetMarkets: MarketZone[];
   targetKeywords: string[];
-  contacts: CRMContact[];
+  scoreRange?: { min: number; max: number };
+  clinicTypes: ClinicType[];
+  /** Sequence members are enrolled into on launch */
+  sequenceId?: string;
+  /** Extra talking points handed to the voice agent for members' calls */
   script: string;
+  callingWindow?: CallingWindow;
   startDate?: Date;
   endDate?: Date;
-  stats: {
-    totalContacts: number;
-    called: number;
-    connected: number;
-    qualified: number;
-    notInterested: number;
-  };
+  /** Last computed snapshot — see utils/campaigns computeCampaignStats */
+  stats: CampaignStats;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -314,3 +413,25 @@ export interface DashboardMetrics {
   topMarkets: MarketZone[];
   recentCalls: VoiceCall[];
 }
+
+// Suppression list — addresses / numbers / domains we must not contact again
+export interface SuppressionEntry {
+  id: string;
+  email?: string;
+  phone?: string;
+  /** Blocks every address at this domain (e.g. a clinic that asked to be left alone) */
+  domain?: string;
+  contactId?: string;
+  reason: SuppressionReason;
+  source: string;
+  createdAt: Date;
+  /** Entry stops applying after this date; permanent when unset */
+  expiresAt?: Date;
+}
+
+export type SuppressionReason = 
+  | 'bounce'
+  | 'complaint'
+  | 'unsubscribe'
+  | 'dnc_request'
+  | 'manual';
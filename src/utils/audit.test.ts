@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { AUDIT_RESTORE_DAYS, actorFromSession, createAuditEntry, isRestorable, mergeAuditLog, restoreSnapshot } from './audit';
+
+const at = (day: number) => new Date(Date.UTC(2026, 5, 1 + day, 12));
+
+describe('audit', () => {
+  it('records the session as actor and counts the snapshot', () => {
+    const actor = actorFromSession({
+      sessionId: 's1', role: 'admin', code: '0000', name: 'Jamie', company: 'Novalyte',
+      loginTime: at(0).toISOString(), userAgent: 'test', screenSize: '1x1', pages: [], actions: [],
+    });
+    const entry = createAuditEntry('clear_contacts', { tables: ['contacts', 'sequence_enrollments'] }, {
+      contacts: [{ id: 'c1' }, { id: 'c2' }],
+      sequenceEnrollments: [{ id: 'e1' }],
+    }, actor, at(0));
+
+    expect(entry.actor).toEqual({ sessionId: 's1', role: 'admin', name: 'Jamie', company: 'Novalyte' });
+    expect(entry.recordCount).toBe(3);
+    expect(entry.restoreUntil).toEqual(at(AUDIT_RESTORE_DAYS));
+    expect(actorFromSession(null)).toMatchObject({ sessionId: null, role: 'unknown' });
+  });
+
+  it('restores only records that are gone, and only inside the window', () => {
+    const entry = createAuditEntry('delete_contact', { tables: ['contacts'], ids: ['c1'] }, { contacts: [{ id: 'c1' }, { id: 'c2' }] }, actorFromSession(null), at(0));
+    expect(restoreSnapshot({ contacts: [{ id: 'c2' }, { id: 'c3' }] }, entry.snapshot!)).toEqual({
+      contacts: [{ id: 'c2' }, { id: 'c3' }, { id: 'c1' }],
+    });
+    expect(restoreSnapshot({ contacts: [{ id: 'c1' }, { id: 'c2' }] }, entry.snapshot!)).toEqual({});
+
+    expect(isRestorable(entry, at(AUDIT_RESTORE_DAYS - 1))).toBe(true);
+    expect(isRestorable(entry, at(AUDIT_RESTORE_DAYS))).toBe(false);
+    expect(isRestorable({ ...entry, restoredAt: at(1) }, at(1))).toBe(false);
+  });
+
+  it('merges entries newest first and drops expired snapshots', () => {
+    const old = createAuditEntry('clear_clinics', { tables: ['clinics'] }, { clinics: [{ id: 'k1' }] }, actorFromSession(null), at(0));
+    const recent = createAuditEntry('clear_campaigns', { tables: ['campaigns'] }, { campaigns: [{ id: 'p1' }] }, actorFromSession(null), at(20));
+    // Fetched from Supabase without its snapshot — the local copy is kept
+    const remote = { ...recent, snapshot: undefined, restoredAt: at(21) };
+
+    const log = mergeAuditLog([old, recent], [remote], at(AUDIT_RESTORE_DAYS + 1));
+    expect(log.map(e => e.id)).toEqual([recent.id, old.id]);
+    expect(log[0]).toMatchObject({ restoredAt: at(21), snapshot: { campaigns: [{ id: 'p1' }] } });
+    expect(log[1].snapshot).toBeUndefined();
+  });
+});
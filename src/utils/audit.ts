@@ -0,0 +1,125 @@
+import type { SessionInfo } from '../services/sessionTracker';
+
+/**
+ * Audit trail for destructive and bulk actions.
+ *
+ * Every clear, delete or reset the store performs is recorded with who did
+ * it (the session from sessionTracker), what it covered, and a snapshot of
+ * the records as they were. On Supabase the rows are soft-deleted — tagged
+ * with the entry id in deleted_by (migration 030) — so restoring an entry
+ * clears the tag server-side and puts the snapshot back locally. After
+ * AUDIT_RESTORE_DAYS the rows are purged and the entry stays as history only.
+ */
+
+export type AuditAction =
+  | 'clear_clinics'
+  | 'clear_contacts'
+  | 'clear_keyword_trends'
+  | 'clear_call_history'
+  | 'clear_sent_emails'
+  | 'clear_campaigns'
+  | 'delete_contact'
+  | 'delete_campaign'
+  | 'factory_reset';
+
+/** Store collections a snapshot can hold */
+export type AuditCollection = 'clinics' | 'contacts' | 'keywordTrends' | 'callHistory' | 'sentEmails' | 'campaigns' | 'sequenceEnrollments';
+
+export type AuditSnapshot = Partial<Record<AuditCollection, { id: string }[]>>;
+
+export interface AuditActor {
+  sessionId: string | null;
+  role: SessionInfo['role'] | 'unknown';
+  name: string;
+  company?: string;
+}
+
+export interface AuditScope {
+  /** Supabase tables the action soft-deleted from */
+  tables: string[];
+  /** Record ids — absent when the action covered whole tables */
+  ids?: string[];
+}
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  actor: AuditActor;
+  scope: AuditScope;
+  recordCount: number;
+  /** Records before the action; dropped once the restore window has passed */
+  snapshot?: AuditSnapshot;
+  createdAt: Date;
+  restoreUntil: Date;
+  restoredAt?: Date;
+  restoredBy?: AuditActor;
+}
+
+export const AUDIT_RESTORE_DAYS = 30;
+/** Entries kept locally, newest first */
+export const AUDIT_LOG_LIMIT = 100;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  clear_clinics: 'Cleared all clinics',
+  clear_contacts: 'Cleared all CRM contacts',
+  clear_keyword_trends: 'Cleared keyword trends',
+  clear_call_history: 'Cleared call history',
+  clear_sent_emails: 'Cleared sent emails',
+  clear_campaigns: 'Cleared all campaigns',
+  delete_contact: 'Deleted contact',
+  delete_campaign: 'Deleted campaign',
+  factory_reset: 'Factory reset',
+};
+
+export function actorFromSession(session: SessionInfo | null): AuditActor {
+  if (!session) return { sessionId: null, role: 'unknown', name: 'Unknown' };
+  return { sessionId: session.sessionId, role: session.role, name: session.name, company: session.company };
+}
+
+export function createAuditEntry(
+  action: AuditAction,
+  scope: AuditScope,
+  snapshot: AuditSnapshot,
+  actor: AuditActor,
+  now = new Date(),
+): AuditEntry {
+  return {
+    id: `audit-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    action,
+    actor,
+    scope,
+    recordCount: Object.values(snapshot).reduce((n, records) => n + (records?.length || 0), 0),
+    snapshot,
+    createdAt: now,
+    restoreUntil: new Date(now.getTime() + AUDIT_RESTORE_DAYS * 86_400_000),
+  };
+}
+
+export const isRestorable = (entry: AuditEntry, now = new Date()) =>
+  !entry.restoredAt && !!entry.snapshot && now < entry.restoreUntil;
+
+/** Collections with the snapshot's records put back; records still present are left as they are */
+export function restoreSnapshot(
+  current: Partial<Record<AuditCollection, { id: string }[]>>,
+  snapshot: AuditSnapshot,
+): Partial<Record<AuditCollection, { id: string }[]>> {
+  const restored: Partial<Record<AuditCollection, { id: string }[]>> = {};
+  for (const [key, records] of Object.entries(snapshot) as [AuditCollection, { id: string }[]][]) {
+    if (!records?.length) continue;
+    const existing = current[key] || [];
+    const have = new Set(existing.map(r => r.id));
+    const missing = records.filter(r => !have.has(r.id));
+    if (missing.length) restored[key] = [...existing, ...missing];
+  }
+  return restored;
+}
+
+/** Add or replace entries by id, newest first; snapshots past their window are dropped */
+export function mergeAuditLog(existing: AuditEntry[], incoming: AuditEntry[], now = new Date()): AuditEntry[] {
+  const byId = new Map(existing.map(e => [e.id, e]));
+  for (const e of incoming) byId.set(e.id, { ...byId.get(e.id), ...e, snapshot: e.snapshot || byId.get(e.id)?.snapshot });
+  return [...byId.values()]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, AUDIT_LOG_LIMIT)
+    .map(e => (e.snapshot && now >= e.restoreUntil ? { ...e, snapshot: undefined } : e));
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { classifyBounce, invalidEmailsOf, invalidateBouncedEmail, planSoftBounce } from './bounces';
+
+const contact = {
+  id: 'c1',
+  decisionMaker: { id: 'dm1', firstName: 'Ana', lastName: 'Ruiz', email: 'Ana@Clinic.com', confidence: 80, emailVerificationStatus: 'valid' },
+  clinic: {
+    id: 'cl1', name: 'Clinic',
+    enrichedContacts: [
+      { name: 'Ana Ruiz', email: 'ana@clinic.com', confidence: 80 },
+      { name: 'Bo Li', email: 'bo@clinic.com', confidence: 60, emailVerificationStatus: 'invalid' },
+    ],
+  },
+} as any;
+
+describe('bounces', () => {
+  it('classifies Resend bounce types', () => {
+    expect(classifyBounce('Permanent', 'General')).toBe('hard');
+    expect(classifyBounce('Transient', 'MailboxFull')).toBe('soft');
+    expect(classifyBounce('Undetermined')).toBe('soft');
+    expect(classifyBounce('Transient', 'OnAccountSuppressionList')).toBe('hard');
+  });
+
+  it('retries soft bounces on a widening schedule, then escalates', () => {
+    const now = new Date('2026-03-02T15:00:00Z');
+    expect(planSoftBounce(0, now).retryAt).toEqual(new Date('2026-03-03T15:00:00Z'));
+    expect(planSoftBounce(1, now).retryAt).toEqual(new Date('2026-03-05T15:00:00Z'));
+    expect(planSoftBounce(2, now)).toEqual({ escalate: true });
+  });
+
+  it('marks the bounced address invalid on the decision maker and enriched contacts', () => {
+    const patch = invalidateBouncedEmail(contact, 'ana@clinic.com')!;
+    expect(patch.decisionMaker).toMatchObject({ email: 'Ana@Clinic.com', emailVerified: true, emailVerificationStatus: 'invalid' });
+    expect(patch.clinic.enrichedContacts!.map(ec => ec.emailVerificationStatus)).toEqual(['invalid', 'invalid']);
+    expect(invalidEmailsOf({ ...contact, ...patch })).toEqual(new Set(['ana@clinic.com', 'bo@clinic.com']));
+    expect(invalidateBouncedEmail(contact, 'someone@else.com')).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import type { CRMContact } from '../types';
+
+/**
+ * Bounce feedback loop.
+ *
+ * resend-webhook classifies every bounce (supabase/functions/_shared/bouncePolicy.ts
+ * is the server-side twin — keep the policy in sync):
+ *
+ *   hard — the mailbox does not exist or the provider refuses it for good.
+ *          The address is suppressed, marked invalid on the contact, and the
+ *          contact goes back through enrichment for a replacement.
+ *   soft — mailbox full, greylisting, a temporary outage. The address is
+ *          suppressed only until the next retry, and the sequence step is put
+ *          back to send again then. Once an address has soft-bounced
+ *          MAX_SOFT_BOUNCES times inside the window it is treated as hard.
+ */
+
+export type BounceType = 'hard' | 'soft';
+
+/** Wait before each soft-bounce retry; one more soft bounce after the last escalates */
+export const SOFT_BOUNCE_RETRY_HOURS = [24, 72];
+export const MAX_SOFT_BOUNCES = SOFT_BOUNCE_RETRY_HOURS.length + 1;
+export const SOFT_BOUNCE_WINDOW_DAYS = 30;
+
+/** Resend `data.bounce.type` / `subType` → hard or soft */
+export function classifyBounce(type?: string, subType?: string): BounceType {
+  const t = String(type || '').toLowerCase();
+  const sub = String(subType || '').toLowerCase();
+  if (t === 'permanent') return 'hard';
+  // An address already on the provider's suppression list will never accept mail
+  if (sub.includes('suppress')) return 'hard';
+  // Transient and Undetermined: worth another try
+  return 'soft';
+}
+
+export interface SoftBouncePlan {
+  escalate: boolean;
+  retryAt?: Date;
+}
+
+/** `priorSoftBounces` counts earlier soft bounces of the same address inside the window */
+export function planSoftBounce(priorSoftBounces: number, now = new Date()): SoftBouncePlan {
+  const attempt = priorSoftBounces + 1;
+  if (attempt >= MAX_SOFT_BOUNCES) return { escalate: true };
+  const hours = SOFT_BOUNCE_RETRY_HOURS[Math.min(attempt, SOFT_BOUNCE_RETRY_HOURS.length) - 1];
+  return { escalate: false, retryAt: new Date(now.getTime() + hours * 60 * 60 * 1000) };
+}
+
+const sameEmail = (a: string | undefined, b: string) => !!a && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Mark a hard-bounced address invalid wherever the contact carries it.
+ * Returns null when the address is not on the decision maker or any enriched contact.
+ */
+export function invalidateBouncedEmail(contact: CRMContact, email: string): Pick<CRMContact, 'decisionMaker' | 'clinic'> | null {
+  const dmHit = sameEmail(contact.decisionMaker?.email, email);
+  const enriched = contact.clinic.enrichedContacts || [];
+  const ecHit = enriched.some(ec => sameEmail(ec.email, email));
+  if (!dmHit && !ecHit) return null;
+  return {
+    decisionMaker: dmHit
+      ? { ...contact.decisionMaker!, emailVerified: true, emailVerificationStatus: 'invalid' }
+      : contact.decisionMaker,
+    clinic: ecHit
+      ? {
+          ...contact.clinic,
+          enrichedContacts: enriched.map(ec => sameEmail(ec.email, email)
+            ? { ...ec, emailVerified: true, emailVerificationStatus: 'invalid' as const }
+            : ec),
+        }
+      : contact.clinic,
+  };
+}
+
+/** Addresses on the contact already known to be undeliverable — never offer them as a replacement */
+export function invalidEmailsOf(contact: CRMContact): Set<string> {
+  const bad = new Set<string>();
+  const dm = contact.decisionMaker;
+  if (dm?.email && dm.emailVerificationStatus === 'invalid') bad.add(dm.email.toLowerCase());
+  for (const ec of contact.clinic.enrichedContacts || []) {
+    if (ec.email && ec.emailVerificationStatus === 'invalid') bad.add(ec.email.toLowerCase());
+  }
+  return bad;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { applyCallExtraction, parseAdSpend, parseCallExtraction } from './callExtraction';
+
+function contact(dm?: Record<string, any>) {
+  return {
+    id: 'c1',
+    clinic: { id: 'cl1', name: 'Peak Men\'s Health', marketingAgency: 'Old Agency' },
+    decisionMaker: dm ? { id: 'dm1', clinicId: 'cl1', title: '', role: 'owner', confidence: 50, source: 'npi', ...dm } : undefined,
+  } as any;
+}
+
+describe('callExtraction', () => {
+  it('normalises loosely typed structured data', () => {
+    const x = parseCallExtraction({
+      decision_maker_name: 'Dr. Sarah Lee', direct_line: '(512) 555-0142', monthly_ad_spend: '$8k',
+      objections: 'too busy; already have an agency', interest_level: 'MEDIUM', marketing_agency: 'N/A',
+      email_captured: 'not an email',
+    })!;
+    expect(x.directLine).toBe('(512) 555-0142');
+    expect(x.monthlyAdSpend).toBe(8000);
+    expect(x.objections).toEqual(['too busy', 'already have an agency']);
+    expect(x.interestLevel).toBe('medium');
+    expect(x.marketingAgency).toBeUndefined();
+    expect(x.emailCaptured).toBeUndefined();
+    expect(parseAdSpend('about 12,500 a month')).toBe(12500);
+  });
+
+  it('fills blanks on the decision maker but keeps conflicting values', () => {
+    const x = parseCallExtraction({ decision_maker_name: 'Mike Ross', direct_line: '5125550100', marketing_agency: 'GrowthMD' })!;
+    const { patch, insights } = applyCallExtraction(contact({ firstName: 'Sarah', lastName: 'Lee', phone: '' }), x, 'call-1');
+
+    expect(patch.decisionMaker?.phone).toBe('5125550100');
+    expect(patch.decisionMaker?.firstName).toBe('Sarah');
+    expect(patch.clinic?.marketingAgency).toBe('GrowthMD');
+    expect(insights.fields.find(f => f.field === 'decisionMaker.name')).toMatchObject({ applied: false, previous: 'Sarah Lee' });
+    expect(insights.fields.find(f => f.field === 'clinic.marketingAgency')).toMatchObject({ applied: true, previous: 'Old Agency' });
+  });
+
+  it('creates a call-sourced decision maker when none exists', () => {
+    const x = parseCallExtraction({ decision_maker_name: 'Dr. Sarah Lee', decision_maker_title: 'Medical Director', reached_decision_maker: true })!;
+    const { patch } = applyCallExtraction(contact(), x, 'call-2');
+    expect(patch.decisionMaker).toMatchObject({ firstName: 'Sarah', lastName: 'Lee', role: 'medical_director', source: 'vapi_call', confidence: 80 });
+    expect(patch.callInsights?.callId).toBe('call-2');
+  });
+});
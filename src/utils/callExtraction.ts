@@ -0,0 +1,204 @@
+import type { CallExtraction, CallFieldUpdate, CallInsights, CRMContact, DecisionMaker } from '../types';
+
+/**
+ * Structured call extraction — the schema Vapi fills in after every call
+ * (`analysisPlan.structuredDataSchema`) and the rules for writing it back
+ * onto the contact, decision maker and clinic.
+ *
+ * Merge rules: calls fill blanks on the decision maker but never overwrite a
+ * value another source already set (the conflict is kept on the insights
+ * record instead). Agency and ad spend only come from calls, so the latest
+ * call wins. vapi-call-webhook applies the same rules server-side.
+ */
+
+export const CALL_EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    reached_decision_maker: { type: 'boolean', description: 'Whether the actual decision maker was reached' },
+    decision_maker_name: { type: 'string', description: 'Full name of the owner / practice manager / decision maker, if mentioned' },
+    decision_maker_title: { type: 'string', description: 'Their role or title (e.g. "Owner", "Practice Manager")' },
+    direct_line: { type: 'string', description: 'A direct phone number or extension for the decision maker, digits only' },
+    best_callback_time: { type: 'string', description: 'Best time to call back, as said (e.g. "Tuesday afternoon", "after 3pm")' },
+    marketing_agency: { type: 'string', description: 'Name of the marketing agency the clinic currently uses, if any' },
+    monthly_ad_spend: { type: 'number', description: 'Approximate monthly advertising spend in US dollars, if mentioned' },
+    objections: { type: 'array', items: { type: 'string' }, description: 'Objections raised, one short phrase each' },
+    interest_level: { type: 'string', enum: ['high', 'medium', 'low', 'none'], description: 'How interested the prospect seemed' },
+    next_step: { type: 'string', enum: ['demo_scheduled', 'send_info', 'callback', 'none', 'dnc'], description: 'Agreed next step' },
+    email_captured: { type: 'string', description: 'Any email address given during the call, confirmed spelling' },
+    gatekeeper_name: { type: 'string', description: 'Name of gatekeeper if one was encountered' },
+    competitor_mentioned: { type: 'string', description: 'Any competitor names mentioned' },
+  },
+} as const;
+
+const INTEREST_LEVELS = ['high', 'medium', 'low', 'none'] as const;
+const NEXT_STEPS = ['demo_scheduled', 'send_info', 'callback', 'none', 'dnc'] as const;
+const EMPTY_VALUES = /^(n\/?a|none|unknown|not mentioned|null|-)$/i;
+
+function text(v: unknown): string | undefined {
+  if (typeof v !== 'string' && typeof v !== 'number') return undefined;
+  const s = String(v).trim();
+  return s && !EMPTY_VALUES.test(s) ? s : undefined;
+}
+
+/** "$5k", "5,000", "about 12000 a month" → dollars */
+export function parseAdSpend(v: unknown): number | undefined {
+  if (typeof v === 'number') return Number.isFinite(v) && v > 0 ? Math.round(v) : undefined;
+  const s = text(v);
+  if (!s) return undefined;
+  const m = s.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|thousand|m|million)?/i);
+  if (!m) return undefined;
+  const unit = (m[2] || '').toLowerCase();
+  const mult = unit.startsWith('k') || unit === 'thousand' ? 1_000 : unit.startsWith('m') ? 1_000_000 : 1;
+  const n = Math.round(Number(m[1]) * mult);
+  return n > 0 ? n : undefined;
+}
+
+function digits(phone?: string): string {
+  const d = String(phone || '').replace(/\D/g, '');
+  return d.length === 11 && d.startsWith('1') ? d.slice(1) : d;
+}
+
+/** Normalise Vapi's structuredData (snake_case, loosely typed) */
+export function parseCallExtraction(sd: Record<string, any> | null | undefined): CallExtraction | null {
+  if (!sd || typeof sd !== 'object') return null;
+  const objections = Array.isArray(sd.objections)
+    ? sd.objections.map(text).filter((o: string | undefined): o is string => !!o)
+    : (text(sd.objections)?.split(/;|\n/).map(o => o.trim()).filter(Boolean) || []);
+  const interest = text(sd.interest_level)?.toLowerCase();
+  const nextStep = text(sd.next_step)?.toLowerCase();
+  const directLine = text(sd.direct_line);
+  const email = text(sd.email_captured)?.toLowerCase();
+
+  return {
+    reachedDecisionMaker: typeof sd.reached_decision_maker === 'boolean' ? sd.reached_decision_maker : undefined,
+    decisionMakerName: text(sd.decision_maker_name),
+    decisionMakerTitle: text(sd.decision_maker_title),
+    directLine: directLine && digits(directLine).length >= 10 ? directLine : undefined,
+    bestCallbackTime: text(sd.best_callback_time) || text(sd.callback_time),
+    marketingAgency: text(sd.marketing_agency),
+    monthlyAdSpend: parseAdSpend(sd.monthly_ad_spend),
+    objections,
+    interestLevel: INTEREST_LEVELS.find(l => l === interest),
+    nextStep: NEXT_STEPS.find(s => s === nextStep),
+    emailCaptured: email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : undefined,
+    gatekeeperName: text(sd.gatekeeper_name),
+    competitorMentioned: text(sd.competitor_mentioned),
+  };
+}
+
+function roleFromTitle(title?: string): DecisionMaker['role'] {
+  const raw = String(title || '').toLowerCase();
+  if (/owner|founder|ceo/.test(raw)) return 'owner';
+  if (/medical director|physician|doctor|md\b/.test(raw)) return 'medical_director';
+  if (/administrator/.test(raw)) return 'practice_administrator';
+  if (/marketing/.test(raw)) return 'marketing_director';
+  if (/operations/.test(raw)) return 'operations_manager';
+  return 'clinic_manager';
+}
+
+function splitName(full: string): { firstName: string; lastName: string } {
+  const parts = full.replace(/^(dr\.?|mr\.?|mrs\.?|ms\.?)\s+/i, '').split(/\s+/).filter(Boolean);
+  return { firstName: parts[0] || full, lastName: parts.slice(1).join(' ') };
+}
+
+function isPlaceholderName(dm: DecisionMaker): boolean {
+  const name = `${dm.firstName} ${dm.lastName}`.trim().toLowerCase();
+  return !name || name === 'unknown contact' || name === 'clinic contact' || name === 'unknown';
+}
+
+/**
+ * Work out the contact patch for one call. Returns the fields to pass to
+ * `updateContact` plus the insights record (which also lists every field the
+ * call tried to set, applied or not).
+ */
+export function applyCallExtraction(
+  contact: CRMContact,
+  extraction: CallExtraction,
+  callId: string,
+  now = new Date(),
+): { patch: Partial<CRMContact>; insights: CallInsights } {
+  const fields: CallFieldUpdate[] = [];
+  const patch: Partial<CRMContact> = {};
+
+  // ─── Decision maker ───
+  let dm = contact.decisionMaker ? { ...contact.decisionMaker } : undefined;
+  let dmChanged = false;
+
+  if (!dm && extraction.decisionMakerName) {
+    const { firstName, lastName } = splitName(extraction.decisionMakerName);
+    const slug = extraction.decisionMakerName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    dm = {
+      id: `dm-${contact.clinic.id}-call-${slug || callId.slice(0, 8)}`,
+      clinicId: contact.clinic.id,
+      firstName, lastName,
+      title: extraction.decisionMakerTitle || '',
+      role: roleFromTitle(extraction.decisionMakerTitle),
+      confidence: extraction.reachedDecisionMaker ? 80 : 60,
+      enrichedAt: now,
+      source: 'vapi_call',
+    };
+    dmChanged = true;
+    fields.push({ field: 'decisionMaker.name', value: extraction.decisionMakerName, applied: true });
+    if (extraction.decisionMakerTitle) fields.push({ field: 'decisionMaker.title', value: extraction.decisionMakerTitle, applied: true });
+  } else if (dm && extraction.decisionMakerName) {
+    const current = `${dm.firstName} ${dm.lastName}`.trim();
+    if (isPlaceholderName(dm)) {
+      Object.assign(dm, splitName(extraction.decisionMakerName));
+      if (extraction.decisionMakerTitle && !dm.title) {
+        dm.title = extraction.decisionMakerTitle;
+        dm.role = roleFromTitle(extraction.decisionMakerTitle);
+      }
+      dmChanged = true;
+      fields.push({ field: 'decisionMaker.name', value: extraction.decisionMakerName, previous: current || undefined, applied: true });
+    } else if (current.toLowerCase() !== extraction.decisionMakerName.toLowerCase()) {
+      fields.push({ field: 'decisionMaker.name', value: extraction.decisionMakerName, previous: current, applied: false, reason: 'Kept existing name' });
+    }
+  }
+
+  if (dm && extraction.directLine) {
+    if (!dm.phone) {
+      dm.phone = extraction.directLine;
+      dmChanged = true;
+      fields.push({ field: 'decisionMaker.phone', value: extraction.directLine, applied: true });
+    } else if (digits(dm.phone) !== digits(extraction.directLine)) {
+      fields.push({ field: 'decisionMaker.phone', value: extraction.directLine, previous: dm.phone, applied: false, reason: 'Kept existing phone' });
+    }
+  }
+
+  if (dm && extraction.emailCaptured) {
+    if (!dm.email) {
+      dm.email = extraction.emailCaptured;
+      dm.emailVerified = false;
+      dm.emailVerificationStatus = 'unknown';
+      dmChanged = true;
+      fields.push({ field: 'decisionMaker.email', value: extraction.emailCaptured, applied: true });
+    } else if (dm.email.toLowerCase() !== extraction.emailCaptured) {
+      fields.push({ field: 'decisionMaker.email', value: extraction.emailCaptured, previous: dm.email, applied: false, reason: 'Kept existing email' });
+    }
+  }
+
+  if (dm && dmChanged) patch.decisionMaker = dm;
+
+  // ─── Clinic (call is the only source — latest wins) ───
+  const clinic = { ...contact.clinic };
+  let clinicChanged = false;
+  if (extraction.marketingAgency && extraction.marketingAgency !== clinic.marketingAgency) {
+    fields.push({ field: 'clinic.marketingAgency', value: extraction.marketingAgency, previous: clinic.marketingAgency, applied: true });
+    clinic.marketingAgency = extraction.marketingAgency;
+    clinicChanged = true;
+  }
+  if (extraction.monthlyAdSpend && extraction.monthlyAdSpend !== clinic.monthlyAdSpend) {
+    fields.push({
+      field: 'clinic.monthlyAdSpend',
+      value: String(extraction.monthlyAdSpend),
+      previous: clinic.monthlyAdSpend != null ? String(clinic.monthlyAdSpend) : undefined,
+      applied: true,
+    });
+    clinic.monthlyAdSpend = extraction.monthlyAdSpend;
+    clinicChanged = true;
+  }
+  if (clinicChanged) patch.clinic = { ...clinic, lastUpdated: now };
+
+  patch.callInsights = { ...extraction, callId, extractedAt: now.toISOString(), fields };
+  return { patch, insights: patch.callInsights };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CALLING_WINDOW, getFederalHoliday, isWithinCallingWindow,
+  nextCallingWindowStart, timezoneForLocation,
+} from './callingWindows';
+
+describe('callingWindows', () => {
+  it('derives the timezone from state, splitting multi-zone states by coordinates', () => {
+    expect(timezoneForLocation('WA')).toBe('America/Los_Angeles');
+    expect(timezoneForLocation('HI')).toBe('Pacific/Honolulu');
+    expect(timezoneForLocation('TX', { lat: 31.76, lng: -106.49 })).toBe('America/Denver'); // El Paso
+    expect(timezoneForLocation('TX', { lat: 29.76, lng: -95.37 })).toBe('America/Chicago'); // Houston
+  });
+
+  it('observes federal holidays on the nearest weekday', () => {
+    // July 4 2026 is a Saturday → observed Friday July 3
+    expect(getFederalHoliday(2026, 7, 3)).toBe('Independence Day');
+    expect(getFederalHoliday(2026, 11, 26)).toBe('Thanksgiving Day');
+    expect(getFederalHoliday(2026, 11, 27)).toBeNull();
+  });
+
+  it('schedules into the next local window, skipping lunch and holidays', () => {
+    const tz = 'America/Los_Angeles';
+    // Mon 2026-03-09 12:30 PDT (lunch) → 13:00 PDT
+    const lunch = new Date('2026-03-09T19:30:00Z');
+    expect(isWithinCallingWindow(lunch, tz, DEFAULT_CALLING_WINDOW)).toBe(false);
+    expect(nextCallingWindowStart(lunch, tz, DEFAULT_CALLING_WINDOW)?.toISOString()).toBe('2026-03-09T20:00:00.000Z');
+
+    // Wed 2026-11-25 18:00 PST → Thanksgiving skipped → Fri 09:00 PST
+    const evening = new Date('2026-11-26T02:00:00Z');
+    expect(nextCallingWindowStart(evening, tz, DEFAULT_CALLING_WINDOW)?.toISOString()).toBe('2026-11-27T17:00:00.000Z');
+  });
+});
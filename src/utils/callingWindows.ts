@@ -0,0 +1,280 @@
+import { CallingWindow, Clinic, MarketZone } from '../types';
+
+/**
+ * Local-time calling windows.
+ *
+ * Every clinic is called in its own timezone (explicit override, else derived
+ * from its state / market coordinates). The window that applies is the
+ * clinic's own, else the campaign's, else DEFAULT_CALLING_WINDOW. US federal
+ * holidays (with observed-day shifts) and the lunch blackout are never legal.
+ */
+
+export const DEFAULT_CALLING_WINDOW: CallingWindow = {
+  days: [1, 2, 3, 4, 5],
+  startHour: 9,
+  endHour: 17,
+  lunchBlackout: { startHour: 12, endHour: 13 },
+  skipFederalHolidays: true,
+};
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+/* ─── Timezone resolution ─── */
+
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DE: 'America/New_York',
+  DC: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver', PR: 'America/Puerto_Rico',
+};
+
+/** States split across zones: [predicate on coordinates, zone when it matches] */
+const SPLIT_STATES: Record<string, [(c: { lat: number; lng: number }) => boolean, string][]> = {
+  FL: [[c => c.lng < -85.0, 'America/Chicago']],
+  TX: [[c => c.lng < -104.9, 'America/Denver']],
+  TN: [[c => c.lng > -85.3, 'America/New_York']],
+  KY: [[c => c.lng < -86.0, 'America/Chicago']],
+  IN: [[c => c.lng < -86.9, 'America/Chicago']],
+  MI: [[c => c.lng < -87.6, 'America/Menominee']],
+  ID: [[c => c.lat > 45.5, 'America/Los_Angeles']],
+  OR: [[c => c.lng > -117.7 && c.lat < 44.5, 'America/Boise']],
+  ND: [[c => c.lng < -101.0 && c.lat < 47.5, 'America/Denver']],
+  SD: [[c => c.lng < -100.5, 'America/Denver']],
+  NE: [[c => c.lng < -101.5, 'America/Denver']],
+  KS: [[c => c.lng < -101.5, 'America/Denver']],
+};
+
+/** Rough longitude bands when no state is known */
+function timezoneFromCoordinates(c: { lat: number; lng: number }): string {
+  if (c.lat < 23 && c.lng < -154) return 'Pacific/Honolulu';
+  if (c.lat > 51 && c.lng < -129) return 'America/Anchorage';
+  if (c.lng >= -87) return 'America/New_York';
+  if (c.lng >= -101) return 'America/Chicago';
+  if (c.lng >= -114.5) return 'America/Denver';
+  return 'America/Los_Angeles';
+}
+
+export function timezoneForLocation(state?: string, coords?: { lat: number; lng: number }): string {
+  const st = String(state || '').trim().toUpperCase();
+  const hasCoords = !!coords && Number.isFinite(coords.lat) && Number.isFinite(coords.lng) && (coords.lat !== 0 || coords.lng !== 0);
+  if (STATE_TIMEZONES[st]) {
+    if (hasCoords) {
+      for (const [match, zone] of SPLIT_STATES[st] || []) if (match(coords!)) return zone;
+    }
+    return STATE_TIMEZONES[st];
+  }
+  return hasCoords ? timezoneFromCoordinates(coords!) : DEFAULT_TIMEZONE;
+}
+
+export function resolveClinicTimezone(clinic: Pick<Clinic, 'timezone' | 'address'> & { marketZone?: MarketZone }): string {
+  if (clinic.timezone) return clinic.timezone;
+  const state = clinic.address?.state || clinic.marketZone?.state;
+  // Market coordinates are only meaningful when the market is in the clinic's state
+  const coords = clinic.marketZone && (!state || clinic.marketZone.state?.toUpperCase() === state.toUpperCase())
+    ? clinic.marketZone.coordinates
+    : undefined;
+  return timezoneForLocation(state, coords);
+}
+
+export function resolveCallingWindow(clinic: Pick<Clinic, 'callingWindow'>, campaignWindow?: CallingWindow): CallingWindow {
+  return clinic.callingWindow || campaignWindow || DEFAULT_CALLING_WINDOW;
+}
+
+/* ─── Local time helpers ─── */
+
+interface LocalParts { year: number; month: number; day: number; weekday: number; hour: number; minute: number }
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', weekday: 'short',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export function getLocalParts(date: Date, timeZone: string): LocalParts {
+  const parts = partsFormatter(timeZone).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '0';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    weekday: WEEKDAYS[get('weekday')] ?? date.getDay(),
+    hour: Number(get('hour')) % 24,
+    minute: Number(get('minute')),
+  };
+}
+
+function offsetMs(date: Date, timeZone: string): number {
+  const p = getLocalParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+/** The instant at which the wall clock in `timeZone` reads y-m-d h (fractional hour) */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, Math.floor(hour), Math.round((hour % 1) * 60));
+  const first = offsetMs(new Date(guess), timeZone);
+  let t = guess - first;
+  const second = offsetMs(new Date(t), timeZone);
+  if (second !== first) t = guess - second;
+  return new Date(t);
+}
+
+export function formatLocalTime(date: Date, timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', {
+      timeZone, weekday: 'short', hour: 'numeric', minute: '2-digit', timeZoneName: 'short',
+    }).format(date);
+  } catch {
+    return date.toLocaleString();
+  }
+}
+
+/* ─── US federal holidays ─── */
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const ymd = (y: number, m: number, d: number) => `${y}-${pad(m)}-${pad(d)}`;
+
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+}
+
+function lastWeekday(year: number, month: number, weekday: number): number {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const last = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+  return lastDay - ((last - weekday + 7) % 7);
+}
+
+/** Fixed-date holidays move to Friday / Monday when they fall on a weekend */
+function observed(year: number, month: number, day: number): string {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  const dow = d.getUTCDay();
+  if (dow === 6) d.setUTCDate(d.getUTCDate() - 1);
+  if (dow === 0) d.setUTCDate(d.getUTCDate() + 1);
+  return ymd(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+}
+
+const holidayCache = new Map<number, { date: string; name: string }[]>();
+
+export function getFederalHolidays(year: number): { date: string; name: string }[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+  const list = [
+    { date: observed(year, 1, 1), name: "New Year's Day" },
+    { date: ymd(year, 1, nthWeekday(year, 1, 1, 3)), name: 'Martin Luther King Jr. Day' },
+    { date: ymd(year, 2, nthWeekday(year, 2, 1, 3)), name: "Washington's Birthday" },
+    { date: ymd(year, 5, lastWeekday(year, 5, 1)), name: 'Memorial Day' },
+    { date: observed(year, 6, 19), name: 'Juneteenth' },
+    { date: observed(year, 7, 4), name: 'Independence Day' },
+    { date: ymd(year, 9, nthWeekday(year, 9, 1, 1)), name: 'Labor Day' },
+    { date: ymd(year, 10, nthWeekday(year, 10, 1, 2)), name: 'Columbus Day' },
+    { date: observed(year, 11, 11), name: 'Veterans Day' },
+    { date: ymd(year, 11, nthWeekday(year, 11, 4, 4)), name: 'Thanksgiving Day' },
+    { date: observed(year, 12, 25), name: 'Christmas Day' },
+  ];
+  holidayCache.set(year, list);
+  return list;
+}
+
+/** Holiday name for a local calendar date, if any (checks next year for an observed Dec 31) */
+export function getFederalHoliday(year: number, month: number, day: number): string | null {
+  const key = ymd(year, month, day);
+  const hit = [...getFederalHolidays(year), ...getFederalHolidays(year + 1)].find(h => h.date === key);
+  return hit?.name || null;
+}
+
+/* ─── Window checks ─── */
+
+function isLegalLocal(p: Pick<LocalParts, 'year' | 'month' | 'day' | 'weekday'>, hour: number, window: CallingWindow): boolean {
+  if (!window.days.includes(p.weekday)) return false;
+  if (window.skipFederalHolidays && getFederalHoliday(p.year, p.month, p.day)) return false;
+  if (hour < window.startHour || hour >= window.endHour) return false;
+  const lunch = window.lunchBlackout;
+  if (lunch && hour >= lunch.startHour && hour < lunch.endHour) return false;
+  return true;
+}
+
+export function isWithinCallingWindow(now: Date, timeZone: string, window: CallingWindow = DEFAULT_CALLING_WINDOW): boolean {
+  try {
+    const p = getLocalParts(now, timeZone);
+    return isLegalLocal(p, p.hour + p.minute / 60, window);
+  } catch {
+    return true; // fail open on an unknown timezone
+  }
+}
+
+/** Earliest legal instant at or after `now` (null if the window never opens in the next 3 weeks) */
+export function nextCallingWindowStart(now: Date, timeZone: string, window: CallingWindow = DEFAULT_CALLING_WINDOW): Date | null {
+  if (isWithinCallingWindow(now, timeZone, window)) return now;
+  const today = getLocalParts(now, timeZone);
+  const openings = [window.startHour];
+  const lunch = window.lunchBlackout;
+  if (lunch && lunch.endHour > window.startHour && lunch.endHour < window.endHour) openings.push(lunch.endHour);
+
+  for (let offset = 0; offset <= 21; offset++) {
+    const d = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const local = { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() };
+    for (const hour of openings) {
+      if (!isLegalLocal(local, hour, window)) continue;
+      const at = zonedTimeToUtc(local.year, local.month, local.day, hour, timeZone);
+      if (at.getTime() > now.getTime()) return at;
+    }
+  }
+  return null;
+}
+
+export function describeCallingWindow(window: CallingWindow): string {
+  const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const hr = (h: number) => {
+    const whole = Math.floor(h);
+    const min = Math.round((h - whole) * 60);
+    const suffix = whole >= 12 ? 'PM' : 'AM';
+    const h12 = whole % 12 === 0 ? 12 : whole % 12;
+    return `${h12}${min ? `:${pad(min)}` : ''}${suffix}`;
+  };
+  const days = [...window.days].sort();
+  const contiguous = days.length > 1 && days.every((d, i) => i === 0 || d === days[i - 1] + 1);
+  const dayLabel = contiguous ? `${names[days[0]]}-${names[days[days.length - 1]]}` : days.map(d => names[d]).join(', ');
+  const lunch = window.lunchBlackout ? `, closed ${hr(window.lunchBlackout.startHour)}-${hr(window.lunchBlackout.endHour)}` : '';
+  return `${dayLabel} ${hr(window.startHour)}-${hr(window.endHour)}${lunch}${window.skipFederalHolidays ? ', no federal holidays' : ''}`;
+}
+
+export interface CallingSchedule {
+  timezone: string;
+  window: CallingWindow;
+  callableNow: boolean;
+  nextStart: Date | null;
+  localTime: string;
+}
+
+/** Where a clinic stands right now relative to its calling window */
+export function getCallingSchedule(clinic: Clinic, now = new Date(), campaignWindow?: CallingWindow): CallingSchedule {
+  const timezone = resolveClinicTimezone(clinic);
+  const window = resolveCallingWindow(clinic, campaignWindow);
+  const nextStart = nextCallingWindowStart(now, timezone, window);
+  return {
+    timezone,
+    window,
+    callableNow: !!nextStart && nextStart.getTime() === now.getTime(),
+    nextStart,
+    localTime: formatLocalTime(now, timezone),
+  };
+}
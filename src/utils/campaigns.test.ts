@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { computeCampaignStats, findCampaignCandidates, matchesCampaignRules, EMPTY_CAMPAIGN_STATS } from './campaigns';
+
+function contact(id: string, opts: { market?: string; type?: string; score?: number; services?: string[]; campaignId?: string; status?: string; activities?: any[] } = {}) {
+  return {
+    id,
+    score: opts.score ?? 70,
+    status: opts.status || 'new',
+    campaignId: opts.campaignId,
+    keywordMatches: [],
+    activities: opts.activities || [],
+    clinic: {
+      id: `cl-${id}`,
+      type: opts.type || 'mens_health_clinic',
+      services: opts.services || ['TRT'],
+      marketZone: { id: opts.market || 'market-0' },
+    },
+  } as any;
+}
+
+function campaign(id: string, rules: Record<string, any> = {}, status = 'draft') {
+  return {
+    id, name: id, description: '', status, script: '',
+    targetMarkets: [], targetKeywords: [], clinicTypes: [],
+    stats: { ...EMPTY_CAMPAIGN_STATS },
+    createdAt: new Date(), updatedAt: new Date(),
+    ...rules,
+  } as any;
+}
+
+describe('campaigns', () => {
+  it('requires every rule that is set to match', () => {
+    const c = campaign('a', {
+      targetMarkets: [{ id: 'market-0' }],
+      targetKeywords: ['testosterone', 'trt'],
+      scoreRange: { min: 60, max: 90 },
+      clinicTypes: ['mens_health_clinic'],
+    });
+    expect(matchesCampaignRules(contact('1'), c)).toBe(true);
+    expect(matchesCampaignRules(contact('2', { market: 'market-1' }), c)).toBe(false);
+    expect(matchesCampaignRules(contact('3', { services: ['Botox'] }), c)).toBe(false);
+    expect(matchesCampaignRules(contact('4', { score: 95 }), c)).toBe(false);
+    expect(matchesCampaignRules(contact('5', { type: 'med_spa' }), c)).toBe(false);
+    expect(matchesCampaignRules(contact('6'), campaign('open'))).toBe(true);
+  });
+
+  it('leaves contacts held by another live campaign alone', () => {
+    const live = campaign('live', {}, 'active');
+    const done = campaign('done', {}, 'completed');
+    const target = campaign('new');
+    const contacts = [contact('1', { campaignId: 'live' }), contact('2', { campaignId: 'done' }), contact('3'), contact('4', { campaignId: 'new' })];
+    expect(findCampaignCandidates(target, contacts, [live, done, target]).map(c => c.id)).toEqual(['2', '3']);
+  });
+
+  it('computes stats only from outreach attributed to the campaign', () => {
+    const contacts = [
+      contact('1', { campaignId: 'a', status: 'qualified', activities: [{ id: 'r1', type: 'email_reply', campaignId: 'a', metadata: { replyId: 'x' } }] }),
+      contact('2', { campaignId: 'b', status: 'qualified' }),
+    ];
+    const sentEmails = [
+      { id: 'e1', contactId: '1', campaignId: 'a', openCount: 2 },
+      { id: 'e2', contactId: '1', campaignId: 'a', openCount: 0 },
+      { id: 'e3', contactId: '2', campaignId: 'b', openCount: 1 },
+    ] as any[];
+    const calls = [
+      { id: 'k1', contactId: '1', campaignId: 'a', status: 'completed', outcome: 'interested' },
+      { id: 'k2', contactId: '1', campaignId: 'a', status: 'voicemail' },
+      { id: 'k3', contactId: '1', status: 'completed', outcome: 'interested' },
+    ] as any[];
+    expect(computeCampaignStats({ id: 'a' }, { contacts, sentEmails, calls })).toEqual({
+      totalContacts: 1, called: 2, connected: 1, qualified: 1, notInterested: 0,
+      voicemails: 1, emailsSent: 2, emailsOpened: 1, emailsReplied: 1,
+    });
+  });
+});
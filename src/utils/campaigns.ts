@@ -0,0 +1,93 @@
+import type { Campaign, CampaignStats, CRMContact, VoiceCall } from '../types';
+import type { SentEmail } from '../services/resendService';
+
+/**
+ * Campaign membership + live stats.
+ *
+ * A contact joins a campaign when it is launched (contact.campaignId); from
+ * then on every activity, sent email and call for that contact carries the
+ * campaign id (stamped in appStore), so stats are a straight filter over the
+ * outreach data rather than a guess from dates.
+ */
+
+export const EMPTY_CAMPAIGN_STATS: CampaignStats = {
+  totalContacts: 0,
+  called: 0,
+  connected: 0,
+  qualified: 0,
+  notInterested: 0,
+  voicemails: 0,
+  emailsSent: 0,
+  emailsOpened: 0,
+  emailsReplied: 0,
+};
+
+/** Does the contact pass every membership rule the campaign sets? */
+export function matchesCampaignRules(contact: CRMContact, campaign: Campaign): boolean {
+  const clinic = contact.clinic;
+
+  if (campaign.targetMarkets.length) {
+    const ids = new Set(campaign.targetMarkets.map(m => m.id));
+    if (!ids.has(clinic.marketZone.id)) return false;
+  }
+
+  if (campaign.targetKeywords.length) {
+    const haystack = [
+      ...contact.keywordMatches.map(k => k.keyword),
+      ...clinic.services,
+    ].map(s => s.toLowerCase());
+    const hit = campaign.targetKeywords.some(k => {
+      const needle = k.trim().toLowerCase();
+      return needle && haystack.some(h => h.includes(needle));
+    });
+    if (!hit) return false;
+  }
+
+  if (campaign.scoreRange) {
+    const { min, max } = campaign.scoreRange;
+    if (contact.score < min || contact.score > max) return false;
+  }
+
+  if (campaign.clinicTypes.length && !campaign.clinicTypes.includes(clinic.type)) return false;
+
+  return true;
+}
+
+/**
+ * Contacts a launch would add: they match the rules and aren't already held
+ * by another live campaign. Members of drafts / finished campaigns can move.
+ */
+export function findCampaignCandidates(campaign: Campaign, contacts: CRMContact[], campaigns: Campaign[]): CRMContact[] {
+  const live = new Set(campaigns.filter(c => c.id !== campaign.id && (c.status === 'active' || c.status === 'paused')).map(c => c.id));
+  return contacts.filter(c =>
+    c.campaignId !== campaign.id
+    && !(c.campaignId && live.has(c.campaignId))
+    && matchesCampaignRules(c, campaign));
+}
+
+export function computeCampaignStats(
+  campaign: Pick<Campaign, 'id'>,
+  data: { contacts: CRMContact[]; sentEmails: SentEmail[]; calls: VoiceCall[] },
+): CampaignStats {
+  const members = data.contacts.filter(c => c.campaignId === campaign.id);
+  const emails = data.sentEmails.filter(e => e.campaignId === campaign.id);
+  const calls = data.calls.filter(c => c.campaignId === campaign.id);
+  const replies = members.flatMap(c => c.activities || [])
+    .filter(a => a.type === 'email_reply' && a.campaignId === campaign.id);
+
+  return {
+    totalContacts: members.length,
+    called: calls.length,
+    connected: calls.filter(c => c.status === 'completed' && c.outcome && c.outcome !== 'wrong_contact').length,
+    qualified: members.filter(c => c.status === 'qualified').length,
+    notInterested: members.filter(c => c.status === 'not_interested').length,
+    voicemails: calls.filter(c => c.status === 'voicemail').length,
+    emailsSent: emails.length,
+    emailsOpened: emails.filter(e => e.openCount > 0 || e.lastEvent === 'opened' || e.lastEvent === 'clicked').length,
+    emailsReplied: new Set(replies.map(r => r.metadata?.replyId || r.id)).size,
+  };
+}
+
+export function sameCampaignStats(a: CampaignStats, b: CampaignStats): boolean {
+  return (Object.keys(EMPTY_CAMPAIGN_STATS) as (keyof CampaignStats)[]).every(k => a[k] === b[k]);
+}
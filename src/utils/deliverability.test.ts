@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { checkDomainAuth, findUnresolvedMergeFields, scoreDraft, staticDnsResolver } from './deliverability';
+
+const body = (words: number) => `<p>${Array.from({ length: words }, (_, i) => `word${i}`).join(' ')}</p>`;
+
+describe('deliverability', () => {
+  it('passes a clean draft and docks spam phrases, link farms and image-only bodies', () => {
+    const clean = scoreDraft({ subject: 'Quick question about your TRT patients', html: body(90), plainText: 'Hi Dr. Lee, …' });
+    expect(clean).toEqual({ score: 100, verdict: 'pass', issues: [] });
+
+    const spammy = scoreDraft({
+      subject: 'URGENT: LIMITED TIME OFFER!!',
+      html: `${body(30)}<p>Click here, guaranteed results</p><a href="https://bit.ly/x">a</a><a href="https://x.io">b</a><img src="x.png"/>`,
+      plainText: 'x',
+    });
+    expect(spammy.issues.map(i => i.code)).toEqual(['spam_phrase', 'shouting', 'link_ratio', 'shortener', 'image_ratio']);
+    expect(spammy.score).toBe(100 - 20 - 10 - 15 - 15 - 15);
+    expect(spammy.verdict).toBe('block');
+  });
+
+  it('fails broken merge fields and a missing plain-text part against the configured policy', () => {
+    expect(findUnresolvedMergeFields('Hi {{decisionMaker.firstName}}, about [Clinic Name] in undefined')).toEqual([
+      '{{decisionMaker.firstName}}', '[Clinic Name]', 'undefined',
+    ]);
+    expect(findUnresolvedMergeFields('Hi , quick note')).toEqual(['Hi ,']);
+
+    const draft = { subject: 'Hi {{first_name}}', html: body(90) };
+    const report = scoreDraft(draft, { minScore: 70, onFail: 'flag', requireDomainAuth: false });
+    expect(report.issues.map(i => i.code)).toEqual(['no_plain_text', 'merge_field']);
+    expect(report).toMatchObject({ score: 45, verdict: 'flag' });
+    expect(scoreDraft(draft, { minScore: 40, onFail: 'block', requireDomainAuth: false }).verdict).toBe('pass');
+  });
+
+  it('checks SPF, DKIM and DMARC through the resolver', async () => {
+    const resolver = staticDnsResolver({
+      'novalyte.io': ['google-site-verification=abc', 'v=spf1 include:amazonses.com -all'],
+      'resend._domainkey.novalyte.io': ['p=MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQC'],
+      '_dmarc.novalyte.io': ['v=DMARC1; p=none; rua=mailto:dmarc@novalyte.io'],
+      'outreach.example': ['v=spf1 include:_spf.google.com ~all', 'v=spf1 -all'],
+    });
+    const good = await checkDomainAuth('novalyte.io', resolver);
+    expect([good.spf.status, good.dkim.status, good.dmarc.status, good.authenticated]).toEqual(['pass', 'pass', 'warn', true]);
+    expect(good.dkim.detail).toBe('DKIM key at resend._domainkey');
+
+    const bad = await checkDomainAuth('outreach.example', resolver);
+    expect([bad.spf.status, bad.dkim.status, bad.dmarc.status, bad.authenticated]).toEqual(['fail', 'fail', 'warn', false]);
+
+    const offline = await checkDomainAuth('novalyte.io', async () => { throw new Error('network'); });
+    expect([offline.spf.detail, offline.authenticated]).toEqual(['DNS lookup failed', true]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Deliverability pre-flight for outbound drafts.
+ *
+ * Each draft starts at 100 and loses points for what inbox filters punish:
+ * spam-trigger phrases, link- or image-heavy bodies, a missing plain-text
+ * part and merge fields that never got substituted. Drafts scoring under the
+ * policy's minimum are blocked (dropped from the batch) or flagged (sent only
+ * after confirmation), depending on the policy.
+ *
+ * Sending domains are checked separately for SPF, DKIM and DMARC through a
+ * DnsResolver, so the lookups can be served by DNS-over-HTTPS in the browser
+ * or by a fixed record map locally and in tests.
+ */
+
+export type PreflightVerdict = 'pass' | 'flag' | 'block';
+
+export interface PreflightIssue {
+  code: 'spam_phrase' | 'shouting' | 'link_ratio' | 'shortener' | 'image_ratio' | 'no_plain_text' | 'merge_field';
+  message: string;
+  penalty: number;
+}
+
+export interface DraftPreflight {
+  score: number;
+  verdict: PreflightVerdict;
+  issues: PreflightIssue[];
+}
+
+export interface PreflightPolicy {
+  /** Drafts scoring below this fail pre-flight */
+  minScore: number;
+  /** What happens to a failing draft */
+  onFail: 'block' | 'flag';
+  /** Also fail the batch when the sending domain lacks SPF or DKIM */
+  requireDomainAuth: boolean;
+}
+
+export const DEFAULT_PREFLIGHT_POLICY: PreflightPolicy = {
+  minScore: 70,
+  onFail: 'block',
+  requireDomainAuth: true,
+};
+
+export interface PreflightDraft {
+  subject: string;
+  html: string;
+  plainText?: string;
+}
+
+export const SPAM_PHRASES = [
+  '100% free', 'act now', 'apply now', 'as seen on', 'best price', 'buy now', 'cash bonus', 'click here',
+  'click below', 'congratulations', 'dear friend', 'double your', 'earn money', 'exclusive deal',
+  'extra income', 'guaranteed', 'increase sales', 'limited time', 'lowest price', 'make money',
+  'no obligation', 'no cost', 'once in a lifetime', 'order now', 'risk-free', 'risk free', 'special promotion',
+  'this is not spam', 'urgent', 'winner', 'you have been selected', '$$$',
+];
+
+const SPAM_PHRASE_PENALTY = 5;
+const SPAM_PHRASE_MAX_PENALTY = 25;
+/** Above this many links, or fewer words than this per link, the body reads as a link farm */
+const MAX_LINKS = 3;
+const MIN_WORDS_PER_LINK = 40;
+const MIN_WORDS_PER_IMAGE = 60;
+const URL_SHORTENERS = /\b(bit\.ly|tinyurl\.com|goo\.gl|t\.co|ow\.ly|is\.gd|buff\.ly|rebrand\.ly)\//i;
+/** Template syntaxes we use or that AI drafts echo back: {{x}}, {x}, [First Name], %FIRSTNAME%, *|FNAME|* */
+const MERGE_FIELD_PATTERNS = [
+  /\{\{\{?\s*[\w.#/|" ]+\s*\}?\}\}/g,
+  /\{\s*[a-z_]+(\.[a-z_]+)*\s*\}/gi,
+  /\[(first|last|full|clinic|company|practice|doctor)[ _]?name\]/gi,
+  /%[A-Z_]{3,}%/g,
+  /\*\|[A-Z_]+\|\*/g,
+];
+const EMPTY_MERGE_PATTERNS = [/\b(undefined|null|NaN)\b/g, /\b(hi|hello|dear|hey)\s+,/gi];
+
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<(style|script)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function wordCount(text: string): number {
+  return text ? text.split(/\s+/).filter(Boolean).length : 0;
+}
+
+export function findUnresolvedMergeFields(text: string): string[] {
+  const found = new Set<string>();
+  for (const pattern of [...MERGE_FIELD_PATTERNS, ...EMPTY_MERGE_PATTERNS]) {
+    for (const match of text.match(pattern) || []) found.add(match.trim());
+  }
+  // `{x}` also matches inside `{{x}}` — report the outer field only
+  const all = Array.from(found);
+  return all.filter(f => !all.some(other => other !== f && other.includes(f)));
+}
+
+export function scoreDraft(draft: PreflightDraft, policy: PreflightPolicy = DEFAULT_PREFLIGHT_POLICY): DraftPreflight {
+  const issues: PreflightIssue[] = [];
+  const bodyText = htmlToPlainText(draft.html);
+  const words = wordCount(bodyText);
+  const haystack = `${draft.subject}\n${bodyText}`.toLowerCase();
+
+  const phrases = SPAM_PHRASES.filter(p => haystack.includes(p));
+  if (phrases.length) {
+    issues.push({
+      code: 'spam_phrase',
+      message: `Spam-trigger phrase${phrases.length > 1 ? 's' : ''}: ${phrases.map(p => `"${p}"`).join(', ')}`,
+      penalty: Math.min(SPAM_PHRASE_MAX_PENALTY, phrases.length * SPAM_PHRASE_PENALTY),
+    });
+  }
+
+  const letters = draft.subject.replace(/[^a-z]/gi, '');
+  if ((letters.length >= 8 && letters === letters.toUpperCase()) || /!{2,}/.test(draft.subject) || /!{3,}/.test(bodyText)) {
+    issues.push({ code: 'shouting', message: 'All-caps subject or repeated exclamation marks', penalty: 10 });
+  }
+
+  const links = draft.html.match(/<a\s[^>]*href=/gi)?.length || 0;
+  if (links > MAX_LINKS || (links > 0 && words / links < MIN_WORDS_PER_LINK)) {
+    issues.push({ code: 'link_ratio', message: `${links} link${links !== 1 ? 's' : ''} for ${words} words of text`, penalty: 15 });
+  }
+  if (URL_SHORTENERS.test(draft.html)) {
+    issues.push({ code: 'shortener', message: 'Uses a URL shortener', penalty: 15 });
+  }
+
+  const images = draft.html.match(/<img\b/gi)?.length || 0;
+  if (images > 0 && words / images < MIN_WORDS_PER_IMAGE) {
+    issues.push({ code: 'image_ratio', message: `${images} image${images !== 1 ? 's' : ''} for ${words} words of text`, penalty: words < 20 ? 30 : 15 });
+  }
+
+  if (!draft.plainText?.trim()) {
+    issues.push({ code: 'no_plain_text', message: 'No plain-text part', penalty: 15 });
+  }
+
+  const unresolved = findUnresolvedMergeFields(`${draft.subject}\n${bodyText}\n${draft.plainText || ''}`);
+  if (unresolved.length) {
+    // Reads as a mail merge gone wrong to the recipient as much as to the filter
+    issues.push({ code: 'merge_field', message: `Broken merge field${unresolved.length > 1 ? 's' : ''}: ${unresolved.join(', ')}`, penalty: 40 });
+  }
+
+  const score = Math.max(0, 100 - issues.reduce((sum, i) => sum + i.penalty, 0));
+  return { score, verdict: score >= policy.minScore ? 'pass' : policy.onFail, issues };
+}
+
+/* ─── Sending-domain authentication ─── */
+
+/** TXT records for a DNS name; [] when there are none */
+export type DnsResolver = (name: string) => Promise<string[]>;
+
+export type AuthCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface AuthCheck {
+  status: AuthCheckStatus;
+  record?: string;
+  detail: string;
+}
+
+export interface DomainPreflight {
+  domain: string;
+  spf: AuthCheck;
+  dkim: AuthCheck;
+  dmarc: AuthCheck;
+  /** SPF and DKIM both present */
+  authenticated: boolean;
+  checkedAt: Date;
+}
+
+/** Resend's selector first, then the common Google Workspace / Microsoft 365 / generic ones */
+export const DKIM_SELECTORS = ['resend', 'google', 'selector1', 'selector2', 'default', 'k1', 's1', 'dkim'];
+
+/** Resolver over a fixed name → TXT records map, for local development and tests */
+export function staticDnsResolver(records: Record<string, string[]>): DnsResolver {
+  const lower = new Map(Object.entries(records).map(([name, txt]) => [name.toLowerCase(), txt]));
+  return async (name: string) => lower.get(name.toLowerCase()) || [];
+}
+
+async function lookup(resolver: DnsResolver, name: string): Promise<string[] | null> {
+  try {
+    return await resolver(name);
+  } catch {
+    return null;
+  }
+}
+
+export async function checkDomainAuth(domain: string, resolver: DnsResolver, now = new Date()): Promise<DomainPreflight> {
+  const unresolved: AuthCheck = { status: 'warn', detail: 'DNS lookup failed' };
+
+  const rootTxt = await lookup(resolver, domain);
+  const spfRecords = (rootTxt || []).filter(r => /^v=spf1\b/i.test(r.trim()));
+  let spf: AuthCheck;
+  if (!rootTxt) spf = unresolved;
+  else if (spfRecords.length === 0) spf = { status: 'fail', detail: 'No SPF record' };
+  else if (spfRecords.length > 1) spf = { status: 'fail', record: spfRecords[0], detail: 'Multiple SPF records (receivers treat this as a permerror)' };
+  else if (/[+?]all\b/i.test(spfRecords[0])) spf = { status: 'warn', record: spfRecords[0], detail: 'SPF does not reject unlisted senders' };
+  else spf = { status: 'pass', record: spfRecords[0], detail: 'SPF record found' };
+
+  let dkim: AuthCheck = { status: 'fail', detail: `No DKIM key at ${DKIM_SELECTORS.map(s => `${s}._domainkey`).join(', ')}` };
+  let dkimLookupFailed = false;
+  for (const selector of DKIM_SELECTORS) {
+    const txt = await lookup(resolver, `${selector}._domainkey.${domain}`);
+    if (!txt) { dkimLookupFailed = true; continue; }
+    const key = txt.find(r => /(^|;)\s*(v=DKIM1|p=)/i.test(r));
+    if (key) { dkim = { status: 'pass', record: key, detail: `DKIM key at ${selector}._domainkey` }; break; }
+  }
+  if (dkim.status === 'fail' && dkimLookupFailed) dkim = unresolved;
+
+  const dmarcTxt = await lookup(resolver, `_dmarc.${domain}`);
+  const dmarcRecord = (dmarcTxt || []).find(r => /^v=DMARC1\b/i.test(r.trim()));
+  let dmarc: AuthCheck;
+  if (!dmarcTxt) dmarc = unresolved;
+  else if (!dmarcRecord) dmarc = { status: 'warn', detail: 'No DMARC record' };
+  else if (/;\s*p=none\b/i.test(dmarcRecord)) dmarc = { status: 'warn', record: dmarcRecord, detail: 'DMARC policy is p=none (monitoring only)' };
+  else dmarc = { status: 'pass', record: dmarcRecord, detail: 'DMARC enforced' };
+
+  return { domain, spf, dkim, dmarc, authenticated: spf.status !== 'fail' && dkim.status !== 'fail', checkedAt: now };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EMAIL_TEMPLATES, DEFAULT_SENDER_PROFILE, MissingMergeFieldError,
+  renderEmailTemplate, renderForSend, reviseTemplate, validateTemplateSource,
+} from './emailTemplates';
+
+function contact(opts: { firstName?: string; city?: string; keyword?: string } = {}) {
+  return {
+    id: 'c1',
+    clinic: {
+      id: 'cl1',
+      name: 'Peak <Men\'s> Health',
+      address: { city: opts.city ?? 'Austin', state: 'TX' },
+      services: ['TRT', 'ED Treatment'],
+      marketZone: { id: 'm1', city: opts.city ?? 'Austin', state: 'TX', medianIncome: 182000, affluenceScore: 8 },
+    },
+    decisionMaker: opts.firstName !== undefined ? { firstName: opts.firstName, lastName: 'Lee', title: 'Owner' } : undefined,
+    keywordMatches: opts.keyword ? [{ keyword: opts.keyword, growthRate: 42, searchVolume: 900, trendScore: 80 }] : [],
+    activities: [],
+  } as any;
+}
+
+const intro = DEFAULT_EMAIL_TEMPLATES.find(t => t.id === 'intro-market-data')!;
+
+describe('emailTemplates', () => {
+  it('merges contact fields, escapes HTML and takes the matching {{#if}} branch', () => {
+    const withKeyword = renderEmailTemplate(intro, contact({ firstName: 'Sarah', keyword: 'trt clinic' }), DEFAULT_SENDER_PROFILE);
+    expect(withKeyword.missing).toEqual([]);
+    expect(withKeyword.subject).toBe("Peak <Men's> Health — Untapped Patient Demand in Austin");
+    expect(withKeyword.html).toContain('Hi Sarah,');
+    expect(withKeyword.html).toContain('<strong>Peak &lt;Men\'s&gt; Health</strong>');
+    expect(withKeyword.html).toContain('"trt clinic"');
+    expect(withKeyword.html).toContain('<strong>Jamil</strong>');
+
+    const noKeyword = renderEmailTemplate(intro, contact({ firstName: 'Sarah' }), DEFAULT_SENDER_PROFILE);
+    expect(noKeyword.html).toContain('median household income of <strong>$182k</strong>');
+    expect(noKeyword.missing).toEqual([]);
+  });
+
+  it('blocks the send when a required field is empty but honours fallbacks', () => {
+    expect(renderEmailTemplate(intro, contact({ city: '' }), DEFAULT_SENDER_PROFILE).missing)
+      .toEqual(['marketZone.city', 'decisionMaker.firstName']);
+    expect(() => renderForSend(intro, contact(), DEFAULT_SENDER_PROFILE, 'a@b.com')).toThrow(MissingMergeFieldError);
+
+    const optional = renderEmailTemplate({ subject: 'Hi', html: 'Hi {{decisionMaker.firstName | "there"}}' }, contact(), undefined);
+    expect(optional).toMatchObject({ html: 'Hi there', missing: [] });
+  });
+
+  it('flags unknown fields and unbalanced blocks, and versions edits', () => {
+    expect(validateTemplateSource('{{clinic.nmae}}', '{{#if clinic.name}}x')).toEqual({
+      unknown: ['clinic.nmae'],
+      errors: ['{{#if clinic.name}} is never closed'],
+    });
+    expect(validateTemplateSource('{{keywordMatches.1.keyword}}', '{{/if}}').errors).toEqual(['{{/if}} without a matching {{#if}}']);
+
+    const now = new Date('2026-03-09T15:00:00Z');
+    const { template, version } = reviseTemplate(intro, { subject: 'New subject' }, 'Shorter subject', now);
+    expect(template).toMatchObject({ version: 2, subject: 'New subject', updatedAt: now });
+    expect(version).toMatchObject({ id: 'intro-market-data-v2', templateId: 'intro-market-data', version: 2, note: 'Shorter subject' });
+  });
+});
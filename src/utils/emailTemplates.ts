@@ -0,0 +1,394 @@
+import type { CRMContact } from '../types';
+
+/**
+ * Data-driven email templates.
+ *
+ * Templates live in Supabase (email_templates / email_template_versions) and
+ * use a small Handlebars-style syntax over the contact:
+ *
+ *   {{clinic.name}}                   escaped value — required, blocks the send when empty
+ *   {{decisionMaker.firstName | "there"}}  optional, falls back to the literal
+ *   {{{sender.signature}}}            raw HTML (signatures only)
+ *   {{#if keyword.keyword}}…{{else}}…{{/if}}  conditional; only the branch taken is checked
+ *
+ * Every sender identity (from name/address, reply-to, signature) is a
+ * SenderProfile rather than being baked into the template HTML.
+ */
+
+export interface SenderProfile {
+  id: string;
+  name: string;          // shown in the signature + picker
+  fromName: string;
+  fromEmail: string;
+  replyTo?: string;
+  title?: string;
+  signatureHtml: string;
+  isDefault?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  subject: string;
+  html: string;
+  senderProfileId?: string;
+  /** Bumped on every saved edit; each version is kept in EmailTemplateVersion */
+  version: number;
+  archived?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EmailTemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  name: string;
+  subject: string;
+  html: string;
+  senderProfileId?: string;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  /** Required merge fields that resolved to empty */
+  missing: string[];
+  /** Merge fields the library doesn't know (typos) */
+  unknown: string[];
+  /** Syntax problems, e.g. an unclosed {{#if}} */
+  errors: string[];
+}
+
+export class MissingMergeFieldError extends Error {
+  constructor(public readonly recipient: string, public readonly fields: string[]) {
+    super(`Not sent to ${recipient} — empty merge field${fields.length === 1 ? '' : 's'}: ${fields.join(', ')}`);
+    this.name = 'MissingMergeFieldError';
+  }
+}
+
+/* ─── Merge fields ─── */
+
+export const MERGE_FIELDS: { path: string; label: string; group: 'Clinic' | 'Decision maker' | 'Market' | 'Keyword' | 'Sender' }[] = [
+  { path: 'clinic.name', label: 'Clinic name', group: 'Clinic' },
+  { path: 'clinic.city', label: 'City', group: 'Clinic' },
+  { path: 'clinic.state', label: 'State', group: 'Clinic' },
+  { path: 'clinic.services', label: 'Top services', group: 'Clinic' },
+  { path: 'clinic.website', label: 'Website', group: 'Clinic' },
+  { path: 'clinic.phone', label: 'Phone', group: 'Clinic' },
+  { path: 'clinic.rating', label: 'Google rating', group: 'Clinic' },
+  { path: 'clinic.reviewCount', label: 'Review count', group: 'Clinic' },
+  { path: 'decisionMaker.firstName', label: 'First name', group: 'Decision maker' },
+  { path: 'decisionMaker.lastName', label: 'Last name', group: 'Decision maker' },
+  { path: 'decisionMaker.fullName', label: 'Full name', group: 'Decision maker' },
+  { path: 'decisionMaker.title', label: 'Title', group: 'Decision maker' },
+  { path: 'marketZone.city', label: 'Market city', group: 'Market' },
+  { path: 'marketZone.state', label: 'Market state', group: 'Market' },
+  { path: 'marketZone.metropolitanArea', label: 'Metro area', group: 'Market' },
+  { path: 'marketZone.medianIncome', label: 'Median income ($180k)', group: 'Market' },
+  { path: 'marketZone.affluenceScore', label: 'Affluence score (1-10)', group: 'Market' },
+  { path: 'keyword.keyword', label: 'Top keyword', group: 'Keyword' },
+  { path: 'keyword.growthRate', label: 'Top keyword growth %', group: 'Keyword' },
+  { path: 'keyword.searchVolume', label: 'Top keyword volume', group: 'Keyword' },
+  { path: 'sender.name', label: 'Sender name', group: 'Sender' },
+  { path: 'sender.title', label: 'Sender title', group: 'Sender' },
+  { path: 'sender.fromEmail', label: 'Sender email', group: 'Sender' },
+  { path: 'sender.signature', label: 'Signature (use {{{ }}})', group: 'Sender' },
+];
+
+const KNOWN_PATHS = new Set(MERGE_FIELDS.map(f => f.path));
+const KEYWORD_INDEX_PATH = /^keywordMatches\.\d+\.(keyword|growthRate|searchVolume|trendScore)$/;
+
+function isKnownPath(path: string): boolean {
+  return KNOWN_PATHS.has(path) || KEYWORD_INDEX_PATH.test(path);
+}
+
+function keywordFields(k: CRMContact['keywordMatches'][number]) {
+  return { keyword: k.keyword, growthRate: k.growthRate, searchVolume: k.searchVolume, trendScore: k.trendScore };
+}
+
+/** Flatten a contact (+ sender) into the values templates can reference */
+export function buildMergeContext(contact: CRMContact, sender?: SenderProfile): Record<string, any> {
+  const clinic = contact.clinic;
+  const market = clinic.marketZone;
+  const dm = contact.decisionMaker;
+  const keywords = contact.keywordMatches || [];
+  return {
+    clinic: {
+      name: clinic.name,
+      city: clinic.address?.city,
+      state: clinic.address?.state,
+      services: (clinic.services || []).slice(0, 3).join(', '),
+      website: clinic.website,
+      phone: clinic.phone,
+      rating: clinic.rating ? Number(clinic.rating).toFixed(1) : undefined,
+      reviewCount: clinic.reviewCount,
+    },
+    decisionMaker: dm ? {
+      firstName: dm.firstName,
+      lastName: dm.lastName,
+      fullName: `${dm.firstName || ''} ${dm.lastName || ''}`.trim(),
+      title: dm.title,
+    } : {},
+    marketZone: market ? {
+      city: market.city,
+      state: market.state,
+      metropolitanArea: market.metropolitanArea,
+      medianIncome: market.medianIncome ? `$${(market.medianIncome / 1000).toFixed(0)}k` : undefined,
+      affluenceScore: market.affluenceScore,
+    } : {},
+    keyword: keywords[0] ? keywordFields(keywords[0]) : {},
+    keywordMatches: keywords.map(keywordFields),
+    sender: sender ? {
+      name: sender.name,
+      title: sender.title,
+      fromEmail: sender.fromEmail,
+      signature: sender.signatureHtml,
+    } : {},
+  };
+}
+
+/* ─── Parsing ─── */
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'field'; path: string; fallback?: string; raw: boolean }
+  | { kind: 'if'; path: string; then: Node[]; else: Node[] };
+
+const TAG = /\{\{\{\s*([^{}]+?)\s*\}\}\}|\{\{\s*([^{}]+?)\s*\}\}/g;
+
+function parseField(expr: string, raw: boolean): Node {
+  const [path, ...rest] = expr.split('|');
+  const fallback = rest.join('|').trim().match(/^(["'])(.*)\1$/)?.[2];
+  return { kind: 'field', path: path.trim(), fallback, raw };
+}
+
+function parse(source: string, errors: string[]): Node[] {
+  const root: Node[] = [];
+  // Open {{#if}} blocks; `into` is the branch currently being filled
+  const stack: { node: Extract<Node, { kind: 'if' }>; into: Node[]; parent: Node[] }[] = [];
+  let current = root;
+  let last = 0;
+
+  for (const m of source.matchAll(TAG)) {
+    if (m.index! > last) current.push({ kind: 'text', text: source.slice(last, m.index) });
+    last = m.index! + m[0].length;
+
+    if (m[1] !== undefined) {
+      current.push(parseField(m[1], true));
+      continue;
+    }
+    const expr = m[2];
+    if (expr.startsWith('#if ')) {
+      const node: Extract<Node, { kind: 'if' }> = { kind: 'if', path: expr.slice(4).trim(), then: [], else: [] };
+      current.push(node);
+      stack.push({ node, into: node.then, parent: current });
+      current = node.then;
+    } else if (expr === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.into === top.node.else) { errors.push('{{else}} without a matching {{#if}}'); continue; }
+      top.into = top.node.else;
+      current = top.node.else;
+    } else if (expr === '/if') {
+      const top = stack.pop();
+      if (!top) { errors.push('{{/if}} without a matching {{#if}}'); continue; }
+      current = top.parent;
+    } else if (expr.startsWith('#') || expr.startsWith('/')) {
+      errors.push(`Unsupported block {{${expr}}}`);
+    } else {
+      current.push(parseField(expr, false));
+    }
+  }
+  if (last < source.length) current.push({ kind: 'text', text: source.slice(last) });
+  for (const open of stack) errors.push(`{{#if ${open.node.path}}} is never closed`);
+  return root;
+}
+
+/* ─── Rendering ─── */
+
+function resolve(ctx: Record<string, any>, path: string): string {
+  const value = path.split('.').reduce<any>((obj, key) => (obj == null ? undefined : obj[key]), ctx);
+  if (value == null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value).trim();
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderNodes(nodes: Node[], ctx: Record<string, any>, escape: boolean, out: RenderedEmail, fields: Set<string>): string {
+  let result = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      result += node.text;
+    } else if (node.kind === 'if') {
+      fields.add(node.path);
+      result += renderNodes(resolve(ctx, node.path) ? node.then : node.else, ctx, escape, out, fields);
+    } else {
+      fields.add(node.path);
+      let value = resolve(ctx, node.path);
+      if (!value) {
+        if (node.fallback !== undefined) value = node.fallback;
+        else if (!out.missing.includes(node.path)) out.missing.push(node.path);
+      }
+      result += escape && !node.raw ? escapeHtml(value) : value;
+    }
+  }
+  return result;
+}
+
+function collectPaths(nodes: Node[], into: Set<string>): Set<string> {
+  for (const node of nodes) {
+    if (node.kind === 'field') into.add(node.path);
+    if (node.kind === 'if') {
+      into.add(node.path);
+      collectPaths(node.then, into);
+      collectPaths(node.else, into);
+    }
+  }
+  return into;
+}
+
+/** Unknown merge fields + syntax errors, for the editor and before saving */
+export function validateTemplateSource(subject: string, html: string): { unknown: string[]; errors: string[] } {
+  const errors: string[] = [];
+  const paths = collectPaths([...parse(subject, errors), ...parse(html, errors)], new Set());
+  return { unknown: [...paths].filter(p => !isKnownPath(p)), errors };
+}
+
+export function renderEmailTemplate(
+  template: Pick<EmailTemplate, 'subject' | 'html'>,
+  contact: CRMContact,
+  sender?: SenderProfile,
+): RenderedEmail {
+  const ctx = buildMergeContext(contact, sender);
+  const out: RenderedEmail = { subject: '', html: '', missing: [], unknown: [], errors: [] };
+  const fields = new Set<string>();
+  // Subjects are plain text — escaping is left to the mail client
+  out.subject = renderNodes(parse(template.subject, out.errors), ctx, false, out, fields).replace(/\s+/g, ' ').trim();
+  out.html = renderNodes(parse(template.html, out.errors), ctx, true, out, fields);
+  out.unknown = [...fields].filter(p => !isKnownPath(p));
+  return out;
+}
+
+/** Render for an actual send — throws when a required field is empty or the template is broken */
+export function renderForSend(template: EmailTemplate, contact: CRMContact, sender: SenderProfile | undefined, recipient: string): RenderedEmail {
+  const rendered = renderEmailTemplate(template, contact, sender);
+  if (rendered.errors.length) throw new Error(`Template "${template.name}" is invalid: ${rendered.errors.join('; ')}`);
+  const blocking = [...rendered.missing, ...rendered.unknown];
+  if (blocking.length) throw new MissingMergeFieldError(recipient, blocking);
+  return rendered;
+}
+
+export function formatFromAddress(sender: SenderProfile): string {
+  return `${sender.fromName.replace(/[<>"]/g, '')} <${sender.fromEmail}>`;
+}
+
+/* ─── Versioning ─── */
+
+export function snapshotTemplate(template: EmailTemplate, note?: string): EmailTemplateVersion {
+  return {
+    id: `${template.id}-v${template.version}`,
+    templateId: template.id,
+    version: template.version,
+    name: template.name,
+    subject: template.subject,
+    html: template.html,
+    senderProfileId: template.senderProfileId,
+    note,
+    createdAt: template.updatedAt,
+  };
+}
+
+/** Apply an edit as a new version; returns the new head and its history row */
+export function reviseTemplate(
+  template: EmailTemplate,
+  updates: Partial<Pick<EmailTemplate, 'name' | 'description' | 'subject' | 'html' | 'senderProfileId'>>,
+  note?: string,
+  now = new Date(),
+): { template: EmailTemplate; version: EmailTemplateVersion } {
+  const next: EmailTemplate = { ...template, ...updates, version: template.version + 1, updatedAt: now };
+  return { template: next, version: snapshotTemplate(next, note) };
+}
+
+/* ─── Built-ins (seeded by migration 020; keep in sync) ─── */
+
+const P = 'style="font-size:15px;line-height:1.7;"';
+const WRAP_OPEN = '<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">';
+const SIGN_OFF = (closing: string) => `  <p style="font-size:15px;line-height:1.7;margin-top:24px;">${closing},<br/>{{{sender.signature}}}</p>`;
+
+export const DEFAULT_SENDER_PROFILE: SenderProfile = {
+  id: 'sender-default',
+  name: 'Jamil',
+  fromName: 'Novalyte AI',
+  fromEmail: 'noreply@novalyte.io',
+  signatureHtml: '<strong>Jamil</strong><br/><span style="color:#64748b;font-size:13px;">Novalyte · Men\'s Health Growth Platform</span>',
+  isDefault: true,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+};
+
+export const DEFAULT_EMAIL_TEMPLATES: EmailTemplate[] = [
+  {
+    id: 'intro-market-data',
+    name: 'Intro — Market Data Hook',
+    subject: '{{clinic.name}} — Untapped Patient Demand in {{marketZone.city}}',
+    html: [
+      WRAP_OPEN,
+      `  <p ${P}>Hi {{decisionMaker.firstName}},</p>`,
+      `  <p ${P}>I came across <strong>{{clinic.name}}</strong> while researching {{#if clinic.services}}{{clinic.services}} providers{{else}}men's health clinics{{/if}} in {{marketZone.city}}.</p>`,
+      `  <p ${P}>{{#if keyword.keyword}}Our data shows that <strong>"{{keyword.keyword}}"</strong> searches are growing <strong>{{keyword.growthRate}}%</strong> in your area — there's significant untapped patient demand.{{else}}With a median household income of <strong>{{marketZone.medianIncome}}</strong> in {{marketZone.city}}, there's strong demand for premium men's health services.{{/if}}</p>`,
+      `  <p ${P}>We help clinics like yours capture high-intent patients through data-driven marketing. Our clients typically see a <strong>30-40% increase</strong> in qualified patient inquiries within 90 days.</p>`,
+      `  <p ${P}>Would you be open to a quick 15-minute call this week to see if there's a fit?</p>`,
+      SIGN_OFF('Best'),
+      '</div>',
+    ].join('\n'),
+    senderProfileId: DEFAULT_SENDER_PROFILE.id,
+    version: 1,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  },
+  {
+    id: 'follow-up-value',
+    name: 'Follow-Up — Value Prop',
+    subject: 'Quick follow-up — {{marketZone.city}} market insights for {{clinic.name}}',
+    html: [
+      WRAP_OPEN,
+      `  <p ${P}>Hi {{decisionMaker.firstName}},</p>`,
+      `  <p ${P}>I reached out last week about helping <strong>{{clinic.name}}</strong> capture more high-intent patients in {{marketZone.city}}.</p>`,
+      `  <p ${P}>I wanted to share a quick stat: clinics in markets with an affluence score of <strong>{{marketZone.affluenceScore}}/10</strong> like {{marketZone.city}} are seeing <strong>2-3x higher patient lifetime value</strong> for men's health services.</p>`,
+      `  <p ${P}>We've helped similar clinics build predictable patient pipelines. Happy to share a free market report for your area — no strings attached.</p>`,
+      `  <p ${P}>Worth a quick chat?</p>`,
+      SIGN_OFF('Best'),
+      '</div>',
+    ].join('\n'),
+    senderProfileId: DEFAULT_SENDER_PROFILE.id,
+    version: 1,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  },
+  {
+    id: 'breakup',
+    name: 'Breakup — Last Touch',
+    subject: 'Closing the loop — {{clinic.name}}',
+    html: [
+      WRAP_OPEN,
+      `  <p ${P}>Hi {{decisionMaker.firstName}},</p>`,
+      `  <p ${P}>I've reached out a couple of times about helping <strong>{{clinic.name}}</strong> grow its patient base, and I don't want to be a bother.</p>`,
+      `  <p ${P}>If the timing isn't right, no worries at all. I'll close out my notes on this for now.</p>`,
+      `  <p ${P}>If things change down the road, feel free to reply to this email anytime — I'd be happy to help.</p>`,
+      SIGN_OFF('All the best'),
+      '</div>',
+    ].join('\n'),
+    senderProfileId: DEFAULT_SENDER_PROFILE.id,
+    version: 1,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  },
+];
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { baseSubject, buildThreads, normalizeMessageId, parseReferences, replyThreading } from './emailThreads';
+
+function msg(id: string, opts: Record<string, any> = {}) {
+  return {
+    id, direction: 'outbound', references: [], from: 'jamil@novalyte.io', to: 'dr@clinic.com',
+    subject: 'Intro', at: new Date(`2026-03-0${opts.day || 1}T15:00:00Z`),
+    ...opts,
+  } as any;
+}
+
+describe('emailThreads', () => {
+  it('normalizes Message-IDs, reference chains and reply subjects', () => {
+    expect(normalizeMessageId(' abc@mail.novalyte.io ')).toBe('<abc@mail.novalyte.io>');
+    expect(normalizeMessageId('Message-ID: <x1@host>')).toBe('<x1@host>');
+    expect(normalizeMessageId('not an id')).toBeUndefined();
+    expect(parseReferences('<a@h> <b@h>\r\n <a@h>')).toEqual(['<a@h>', '<b@h>']);
+    expect(baseSubject('RE: Fwd: re: Quick question')).toBe('Quick question');
+  });
+
+  it('threads by In-Reply-To / References, then matched sent email, then subject', () => {
+    const threads = buildThreads([
+      msg('s1', { messageId: '<s1@n>', subject: 'Intro', day: 1 }),
+      msg('r1', { direction: 'inbound', messageId: '<r1@c>', inReplyTo: '<s1@n>', subject: 'Re: Intro', day: 2 }),
+      msg('s2', { messageId: '<s2@n>', inReplyTo: '<r1@c>', references: ['<s1@n>', '<r1@c>'], subject: 'Re: Intro', day: 3 }),
+      msg('s3', { messageId: '<s3@n>', subject: 'Pricing', day: 4 }),
+      msg('r2', { direction: 'inbound', sentEmailId: 's3', subject: 'pricing?', day: 5 }),
+      msg('s4', { subject: 'Case study', day: 5 }),
+      msg('r3', { direction: 'inbound', subject: 'Re: Case study', day: 6 }),
+    ]);
+    expect(threads.map(t => [t.subject, t.messages.map(m => m.id)])).toEqual([
+      ['Case study', ['s4', 'r3']],
+      ['Pricing', ['s3', 'r2']],
+      ['Intro', ['s1', 'r1', 's2']],
+    ]);
+  });
+
+  it('replies to the latest inbound message with the full reference chain', () => {
+    const [thread] = buildThreads([
+      msg('s1', { messageId: '<s1@n>', day: 1 }),
+      msg('r1', { direction: 'inbound', messageId: '<r1@c>', inReplyTo: '<s1@n>', references: ['<s1@n>'], subject: 'Re: Intro', day: 2 }),
+      msg('s2', { messageId: '<s2@n>', inReplyTo: '<r1@c>', references: ['<s1@n>', '<r1@c>'], subject: 'Re: Intro', day: 3 }),
+    ]);
+    expect(replyThreading(thread)).toEqual({
+      subject: 'Re: Intro',
+      inReplyTo: '<r1@c>',
+      references: ['<s1@n>', '<r1@c>', '<s2@n>'],
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Per-contact email threads.
+ *
+ * Outbound sent_emails and inbound replies are joined into conversations the
+ * way mail clients do it: by Message-ID against In-Reply-To / References.
+ * Replies that arrived without threading headers fall back to the sent email
+ * inbound-email matched them to, and then to the normalized subject.
+ */
+
+export interface ThreadMessage {
+  id: string;
+  direction: 'outbound' | 'inbound';
+  /** RFC 5322 Message-ID, angle brackets included */
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  /** Inbound only: the sent email inbound-email matched this reply to */
+  sentEmailId?: string;
+  from: string;
+  to: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  at: Date;
+}
+
+export interface EmailThread {
+  id: string;
+  subject: string;
+  messages: ThreadMessage[];
+  lastAt: Date;
+}
+
+export interface ReplyThreading {
+  subject: string;
+  inReplyTo?: string;
+  references: string[];
+}
+
+/** Trimmed `<id>`; undefined when the value holds no id */
+export function normalizeMessageId(raw?: string | null): string | undefined {
+  const value = String(raw || '').trim();
+  if (!value) return undefined;
+  const bracketed = value.match(/<[^<>\s]+>/);
+  if (bracketed) return bracketed[0];
+  return /^[^\s<>]+@[^\s<>]+$/.test(value) ? `<${value}>` : undefined;
+}
+
+/** Every `<id>` in a References / In-Reply-To header, in order, without duplicates */
+export function parseReferences(raw?: string | string[] | null): string[] {
+  const text = Array.isArray(raw) ? raw.join(' ') : String(raw || '');
+  const ids = text.match(/<[^<>\s]+>/g) || [];
+  return Array.from(new Set(ids));
+}
+
+/** Subject without Re: / Fwd: prefixes, for display and fallback matching */
+export function baseSubject(subject: string): string {
+  return subject.replace(/^\s*((re|fwd?|aw)\s*(\[\d+\])?\s*:\s*)+/i, '').trim();
+}
+
+export function buildThreads(messages: ThreadMessage[]): EmailThread[] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a), rb = find(b);
+    if (ra !== rb) parent.set(rb, ra);
+  };
+  for (const m of messages) parent.set(m.id, m.id);
+
+  const byMessageId = new Map<string, string>();
+  const bySentEmailId = new Map<string, string>();
+  for (const m of messages) {
+    if (m.messageId) byMessageId.set(m.messageId, m.id);
+    if (m.direction === 'outbound') bySentEmailId.set(m.id, m.id);
+  }
+
+  const linked = new Set<string>();
+  const link = (a: string, b: string) => { union(a, b); linked.add(a); linked.add(b); };
+  for (const m of messages) {
+    for (const ref of [m.inReplyTo, ...m.references]) {
+      const other = ref && byMessageId.get(ref);
+      if (other && other !== m.id) link(m.id, other);
+    }
+  }
+  for (const m of messages) {
+    if (linked.has(m.id) || !m.sentEmailId) continue;
+    const other = bySentEmailId.get(m.sentEmailId);
+    if (other) link(m.id, other);
+  }
+  // Last resort for header-less replies: same subject once Re:/Fwd: are stripped
+  const bySubject = new Map<string, string>();
+  for (const m of [...messages].sort((a, b) => a.at.getTime() - b.at.getTime())) {
+    const key = baseSubject(m.subject).toLowerCase();
+    if (!key) continue;
+    const first = bySubject.get(key);
+    if (!first) bySubject.set(key, m.id);
+    else if (m.direction === 'inbound' && !linked.has(m.id)) union(first, m.id);
+  }
+
+  const groups = new Map<string, ThreadMessage[]>();
+  for (const m of messages) {
+    const root = find(m.id);
+    groups.set(root, [...(groups.get(root) || []), m]);
+  }
+  return Array.from(groups.values())
+    .map(list => {
+      const sorted = [...list].sort((a, b) => a.at.getTime() - b.at.getTime());
+      return {
+        id: sorted[0].id,
+        subject: baseSubject(sorted[0].subject) || '(no subject)',
+        messages: sorted,
+        lastAt: sorted[sorted.length - 1].at,
+      };
+    })
+    .sort((a, b) => b.lastAt.getTime() - a.lastAt.getTime());
+}
+
+/** Subject + In-Reply-To / References for a reply to the thread's latest message */
+export function replyThreading(thread: EmailThread): ReplyThreading {
+  const latest = [...thread.messages].reverse().find(m => m.direction === 'inbound') || thread.messages[thread.messages.length - 1];
+  const references: string[] = [];
+  for (const m of thread.messages) {
+    for (const id of [...m.references, m.inReplyTo, m.messageId]) {
+      if (id && !references.includes(id)) references.push(id);
+    }
+  }
+  return {
+    subject: `Re: ${thread.subject}`,
+    inReplyTo: latest?.messageId,
+    // Mail clients cap long chains; keep the root and the most recent ids
+    references: references.length > 10 ? [references[0], ...references.slice(-9)] : references,
+  };
+}
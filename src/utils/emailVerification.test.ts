@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildVerification, isFresh, mergeVerifications, parseRevenueBaseResult, staleForUpcoming, upcomingSequenceEmails,
+} from './emailVerification';
+
+const now = new Date('2026-05-04T12:00:00Z');
+const daysAgo = (d: number) => new Date(now.getTime() - d * 24 * 60 * 60 * 1000);
+const hoursAhead = (h: number) => new Date(now.getTime() + h * 60 * 60 * 1000);
+
+describe('emailVerification', () => {
+  it('reads RevenueBase results and keeps each status fresh for its own TTL', () => {
+    expect(parseRevenueBaseResult({ status: 'Deliverable' })).toEqual({ status: 'valid', catchAll: false });
+    expect(parseRevenueBaseResult({ result: 'catch_all' })).toEqual({ status: 'risky', catchAll: true });
+    expect(parseRevenueBaseResult({})).toEqual({ status: 'unknown', catchAll: false });
+
+    const valid = buildVerification(' Jane@Clinic.com ', 'valid', 'revenuebase', { checkedAt: daysAgo(20) });
+    expect(valid).toMatchObject({ email: 'jane@clinic.com', roleAccount: false });
+    expect(isFresh(valid, now)).toBe(true);
+    expect(isFresh({ ...valid, status: 'risky' }, now)).toBe(false);
+    expect(isFresh({ ...valid, status: 'unknown', checkedAt: daysAgo(2) }, now)).toBe(false);
+    expect(buildVerification('info@clinic.com', 'valid', 'google_verify').roleAccount).toBe(true);
+  });
+
+  it('keeps the most recent result per address', () => {
+    const older = buildVerification('a@x.com', 'valid', 'revenuebase', { checkedAt: daysAgo(10) });
+    const newer = buildVerification('a@x.com', 'invalid', 'bounce', { checkedAt: daysAgo(1) });
+    const other = buildVerification('b@x.com', 'risky', 'revenuebase', { checkedAt: daysAgo(5) });
+    expect(mergeVerifications([newer, other], [older]).map(v => [v.email, v.status])).toEqual([['a@x.com', 'invalid'], ['b@x.com', 'risky']]);
+  });
+
+  it('re-verifies upcoming sends only once a check now would cover the send', () => {
+    const contact = (id: string, email: string) => ({ id, decisionMaker: { email }, clinic: { email: 'info@clinic.com' } }) as any;
+    const contacts = [contact('c1', 'Old@clinic.com'), contact('c2', 'fresh@clinic.com'), contact('c3', 'maybe@clinic.com'), contact('c4', 'later@clinic.com')];
+    const sequences = [{ id: 's1', steps: [{ id: 'e1', channel: 'email' }, { id: 'v1', channel: 'call' }] }] as any;
+    const enrollment = (contactId: string, dueAt: Date, currentStepId = 'e1') =>
+      ({ id: `en-${contactId}`, sequenceId: 's1', contactId, status: 'active', currentStepId, dueAt }) as any;
+    const upcoming = upcomingSequenceEmails([
+      enrollment('c1', hoursAhead(6)),
+      enrollment('c2', hoursAhead(6)),
+      enrollment('c3', hoursAhead(40)),
+      enrollment('c4', hoursAhead(96)),
+      enrollment('c2', hoursAhead(2), 'v1'),
+    ], sequences, contacts, now);
+    expect(upcoming.map(u => u.email).sort()).toEqual(['fresh@clinic.com', 'maybe@clinic.com', 'old@clinic.com']);
+
+    const cache = new Map([
+      ['old@clinic.com', buildVerification('old@clinic.com', 'valid', 'revenuebase', { checkedAt: daysAgo(31) })],
+      ['fresh@clinic.com', buildVerification('fresh@clinic.com', 'valid', 'revenuebase', { checkedAt: daysAgo(3) })],
+      // Unknown lasts a day — re-checking now would be stale again by the send in 40 hours
+      ['maybe@clinic.com', buildVerification('maybe@clinic.com', 'unknown', 'revenuebase', { checkedAt: daysAgo(2) })],
+    ]);
+    expect(staleForUpcoming(cache, upcoming, now)).toEqual(['old@clinic.com']);
+    expect(staleForUpcoming(cache, upcoming, hoursAhead(20))).toEqual(['old@clinic.com', 'maybe@clinic.com']);
+  });
+});
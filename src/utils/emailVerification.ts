@@ -0,0 +1,161 @@
+import type { CRMContact } from '../types';
+import type { SequenceDefinition, SequenceEnrollment } from '../services/sequenceEngine';
+import { isGenericEmail } from './enrichmentWaterfall';
+
+/**
+ * Shared email verification cache.
+ *
+ * One result per normalised address, whoever checked it (RevenueBase, the
+ * google-verify SMTP check, or a hard bounce). A result is fresh for a TTL
+ * that depends on its status; while fresh, nothing pays to check the address
+ * again. Addresses a sequence is about to email are re-verified in the
+ * background once their result has gone stale (see emailVerificationService).
+ * supabase/functions/_shared/emailVerificationCache.ts is the server-side twin.
+ */
+
+export type VerificationStatus = 'valid' | 'invalid' | 'risky' | 'unknown';
+export type VerificationProvider = 'revenuebase' | 'google_verify' | 'bounce';
+
+export interface EmailVerification {
+  /** Normalised — lower-cased and trimmed */
+  email: string;
+  status: VerificationStatus;
+  provider: VerificationProvider;
+  checkedAt: Date;
+  /** Domain accepts every address, so "valid" says little about this mailbox */
+  catchAll: boolean;
+  /** Shared inbox (info@, office@ …) rather than a person */
+  roleAccount: boolean;
+}
+
+/** How long a result stays fresh, by status */
+export const VERIFICATION_TTL_DAYS: Record<VerificationStatus, number> = {
+  valid: 30,
+  risky: 14,
+  invalid: 90,
+  unknown: 1,
+};
+
+/** Sequence emails due within this window get their stale verifications refreshed */
+export const REVERIFY_HORIZON_HOURS = 48;
+
+/** Results kept locally, newest first */
+export const MAX_VERIFICATIONS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export function isRoleAccount(email: string): boolean {
+  return isGenericEmail(normalizeEmail(email));
+}
+
+export function expiresAt(v: EmailVerification): Date {
+  return new Date(new Date(v.checkedAt).getTime() + VERIFICATION_TTL_DAYS[v.status] * DAY_MS);
+}
+
+export function isFresh(v: EmailVerification, at = new Date()): boolean {
+  return expiresAt(v).getTime() > at.getTime();
+}
+
+/** Interpret a RevenueBase /process-email response */
+export function parseRevenueBaseResult(data: any): { status: VerificationStatus; catchAll: boolean } {
+  const raw = String(data?.status || data?.result || data?.verification_status || '').toLowerCase();
+  const catchAll = raw === 'catch-all' || raw === 'catch_all' || raw === 'accept_all' || data?.catch_all === true || data?.is_catch_all === true;
+  if (raw === 'valid' || raw === 'deliverable' || raw === 'safe' || raw === 'verified') return { status: 'valid', catchAll };
+  if (raw === 'invalid' || raw === 'undeliverable' || raw === 'bounce') return { status: 'invalid', catchAll };
+  if (raw === 'risky' || catchAll) return { status: 'risky', catchAll };
+  return { status: 'unknown', catchAll };
+}
+
+export function buildVerification(
+  email: string,
+  status: VerificationStatus,
+  provider: VerificationProvider,
+  opts: { catchAll?: boolean; checkedAt?: Date } = {},
+): EmailVerification {
+  const addr = normalizeEmail(email);
+  return {
+    email: addr,
+    status,
+    provider,
+    checkedAt: opts.checkedAt || new Date(),
+    catchAll: !!opts.catchAll,
+    roleAccount: isRoleAccount(addr),
+  };
+}
+
+/** One result per address, the most recently checked winning; newest first, capped */
+export function mergeVerifications(...lists: EmailVerification[][]): EmailVerification[] {
+  const byEmail = new Map<string, EmailVerification>();
+  for (const v of lists.flat()) {
+    const prev = byEmail.get(v.email);
+    if (!prev || new Date(v.checkedAt).getTime() >= new Date(prev.checkedAt).getTime()) byEmail.set(v.email, v);
+  }
+  return [...byEmail.values()]
+    .sort((a, b) => new Date(b.checkedAt).getTime() - new Date(a.checkedAt).getTime())
+    .slice(0, MAX_VERIFICATIONS);
+}
+
+/** Address outreach goes to — a personal address first, then a generic one */
+export function outreachEmailOf(contact: CRMContact): string | null {
+  const dm = contact.decisionMaker?.email;
+  const clinic = contact.clinic.email;
+  if (dm && !isGenericEmail(dm)) return dm;
+  if (clinic && !isGenericEmail(clinic)) return clinic;
+  return dm || clinic || null;
+}
+
+export interface UpcomingSend {
+  email: string;
+  dueAt: Date;
+}
+
+/** Email steps of active enrollments due before `now + horizonHours`, one per address (earliest due) */
+export function upcomingSequenceEmails(
+  enrollments: SequenceEnrollment[],
+  sequences: SequenceDefinition[],
+  contacts: CRMContact[],
+  now = new Date(),
+  horizonHours = REVERIFY_HORIZON_HOURS,
+): UpcomingSend[] {
+  const until = now.getTime() + horizonHours * 60 * 60 * 1000;
+  const contactById = new Map(contacts.map(c => [c.id, c]));
+  const sequenceById = new Map(sequences.map(s => [s.id, s]));
+  const byEmail = new Map<string, UpcomingSend>();
+  for (const e of enrollments) {
+    if (e.status !== 'active' || !e.dueAt || new Date(e.dueAt).getTime() > until) continue;
+    const step = sequenceById.get(e.sequenceId)?.steps.find(s => s.id === e.currentStepId);
+    if (step?.channel !== 'email') continue;
+    const contact = contactById.get(e.contactId);
+    const email = contact && outreachEmailOf(contact);
+    if (!email) continue;
+    const addr = normalizeEmail(email);
+    const dueAt = new Date(e.dueAt);
+    const prev = byEmail.get(addr);
+    if (!prev || dueAt < prev.dueAt) byEmail.set(addr, { email: addr, dueAt });
+  }
+  return [...byEmail.values()];
+}
+
+/**
+ * Upcoming sends whose address was verified before but whose result will be
+ * stale when the email goes out — picked once a check made now would still be
+ * fresh at send time, so a short-lived result is not re-checked every pass.
+ * Addresses never verified are left to the enrichment waterfall; hard bounces
+ * are never re-checked. Earliest send first.
+ */
+export function staleForUpcoming(
+  verifications: Map<string, EmailVerification>,
+  upcoming: UpcomingSend[],
+  now = new Date(),
+): string[] {
+  return upcoming
+    .filter(u => {
+      const v = verifications.get(u.email);
+      if (!v || v.provider === 'bounce' || isFresh(v, u.dueAt)) return false;
+      return u.dueAt.getTime() - now.getTime() < VERIFICATION_TTL_DAYS[v.status] * DAY_MS;
+    })
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+    .map(u => u.email);
+}
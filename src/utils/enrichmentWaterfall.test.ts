@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WATERFALL_CONFIG, EnrichmentLedgerEntry, EnrichmentProvider, WaterfallConfig,
+  applyEmailStatus, creditVerifiedEmails, mergeHits, nextProvider, summarizeLedger,
+} from './enrichmentWaterfall';
+
+const entry = (provider: EnrichmentProvider, patch: Partial<EnrichmentLedgerEntry> = {}): EnrichmentLedgerEntry => ({
+  id: `el-${Math.random()}`, runId: 'run-1', clinicId: 'c1', provider, field: 'email',
+  credits: 1, costUsd: 0.1, hit: false, filled: [], emailsFound: 0, verifiedEmails: 0,
+  createdAt: new Date('2026-10-01T00:00:00Z'), ...patch,
+});
+
+describe('enrichmentWaterfall', () => {
+  it('walks each field in order and stops once it reaches the confidence threshold', () => {
+    const tried = new Set<EnrichmentProvider>();
+    expect(nextProvider(DEFAULT_WATERFALL_CONFIG, [], tried)).toEqual({ provider: 'apollo', field: 'name' });
+
+    // NPI names the owner and gives a phone, but no email
+    tried.add('apollo');
+    let { people, filled } = mergeHits([], 'npi', [{ name: 'Dr. Jane Smith', title: 'Owner', phone: '+15125550100', confidence: 85 }]);
+    expect(filled).toEqual(['name', 'title', 'phone']);
+    tried.add('npi');
+    expect(nextProvider(DEFAULT_WATERFALL_CONFIG, people, tried)).toEqual({ provider: 'leadmagic', field: 'email' });
+
+    // LeadMagic finds her address; verification pushes it over the email threshold
+    ({ people, filled } = mergeHits(people, 'leadmagic', [{ name: 'Jane Smith', email: 'Jane@Clinic.com', confidence: 75 }]));
+    expect(filled).toEqual(['email']);
+    expect(people).toHaveLength(1);
+    tried.add('leadmagic');
+    expect(nextProvider(DEFAULT_WATERFALL_CONFIG, people, tried)?.provider).toBe('exa');
+    people = applyEmailStatus(people, 'jane@clinic.com', 'valid');
+    expect(people[0].email).toEqual({ value: 'jane@clinic.com', confidence: 95, provider: 'leadmagic' });
+    expect(nextProvider(DEFAULT_WATERFALL_CONFIG, people, tried)).toBeNull();
+  });
+
+  it('lets a fresh address replace one verified invalid, and never counts generic inboxes', () => {
+    let { people } = mergeHits([], 'apollo', [{ name: 'Sam Lee', title: 'Owner', email: 'sam@clinic.com', confidence: 95 }]);
+    people = applyEmailStatus(people, 'sam@clinic.com', 'invalid');
+    expect(nextProvider(DEFAULT_WATERFALL_CONFIG, people, new Set(['apollo']))?.field).toBe('email');
+
+    const merged = mergeHits(people, 'pattern', [{ name: 'Sam Lee', email: 'slee@clinic.com', confidence: 50, emailStatus: 'valid' }]);
+    expect(merged.filled).toEqual(['email']);
+    expect(merged.people[0]).toMatchObject({ email: { value: 'slee@clinic.com', provider: 'pattern' }, emailStatus: 'valid' });
+
+    const generic = mergeHits([], 'exa', [{ email: 'info@clinic.com', confidence: 99, emailStatus: 'valid' }]).people;
+    const strict: WaterfallConfig = { ...DEFAULT_WATERFALL_CONFIG, order: { ...DEFAULT_WATERFALL_CONFIG.order, name: [] } };
+    expect(nextProvider(strict, generic, new Set())?.field).toBe('title');
+  });
+
+  it('reports hit rate and cost per verified email, flagging providers that do not pay for themselves', () => {
+    const people = [{ email: { value: 'jane@clinic.com', confidence: 95, provider: 'leadmagic' as const }, emailStatus: 'valid' as const }];
+    const credited = creditVerifiedEmails([entry('apollo'), entry('leadmagic', { hit: true, emailsFound: 1, costUsd: 0.05 })], people);
+    expect(credited.map(e => e.verifiedEmails)).toEqual([0, 1]);
+
+    const ledger = [
+      ...Array.from({ length: 10 }, () => entry('apollo', { hit: false })),
+      ...Array.from({ length: 10 }, (_, i) => entry('leadmagic', { hit: i < 4, costUsd: 0.05, verifiedEmails: i < 2 ? 1 : 0 })),
+      entry('npi', { credits: 0, costUsd: 0, hit: true }),
+      entry('exa', { createdAt: new Date('2026-09-01T00:00:00Z') }),
+    ];
+    const report = summarizeLedger(ledger, DEFAULT_WATERFALL_CONFIG, new Date('2026-09-15T00:00:00Z'));
+    expect(report.map(r => r.provider)).toEqual(['apollo', 'npi', 'leadmagic']);
+    expect(report[0]).toMatchObject({ calls: 10, hitRate: 0, costUsd: 1, costPerVerifiedEmail: null, paysForItself: false });
+    expect(report[1]).toMatchObject({ calls: 1, hitRate: 1, paysForItself: null });
+    expect(report[2]).toMatchObject({ calls: 10, hits: 4, hitRate: 0.4, costUsd: 0.5, verifiedEmails: 2, costPerVerifiedEmail: 0.25, paysForItself: true });
+  });
+});
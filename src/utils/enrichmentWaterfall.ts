@@ -0,0 +1,325 @@
+/**
+ * Enrichment waterfall — one configurable order of providers per field.
+ *
+ * services/enrichmentWaterfallService drives a run: `nextProvider` walks the
+ * fields in order (name → title → email → phone) and returns the first
+ * provider on an unsatisfied field's list that has not run yet. A field is
+ * satisfied once some person carries it at or above the field's
+ * stop-on-confidence threshold; emails must also be personal and not
+ * verified invalid. Each call is written to the credit ledger, and
+ * `summarizeLedger` turns the ledger into hit rate and cost per verified
+ * email per provider, so providers that don't pay for themselves can be
+ * dropped from the order.
+ */
+
+export type EnrichmentField = 'name' | 'title' | 'email' | 'phone';
+
+export const ENRICHMENT_FIELDS: EnrichmentField[] = ['name', 'title', 'email', 'phone'];
+
+export type EnrichmentProvider =
+  | 'apollo' | 'npi' | 'clearbit' | 'exa' | 'gemini' | 'leadmagic' | 'pattern' | 'revenuebase';
+
+export const ENRICHMENT_PROVIDERS: EnrichmentProvider[] = ['apollo', 'npi', 'clearbit', 'exa', 'gemini', 'leadmagic', 'pattern', 'revenuebase'];
+
+/** Fields a provider can fill — revenuebase only verifies emails */
+export const PROVIDER_FIELDS: Record<EnrichmentProvider, EnrichmentField[]> = {
+  apollo: ['name', 'title', 'email', 'phone'],
+  npi: ['name', 'title', 'phone'],
+  clearbit: ['name', 'title'],
+  exa: ['name', 'title', 'email'],
+  gemini: ['name', 'title', 'email'],
+  leadmagic: ['name', 'title', 'email'],
+  pattern: ['email'],
+  revenuebase: [],
+};
+
+export const PROVIDER_LABELS: Record<EnrichmentProvider, string> = {
+  apollo: 'Apollo',
+  npi: 'NPI Registry',
+  clearbit: 'Clearbit',
+  exa: 'Exa',
+  gemini: 'Gemini',
+  leadmagic: 'LeadMagic',
+  pattern: 'Pattern guess',
+  revenuebase: 'RevenueBase',
+};
+
+export type EmailStatus = 'valid' | 'invalid' | 'risky' | 'unknown';
+
+export interface WaterfallConfig {
+  order: Record<EnrichmentField, EnrichmentProvider[]>;
+  /** Stop walking a field's list once a value reaches this confidence (0-100) */
+  stopAt: Record<EnrichmentField, number>;
+  /** USD per provider credit */
+  creditCost: Record<EnrichmentProvider, number>;
+  /** Verify newly found emails with RevenueBase as they arrive */
+  verifyEmails: boolean;
+  /** Report thresholds: below this hit rate, or above this cost per verified email, a provider is flagged */
+  minHitRate: number;
+  maxCostPerVerifiedEmail: number;
+}
+
+export const DEFAULT_WATERFALL_CONFIG: WaterfallConfig = {
+  order: {
+    name: ['apollo', 'npi', 'exa', 'gemini', 'leadmagic'],
+    title: ['apollo', 'npi', 'exa', 'gemini', 'leadmagic', 'clearbit'],
+    email: ['apollo', 'leadmagic', 'exa', 'gemini', 'pattern'],
+    phone: ['apollo', 'npi'],
+  },
+  stopAt: { name: 60, title: 50, email: 90, phone: 60 },
+  creditCost: {
+    apollo: 0.1,
+    npi: 0,
+    clearbit: 0.1,
+    exa: 0.005,
+    gemini: 0.001,
+    leadmagic: 0.05,
+    pattern: 0,
+    revenuebase: 0.01,
+  },
+  verifyEmails: true,
+  minHitRate: 0.15,
+  maxCostPerVerifiedEmail: 1.5,
+};
+
+/** Fewer calls than this and the report gives no verdict */
+export const MIN_CALLS_FOR_VERDICT = 10;
+
+/* ─── People ─── */
+
+export interface FieldValue {
+  value: string;
+  confidence: number;
+  provider: EnrichmentProvider;
+}
+
+export interface WaterfallPerson {
+  /** The provider's own id for the first record merged into this person */
+  id?: string;
+  name?: FieldValue;
+  title?: FieldValue;
+  email?: FieldValue;
+  phone?: FieldValue;
+  linkedInUrl?: string;
+  emailStatus?: EmailStatus;
+}
+
+/** One person as a provider returned it */
+export interface ProviderHit {
+  id?: string;
+  name?: string;
+  title?: string;
+  email?: string;
+  phone?: string;
+  linkedInUrl?: string;
+  confidence: number;
+  emailStatus?: EmailStatus;
+}
+
+const GENERIC_PREFIXES = ['info', 'contact', 'office', 'admin', 'frontdesk', 'hello', 'support', 'help', 'reception', 'appointments', 'billing', 'marketing', 'sales', 'hr', 'careers', 'jobs', 'noreply', 'no-reply', 'webmaster', 'mail'];
+
+export function isGenericEmail(email: string): boolean {
+  return GENERIC_PREFIXES.includes(email.split('@')[0].toLowerCase());
+}
+
+const nameKey = (name: string) => name.toLowerCase().replace(/^dr\.?\s+/, '').replace(/[^a-z ]/g, '').replace(/\s+/g, ' ').trim();
+
+function samePerson(p: WaterfallPerson, hit: ProviderHit): boolean {
+  if (hit.email && p.email && p.email.value === hit.email.trim().toLowerCase()) return true;
+  return !!hit.name && !!p.name && nameKey(p.name.value) === nameKey(hit.name);
+}
+
+/**
+ * Fold a provider's hits into the people found so far. A field takes the
+ * provider's value when it is empty or the new value is more confident.
+ * `filled` lists the fields the provider added or improved — a call that
+ * fills nothing is a miss in the ledger.
+ */
+export function mergeHits(
+  people: WaterfallPerson[],
+  provider: EnrichmentProvider,
+  hits: ProviderHit[],
+): { people: WaterfallPerson[]; filled: EnrichmentField[] } {
+  const next = people.map(p => ({ ...p }));
+  const filled = new Set<EnrichmentField>();
+
+  for (const hit of hits) {
+    let person = next.find(p => samePerson(p, hit));
+    if (!person) {
+      person = {};
+      next.push(person);
+    }
+    for (const field of ENRICHMENT_FIELDS) {
+      const raw = hit[field]?.trim();
+      if (!raw) continue;
+      const value = field === 'email' ? raw.toLowerCase() : raw;
+      const current = person[field];
+      // A verified-invalid address always yields to a fresh one
+      const replaceable = !current
+        || hit.confidence > current.confidence
+        || (field === 'email' && person.emailStatus === 'invalid' && current.value !== value);
+      if (!replaceable || current?.value === value) continue;
+      person[field] = { value, confidence: hit.confidence, provider };
+      if (field === 'email') person.emailStatus = hit.emailStatus;
+      filled.add(field);
+    }
+    if (hit.id && !person.id) person.id = hit.id;
+    if (hit.linkedInUrl && !person.linkedInUrl) person.linkedInUrl = hit.linkedInUrl;
+  }
+
+  return { people: next, filled: ENRICHMENT_FIELDS.filter(f => filled.has(f)) };
+}
+
+/** Verification moves an email's confidence the same way enrichmentService always has */
+export function applyEmailStatus(people: WaterfallPerson[], email: string, status: EmailStatus): WaterfallPerson[] {
+  const addr = email.trim().toLowerCase();
+  return people.map(p => {
+    if (p.email?.value !== addr) return p;
+    const c = p.email.confidence;
+    const confidence = status === 'valid' ? Math.min(c + 20, 99)
+      : status === 'invalid' ? Math.max(c - 30, 5)
+      : status === 'risky' ? Math.min(c + 5, 80)
+      : c;
+    return { ...p, email: { ...p.email, confidence }, emailStatus: status };
+  });
+}
+
+export function fieldSatisfied(people: WaterfallPerson[], field: EnrichmentField, threshold: number): boolean {
+  return people.some(p => {
+    const v = p[field];
+    if (!v || v.confidence < threshold) return false;
+    if (field === 'email') return !isGenericEmail(v.value) && p.emailStatus !== 'invalid';
+    return true;
+  });
+}
+
+/** The next provider to call, or null when every field is satisfied or out of providers */
+export function nextProvider(
+  config: WaterfallConfig,
+  people: WaterfallPerson[],
+  tried: ReadonlySet<EnrichmentProvider>,
+): { provider: EnrichmentProvider; field: EnrichmentField } | null {
+  for (const field of ENRICHMENT_FIELDS) {
+    if (fieldSatisfied(people, field, config.stopAt[field])) continue;
+    const provider = config.order[field].find(p => !tried.has(p) && PROVIDER_FIELDS[p].includes(field));
+    if (provider) return { provider, field };
+  }
+  return null;
+}
+
+/** Best contact first: deliverable personal email, then email confidence, then a named person */
+export function rankPeople(people: WaterfallPerson[]): WaterfallPerson[] {
+  const score = (p: WaterfallPerson) => {
+    const personal = p.email && !isGenericEmail(p.email.value) ? 1 : 0;
+    const status = p.emailStatus === 'valid' ? 200 : p.emailStatus === 'risky' ? 100 : p.emailStatus === 'invalid' ? -200 : 0;
+    return personal * 1000 + status + (p.email?.confidence || 0) + (p.name ? 10 : 0) + (p.name?.confidence || 0) / 100;
+  };
+  return [...people].sort((a, b) => score(b) - score(a));
+}
+
+/* ─── Credit ledger ─── */
+
+export interface EnrichmentLedgerEntry {
+  id: string;
+  /** Calls made for the same clinic in one waterfall run share a run id */
+  runId: string;
+  clinicId: string;
+  provider: EnrichmentProvider;
+  /** The field the waterfall was filling, or 'verify' for email verification */
+  field: EnrichmentField | 'verify';
+  credits: number;
+  costUsd: number;
+  hit: boolean;
+  filled: EnrichmentField[];
+  emailsFound: number;
+  /** Emails this call found that ended the run verified valid */
+  verifiedEmails: number;
+  error?: string;
+  createdAt: Date;
+}
+
+/** The report window; older rows are dropped from the local copy of the ledger */
+export const LEDGER_RETENTION_DAYS = 90;
+const MAX_LOCAL_LEDGER_ENTRIES = 5000;
+
+/** Merge ledger rows by id, keeping the newest within the retention window, oldest first */
+export function trimLedger(entries: EnrichmentLedgerEntry[], now = new Date()): EnrichmentLedgerEntry[] {
+  const cutoff = now.getTime() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const byId = new Map<string, EnrichmentLedgerEntry>();
+  for (const e of entries) {
+    if (new Date(e.createdAt).getTime() >= cutoff) byId.set(e.id, e);
+  }
+  return Array.from(byId.values())
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .slice(-MAX_LOCAL_LEDGER_ENTRIES);
+}
+
+export function ledgerCost(config: WaterfallConfig, provider: EnrichmentProvider, credits: number): number {
+  return Math.round(credits * (config.creditCost[provider] || 0) * 10000) / 10000;
+}
+
+/** At the end of a run, credit each verified email to the call that found it */
+export function creditVerifiedEmails(entries: EnrichmentLedgerEntry[], people: WaterfallPerson[]): EnrichmentLedgerEntry[] {
+  const wins = new Map<EnrichmentProvider, number>();
+  for (const p of people) {
+    if (p.email && p.emailStatus === 'valid' && !isGenericEmail(p.email.value)) {
+      wins.set(p.email.provider, (wins.get(p.email.provider) || 0) + 1);
+    }
+  }
+  return entries.map(e => {
+    const n = e.field !== 'verify' ? wins.get(e.provider) : undefined;
+    if (!n) return e;
+    wins.delete(e.provider);
+    return { ...e, verifiedEmails: e.verifiedEmails + n };
+  });
+}
+
+export interface ProviderReport {
+  provider: EnrichmentProvider;
+  calls: number;
+  hits: number;
+  hitRate: number;
+  credits: number;
+  costUsd: number;
+  emailsFound: number;
+  verifiedEmails: number;
+  /** null until the provider has produced a verified email */
+  costPerVerifiedEmail: number | null;
+  /** null below MIN_CALLS_FOR_VERDICT calls */
+  paysForItself: boolean | null;
+}
+
+export function summarizeLedger(entries: EnrichmentLedgerEntry[], config: WaterfallConfig, since?: Date): ProviderReport[] {
+  const from = since ? since.getTime() : 0;
+  const byProvider = new Map<EnrichmentProvider, EnrichmentLedgerEntry[]>();
+  for (const e of entries) {
+    if (new Date(e.createdAt).getTime() < from) continue;
+    byProvider.set(e.provider, [...(byProvider.get(e.provider) || []), e]);
+  }
+
+  return ENRICHMENT_PROVIDERS.filter(p => byProvider.has(p)).map(provider => {
+    const rows = byProvider.get(provider)!;
+    const calls = rows.length;
+    const hits = rows.filter(r => r.hit).length;
+    const credits = rows.reduce((s, r) => s + r.credits, 0);
+    const costUsd = Math.round(rows.reduce((s, r) => s + r.costUsd, 0) * 100) / 100;
+    const verifiedEmails = rows.reduce((s, r) => s + r.verifiedEmails, 0);
+    const hitRate = calls ? hits / calls : 0;
+    const costPerVerifiedEmail = verifiedEmails ? Math.round((costUsd / verifiedEmails) * 100) / 100 : null;
+    const tooCostly = costUsd > 0 && (costPerVerifiedEmail === null || costPerVerifiedEmail > config.maxCostPerVerifiedEmail);
+    return {
+      provider,
+      calls,
+      hits,
+      hitRate,
+      credits,
+      costUsd,
+      emailsFound: rows.reduce((s, r) => s + r.emailsFound, 0),
+      verifiedEmails,
+      costPerVerifiedEmail,
+      // The verifier finds no emails of its own — judge it on hit rate alone
+      paysForItself: calls < MIN_CALLS_FOR_VERDICT ? null
+        : hitRate >= config.minHitRate && (provider === 'revenuebase' || !tooCostly),
+    };
+  });
+}
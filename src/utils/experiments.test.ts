@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EXPERIMENT_MAX_LOOKS, assignVariant, collectRepliedEmailIds, computeVariantStats, evaluateExperiment, findActiveExperiment,
+  promoteWinner, spentAlpha,
+} from './experiments';
+
+function experiment(overrides: Record<string, any> = {}) {
+  return {
+    id: 'x1', name: 'Subject test',
+    target: { kind: 'template', templateId: 't1' },
+    variants: [
+      { id: 'a', name: 'A', subject: 'Quick question', weight: 1 },
+      { id: 'b', name: 'B', subject: 'Patients in {{marketZone.city}}', weight: 3 },
+    ],
+    metric: 'open', status: 'running', minSamplePerVariant: 50, confidence: 0.95,
+    createdAt: new Date(), updatedAt: new Date(),
+    ...overrides,
+  } as any;
+}
+
+const NOW = new Date('2026-04-01T10:00:00Z');
+
+function sends(variantId: string, count: number, opened: number, sentAt = new Date('2026-03-01T10:00:00Z')) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${variantId}-${sentAt.getTime()}-${i}`, contactId: `c-${variantId}-${i}`, experimentId: 'x1', variantId,
+    openCount: i < opened ? 1 : 0, clickCount: 0, sentAt: new Date(sentAt.getTime() + i * 1000),
+  })) as any[];
+}
+
+describe('experiments', () => {
+  it('splits by weight and serves the winner once decided', () => {
+    const x = experiment();
+    expect(assignVariant(x, () => 0.1).id).toBe('a');
+    expect(assignVariant(x, () => 0.3).id).toBe('b');
+    const done = promoteWinner(x, 'a', new Date('2026-03-09T00:00:00Z'));
+    expect(done).toMatchObject({ status: 'completed', winnerVariantId: 'a' });
+    expect(assignVariant(done, () => 0.9).id).toBe('a');
+    expect(findActiveExperiment([done], { kind: 'template', templateId: 't1' })?.id).toBe('x1');
+    expect(findActiveExperiment([done], { kind: 'template', templateId: 't2' })).toBeUndefined();
+  });
+
+  it('attributes replies to the email they answered', () => {
+    const sentEmails = [
+      { id: 'e1', contactId: 'c1', sentAt: new Date('2026-03-01T10:00:00Z') },
+      { id: 'e2', contactId: 'c1', sentAt: new Date('2026-03-05T10:00:00Z') },
+      { id: 'e3', contactId: 'c2', sentAt: new Date('2026-03-01T10:00:00Z') },
+    ] as any[];
+    const contacts = [
+      { id: 'c1', activities: [{ type: 'email_reply', timestamp: new Date('2026-03-03T10:00:00Z'), metadata: {} }] },
+      { id: 'c2', activities: [{ type: 'email_reply', timestamp: new Date('2026-03-02T10:00:00Z'), metadata: { sentEmailId: 'e3' } }] },
+    ] as any[];
+    expect([...collectRepliedEmailIds(contacts, sentEmails)].sort()).toEqual(['e1', 'e3']);
+  });
+
+  it('waits for the minimum sample and a significant gap before calling a winner', () => {
+    const x = experiment();
+    expect(evaluateExperiment(x, [...sends('a', 40, 10), ...sends('b', 40, 30)], new Set(), NOW).winnerVariantId).toBeUndefined();
+    expect(evaluateExperiment(x, [...sends('a', 100, 30), ...sends('b', 100, 33)], new Set(), NOW).winnerVariantId).toBeUndefined();
+
+    const clear = [...sends('a', 100, 20), ...sends('b', 100, 45)];
+    expect(computeVariantStats(x, clear, new Set())[1]).toMatchObject({ sent: 100, opened: 45, openRate: 0.45 });
+    const decision = evaluateExperiment(x, clear, new Set(), NOW);
+    expect(decision).toMatchObject({ winnerVariantId: 'b', look: 2 });
+    expect(decision.pValue).toBeLessThan(0.05);
+  });
+
+  it('only counts sends old enough for their opens to have arrived', () => {
+    const x = experiment();
+    const fresh = [...sends('a', 100, 20, new Date('2026-03-30T10:00:00Z')), ...sends('b', 100, 45, new Date('2026-03-30T10:00:00Z'))];
+    expect(evaluateExperiment(x, fresh, new Set(), NOW).reason).toMatch(/^Collecting data/);
+    expect(evaluateExperiment(x, fresh, new Set(), new Date('2026-04-03T10:00:00Z')).winnerVariantId).toBe('b');
+  });
+
+  it('decides on the sample up to the current look, so checking again in between changes nothing', () => {
+    const x = experiment();
+    // 55% vs 30% over the first 50 each is not enough at look 1 of 5…
+    const first = [...sends('a', 50, 15), ...sends('b', 50, 27)];
+    const atLook1 = evaluateExperiment(x, first, new Set(), NOW);
+    expect(atLook1.look).toBe(1);
+    expect(atLook1.winnerVariantId).toBeUndefined();
+
+    // …and 40 more lopsided sends don't trigger a re-test until the next look
+    const more = [...first, ...sends('a', 40, 0, new Date('2026-03-02T10:00:00Z')), ...sends('b', 40, 40, new Date('2026-03-02T10:00:00Z'))];
+    expect(evaluateExperiment(x, more, new Set(), NOW)).toEqual(atLook1);
+
+    const look2 = [...more, ...sends('a', 10, 0, new Date('2026-03-03T10:00:00Z')), ...sends('b', 10, 10, new Date('2026-03-03T10:00:00Z'))];
+    expect(evaluateExperiment(x, look2, new Set(), NOW)).toMatchObject({ winnerVariantId: 'b', look: 2 });
+  });
+
+  it('spends alpha across looks so repeated checks keep false winners near the nominal rate', () => {
+    expect(spentAlpha(0.05, 0)).toBe(0);
+    expect(spentAlpha(0.05, 0.2)).toBeLessThan(0.0001);
+    expect(spentAlpha(0.05, 0.6)).toBeLessThan(spentAlpha(0.05, 0.8));
+    expect(spentAlpha(0.05, 1)).toBe(0.05);
+
+    // Two identical variants (30% opens), checked after every 10 sends each
+    let seed = 42;
+    const rand = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const x = experiment({ minSamplePerVariant: 40 });
+    let falseWinners = 0;
+    const runs = 200;
+    for (let run = 0; run < runs; run++) {
+      const sent: any[] = [];
+      for (let n = 0; n < 40 * EXPERIMENT_MAX_LOOKS && !evaluateExperiment(x, sent, new Set(), NOW).winnerVariantId; n += 10) {
+        for (const variantId of ['a', 'b']) {
+          for (let i = 0; i < 10; i++) {
+            sent.push({ id: `${variantId}-${n + i}`, experimentId: 'x1', variantId, openCount: rand() < 0.3 ? 1 : 0, clickCount: 0, sentAt: new Date(Date.UTC(2026, 2, 1, 0, 0, n + i)) });
+          }
+        }
+      }
+      if (evaluateExperiment(x, sent, new Set(), NOW).winnerVariantId) falseWinners++;
+    }
+    expect(falseWinners / runs).toBeLessThanOrEqual(0.05);
+  });
+});
@@ -0,0 +1,265 @@
+import type { CRMContact } from '../types';
+import type { SentEmail } from '../services/resendService';
+import type { EmailTemplate } from './emailTemplates';
+
+/**
+ * A/B + multivariate email experiments.
+ *
+ * An experiment is attached to a saved template or to an email step of a
+ * sequence. Each send draws a variant at random (by weight); the draw is
+ * stored on the SentEmail (experimentId / variantId) so open, click and reply
+ * rates come straight from the resend-webhook events on those rows.
+ *
+ * The store re-checks running experiments on every poll, so the test is
+ * sequential: a decision is only taken at looks — each time every variant has
+ * another minSamplePerVariant settled sends, up to EXPERIMENT_MAX_LOOKS — on
+ * the sends up to that look, and each look may spend only its share of alpha
+ * (O'Brien–Fleming spending). Once the leader beats each other variant with a
+ * two-proportion z-test at that level it is promoted and every later send uses it.
+ */
+
+export type ExperimentMetric = 'open' | 'click' | 'reply';
+
+export type ExperimentTarget =
+  | { kind: 'template'; templateId: string }
+  | { kind: 'sequence_step'; sequenceId: string; stepId: string };
+
+export interface ExperimentVariant {
+  id: string;
+  name: string;
+  /** Merge-field subject (see utils/emailTemplates). Empty = keep the template / AI subject */
+  subject?: string;
+  /** Template experiments: merge-field HTML body override */
+  html?: string;
+  /** Sequence step experiments: extra direction for the AI writer */
+  instructions?: string;
+  /** Relative share of traffic */
+  weight: number;
+}
+
+export interface EmailExperiment {
+  id: string;
+  name: string;
+  target: ExperimentTarget;
+  variants: ExperimentVariant[];
+  metric: ExperimentMetric;
+  status: 'draft' | 'running' | 'completed';
+  /** Sends each variant needs for the first look; later looks come at each multiple */
+  minSamplePerVariant: number;
+  /** e.g. 0.95 — split across the comparisons against the leader */
+  confidence: number;
+  winnerVariantId?: string;
+  decidedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** What gets stamped on a SentEmail (and tagged on the provider message) */
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+}
+
+export function experimentTags(assignment?: ExperimentAssignment): { name: string; value: string }[] {
+  return assignment
+    ? [{ name: 'experiment', value: assignment.experimentId }, { name: 'variant', value: assignment.variantId }]
+    : [];
+}
+
+export interface VariantStats {
+  variantId: string;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  openRate: number;
+  clickRate: number;
+  replyRate: number;
+}
+
+export interface ExperimentDecision {
+  winnerVariantId?: string;
+  /** Largest p-value of the leader against the others (lower is stronger) */
+  pValue?: number;
+  /** The look the decision was taken at (1-based) */
+  look?: number;
+  reason: string;
+}
+
+export const DEFAULT_MIN_SAMPLE_PER_VARIANT = 50;
+export const DEFAULT_CONFIDENCE = 0.95;
+/** Looks an experiment gets; after the last one without a winner it stays undecided */
+export const EXPERIMENT_MAX_LOOKS = 5;
+/** Opens, clicks and replies mostly arrive within this long — younger sends don't count toward a look */
+export const EXPERIMENT_SETTLE_HOURS = 72;
+
+export function sameTarget(a: ExperimentTarget, b: ExperimentTarget): boolean {
+  if (a.kind === 'template' && b.kind === 'template') return a.templateId === b.templateId;
+  if (a.kind === 'sequence_step' && b.kind === 'sequence_step') return a.sequenceId === b.sequenceId && a.stepId === b.stepId;
+  return false;
+}
+
+/** The experiment that should drive sends for this target, if any (a decided one keeps serving its winner) */
+export function findActiveExperiment(experiments: EmailExperiment[], target: ExperimentTarget): EmailExperiment | undefined {
+  const matching = experiments.filter(e => sameTarget(e.target, target));
+  return matching.find(e => e.status === 'running')
+    || matching
+      .filter(e => e.status === 'completed' && e.winnerVariantId)
+      .sort((a, b) => (b.decidedAt?.getTime() || 0) - (a.decidedAt?.getTime() || 0))[0];
+}
+
+/** Weighted random draw; a completed experiment always returns its winner */
+export function assignVariant(experiment: EmailExperiment, rand: () => number = Math.random): ExperimentVariant {
+  if (experiment.winnerVariantId) {
+    const winner = experiment.variants.find(v => v.id === experiment.winnerVariantId);
+    if (winner) return winner;
+  }
+  const total = experiment.variants.reduce((s, v) => s + Math.max(0, v.weight), 0);
+  let r = rand() * (total || experiment.variants.length);
+  for (const v of experiment.variants) {
+    r -= total ? Math.max(0, v.weight) : 1;
+    if (r < 0) return v;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+export function applyVariantToTemplate(template: EmailTemplate, variant: ExperimentVariant): EmailTemplate {
+  return {
+    ...template,
+    subject: variant.subject?.trim() ? variant.subject : template.subject,
+    html: variant.html?.trim() ? variant.html : template.html,
+  };
+}
+
+/**
+ * Sent emails that got a reply. Inbound replies carry the sent email they
+ * matched (metadata.sentEmailId); older replies fall back to the contact's
+ * latest email sent before the reply.
+ */
+export function collectRepliedEmailIds(contacts: CRMContact[], sentEmails: SentEmail[]): Set<string> {
+  const replied = new Set<string>();
+  const byContact = new Map<string, SentEmail[]>();
+  for (const e of sentEmails) {
+    const list = byContact.get(e.contactId) || [];
+    list.push(e);
+    byContact.set(e.contactId, list);
+  }
+  for (const c of contacts) {
+    for (const a of c.activities || []) {
+      if (a.type !== 'email_reply') continue;
+      const direct = a.metadata?.sentEmailId;
+      if (direct) { replied.add(String(direct)); continue; }
+      const at = new Date(a.timestamp).getTime();
+      const prior = (byContact.get(c.id) || [])
+        .filter(e => new Date(e.sentAt).getTime() <= at)
+        .sort((x, y) => new Date(y.sentAt).getTime() - new Date(x.sentAt).getTime())[0];
+      if (prior) replied.add(prior.id);
+    }
+  }
+  return replied;
+}
+
+export function computeVariantStats(experiment: EmailExperiment, sentEmails: SentEmail[], repliedIds: Set<string>): VariantStats[] {
+  return experiment.variants.map(v => {
+    const emails = sentEmails.filter(e => e.experimentId === experiment.id && e.variantId === v.id);
+    const opened = emails.filter(e => e.openCount > 0 || e.lastEvent === 'opened' || e.lastEvent === 'clicked').length;
+    const clicked = emails.filter(e => e.clickCount > 0 || e.lastEvent === 'clicked').length;
+    const replied = emails.filter(e => repliedIds.has(e.id)).length;
+    const sent = emails.length;
+    return {
+      variantId: v.id,
+      sent, opened, clicked, replied,
+      openRate: sent ? opened / sent : 0,
+      clickRate: sent ? clicked / sent : 0,
+      replyRate: sent ? replied / sent : 0,
+    };
+  });
+}
+
+function metricOf(s: VariantStats, metric: ExperimentMetric): { successes: number; rate: number } {
+  if (metric === 'click') return { successes: s.clicked, rate: s.clickRate };
+  if (metric === 'reply') return { successes: s.replied, rate: s.replyRate };
+  return { successes: s.opened, rate: s.openRate };
+}
+
+// Abramowitz–Stegun 7.1.26 — plenty for a significance gate
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function normalQuantile(p: number): number {
+  let lo = -10, hi = 10;
+  for (let i = 0; i < 80; i++) {
+    const mid = (lo + hi) / 2;
+    if (normalCdf(mid) < p) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Alpha spent by information fraction t (Lan–DeMets O'Brien–Fleming):
+ * almost nothing at early looks, all of it at t = 1.
+ */
+export function spentAlpha(alpha: number, t: number): number {
+  if (t <= 0) return 0;
+  if (t >= 1) return alpha;
+  return 2 * (1 - normalCdf(normalQuantile(1 - alpha / 2) / Math.sqrt(t)));
+}
+
+/** One-sided p-value that rate A really beats rate B (two-proportion z-test) */
+export function twoProportionPValue(successA: number, nA: number, successB: number, nB: number): number {
+  if (!nA || !nB) return 1;
+  const pooled = (successA + successB) / (nA + nB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / nA + 1 / nB));
+  if (!se) return 1;
+  const z = (successA / nA - successB / nB) / se;
+  return 1 - normalCdf(z);
+}
+
+export function evaluateExperiment(
+  experiment: EmailExperiment,
+  sentEmails: SentEmail[],
+  repliedIds: Set<string>,
+  now = new Date(),
+): ExperimentDecision {
+  if (experiment.variants.length < 2) return { reason: 'Needs at least two variants' };
+  const perLook = Math.max(1, experiment.minSamplePerVariant);
+  const cutoff = now.getTime() - EXPERIMENT_SETTLE_HOURS * 3600_000;
+  const settled = experiment.variants.map(v => sentEmails
+    .filter(e => e.experimentId === experiment.id && e.variantId === v.id && new Date(e.sentAt).getTime() <= cutoff)
+    .sort((a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime()));
+  const look = Math.min(EXPERIMENT_MAX_LOOKS, Math.floor(Math.min(...settled.map(l => l.length)) / perLook));
+  if (!look) {
+    const short = settled.filter(l => l.length < perLook).length;
+    return { reason: `Collecting data — ${short} variant${short === 1 ? '' : 's'} below ${perLook} sends older than ${EXPERIMENT_SETTLE_HOURS}h` };
+  }
+
+  // Only the sends up to this look: checking again before the next one sees the same sample
+  const stats = computeVariantStats(experiment, settled.flatMap(l => l.slice(0, look * perLook)), repliedIds);
+  const ranked = [...stats].sort((a, b) => metricOf(b, experiment.metric).rate - metricOf(a, experiment.metric).rate);
+  const leader = ranked[0];
+  const lead = metricOf(leader, experiment.metric);
+  // Bonferroni: the leader has to beat every other variant; each look spends its share.
+  // The leader is picked from the same data, so its one-sided p gets half the level (two-sided).
+  const alpha = (1 - experiment.confidence) / (ranked.length - 1) / 2;
+  const level = spentAlpha(alpha, look / EXPERIMENT_MAX_LOOKS) - spentAlpha(alpha, (look - 1) / EXPERIMENT_MAX_LOOKS);
+  const pValue = Math.max(...ranked.slice(1).map(s => {
+    const other = metricOf(s, experiment.metric);
+    return twoProportionPValue(lead.successes, leader.sent, other.successes, s.sent);
+  }));
+  if (pValue > level) {
+    const reason = look < EXPERIMENT_MAX_LOOKS
+      ? `No significant leader at look ${look} of ${EXPERIMENT_MAX_LOOKS} (p=${pValue.toFixed(4)}, need ≤ ${level.toPrecision(2)})`
+      : `No significant difference after ${look * perLook} sends per variant — pick a variant or stop the experiment`;
+    return { pValue, look, reason };
+  }
+  const name = experiment.variants.find(v => v.id === leader.variantId)?.name || leader.variantId;
+  return { winnerVariantId: leader.variantId, pValue, look, reason: `${name} wins on ${experiment.metric} rate at look ${look} (p=${pValue.toFixed(4)})` };
+}
+
+export function promoteWinner(experiment: EmailExperiment, winnerVariantId: string, now = new Date()): EmailExperiment {
+  return { ...experiment, status: 'completed', winnerVariantId, decidedAt: now, updatedAt: now };
+}
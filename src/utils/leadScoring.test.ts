@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCORING_MODEL, ScoringModel, backtestScoringModel, computeLeadScore } from './leadScoring';
+
+function contact(id: string, patch: { affluenceScore?: number; medianIncome?: number; email?: string; status?: string } = {}) {
+  return {
+    id, status: patch.status || 'new', activities: [], keywordMatches: [],
+    clinic: {
+      services: ['TRT', 'Peptides', 'IV Therapy'], rating: 4.6, reviewCount: 80, website: 'https://clinic.com',
+      marketZone: { affluenceScore: patch.affluenceScore ?? 8, medianIncome: patch.medianIncome ?? 160000 },
+    },
+    decisionMaker: patch.email !== undefined
+      ? { role: 'owner', email: patch.email, confidence: 90 }
+      : undefined,
+  } as any;
+}
+
+describe('leadScoring', () => {
+  it('keeps the original point table under the default model', () => {
+    // affluence 16+7, trends baseline 5, DM 5+8+4+3, rating 5+3+2, services 3
+    const result = computeLeadScore(contact('c1', { email: 'dr@clinic.com' }), DEFAULT_SCORING_MODEL);
+    expect(result.score).toBe(61);
+    expect(result.priority).toBe('high');
+    expect(result.breakdown.find(f => f.id === 'decision_maker')?.points).toBeCloseTo(20);
+  });
+
+  it('breakdown points add up to the score', () => {
+    const model: ScoringModel = { ...DEFAULT_SCORING_MODEL, weights: { affluence: 1, trends: 1, decision_maker: 3, rating: 0, services: 0, engagement: 0 } };
+    const result = computeLeadScore(contact('c1', { email: 'dr@clinic.com' }), model);
+    const sum = result.breakdown.reduce((s, f) => s + f.points, 0);
+    expect(result.score).toBe(Math.round(sum));
+    expect(result.breakdown.find(f => f.id === 'rating')?.points).toBe(0);
+  });
+
+  it('back-tests ranking quality against qualified / not-interested outcomes', () => {
+    const history = [
+      contact('q1', { status: 'qualified', email: 'a@x.com' }),
+      contact('q2', { status: 'qualified', email: 'b@x.com' }),
+      contact('n1', { status: 'not_interested', affluenceScore: 3, medianIncome: 60000 }),
+      contact('n2', { status: 'not_interested', affluenceScore: 4, medianIncome: 80000 }),
+      contact('x1', { status: 'new' }),
+    ];
+    const dmOnly: ScoringModel = { ...DEFAULT_SCORING_MODEL, weights: { affluence: 0, trends: 0, decision_maker: 1, rating: 0, services: 0, engagement: 0 } };
+    const servicesOnly: ScoringModel = { ...DEFAULT_SCORING_MODEL, weights: { affluence: 0, trends: 0, decision_maker: 0, rating: 0, services: 1, engagement: 0 } };
+
+    const good = backtestScoringModel(dmOnly, history);
+    expect(good.qualified).toBe(2);
+    expect(good.notInterested).toBe(2);
+    expect(good.auc).toBe(1);
+    expect(backtestScoringModel(servicesOnly, history).auc).toBe(0.5);
+  });
+});
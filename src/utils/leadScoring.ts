@@ -1,77 +1,264 @@
 import { CRMContact, Priority } from '../types';
 
 /**
- * Enhanced lead scoring — factors in market affluence, keyword trends,
- * decision maker availability, email availability, services breadth,
- * clinic rating, and review count.
+ * Explainable lead scoring.
  *
- * Returns 0–100 score and a priority tier.
+ * A scoring model is a weighted set of factors. Each factor turns a contact
+ * into a 0–1 signal (with a short reason); the model's weights decide how much
+ * each signal contributes. Scores are normalised to 0–100 by the total weight,
+ * so weights are relative — the default model's weights add up to 100 and
+ * reproduce the original hard-wired point table exactly.
+ *
+ * Models are versioned data (persisted through supabaseSync). The active model
+ * is held here and kept in sync by the store, like the DNC registry in
+ * voiceAgentService.
  */
-export function computeLeadScore(contact: CRMContact): { score: number; priority: Priority } {
-  let score = 0;
-
-  const market = contact.clinic.marketZone;
-  const dm = contact.decisionMaker;
-  const clinic = contact.clinic;
-  const trends = contact.keywordMatches || [];
-
-  // ── Market quality (0–30) ──
-  // Affluence score is 1–10, map to 0–20
-  score += Math.min(market.affluenceScore * 2, 20);
-  // High median income bonus (0–10)
-  if (market.medianIncome >= 200000) score += 10;
-  else if (market.medianIncome >= 150000) score += 7;
-  else if (market.medianIncome >= 100000) score += 4;
-
-  // ── Keyword trend signal (0–25) ──
-  if (trends.length > 0) {
-    const avgTrend = trends.reduce((s, t) => s + t.trendScore, 0) / trends.length;
-    score += Math.min(Math.round(avgTrend * 0.2), 15); // trend score contribution
-    // Growth rate bonus
-    const maxGrowth = Math.max(...trends.map(t => t.growthRate));
-    if (maxGrowth >= 50) score += 10;
-    else if (maxGrowth >= 20) score += 6;
-    else if (maxGrowth > 0) score += 3;
-  } else {
-    score += 5; // baseline if no trend data
-  }
 
-  // ── Decision maker quality (0–20) ──
-  if (dm) {
-    score += 5; // has a DM at all
-    if (dm.email) score += 8; // has email — actionable
-    if (dm.role === 'owner' || dm.role === 'medical_director') score += 4; // high-value role
-    if (dm.confidence >= 80) score += 3;
-    else if (dm.confidence >= 50) score += 1;
+/* ─── Types ─── */
+
+export type ScoringFactorId = 'affluence' | 'trends' | 'decision_maker' | 'rating' | 'services' | 'engagement';
+
+export interface ScoringFactor {
+  id: ScoringFactorId;
+  label: string;
+  description: string;
+  evaluate: (contact: CRMContact) => { signal: number; detail: string };
+}
+
+export interface ScoringModel {
+  id: string;
+  name: string;
+  version: number;
+  weights: Record<ScoringFactorId, number>;
+  /** Minimum score for each priority tier (anything below medium is low) */
+  tiers: { critical: number; high: number; medium: number };
+  notes?: string;
+  createdAt: Date;
+}
+
+export interface FactorContribution {
+  id: ScoringFactorId;
+  label: string;
+  signal: number;  // 0–1
+  weight: number;
+  points: number;  // contribution to the 0–100 score
+  detail: string;
+}
+
+export interface LeadScoreResult {
+  score: number;
+  priority: Priority;
+  modelId: string;
+  modelVersion: number;
+  breakdown: FactorContribution[];
+}
+
+/* ─── Factors ─── */
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+export const SCORING_FACTORS: ScoringFactor[] = [
+  {
+    id: 'affluence',
+    label: 'Market affluence',
+    description: 'Market affluence score and median household income',
+    evaluate: (contact) => {
+      const market = contact.clinic.marketZone;
+      let pts = Math.min(market.affluenceScore * 2, 20);
+      if (market.medianIncome >= 200000) pts += 10;
+      else if (market.medianIncome >= 150000) pts += 7;
+      else if (market.medianIncome >= 100000) pts += 4;
+      return { signal: clamp01(pts / 30), detail: `Affluence ${market.affluenceScore}/10 · $${Math.round(market.medianIncome / 1000)}k median income` };
+    },
+  },
+  {
+    id: 'trends',
+    label: 'Keyword trends',
+    description: 'Average trend score and peak growth of matched keywords',
+    evaluate: (contact) => {
+      const trends = contact.keywordMatches || [];
+      if (trends.length === 0) return { signal: 5 / 25, detail: 'No trend data (baseline)' };
+      const avgTrend = trends.reduce((s, t) => s + t.trendScore, 0) / trends.length;
+      let pts = Math.min(Math.round(avgTrend * 0.2), 15);
+      const maxGrowth = Math.max(...trends.map(t => t.growthRate));
+      if (maxGrowth >= 50) pts += 10;
+      else if (maxGrowth >= 20) pts += 6;
+      else if (maxGrowth > 0) pts += 3;
+      return { signal: clamp01(pts / 25), detail: `${trends.length} keyword${trends.length !== 1 ? 's' : ''} · avg trend ${Math.round(avgTrend)} · peak growth ${maxGrowth}%` };
+    },
+  },
+  {
+    id: 'decision_maker',
+    label: 'Decision maker',
+    description: 'Has a decision maker, with email, senior role and confidence',
+    evaluate: (contact) => {
+      const dm = contact.decisionMaker;
+      if (!dm) return { signal: 0, detail: 'No decision maker found' };
+      let pts = 5;
+      if (dm.email) pts += 8;
+      if (dm.role === 'owner' || dm.role === 'medical_director') pts += 4;
+      if (dm.confidence >= 80) pts += 3;
+      else if (dm.confidence >= 50) pts += 1;
+      return { signal: clamp01(pts / 20), detail: `${dm.role.replace(/_/g, ' ')}${dm.email ? ' · has email' : ' · no email'} · ${dm.confidence}% confidence` };
+    },
+  },
+  {
+    id: 'rating',
+    label: 'Reputation',
+    description: 'Google rating, review volume and website presence',
+    evaluate: (contact) => {
+      const clinic = contact.clinic;
+      let pts = 0;
+      if (clinic.rating && clinic.rating >= 4.5) pts += 5;
+      else if (clinic.rating && clinic.rating >= 4.0) pts += 3;
+      if (clinic.reviewCount && clinic.reviewCount >= 50) pts += 3;
+      else if (clinic.reviewCount && clinic.reviewCount >= 20) pts += 1;
+      if (clinic.website) pts += 2;
+      return { signal: clamp01(pts / 10), detail: `${clinic.rating ? `${clinic.rating}★` : 'No rating'} · ${clinic.reviewCount || 0} reviews${clinic.website ? ' · website' : ''}` };
+    },
+  },
+  {
+    id: 'services',
+    label: 'Services breadth',
+    description: 'More services means more upsell potential',
+    evaluate: (contact) => {
+      const svcCount = contact.clinic.services?.length || 0;
+      const pts = svcCount >= 5 ? 5 : svcCount >= 3 ? 3 : svcCount >= 1 ? 1 : 0;
+      return { signal: pts / 5, detail: `${svcCount} service${svcCount !== 1 ? 's' : ''}` };
+    },
+  },
+  {
+    id: 'engagement',
+    label: 'Engagement',
+    description: 'Calls and emails made, and pipeline progress',
+    evaluate: (contact) => {
+      const activities = contact.activities || [];
+      const called = activities.some(a => a.type === 'call_made');
+      const emailed = activities.some(a => a.type === 'email_sent');
+      let pts = 0;
+      if (called) pts += 3;
+      if (emailed) pts += 2;
+      if (contact.status === 'qualified') pts += 5;
+      else if (contact.status === 'follow_up') pts += 2;
+      const parts = [called && 'called', emailed && 'emailed', contact.status.replace(/_/g, ' ')].filter(Boolean);
+      return { signal: clamp01(pts / 10), detail: parts.join(' · ') };
+    },
+  },
+];
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  id: 'scoring-v1',
+  name: 'Baseline',
+  version: 1,
+  weights: { affluence: 30, trends: 25, decision_maker: 20, rating: 10, services: 5, engagement: 10 },
+  tiers: { critical: 75, high: 55, medium: 35 },
+  notes: 'Original hard-wired weights',
+  createdAt: new Date(0),
+};
+
+let activeModel: ScoringModel = DEFAULT_SCORING_MODEL;
+
+export function setActiveScoringModel(model: ScoringModel) {
+  activeModel = model;
+}
+
+export function getActiveScoringModel(): ScoringModel {
+  return activeModel;
+}
+
+/* ─── Scoring ─── */
+
+export function scoreToPriority(score: number, tiers: ScoringModel['tiers']): Priority {
+  return score >= tiers.critical ? 'critical' :
+    score >= tiers.high ? 'high' :
+    score >= tiers.medium ? 'medium' : 'low';
+}
+
+/**
+ * Score a contact with a model (the active one by default).
+ * Returns the 0–100 score, its priority tier and a per-factor breakdown.
+ */
+export function computeLeadScore(contact: CRMContact, model: ScoringModel = activeModel): LeadScoreResult {
+  const totalWeight = SCORING_FACTORS.reduce((s, f) => s + Math.max(0, model.weights[f.id] ?? 0), 0) || 1;
+
+  const breakdown: FactorContribution[] = SCORING_FACTORS.map(f => {
+    const weight = Math.max(0, model.weights[f.id] ?? 0);
+    const { signal, detail } = f.evaluate(contact);
+    return { id: f.id, label: f.label, signal, weight, points: (signal * weight * 100) / totalWeight, detail };
+  });
+
+  const raw = breakdown.reduce((s, b) => s + b.points, 0);
+  const score = Math.max(0, Math.min(100, Math.round(raw)));
+
+  return {
+    score,
+    priority: scoreToPriority(score, model.tiers),
+    modelId: model.id,
+    modelVersion: model.version,
+    breakdown,
+  };
+}
+
+/* ─── Back-testing ─── */
+
+export interface ScoringBacktest {
+  modelId: string;
+  modelVersion: number;
+  qualified: number;
+  notInterested: number;
+  /** Probability a random qualified contact outscores a random not-interested one (null without both classes) */
+  auc: number | null;
+  meanQualified: number;
+  meanNotInterested: number;
+  /** Share of critical+high contacts that qualified, and share of qualified contacts that landed there */
+  precisionAtHigh: number;
+  recallAtHigh: number;
+}
+
+/**
+ * Replay a model against historical outcomes (`qualified` vs `not_interested`).
+ * Status is reset before scoring so the engagement factor can't read the label.
+ */
+export function backtestScoringModel(model: ScoringModel, contacts: CRMContact[]): ScoringBacktest {
+  const samples = contacts
+    .filter(c => c.status === 'qualified' || c.status === 'not_interested')
+    .map(c => ({
+      positive: c.status === 'qualified',
+      score: computeLeadScore({ ...c, status: 'new' }, model).score,
+    }));
+
+  const pos = samples.filter(s => s.positive);
+  const neg = samples.filter(s => !s.positive);
+  const mean = (xs: { score: number }[]) => xs.length ? xs.reduce((s, x) => s + x.score, 0) / xs.length : 0;
+
+  // Mann–Whitney U via average ranks (handles ties)
+  let auc: number | null = null;
+  if (pos.length && neg.length) {
+    const sorted = [...samples].sort((a, b) => a.score - b.score);
+    const ranks = new Array<number>(sorted.length);
+    for (let i = 0; i < sorted.length;) {
+      let j = i;
+      while (j + 1 < sorted.length && sorted[j + 1].score === sorted[i].score) j++;
+      const avg = (i + j) / 2 + 1;
+      for (let k = i; k <= j; k++) ranks[k] = avg;
+      i = j + 1;
+    }
+    const rankSumPos = sorted.reduce((s, x, i) => s + (x.positive ? ranks[i] : 0), 0);
+    auc = (rankSumPos - (pos.length * (pos.length + 1)) / 2) / (pos.length * neg.length);
   }
 
-  // ── Clinic signals (0–15) ──
-  if (clinic.rating && clinic.rating >= 4.5) score += 5;
-  else if (clinic.rating && clinic.rating >= 4.0) score += 3;
-  if (clinic.reviewCount && clinic.reviewCount >= 50) score += 3;
-  else if (clinic.reviewCount && clinic.reviewCount >= 20) score += 1;
-  if (clinic.website) score += 2;
-  // Services breadth — more services = more upsell potential
-  const svcCount = clinic.services?.length || 0;
-  if (svcCount >= 5) score += 5;
-  else if (svcCount >= 3) score += 3;
-  else if (svcCount >= 1) score += 1;
-
-  // ── Engagement bonus (0–10) ──
-  const activities = contact.activities || [];
-  if (activities.some(a => a.type === 'call_made')) score += 3;
-  if (activities.some(a => a.type === 'email_sent')) score += 2;
-  if (contact.status === 'qualified') score += 5;
-  else if (contact.status === 'follow_up') score += 2;
-
-  // Clamp
-  score = Math.max(0, Math.min(100, score));
-
-  // Priority tiers
-  const priority: Priority =
-    score >= 75 ? 'critical' :
-    score >= 55 ? 'high' :
-    score >= 35 ? 'medium' : 'low';
-
-  return { score, priority };
+  const flagged = samples.filter(s => s.score >= model.tiers.high);
+  const flaggedPos = flagged.filter(s => s.positive).length;
+
+  return {
+    modelId: model.id,
+    modelVersion: model.version,
+    qualified: pos.length,
+    notInterested: neg.length,
+    auc,
+    meanQualified: mean(pos),
+    meanNotInterested: mean(neg),
+    precisionAtHigh: flagged.length ? flaggedPos / flagged.length : 0,
+    recallAtHigh: pos.length ? flaggedPos / pos.length : 0,
+  };
 }
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { OUTBOX_RETRY_MAX_MS, createOutboxEntry, dueOutboxEntries, enqueueOutbox, failOutboxEntry, retryDelay } from './outbox';
+
+const at = (sec: number) => new Date(Date.UTC(2026, 4, 4, 12, 0, sec));
+
+describe('outbox', () => {
+  it('merges a burst of writes to one target into the tail entry only', () => {
+    const first = createOutboxEntry('updateContactFields', ['c1', { status: 'called', activities: [{ id: 'a1' }] }], 'contacts:c1', {
+      dirty: { status: at(0).toISOString() }, now: at(0),
+    });
+    const second = createOutboxEntry('updateContactFields', ['c1', { notes: 'hi', activities: [{ id: 'a2' }] }], 'contacts:c1', {
+      dirty: { notes: at(1).toISOString() }, now: at(1),
+    });
+    const merged = enqueueOutbox([first], second);
+    expect(merged.replaced).toBe(first.id);
+    expect(merged.queue).toHaveLength(1);
+    expect(merged.queue[0]).toMatchObject({ id: second.id, seq: first.seq, dirty: { status: at(0).toISOString(), notes: at(1).toISOString() } });
+    expect(merged.queue[0].args[1]).toEqual({ status: 'called', notes: 'hi', activities: [{ id: 'a1' }, { id: 'a2' }] });
+
+    // Something else was queued in between — the write must not jump ahead of it
+    const call = createOutboxEntry('syncVoiceCalls', [[{ id: 'v1' }]], 'voice_calls:v1', { now: at(2) });
+    const third = createOutboxEntry('updateContactFields', ['c1', { status: 'qualified' }], 'contacts:c1', { now: at(3) });
+    const queue = enqueueOutbox(enqueueOutbox(merged.queue, call).queue, third);
+    expect(queue.replaced).toBeUndefined();
+    expect(queue.queue.map(e => e.target)).toEqual(['contacts:c1', 'voice_calls:v1', 'contacts:c1']);
+
+    const batch = enqueueOutbox(
+      [createOutboxEntry('syncSentEmails', [[{ id: 'e1', status: 'sent' }]], 'sent_emails', { now: at(4) })],
+      createOutboxEntry('syncSentEmails', [[{ id: 'e1', status: 'opened' }, { id: 'e2' }]], 'sent_emails', { now: at(5) }),
+    );
+    expect(batch.queue[0].args[0]).toEqual([{ id: 'e1', status: 'opened' }, { id: 'e2' }]);
+  });
+
+  it('backs off exponentially up to the cap', () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([2_000, 4_000, 8_000, 16_000]);
+    expect(retryDelay(30)).toBe(OUTBOX_RETRY_MAX_MS);
+
+    const failed = failOutboxEntry(failOutboxEntry(createOutboxEntry('deleteContact', ['c1'], 'contacts:c1', { now: at(0) }), 'offline', at(0)), 'offline', at(10));
+    expect(failed).toMatchObject({ attempts: 2, lastError: 'offline', nextAttemptAt: at(14) });
+  });
+
+  it('holds back later writes for a target while an earlier one is backing off', () => {
+    const blocked = failOutboxEntry(createOutboxEntry('upsertContact', [{ id: 'c1' }], 'contacts:c1', { now: at(0) }), 'timeout', at(0));
+    const later = createOutboxEntry('updateContactFields', ['c1', { status: 'called' }], 'contacts:c1', { now: at(1) });
+    const other = createOutboxEntry('syncCampaigns', [[{ id: 'k1' }]], 'campaigns', { now: at(1) });
+
+    expect(dueOutboxEntries([later, other, blocked], at(1)).map(e => e.target)).toEqual(['campaigns']);
+    expect(dueOutboxEntries([later, other, blocked], at(3)).map(e => e.method)).toEqual(['upsertContact', 'updateContactFields', 'syncCampaigns']);
+  });
+});
@@ -0,0 +1,148 @@
+import type { DirtyFields } from './syncMerge';
+
+/**
+ * Offline-first outbox for store writes.
+ *
+ * Every Supabase write the store makes for CRM and outreach data is queued
+ * here (persisted in IndexedDB by outboxService) and removed only once
+ * Supabase confirms it, so edits made offline or during an outage survive
+ * reloads and are replayed on reconnect. Each entry's id is its idempotency
+ * key: the writes are upserts / deletes keyed by record id, so replaying an
+ * entry that already landed (tab closed before the confirmation) writes the
+ * same rows again. Entries for one target replay in order; a failed entry
+ * backs off and holds back later entries for its target.
+ */
+
+/** supabaseSync methods the outbox can replay — each resolves true once Supabase accepted the write */
+export type OutboxMethod =
+  | 'syncClinics'
+  | 'upsertContact'
+  | 'updateContactFields'
+  | 'deleteContact'
+  | 'addActivity'
+  | 'syncVoiceCalls'
+  | 'syncSentEmails'
+  | 'syncSequenceEnrollments'
+  | 'deleteSequenceEnrollment'
+  | 'syncSuppressions'
+  | 'deleteSuppressions'
+  | 'syncCampaigns'
+  | 'recordAudit';
+
+export interface OutboxEntry {
+  /** Idempotency key */
+  id: string;
+  /** Replay order */
+  seq: number;
+  method: OutboxMethod;
+  args: unknown[];
+  /** What the write touches — `contacts:<id>` for one record, the table name for batches */
+  target: string;
+  /** Dirty fields (utils/syncMerge) the write covers, cleared once it lands */
+  dirty?: DirtyFields;
+  createdAt: Date;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+}
+
+export const OUTBOX_RETRY_BASE_MS = 2_000;
+export const OUTBOX_RETRY_MAX_MS = 5 * 60 * 1000;
+
+/** Upserts of whole records — a later batch supersedes the same ids in an earlier one */
+const ARRAY_UPSERTS: OutboxMethod[] = ['syncClinics', 'syncVoiceCalls', 'syncSentEmails', 'syncSequenceEnrollments', 'syncSuppressions', 'syncCampaigns'];
+
+let seqCounter = 0;
+
+export function createOutboxEntry(
+  method: OutboxMethod,
+  args: unknown[],
+  target: string,
+  opts: { dirty?: DirtyFields; now?: Date } = {},
+): OutboxEntry {
+  const now = opts.now || new Date();
+  seqCounter = (seqCounter + 1) % 1000;
+  return {
+    id: `ob-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    seq: now.getTime() * 1000 + seqCounter,
+    method,
+    args,
+    target,
+    dirty: opts.dirty,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+}
+
+/** Exponential backoff after the given number of failed attempts */
+export function retryDelay(attempts: number): number {
+  return Math.min(OUTBOX_RETRY_MAX_MS, OUTBOX_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+export function failOutboxEntry(entry: OutboxEntry, error: string, now = new Date()): OutboxEntry {
+  const attempts = entry.attempts + 1;
+  return { ...entry, attempts, lastError: error, nextAttemptAt: new Date(now.getTime() + retryDelay(attempts)) };
+}
+
+const unionById = (older: unknown, newer: unknown) => {
+  const byId = new Map<string, any>();
+  for (const item of [...(older as any[]), ...(newer as any[])]) byId.set(item?.id, item);
+  return [...byId.values()];
+};
+
+/** Args of one write that covers both, or null when the two have to stay separate */
+function combineArgs(method: OutboxMethod, older: unknown[], newer: unknown[]): unknown[] | null {
+  if (ARRAY_UPSERTS.includes(method)) return [unionById(older[0], newer[0]), ...newer.slice(1)];
+  if (method === 'upsertContact') return newer;
+  if (method === 'updateContactFields' && older[0] === newer[0]) {
+    const a = older[1] as Record<string, unknown>;
+    const b = newer[1] as Record<string, unknown>;
+    const merged = { ...a, ...b };
+    if (Array.isArray(a.activities) && Array.isArray(b.activities)) merged.activities = unionById(a.activities, b.activities);
+    return [newer[0], merged];
+  }
+  return null;
+}
+
+/**
+ * Add a write to the queue. A burst of writes to the same target (typing,
+ * a send batch) merges into the tail entry instead of queueing each one —
+ * only the tail, so nothing ever replays ahead of a write queued before it.
+ * The merged entry gets the new id; `replaced` names the entry it took over.
+ */
+export function enqueueOutbox(queue: OutboxEntry[], entry: OutboxEntry): { queue: OutboxEntry[]; replaced?: string } {
+  const tail = queue[queue.length - 1];
+  if (tail && tail.method === entry.method && tail.target === entry.target) {
+    const args = combineArgs(entry.method, tail.args, entry.args);
+    if (args) {
+      const merged: OutboxEntry = {
+        ...entry,
+        seq: tail.seq,
+        args,
+        dirty: tail.dirty || entry.dirty ? { ...tail.dirty, ...entry.dirty } : undefined,
+        createdAt: tail.createdAt,
+      };
+      return { queue: [...queue.slice(0, -1), merged], replaced: tail.id };
+    }
+  }
+  return { queue: [...queue, entry] };
+}
+
+/**
+ * Entries to attempt now, in replay order. An entry still backing off holds
+ * back every later entry for its target.
+ */
+export function dueOutboxEntries(queue: OutboxEntry[], now = new Date()): OutboxEntry[] {
+  const held = new Set<string>();
+  const due: OutboxEntry[] = [];
+  for (const entry of [...queue].sort((a, b) => a.seq - b.seq)) {
+    if (held.has(entry.target)) continue;
+    if (new Date(entry.nextAttemptAt).getTime() > now.getTime()) {
+      held.add(entry.target);
+      continue;
+    }
+    due.push(entry);
+  }
+  return due;
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { firstPages, paginate } from './paging';
+
+const items = Array.from({ length: 23 }, (_, i) => i + 1);
+
+describe('paging', () => {
+  it('slices one page and reports its position', () => {
+    expect(paginate(items, 2, 10)).toEqual({
+      items: [11, 12, 13, 14, 15, 16, 17, 18, 19, 20], page: 2, pageSize: 10, pageCount: 3, total: 23, from: 11, to: 20,
+    });
+    expect(paginate(items, 3, 10).items).toEqual([21, 22, 23]);
+  });
+
+  it('clamps out-of-range pages — a list that shrank stays on its last page', () => {
+    expect(paginate(items, 9, 10)).toMatchObject({ page: 3, from: 21, to: 23 });
+    expect(paginate(items, 0, 10).page).toBe(1);
+    expect(paginate([], 4, 10)).toMatchObject({ items: [], page: 1, pageCount: 1, total: 0, from: 0, to: 0 });
+  });
+
+  it('grows a "show more" list a page at a time', () => {
+    expect(firstPages(items, 1, 10)).toEqual({ items: items.slice(0, 10), remaining: 13 });
+    expect(firstPages(items, 2, 10).remaining).toBe(3);
+    expect(firstPages(items, 5, 10)).toEqual({ items, remaining: 0 });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Paging for long lists. Collections stay whole in the store; views render
+ * one page (or the first few pages of a "show more" list) so a CRM with
+ * thousands of contacts doesn't mount thousands of rows.
+ */
+
+export interface Page<T> {
+  items: T[];
+  /** 1-based, clamped to the pages that exist */
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  total: number;
+  /** 1-based position of the first item shown (0 when empty) */
+  from: number;
+  to: number;
+}
+
+export function paginate<T>(items: readonly T[], page: number, pageSize: number): Page<T> {
+  const total = items.length;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const current = Math.min(Math.max(1, Math.floor(page) || 1), pageCount);
+  const start = (current - 1) * pageSize;
+  const pageItems = items.slice(start, start + pageSize);
+  return {
+    items: pageItems,
+    page: current,
+    pageSize,
+    pageCount,
+    total,
+    from: pageItems.length ? start + 1 : 0,
+    to: start + pageItems.length,
+  };
+}
+
+/** The first `pages` pages in one list, and how many items are still hidden */
+export function firstPages<T>(items: readonly T[], pages: number, pageSize: number): { items: T[]; remaining: number } {
+  const shown = items.slice(0, Math.max(1, pages) * pageSize);
+  return { items: shown, remaining: items.length - shown.length };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { pinValue, reconcileClinic, reconcileContact, reconcileContactUpdates } from './provenance';
+
+const now = new Date('2026-05-04T12:00:00Z');
+
+const contact = {
+  id: 'c1',
+  decisionMaker: {
+    id: 'dm1', clinicId: 'cl1', firstName: 'John', lastName: 'Smith', title: 'Owner', role: 'owner',
+    email: 'jsmith@clinic.com', confidence: 70, source: 'website_scrape', enrichedAt: new Date('2026-05-01T00:00:00Z'),
+  },
+  clinic: {
+    id: 'cl1', name: 'Clinic',
+    enrichedContacts: [
+      { name: 'Dr. John A. Smith', title: 'Physician', role: 'medical_director', email: 'john@clinic.com', confidence: 60, source: 'npi', enrichedAt: '2026-04-20T00:00:00Z', emailVerificationStatus: 'valid' },
+      { name: 'Bo Li', title: 'Manager', role: 'clinic_manager', email: 'bo@clinic.com', confidence: 90, source: 'apollo', enrichedAt: '2026-04-20T00:00:00Z' },
+    ],
+  },
+} as any;
+
+describe('provenance', () => {
+  it('prefers NPI names and verified emails, and only weighs the decision maker\'s own values', () => {
+    const { provenance, decisionMaker } = reconcileContact(contact, now);
+    expect(decisionMaker).toMatchObject({ firstName: 'John', lastName: 'A. Smith', title: 'Physician', email: 'john@clinic.com', emailVerificationStatus: 'valid' });
+    expect(provenance!.name).toMatchObject({ winner: 'Dr. John A. Smith', reason: 'NPI outranks Website scrape' });
+    expect(provenance!.email).toMatchObject({ winner: 'john@clinic.com', reason: 'Verified email beats unverified' });
+    expect(provenance!.email!.observations.map(o => o.value)).not.toContain('bo@clinic.com');
+
+    // Reconciling again changes nothing
+    const again = reconcileContact({ ...contact, decisionMaker, provenance }, now);
+    expect(again.decisionMaker).toBe(decisionMaker);
+    expect(again.provenance!.email!.observations).toHaveLength(2);
+  });
+
+  it('lets a pinned value win until it is unpinned, and drops observations when the person changes', () => {
+    const first = reconcileContact(contact, now);
+    const pinned = { ...contact, ...first, provenance: { ...first.provenance, email: pinValue(first.provenance!.email, 'jsmith@clinic.com', now) } };
+    const patch = reconcileContactUpdates(pinned, { provenance: pinned.provenance }, now);
+    expect(patch.decisionMaker!.email).toBe('jsmith@clinic.com');
+    expect(patch.provenance!.email).toMatchObject({ winner: 'jsmith@clinic.com', reason: 'Pinned' });
+
+    const replaced = reconcileContactUpdates({ ...pinned, ...patch }, {
+      decisionMaker: { ...contact.decisionMaker, id: 'dm2', firstName: 'Bo', lastName: 'Li', email: 'bo@clinic.com', source: 'apollo', confidence: 90 },
+    }, now);
+    expect(replaced.provenance!.email).toMatchObject({ winner: 'bo@clinic.com', reason: 'Only value' });
+    expect(replaced.provenance!.email!.pinned).toBeUndefined();
+  });
+
+  it('resolves clinic email and website against Google verification', () => {
+    const clinic = {
+      id: 'cl1', email: 'office@clinic.com', website: 'http://old-clinic.com',
+      googleVerifyConfirmedEmail: 'frontdesk@clinic.com', googleVerifyFoundEmails: ['office@clinic.com', 'spam@wix.com'],
+      googleVerifyOfficialWebsite: 'https://www.clinic.com/', googleVerifyCheckedAt: '2026-05-02T00:00:00Z',
+    } as any;
+    const r = reconcileClinic(clinic, now);
+    expect(r).toMatchObject({ email: 'frontdesk@clinic.com', website: 'https://www.clinic.com/' });
+    expect(r.provenance!.website!.reason).toBe('Google verify outranks Import');
+    expect(reconcileClinic({ ...clinic, googleVerifyConfirmedEmail: undefined, googleVerifyOfficialWebsite: 'clinic.com' }, now).email).toBe('office@clinic.com');
+  });
+});
@@ -0,0 +1,366 @@
+import type {
+  Clinic,
+  ClinicProvenanceField,
+  ContactProvenanceField,
+  CRMContact,
+  DecisionMaker,
+  FieldHistory,
+  FieldObservation,
+  FieldProvenance,
+  ProvenanceSource,
+} from '../types';
+
+/**
+ * Field-level provenance for enriched clinic and contact data.
+ *
+ * Every value a source reports for a field is kept as an observation (source,
+ * first-seen time, confidence and, for emails, verification status). The
+ * field's value is then chosen by fixed rules, first difference wins:
+ *
+ *   1. a value pinned by a user
+ *   2. emails: valid > unverified > risky > invalid
+ *   3. source priority for the kind of field (NPI beats scraped for names)
+ *   4. higher confidence
+ *   5. more recently observed
+ *   6. alphabetical, so ties resolve the same way on every machine
+ *
+ * Contact fields describe the contact's current decision maker; observations
+ * about anyone else are dropped when the decision maker changes. The store
+ * runs reconcileContactUpdates / reconcileClinic on every write that touches
+ * these fields and writes the winners back onto the contact and clinic.
+ */
+
+type FieldKind = 'name' | 'title' | 'email' | 'phone' | 'website';
+
+const CONTACT_FIELDS: ContactProvenanceField[] = ['name', 'title', 'email', 'phone'];
+const CLINIC_FIELDS: ClinicProvenanceField[] = ['email', 'website'];
+
+/** Highest priority first; sources not listed rank last */
+export const SOURCE_PRIORITY: Record<FieldKind, ProvenanceSource[]> = {
+  name: ['manual', 'npi', 'vapi_call', 'apollo', 'linkedin', 'clearbit', 'ai-engine', 'google_verify', 'website_scrape', 'import'],
+  title: ['manual', 'vapi_call', 'apollo', 'linkedin', 'clearbit', 'npi', 'ai-engine', 'website_scrape', 'google_verify', 'import'],
+  email: ['manual', 'vapi_call', 'google_verify', 'apollo', 'clearbit', 'linkedin', 'npi', 'ai-engine', 'import', 'website_scrape'],
+  phone: ['manual', 'vapi_call', 'npi', 'apollo', 'clearbit', 'linkedin', 'google_verify', 'ai-engine', 'import', 'website_scrape'],
+  website: ['manual', 'google_verify', 'npi', 'apollo', 'clearbit', 'linkedin', 'ai-engine', 'import', 'website_scrape'],
+};
+
+export const SOURCE_LABELS: Record<ProvenanceSource, string> = {
+  apollo: 'Apollo',
+  clearbit: 'Clearbit',
+  npi: 'NPI',
+  linkedin: 'LinkedIn',
+  manual: 'Manual',
+  website_scrape: 'Website scrape',
+  'ai-engine': 'AI Engine',
+  vapi_call: 'Call',
+  google_verify: 'Google verify',
+  import: 'Import',
+};
+
+const VERIFICATION_RANK: Record<NonNullable<FieldObservation['verification']>, number> = {
+  valid: 3, unknown: 2, risky: 1, invalid: 0,
+};
+
+const VERIFICATION_LABELS: Record<NonNullable<FieldObservation['verification']>, string> = {
+  valid: 'Verified', unknown: 'Unverified', risky: 'Risky', invalid: 'Invalid',
+};
+
+/** Observations kept per field, newest first */
+const MAX_OBSERVATIONS = 12;
+
+const KIND: Record<ContactProvenanceField | ClinicProvenanceField, FieldKind> = {
+  name: 'name', title: 'title', email: 'email', phone: 'phone', website: 'website',
+};
+
+export function normalizeValue(kind: FieldKind, value: string): string {
+  const v = value.trim().toLowerCase();
+  if (kind === 'phone') {
+    const d = v.replace(/\D/g, '');
+    return d.length === 11 && d.startsWith('1') ? d.slice(1) : d;
+  }
+  if (kind === 'website') return v.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+  return v.replace(/\s+/g, ' ');
+}
+
+/** "Dr. John A. Smith, MD" → "john smith" — the key observations about one person share */
+export function personKey(name: string): string {
+  const parts = name
+    .replace(/,.*$/, '')
+    .replace(/^(dr|mr|mrs|ms)\.?\s+/i, '')
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (parts.length <= 1) return parts.join('');
+  return `${parts[0]} ${parts[parts.length - 1]}`;
+}
+
+function sourceRank(kind: FieldKind, source: ProvenanceSource): number {
+  const i = SOURCE_PRIORITY[kind].indexOf(source);
+  return i === -1 ? SOURCE_PRIORITY[kind].length : i;
+}
+
+interface Rule {
+  /** Higher wins */
+  score: (kind: FieldKind, o: FieldObservation) => number;
+  reason: (winner: FieldObservation, other: FieldObservation) => string;
+}
+
+const RULES: Rule[] = [
+  {
+    score: (kind, o) => (kind === 'email' ? VERIFICATION_RANK[o.verification || 'unknown'] : 0),
+    reason: (w, o) => `${VERIFICATION_LABELS[w.verification || 'unknown']} email beats ${VERIFICATION_LABELS[o.verification || 'unknown'].toLowerCase()}`,
+  },
+  {
+    score: (kind, o) => -sourceRank(kind, o.source),
+    reason: (w, o) => `${SOURCE_LABELS[w.source]} outranks ${SOURCE_LABELS[o.source]}`,
+  },
+  {
+    score: (_kind, o) => o.confidence,
+    reason: (w, o) => `Higher confidence (${w.confidence} vs ${o.confidence})`,
+  },
+  {
+    score: (_kind, o) => Date.parse(o.observedAt) || 0,
+    reason: () => 'Most recently observed',
+  },
+];
+
+function compare(kind: FieldKind, a: FieldObservation, b: FieldObservation): number {
+  for (const rule of RULES) {
+    const diff = rule.score(kind, b) - rule.score(kind, a);
+    if (diff !== 0) return diff;
+  }
+  return normalizeValue(kind, a.value).localeCompare(normalizeValue(kind, b.value));
+}
+
+/** Best observation of each distinct value, best value first */
+export function rankValues(kind: FieldKind, observations: FieldObservation[]): FieldObservation[] {
+  const best = new Map<string, FieldObservation>();
+  for (const o of [...observations].sort((a, b) => compare(kind, a, b))) {
+    const key = normalizeValue(kind, o.value);
+    if (!best.has(key)) best.set(key, o);
+  }
+  return [...best.values()];
+}
+
+export function resolveField(kind: FieldKind, history: FieldHistory): { value?: string; reason?: string } {
+  const ranked = rankValues(kind, history.observations);
+  if (history.pinned) {
+    const pin = normalizeValue(kind, history.pinned.value);
+    const match = ranked.find(o => normalizeValue(kind, o.value) === pin);
+    return { value: match?.value ?? history.pinned.value, reason: 'Pinned' };
+  }
+  const [winner, other] = ranked;
+  if (!winner) return {};
+  if (!other) return { value: winner.value, reason: 'Only value' };
+  const rule = RULES.find(r => r.score(kind, winner) !== r.score(kind, other));
+  return { value: winner.value, reason: rule ? rule.reason(winner, other) : 'Alphabetical tie-break' };
+}
+
+const obsKey = (kind: FieldKind, o: FieldObservation) => `${o.source}|${normalizeValue(kind, o.value)}|${o.person || ''}`;
+
+/**
+ * Fold new observations into a field's history. A source re-reporting a value
+ * updates its confidence but keeps the first-seen time; a definite
+ * verification result (valid / risky / invalid) applies to the address
+ * whichever source reported it.
+ */
+export function addObservations(kind: FieldKind, history: FieldHistory | undefined, incoming: FieldObservation[]): FieldHistory {
+  const byKey = new Map((history?.observations || []).map(o => [obsKey(kind, o), o]));
+  for (const o of incoming) {
+    const key = obsKey(kind, o);
+    const existing = byKey.get(key);
+    byKey.set(key, existing
+      ? { ...existing, confidence: o.confidence, verification: o.verification && o.verification !== 'unknown' ? o.verification : existing.verification }
+      : o);
+  }
+  let observations = [...byKey.values()];
+  if (kind === 'email') {
+    for (const o of incoming) {
+      if (!o.verification || o.verification === 'unknown') continue;
+      const addr = normalizeValue(kind, o.value);
+      observations = observations.map(x => (normalizeValue(kind, x.value) === addr ? { ...x, verification: o.verification } : x));
+    }
+  }
+  observations.sort((a, b) => b.observedAt.localeCompare(a.observedAt));
+  return { ...history, observations: observations.slice(0, MAX_OBSERVATIONS) };
+}
+
+/** Pin `value` as the field's value, or clear the pin with null */
+export function pinValue(history: FieldHistory | undefined, value: string | null, now = new Date()): FieldHistory {
+  const next: FieldHistory = { ...history, observations: history?.observations || [] };
+  if (value === null) delete next.pinned;
+  else next.pinned = { value, pinnedAt: now.toISOString() };
+  return next;
+}
+
+function withResolution(kind: FieldKind, history: FieldHistory): FieldHistory {
+  const { value, reason } = resolveField(kind, history);
+  return { ...history, winner: value, reason };
+}
+
+const iso = (d?: Date | string) => (d ? new Date(d).toISOString() : undefined);
+
+const KNOWN_SOURCES = new Set(Object.keys(SOURCE_LABELS));
+const toSource = (s?: string): ProvenanceSource => (s && KNOWN_SOURCES.has(s) ? (s as ProvenanceSource) : 'import');
+
+type Collected<F extends string> = Record<F, FieldObservation[]>;
+
+/**
+ * Report the entity's current value. It may have been written by an earlier
+ * reconcile from another source, so a value already on record is credited to
+ * that source rather than re-attributed to the entity's own `source`.
+ */
+function reportCurrent<F extends string>(
+  out: Collected<F>,
+  prev: FieldProvenance<F>,
+  field: F,
+  kind: FieldKind,
+  obs: FieldObservation,
+) {
+  if (!obs.value.trim()) return;
+  const norm = normalizeValue(kind, obs.value);
+  const known = prev[field]?.observations.find(o => normalizeValue(kind, o.value) === norm && (o.person || '') === (obs.person || ''));
+  out[field].push(known ? { ...known, verification: obs.verification ?? known.verification } : obs);
+}
+
+function report<F extends string>(out: Collected<F>, field: F, obs: FieldObservation) {
+  if (obs.value.trim()) out[field].push({ ...obs, value: obs.value.trim() });
+}
+
+function reconcileFields<F extends ContactProvenanceField | ClinicProvenanceField>(
+  fields: F[],
+  prev: FieldProvenance<F>,
+  collected: Collected<F>,
+  keep: (o: FieldObservation) => boolean,
+): FieldProvenance<F> {
+  const provenance: FieldProvenance<F> = {};
+  for (const field of fields) {
+    const kind = KIND[field];
+    const before = prev[field];
+    const kept: FieldHistory | undefined = before && { ...before, observations: before.observations.filter(keep) };
+    if (kept?.pinned && !kept.observations.some(o => normalizeValue(kind, o.value) === normalizeValue(kind, kept.pinned!.value))) {
+      delete kept.pinned;
+    }
+    if (!kept?.observations.length && !collected[field].length) continue;
+    provenance[field] = withResolution(kind, addObservations(kind, kept, collected[field]));
+  }
+  return provenance;
+}
+
+function splitName(full: string): { firstName: string; lastName: string } {
+  const parts = full.replace(/^(dr|mr|mrs|ms)\.?\s+/i, '').trim().split(/\s+/);
+  return { firstName: parts[0] || full, lastName: parts.slice(1).join(' ') };
+}
+
+/**
+ * Record what the decision maker, the clinic's enriched contacts and the last
+ * call say about the contact's decision maker, resolve each field, and return
+ * the provenance plus the decision maker with the winning values applied.
+ */
+export function reconcileContact(contact: CRMContact, now = new Date()): Pick<CRMContact, 'provenance' | 'decisionMaker'> {
+  const dm = contact.decisionMaker;
+  if (!dm) return {};
+  const fullName = `${dm.firstName} ${dm.lastName}`.trim();
+  const person = personKey(fullName);
+  const prev = contact.provenance || {};
+  const at = iso(dm.enrichedAt) || now.toISOString();
+  const out: Collected<ContactProvenanceField> = { name: [], title: [], email: [], phone: [] };
+  const base = { source: dm.source, confidence: dm.confidence, observedAt: at, person };
+
+  reportCurrent(out, prev, 'name', 'name', { ...base, value: fullName });
+  reportCurrent(out, prev, 'title', 'title', { ...base, value: dm.title || '' });
+  reportCurrent(out, prev, 'email', 'email', { ...base, value: dm.email || '', verification: dm.emailVerificationStatus });
+  reportCurrent(out, prev, 'phone', 'phone', { ...base, value: dm.phone || '' });
+
+  for (const ec of contact.clinic.enrichedContacts || []) {
+    if (personKey(ec.name) !== person) continue;
+    const obs = { source: toSource(ec.source), confidence: ec.confidence, observedAt: iso(ec.enrichedAt) || at, person };
+    report(out, 'name', { ...obs, value: ec.name });
+    report(out, 'title', { ...obs, value: ec.title || '' });
+    report(out, 'email', { ...obs, value: ec.email || '', verification: ec.emailVerificationStatus });
+    report(out, 'phone', { ...obs, value: ec.phone || '' });
+  }
+
+  const ci = contact.callInsights;
+  const callPerson = ci?.decisionMakerName ? personKey(ci.decisionMakerName) : ci?.reachedDecisionMaker ? person : undefined;
+  if (ci && callPerson === person) {
+    const obs = { source: 'vapi_call' as const, confidence: ci.reachedDecisionMaker ? 80 : 60, observedAt: ci.extractedAt, person };
+    report(out, 'name', { ...obs, value: ci.decisionMakerName || '' });
+    report(out, 'title', { ...obs, value: ci.decisionMakerTitle || '' });
+    report(out, 'email', { ...obs, value: ci.emailCaptured || '' });
+    report(out, 'phone', { ...obs, value: ci.directLine || '' });
+  }
+
+  const provenance = reconcileFields(CONTACT_FIELDS, prev, out, o => o.person === person);
+
+  const next: DecisionMaker = { ...dm };
+  let changed = false;
+  const differs = (kind: FieldKind, a: string | undefined, b: string | undefined) =>
+    !!b && normalizeValue(kind, a || '') !== normalizeValue(kind, b);
+
+  const name = provenance.name?.winner && splitName(provenance.name.winner);
+  if (name && differs('name', fullName, `${name.firstName} ${name.lastName}`)) { Object.assign(next, name); changed = true; }
+  const title = provenance.title?.winner;
+  if (differs('title', dm.title, title)) { next.title = title!; changed = true; }
+  const email = provenance.email?.winner;
+  if (differs('email', dm.email, email)) {
+    const status = provenance.email!.observations.find(o => normalizeValue('email', o.value) === normalizeValue('email', email!))?.verification || 'unknown';
+    next.email = email;
+    next.emailVerificationStatus = status;
+    next.emailVerified = status !== 'unknown';
+    changed = true;
+  }
+  const phone = provenance.phone?.winner;
+  if (differs('phone', dm.phone, phone)) { next.phone = phone; changed = true; }
+
+  return { provenance, decisionMaker: changed ? next : dm };
+}
+
+/**
+ * Record the clinic's own email / website against what Google verification
+ * found, resolve both, and return the provenance plus any corrected values.
+ */
+export function reconcileClinic(clinic: Clinic, now = new Date()): Pick<Clinic, 'provenance' | 'email' | 'website'> {
+  const prev = clinic.provenance || {};
+  const out: Collected<ClinicProvenanceField> = { email: [], website: [] };
+  const observedAt = now.toISOString();
+  const verifiedAt = clinic.googleVerifyCheckedAt ? iso(clinic.googleVerifyCheckedAt)! : observedAt;
+
+  reportCurrent(out, prev, 'email', 'email', { value: clinic.email || '', source: 'import', confidence: 50, observedAt });
+  reportCurrent(out, prev, 'website', 'website', { value: clinic.website || '', source: 'import', confidence: 50, observedAt });
+  report(out, 'email', { value: clinic.googleVerifyConfirmedEmail || '', source: 'google_verify', confidence: 80, observedAt: verifiedAt });
+  for (const found of clinic.googleVerifyFoundEmails || []) {
+    report(out, 'email', { value: found, source: 'website_scrape', confidence: 40, observedAt: verifiedAt });
+  }
+  report(out, 'website', { value: clinic.googleVerifyOfficialWebsite || '', source: 'google_verify', confidence: 80, observedAt: verifiedAt });
+
+  const provenance = reconcileFields(CLINIC_FIELDS, prev, out, () => true);
+  const email = provenance.email?.winner;
+  const website = provenance.website?.winner;
+  return {
+    provenance,
+    email: email && normalizeValue('email', email) !== normalizeValue('email', clinic.email || '') ? email : clinic.email,
+    website: website && normalizeValue('website', website) !== normalizeValue('website', clinic.website || '') ? website : clinic.website,
+  };
+}
+
+/** Fields that feed provenance — writes touching any of them are reconciled */
+const PROVENANCE_INPUTS: (keyof CRMContact)[] = ['decisionMaker', 'clinic', 'callInsights', 'provenance'];
+
+/**
+ * Reconcile a pending `updateContact` patch against the stored contact.
+ * Returns the patch with the reconciled decision maker, clinic and provenance
+ * folded in, or the patch unchanged when it touches none of their inputs.
+ */
+export function reconcileContactUpdates(current: CRMContact, updates: Partial<CRMContact>, now = new Date()): Partial<CRMContact> {
+  if (!PROVENANCE_INPUTS.some(k => k in updates)) return updates;
+  const patch: Partial<CRMContact> = { ...updates };
+  if (updates.clinic) patch.clinic = { ...updates.clinic, ...reconcileClinic(updates.clinic, now) };
+  const merged: CRMContact = { ...current, ...patch };
+  if (!merged.decisionMaker) return patch;
+  const { provenance, decisionMaker } = reconcileContact(merged, now);
+  patch.provenance = provenance;
+  if (decisionMaker !== merged.decisionMaker || 'decisionMaker' in updates) patch.decisionMaker = decisionMaker;
+  return patch;
+}
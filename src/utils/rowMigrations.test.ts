@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { ROW_MIGRATIONS } from './rowMigrations';
+import { assertMigrationOrder, columnsFrom, missingRowMigration, upgradeRow } from './schemaMigrations';
+
+/** Rows as databases that predate each migration return them */
+const OLD_ROWS: Record<string, Record<string, any>> = {
+  clinics: { id: 'c1', name: 'Austin Mens Health', market_id: 'market-0' },
+  campaigns: { id: 'k1', name: 'Q3 push', status: 'active', stats: { totalCalls: 4 } },
+  sent_emails: { id: 'e1', contact_id: 'ct1', to_email: 'dr@clinic.com', last_event: 'sent' },
+};
+
+describe('rowMigrations', () => {
+  it('numbers each table after the SQL migrations that changed it', () => {
+    expect(() => assertMigrationOrder(ROW_MIGRATIONS)).not.toThrow();
+    for (const m of ROW_MIGRATIONS) expect(m.columns.length).toBeGreaterThan(0);
+  });
+
+  it('fills rows written before 007, 010 and 019', () => {
+    expect(upgradeRow('clinics', OLD_ROWS.clinics, ROW_MIGRATIONS).row.verification_status).toBe('Ready');
+    expect(upgradeRow('sent_emails', OLD_ROWS.sent_emails, ROW_MIGRATIONS).row.provider).toBe('resend');
+
+    const campaign = upgradeRow('campaigns', OLD_ROWS.campaigns, ROW_MIGRATIONS);
+    expect(campaign.row).toMatchObject({ target_markets: [], target_keywords: [], clinic_types: [], stats: { totalCalls: 4 } });
+    expect(campaign.applied.map(m => m.name)).toEqual(['campaign_attribution']);
+
+    // Current rows pass through untouched
+    const current = { ...OLD_ROWS.sent_emails, provider: 'smtp' };
+    expect(upgradeRow('sent_emails', current, ROW_MIGRATIONS)).toEqual({ row: current, applied: [] });
+  });
+
+  it('leaves out the columns of a migration the database reports missing, and everything after it', () => {
+    const missing = missingRowMigration('clinics', "Could not find the 'timezone' column of 'clinics' in the schema cache", ROW_MIGRATIONS);
+    expect(missing?.name).toBe('calling_windows');
+    expect(columnsFrom('clinics', missing!.version, ROW_MIGRATIONS))
+      .toEqual(['timezone', 'calling_window', 'marketing_agency', 'monthly_ad_spend', 'field_provenance']);
+
+    const bounce = missingRowMigration('sent_emails', "Could not find the 'bounce_retry_at' column of 'sent_emails' in the schema cache", ROW_MIGRATIONS);
+    expect(columnsFrom('sent_emails', bounce!.version, ROW_MIGRATIONS)).toEqual(['bounce_type', 'bounce_reason', 'bounce_retry_at']);
+    expect(missingRowMigration('decision_makers', "Could not find the 'email_verification_status' column", ROW_MIGRATIONS)).toBeNull();
+    expect(missingRowMigration('decision_makers', "Could not find the 'email_verification_status' column of 'decision_makers' in the schema cache", ROW_MIGRATIONS)?.version).toBe(5);
+  });
+});
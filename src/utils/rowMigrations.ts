@@ -0,0 +1,78 @@
+import type { RowMigration } from './schemaMigrations';
+
+/**
+ * What each supabase/migrations file changed for the tables the row mappers
+ * in supabaseSync read and write. Add an entry with every SQL migration that
+ * adds a mapped column: its columns are left out of writes until the database
+ * has them, and `up` fills rows written before it.
+ */
+export const ROW_MIGRATIONS: RowMigration[] = [
+  {
+    version: 5, name: 'add_enriched_contacts', table: 'decision_makers',
+    columns: ['email_verified', 'email_verification_status'],
+  },
+  {
+    version: 7, name: 'verification_workflow', table: 'clinics',
+    columns: ['verification_status'],
+    up: row => ({ ...row, verification_status: 'Ready' }),
+  },
+  {
+    version: 9, name: 'google_verify_fields', table: 'clinics',
+    columns: ['google_verify_status', 'google_verify_official_website', 'google_verify_confirmed_email', 'google_verify_found_emails', 'google_verify_checked_at'],
+  },
+  {
+    version: 10, name: 'outreach_replies_and_provider', table: 'sent_emails',
+    columns: ['provider'],
+    // Every send went through Resend before providers were recorded
+    up: row => ({ ...row, provider: 'resend' }),
+  },
+  {
+    version: 11, name: 'sequences', table: 'sent_emails',
+    columns: ['sequence_enrollment_id', 'sequence_step_id'],
+  },
+  {
+    version: 15, name: 'calling_windows', table: 'clinics',
+    columns: ['timezone', 'calling_window'],
+  },
+  {
+    version: 15, name: 'calling_windows', table: 'campaigns',
+    columns: ['calling_window'],
+  },
+  {
+    version: 17, name: 'call_insights', table: 'clinics',
+    columns: ['marketing_agency', 'monthly_ad_spend'],
+  },
+  {
+    version: 17, name: 'call_insights', table: 'contacts',
+    columns: ['call_insights'],
+  },
+  {
+    version: 19, name: 'campaign_attribution', table: 'campaigns',
+    columns: ['target_markets', 'target_keywords', 'score_range', 'clinic_types', 'sequence_id'],
+    up: row => ({
+      ...row,
+      target_markets: row.target_markets ?? [],
+      target_keywords: row.target_keywords ?? [],
+      clinic_types: row.clinic_types ?? [],
+    }),
+  },
+  { version: 19, name: 'campaign_attribution', table: 'contacts', columns: ['campaign_id'] },
+  { version: 19, name: 'campaign_attribution', table: 'activities', columns: ['campaign_id'] },
+  { version: 19, name: 'campaign_attribution', table: 'voice_calls', columns: ['campaign_id'] },
+  { version: 19, name: 'campaign_attribution', table: 'sent_emails', columns: ['campaign_id'] },
+  {
+    version: 21, name: 'email_experiments', table: 'sent_emails',
+    columns: ['experiment_id', 'variant_id'],
+  },
+  { version: 22, name: 'sender_pool', table: 'sent_emails', columns: ['mailbox_id'] },
+  {
+    version: 24, name: 'email_threading', table: 'sent_emails',
+    columns: ['message_id', 'in_reply_to'],
+  },
+  {
+    version: 25, name: 'bounce_feedback', table: 'sent_emails',
+    columns: ['bounce_type', 'bounce_reason', 'bounce_retry_at'],
+  },
+  { version: 27, name: 'field_provenance', table: 'clinics', columns: ['field_provenance'] },
+  { version: 27, name: 'field_provenance', table: 'contacts', columns: ['field_provenance'] },
+];
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { RowMigration, assertMigrationOrder, columnsFrom, missingRowMigration, runMigrations, upgradeRow } from './schemaMigrations';
+
+const rows: RowMigration[] = [
+  { version: 7, name: 'status', table: 'clinics', columns: ['status'], up: r => ({ ...r, status: 'Ready' }) },
+  { version: 15, name: 'windows', table: 'clinics', columns: ['timezone', 'calling_window'] },
+  { version: 15, name: 'windows', table: 'campaigns', columns: ['calling_window'] },
+];
+
+describe('schemaMigrations', () => {
+  it('runs the migrations newer than the saved version, in order', () => {
+    const migrations = [
+      { version: 2, name: 'b', up: (s: string[]) => [...s, 'b'] },
+      { version: 1, name: 'a', up: (s: string[]) => [...s, 'a'] },
+      { version: 3, name: 'c', up: (s: string[]) => [...s, 'c'] },
+    ];
+    expect(runMigrations([], 0, migrations)).toMatchObject({ value: ['a', 'b', 'c'], version: 3 });
+    const partial = runMigrations(['a'], 1, migrations);
+    expect(partial.value).toEqual(['a', 'b', 'c']);
+    expect(partial.applied.map(m => m.name)).toEqual(['b', 'c']);
+    expect(runMigrations(['x'], 3, migrations)).toEqual({ value: ['x'], version: 3, applied: [] });
+  });
+
+  it('rejects versions that repeat or go backwards within a scope', () => {
+    expect(() => assertMigrationOrder(rows)).not.toThrow();
+    expect(() => assertMigrationOrder([{ version: 1, name: 'a' }, { version: 1, name: 'b' }])).toThrow(/expected more than 1/);
+    expect(() => assertMigrationOrder([...rows, { version: 9, name: 'late', table: 'clinics' }])).toThrow(/for clinics/);
+  });
+
+  it('upgrades rows that predate a migration and finds the one a write error points at', () => {
+    expect(upgradeRow('clinics', { id: 'c1' }, rows)).toEqual({ row: { id: 'c1', status: 'Ready' }, applied: [rows[0]] });
+    expect(upgradeRow('clinics', { id: 'c1', status: 'Queued' }, rows).applied).toEqual([]);
+
+    expect(columnsFrom('clinics', 7, rows)).toEqual(['status', 'timezone', 'calling_window']);
+    expect(columnsFrom('clinics', 15, rows)).toEqual(['timezone', 'calling_window']);
+
+    const error = "Could not find the 'calling_window' column of 'campaigns' in the schema cache";
+    expect(missingRowMigration('campaigns', error, rows)).toBe(rows[2]);
+    expect(missingRowMigration('clinics', 'duplicate key value violates unique constraint', rows)).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Numbered schema migrations for data the app reads back in an older shape.
+ *
+ * Two kinds share the runner's numbering rules:
+ *  - Store migrations upgrade the persisted client state one version at a
+ *    time (zustand persist `version` / `migrate`).
+ *  - Row migrations describe what each supabase/migrations file changed for a
+ *    table. Reads fill what older rows lack; writes leave out the columns a
+ *    database that hasn't run the migration yet doesn't have.
+ *
+ * Every migration that ran is reported once at startup.
+ */
+
+export interface Migration<T = any> {
+  version: number;
+  name: string;
+  up: (value: T) => T;
+}
+
+export interface RowMigration {
+  /** Number of the supabase/migrations file that made the change */
+  version: number;
+  name: string;
+  table: string;
+  /** Columns the migration added — rows without them predate it */
+  columns: string[];
+  /** Fill a row written before the migration */
+  up?: (row: Record<string, any>) => Record<string, any>;
+}
+
+export interface MigrationReportEntry {
+  scope: 'store' | 'rows';
+  version: number;
+  name: string;
+  /** Table for row migrations */
+  table?: string;
+  detail: string;
+}
+
+/** Throws when versions aren't strictly increasing (per table for row migrations) */
+export function assertMigrationOrder(migrations: { version: number; name: string; table?: string }[]): void {
+  const last = new Map<string, number>();
+  for (const m of migrations) {
+    const key = m.table || '';
+    const prev = last.get(key) ?? 0;
+    if (!Number.isInteger(m.version) || m.version <= prev) {
+      throw new Error(`Migration ${m.name} has version ${m.version}, expected more than ${prev}${m.table ? ` for ${m.table}` : ''}`);
+    }
+    last.set(key, m.version);
+  }
+}
+
+export const latestVersion = (migrations: { version: number }[]) =>
+  migrations.reduce((max, m) => Math.max(max, m.version), 0);
+
+/** Run every migration newer than `from`, in order */
+export function runMigrations<T>(value: T, from: number, migrations: Migration<T>[]): { value: T; version: number; applied: Migration<T>[] } {
+  const applied: Migration<T>[] = [];
+  let current = value;
+  for (const m of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (m.version <= from) continue;
+    current = m.up(current);
+    applied.push(m);
+  }
+  return { value: current, version: Math.max(from, latestVersion(migrations)), applied };
+}
+
+/** Bring a row read from Supabase up to the shape the mappers expect; returns the migrations that applied */
+export function upgradeRow(
+  table: string,
+  row: Record<string, any>,
+  migrations: RowMigration[],
+): { row: Record<string, any>; applied: RowMigration[] } {
+  const applied: RowMigration[] = [];
+  let current = row;
+  for (const m of migrations) {
+    if (m.table !== table || !m.up || m.columns.every(c => c in current)) continue;
+    current = m.up(current);
+    applied.push(m);
+  }
+  return { row: current, applied };
+}
+
+/** Columns added by `table`'s migrations from `version` on */
+export function columnsFrom(table: string, version: number, migrations: RowMigration[]): string[] {
+  return migrations.filter(m => m.table === table && m.version >= version).flatMap(m => m.columns);
+}
+
+/**
+ * The migration a write error shows the database hasn't run yet — PostgREST
+ * reports an unknown column as "Could not find the 'x' column of 't' in the
+ * schema cache".
+ */
+export function missingRowMigration(table: string, message: string | null | undefined, migrations: RowMigration[]): RowMigration | null {
+  const text = (message || '').toLowerCase();
+  if (!text.includes('schema cache')) return null;
+  const candidates = migrations.filter(m => m.table === table);
+  return candidates.find(m => m.columns.some(c => text.includes(`'${c}'`)))
+    || candidates.find(m => m.columns.some(c => text.includes(c)))
+    || null;
+}
+
+export function formatMigrationReport(entries: MigrationReportEntry[]): string[] {
+  return entries.map(e => `${e.scope === 'store' ? 'store' : e.table} ${String(e.version).padStart(3, '0')}_${e.name}: ${e.detail}`);
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { buildSendTimeModel, planSendTime } from './sendTime';
+
+function contact(id: string, role?: string) {
+  return {
+    id,
+    clinic: {
+      id: `clinic-${id}`, name: `Clinic ${id}`,
+      address: { street: '', city: 'Austin', state: 'TX', zip: '' },
+      marketZone: { id: 'austin', city: 'Austin', state: 'TX' },
+    },
+    decisionMaker: role ? { role } : undefined,
+  } as any;
+}
+
+function opened(contactId: string, at: string, lastEvent = 'opened') {
+  return { id: `${contactId}-${at}`, contactId, market: 'Austin, TX', lastEvent, lastEventAt: new Date(at), sentAt: new Date(at) } as any;
+}
+
+// Tue 2026-03-10 15:00 CDT
+const NOW = new Date('2026-03-10T20:00:00Z');
+
+describe('sendTime', () => {
+  it('holds for the default local hour on the next business day without history', () => {
+    const plan = planSendTime(buildSendTimeModel([], []), contact('a'), NOW);
+    expect(plan).toMatchObject({ basis: 'default', localHour: 9, timeZone: 'America/Chicago', sample: 0 });
+    expect(plan.at.toISOString()).toBe('2026-03-11T14:00:00.000Z');
+  });
+
+  it("prefers the recipient's own opens, then role in market, then market", () => {
+    const market = Array.from({ length: 10 }, (_, i) => contact(`m${i}`, 'owner'));
+    const a = contact('a', 'owner');
+    const b = contact('b', 'owner');
+    const c = contact('c', 'clinic_manager');
+    // Opens from the week before DST: a around 2pm CST, the owners at 8am CST
+    const emails = [
+      opened('a', '2026-03-02T20:10:00Z'), opened('a', '2026-03-03T20:40:00Z'), opened('a', '2026-03-04T20:05:00Z', 'clicked'),
+      ...market.map((m, i) => opened(m.id, `2026-03-0${2 + (i % 5)}T14:15:00Z`)),
+      { ...opened('b', '2026-03-04T13:00:00Z'), lastEvent: 'delivered' },
+    ];
+    const model = buildSendTimeModel(emails, [...market, a, b, c]);
+
+    const forA = planSendTime(model, a, NOW);
+    expect(forA).toMatchObject({ basis: 'recipient', localHour: 14, sample: 3 });
+    expect(forA.at.toISOString()).toBe('2026-03-11T19:00:00.000Z');
+    expect(planSendTime(model, b, NOW)).toMatchObject({ basis: 'role_market', localHour: 8 });
+    expect(planSendTime(model, c, NOW)).toMatchObject({ basis: 'market', localHour: 8 });
+  });
+
+  it('waits for a preferred weekday, skipping holidays, and sends now inside the chosen hour', () => {
+    const market = Array.from({ length: 10 }, (_, i) => contact(`m${i}`));
+    // Every open on a Thursday at 10am CST
+    const model = buildSendTimeModel(market.map(m => opened(m.id, '2026-11-19T16:20:00Z')), market);
+    const target = contact('t');
+
+    // Mon 2026-11-23 → Thanksgiving (Thu 26th) skipped → Thu Dec 3 10:00 CST
+    expect(planSendTime(model, target, new Date('2026-11-23T15:00:00Z')).at.toISOString()).toBe('2026-12-03T16:00:00.000Z');
+    const inside = new Date('2026-12-03T16:25:00Z');
+    expect(planSendTime(model, target, inside).at).toBe(inside);
+  });
+});
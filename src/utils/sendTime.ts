@@ -0,0 +1,163 @@
+import type { CRMContact, DecisionMakerRole } from '../types';
+import type { SentEmail } from '../services/resendService';
+import { getFederalHoliday, getLocalParts, resolveClinicTimezone, zonedTimeToUtc } from './callingWindows';
+
+/**
+ * Send-time optimization.
+ *
+ * Opens and clicks (SentEmail.lastEvent + lastEventAt) are bucketed by the
+ * recipient clinic's local weekday and hour. A message is held for the best
+ * local hour of the most specific history with enough opens: the recipient
+ * itself, then role within the market, the market, the role, and finally
+ * DEFAULT_SEND_HOUR. Sends only land on business days, never on US federal
+ * holidays.
+ */
+
+export type SendTimeBasis = 'recipient' | 'role_market' | 'market' | 'role' | 'default';
+
+export interface OpenHistogram {
+  opens: number;
+  /** Opens per local hour 0-23 */
+  hours: number[];
+  /** Opens per local weekday, 0 = Sunday */
+  days: number[];
+}
+
+export interface SendTimeModel {
+  histograms: Map<string, OpenHistogram>;
+}
+
+export interface SendTimePlan {
+  at: Date;
+  timeZone: string;
+  localHour: number;
+  basis: SendTimeBasis;
+  /** Opens behind the chosen hour (0 for the default) */
+  sample: number;
+}
+
+export const SEND_DAYS = [1, 2, 3, 4, 5];
+export const SEND_HOURS = { start: 7, end: 19 };
+export const DEFAULT_SEND_HOUR = 9;
+/** Opens needed before a history is trusted over the next broader one */
+export const MIN_RECIPIENT_OPENS = 3;
+export const MIN_GROUP_OPENS = 10;
+/** How far ahead the planner looks for a preferred business day */
+const MAX_HOLD_DAYS = 10;
+
+export const SEND_TIME_BASIS_LABELS: Record<SendTimeBasis, string> = {
+  recipient: "recipient's opens",
+  role_market: 'role in market',
+  market: 'market',
+  role: 'role',
+  default: 'default window',
+};
+
+export function marketLabelOf(contact: Pick<CRMContact, 'clinic'>): string {
+  return `${contact.clinic.marketZone.city}, ${contact.clinic.marketZone.state}`;
+}
+
+const recipientKey = (contactId: string) => `contact:${contactId}`;
+const marketKey = (market: string) => `market:${market.toLowerCase()}`;
+const roleKey = (role: DecisionMakerRole) => `role:${role}`;
+const roleMarketKey = (role: DecisionMakerRole, market: string) => `${roleKey(role)}|${marketKey(market)}`;
+
+function emptyHistogram(): OpenHistogram {
+  return { opens: 0, hours: new Array(24).fill(0), days: new Array(7).fill(0) };
+}
+
+export function buildSendTimeModel(sentEmails: SentEmail[], contacts: CRMContact[]): SendTimeModel {
+  const contactById = new Map(contacts.map(c => [c.id, c]));
+  const histograms = new Map<string, OpenHistogram>();
+  const add = (key: string, weekday: number, hour: number) => {
+    const h = histograms.get(key) || emptyHistogram();
+    h.opens++;
+    h.hours[hour]++;
+    h.days[weekday]++;
+    histograms.set(key, h);
+  };
+
+  for (const e of sentEmails) {
+    if (e.lastEvent !== 'opened' && e.lastEvent !== 'clicked') continue;
+    const contact = contactById.get(e.contactId);
+    const at = new Date(e.lastEventAt);
+    if (!contact || isNaN(at.getTime())) continue;
+    const { weekday, hour } = getLocalParts(at, resolveClinicTimezone(contact.clinic));
+    const market = e.market || marketLabelOf(contact);
+    const role = contact.decisionMaker?.role;
+    add(recipientKey(contact.id), weekday, hour);
+    add(marketKey(market), weekday, hour);
+    if (role) {
+      add(roleKey(role), weekday, hour);
+      add(roleMarketKey(role, market), weekday, hour);
+    }
+  }
+  return { histograms };
+}
+
+/** Most specific history with enough opens inside sending hours */
+function pickHistory(model: SendTimeModel, contact: CRMContact): { basis: SendTimeBasis; histogram: OpenHistogram } | null {
+  const market = marketLabelOf(contact);
+  const role = contact.decisionMaker?.role;
+  const candidates: [SendTimeBasis, string | null, number][] = [
+    ['recipient', recipientKey(contact.id), MIN_RECIPIENT_OPENS],
+    ['role_market', role ? roleMarketKey(role, market) : null, MIN_GROUP_OPENS],
+    ['market', marketKey(market), MIN_GROUP_OPENS],
+    ['role', role ? roleKey(role) : null, MIN_GROUP_OPENS],
+  ];
+  for (const [basis, key, min] of candidates) {
+    const histogram = key ? model.histograms.get(key) : undefined;
+    if (histogram && opensInSendHours(histogram) >= min) return { basis, histogram };
+  }
+  return null;
+}
+
+function opensInSendHours(h: OpenHistogram): number {
+  let n = 0;
+  for (let hour = SEND_HOURS.start; hour < SEND_HOURS.end; hour++) n += h.hours[hour];
+  return n;
+}
+
+/** Busiest hour inside sending hours; ties go to the earlier hour */
+function bestHour(h: OpenHistogram): number {
+  let best = SEND_HOURS.start;
+  for (let hour = SEND_HOURS.start; hour < SEND_HOURS.end; hour++) {
+    if (h.hours[hour] > h.hours[best]) best = hour;
+  }
+  return best;
+}
+
+/** Business days with at least half the opens of the busiest one */
+function preferredDays(h: OpenHistogram | null): number[] {
+  if (!h) return SEND_DAYS;
+  const max = Math.max(...SEND_DAYS.map(d => h.days[d]));
+  if (max === 0) return SEND_DAYS;
+  return SEND_DAYS.filter(d => h.days[d] >= max / 2);
+}
+
+/**
+ * When to send to `contact`: `now` if it is already the chosen hour on a
+ * preferred day, otherwise the next such hour in the clinic's timezone.
+ */
+export function planSendTime(model: SendTimeModel, contact: CRMContact, now = new Date()): SendTimePlan {
+  const timeZone = resolveClinicTimezone(contact.clinic);
+  const history = pickHistory(model, contact);
+  const localHour = history ? bestHour(history.histogram) : DEFAULT_SEND_HOUR;
+  const basis = history?.basis || 'default';
+  const sample = history?.histogram.opens || 0;
+
+  const sendable = (days: number[]) => {
+    const today = getLocalParts(now, timeZone);
+    for (let offset = 0; offset <= MAX_HOLD_DAYS; offset++) {
+      const at = zonedTimeToUtc(today.year, today.month, today.day + offset, localHour, timeZone);
+      const local = getLocalParts(at, timeZone);
+      if (!days.includes(local.weekday) || getFederalHoliday(local.year, local.month, local.day)) continue;
+      if (offset === 0 && today.hour === localHour) return now;
+      if (at.getTime() > now.getTime()) return at;
+    }
+    return null;
+  };
+
+  const at = sendable(preferredDays(history?.histogram || null)) || sendable(SEND_DAYS) || now;
+  return { at, timeZone, localHour, basis, sample };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { computePoolCapacity, pickMailbox, remainingFor, warmupCap } from './senderPool';
+
+const NOW = new Date('2026-03-10T15:00:00');
+
+function mailbox(id: string, overrides: Record<string, any> = {}) {
+  return {
+    id, provider: 'resend', fromEmail: `${id}@mail.novalyte.io`, domain: 'mail.novalyte.io', status: 'active',
+    warmupStartedAt: new Date('2026-03-01T09:00:00'), warmupStartCap: 20, warmupDailyIncrease: 10, maxDailyCap: 200,
+    createdAt: new Date(0), updatedAt: new Date(0),
+    ...overrides,
+  } as any;
+}
+
+function sends(mailboxId: string, count: number, opts: { bounced?: number; complained?: number; at?: Date } = {}) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${mailboxId}-${i}`, mailboxId, from: '', provider: 'resend', sentAt: opts.at || NOW,
+    lastEvent: i < (opts.bounced || 0) ? 'bounced' : i < (opts.bounced || 0) + (opts.complained || 0) ? 'complained' : 'delivered',
+  })) as any[];
+}
+
+describe('senderPool', () => {
+  it('ramps the daily cap through warmup up to the max', () => {
+    expect(warmupCap(mailbox('a'), new Date('2026-03-01T20:00:00'))).toEqual({ day: 0, cap: 20 });
+    expect(warmupCap(mailbox('a'), NOW)).toEqual({ day: 9, cap: 110 });
+    expect(warmupCap(mailbox('a'), new Date('2026-04-01T08:00:00')).cap).toBe(200);
+  });
+
+  it('throttles on a warning-level bounce rate and blocks on complaints or pausing', () => {
+    const yesterday = new Date('2026-03-09T12:00:00');
+    const pool = computePoolCapacity(
+      [mailbox('ok'), mailbox('warn'), mailbox('bad'), mailbox('off', { status: 'paused' })],
+      [
+        ...sends('ok', 10),
+        ...sends('warn', 50, { bounced: 3, at: yesterday }),
+        ...sends('bad', 200, { complained: 2, at: yesterday }),
+      ],
+      NOW,
+    );
+    expect(pool.map(c => [c.mailbox.id, c.health.state, c.cap, c.remaining])).toEqual([
+      ['ok', 'healthy', 110, 100],
+      ['warn', 'warning', 55, 55],
+      ['bad', 'blocked', 0, 0],
+      ['off', 'healthy', 0, 0],
+    ]);
+    expect(remainingFor(pool, 'resend')).toBe(155);
+    expect(remainingFor(pool, 'smtp')).toBe(0);
+  });
+
+  it('rotates to the mailbox with the most headroom, honouring a preferred address with room', () => {
+    const pool = computePoolCapacity(
+      [mailbox('a'), mailbox('b'), mailbox('full', { warmupStartCap: 5, warmupDailyIncrease: 0 })],
+      [...sends('a', 60), ...sends('b', 10), ...sends('full', 5)],
+      NOW,
+    );
+    expect(pickMailbox(pool, 'resend')?.mailbox.id).toBe('b');
+    expect(pickMailbox(pool, 'resend', 'Jamil <a@mail.novalyte.io>')?.mailbox.id).toBe('a');
+    expect(pickMailbox(pool, 'resend', 'full@mail.novalyte.io')?.mailbox.id).toBe('b');
+    expect(pickMailbox(pool, 'smtp')).toBeUndefined();
+  });
+});
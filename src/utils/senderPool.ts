@@ -0,0 +1,188 @@
+import type { SentEmail } from '../services/resendService';
+
+/**
+ * Outbound sender pool — the mailboxes (across sending domains) that
+ * outreach rotates through.
+ *
+ * Each mailbox ramps its daily cap on a warmup schedule. Health is read from
+ * the last HEALTH_WINDOW_DAYS of its sent emails, whose bounce / complaint
+ * events arrive through resend-webhook: a warning halves the day's cap, a
+ * breach blocks the mailbox (resend-webhook also pauses it server-side, see
+ * supabase/functions/_shared/senderHealth.ts — keep the thresholds in sync).
+ * Sends go to the healthy mailbox with the most headroom left today.
+ */
+
+export type SendProvider = 'resend' | 'smtp';
+
+export interface SendingMailbox {
+  id: string;
+  provider: SendProvider;
+  /** Empty for the SMTP mailbox configured by the server's SMTP_FROM secret */
+  fromEmail: string;
+  fromName?: string;
+  domain: string;
+  status: 'active' | 'paused';
+  pausedReason?: string;
+  warmupStartedAt: Date;
+  /** Cap on day 0 of warmup */
+  warmupStartCap: number;
+  /** Added to the cap every day of warmup */
+  warmupDailyIncrease: number;
+  /** Fully warmed daily cap */
+  maxDailyCap: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MailboxHealthState = 'healthy' | 'warning' | 'blocked';
+
+export interface MailboxHealth {
+  state: MailboxHealthState;
+  sent: number;
+  bounced: number;
+  complained: number;
+  bounceRate: number;
+  complaintRate: number;
+  reason?: string;
+}
+
+export interface MailboxCapacity {
+  mailbox: SendingMailbox;
+  health: MailboxHealth;
+  warmupDay: number;
+  warmupCap: number;
+  /** Today's cap after health throttling and pausing */
+  cap: number;
+  sentToday: number;
+  remaining: number;
+}
+
+export const HEALTH_WINDOW_DAYS = 7;
+/** Fewer sends than this in the window are too few to judge */
+export const HEALTH_MIN_SAMPLE = 20;
+export const BOUNCE_WARN_RATE = 0.04;
+export const BOUNCE_BLOCK_RATE = 0.08;
+export const COMPLAINT_WARN_RATE = 0.002;
+export const COMPLAINT_BLOCK_RATE = 0.005;
+/** Share of the warmup cap a mailbox keeps while its health is a warning */
+export const WARNING_CAP_FACTOR = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SenderPoolExhaustedError extends Error {
+  constructor(public readonly provider: SendProvider) {
+    super(`No ${provider === 'smtp' ? 'SMTP' : 'V-send'} mailbox has capacity left today`);
+    this.name = 'SenderPoolExhaustedError';
+  }
+}
+
+// Matches the caps that were hard-coded before the pool existed (100 Resend, 900 SMTP), fully warmed
+export const DEFAULT_SENDING_MAILBOXES: SendingMailbox[] = [
+  {
+    id: 'mailbox-resend-default', provider: 'resend',
+    fromEmail: 'noreply@novalyte.io', fromName: 'Novalyte AI', domain: 'novalyte.io',
+    status: 'active',
+    warmupStartedAt: new Date(0), warmupStartCap: 100, warmupDailyIncrease: 0, maxDailyCap: 100,
+    createdAt: new Date(0), updatedAt: new Date(0),
+  },
+  {
+    id: 'mailbox-smtp-default', provider: 'smtp',
+    fromEmail: '', domain: 'SMTP_FROM',
+    status: 'active',
+    warmupStartedAt: new Date(0), warmupStartCap: 900, warmupDailyIncrease: 0, maxDailyCap: 900,
+    createdAt: new Date(0), updatedAt: new Date(0),
+  },
+];
+
+export function emailAddressOf(from: string): string {
+  const s = String(from || '');
+  return (s.match(/<([^>]+)>/)?.[1] || s).trim().toLowerCase();
+}
+
+export function displayNameOf(from: string): string {
+  const m = String(from || '').match(/^\s*"?([^"<]*?)"?\s*</);
+  return m ? m[1].trim() : '';
+}
+
+export function startOfDay(now: Date): Date {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+export function warmupCap(mailbox: SendingMailbox, now = new Date()): { day: number; cap: number } {
+  const day = Math.max(0, Math.floor((startOfDay(now).getTime() - startOfDay(mailbox.warmupStartedAt).getTime()) / DAY_MS));
+  const cap = Math.min(mailbox.maxDailyCap, mailbox.warmupStartCap + day * mailbox.warmupDailyIncrease);
+  return { day, cap: Math.max(0, Math.floor(cap)) };
+}
+
+/**
+ * Which mailbox sent an email: its recorded mailboxId, else its from address.
+ * Older SMTP rows (sent before the pool) belong to the SMTP_FROM mailbox.
+ */
+export function mailboxIdOf(email: SentEmail, mailboxes: SendingMailbox[]): string | undefined {
+  if (email.mailboxId) return email.mailboxId;
+  const provider = email.provider || 'resend';
+  const address = emailAddressOf(email.from);
+  const candidates = mailboxes.filter(m => m.provider === provider);
+  return (candidates.find(m => m.fromEmail && m.fromEmail.toLowerCase() === address)
+    || (provider === 'smtp' ? candidates.find(m => !m.fromEmail) : undefined))?.id;
+}
+
+export function computeMailboxHealth(emails: SentEmail[]): MailboxHealth {
+  const sent = emails.length;
+  const bounced = emails.filter(e => e.lastEvent === 'bounced').length;
+  const complained = emails.filter(e => e.lastEvent === 'complained').length;
+  const bounceRate = sent ? bounced / sent : 0;
+  const complaintRate = sent ? complained / sent : 0;
+  const health = { sent, bounced, complained, bounceRate, complaintRate };
+  if (sent < HEALTH_MIN_SAMPLE) return { ...health, state: 'healthy' };
+  if (bounceRate >= BOUNCE_BLOCK_RATE) return { ...health, state: 'blocked', reason: `Bounce rate ${(bounceRate * 100).toFixed(1)}%` };
+  if (complaintRate >= COMPLAINT_BLOCK_RATE) return { ...health, state: 'blocked', reason: `Complaint rate ${(complaintRate * 100).toFixed(2)}%` };
+  if (bounceRate >= BOUNCE_WARN_RATE) return { ...health, state: 'warning', reason: `Bounce rate ${(bounceRate * 100).toFixed(1)}%` };
+  if (complaintRate >= COMPLAINT_WARN_RATE) return { ...health, state: 'warning', reason: `Complaint rate ${(complaintRate * 100).toFixed(2)}%` };
+  return { ...health, state: 'healthy' };
+}
+
+export function computePoolCapacity(mailboxes: SendingMailbox[], sentEmails: SentEmail[], now = new Date()): MailboxCapacity[] {
+  const today = startOfDay(now).getTime();
+  const windowStart = now.getTime() - HEALTH_WINDOW_DAYS * DAY_MS;
+  const byMailbox = new Map<string, SentEmail[]>();
+  for (const e of sentEmails) {
+    const t = new Date(e.sentAt).getTime();
+    if (t < Math.min(today, windowStart)) continue;
+    const id = mailboxIdOf(e, mailboxes);
+    if (!id) continue;
+    const list = byMailbox.get(id) || [];
+    list.push(e);
+    byMailbox.set(id, list);
+  }
+
+  return mailboxes.map(mailbox => {
+    const emails = byMailbox.get(mailbox.id) || [];
+    const health = computeMailboxHealth(emails.filter(e => new Date(e.sentAt).getTime() >= windowStart));
+    const { day, cap: rampCap } = warmupCap(mailbox, now);
+    const cap = mailbox.status === 'paused' || health.state === 'blocked' ? 0
+      : health.state === 'warning' ? Math.floor(rampCap * WARNING_CAP_FACTOR)
+      : rampCap;
+    const sentToday = emails.filter(e => new Date(e.sentAt).getTime() >= today).length;
+    return { mailbox, health, warmupDay: day, warmupCap: rampCap, cap, sentToday, remaining: Math.max(0, cap - sentToday) };
+  });
+}
+
+export function remainingFor(capacities: MailboxCapacity[], provider: SendProvider): number {
+  return capacities.filter(c => c.mailbox.provider === provider).reduce((n, c) => n + c.remaining, 0);
+}
+
+/**
+ * Rotation: the preferred address (a sender profile's) when it is in the pool
+ * with room left, otherwise the mailbox with the most of today's cap unused.
+ */
+export function pickMailbox(capacities: MailboxCapacity[], provider: SendProvider, preferredEmail?: string): MailboxCapacity | undefined {
+  const open = capacities.filter(c => c.mailbox.provider === provider && c.remaining > 0);
+  const preferred = preferredEmail
+    ? open.find(c => c.mailbox.fromEmail.toLowerCase() === emailAddressOf(preferredEmail))
+    : undefined;
+  if (preferred) return preferred;
+  return [...open].sort((a, b) => (b.remaining / b.cap) - (a.remaining / a.cap) || b.remaining - a.remaining)[0];
+}
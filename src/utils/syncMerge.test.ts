@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SYNC_CURSOR_OVERLAP_MS, advanceCursor, appendConflicts, clearDirty, deltaStart, diffJunction, markDirty, mergeDelta, mergeRecord, takeDelta,
+} from './syncMerge';
+
+const at = (min: number) => new Date(Date.UTC(2026, 4, 4, 12, min));
+
+describe('syncMerge', () => {
+  it('tracks edited fields until the push that covered them is confirmed', () => {
+    let dirty = markDirty({}, 'contacts', 'c1', ['status', 'activities', 'updatedAt'], at(0));
+    expect(dirty).toEqual({ 'contacts:c1': { status: at(0).toISOString() } });
+
+    const pushed = dirty['contacts:c1'];
+    dirty = markDirty(dirty, 'contacts', 'c1', ['notes'], at(1));
+    expect(clearDirty(dirty, 'contacts', 'c1', pushed)).toEqual({ 'contacts:c1': { notes: at(1).toISOString() } });
+
+    // Edited again while the push was in flight — the newer mark stays
+    const again = markDirty(dirty, 'contacts', 'c1', ['status'], at(2));
+    expect(clearDirty(again, 'contacts', 'c1', pushed)['contacts:c1'].status).toBe(at(2).toISOString());
+    expect(clearDirty(dirty, 'contacts', 'c1', dirty['contacts:c1'])).toEqual({});
+  });
+
+  it('merges field by field — newest edit wins, disagreements are logged, own echoes are not', () => {
+    const local = { id: 'c1', status: 'qualified', notes: 'local note', score: 50, activities: [{ id: 'a1', note: 'classified' }] };
+    const remote = { id: 'c1', status: 'called', notes: 'remote note', score: 80, activities: [{ id: 'a1', note: 'raw' }, { id: 'a2' }] };
+    const dirty = { status: at(5).toISOString(), notes: at(1).toISOString() };
+
+    const { merged, conflicts, dirty: left } = mergeRecord('contacts', local, { record: remote, updatedAt: at(3) }, dirty, { label: 'Clinic', now: at(6) });
+    expect(merged).toMatchObject({ status: 'qualified', notes: 'remote note', score: 80 });
+    expect(merged.activities).toEqual([{ id: 'a1', note: 'classified' }, { id: 'a2' }]);
+    expect(left).toEqual({ status: at(5).toISOString() });
+    expect(conflicts.map(c => [c.field, c.winner])).toEqual([['status', 'local'], ['notes', 'remote']]);
+
+    const echo = mergeRecord('contacts', local, { record: remote, updatedAt: at(3) }, dirty, {
+      isOwnEcho: (field, value) => field === 'notes' && value === 'remote note',
+    });
+    expect(echo.conflicts.map(c => c.field)).toEqual(['status']);
+
+    const agreed = mergeRecord('contacts', local, { record: { ...remote, status: 'qualified' }, updatedAt: at(9) }, { status: at(5).toISOString() });
+    expect(agreed).toMatchObject({ conflicts: [], dirty: undefined });
+  });
+
+  it('applies a delta, adds unseen records and advances the cursor', () => {
+    const local = [{ id: 'a', name: 'A', city: 'Austin' }, { id: 'b', name: 'B', city: 'Boise' }];
+    const result = mergeDelta('clinics', local, [
+      { record: { id: 'b', name: 'B2', city: 'Reno' }, updatedAt: at(4) },
+      { record: { id: 'c', name: 'C', city: 'Cary' }, updatedAt: at(7) },
+    ], { 'clinics:b': { city: at(5).toISOString() }, 'clinics:a': { name: at(1).toISOString() } }, { label: c => c.name, now: at(8) });
+
+    expect(result.records).toEqual([{ id: 'a', name: 'A', city: 'Austin' }, { id: 'b', name: 'B2', city: 'Boise' }, { id: 'c', name: 'C', city: 'Cary' }]);
+    expect(Object.keys(result.dirty).sort()).toEqual(['clinics:a', 'clinics:b']);
+    expect(result.conflicts).toHaveLength(1);
+    expect(appendConflicts([], result.conflicts)[0]).toMatchObject({ label: 'B', field: 'city', winner: 'local' });
+
+    // Soft-deleted elsewhere — dropped here along with its unsynced edits
+    const trashed = mergeDelta('clinics', result.records, [{ record: { id: 'a' } as any, updatedAt: at(9), deleted: true }], result.dirty);
+    expect(trashed.records.map(c => c.id)).toEqual(['b', 'c']);
+    expect(Object.keys(trashed.dirty)).toEqual(['clinics:b']);
+
+    expect(advanceCursor(at(5).toISOString(), [at(4), at(7)])).toBe(at(7).toISOString());
+    expect(advanceCursor(null, [])).toBeNull();
+    expect(diffJunction(['t1', 't2'], ['t2', 't3'])).toEqual({ add: ['t3'], remove: ['t1'] });
+  });
+
+  it('re-reads the overlap behind the cursor and merges each row version once', () => {
+    const row = (id: string, min: number) => ({ record: { id }, updatedAt: at(min) });
+    expect(deltaStart(null)).toBe(new Date(0).toISOString());
+    expect(deltaStart(at(30).toISOString())).toBe(new Date(at(30).getTime() - SYNC_CURSOR_OVERLAP_MS).toISOString());
+
+    const first = takeDelta(null, [], [row('a', 20), row('b', 30)]);
+    expect(first.fresh.map(r => r.record.id)).toEqual(['a', 'b']);
+    expect(first.cursor).toBe(at(30).toISOString());
+
+    // 'c' was written by a transaction that started at 25 but committed after the first pull
+    const second = takeDelta(first.cursor, first.seen, [row('a', 20), row('c', 25), row('b', 30), row('a', 31)]);
+    expect(second.fresh.map(r => `${r.record.id}@${r.updatedAt.getUTCMinutes()}`)).toEqual(['c@25', 'a@31']);
+    expect(second.cursor).toBe(at(31).toISOString());
+
+    // Versions older than the overlap drop out of the seen list
+    const later = takeDelta(second.cursor, second.seen, [row('d', 41)]);
+    expect(later.seen.sort()).toEqual([`a@${at(31).getTime()}`, `d@${at(41).getTime()}`]);
+    expect(takeDelta(later.cursor, later.seen, [row('d', 41)]).fresh).toEqual([]);
+  });
+});
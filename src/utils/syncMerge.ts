@@ -0,0 +1,254 @@
+/**
+ * Incremental sync between the store and Supabase.
+ *
+ * Local edits to contacts and clinics are tracked per field ("dirty") until
+ * Supabase confirms the write. Remote changes arrive as deltas — rows whose
+ * server-side `updated_at` is past the table's cursor, re-reading a short
+ * overlap for late commits — and are merged field
+ * by field: fields without a pending local edit take the remote value; a
+ * field edited on both sides goes to whichever edit is newer (last writer
+ * wins) and the disagreement is written to the conflict log so nothing is
+ * dropped silently.
+ */
+
+export type SyncTable = 'contacts' | 'clinics';
+
+/** Field → ISO time of the unconfirmed local edit */
+export type DirtyFields = Record<string, string>;
+
+/** `${table}:${id}` → dirty fields of that record */
+export type DirtyMap = Record<string, DirtyFields>;
+
+export interface SyncConflict {
+  id: string;
+  table: SyncTable;
+  recordId: string;
+  /** Human label for the record (clinic name) */
+  label: string;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  winner: 'local' | 'remote';
+  localEditedAt: Date;
+  remoteUpdatedAt: Date;
+  detectedAt: Date;
+}
+
+export interface RemoteRecord<T> {
+  record: T;
+  /** Server-side updated_at of the row */
+  updatedAt: Date;
+  /** Soft-deleted on the server (utils/audit) — `record` carries only the id */
+  deleted?: boolean;
+}
+
+/** Conflicts kept locally, newest first */
+export const CONFLICT_LOG_LIMIT = 200;
+
+/** Fields that only ever grow — merged as a union by id instead of last writer wins */
+const APPEND_ONLY_FIELDS = ['activities'];
+
+/** Fields the store stamps on every write; never a conflict on their own */
+const BOOKKEEPING_FIELDS = ['updatedAt', 'lastUpdated'];
+
+export const dirtyKey = (table: SyncTable, id: string) => `${table}:${id}`;
+
+export function parseDirtyKey(key: string): { table: SyncTable; id: string } {
+  const split = key.indexOf(':');
+  return { table: key.slice(0, split) as SyncTable, id: key.slice(split + 1) };
+}
+
+export function markDirty(dirty: DirtyMap, table: SyncTable, id: string, fields: string[], at = new Date()): DirtyMap {
+  const tracked = fields.filter(f => !APPEND_ONLY_FIELDS.includes(f) && !BOOKKEEPING_FIELDS.includes(f));
+  if (!tracked.length) return dirty;
+  const key = dirtyKey(table, id);
+  const next = { ...dirty[key] };
+  for (const f of tracked) next[f] = at.toISOString();
+  return { ...dirty, [key]: next };
+}
+
+/**
+ * Drop the marks a confirmed push covered. `pushed` is the record's dirty
+ * fields as they were when the push started — a field edited again since
+ * keeps its newer mark.
+ */
+export function clearDirty(dirty: DirtyMap, table: SyncTable, id: string, pushed: DirtyFields): DirtyMap {
+  const key = dirtyKey(table, id);
+  const current = dirty[key];
+  if (!current) return dirty;
+  const rest = { ...current };
+  for (const [f, at] of Object.entries(pushed)) if (rest[f] === at) delete rest[f];
+  const next = { ...dirty };
+  if (Object.keys(rest).length) next[key] = rest;
+  else delete next[key];
+  return next;
+}
+
+/** Stable comparison that ignores Date vs ISO string and null vs missing */
+export function sameValue(a: unknown, b: unknown): boolean {
+  return canonical(a) === canonical(b);
+}
+
+function canonical(v: unknown): string {
+  return JSON.stringify(v ?? null, (_k, x) => {
+    if (x === null || x === undefined) return undefined;
+    if (x instanceof Date) return x.toISOString();
+    if (typeof x === 'object' && !Array.isArray(x)) {
+      return Object.fromEntries(Object.keys(x).sort().filter(k => x[k] !== null && x[k] !== undefined).map(k => [k, x[k]]));
+    }
+    return x;
+  }) ?? 'null';
+}
+
+/** Local copies win — they may carry metadata (reply classification) the server has not confirmed yet */
+function unionById(local: unknown, remote: unknown): unknown {
+  if (!Array.isArray(local) || !Array.isArray(remote)) return remote ?? local;
+  const byId = new Map<string, any>();
+  for (const item of local) byId.set(item?.id, item);
+  for (const item of remote) if (!byId.has(item?.id)) byId.set(item?.id, item);
+  return [...byId.values()];
+}
+
+/**
+ * Merge one remote row into the local record. `isOwnEcho` recognises a remote
+ * value this browser pushed itself, which is never a conflict.
+ */
+export function mergeRecord<T extends { id: string }>(
+  table: SyncTable,
+  local: T,
+  remote: RemoteRecord<T>,
+  dirty: DirtyFields | undefined,
+  opts: { label?: string; now?: Date; isOwnEcho?: (field: string, value: unknown) => boolean } = {},
+): { merged: T; conflicts: SyncConflict[]; dirty: DirtyFields | undefined } {
+  const now = opts.now || new Date();
+  const merged: any = { ...remote.record };
+  for (const f of APPEND_ONLY_FIELDS) {
+    if (f in local || f in remote.record) merged[f] = unionById((local as any)[f], (remote.record as any)[f]);
+  }
+  if (!dirty) return { merged, conflicts: [], dirty: undefined };
+
+  const conflicts: SyncConflict[] = [];
+  const keep: DirtyFields = {};
+  for (const [field, editedAtIso] of Object.entries(dirty)) {
+    const localValue = (local as any)[field];
+    const remoteValue = (remote.record as any)[field];
+    if (sameValue(localValue, remoteValue)) continue; // already in agreement — nothing left to push
+    const editedAt = new Date(editedAtIso);
+    const localWins = editedAt.getTime() > remote.updatedAt.getTime();
+    if (localWins) {
+      merged[field] = localValue;
+      keep[field] = editedAtIso;
+    }
+    if (opts.isOwnEcho?.(field, remoteValue)) continue;
+    conflicts.push({
+      id: `sc-${now.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+      table,
+      recordId: local.id,
+      label: opts.label || local.id,
+      field,
+      localValue,
+      remoteValue,
+      winner: localWins ? 'local' : 'remote',
+      localEditedAt: editedAt,
+      remoteUpdatedAt: remote.updatedAt,
+      detectedAt: now,
+    });
+  }
+  return { merged, conflicts, dirty: Object.keys(keep).length ? keep : undefined };
+}
+
+/** Apply a delta of remote rows to a local collection */
+export function mergeDelta<T extends { id: string }>(
+  table: SyncTable,
+  local: T[],
+  remote: RemoteRecord<T>[],
+  dirty: DirtyMap,
+  opts: { label?: (record: T) => string; now?: Date; isOwnEcho?: (id: string, field: string, value: unknown) => boolean } = {},
+): { records: T[]; conflicts: SyncConflict[]; dirty: DirtyMap } {
+  if (!remote.length) return { records: local, conflicts: [], dirty };
+  const index = new Map(local.map((r, i) => [r.id, i]));
+  const records = [...local];
+  const nextDirty = { ...dirty };
+  const conflicts: SyncConflict[] = [];
+  const removed = new Set<string>();
+  for (const r of remote) {
+    const i = index.get(r.record.id);
+    if (r.deleted) {
+      if (i !== undefined) removed.add(r.record.id);
+      delete nextDirty[dirtyKey(table, r.record.id)];
+      continue;
+    }
+    if (i === undefined) {
+      index.set(r.record.id, records.length);
+      records.push(r.record);
+      continue;
+    }
+    const key = dirtyKey(table, r.record.id);
+    const result = mergeRecord(table, records[i], r, nextDirty[key], {
+      label: opts.label?.(records[i]),
+      now: opts.now,
+      isOwnEcho: opts.isOwnEcho && ((field, value) => opts.isOwnEcho!(r.record.id, field, value)),
+    });
+    records[i] = result.merged;
+    conflicts.push(...result.conflicts);
+    if (result.dirty) nextDirty[key] = result.dirty;
+    else delete nextDirty[key];
+  }
+  return { records: removed.size ? records.filter(r => !removed.has(r.id)) : records, conflicts, dirty: nextDirty };
+}
+
+/** Latest server timestamp seen, for the next delta pull */
+export function advanceCursor(cursor: string | null, stamps: Date[]): string | null {
+  let max = cursor ? new Date(cursor).getTime() : -Infinity;
+  for (const s of stamps) max = Math.max(max, s.getTime());
+  return Number.isFinite(max) ? new Date(max).toISOString() : cursor;
+}
+
+/**
+ * How far behind the cursor each delta pull starts. updated_at is now() — the
+ * writing transaction's start — so a row from a write that was still open when
+ * the cursor passed its stamp commits behind the cursor; re-reading the last
+ * few minutes catches it.
+ */
+export const SYNC_CURSOR_OVERLAP_MS = 10 * 60 * 1000;
+
+/** Where the next delta pull starts reading */
+export function deltaStart(cursor: string | null): string {
+  return new Date(cursor ? new Date(cursor).getTime() - SYNC_CURSOR_OVERLAP_MS : 0).toISOString();
+}
+
+const seenKey = (r: RemoteRecord<{ id: string }>) => `${r.record.id}@${r.updatedAt.getTime()}`;
+
+/**
+ * Split a delta pull (read from deltaStart) into the rows not merged yet and
+ * the next cursor. `seen` holds the `${id}@${updatedAt}` rows already merged
+ * inside the overlap window, so a re-read row isn't merged — or reported as a
+ * conflict — twice.
+ */
+export function takeDelta<T extends { id: string }>(
+  cursor: string | null,
+  seen: string[],
+  rows: RemoteRecord<T>[],
+): { fresh: RemoteRecord<T>[]; cursor: string | null; seen: string[] } {
+  const already = new Set(seen);
+  const fresh = rows.filter(r => !already.has(seenKey(r)));
+  const next = advanceCursor(cursor, rows.map(r => r.updatedAt));
+  const floor = next ? new Date(next).getTime() - SYNC_CURSOR_OVERLAP_MS : -Infinity;
+  const keep = new Set([...seen, ...fresh.map(seenKey)].filter(k => Number(k.slice(k.lastIndexOf('@') + 1)) >= floor));
+  return { fresh, cursor: next, seen: [...keep] };
+}
+
+/** Rows to insert and delete so a junction table matches `wanted` */
+export function diffJunction(existing: string[], wanted: string[]): { add: string[]; remove: string[] } {
+  const have = new Set(existing);
+  const want = new Set(wanted);
+  return {
+    add: [...want].filter(id => !have.has(id)),
+    remove: [...have].filter(id => !want.has(id)),
+  };
+}
+
+export function appendConflicts(log: SyncConflict[], conflicts: SyncConflict[]): SyncConflict[] {
+  if (!conflicts.length) return log;
+  return [...conflicts, ...log].slice(0, CONFLICT_LOG_LIMIT);
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { planVoicemailFollowUp } from './voicemailFollowUp';
+
+function contact(opts: { email?: string; drops?: number } = {}) {
+  return {
+    id: 'c1',
+    clinic: { id: 'cl1', name: 'Peak Men\'s Health', address: { city: 'Austin', state: 'TX' } },
+    decisionMaker: opts.email ? { id: 'dm1', firstName: 'Sarah', lastName: 'Lee', email: opts.email } : undefined,
+    activities: Array.from({ length: opts.drops || 0 }, (_, i) => ({ id: `a${i}`, type: 'voicemail_left', description: '', timestamp: new Date() })),
+  } as any;
+}
+
+describe('voicemailFollowUp', () => {
+  // Mon 2026-03-09 10:00 CDT
+  const now = new Date('2026-03-09T15:00:00Z');
+
+  it('emails two hours after the voicemail when the contact has a usable email', () => {
+    const plan = planVoicemailFollowUp(contact({ email: 'sarah@peak.com' }), { now });
+    expect(plan).toMatchObject({ rule: 'email_follow_up', action: 'email', status: 'follow_up', email: 'sarah@peak.com' });
+    expect(plan.at?.toISOString()).toBe('2026-03-09T17:00:00.000Z');
+  });
+
+  it('falls back to a call back in the local window when email is missing or suppressed', () => {
+    const plan = planVoicemailFollowUp(contact({ email: 'sarah@peak.com' }), { now, isEmailSuppressed: () => true });
+    expect(plan).toMatchObject({ rule: 'call_back', action: 'call_back', status: 'call_scheduled' });
+    // Wed 2026-03-11 10:00 CDT is inside the default window
+    expect(plan.at?.toISOString()).toBe('2026-03-11T15:00:00.000Z');
+  });
+
+  it('stops after the third voicemail and defers to an active sequence', () => {
+    expect(planVoicemailFollowUp(contact({ email: 'sarah@peak.com', drops: 2 }), { now })).toMatchObject({ rule: 'max_drops', action: 'stop' });
+    expect(planVoicemailFollowUp(contact({ email: 'sarah@peak.com' }), { now, enrolled: true }).action).toBe('continue_sequence');
+  });
+});
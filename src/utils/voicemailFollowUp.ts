@@ -0,0 +1,114 @@
+import type { CallingWindow, ContactStatus, CRMContact } from '../types';
+import { nextCallingWindowStart, resolveCallingWindow, resolveClinicTimezone } from './callingWindows';
+
+/**
+ * What happens after the voice agent leaves a voicemail. Rules are checked in
+ * order and the first match wins:
+ *
+ *   1. third voicemail without a pickup → stop dialing, mark no answer
+ *   2. already in an active sequence   → let that sequence carry on
+ *   3. reachable by email               → email referencing the voicemail 2h later
+ *   4. otherwise                        → call back in the clinic's window 2 days out
+ *
+ * vapi-call-webhook applies the same rules to calls from the server queue.
+ */
+
+export const VOICEMAIL_EMAIL_DELAY_HOURS = 2;
+export const VOICEMAIL_CALL_BACK_DAYS = 2;
+export const MAX_VOICEMAIL_DROPS = 3;
+
+export type VoicemailFollowUpAction = 'email' | 'call_back' | 'continue_sequence' | 'stop';
+
+export interface VoicemailFollowUpPlan {
+  rule: string;
+  action: VoicemailFollowUpAction;
+  status: ContactStatus;
+  /** When the follow-up is due (email send or call back) */
+  at?: Date;
+  email?: string;
+  description: string;
+}
+
+export interface VoicemailFollowUpContext {
+  now?: Date;
+  /** Contact already has an active / paused sequence enrollment */
+  enrolled?: boolean;
+  isEmailSuppressed?: (email: string) => boolean;
+  campaignWindow?: CallingWindow;
+}
+
+interface RuleInput {
+  contact: CRMContact;
+  now: Date;
+  /** Voicemails left so far, including the one just dropped */
+  drops: number;
+  email?: string;
+  ctx: VoicemailFollowUpContext;
+}
+
+interface VoicemailFollowUpRule {
+  id: string;
+  when: (input: RuleInput) => boolean;
+  plan: (input: RuleInput) => Omit<VoicemailFollowUpPlan, 'rule'>;
+}
+
+function followUpEmail(contact: CRMContact): string | undefined {
+  return contact.decisionMaker?.email || contact.clinic.email || undefined;
+}
+
+function callBackAt(contact: CRMContact, now: Date, campaignWindow?: CallingWindow): Date {
+  const from = new Date(now.getTime() + VOICEMAIL_CALL_BACK_DAYS * 24 * 60 * 60 * 1000);
+  const tz = resolveClinicTimezone(contact.clinic);
+  return nextCallingWindowStart(from, tz, resolveCallingWindow(contact.clinic, campaignWindow)) || from;
+}
+
+export const VOICEMAIL_FOLLOW_UP_RULES: VoicemailFollowUpRule[] = [
+  {
+    id: 'max_drops',
+    when: ({ drops }) => drops >= MAX_VOICEMAIL_DROPS,
+    plan: ({ drops }) => ({
+      action: 'stop',
+      status: 'no_answer',
+      description: `${drops} voicemails without a pickup — stopped dialing`,
+    }),
+  },
+  {
+    id: 'in_sequence',
+    when: ({ ctx }) => !!ctx.enrolled,
+    plan: () => ({
+      action: 'continue_sequence',
+      status: 'follow_up',
+      description: 'Already in a sequence — next touch comes from the sequence',
+    }),
+  },
+  {
+    id: 'email_follow_up',
+    when: ({ email, ctx }) => !!email && !ctx.isEmailSuppressed?.(email),
+    plan: ({ now, email }) => ({
+      action: 'email',
+      status: 'follow_up',
+      email,
+      at: new Date(now.getTime() + VOICEMAIL_EMAIL_DELAY_HOURS * 60 * 60 * 1000),
+      description: `Follow-up email referencing the voicemail to ${email} in ${VOICEMAIL_EMAIL_DELAY_HOURS}h`,
+    }),
+  },
+  {
+    id: 'call_back',
+    when: () => true,
+    plan: ({ contact, now, ctx }) => ({
+      action: 'call_back',
+      status: 'call_scheduled',
+      at: callBackAt(contact, now, ctx.campaignWindow),
+      description: `No usable email — call back in ${VOICEMAIL_CALL_BACK_DAYS} days`,
+    }),
+  },
+];
+
+/** Pick the next step for a contact we just left a voicemail for */
+export function planVoicemailFollowUp(contact: CRMContact, ctx: VoicemailFollowUpContext = {}): VoicemailFollowUpPlan {
+  const now = ctx.now || new Date();
+  const drops = (contact.activities || []).filter(a => a.type === 'voicemail_left').length + 1;
+  const input: RuleInput = { contact, now, drops, email: followUpEmail(contact), ctx };
+  const rule = VOICEMAIL_FOLLOW_UP_RULES.find(r => r.when(input))!;
+  return { rule: rule.id, ...rule.plan(input) };
+}
@@ -14,6 +14,7 @@ interface ImportMetaEnv {
   readonly VITE_VAPI_PHONE_NUMBER_ID: string;
   readonly VITE_VAPI_PHONE_NUMBER: string;
   readonly VITE_VAPI_ASSISTANT_ID: string;
+  readonly VITE_VAPI_VOICEMAIL_AUDIO_URL: string;
   readonly VITE_BLAND_AI_API_KEY: string;
   readonly VITE_GOOGLE_VERIFY_FUNCTION_URL: string;
   readonly VITE_SMTP_SEND_FUNCTION_URL: string;
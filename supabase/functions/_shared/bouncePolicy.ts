@@ -0,0 +1,51 @@
+// Server-side twin of src/utils/bounces.ts — keep the retry policy in sync.
+// resend-webhook classifies each bounce, stamps it on sent_emails and sizes
+// the suppression: permanent for hard bounces, until the retry for soft ones.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type Supabase = ReturnType<typeof createClient>;
+
+export type BounceType = 'hard' | 'soft';
+
+const SOFT_BOUNCE_RETRY_HOURS = [24, 72];
+const MAX_SOFT_BOUNCES = SOFT_BOUNCE_RETRY_HOURS.length + 1;
+const SOFT_BOUNCE_WINDOW_DAYS = 30;
+
+export function classifyBounce(type?: unknown, subType?: unknown): BounceType {
+  const t = String(type || '').toLowerCase();
+  const sub = String(subType || '').toLowerCase();
+  if (t === 'permanent') return 'hard';
+  if (sub.includes('suppress')) return 'hard';
+  return 'soft';
+}
+
+export interface BounceDecision {
+  /** What gets stored on sent_emails.bounce_type — escalated soft bounces are stored as hard */
+  bounceType: BounceType;
+  escalated: boolean;
+  retryAt: Date | null;
+}
+
+export async function decideBounce(
+  supabase: Supabase,
+  emailId: string,
+  toEmail: string,
+  kind: BounceType,
+  now = new Date(),
+): Promise<BounceDecision> {
+  if (kind === 'hard') return { bounceType: 'hard', escalated: false, retryAt: null };
+
+  const since = new Date(now.getTime() - SOFT_BOUNCE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { count } = await supabase
+    .from('sent_emails')
+    .select('id', { count: 'exact', head: true })
+    .eq('to_email', toEmail)
+    .eq('bounce_type', 'soft')
+    .neq('id', emailId)
+    .gte('last_event_at', since);
+  const attempt = (count || 0) + 1;
+  if (attempt >= MAX_SOFT_BOUNCES) return { bounceType: 'hard', escalated: true, retryAt: null };
+  const hours = SOFT_BOUNCE_RETRY_HOURS[Math.min(attempt, SOFT_BOUNCE_RETRY_HOURS.length) - 1];
+  return { bounceType: 'soft', escalated: false, retryAt: new Date(now.getTime() + hours * 60 * 60 * 1000) };
+}
@@ -0,0 +1,231 @@
+// Server-side twin of src/utils/callExtraction.ts — parses Vapi's
+// analysis.structuredData and writes it onto the contact, decision maker and
+// clinic rows with the same merge rules:
+//   - decision maker name / direct line / email only fill blanks; a differing
+//     value is recorded on contacts.call_insights as not applied
+//   - clinic marketing agency and monthly ad spend come only from calls, latest wins
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type Supabase = ReturnType<typeof createClient>;
+
+interface FieldUpdate {
+  field: string;
+  value: string;
+  previous?: string;
+  applied: boolean;
+  reason?: string;
+}
+
+const EMPTY_VALUES = /^(n\/?a|none|unknown|not mentioned|null|-)$/i;
+
+function text(v: unknown): string | undefined {
+  if (typeof v !== 'string' && typeof v !== 'number') return undefined;
+  const s = String(v).trim();
+  return s && !EMPTY_VALUES.test(s) ? s : undefined;
+}
+
+function parseAdSpend(v: unknown): number | undefined {
+  if (typeof v === 'number') return Number.isFinite(v) && v > 0 ? Math.round(v) : undefined;
+  const s = text(v);
+  if (!s) return undefined;
+  const m = s.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|thousand|m|million)?/i);
+  if (!m) return undefined;
+  const unit = (m[2] || '').toLowerCase();
+  const mult = unit.startsWith('k') || unit === 'thousand' ? 1_000 : unit.startsWith('m') ? 1_000_000 : 1;
+  const n = Math.round(Number(m[1]) * mult);
+  return n > 0 ? n : undefined;
+}
+
+function digits(phone?: string | null): string {
+  const d = String(phone || '').replace(/\D/g, '');
+  return d.length === 11 && d.startsWith('1') ? d.slice(1) : d;
+}
+
+function roleFromTitle(title?: string): string {
+  const raw = String(title || '').toLowerCase();
+  if (/owner|founder|ceo/.test(raw)) return 'owner';
+  if (/medical director|physician|doctor|md\b/.test(raw)) return 'medical_director';
+  if (/administrator/.test(raw)) return 'practice_administrator';
+  if (/marketing/.test(raw)) return 'marketing_director';
+  if (/operations/.test(raw)) return 'operations_manager';
+  return 'clinic_manager';
+}
+
+function splitName(full: string): { first: string; last: string } {
+  const parts = full.replace(/^(dr\.?|mr\.?|mrs\.?|ms\.?)\s+/i, '').split(/\s+/).filter(Boolean);
+  return { first: parts[0] || full, last: parts.slice(1).join(' ') };
+}
+
+export function parseCallExtraction(sd: any) {
+  if (!sd || typeof sd !== 'object') return null;
+  const objections = Array.isArray(sd.objections)
+    ? sd.objections.map(text).filter(Boolean)
+    : (text(sd.objections)?.split(/;|\n/).map((o: string) => o.trim()).filter(Boolean) || []);
+  const interest = text(sd.interest_level)?.toLowerCase();
+  const nextStep = text(sd.next_step)?.toLowerCase();
+  const directLine = text(sd.direct_line);
+  const email = text(sd.email_captured)?.toLowerCase();
+  return {
+    reachedDecisionMaker: typeof sd.reached_decision_maker === 'boolean' ? sd.reached_decision_maker : undefined,
+    decisionMakerName: text(sd.decision_maker_name),
+    decisionMakerTitle: text(sd.decision_maker_title),
+    directLine: directLine && digits(directLine).length >= 10 ? directLine : undefined,
+    bestCallbackTime: text(sd.best_callback_time) || text(sd.callback_time),
+    marketingAgency: text(sd.marketing_agency),
+    monthlyAdSpend: parseAdSpend(sd.monthly_ad_spend),
+    objections,
+    interestLevel: ['high', 'medium', 'low', 'none'].includes(interest || '') ? interest : undefined,
+    nextStep: ['demo_scheduled', 'send_info', 'callback', 'none', 'dnc'].includes(nextStep || '') ? nextStep : undefined,
+    emailCaptured: email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : undefined,
+    gatekeeperName: text(sd.gatekeeper_name),
+    competitorMentioned: text(sd.competitor_mentioned),
+  };
+}
+
+/** Apply one call's structured data to the CRM rows. Returns the fields it set. */
+export async function applyCallExtraction(
+  supabase: Supabase,
+  contactId: string,
+  callId: string,
+  structuredData: any,
+): Promise<FieldUpdate[]> {
+  const extraction = parseCallExtraction(structuredData);
+  if (!extraction) return [];
+
+  const { data: contact } = await supabase
+    .from('contacts')
+    .select('id, clinic_id, decision_maker_id')
+    .eq('id', contactId)
+    .maybeSingle();
+  if (!contact) return [];
+
+  const now = new Date().toISOString();
+  const fields: FieldUpdate[] = [];
+
+  // ─── Decision maker ───
+  const { data: dm } = contact.decision_maker_id
+    ? await supabase.from('decision_makers').select('*').eq('id', contact.decision_maker_id).maybeSingle()
+    : { data: null };
+  const dmPatch: Record<string, unknown> = {};
+  let newDmId: string | null = null;
+
+  if (!dm && extraction.decisionMakerName) {
+    const { first, last } = splitName(extraction.decisionMakerName);
+    const slug = extraction.decisionMakerName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    newDmId = `dm-${contact.clinic_id}-call-${slug || callId.slice(0, 8)}`;
+    const { error } = await supabase.from('decision_makers').upsert({
+      id: newDmId,
+      clinic_id: contact.clinic_id,
+      first_name: first,
+      last_name: last,
+      title: extraction.decisionMakerTitle || '',
+      role: roleFromTitle(extraction.decisionMakerTitle),
+      phone: extraction.directLine || null,
+      email: extraction.emailCaptured || null,
+      confidence: extraction.reachedDecisionMaker ? 80 : 60,
+      enriched_at: now,
+      source: 'vapi_call',
+      email_verified: false,
+      email_verification_status: 'unknown',
+    }, { onConflict: 'id' });
+    if (error) {
+      console.error('Failed to create decision maker from call:', error);
+      newDmId = null;
+    } else {
+      fields.push({ field: 'decisionMaker.name', value: extraction.decisionMakerName, applied: true });
+      if (extraction.directLine) fields.push({ field: 'decisionMaker.phone', value: extraction.directLine, applied: true });
+      if (extraction.emailCaptured) fields.push({ field: 'decisionMaker.email', value: extraction.emailCaptured, applied: true });
+    }
+  } else if (dm) {
+    const current = `${dm.first_name || ''} ${dm.last_name || ''}`.trim();
+    if (extraction.decisionMakerName) {
+      if (!current || /^(unknown( contact)?|clinic contact)$/i.test(current)) {
+        const { first, last } = splitName(extraction.decisionMakerName);
+        dmPatch.first_name = first;
+        dmPatch.last_name = last;
+        fields.push({ field: 'decisionMaker.name', value: extraction.decisionMakerName, previous: current || undefined, applied: true });
+      } else if (current.toLowerCase() !== extraction.decisionMakerName.toLowerCase()) {
+        fields.push({ field: 'decisionMaker.name', value: extraction.decisionMakerName, previous: current, applied: false, reason: 'Kept existing name' });
+      }
+    }
+    if (extraction.directLine) {
+      if (!dm.phone) {
+        dmPatch.phone = extraction.directLine;
+        fields.push({ field: 'decisionMaker.phone', value: extraction.directLine, applied: true });
+      } else if (digits(dm.phone) !== digits(extraction.directLine)) {
+        fields.push({ field: 'decisionMaker.phone', value: extraction.directLine, previous: dm.phone, applied: false, reason: 'Kept existing phone' });
+      }
+    }
+    if (extraction.emailCaptured) {
+      if (!dm.email) {
+        dmPatch.email = extraction.emailCaptured;
+        dmPatch.email_verified = false;
+        dmPatch.email_verification_status = 'unknown';
+        fields.push({ field: 'decisionMaker.email', value: extraction.emailCaptured, applied: true });
+      } else if (String(dm.email).toLowerCase() !== extraction.emailCaptured) {
+        fields.push({ field: 'decisionMaker.email', value: extraction.emailCaptured, previous: dm.email, applied: false, reason: 'Kept existing email' });
+      }
+    }
+    if (Object.keys(dmPatch).length) {
+      const { error } = await supabase.from('decision_makers').update(dmPatch).eq('id', dm.id);
+      if (error) console.error('Failed to update decision maker from call:', error);
+    }
+  }
+
+  // ─── Clinic ───
+  if (extraction.marketingAgency || extraction.monthlyAdSpend) {
+    const { data: clinic } = await supabase
+      .from('clinics')
+      .select('id, marketing_agency, monthly_ad_spend')
+      .eq('id', contact.clinic_id)
+      .maybeSingle();
+    const clinicPatch: Record<string, unknown> = {};
+    if (extraction.marketingAgency && extraction.marketingAgency !== clinic?.marketing_agency) {
+      clinicPatch.marketing_agency = extraction.marketingAgency;
+      fields.push({ field: 'clinic.marketingAgency', value: extraction.marketingAgency, previous: clinic?.marketing_agency || undefined, applied: true });
+    }
+    if (extraction.monthlyAdSpend && extraction.monthlyAdSpend !== Number(clinic?.monthly_ad_spend)) {
+      clinicPatch.monthly_ad_spend = extraction.monthlyAdSpend;
+      fields.push({
+        field: 'clinic.monthlyAdSpend',
+        value: String(extraction.monthlyAdSpend),
+        previous: clinic?.monthly_ad_spend != null ? String(clinic.monthly_ad_spend) : undefined,
+        applied: true,
+      });
+    }
+    if (clinic && Object.keys(clinicPatch).length) {
+      const { error } = await supabase
+        .from('clinics')
+        .update({ ...clinicPatch, last_updated: now })
+        .eq('id', clinic.id);
+      if (error) console.error('Failed to update clinic from call:', error);
+    }
+  }
+
+  // ─── Contact ───
+  const { error: contactError } = await supabase
+    .from('contacts')
+    .update({
+      call_insights: { ...extraction, callId, extractedAt: now, fields },
+      ...(newDmId ? { decision_maker_id: newDmId } : {}),
+      updated_at: now,
+    })
+    .eq('id', contact.id);
+  if (contactError) console.error('Failed to store call insights:', contactError);
+
+  const applied = fields.filter(f => f.applied);
+  if (applied.length) {
+    const { error } = await supabase.from('activities').insert({
+      id: `act-${Date.now()}-${crypto.randomUUID().slice(0, 4)}`,
+      contact_id: contact.id,
+      type: 'enriched',
+      description: `Call updated ${applied.map(f => f.field).join(', ')}`,
+      metadata: { callId, source: 'vapi_call', fields: applied },
+      timestamp: now,
+    });
+    if (error) console.error('Failed to log call extraction activity:', error);
+  }
+
+  return fields;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY_POLICY, isWithinCallingWindow, loadRetryPolicy, retryOrFail } from './callJobs.ts';
+
+/** Just enough of the Supabase client to record call_jobs updates and serve the control row */
+function fakeSupabase(control: Record<string, unknown> | null = null) {
+  const updates: { table: string; values: Record<string, any>; id: unknown }[] = [];
+  const client = {
+    from: (table: string) => ({
+      update: (values: Record<string, any>) => ({
+        eq: async (_col: string, id: unknown) => {
+          updates.push({ table, values, id });
+          return { error: null };
+        },
+      }),
+      select: () => ({
+        eq: () => ({ maybeSingle: async () => ({ data: control, error: null }) }),
+      }),
+    }),
+  };
+  return { client: client as any, updates };
+}
+
+const minutesAfter = (iso: string, from: number) => (new Date(iso).getTime() - from) / 60_000;
+
+describe('retryOrFail', () => {
+  it('puts the job back in the queue with the status delay while attempts remain', async () => {
+    const { client, updates } = fakeSupabase();
+    const before = Date.now();
+    expect(await retryOrFail(client, { id: 'j1', attempts: 1 }, 'no_answer', 'No answer', DEFAULT_RETRY_POLICY)).toBe('retry');
+
+    expect(updates).toHaveLength(1);
+    const { table, values, id } = updates[0];
+    expect([table, id]).toEqual(['call_jobs', 'j1']);
+    expect(values).toMatchObject({ status: 'pending', call_status: 'no_answer', last_error: 'No answer', locked_by: null, locked_at: null });
+    expect(Math.round(minutesAfter(values.next_attempt_at, before))).toBe(240);
+    expect(values.completed_at).toBeUndefined();
+  });
+
+  it('fails the job once the status has used its attempts', async () => {
+    const { client, updates } = fakeSupabase();
+    expect(await retryOrFail(client, { id: 'j1', attempts: 2 }, 'voicemail', 'Voicemail left', DEFAULT_RETRY_POLICY)).toBe('failed');
+    expect(updates[0].values).toMatchObject({ status: 'failed', call_status: 'voicemail', outcome_reason: 'Voicemail left (after 2 attempts)' });
+    expect(updates[0].values.completed_at).toBeDefined();
+
+    await retryOrFail(client, { id: 'j2', attempts: 1 }, 'failed', 'Dispatch failed', { ...DEFAULT_RETRY_POLICY, failed: { maxAttempts: 1, delayMinutes: 5 } });
+    expect(updates[1].values.outcome_reason).toBe('Dispatch failed (after 1 attempt)');
+  });
+
+  it('lets callers override the columns it writes', async () => {
+    const { client, updates } = fakeSupabase();
+    const at = '2026-06-02T15:00:00.000Z';
+    await retryOrFail(client, { id: 'j1', attempts: 0 }, 'voicemail', 'Voicemail left', DEFAULT_RETRY_POLICY, { next_attempt_at: at, outcome_reason: 'rule: day-2' });
+    expect(updates[0].values).toMatchObject({ status: 'pending', next_attempt_at: at, outcome_reason: 'rule: day-2' });
+  });
+
+  it('falls back to the default rule for a status missing from a stored policy', async () => {
+    const { client, updates } = fakeSupabase();
+    const partial = { no_answer: { maxAttempts: 5, delayMinutes: 10 } } as typeof DEFAULT_RETRY_POLICY;
+    expect(await retryOrFail(client, { id: 'j1', attempts: 2 }, 'failed', 'boom', partial)).toBe('failed');
+    expect(await retryOrFail(client, { id: 'j2', attempts: 2 }, 'no_answer', 'No answer', partial)).toBe('retry');
+    expect(updates.map(u => u.values.status)).toEqual(['failed', 'pending']);
+  });
+});
+
+describe('loadRetryPolicy', () => {
+  it('overlays the stored policy on the defaults', async () => {
+    const { client } = fakeSupabase({ retry_policy: { no_answer: { maxAttempts: 1, delayMinutes: 60 } } });
+    expect(await loadRetryPolicy(client)).toEqual({ ...DEFAULT_RETRY_POLICY, no_answer: { maxAttempts: 1, delayMinutes: 60 } });
+    expect(await loadRetryPolicy(fakeSupabase(null).client)).toEqual(DEFAULT_RETRY_POLICY);
+  });
+});
+
+describe('isWithinCallingWindow', () => {
+  const window = { days: [1, 2, 3, 4, 5], startHour: 9, endHour: 17, lunchBlackout: { startHour: 12, endHour: 13 } };
+  // Tuesday 2026-06-02; Chicago is UTC-5 in June
+  const chicago = (hour: number, minute = 0) => new Date(Date.UTC(2026, 5, 2, hour + 5, minute));
+
+  it('checks hours and lunch in the clinic zone', () => {
+    expect(isWithinCallingWindow(chicago(9), 'America/Chicago', window)).toBe(true);
+    expect(isWithinCallingWindow(chicago(8, 59), 'America/Chicago', window)).toBe(false);
+    expect(isWithinCallingWindow(chicago(12, 30), 'America/Chicago', window)).toBe(false);
+    expect(isWithinCallingWindow(chicago(16, 59), 'America/Chicago', window)).toBe(true);
+    expect(isWithinCallingWindow(chicago(17), 'America/Chicago', window)).toBe(false);
+  });
+
+  it('checks the weekday in the clinic zone, not UTC', () => {
+    // Saturday 00:30 UTC is still Friday evening in Los Angeles
+    const fridayEvening = new Date(Date.UTC(2026, 5, 6, 0, 30));
+    expect(isWithinCallingWindow(fridayEvening, 'America/Los_Angeles', { ...window, endHour: 18 })).toBe(true);
+    expect(isWithinCallingWindow(new Date(Date.UTC(2026, 5, 6, 16)), 'America/Chicago', window)).toBe(false);
+  });
+
+  it('lets the call through when the zone or window is unknown or invalid', () => {
+    expect(isWithinCallingWindow(chicago(3), undefined, window)).toBe(true);
+    expect(isWithinCallingWindow(chicago(3), 'America/Chicago', undefined)).toBe(true);
+    expect(isWithinCallingWindow(chicago(3), 'Not/AZone', window)).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+// Shared call queue helpers for call-dispatch and vapi-call-webhook.
+// See supabase/migrations/016_call_jobs.sql for the table + claim function.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type Supabase = ReturnType<typeof createClient>;
+
+/** Call statuses that can be retried, matching CallStatus in the app */
+export type RetryableCallStatus = 'no_answer' | 'voicemail' | 'failed';
+
+export type CallRetryPolicy = Record<RetryableCallStatus, { maxAttempts: number; delayMinutes: number }>;
+
+export const DEFAULT_RETRY_POLICY: CallRetryPolicy = {
+  no_answer: { maxAttempts: 3, delayMinutes: 240 },
+  voicemail: { maxAttempts: 2, delayMinutes: 1440 },
+  failed: { maxAttempts: 2, delayMinutes: 30 },
+};
+
+export async function loadRetryPolicy(supabase: Supabase): Promise<CallRetryPolicy> {
+  const { data } = await supabase
+    .from('call_queue_control')
+    .select('retry_policy')
+    .eq('id', 'global')
+    .maybeSingle();
+  return { ...DEFAULT_RETRY_POLICY, ...(data?.retry_policy || {}) };
+}
+
+/**
+ * Settle an unsuccessful attempt: back to `pending` with a delay while the
+ * per-status policy allows another attempt, otherwise `failed`. `extra`
+ * columns are written last, so callers can override next_attempt_at.
+ */
+export async function retryOrFail(
+  supabase: Supabase,
+  job: any,
+  status: RetryableCallStatus,
+  reason: string,
+  policy: CallRetryPolicy,
+  extra: Record<string, unknown> = {},
+): Promise<'retry' | 'failed'> {
+  const rule = policy[status] || DEFAULT_RETRY_POLICY[status];
+  const now = new Date();
+  if (Number(job.attempts || 0) < rule.maxAttempts) {
+    await supabase
+      .from('call_jobs')
+      .update({
+        status: 'pending',
+        call_status: status,
+        last_error: reason,
+        locked_by: null,
+        locked_at: null,
+        next_attempt_at: new Date(now.getTime() + rule.delayMinutes * 60_000).toISOString(),
+        updated_at: now.toISOString(),
+        ...extra,
+      })
+      .eq('id', job.id);
+    return 'retry';
+  }
+
+  await supabase
+    .from('call_jobs')
+    .update({
+      status: 'failed',
+      call_status: status,
+      outcome_reason: `${reason} (after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'})`,
+      completed_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      ...extra,
+    })
+    .eq('id', job.id);
+  return 'failed';
+}
+
+/**
+ * Weekday / hours / lunch check in the clinic's zone. Holidays are already
+ * resolved by the client when it picks next_attempt_at.
+ */
+export function isWithinCallingWindow(now: Date, timeZone?: string, window?: any): boolean {
+  if (!timeZone || !window) return true;
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone, weekday: 'short', hour: 'numeric', minute: 'numeric', hourCycle: 'h23',
+    }).formatToParts(now);
+    const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'));
+    const hour = Number(get('hour')) + Number(get('minute')) / 60;
+    if (Array.isArray(window.days) && !window.days.includes(day)) return false;
+    if (hour < Number(window.startHour) || hour >= Number(window.endHour)) return false;
+    const lunch = window.lunchBlackout;
+    if (lunch && hour >= Number(lunch.startHour) && hour < Number(lunch.endHour)) return false;
+    return true;
+  } catch {
+    return true;
+  }
+}
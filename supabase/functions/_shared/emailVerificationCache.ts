@@ -0,0 +1,85 @@
+// Server-side twin of the verification cache in src/utils/emailVerification.ts —
+// keep the TTLs, RevenueBase status mapping and row shape in sync.
+// dm-enrichment-batch reads fresh results before paying for a RevenueBase
+// check and writes back what it learns, so the app and batch runs share one
+// result per address (migration 028).
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type Supabase = ReturnType<typeof createClient>;
+
+export type VerificationStatus = 'valid' | 'invalid' | 'risky' | 'unknown';
+
+const VERIFICATION_TTL_DAYS: Record<VerificationStatus, number> = {
+  valid: 30,
+  risky: 14,
+  invalid: 90,
+  unknown: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VerificationRow {
+  email: string;
+  status: VerificationStatus;
+  provider: 'revenuebase' | 'google_verify' | 'bounce';
+  checked_at: string;
+  catch_all: boolean;
+  role_account: boolean;
+}
+
+/** Interpret a RevenueBase /process-email response */
+export function parseRevenueBaseResult(data: any): { status: VerificationStatus; catchAll: boolean } {
+  const raw = String(data?.status || data?.result || data?.verification_status || '').toLowerCase();
+  const catchAll = raw === 'catch-all' || raw === 'catch_all' || raw === 'accept_all' || data?.catch_all === true || data?.is_catch_all === true;
+  if (raw === 'valid' || raw === 'deliverable' || raw === 'safe' || raw === 'verified') return { status: 'valid', catchAll };
+  if (raw === 'invalid' || raw === 'undeliverable' || raw === 'bounce') return { status: 'invalid', catchAll };
+  if (raw === 'risky' || catchAll) return { status: 'risky', catchAll };
+  return { status: 'unknown', catchAll };
+}
+
+export function isFreshRow(row: Pick<VerificationRow, 'status' | 'checked_at'>, at = new Date()): boolean {
+  const ttl = VERIFICATION_TTL_DAYS[row.status];
+  return ttl !== undefined && new Date(row.checked_at).getTime() + ttl * DAY_MS > at.getTime();
+}
+
+export class VerificationCache {
+  private known = new Map<string, VerificationRow | null>();
+  private pending: VerificationRow[] = [];
+
+  constructor(private supabase: Supabase) {}
+
+  /** Status still inside its TTL, or null when the address has to be checked */
+  async fresh(email: string): Promise<VerificationStatus | null> {
+    const addr = email.trim().toLowerCase();
+    if (!this.known.has(addr)) {
+      const { data, error } = await this.supabase.from('email_verifications').select('*').eq('email', addr).maybeSingle();
+      if (error) console.warn(`email_verifications lookup failed: ${error.message}`);
+      this.known.set(addr, (data as VerificationRow | null) || null);
+    }
+    const row = this.known.get(addr);
+    return row && isFreshRow(row) ? row.status : null;
+  }
+
+  record(email: string, status: VerificationStatus, opts: { catchAll?: boolean; roleAccount?: boolean } = {}) {
+    const row: VerificationRow = {
+      email: email.trim().toLowerCase(),
+      status,
+      provider: 'revenuebase',
+      checked_at: new Date().toISOString(),
+      catch_all: !!opts.catchAll,
+      role_account: !!opts.roleAccount,
+    };
+    this.known.set(row.email, row);
+    this.pending.push(row);
+  }
+
+  async flush(): Promise<void> {
+    const rows = [...new Map(this.pending.map(r => [r.email, r])).values()];
+    this.pending = [];
+    for (let i = 0; i < rows.length; i += 500) {
+      const { error } = await this.supabase.from('email_verifications').upsert(rows.slice(i, i + 500), { onConflict: 'email' });
+      if (error) console.warn(`email_verifications upsert failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+// Server-side twin of the credit ledger in src/utils/enrichmentWaterfall.ts —
+// keep the row shape, provider ids and default credit costs in sync.
+// dm-enrichment-batch books every provider call here, so batch runs and
+// in-app enrichment report hit rate and cost from one ledger (migration 026).
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type Supabase = ReturnType<typeof createClient>;
+
+export type LedgerProvider = 'apollo' | 'npi' | 'leadmagic' | 'pattern' | 'revenuebase';
+export type LedgerField = 'name' | 'title' | 'email' | 'phone' | 'verify';
+
+const DEFAULT_CREDIT_COST: Record<LedgerProvider, number> = {
+  apollo: 0.1,
+  npi: 0,
+  leadmagic: 0.05,
+  pattern: 0,
+  revenuebase: 0.01,
+};
+
+/** Email steps the batch can run, in the default waterfall order */
+export type BatchEmailStep = 'apollo' | 'leadmagic' | 'pattern';
+const BATCH_EMAIL_STEPS: BatchEmailStep[] = ['apollo', 'leadmagic', 'pattern'];
+
+/** The app's configured email order, narrowed to the providers the batch can call */
+export function batchEmailOrder(order: unknown): BatchEmailStep[] {
+  if (!Array.isArray(order)) return BATCH_EMAIL_STEPS;
+  return order.filter((p): p is BatchEmailStep => BATCH_EMAIL_STEPS.includes(p));
+}
+
+export interface LedgerRow {
+  id: string;
+  run_id: string;
+  clinic_id: string | null;
+  provider: LedgerProvider;
+  field: LedgerField;
+  credits: number;
+  cost_usd: number;
+  hit: boolean;
+  filled: string[];
+  emails_found: number;
+  verified_emails: number;
+  error: string | null;
+  created_at: string;
+}
+
+export class LedgerWriter {
+  private rows: LedgerRow[] = [];
+  private costs: Record<LedgerProvider, number>;
+
+  /** `creditCost` is the app's WaterfallConfig.creditCost when the caller passes it */
+  constructor(creditCost?: unknown) {
+    this.costs = { ...DEFAULT_CREDIT_COST };
+    if (creditCost && typeof creditCost === 'object') {
+      for (const [provider, cost] of Object.entries(creditCost as Record<string, unknown>)) {
+        if (provider in this.costs && Number.isFinite(Number(cost))) this.costs[provider as LedgerProvider] = Number(cost);
+      }
+    }
+  }
+
+  /** Returned row stays mutable until flush — set verified_emails once the run's email is verified */
+  record(
+    runId: string,
+    clinicId: string | null,
+    provider: LedgerProvider,
+    field: LedgerField,
+    patch: { credits?: number; hit?: boolean; filled?: string[]; emailsFound?: number; verifiedEmails?: number; error?: string } = {},
+  ): LedgerRow {
+    const credits = patch.credits || 0;
+    const row: LedgerRow = {
+      id: `el-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      run_id: runId,
+      clinic_id: clinicId,
+      provider,
+      field,
+      credits,
+      cost_usd: Math.round(credits * this.costs[provider] * 10000) / 10000,
+      hit: !!patch.hit,
+      filled: patch.filled || [],
+      emails_found: patch.emailsFound || 0,
+      verified_emails: patch.verifiedEmails || 0,
+      error: patch.error || null,
+      created_at: new Date().toISOString(),
+    };
+    this.rows.push(row);
+    return row;
+  }
+
+  get size(): number {
+    return this.rows.length;
+  }
+
+  async flush(supabase: Supabase): Promise<void> {
+    const rows = this.rows;
+    this.rows = [];
+    for (let i = 0; i < rows.length; i += 500) {
+      const { error } = await supabase.from('enrichment_ledger').insert(rows.slice(i, i + 500));
+      if (error) console.warn(`enrichment_ledger insert failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { MailboxRoom, mailboxCap, pickMailboxRoom } from './senderCaps.ts';
+
+const NOW = new Date('2026-06-10T15:00:00Z');
+
+function mailbox(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'm1', status: 'active', warmup_started_at: '2026-06-01T09:00:00Z',
+    warmup_start_cap: 20, warmup_daily_increase: 10, max_daily_cap: 150,
+    ...overrides,
+  };
+}
+
+const quiet = { sent: 0, bounced: 0, complained: 0 };
+
+function room(id: string, cap: number, sentToday: number): MailboxRoom {
+  return { id, provider: 'resend', fromEmail: `${id}@novalyte.io`, fromName: null, cap, sentToday, remaining: Math.max(0, cap - sentToday) };
+}
+
+describe('mailboxCap', () => {
+  it('ramps up by the daily increase until the max cap', () => {
+    // Day 9 of warmup: 20 + 9 × 10
+    expect(mailboxCap(mailbox(), quiet, NOW)).toBe(110);
+    expect(mailboxCap(mailbox({ warmup_started_at: '2026-06-10T08:00:00Z' }), quiet, NOW)).toBe(20);
+    expect(mailboxCap(mailbox({ warmup_started_at: '2026-01-01T00:00:00Z' }), quiet, NOW)).toBe(150);
+  });
+
+  it('halves the cap on warning rates and closes it on block rates or a pause', () => {
+    expect(mailboxCap(mailbox(), { sent: 100, bounced: 5, complained: 0 }, NOW)).toBe(55);
+    expect(mailboxCap(mailbox(), { sent: 100, bounced: 8, complained: 0 }, NOW)).toBe(0);
+    expect(mailboxCap(mailbox(), { sent: 1000, bounced: 0, complained: 5 }, NOW)).toBe(0);
+    expect(mailboxCap(mailbox({ status: 'paused' }), quiet, NOW)).toBe(0);
+  });
+
+  it('ignores rates until the window has enough sends', () => {
+    expect(mailboxCap(mailbox(), { sent: 10, bounced: 5, complained: 1 }, NOW)).toBe(110);
+  });
+});
+
+describe('pickMailboxRoom', () => {
+  it('keeps the mailbox the job was rendered for while it has room', () => {
+    expect(pickMailboxRoom([room('a', 100, 10), room('b', 50, 49)], 'b')?.id).toBe('b');
+  });
+
+  it('moves to the mailbox with the most headroom once that one is full', () => {
+    expect(pickMailboxRoom([room('a', 100, 80), room('b', 50, 50), room('c', 40, 10)], 'b')?.id).toBe('c');
+  });
+
+  it('returns nothing when every mailbox is at its cap', () => {
+    expect(pickMailboxRoom([room('a', 100, 100), room('b', 0, 0)], 'a')).toBeUndefined();
+    expect(pickMailboxRoom([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+// Server-side twin of the health and warmup rules in src/utils/senderPool.ts —
+// keep the thresholds in sync. senderHealth.ts applies them to the database.
+
+export const HEALTH_WINDOW_DAYS = 7;
+export const HEALTH_MIN_SAMPLE = 20;
+export const BOUNCE_WARN_RATE = 0.04;
+export const BOUNCE_BLOCK_RATE = 0.08;
+export const COMPLAINT_WARN_RATE = 0.002;
+export const COMPLAINT_BLOCK_RATE = 0.005;
+export const WARNING_CAP_FACTOR = 0.5;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MailboxRoom {
+  id: string;
+  provider: 'resend' | 'smtp';
+  fromEmail: string;
+  fromName: string | null;
+  /** Today's cap after warmup, health throttling and pausing */
+  cap: number;
+  sentToday: number;
+  remaining: number;
+}
+
+/** Midnight UTC — the browser counts its day from local midnight, close enough for a cap */
+export function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// Warmup ramp + health throttle for one mailbox (computePoolCapacity in the app)
+export function mailboxCap(
+  mailbox: any,
+  window: { sent: number; bounced: number; complained: number },
+  now = new Date(),
+): number {
+  if (mailbox.status === 'paused') return 0;
+  const started = startOfUtcDay(new Date(mailbox.warmup_started_at || 0)).getTime();
+  const day = Math.max(0, Math.floor((startOfUtcDay(now).getTime() - started) / DAY_MS));
+  const ramp = Math.max(0, Math.floor(Math.min(
+    Number(mailbox.max_daily_cap) || 0,
+    (Number(mailbox.warmup_start_cap) || 0) + day * (Number(mailbox.warmup_daily_increase) || 0),
+  )));
+  if (window.sent < HEALTH_MIN_SAMPLE) return ramp;
+  const bounceRate = window.bounced / window.sent;
+  const complaintRate = window.complained / window.sent;
+  if (bounceRate >= BOUNCE_BLOCK_RATE || complaintRate >= COMPLAINT_BLOCK_RATE) return 0;
+  if (bounceRate >= BOUNCE_WARN_RATE || complaintRate >= COMPLAINT_WARN_RATE) return Math.floor(ramp * WARNING_CAP_FACTOR);
+  return ramp;
+}
+
+/** The mailbox the job was rendered for while it has room, else the one with the most headroom (pickMailbox in the app) */
+export function pickMailboxRoom(rooms: MailboxRoom[], preferredId?: string): MailboxRoom | undefined {
+  const open = rooms.filter(r => r.remaining > 0);
+  return open.find(r => r.id === preferredId)
+    || [...open].sort((a, b) => (b.remaining / b.cap) - (a.remaining / a.cap) || b.remaining - a.remaining)[0];
+}
@@ -0,0 +1,100 @@
+// Mailbox health and room checks against the database (the rules themselves
+// are in senderCaps.ts). resend-webhook re-checks a mailbox after every
+// bounce or complaint and pauses it once its last 7 days cross a block
+// threshold; the send functions refuse to send from a paused mailbox, and
+// email-dispatch holds scheduled sends to each mailbox's daily cap.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  BOUNCE_BLOCK_RATE, COMPLAINT_BLOCK_RATE, DAY_MS, HEALTH_MIN_SAMPLE, HEALTH_WINDOW_DAYS, MailboxRoom, mailboxCap, startOfUtcDay,
+} from './senderCaps.ts';
+
+type Supabase = ReturnType<typeof createClient>;
+
+export interface MailboxHealthCheck {
+  sent: number;
+  bounceRate: number;
+  complaintRate: number;
+  paused: boolean;
+  reason?: string;
+}
+
+export async function checkMailboxHealth(supabase: Supabase, mailboxId: string, now = new Date()): Promise<MailboxHealthCheck> {
+  const since = new Date(now.getTime() - HEALTH_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('sent_emails')
+    .select('last_event')
+    .eq('mailbox_id', mailboxId)
+    .gte('sent_at', since);
+  if (error) throw new Error(error.message);
+
+  const rows = (data || []) as { last_event: string }[];
+  const sent = rows.length;
+  const bounceRate = sent ? rows.filter(r => r.last_event === 'bounced').length / sent : 0;
+  const complaintRate = sent ? rows.filter(r => r.last_event === 'complained').length / sent : 0;
+  let reason: string | undefined;
+  if (sent >= HEALTH_MIN_SAMPLE) {
+    if (bounceRate >= BOUNCE_BLOCK_RATE) reason = `Auto-paused: bounce rate ${(bounceRate * 100).toFixed(1)}% over ${HEALTH_WINDOW_DAYS} days`;
+    else if (complaintRate >= COMPLAINT_BLOCK_RATE) reason = `Auto-paused: complaint rate ${(complaintRate * 100).toFixed(2)}% over ${HEALTH_WINDOW_DAYS} days`;
+  }
+  if (!reason) return { sent, bounceRate, complaintRate, paused: false };
+
+  const { error: pauseErr } = await supabase
+    .from('sending_mailboxes')
+    .update({ status: 'paused', paused_reason: reason, updated_at: now.toISOString() })
+    .eq('id', mailboxId)
+    .eq('status', 'active');
+  if (pauseErr) throw new Error(pauseErr.message);
+  return { sent, bounceRate, complaintRate, paused: true, reason };
+}
+
+// Why a mailbox may not send right now, if it is paused. Fails open when the
+// database is unreachable; the client checks capacity too.
+export async function mailboxPauseReason(mailboxId: string): Promise<string | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+  if (!mailboxId || !supabaseUrl || !serviceKey) return null;
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const { data } = await supabase
+      .from('sending_mailboxes')
+      .select('status, paused_reason')
+      .eq('id', mailboxId)
+      .maybeSingle();
+    return data?.status === 'paused' ? String(data.paused_reason || 'Mailbox is paused') : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Room left today in each of a provider's mailboxes, counted from sent_emails */
+export async function loadMailboxRoom(supabase: Supabase, provider: 'resend' | 'smtp', now = new Date()): Promise<MailboxRoom[]> {
+  const { data: mailboxes, error } = await supabase.from('sending_mailboxes').select('*').eq('provider', provider);
+  if (error) throw new Error(error.message);
+
+  const today = startOfUtcDay(now).toISOString();
+  const windowStart = new Date(now.getTime() - HEALTH_WINDOW_DAYS * DAY_MS).toISOString();
+  const count = async (mailboxId: string, since: string, lastEvent?: string) => {
+    let q = supabase.from('sent_emails').select('id', { count: 'exact', head: true }).eq('mailbox_id', mailboxId).gte('sent_at', since);
+    if (lastEvent) q = q.eq('last_event', lastEvent);
+    const { count: n, error: countErr } = await q;
+    if (countErr) throw new Error(countErr.message);
+    return n || 0;
+  };
+
+  const rooms: MailboxRoom[] = [];
+  for (const m of (mailboxes || []) as any[]) {
+    const [sent, bounced, complained, sentToday] = await Promise.all([
+      count(m.id, windowStart),
+      count(m.id, windowStart, 'bounced'),
+      count(m.id, windowStart, 'complained'),
+      count(m.id, today),
+    ]);
+    const cap = mailboxCap(m, { sent, bounced, complained }, now);
+    rooms.push({
+      id: String(m.id), provider, fromEmail: String(m.from_email || ''), fromName: m.from_name || null,
+      cap, sentToday, remaining: Math.max(0, cap - sentToday),
+    });
+  }
+  return rooms;
+}
@@ -0,0 +1,49 @@
+// Message-ID / In-Reply-To / References helpers for resend-send, smtp-send and
+// inbound-email. Parsing is the server-side twin of src/utils/emailThreads.ts —
+// keep in sync.
+
+export function normalizeMessageId(raw?: unknown): string | undefined {
+  const value = String(raw || '').trim();
+  if (!value) return undefined;
+  const bracketed = value.match(/<[^<>\s]+>/);
+  if (bracketed) return bracketed[0];
+  return /^[^\s<>]+@[^\s<>]+$/.test(value) ? `<${value}>` : undefined;
+}
+
+export function parseReferences(raw?: unknown): string[] {
+  const text = Array.isArray(raw) ? raw.join(' ') : String(raw || '');
+  const ids = text.match(/<[^<>\s]+>/g) || [];
+  return Array.from(new Set(ids));
+}
+
+/** Fresh Message-ID on the sending address's domain */
+export function newMessageId(fromAddress: string): string {
+  const domain = (fromAddress.match(/@([^>\s]+)/)?.[1] || 'novalyte.io').toLowerCase();
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+/** Headers that make a reply land in the recipient's existing conversation */
+export function threadingHeaders(inReplyTo?: unknown, references?: unknown): Record<string, string> {
+  const parent = normalizeMessageId(inReplyTo);
+  const refs = parseReferences(references);
+  if (parent && !refs.includes(parent)) refs.push(parent);
+  const headers: Record<string, string> = {};
+  if (parent) headers['In-Reply-To'] = parent;
+  if (refs.length) headers['References'] = refs.join(' ');
+  return headers;
+}
+
+/** Plain-text copy of an HTML body for the CRM thread view */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/li|\/h\d)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
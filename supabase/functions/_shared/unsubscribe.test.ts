@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { appendHtmlFooter, buildUnsubscribeParts, signUnsubscribeToken, verifyUnsubscribeToken } from './unsubscribe.ts';
+
+let env: Record<string, string> = {};
+
+beforeEach(() => {
+  env = { UNSUBSCRIBE_SECRET: 'test-secret', SUPABASE_URL: 'https://proj.supabase.co/' };
+  vi.stubGlobal('Deno', { env: { get: (key: string) => env[key] } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/** Flip one character of a base64url string */
+const tamper = (s: string, at: number) => s.slice(0, at) + (s[at] === 'A' ? 'B' : 'A') + s.slice(at + 1);
+
+describe('unsubscribe tokens', () => {
+  it('round-trips the normalized email and contact id', async () => {
+    const token = await signUnsubscribeToken('  Dr.Lee@Clinic.COM ', 'c1');
+    const payload = await verifyUnsubscribeToken(token);
+    expect(payload).toMatchObject({ email: 'dr.lee@clinic.com', contactId: 'c1' });
+    expect(payload!.issuedAt).toBeGreaterThan(0);
+
+    expect(await verifyUnsubscribeToken(await signUnsubscribeToken('a@b.com'))).toMatchObject({ email: 'a@b.com', contactId: null });
+  });
+
+  it('rejects a token whose payload or signature was changed', async () => {
+    const token = await signUnsubscribeToken('dr@clinic.com', 'c1');
+    const [payload, sig] = token.split('.');
+    expect(await verifyUnsubscribeToken(`${tamper(payload, 3)}.${sig}`)).toBeNull();
+    expect(await verifyUnsubscribeToken(`${payload}.${tamper(sig, 5)}`)).toBeNull();
+    expect(await verifyUnsubscribeToken(`${payload}.${sig.slice(0, -4)}`)).toBeNull();
+
+    // Someone else's payload under our signature
+    const other = (await signUnsubscribeToken('other@clinic.com')).split('.')[0];
+    expect(await verifyUnsubscribeToken(`${other}.${sig}`)).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret, and everything once the secret is gone', async () => {
+    const token = await signUnsubscribeToken('dr@clinic.com');
+    env.UNSUBSCRIBE_SECRET = 'rotated';
+    expect(await verifyUnsubscribeToken(token)).toBeNull();
+
+    env.UNSUBSCRIBE_SECRET = '';
+    expect(await verifyUnsubscribeToken(token)).toBeNull();
+  });
+
+  it('returns null for malformed input instead of throwing', async () => {
+    for (const bad of ['', 'no-dot', '.', 'a.b', '!!!.???', `${btoa('{"c":"x"}')}.abc`]) {
+      expect(await verifyUnsubscribeToken(bad)).toBeNull();
+    }
+  });
+});
+
+describe('buildUnsubscribeParts', () => {
+  it('builds RFC 8058 headers and footers around a verifiable link', async () => {
+    const parts = await buildUnsubscribeParts('dr@clinic.com', 'c1');
+    expect(parts!.url.startsWith('https://proj.supabase.co/functions/v1/unsubscribe?t=')).toBe(true);
+    expect(parts!.headers).toEqual({
+      'List-Unsubscribe': `<${parts!.url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+    expect(parts!.htmlFooter).toContain(`href="${parts!.url}"`);
+    expect(parts!.textFooter).toBe(`\n\n--\nUnsubscribe: ${parts!.url}`);
+
+    const token = decodeURIComponent(new URL(parts!.url).searchParams.get('t')!);
+    expect(await verifyUnsubscribeToken(token)).toMatchObject({ email: 'dr@clinic.com', contactId: 'c1' });
+  });
+
+  it('honours the base URL and mailto settings, and sends nothing unsigned', async () => {
+    env.UNSUBSCRIBE_BASE_URL = 'https://novalyte.io/u';
+    env.UNSUBSCRIBE_MAILTO = 'unsub@novalyte.io';
+    const parts = await buildUnsubscribeParts('dr@clinic.com');
+    expect(parts!.url.startsWith('https://novalyte.io/u?t=')).toBe(true);
+    expect(parts!.headers['List-Unsubscribe']).toBe(`<${parts!.url}>, <mailto:unsub@novalyte.io?subject=unsubscribe>`);
+
+    env.UNSUBSCRIBE_SECRET = '';
+    expect(await buildUnsubscribeParts('dr@clinic.com')).toBeNull();
+  });
+
+  it('puts the HTML footer inside the body when there is one', () => {
+    expect(appendHtmlFooter('<html><BODY><p>Hi</p></BODY></html>', '<div>f</div>')).toBe('<html><BODY><p>Hi</p><div>f</div></BODY></html>');
+    expect(appendHtmlFooter('<p>Hi</p>', '<div>f</div>')).toBe('<p>Hi</p><div>f</div>');
+  });
+});
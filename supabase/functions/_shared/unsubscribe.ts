@@ -0,0 +1,109 @@
+// Shared unsubscribe helpers for the send functions (resend-send, smtp-send)
+// and the unsubscribe endpoint.
+//
+// Tokens are `<base64url(payload)>.<base64url(hmac-sha256(payload))>` where the
+// payload is `{ e: email, c: contactId, t: issuedAtMs }`. They never expire —
+// an unsubscribe link in an old email must keep working.
+//
+// Required secret:
+//   supabase secrets set UNSUBSCRIBE_SECRET=...
+// Optional (defaults to this project's functions URL):
+//   supabase secrets set UNSUBSCRIBE_BASE_URL=https://<project>.functions.supabase.co/unsubscribe
+
+export interface UnsubscribePayload {
+  email: string;
+  contactId: string | null;
+  issuedAt: number;
+}
+
+const encoder = new TextEncoder();
+
+function b64url(bytes: Uint8Array): string {
+  let bin = '';
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromB64url(s: string): Uint8Array {
+  const bin = atob(s.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((s.length + 3) % 4));
+  return Uint8Array.from(bin, ch => ch.charCodeAt(0));
+}
+
+async function hmac(secret: string, data: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+}
+
+function getSecret(): string {
+  return Deno.env.get('UNSUBSCRIBE_SECRET') || '';
+}
+
+export function isUnsubscribeConfigured(): boolean {
+  return Boolean(getSecret());
+}
+
+export async function signUnsubscribeToken(email: string, contactId?: string | null): Promise<string> {
+  const payload = b64url(encoder.encode(JSON.stringify({
+    e: email.trim().toLowerCase(),
+    c: contactId || null,
+    t: Date.now(),
+  })));
+  const sig = b64url(await hmac(getSecret(), payload));
+  return `${payload}.${sig}`;
+}
+
+export async function verifyUnsubscribeToken(token: string): Promise<UnsubscribePayload | null> {
+  const secret = getSecret();
+  const [payload, sig] = String(token || '').split('.');
+  if (!secret || !payload || !sig) return null;
+  try {
+    const expected = await hmac(secret, payload);
+    const given = fromB64url(sig);
+    if (given.length !== expected.length) return null;
+    let diff = 0;
+    for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ given[i];
+    if (diff !== 0) return null;
+    const data = JSON.parse(new TextDecoder().decode(fromB64url(payload)));
+    if (!data?.e) return null;
+    return { email: String(data.e), contactId: data.c ? String(data.c) : null, issuedAt: Number(data.t) || 0 };
+  } catch {
+    return null;
+  }
+}
+
+export function unsubscribeBaseUrl(): string {
+  const explicit = Deno.env.get('UNSUBSCRIBE_BASE_URL') || '';
+  if (explicit) return explicit;
+  return `${(Deno.env.get('SUPABASE_URL') || '').replace(/\/$/, '')}/functions/v1/unsubscribe`;
+}
+
+/**
+ * Everything a send function needs to make a message compliant:
+ * RFC 8058 one-click headers plus HTML / text footers with the same link.
+ */
+export async function buildUnsubscribeParts(email: string, contactId?: string | null): Promise<{
+  url: string;
+  headers: Record<string, string>;
+  htmlFooter: string;
+  textFooter: string;
+} | null> {
+  if (!isUnsubscribeConfigured()) return null;
+  const token = await signUnsubscribeToken(email, contactId);
+  const url = `${unsubscribeBaseUrl()}?t=${encodeURIComponent(token)}`;
+  const mailto = Deno.env.get('UNSUBSCRIBE_MAILTO') || '';
+  return {
+    url,
+    headers: {
+      'List-Unsubscribe': mailto ? `<${url}>, <mailto:${mailto}?subject=unsubscribe>` : `<${url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+    htmlFooter: `<div style="font-family:Inter,Arial,sans-serif;max-width:600px;margin:0 auto;padding:0 24px 24px;color:#94a3b8;font-size:11px;line-height:1.6;">Don't want to hear from us? <a href="${url}" style="color:#94a3b8;text-decoration:underline;">Unsubscribe</a>.</div>`,
+    textFooter: `\n\n--\nUnsubscribe: ${url}`,
+  };
+}
+
+/** Append the footer inside </body> when present, otherwise at the end */
+export function appendHtmlFooter(html: string, footer: string): string {
+  const idx = html.toLowerCase().lastIndexOf('</body>');
+  return idx >= 0 ? `${html.slice(0, idx)}${footer}${html.slice(idx)}` : `${html}${footer}`;
+}
@@ -0,0 +1,142 @@
+// Server-side twin of src/utils/voicemailFollowUp.ts — decides what happens
+// after the voice agent leaves a voicemail on a queued call, with the same
+// rules checked in order:
+//   1. third voicemail without a pickup → stop, mark no answer
+//   2. already in an active sequence   → let that sequence carry on
+//   3. reachable by email               → Voicemail Follow-Up sequence (email 2h later)
+//   4. otherwise                        → call back in 2 days (call-dispatch defers into the window)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type Supabase = ReturnType<typeof createClient>;
+
+export const VOICEMAIL_FOLLOW_UP_SEQUENCE_ID = 'seq-voicemail-follow-up';
+const EMAIL_DELAY_HOURS = 2;
+const CALL_BACK_DAYS = 2;
+const MAX_VOICEMAIL_DROPS = 3;
+
+export interface VoicemailFollowUpPlan {
+  rule: 'max_drops' | 'in_sequence' | 'email_follow_up' | 'call_back';
+  action: 'email' | 'call_back' | 'continue_sequence' | 'stop';
+  status: string;
+  at?: Date;
+  email?: string;
+  description: string;
+}
+
+async function planFollowUp(supabase: Supabase, contactId: string, now: Date): Promise<VoicemailFollowUpPlan> {
+  const { count: previousDrops } = await supabase
+    .from('activities')
+    .select('id', { count: 'exact', head: true })
+    .eq('contact_id', contactId)
+    .eq('type', 'voicemail_left');
+  const drops = (previousDrops || 0) + 1;
+  if (drops >= MAX_VOICEMAIL_DROPS) {
+    return { rule: 'max_drops', action: 'stop', status: 'no_answer', description: `${drops} voicemails without a pickup — stopped dialing` };
+  }
+
+  const { count: enrolled } = await supabase
+    .from('sequence_enrollments')
+    .select('id', { count: 'exact', head: true })
+    .eq('contact_id', contactId)
+    .in('status', ['active', 'paused']);
+  if (enrolled) {
+    return { rule: 'in_sequence', action: 'continue_sequence', status: 'follow_up', description: 'Already in a sequence — next touch comes from the sequence' };
+  }
+
+  const { data: contact } = await supabase
+    .from('contacts')
+    .select('clinic_id, decision_maker_id')
+    .eq('id', contactId)
+    .maybeSingle();
+  const { data: dm } = contact?.decision_maker_id
+    ? await supabase.from('decision_makers').select('email').eq('id', contact.decision_maker_id).maybeSingle()
+    : { data: null };
+  const { data: clinic } = contact?.clinic_id
+    ? await supabase.from('clinics').select('email').eq('id', contact.clinic_id).maybeSingle()
+    : { data: null };
+  const email: string | undefined = dm?.email || clinic?.email || undefined;
+
+  if (email) {
+    const { data: hits } = await supabase.rpc('suppression_match', { p_email: email });
+    if (!(Array.isArray(hits) ? hits.length : hits)) {
+      return {
+        rule: 'email_follow_up',
+        action: 'email',
+        status: 'follow_up',
+        email,
+        at: new Date(now.getTime() + EMAIL_DELAY_HOURS * 3_600_000),
+        description: `Follow-up email referencing the voicemail to ${email} in ${EMAIL_DELAY_HOURS}h`,
+      };
+    }
+  }
+
+  return {
+    rule: 'call_back',
+    action: 'call_back',
+    status: 'call_scheduled',
+    at: new Date(now.getTime() + CALL_BACK_DAYS * 86_400_000),
+    description: `No usable email — call back in ${CALL_BACK_DAYS} days`,
+  };
+}
+
+/**
+ * Log the voicemail drop, pick the next step and apply it to the contact.
+ * Call backs are left to the caller (the call job is re-queued for plan.at).
+ */
+export async function recordVoicemailDrop(
+  supabase: Supabase,
+  contactId: string,
+  callId: string,
+  callJobId?: string,
+): Promise<VoicemailFollowUpPlan> {
+  const now = new Date();
+  const plan = await planFollowUp(supabase, contactId, now);
+
+  if (plan.action === 'email' && plan.at) {
+    const { error } = await supabase.from('sequence_enrollments').insert({
+      id: `enr_${crypto.randomUUID()}`,
+      contact_id: contactId,
+      sequence_id: VOICEMAIL_FOLLOW_UP_SEQUENCE_ID,
+      status: 'active',
+      current_step_id: 'voicemail_email',
+      due_at: plan.at.toISOString(),
+      step_runs: [
+        { stepId: 'voicemail_email', status: 'pending' },
+        { stepId: 'call_back', status: 'pending' },
+      ],
+      applied_branches: [],
+      enrolled_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    });
+    if (error) console.error('Failed to enroll voicemail follow-up:', error);
+  }
+
+  const { error: contactError } = await supabase
+    .from('contacts')
+    .update({
+      status: plan.status,
+      ...(plan.at || plan.action === 'stop' ? { next_follow_up: plan.at?.toISOString() || null } : {}),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', contactId);
+  if (contactError) console.error('Failed to update contact after voicemail:', contactError);
+
+  const { error: actError } = await supabase.from('activities').insert({
+    id: `act-${Date.now()}-${crypto.randomUUID().slice(0, 4)}`,
+    contact_id: contactId,
+    type: 'voicemail_left',
+    description: `Voicemail left — ${plan.description}`,
+    metadata: {
+      callId,
+      callJobId: callJobId || null,
+      nextStep: plan.action,
+      rule: plan.rule,
+      dueAt: plan.at?.toISOString() || null,
+    },
+    timestamp: now.toISOString(),
+  });
+  if (actError) console.error('Failed to log voicemail activity:', actError);
+
+  return plan;
+}
@@ -0,0 +1,212 @@
+// Supabase Edge Function: call-dispatch
+// Claims due call_jobs (respecting pause + the global concurrency limit) and
+// dials them through Vapi. Outcomes arrive through vapi-call-webhook.
+//
+// Deploy:
+//   supabase functions deploy call-dispatch
+//   supabase secrets set VAPI_API_KEY=... VAPI_PHONE_NUMBER_ID=... VAPI_ASSISTANT_ID=...
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isWithinCallingWindow, loadRetryPolicy, retryOrFail } from '../_shared/callJobs.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const VAPI_BASE = 'https://api.vapi.ai';
+const OUT_OF_WINDOW_RECHECK_MS = 30 * 60_000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const batchSize = Math.max(1, Math.min(20, Number(body?.batchSize || 5)));
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const vapiApiKey = Deno.env.get('VAPI_API_KEY') || '';
+    const vapiPhoneNumberId = Deno.env.get('VAPI_PHONE_NUMBER_ID') || '';
+    const vapiAssistantId = Deno.env.get('VAPI_ASSISTANT_ID') || '';
+
+    if (!supabaseUrl || !serviceKey) {
+      return new Response(JSON.stringify({ error: 'Supabase service role is not configured' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    const { data: control } = await supabase
+      .from('call_queue_control')
+      .select('is_paused, emergency_stop')
+      .eq('id', 'global')
+      .single();
+
+    if (control?.is_paused || control?.emergency_stop) {
+      return new Response(JSON.stringify({ ok: true, paused: true, processed: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const workerId = `edge-${crypto.randomUUID().slice(0, 8)}`;
+    const { data: jobs, error: claimError } = await supabase.rpc('claim_call_jobs', {
+      p_worker: workerId,
+      p_batch: batchSize,
+    });
+
+    if (claimError) {
+      return new Response(JSON.stringify({ error: claimError.message }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!jobs?.length) {
+      return new Response(JSON.stringify({ ok: true, processed: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const policy = await loadRetryPolicy(supabase);
+    let processed = 0;
+    let dispatched = 0;
+    let deferred = 0;
+    let failed = 0;
+
+    for (const job of jobs) {
+      processed += 1;
+      const now = new Date();
+      const payload = job.payload || {};
+
+      // Suppression can change between enqueue and dial.
+      const { data: hits } = await supabase.rpc('suppression_match', { p_phone: job.phone });
+      const hit = Array.isArray(hits) ? hits[0] : hits;
+      if (hit) {
+        await supabase
+          .from('call_jobs')
+          .update({
+            status: 'cancelled',
+            outcome_reason: `Suppressed (${String(hit.reason || 'dnc').replace(/_/g, ' ')})`,
+            completed_at: now.toISOString(),
+            updated_at: now.toISOString(),
+          })
+          .eq('id', job.id);
+        continue;
+      }
+
+      // Retries can land outside the clinic's local window — put them back without spending an attempt.
+      if (!isWithinCallingWindow(now, payload.timezone, payload.callingWindow)) {
+        deferred += 1;
+        await supabase
+          .from('call_jobs')
+          .update({
+            status: 'pending',
+            attempts: Math.max(0, Number(job.attempts || 1) - 1),
+            locked_by: null,
+            locked_at: null,
+            next_attempt_at: new Date(now.getTime() + OUT_OF_WINDOW_RECHECK_MS).toISOString(),
+            updated_at: now.toISOString(),
+          })
+          .eq('id', job.id);
+        continue;
+      }
+
+      if (!vapiApiKey || !vapiPhoneNumberId || !vapiAssistantId) {
+        failed += 1;
+        await supabase
+          .from('call_jobs')
+          .update({
+            status: 'failed',
+            outcome_reason: 'Vapi is not configured on backend worker',
+            completed_at: now.toISOString(),
+            updated_at: now.toISOString(),
+          })
+          .eq('id', job.id);
+        continue;
+      }
+
+      try {
+        const response = await fetch(`${VAPI_BASE}/call/phone`, {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${vapiApiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            assistantId: vapiAssistantId,
+            phoneNumberId: vapiPhoneNumberId,
+            customer: payload.customer || { number: job.phone },
+            metadata: { ...(payload.metadata || {}), contactId: job.contact_id, callJobId: job.id },
+            assistantOverrides: payload.assistantOverrides || undefined,
+          }),
+        });
+
+        if (!response.ok) {
+          const msg = await response.text();
+          failed += 1;
+          await retryOrFail(supabase, job, 'failed', `Call dispatch failed (${response.status}): ${msg.slice(0, 300)}`, policy);
+          continue;
+        }
+
+        const callData = await response.json();
+        dispatched += 1;
+
+        await supabase
+          .from('call_jobs')
+          .update({
+            status: 'in_call',
+            call_id: callData?.id || null,
+            call_status: callData?.status || 'queued',
+            last_error: null,
+            dispatched_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', job.id);
+
+        await supabase
+          .from('contacts')
+          .update({ status: 'called', last_contacted_at: now.toISOString(), updated_at: now.toISOString() })
+          .eq('id', job.contact_id);
+
+        const { error: actError } = await supabase.from('activities').insert({
+          id: `act-${Date.now()}-${crypto.randomUUID().slice(0, 4)}`,
+          contact_id: job.contact_id,
+          type: 'call_made',
+          description: `Outbound call dispatched from call queue (attempt ${job.attempts})`,
+          metadata: { callId: callData?.id || null, callJobId: job.id, batchId: job.batch_id || null },
+          timestamp: now.toISOString(),
+        });
+        if (actError) console.error('Failed to log call activity:', actError);
+      } catch (err) {
+        failed += 1;
+        await retryOrFail(
+          supabase,
+          job,
+          'failed',
+          `Call dispatch exception: ${err instanceof Error ? err.message : 'unknown error'}`,
+          policy,
+        );
+      }
+    }
+
+    return new Response(JSON.stringify({
+      ok: true,
+      processed,
+      dispatched,
+      deferred,
+      failed,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (err) {
+    console.error('call-dispatch error', err);
+    return new Response(JSON.stringify({ error: 'Internal error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
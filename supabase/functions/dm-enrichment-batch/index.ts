@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { BatchEmailStep, LedgerRow, LedgerWriter, batchEmailOrder } from '../_shared/enrichmentLedger.ts';
+import { VerificationCache, VerificationStatus, parseRevenueBaseResult } from '../_shared/emailVerificationCache.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -50,14 +52,6 @@ function normalizeApolloStatus(raw: unknown): 'valid' | 'unknown' {
   return String(raw || '').toLowerCase() === 'verified' ? 'valid' : 'unknown';
 }
 
-function normalizeRevenueBaseStatus(raw: unknown): 'valid' | 'invalid' | 'risky' | 'unknown' {
-  const s = String(raw || '').toLowerCase();
-  if (s === 'valid' || s === 'deliverable' || s === 'safe' || s === 'verified') return 'valid';
-  if (s === 'invalid' || s === 'undeliverable' || s === 'bounce') return 'invalid';
-  if (s === 'risky' || s === 'catch-all' || s === 'catch_all' || s === 'accept_all') return 'risky';
-  return 'unknown';
-}
-
 function normalizeLeadMagicStatus(raw: unknown): 'valid' | 'invalid' | 'risky' | 'unknown' {
   const s = String(raw || '').toLowerCase();
   if (s === 'valid') return 'valid';
@@ -190,7 +184,8 @@ async function searchApollo(clinic: any, apiKey: string): Promise<any[]> {
   return Array.isArray(data?.people) ? data.people : [];
 }
 
-async function verifyWithRevenueBase(email: string, revenueBaseKey: string): Promise<'valid' | 'invalid' | 'risky' | 'unknown'> {
+/** Null when RevenueBase could not be reached — such a miss is not cached */
+async function verifyWithRevenueBase(email: string, revenueBaseKey: string): Promise<{ status: VerificationStatus; catchAll: boolean } | null> {
   try {
     const response = await fetchWithTimeout('https://api.revenuebase.ai/v1/process-email', {
       method: 'POST',
@@ -202,14 +197,13 @@ async function verifyWithRevenueBase(email: string, revenueBaseKey: string): Pro
     }, 8000);
 
     if (!response.ok) {
-      if (response.status === 400 || response.status === 422) return 'invalid';
-      return 'unknown';
+      if (response.status === 400 || response.status === 422) return { status: 'invalid', catchAll: false };
+      return null;
     }
 
-    const data = await response.json();
-    return normalizeRevenueBaseStatus(data?.status || data?.result || data?.verification_status);
+    return parseRevenueBaseResult(await response.json());
   } catch {
-    return 'unknown';
+    return null;
   }
 }
 
@@ -418,8 +412,14 @@ serve(async (req) => {
       verifiedUnknownEmails: 0,
     };
 
+    // Same email order and credit costs as the app's enrichment waterfall, when it passes them
+    const emailOrder = batchEmailOrder(body?.waterfall?.emailOrder);
+    const ledger = new LedgerWriter(body?.waterfall?.creditCost);
+    // Results shared with the app — a fresh one costs no RevenueBase credit
+    const verifications = new VerificationCache(supabase);
+
     let leadMagicBlocked = false;
-    const verifyCache = new Map<string, 'valid' | 'invalid' | 'risky' | 'unknown'>();
+    const verifyCache = new Map<string, VerificationStatus>();
 
     for (const clinic of targets) {
       const apiKey = nextApolloKey();
@@ -429,28 +429,46 @@ serve(async (req) => {
       const domain = extractDomain(clinic.website);
       if (!domain) continue;
 
+      const runId = `ewr-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
       let best: any = null;
       let source: 'apollo' | 'leadmagic' | 'npi_guess' = 'apollo';
-
-      if (apiKey) {
-        let people: any[] = [];
-        try {
-          people = await searchApollo(clinic, apiKey);
-        } catch (err: any) {
-          if (err?.status === 403 || err?.status === 429) {
-            exhausted.add(keyIndex);
-            summary.exhaustedApolloKeys = exhausted.size;
-          }
-          if (err?.status === 403) {
-            const msg = String(err?.message || '').toUpperCase();
-            if (msg.includes('API_INACCESSIBLE') || msg.includes('NOT ACCESSIBLE')) {
-              summary.apolloRestricted += 1;
+      // The ledger row of the step that found `best`, credited once the email verifies
+      let bestRow = null as LedgerRow | null;
+
+      const verify = async (email: string) => {
+        const cached = verifyCache.get(email) || await verifications.fresh(email);
+        if (cached) return cached;
+        const result = await verifyWithRevenueBase(email, revenueBaseKey);
+        const status = result?.status || 'unknown';
+        verifyCache.set(email, status);
+        if (result) verifications.record(email, status, { catchAll: result.catchAll, roleAccount: isGenericEmail(email) });
+        ledger.record(runId, clinic.id, 'revenuebase', 'verify', {
+          credits: 1, hit: status !== 'unknown', verifiedEmails: status === 'valid' ? 1 : 0,
+        });
+        return status;
+      };
+
+      const steps: Record<BatchEmailStep, () => Promise<void>> = {
+        apollo: async () => {
+          if (!apiKey) return;
+          let people: any[] = [];
+          let error: string | undefined;
+          try {
+            people = await searchApollo(clinic, apiKey);
+          } catch (err: any) {
+            error = String(err?.message || err);
+            if (err?.status === 403 || err?.status === 429) {
+              exhausted.add(keyIndex);
+              summary.exhaustedApolloKeys = exhausted.size;
+            }
+            if (err?.status === 403) {
+              const msg = String(err?.message || '').toUpperCase();
+              if (msg.includes('API_INACCESSIBLE') || msg.includes('NOT ACCESSIBLE')) {
+                summary.apolloRestricted += 1;
+              }
             }
           }
-        }
 
-        if (people.length) {
-          summary.apolloHits += 1;
           const mapped = people
             .filter((p: any) => p.first_name && p.last_name && p.email)
             .map((p: any) => {
@@ -479,78 +497,106 @@ serve(async (req) => {
               if (p !== 0) return p;
               return b.confidence - a.confidence;
             });
+          if (people.length) summary.apolloHits += 1;
           best = mapped[0] || null;
-        }
-      }
-
-      if (!best && leadMagicKey && !leadMagicBlocked) {
-        const employeesRes = await leadMagicEmployeeFinder(leadMagicKey, domain, clinic.name, 12);
-        if (employeesRes.insufficientCredits) {
-          leadMagicBlocked = true;
-          summary.leadMagicInsufficientCredits = 1;
-        }
-        const employees = employeesRes.employees;
-
-        if (employees.length) {
-          const dmTitlePattern = /owner|founder|director|ceo|manager|administrator|partner|president|chief|vp|head|medical director|practice/i;
-          const prioritized = employees.filter((e) => dmTitlePattern.test(e.title || ''));
-          const candidates = (prioritized.length ? prioritized : employees)
-            .sort((a, b) => titleScore(b.title) - titleScore(a.title))
-            .slice(0, 3);
-
-          for (const person of candidates) {
-            const { firstName, lastName } = splitName(person.name);
-            if (!firstName || !lastName) continue;
-            const emailRes = await leadMagicEmailFinder(leadMagicKey, firstName, lastName, domain, clinic.name);
-            if (emailRes.insufficientCredits) {
-              leadMagicBlocked = true;
-              summary.leadMagicInsufficientCredits = 1;
+          const row = ledger.record(runId, clinic.id, 'apollo', 'email', {
+            credits: 1,
+            hit: !!best,
+            filled: best ? ['name', 'title', 'email', ...(best.phone ? ['phone'] : [])] : [],
+            emailsFound: mapped.length,
+            error,
+          });
+          if (best) bestRow = row;
+        },
+
+        leadmagic: async () => {
+          if (!leadMagicKey || leadMagicBlocked) return;
+          const employeesRes = await leadMagicEmployeeFinder(leadMagicKey, domain, clinic.name, 12);
+          if (employeesRes.insufficientCredits) {
+            leadMagicBlocked = true;
+            summary.leadMagicInsufficientCredits = 1;
+          }
+          const employees = employeesRes.employees;
+          // Employee finder bills 0.05 credits per employee, email finder 1 per address found
+          let credits = employees.length * 0.05;
+
+          if (employees.length) {
+            const dmTitlePattern = /owner|founder|director|ceo|manager|administrator|partner|president|chief|vp|head|medical director|practice/i;
+            const prioritized = employees.filter((e) => dmTitlePattern.test(e.title || ''));
+            const candidates = (prioritized.length ? prioritized : employees)
+              .sort((a, b) => titleScore(b.title) - titleScore(a.title))
+              .slice(0, 3);
+
+            for (const person of candidates) {
+              const { firstName, lastName } = splitName(person.name);
+              if (!firstName || !lastName) continue;
+              const emailRes = await leadMagicEmailFinder(leadMagicKey, firstName, lastName, domain, clinic.name);
+              if (emailRes.insufficientCredits) {
+                leadMagicBlocked = true;
+                summary.leadMagicInsufficientCredits = 1;
+                break;
+              }
+              const emailResult = emailRes.result;
+              if (!emailResult?.email) continue;
+              credits += 1;
+              const role = inferRole(person.title || '');
+              const confidence = emailResult.status === 'valid' ? 92 : emailResult.status === 'risky' ? 75 : 66;
+              best = {
+                sourceId: `${firstName.toLowerCase()}-${lastName.toLowerCase()}-${domain}`,
+                firstName,
+                lastName,
+                title: person.title || 'Decision Maker',
+                role,
+                email: emailResult.email,
+                phone: null,
+                linkedInUrl: person.profileUrl || null,
+                confidence,
+                status: emailResult.status,
+              };
+              source = 'leadmagic';
+              summary.leadMagicHits += 1;
               break;
             }
-            const emailResult = emailRes.result;
-            if (!emailResult?.email) continue;
-            const role = inferRole(person.title || '');
-            const confidence = emailResult.status === 'valid' ? 92 : emailResult.status === 'risky' ? 75 : 66;
-            best = {
-              sourceId: `${firstName.toLowerCase()}-${lastName.toLowerCase()}-${domain}`,
-              firstName,
-              lastName,
-              title: person.title || 'Decision Maker',
-              role,
-              email: emailResult.email,
-              phone: null,
-              linkedInUrl: person.profileUrl || null,
-              confidence,
-              status: emailResult.status,
-            };
-            source = 'leadmagic';
-            summary.leadMagicHits += 1;
-            break;
           }
-        }
-      }
 
-      if (!best && revenueBaseKey) {
-        // NPI registry: find an authorized official name, then guess likely email patterns
-        // and verify them via RevenueBase. This works even when Apollo/LeadMagic are blocked.
-        try {
-          const official = await lookupNpiAuthorizedOfficial(clinic);
-          if (official?.firstName && official?.lastName) {
+          const row = ledger.record(runId, clinic.id, 'leadmagic', 'email', {
+            credits,
+            hit: employees.length > 0 || !!best,
+            filled: best ? ['name', 'title', 'email'] : employees.length ? ['name', 'title'] : [],
+            emailsFound: best ? 1 : 0,
+          });
+          if (best) bestRow = row;
+        },
+
+        pattern: async () => {
+          if (!revenueBaseKey) return;
+          // NPI registry: find an authorized official name, then guess likely email patterns
+          // and verify them via RevenueBase. This works even when Apollo/LeadMagic are blocked.
+          try {
+            const official = await lookupNpiAuthorizedOfficial(clinic);
+            ledger.record(runId, clinic.id, 'npi', 'name', {
+              hit: !!(official?.firstName && official?.lastName),
+              filled: official?.firstName && official?.lastName ? ['name', 'title', ...(official.phone ? ['phone'] : [])] : [],
+            });
+            if (!official?.firstName || !official?.lastName) return;
             summary.npiHits += 1;
             const candidates = generateEmailCandidates(official.firstName, official.lastName, domain)
               .filter((e) => !isGenericEmail(e));
 
             let guessed: { email: string; status: 'valid' | 'invalid' | 'risky' | 'unknown' } | null = null;
             for (const email of candidates.slice(0, 8)) {
-              const cached = verifyCache.get(email);
-              const status = cached ?? await verifyWithRevenueBase(email, revenueBaseKey);
-              verifyCache.set(email, status);
+              const status = await verify(email);
               summary.npiGuessAttempts += 1;
               if (status === 'invalid') continue;
               guessed = { email, status };
               if (status === 'valid') break;
             }
 
+            const row = ledger.record(runId, clinic.id, 'pattern', 'email', {
+              hit: !!guessed,
+              filled: guessed ? ['email'] : [],
+              emailsFound: guessed ? 1 : 0,
+            });
             if (guessed?.email) {
               const confidence = guessed.status === 'valid' ? 88 : guessed.status === 'risky' ? 74 : 66;
               best = {
@@ -566,20 +612,27 @@ serve(async (req) => {
                 status: guessed.status,
               };
               source = 'npi_guess';
+              bestRow = row;
             }
+          } catch {
+            // Ignore NPI errors; continue.
           }
-        } catch {
-          // Ignore NPI errors; continue.
-        }
+        },
+      };
+
+      for (const step of emailOrder) {
+        if (best) break;
+        await steps[step]();
       }
 
       if (!best?.email || isGenericEmail(best.email)) continue;
 
       let finalStatus: 'valid' | 'invalid' | 'risky' | 'unknown' = best.status;
       if (finalStatus !== 'valid' && revenueBaseKey) {
-        finalStatus = await verifyWithRevenueBase(best.email, revenueBaseKey);
+        finalStatus = await verify(best.email);
       }
       const emailVerified = finalStatus === 'valid';
+      if (emailVerified && bestRow) bestRow.verified_emails += 1;
 
       summary.emailsFound += 1;
       if (finalStatus === 'valid') summary.validFound += 1;
@@ -629,8 +682,17 @@ serve(async (req) => {
             .filter(e => !isGenericEmail(e)),
         ));
 
+        const runId = `ewr-${Date.now()}-verify`;
         for (const email of uniqueEmails) {
-          const status = await verifyWithRevenueBase(email, revenueBaseKey);
+          let status = await verifications.fresh(email);
+          if (!status) {
+            const result = await verifyWithRevenueBase(email, revenueBaseKey);
+            status = result?.status || 'unknown';
+            if (result) verifications.record(email, status, { catchAll: result.catchAll });
+            ledger.record(runId, null, 'revenuebase', 'verify', {
+              credits: 1, hit: status !== 'unknown', verifiedEmails: status === 'valid' ? 1 : 0,
+            });
+          }
           if (status === 'unknown') continue;
 
           const patch = {
@@ -657,8 +719,14 @@ serve(async (req) => {
       }
     }
 
+    const ledgerRows = ledger.size;
+    await ledger.flush(supabase);
+    await verifications.flush();
+
     return new Response(JSON.stringify({
       ok: true,
+      ledgerRows,
+      emailOrder,
       limit,
       verifyUnknown,
       verifyLimit,
@@ -0,0 +1,166 @@
+// Supabase Edge Function: email-dispatch
+// Claims due email_send_jobs (queued for each recipient's best local send
+// time, see src/utils/sendTime.ts) and sends them through resend-send or
+// smtp-send, which keep doing suppression, mailbox-pause and sent_emails
+// bookkeeping.
+//
+// The mailbox is settled here, not when the job was queued: a queued job
+// doesn't count against the sender pool, so each send is held to its
+// mailbox's warmup / daily cap now. A full mailbox hands the job to the one
+// with the most room; when the whole pool is full the job moves a day on,
+// keeping its local send hour.
+//
+// Deploy:
+//   supabase functions deploy email-dispatch
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadMailboxRoom } from '../_shared/senderHealth.ts';
+import { MailboxRoom, pickMailboxRoom, startOfUtcDay } from '../_shared/senderCaps.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RETRY_DELAY_MS = 15 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+function json(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// The job's payload re-addressed to another pool mailbox
+function withMailbox(provider: string, payload: Record<string, unknown>, room: MailboxRoom): Record<string, unknown> {
+  if (payload.mailboxId === room.id) return payload;
+  if (provider === 'smtp') return { ...payload, mailboxId: room.id, fromEmail: room.fromEmail || undefined };
+  const name = String(payload.from || '').match(/^\s*"?([^"<]*?)"?\s*</)?.[1]?.trim() || room.fromName || 'Novalyte AI';
+  return { ...payload, mailboxId: room.id, from: `${name} <${room.fromEmail}>` };
+}
+
+// Same time of day, on the first day the pool's caps have reset
+function nextDaySameTime(sendAt: string, now: Date): string {
+  const tomorrow = startOfUtcDay(now).getTime() + DAY_MS;
+  let t = new Date(sendAt).getTime();
+  while (t < tomorrow) t += DAY_MS;
+  return new Date(t).toISOString();
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const batchSize = Math.max(1, Math.min(50, Number(body?.batchSize || 10)));
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    if (!supabaseUrl || !serviceKey) return json({ error: 'Supabase service role is not configured' }, 500);
+
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const workerId = `edge-${crypto.randomUUID().slice(0, 8)}`;
+    const { data: jobs, error: claimError } = await supabase.rpc('claim_email_send_jobs', {
+      p_worker: workerId,
+      p_batch: batchSize,
+    });
+    if (claimError) return json({ error: claimError.message }, 500);
+    if (!jobs?.length) return json({ ok: true, processed: 0 });
+
+    let sent = 0;
+    let cancelled = 0;
+    let failed = 0;
+    let deferred = 0;
+    const now = new Date();
+    const rooms = new Map<string, MailboxRoom[]>();
+
+    const settle = (id: string, patch: Record<string, unknown>) =>
+      supabase
+        .from('email_send_jobs')
+        .update({ ...patch, locked_by: null, locked_at: null, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+    for (const job of jobs) {
+      // The sequence may have exited (reply, bounce, manual stop) or moved on since the send was queued
+      if (job.sequence_enrollment_id) {
+        const { data: enrollment } = await supabase
+          .from('sequence_enrollments')
+          .select('status, current_step_id')
+          .eq('id', job.sequence_enrollment_id)
+          .maybeSingle();
+        if (enrollment && (enrollment.status !== 'active' || enrollment.current_step_id !== job.sequence_step_id)) {
+          cancelled += 1;
+          await settle(job.id, { status: 'cancelled', last_error: `Sequence is ${enrollment.status === 'active' ? 'on another step' : enrollment.status}` });
+          continue;
+        }
+      }
+
+      const fn = job.provider === 'smtp' ? 'smtp-send' : 'resend-send';
+      try {
+        if (!rooms.has(job.provider)) rooms.set(job.provider, await loadMailboxRoom(supabase, job.provider, now));
+        const pool = rooms.get(job.provider)!;
+        // No pool configured (migration 022 not run) — send from the mailbox it was rendered for
+        const room = pool.length ? pickMailboxRoom(pool, String(job.payload?.mailboxId || '')) : undefined;
+        if (pool.length && !room) {
+          deferred += 1;
+          await settle(job.id, {
+            status: 'pending',
+            attempts: Math.max(0, Number(job.attempts || 1) - 1),
+            send_at: nextDaySameTime(job.send_at, now),
+            last_error: `Every ${job.provider === 'smtp' ? 'SMTP' : 'Resend'} mailbox is at today's cap`,
+          });
+          continue;
+        }
+        const payload = room ? withMailbox(job.provider, job.payload || {}, room) : (job.payload || {});
+
+        const resp = await fetch(`${supabaseUrl.replace(/\/$/, '')}/functions/v1/${fn}`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${serviceKey}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...payload,
+            sequenceEnrollmentId: job.sequence_enrollment_id || undefined,
+            sequenceStepId: job.sequence_step_id || undefined,
+          }),
+        });
+        const data = await resp.json().catch(() => ({}));
+        const emailId = String(data?.id || '');
+
+        if (resp.ok && emailId && data?.ok !== false) {
+          sent += 1;
+          if (room) { room.sentToday += 1; room.remaining = Math.max(0, room.remaining - 1); }
+          await settle(job.id, { status: 'sent', sent_email_id: emailId, sent_at: new Date().toISOString(), last_error: null });
+          continue;
+        }
+
+        // Suppressed recipient or paused mailbox: retrying will not help
+        const error = String(data?.error || `${fn} failed (${resp.status})`).slice(0, 500);
+        if (resp.status === 409) {
+          if (data?.suppressed) cancelled += 1;
+          else failed += 1;
+          await settle(job.id, { status: data?.suppressed ? 'cancelled' : 'failed', last_error: error });
+          continue;
+        }
+        throw new Error(error);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'unknown error';
+        const attempts = Number(job.attempts || 1);
+        if (attempts < Number(job.max_attempts || 3)) {
+          await settle(job.id, {
+            status: 'pending',
+            last_error: error,
+            send_at: new Date(Date.now() + RETRY_DELAY_MS * attempts).toISOString(),
+          });
+        } else {
+          failed += 1;
+          await settle(job.id, { status: 'failed', last_error: `${error} (after ${attempts} attempts)` });
+        }
+      }
+    }
+
+    return json({ ok: true, processed: jobs.length, sent, cancelled, failed, deferred });
+  } catch (err) {
+    return json({ error: err instanceof Error ? err.message : 'Unknown error' }, 500);
+  }
+});
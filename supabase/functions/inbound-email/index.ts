@@ -1,7 +1,8 @@
 // Supabase Edge Function: inbound-email
 // Receives inbound emails (replies) and attaches them to a contact by:
-// 1) Explicit contact id header (best case), else
-// 2) Matching sender address to sent_emails.to_email (most common case).
+// 1) In-Reply-To / References pointing at one of our sent_emails.message_id, else
+// 2) Explicit contact id header, else
+// 3) Matching sender address to sent_emails.to_email (most common case).
 //
 // This is provider-agnostic. You can point Resend Inbound Parse, SendGrid Inbound,
 // Mailgun Routes, or any webhook to this endpoint as long as it posts JSON with
@@ -9,6 +10,7 @@
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizeMessageId, parseReferences } from '../_shared/threading.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -114,10 +116,32 @@ serve(async (req) => {
     });
   }
 
+  const messageId = normalizeMessageId(
+    payload.messageId ?? payload.message_id ?? extractFromHeaderMap(headerMap, 'message-id'),
+  );
+  const inReplyTo = normalizeMessageId(
+    payload.inReplyTo ?? payload.in_reply_to ?? extractFromHeaderMap(headerMap, 'in-reply-to'),
+  );
+  const references = parseReferences(payload.references ?? extractFromHeaderMap(headerMap, 'references'));
+
   // Find matching sent email/contact.
   let matched: { sent_email_id: string | null; contact_id: string | null } = { sent_email_id: null, contact_id: null };
 
-  if (explicitContactId) {
+  // Threading headers name the exact message being answered.
+  const parentIds = [inReplyTo, ...references.slice().reverse()].filter(Boolean) as string[];
+  if (parentIds.length) {
+    const { data } = await supabase
+      .from('sent_emails')
+      .select('id, contact_id, message_id')
+      .in('message_id', parentIds);
+    const rows = Array.isArray(data) ? data : [];
+    const parent = parentIds.map(id => rows.find((r: any) => r.message_id === id)).find(Boolean) as any;
+    if (parent) matched = { sent_email_id: String(parent.id), contact_id: parent.contact_id ? String(parent.contact_id) : null };
+  }
+
+  if (matched.sent_email_id) {
+    if (explicitContactId && !matched.contact_id) matched.contact_id = explicitContactId;
+  } else if (explicitContactId) {
     matched.contact_id = explicitContactId;
   } else {
     // Most common: inbound reply sender == our outbound recipient.
@@ -149,6 +173,11 @@ serve(async (req) => {
       snippet: snippet || null,
       received_at: receivedIso,
       raw: payload,
+      message_id: messageId || null,
+      in_reply_to: inReplyTo || null,
+      reference_ids: references,
+      body_text: text ? safeStr(text, 20000) : null,
+      body_html: html ? safeStr(html, 100000) : null,
     })
     .select('id, contact_id')
     .single();
@@ -168,7 +197,7 @@ serve(async (req) => {
       contact_id: matched.contact_id,
       type: 'email_reply',
       description: `Email reply received from ${fromEmail}${subject ? ` — ${subject}` : ''}${snippet ? `: ${snippet}` : ''}`.slice(0, 1000),
-      metadata: { fromEmail, toEmail, subject, snippet, replyId: replyRow?.id, sentEmailId: matched.sent_email_id },
+      metadata: { fromEmail, toEmail, subject, snippet, replyId: replyRow?.id, sentEmailId: matched.sent_email_id, messageId, inReplyTo },
       timestamp: receivedIso,
     }).catch(() => {});
 
@@ -2,6 +2,9 @@
 // Sends email via Resend server-side to avoid exposing API keys in the client.
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { appendHtmlFooter, buildUnsubscribeParts } from '../_shared/unsubscribe.ts';
+import { mailboxPauseReason } from '../_shared/senderHealth.ts';
+import { htmlToText, newMessageId, normalizeMessageId, parseReferences, threadingHeaders } from '../_shared/threading.ts';
 
 type ResendTag = { name: string; value: string };
 
@@ -18,6 +21,26 @@ function json(data: unknown, status = 200) {
   });
 }
 
+// Active suppression entry for this recipient (email or domain), if any.
+// Fails open when the database is unreachable; the client checks too.
+async function findSuppression(to: string): Promise<{ id: string; reason: string } | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+  if (!supabaseUrl || !serviceKey) return null;
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const { data, error } = await supabase.rpc('suppression_match', { p_email: to.toLowerCase() });
+    if (error) {
+      console.warn('suppression lookup failed:', error.message);
+      return null;
+    }
+    const row = Array.isArray(data) ? data[0] : data;
+    return row?.id ? { id: String(row.id), reason: String(row.reason || '') } : null;
+  } catch {
+    return null;
+  }
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") return json({ ok: true });
   if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
@@ -44,27 +67,59 @@ Deno.serve(async (req: Request) => {
   const subject = String(body?.subject || "").trim();
   const html = String(body?.html || "").trim();
   const tags = (Array.isArray(body?.tags) ? body.tags : []) as ResendTag[];
+  const mailboxId = String(body?.mailboxId || "").slice(0, 128);
 
   if (!to || !from || !subject || !html) {
     return json({ error: "Missing required fields: to, from, subject, html" }, 400);
   }
 
+  const suppressed = await findSuppression(to);
+  if (suppressed) {
+    return json({ error: "Recipient is suppressed", suppressed: true, reason: suppressed.reason }, 409);
+  }
+
+  const paused = await mailboxPauseReason(mailboxId);
+  if (paused) return json({ error: `Sending mailbox is paused: ${paused}`, mailboxPaused: true }, 409);
+
+  // Per-recipient signed unsubscribe link: RFC 8058 headers + footer.
+  const tagContactId = tags.find(t => t?.name === 'contact_id')?.value;
+  const unsub = await buildUnsubscribeParts(to, String(body?.contactId ?? body?.contact_id ?? tagContactId ?? '') || null);
+  const text = String(body?.text || "").trim();
+  const sendBody: Record<string, unknown> = { to, from, subject, html, tags };
+  if (text) sendBody.text = text;
+  const replyTo = String(body?.reply_to || "").trim();
+  if (replyTo) sendBody.reply_to = replyTo;
+
+  // Our own Message-ID so inbound replies can be threaded back to this message
+  const messageId = newMessageId(from);
+  const inReplyTo = normalizeMessageId(body?.inReplyTo);
+  const references = parseReferences(body?.references);
+  const headers: Record<string, string> = { 'Message-ID': messageId, ...threadingHeaders(inReplyTo, references) };
+  if (unsub) {
+    sendBody.html = appendHtmlFooter(html, unsub.htmlFooter);
+    if (text) sendBody.text = `${text}${unsub.textFooter}`;
+    Object.assign(headers, unsub.headers);
+  } else {
+    console.warn('UNSUBSCRIBE_SECRET is not configured — sending without unsubscribe link');
+  }
+  sendBody.headers = headers;
+
   const resp = await fetch("https://api.resend.com/emails", {
     method: "POST",
     headers: {
       Authorization: `Bearer ${apiKey}`,
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ to, from, subject, html, tags }),
+    body: JSON.stringify(sendBody),
   });
 
-  const text = await resp.text();
+  const respText = await resp.text();
   if (!resp.ok) {
     return json(
       {
         error: "Resend request failed",
         status: resp.status,
-        body: text.slice(0, 2000),
+        body: respText.slice(0, 2000),
       },
       502,
     );
@@ -72,7 +127,7 @@ Deno.serve(async (req: Request) => {
 
   let data: any = null;
   try {
-    data = JSON.parse(text);
+    data = JSON.parse(respText);
   } catch {
     return json({ error: "Resend returned invalid JSON" }, 502);
   }
@@ -119,11 +174,21 @@ Deno.serve(async (req: Request) => {
         sequence_step: template || null,
         ai_generated: aiGenerated,
         provider: 'resend',
+        experiment_id: String(tagMap.get('experiment') || '').slice(0, 128) || null,
+        variant_id: String(tagMap.get('variant') || '').slice(0, 128) || null,
+        mailbox_id: mailboxId || null,
+        // Set by email-dispatch for scheduled sequence steps
+        sequence_enrollment_id: String(body?.sequenceEnrollmentId || '').slice(0, 128) || null,
+        sequence_step_id: String(body?.sequenceStepId || '').slice(0, 128) || null,
+        message_id: messageId,
+        in_reply_to: inReplyTo || null,
+        reference_ids: references,
+        body_text: (text || htmlToText(html)).slice(0, 20000),
       }, { onConflict: 'id' });
     }
   } catch {
     // Do not fail the send if tracking persistence fails.
   }
 
-  return json({ id: emailId });
+  return json({ id: emailId, messageId });
 });
@@ -4,6 +4,8 @@
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { checkMailboxHealth } from '../_shared/senderHealth.ts';
+import { classifyBounce, decideBounce } from '../_shared/bouncePolicy.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -78,6 +80,19 @@ serve(async (req) => {
       }
     }
 
+    // Classify bounces in the same write as last_event so a poller never sees an untyped bounce
+    let bounceRetryAt: string | null = null;
+    if (event === 'bounced') {
+      const { data: bounced } = await supabase.from('sent_emails').select('to_email').eq('id', emailId).maybeSingle();
+      const to = String(bounced?.to_email || (Array.isArray(data.to) ? data.to[0] : data.to) || '').trim().toLowerCase();
+      const decision = await decideBounce(supabase, emailId, to, classifyBounce(data.bounce?.type, data.bounce?.subType));
+      bounceRetryAt = decision.retryAt?.toISOString() || null;
+      updatePayload.bounce_type = decision.bounceType;
+      updatePayload.bounce_reason = [data.bounce?.type, data.bounce?.subType, data.bounce?.message].filter(Boolean).join(' · ').slice(0, 500)
+        + (decision.escalated ? ' (escalated after repeated soft bounces)' : '');
+      updatePayload.bounce_retry_at = bounceRetryAt;
+    }
+
     const { error } = await supabase
       .from('sent_emails')
       .update(updatePayload)
@@ -88,6 +103,40 @@ serve(async (req) => {
       // Still return 200 so Resend doesn't retry
     }
 
+    // Bounces and complaints feed the global suppression list so no channel
+    // emails this address again. Soft bounces are only suppressed until their
+    // retry (see _shared/bouncePolicy.ts); the client re-queues the step then.
+    if (event === 'bounced' || event === 'complained') {
+      const { data: sent } = await supabase
+        .from('sent_emails')
+        .select('to_email, contact_id, mailbox_id')
+        .eq('id', emailId)
+        .maybeSingle();
+      const to = String(sent?.to_email || (Array.isArray(data.to) ? data.to[0] : data.to) || '').trim().toLowerCase();
+      if (to) {
+        const { error: supError } = await supabase.from('suppression_list').insert({
+          id: `sup-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+          email: to,
+          contact_id: sent?.contact_id || null,
+          reason: event === 'bounced' ? 'bounce' : 'complaint',
+          source: 'resend_webhook',
+          created_at: now,
+          expires_at: bounceRetryAt,
+        });
+        if (supError) console.error('Failed to add suppression:', supError);
+      }
+
+      // Sender pool health — pause the sending mailbox once its rates cross the block threshold
+      if (sent?.mailbox_id) {
+        try {
+          const health = await checkMailboxHealth(supabase, String(sent.mailbox_id));
+          if (health.paused) console.warn(`Paused mailbox ${sent.mailbox_id}: ${health.reason}`);
+        } catch (healthErr) {
+          console.error('Mailbox health check failed:', healthErr);
+        }
+      }
+    }
+
     // Also log the raw event for audit
     await supabase.from('webhook_events').insert({
       id: crypto.randomUUID(),
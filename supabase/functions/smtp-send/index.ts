@@ -1,11 +1,16 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { appendHtmlFooter, buildUnsubscribeParts } from '../_shared/unsubscribe.ts';
+import { mailboxPauseReason } from '../_shared/senderHealth.ts';
+import { htmlToText, newMessageId, normalizeMessageId, parseReferences, threadingHeaders } from '../_shared/threading.ts';
 
 // Supabase Edge Function: smtp-send
 // Sends email via SMTP using server-side env vars (do not put SMTP creds in the browser).
 //
 // Required secrets/env:
 // - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM
+// Optional — extra sender-pool mailboxes, picked by the client's `fromEmail`:
+// - SMTP_MAILBOXES='[{"from":"jamil@novalyte-mail.com","host":"...","port":587,"secure":false,"user":"...","pass":"..."}]'
 //
 // Deploy:
 //   supabase functions deploy smtp-send --no-verify-jwt
@@ -25,8 +30,47 @@ type SendBody = {
   clinicName?: string;
   market?: string;
   tags?: { name: string; value: string }[];
+  /** Sender profile display name */
+  fromName?: string;
+  replyTo?: string;
+  /** Sender-pool mailbox; empty fromEmail = the SMTP_FROM mailbox */
+  mailboxId?: string;
+  fromEmail?: string;
+  /** Set by email-dispatch for scheduled sequence steps */
+  sequenceEnrollmentId?: string;
+  sequenceStepId?: string;
+  /** Threading for replies written in the CRM */
+  inReplyTo?: string;
+  references?: string[];
 };
 
+type SmtpMailbox = { from: string; host: string; port: number; secure: boolean; user: string; pass: string };
+
+// Credentials for a sender-pool mailbox: SMTP_MAILBOXES entry by address, or the default SMTP_* secrets.
+function resolveSmtpMailbox(fromEmail: string): SmtpMailbox | null {
+  if (fromEmail) {
+    let pool: any[] = [];
+    try {
+      pool = JSON.parse(Deno.env.get('SMTP_MAILBOXES') || '[]');
+    } catch {
+      console.warn('SMTP_MAILBOXES is not valid JSON');
+    }
+    const m = (Array.isArray(pool) ? pool : []).find(x => String(x?.from || '').toLowerCase() === fromEmail.toLowerCase());
+    if (!m?.host || !m?.user || !m?.pass) return null;
+    return { from: String(m.from), host: String(m.host), port: Number(m.port || 587), secure: Boolean(m.secure), user: String(m.user), pass: String(m.pass) };
+  }
+  const host = Deno.env.get('SMTP_HOST') || '';
+  const user = Deno.env.get('SMTP_USER') || '';
+  const pass = Deno.env.get('SMTP_PASS') || '';
+  const from = Deno.env.get('SMTP_FROM') || '';
+  if (!host || !user || !pass || !from) return null;
+  return {
+    from, host, user, pass,
+    port: Number(Deno.env.get('SMTP_PORT') || '587'),
+    secure: String(Deno.env.get('SMTP_SECURE') || '').toLowerCase() === 'true',
+  };
+}
+
 function isValidEmail(email: string): boolean {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(email || '').trim());
 }
@@ -35,6 +79,26 @@ function safeStr(v: unknown, max = 512): string {
   return String(v || '').slice(0, max);
 }
 
+// Active suppression entry for this recipient (email or domain), if any.
+// Fails open when the database is unreachable; the client checks too.
+async function findSuppression(to: string): Promise<{ id: string; reason: string } | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+  if (!supabaseUrl || !serviceKey) return null;
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const { data, error } = await supabase.rpc('suppression_match', { p_email: to });
+    if (error) {
+      console.warn('suppression lookup failed:', error.message);
+      return null;
+    }
+    const row = Array.isArray(data) ? data[0] : data;
+    return row?.id ? { id: String(row.id), reason: String(row.reason || '') } : null;
+  } catch {
+    return null;
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
   if (req.method === 'GET') {
@@ -96,15 +160,30 @@ serve(async (req) => {
       });
     }
 
-    const SMTP_HOST = Deno.env.get('SMTP_HOST') || '';
-    const SMTP_PORT = Number(Deno.env.get('SMTP_PORT') || '587');
-    const SMTP_SECURE = String(Deno.env.get('SMTP_SECURE') || '').toLowerCase() === 'true';
-    const SMTP_USER = Deno.env.get('SMTP_USER') || '';
-    const SMTP_PASS = Deno.env.get('SMTP_PASS') || '';
-    const SMTP_FROM = Deno.env.get('SMTP_FROM') || '';
+    const suppressed = await findSuppression(to);
+    if (suppressed) {
+      return new Response(JSON.stringify({ ok: false, error: 'Recipient is suppressed', suppressed: true, reason: suppressed.reason }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const mailboxId = safeStr(body.mailboxId, 128);
+    const paused = await mailboxPauseReason(mailboxId);
+    if (paused) {
+      return new Response(JSON.stringify({ ok: false, error: `Sending mailbox is paused: ${paused}`, mailboxPaused: true }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-    if (!SMTP_HOST || !SMTP_USER || !SMTP_PASS || !SMTP_FROM) {
-      return new Response(JSON.stringify({ ok: false, error: 'SMTP not configured (SMTP_HOST/SMTP_USER/SMTP_PASS/SMTP_FROM)' }), {
+    const fromEmail = safeStr(body.fromEmail, 320).trim();
+    const smtp = resolveSmtpMailbox(fromEmail);
+    if (!smtp) {
+      const error = fromEmail
+        ? `No SMTP credentials for ${fromEmail} in SMTP_MAILBOXES`
+        : 'SMTP not configured (SMTP_HOST/SMTP_USER/SMTP_PASS/SMTP_FROM)';
+      return new Response(JSON.stringify({ ok: false, error }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -115,10 +194,10 @@ serve(async (req) => {
     // eslint-disable-next-line @typescript-eslint/no-var-requires
     const nodemailer = await import('npm:nodemailer@6.9.13');
     const transporter = nodemailer.default.createTransport({
-      host: SMTP_HOST,
-      port: SMTP_PORT,
-      secure: SMTP_SECURE,
-      auth: { user: SMTP_USER, pass: SMTP_PASS },
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: { user: smtp.user, pass: smtp.pass },
     });
 
     const headers: Record<string, string> = {
@@ -134,13 +213,30 @@ serve(async (req) => {
       }
     }
 
+    // Per-recipient signed unsubscribe link: RFC 8058 headers + footer.
+    const unsub = await buildUnsubscribeParts(to, safeStr(body.contactId, 128) || null);
+    if (unsub) Object.assign(headers, unsub.headers);
+    else console.warn('UNSUBSCRIBE_SECRET is not configured — sending without unsubscribe link');
+
+    const mailbox = smtp.from.match(/<([^>]+)>/)?.[1] || smtp.from;
+    const fromName = safeStr(body.fromName, 64).replace(/[<>"]/g, '').trim();
+    const from = fromName ? `"${fromName}" <${mailbox}>` : smtp.from;
+    const replyTo = isValidEmail(safeStr(body.replyTo, 256)) ? safeStr(body.replyTo, 256).trim() : undefined;
+
+    // Threading for replies written in the CRM; our own Message-ID lets inbound-email match replies
+    const inReplyTo = normalizeMessageId(body.inReplyTo);
+    const references = parseReferences(body.references);
+    Object.assign(headers, threadingHeaders(inReplyTo, references));
+
     const info = await transporter.sendMail({
-      from: SMTP_FROM,
+      from,
+      replyTo,
       to,
       subject,
-      html,
-      text,
+      html: unsub ? appendHtmlFooter(html, unsub.htmlFooter) : html,
+      text: unsub && text ? `${text}${unsub.textFooter}` : text,
       headers,
+      messageId: newMessageId(from),
     });
 
     const messageId = String(info?.messageId || `smtp-${Date.now()}`);
@@ -156,7 +252,7 @@ serve(async (req) => {
           id: messageId,
           contact_id: safeStr(body.contactId, 128) || null,
           to_email: to,
-          from_email: SMTP_FROM,
+          from_email: from,
           subject,
           clinic_name: safeStr(body.clinicName, 256) || null,
           market: safeStr(body.market, 256) || null,
@@ -168,13 +264,22 @@ serve(async (req) => {
           sequence_step: safeStr(body.tags?.find(t => t?.name === 'template')?.value, 64) || null,
           ai_generated: String(body.tags?.find(t => t?.name === 'ai_generated')?.value || '').toLowerCase() === 'true',
           provider: 'smtp',
+          experiment_id: safeStr(body.tags?.find(t => t?.name === 'experiment')?.value, 128) || null,
+          variant_id: safeStr(body.tags?.find(t => t?.name === 'variant')?.value, 128) || null,
+          mailbox_id: mailboxId || null,
+          sequence_enrollment_id: safeStr(body.sequenceEnrollmentId, 128) || null,
+          sequence_step_id: safeStr(body.sequenceStepId, 128) || null,
+          message_id: normalizeMessageId(messageId) || null,
+          in_reply_to: inReplyTo || null,
+          reference_ids: references,
+          body_text: (text || htmlToText(html)).slice(0, 20000),
         }, { onConflict: 'id' });
       }
     } catch {
       // non-fatal
     }
 
-    return new Response(JSON.stringify({ ok: true, id: messageId, from: SMTP_FROM }), {
+    return new Response(JSON.stringify({ ok: true, id: messageId, messageId: normalizeMessageId(messageId), from }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (err) {
@@ -0,0 +1,190 @@
+// Supabase Edge Function: unsubscribe
+// Handles signed per-recipient unsubscribe links (see _shared/unsubscribe.ts).
+//
+//   GET  ?t=<token>  → confirmation page (no side effects — link scanners prefetch)
+//   POST ?t=<token>  → records the opt-out. Accepts RFC 8058 one-click posts
+//                      (body `List-Unsubscribe=One-Click`) and the page's form.
+//
+// Opting out adds the address (and the clinic's phone) to suppression_list,
+// stops live sequence enrollments, cancels queued verification and outbound calls and marks
+// the contact not_interested.
+//
+// Deploy:
+//   supabase functions deploy unsubscribe --no-verify-jwt
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyUnsubscribeToken } from '../_shared/unsubscribe.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function esc(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function page(title: string, body: string, status = 200) {
+  return new Response(`<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${esc(title)}</title></head>
+<body style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:480px;margin:64px auto;padding:0 24px;">
+<h1 style="font-size:20px;">${esc(title)}</h1>${body}</body></html>`, {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+// E.164, as call-dispatch and vapi-call-webhook look numbers up — mirrors
+// normalizeSuppressionPhone in src/services/suppressionService.ts.
+function normalizePhone(raw: string | null | undefined): string | null {
+  let cleaned = String(raw || '').replace(/[^\d+]/g, '');
+  if (/^\d{10}$/.test(cleaned)) cleaned = `+1${cleaned}`;
+  if (/^1\d{10}$/.test(cleaned)) cleaned = `+${cleaned}`;
+  if (cleaned && !cleaned.startsWith('+')) cleaned = `+${cleaned}`;
+  return cleaned || null;
+}
+
+function newId(prefix: string) {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+async function readToken(req: Request, url: URL): Promise<string> {
+  const fromQuery = url.searchParams.get('t') || '';
+  if (fromQuery || req.method !== 'POST') return fromQuery;
+  try {
+    const form = await req.formData();
+    return String(form.get('t') || '');
+  } catch {
+    return '';
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const token = await readToken(req, url);
+  const payload = await verifyUnsubscribeToken(token);
+  if (!payload) {
+    return page('Link not valid', '<p>This unsubscribe link is invalid or incomplete. Reply to any of our emails with "unsubscribe" and we will remove you.</p>', 400);
+  }
+
+  if (req.method === 'GET') {
+    return page('Unsubscribe', `<p>Stop all emails and calls from Novalyte to <strong>${esc(payload.email)}</strong>?</p>
+<form method="POST"><input type="hidden" name="t" value="${esc(token)}"/>
+<button type="submit" style="background:#0f172a;color:#fff;border:0;border-radius:8px;padding:10px 18px;font-size:14px;cursor:pointer;">Unsubscribe</button></form>`);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+  if (!supabaseUrl || !serviceKey) {
+    return new Response(JSON.stringify({ ok: false, error: 'Supabase service role is not configured' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+  const supabase = createClient(supabaseUrl, serviceKey);
+  const now = new Date().toISOString();
+  const email = payload.email;
+
+  // Resolve the contact: token first, else the most recent email we sent to this address.
+  let contactId = payload.contactId;
+  if (!contactId) {
+    const { data: sent } = await supabase
+      .from('sent_emails')
+      .select('contact_id')
+      .eq('to_email', email)
+      .not('contact_id', 'is', null)
+      .order('sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    contactId = sent?.contact_id || null;
+  }
+
+  let phone: string | null = null;
+  let contact: any = null;
+  if (contactId) {
+    const { data } = await supabase.from('contacts').select('id, clinic_id, status, tags').eq('id', contactId).maybeSingle();
+    contact = data;
+    if (contact?.clinic_id) {
+      const { data: clinic } = await supabase.from('clinics').select('phone').eq('id', contact.clinic_id).maybeSingle();
+      phone = normalizePhone(clinic?.phone);
+    }
+  }
+
+  // 1) Suppression list — idempotent per address and phone. suppression_match
+  //    returns one row, so the email and the phone are checked separately.
+  const isUnsubscribed = async (args: { p_email?: string; p_phone?: string }) => {
+    const { data } = await supabase.rpc('suppression_match', args);
+    return (Array.isArray(data) ? data : data ? [data] : []).some((r: any) => r?.reason === 'unsubscribe');
+  };
+  const alreadySuppressed = await isUnsubscribed({ p_email: email })
+    && (!phone || await isUnsubscribed({ p_phone: phone }));
+  if (!alreadySuppressed) {
+    const { error } = await supabase.from('suppression_list').insert({
+      id: newId('sup'),
+      email,
+      phone,
+      contact_id: contact?.id || null,
+      reason: 'unsubscribe',
+      source: 'unsubscribe_link',
+      created_at: now,
+    });
+    if (error) console.error('Failed to record unsubscribe:', error);
+  }
+
+  if (contact) {
+    // 2) Halt sequences.
+    const { error: seqError } = await supabase
+      .from('sequence_enrollments')
+      .update({ status: 'stopped', exit_reason: 'unsubscribed', current_step_id: null, due_at: null, updated_at: now })
+      .eq('contact_id', contact.id)
+      .in('status', ['active', 'paused']);
+    if (seqError) console.error('Failed to stop enrollments:', seqError);
+
+    // 3) Cancel queued calls.
+    const { error: jobError } = await supabase
+      .from('verification_jobs')
+      .update({ status: 'cancelled', outcome_reason: 'unsubscribed', updated_at: now })
+      .eq('contact_id', contact.id)
+      .eq('status', 'pending');
+    if (jobError) console.error('Failed to cancel call jobs:', jobError);
+
+    const { error: callJobError } = await supabase
+      .from('call_jobs')
+      .update({ status: 'cancelled', outcome_reason: 'unsubscribed', updated_at: now })
+      .eq('contact_id', contact.id)
+      .in('status', ['pending', 'paused']);
+    if (callJobError) console.error('Failed to cancel queued calls:', callJobError);
+
+    // 4) Contact state + audit trail.
+    const tags = new Set<string>((Array.isArray(contact.tags) ? contact.tags : []).map((t: any) => String(t)));
+    tags.add('unsubscribed');
+    await supabase
+      .from('contacts')
+      .update({ status: 'not_interested', tags: Array.from(tags), updated_at: now })
+      .eq('id', contact.id);
+
+    const { error: actError } = await supabase.from('activities').insert({
+      id: crypto.randomUUID(),
+      contact_id: contact.id,
+      type: 'status_change',
+      description: `Unsubscribed via email link (${email})`,
+      metadata: { unsubscribe: true, email, previousStatus: contact.status, source: 'unsubscribe_link' },
+      timestamp: now,
+    });
+    if (actError) console.error('Failed to log unsubscribe activity:', actError);
+  }
+
+  // One-click clients only need a 2xx; humans get a page.
+  const oneClick = url.searchParams.has('t') && !(req.headers.get('accept') || '').includes('text/html');
+  if (oneClick) {
+    return new Response(JSON.stringify({ ok: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+  return page('You are unsubscribed', `<p><strong>${esc(payload.email)}</strong> will not receive further emails or calls from Novalyte.</p>`);
+});
@@ -1,5 +1,8 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadRetryPolicy, retryOrFail } from '../_shared/callJobs.ts';
+import { applyCallExtraction } from '../_shared/callExtraction.ts';
+import { recordVoicemailDrop } from '../_shared/voicemailFollowUp.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -38,6 +41,79 @@ function isPositiveResult(call: any): boolean {
   return connected && positiveSignals && !negativeSignals;
 }
 
+function isFinalEvent(eventType: string, call: any): boolean {
+  const status = str(call?.status).toLowerCase();
+  return eventType.includes('end-of-call') || Boolean(call?.endedReason) || ['ended', 'completed', 'failed'].includes(status);
+}
+
+/** Map Vapi's end state onto the app's CallStatus */
+function finalCallStatus(call: any): 'completed' | 'no_answer' | 'voicemail' | 'failed' {
+  const reason = str(call?.endedReason).toLowerCase();
+  const status = str(call?.status).toLowerCase();
+  if (reason.includes('voicemail')) return 'voicemail';
+  if (/did-not-answer|no-answer|busy/.test(reason) || ['no-answer', 'no_answer', 'busy'].includes(status)) return 'no_answer';
+  if (/error|failed|fault/.test(reason) || status === 'failed') return 'failed';
+  return 'completed';
+}
+
+async function settleCallJob(supabase: ReturnType<typeof createClient>, job: any, eventType: string, call: any) {
+  const now = new Date().toISOString();
+  if (!isFinalEvent(eventType, call)) {
+    await supabase
+      .from('call_jobs')
+      .update({ call_status: str(call?.status) || job.call_status, updated_at: now })
+      .eq('id', job.id);
+    return { final: false };
+  }
+
+  const status = finalCallStatus(call);
+  if (status === 'completed') {
+    await supabase
+      .from('call_jobs')
+      .update({
+        status: 'completed',
+        call_status: 'completed',
+        call_result: call || {},
+        outcome_reason: str(call?.analysis?.summary || call?.summary).slice(0, 500) || 'Call completed',
+        completed_at: now,
+        updated_at: now,
+      })
+      .eq('id', job.id);
+    return { final: true, status };
+  }
+
+  const policy = await loadRetryPolicy(supabase);
+
+  // A voicemail was left — the drop rules pick the next step instead of a blind redial
+  if (status === 'voicemail' && job.contact_id) {
+    const plan = await recordVoicemailDrop(supabase, job.contact_id, str(call?.id) || job.call_id, job.id);
+    if (plan.action === 'call_back') {
+      const result = await retryOrFail(supabase, job, status, 'Voicemail left', policy, {
+        call_result: call || {},
+        ...(plan.at ? { next_attempt_at: plan.at.toISOString() } : {}),
+      });
+      return { final: true, status, voicemail: plan.rule, result };
+    }
+    await supabase
+      .from('call_jobs')
+      .update({
+        status: 'completed',
+        call_status: 'voicemail',
+        call_result: call || {},
+        outcome_reason: `Voicemail left — ${plan.description}`,
+        completed_at: now,
+        updated_at: now,
+      })
+      .eq('id', job.id);
+    return { final: true, status, voicemail: plan.rule };
+  }
+
+  const result = await retryOrFail(supabase, job, status, str(call?.endedReason) || status.replace(/_/g, ' '), policy, {
+    call_result: call || {},
+  });
+  return { final: true, status, result };
+}
+
 async function enqueueFallback(supabase: ReturnType<typeof createClient>, job: any, reason: string) {
   const { data: clinicRow } = await supabase
     .from('clinics')
@@ -122,6 +198,14 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, serviceKey);
 
+    const { data: callJob } = await supabase
+      .from('call_jobs')
+      .select('*')
+      .eq('call_id', callId)
+      .in('status', ['in_call', 'dispatching'])
+      .limit(1)
+      .maybeSingle();
+
     const { data: job } = await supabase
       .from('verification_jobs')
       .select('*')
@@ -138,8 +222,39 @@ serve(async (req) => {
       processed_at: new Date().toISOString(),
     }).catch(() => {});
 
+    // Structured extraction → CRM fields. Direct dials carry the contact in call metadata.
+    const structuredData = call?.analysis?.structuredData || payload?.message?.analysis?.structuredData;
+    const contactId = callJob?.contact_id || job?.contact_id || str(call?.metadata?.contactId) || null;
+    let extracted: unknown[] = [];
+    if (contactId && structuredData && isFinalEvent(eventType, call)) {
+      extracted = await applyCallExtraction(supabase, contactId, callId, structuredData);
+
+      const dncNumber = str(call?.customer?.number);
+      if (structuredData.next_step === 'dnc' && dncNumber) {
+        const { data: hits } = await supabase.rpc('suppression_match', { p_phone: dncNumber });
+        if (!(Array.isArray(hits) ? hits.length : hits)) {
+          const { error: dncError } = await supabase.from('suppression_list').insert({
+            id: `sup-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+            phone: dncNumber,
+            contact_id: contactId,
+            reason: 'dnc_request',
+            source: 'vapi_call',
+            created_at: new Date().toISOString(),
+          });
+          if (dncError) console.error('Failed to record DNC request:', dncError);
+        }
+      }
+    }
+
+    if (callJob) {
+      const settled = await settleCallJob(supabase, callJob, eventType, call);
+      return new Response(JSON.stringify({ ok: true, callId, callJobId: callJob.id, extracted: extracted.length, ...settled }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (!job) {
-      return new Response(JSON.stringify({ ok: true, skipped: 'No active verification job for call id', callId }), {
+      return new Response(JSON.stringify({ ok: true, skipped: 'No active verification job for call id', callId, extracted: extracted.length }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
@@ -0,0 +1,62 @@
+-- Configurable outreach sequences + per-contact enrollments
+
+-- Sequence definitions: ordered steps (channel, delay, branches) + exit rules.
+CREATE TABLE IF NOT EXISTS sequences (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  exit_conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One row per contact enrolled in a sequence. Step runs (drafts, sent email
+-- ids, call ids) live in JSONB so the UI survives reloads.
+CREATE TABLE IF NOT EXISTS sequence_enrollments (
+  id TEXT PRIMARY KEY,
+  contact_id TEXT NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  sequence_id TEXT NOT NULL REFERENCES sequences(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'paused', 'stopped', 'completed', 'replied')),
+  current_step_id TEXT,
+  due_at TIMESTAMPTZ,
+  paused_until TIMESTAMPTZ,
+  step_runs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  applied_branches JSONB NOT NULL DEFAULT '[]'::jsonb,
+  exit_reason TEXT,
+  enrolled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_enrollments_contact ON sequence_enrollments(contact_id);
+CREATE INDEX IF NOT EXISTS idx_sequence_enrollments_status_due ON sequence_enrollments(status, due_at);
+
+-- Attribute sent emails back to the enrollment/step that produced them.
+ALTER TABLE IF EXISTS sent_emails
+  ADD COLUMN IF NOT EXISTS sequence_enrollment_id TEXT,
+  ADD COLUMN IF NOT EXISTS sequence_step_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sent_emails_sequence_enrollment ON sent_emails(sequence_enrollment_id);
+
+ALTER TABLE sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'sequences' AND policyname = 'allow_all_sequences'
+  ) THEN
+    CREATE POLICY allow_all_sequences ON sequences
+      FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'sequence_enrollments' AND policyname = 'allow_all_sequence_enrollments'
+  ) THEN
+    CREATE POLICY allow_all_sequence_enrollments ON sequence_enrollments
+      FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
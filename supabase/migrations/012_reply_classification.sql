@@ -0,0 +1,40 @@
+-- Inbound reply classification + suppression list
+
+-- Classification written back by the app after an inbound reply is classified.
+ALTER TABLE IF EXISTS email_replies
+  ADD COLUMN IF NOT EXISTS classification TEXT
+    CHECK (classification IN ('interested', 'not_now', 'unsubscribe', 'out_of_office', 'wrong_person', 'referral')),
+  ADD COLUMN IF NOT EXISTS classification_confidence REAL,
+  ADD COLUMN IF NOT EXISTS classification_summary TEXT,
+  ADD COLUMN IF NOT EXISTS return_date TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS classified_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_email_replies_classification ON email_replies(classification);
+
+-- Contacts / addresses that must not be contacted again (unsubscribe, DNC, ...).
+CREATE TABLE IF NOT EXISTS suppression_list (
+  id TEXT PRIMARY KEY,
+  email TEXT,
+  phone TEXT,
+  contact_id TEXT REFERENCES contacts(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL
+    CHECK (reason IN ('bounce', 'complaint', 'unsubscribe', 'dnc_request', 'manual')),
+  source TEXT NOT NULL DEFAULT 'app',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppression_list_email ON suppression_list(lower(email));
+CREATE INDEX IF NOT EXISTS idx_suppression_list_phone ON suppression_list(phone);
+
+ALTER TABLE suppression_list ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'suppression_list' AND policyname = 'allow_all_suppression_list'
+  ) THEN
+    CREATE POLICY allow_all_suppression_list ON suppression_list
+      FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
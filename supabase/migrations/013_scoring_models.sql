@@ -0,0 +1,29 @@
+-- Versioned lead scoring models (weighted factor configs)
+
+-- Each saved edit is a new immutable row (version increments); exactly one
+-- row is flagged active and drives contact scores.
+CREATE TABLE IF NOT EXISTS scoring_models (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  weights JSONB NOT NULL DEFAULT '{}'::jsonb,
+  tiers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scoring_models_active ON scoring_models(is_active);
+
+ALTER TABLE scoring_models ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'scoring_models' AND policyname = 'allow_all_scoring_models'
+  ) THEN
+    CREATE POLICY allow_all_scoring_models ON scoring_models
+      FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
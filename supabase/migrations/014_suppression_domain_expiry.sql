@@ -0,0 +1,27 @@
+-- Global suppression list: domain-level entries, expiry, and a lookup used by
+-- the send edge functions (resend-send, smtp-send) and resend-webhook.
+
+ALTER TABLE IF EXISTS suppression_list
+  ADD COLUMN IF NOT EXISTS domain TEXT,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_suppression_list_domain ON suppression_list(lower(domain));
+CREATE INDEX IF NOT EXISTS idx_suppression_list_expires ON suppression_list(expires_at);
+
+-- First active entry matching an email (exact or by domain) or a phone.
+CREATE OR REPLACE FUNCTION suppression_match(p_email TEXT DEFAULT NULL, p_phone TEXT DEFAULT NULL)
+RETURNS SETOF suppression_list
+LANGUAGE sql STABLE AS $$
+  SELECT *
+  FROM suppression_list
+  WHERE (expires_at IS NULL OR expires_at > now())
+    AND (
+      (p_email IS NOT NULL AND (
+        lower(email) = lower(p_email)
+        OR lower(domain) = lower(split_part(p_email, '@', 2))
+      ))
+      OR (p_phone IS NOT NULL AND phone = p_phone)
+    )
+  ORDER BY created_at
+  LIMIT 1;
+$$;
@@ -0,0 +1,11 @@
+-- Timezone-aware calling windows.
+-- clinics.timezone overrides the zone derived from state / market coordinates;
+-- calling_window (clinic, then campaign) overrides the default Mon–Fri 9–5 window.
+-- Shape: { days: int[], startHour, endHour, lunchBlackout?: { startHour, endHour }, skipFederalHolidays }
+
+ALTER TABLE IF EXISTS clinics
+  ADD COLUMN IF NOT EXISTS timezone TEXT,
+  ADD COLUMN IF NOT EXISTS calling_window JSONB;
+
+ALTER TABLE IF EXISTS campaigns
+  ADD COLUMN IF NOT EXISTS calling_window JSONB;
@@ -0,0 +1,227 @@
+-- Persistent outbound call queue (Voice Agent batches)
+-- Modeled on verification_jobs / verification-dispatch: the browser enqueues,
+-- the call-dispatch edge function claims and dials, vapi-call-webhook settles.
+--
+-- Keep the dispatcher ticking without a browser open, e.g. with pg_cron + pg_net:
+--   SELECT cron.schedule('call-dispatch', '* * * * *', $$
+--     SELECT net.http_post(
+--       url := 'https://<project>.functions.supabase.co/call-dispatch',
+--       headers := '{"Authorization": "Bearer <service-role-key>", "Content-Type": "application/json"}'::jsonb,
+--       body := '{"batchSize": 5}'::jsonb)
+--   $$);
+
+-- 1) Queue control (singleton row)
+CREATE TABLE IF NOT EXISTS call_queue_control (
+  id TEXT PRIMARY KEY DEFAULT 'global',
+  is_paused BOOLEAN NOT NULL DEFAULT false,
+  emergency_stop BOOLEAN NOT NULL DEFAULT false,
+  max_concurrent INTEGER NOT NULL DEFAULT 5 CHECK (max_concurrent >= 0),
+  -- Per call status: { "no_answer": { "maxAttempts": 3, "delayMinutes": 240 }, ... }
+  retry_policy JSONB NOT NULL DEFAULT '{
+    "no_answer": { "maxAttempts": 3, "delayMinutes": 240 },
+    "voicemail": { "maxAttempts": 2, "delayMinutes": 1440 },
+    "failed":    { "maxAttempts": 2, "delayMinutes": 30 }
+  }'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_by TEXT
+);
+
+INSERT INTO call_queue_control (id, is_paused, emergency_stop)
+VALUES ('global', false, false)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2) Call jobs
+CREATE TABLE IF NOT EXISTS call_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_id TEXT NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  clinic_id TEXT REFERENCES clinics(id) ON DELETE SET NULL,
+  batch_id TEXT,
+  phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending',
+    'paused',
+    'dispatching',
+    'in_call',
+    'completed',
+    'failed',
+    'cancelled'
+  )),
+  call_id TEXT,
+  call_status TEXT,
+  outcome_reason TEXT,
+  last_error TEXT,
+  call_result JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Vapi customer + assistantOverrides built by the client, plus timezone / calling window
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  dispatched_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  priority INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_jobs_status_next_attempt
+  ON call_jobs(status, next_attempt_at, priority DESC, created_at ASC);
+
+CREATE INDEX IF NOT EXISTS idx_call_jobs_batch
+  ON call_jobs(batch_id);
+
+CREATE INDEX IF NOT EXISTS idx_call_jobs_call_id
+  ON call_jobs(call_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_call_jobs_active_per_contact
+  ON call_jobs(contact_id)
+  WHERE status IN ('pending', 'paused', 'dispatching', 'in_call');
+
+DROP TRIGGER IF EXISTS trg_call_jobs_updated_at ON call_jobs;
+CREATE TRIGGER trg_call_jobs_updated_at
+BEFORE UPDATE ON call_jobs
+FOR EACH ROW EXECUTE FUNCTION set_verification_updated_at();
+
+DROP TRIGGER IF EXISTS trg_call_queue_control_updated_at ON call_queue_control;
+CREATE TRIGGER trg_call_queue_control_updated_at
+BEFORE UPDATE ON call_queue_control
+FOR EACH ROW EXECUTE FUNCTION set_verification_updated_at();
+
+-- 3) Claim function — honours pause and the global concurrency limit.
+-- Calls whose webhook never arrived stop counting as in flight after 15 minutes.
+-- Stuck jobs are settled first, since the active-per-contact index would
+-- otherwise keep their contact out of the queue for good:
+--   * `dispatching` past the edge function's wall clock (the worker died
+--     mid-batch) goes back to `pending` under the `failed` retry rule, or fails
+--     once its attempts are used up — the same rule retryOrFail applies;
+--   * `in_call` with no webhook after 15 minutes is failed. vapi-call-webhook
+--     only settles dispatching / in_call jobs, so a late result can't revive it.
+CREATE OR REPLACE FUNCTION claim_call_jobs(p_worker TEXT, p_batch INTEGER DEFAULT 5)
+RETURNS SETOF call_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  ctl call_queue_control%ROWTYPE;
+  in_flight INTEGER;
+  slots INTEGER;
+  retry_max INTEGER;
+  retry_delay INTEGER;
+BEGIN
+  SELECT * INTO ctl FROM call_queue_control WHERE id = 'global' FOR UPDATE;
+
+  retry_max := COALESCE((ctl.retry_policy -> 'failed' ->> 'maxAttempts')::INTEGER, 2);
+  retry_delay := COALESCE((ctl.retry_policy -> 'failed' ->> 'delayMinutes')::INTEGER, 30);
+
+  UPDATE call_jobs
+  SET
+    status = CASE WHEN attempts < retry_max THEN 'pending' ELSE 'failed' END,
+    call_status = 'failed',
+    last_error = 'Dispatch timed out',
+    outcome_reason = CASE WHEN attempts < retry_max THEN outcome_reason
+      ELSE format('Dispatch timed out (after %s attempt%s)', attempts, CASE WHEN attempts = 1 THEN '' ELSE 's' END) END,
+    next_attempt_at = CASE WHEN attempts < retry_max THEN now() + make_interval(mins => retry_delay) ELSE next_attempt_at END,
+    completed_at = CASE WHEN attempts < retry_max THEN completed_at ELSE now() END,
+    locked_by = NULL,
+    locked_at = NULL,
+    updated_at = now()
+  WHERE status = 'dispatching'
+    AND COALESCE(locked_at, updated_at) <= now() - interval '5 minutes';
+
+  UPDATE call_jobs
+  SET
+    status = 'failed',
+    call_status = 'failed',
+    outcome_reason = 'No call result received within 15 minutes',
+    completed_at = now(),
+    updated_at = now()
+  WHERE status = 'in_call'
+    AND COALESCE(dispatched_at, updated_at) <= now() - interval '15 minutes';
+
+  IF COALESCE(ctl.is_paused, false) OR COALESCE(ctl.emergency_stop, false) THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO in_flight
+  FROM call_jobs
+  WHERE (status = 'dispatching' AND locked_at > now() - interval '2 minutes')
+     OR (status = 'in_call' AND dispatched_at > now() - interval '15 minutes');
+
+  slots := LEAST(GREATEST(p_batch, 1), COALESCE(ctl.max_concurrent, 5) - in_flight);
+  IF slots <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH picked AS (
+    SELECT j.id
+    FROM call_jobs j
+    WHERE j.status = 'pending'
+      AND j.next_attempt_at <= now()
+    ORDER BY j.priority DESC, j.next_attempt_at ASC, j.created_at ASC
+    LIMIT slots
+    FOR UPDATE SKIP LOCKED
+  ), updated AS (
+    UPDATE call_jobs j
+    SET
+      status = 'dispatching',
+      locked_by = p_worker,
+      locked_at = now(),
+      attempts = j.attempts + 1,
+      updated_at = now()
+    FROM picked p
+    WHERE j.id = p.id
+    RETURNING j.*
+  )
+  SELECT * FROM updated;
+END;
+$$;
+
+-- 4) Cancel queued jobs (kill switch helper), optionally for one batch
+CREATE OR REPLACE FUNCTION clear_pending_call_jobs(p_batch_id TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  affected_count INTEGER := 0;
+BEGIN
+  WITH updated AS (
+    UPDATE call_jobs
+    SET
+      status = 'cancelled',
+      outcome_reason = 'Cleared by operator',
+      completed_at = now(),
+      updated_at = now()
+    WHERE status IN ('pending', 'paused')
+      AND (p_batch_id IS NULL OR batch_id = p_batch_id)
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO affected_count FROM updated;
+
+  RETURN affected_count;
+END;
+$$;
+
+-- 5) RLS + permissive policies to match existing project pattern
+ALTER TABLE call_queue_control ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_jobs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'call_queue_control' AND policyname = 'allow_all_call_queue_control'
+  ) THEN
+    CREATE POLICY allow_all_call_queue_control ON call_queue_control
+      FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'call_jobs' AND policyname = 'allow_all_call_jobs'
+  ) THEN
+    CREATE POLICY allow_all_call_jobs ON call_jobs
+      FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
@@ -0,0 +1,10 @@
+-- Structured call extraction written back onto the CRM.
+-- contacts.call_insights holds the latest analysed call (extracted fields, call id,
+-- and which CRM fields it set or left alone); clinics gain the fields only calls provide.
+
+ALTER TABLE IF EXISTS contacts
+  ADD COLUMN IF NOT EXISTS call_insights JSONB;
+
+ALTER TABLE IF EXISTS clinics
+  ADD COLUMN IF NOT EXISTS marketing_agency TEXT,
+  ADD COLUMN IF NOT EXISTS monthly_ad_spend NUMERIC;
@@ -0,0 +1,20 @@
+-- Voicemail drop follow-up.
+-- vapi-call-webhook enrolls contacts into the built-in "Voicemail Follow-Up"
+-- sequence after a queued call leaves a voicemail, so the definition has to
+-- exist server-side before any browser has pushed its defaults.
+-- Keep in sync with DEFAULT_SEQUENCES in src/services/sequenceEngine.ts.
+
+INSERT INTO sequences (id, name, description, steps, exit_conditions, created_at, updated_at)
+VALUES (
+  'seq-voicemail-follow-up',
+  'Voicemail Follow-Up',
+  'Email referencing the voicemail 2 hours later → call back in 2 business days',
+  '[
+    {"id": "voicemail_email", "name": "Voicemail Follow-Up Email", "channel": "email", "emailKind": "voicemail_follow_up", "delay": {"days": 0, "hours": 2}},
+    {"id": "call_back", "name": "Call Back (Kaizen)", "channel": "vapi_call", "delay": {"days": 2, "businessDaysOnly": true}}
+  ]'::jsonb,
+  '{"onReply": true, "onBounce": true, "onStatuses": ["qualified", "not_interested", "wrong_number"]}'::jsonb,
+  to_timestamp(0),
+  to_timestamp(0)
+)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,51 @@
+-- First-class campaigns: membership rules, an attached sequence, and
+-- campaign attribution on every piece of outreach.
+--
+-- contacts.campaign_id is set when a campaign is launched. Activities, calls
+-- and sent emails carry the campaign the contact belonged to at the time, so
+-- campaigns can be compared side by side after members move on.
+
+ALTER TABLE IF EXISTS campaigns
+  ADD COLUMN IF NOT EXISTS target_markets JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS target_keywords JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS score_range JSONB,
+  ADD COLUMN IF NOT EXISTS clinic_types JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS sequence_id TEXT;
+
+ALTER TABLE IF EXISTS contacts ADD COLUMN IF NOT EXISTS campaign_id TEXT;
+ALTER TABLE IF EXISTS activities ADD COLUMN IF NOT EXISTS campaign_id TEXT;
+ALTER TABLE IF EXISTS voice_calls ADD COLUMN IF NOT EXISTS campaign_id TEXT;
+ALTER TABLE IF EXISTS sent_emails ADD COLUMN IF NOT EXISTS campaign_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_campaign ON contacts(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_activities_campaign ON activities(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_voice_calls_campaign ON voice_calls(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_sent_emails_campaign ON sent_emails(campaign_id);
+
+-- Edge functions (call-dispatch, webhooks, inbound email) insert rows without
+-- knowing about campaigns — fill campaign_id from the contact on insert.
+CREATE OR REPLACE FUNCTION stamp_contact_campaign()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.campaign_id IS NULL AND NEW.contact_id IS NOT NULL THEN
+    SELECT campaign_id INTO NEW.campaign_id FROM contacts WHERE id = NEW.contact_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['activities', 'voice_calls', 'sent_emails'] LOOP
+    IF to_regclass(t) IS NOT NULL THEN
+      EXECUTE format('DROP TRIGGER IF EXISTS trg_%s_campaign ON %I', t, t);
+      EXECUTE format(
+        'CREATE TRIGGER trg_%s_campaign BEFORE INSERT ON %I FOR EACH ROW EXECUTE FUNCTION stamp_contact_campaign()',
+        t, t
+      );
+    END IF;
+  END LOOP;
+END $$;
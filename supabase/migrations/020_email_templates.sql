@@ -0,0 +1,108 @@
+-- Data-driven email template library.
+--
+-- email_templates holds the current head of each template; every saved edit
+-- bumps version and appends an immutable row to email_template_versions.
+-- Bodies use the merge syntax in src/utils/emailTemplates.ts. Sender
+-- identities (from name/address, reply-to, signature) live in sender_profiles.
+-- Seeds keep in sync with DEFAULT_EMAIL_TEMPLATES / DEFAULT_SENDER_PROFILE.
+
+CREATE TABLE IF NOT EXISTS sender_profiles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  from_name TEXT NOT NULL,
+  from_email TEXT NOT NULL,
+  reply_to TEXT,
+  title TEXT,
+  signature_html TEXT NOT NULL DEFAULT '',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  sender_profile_id TEXT REFERENCES sender_profiles(id) ON DELETE SET NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS email_template_versions (
+  id TEXT PRIMARY KEY,
+  template_id TEXT NOT NULL REFERENCES email_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  sender_profile_id TEXT,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE sender_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_template_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['sender_profiles', 'email_templates', 'email_template_versions'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies WHERE tablename = t AND policyname = 'allow_all_' || t
+    ) THEN
+      EXECUTE format('CREATE POLICY %I ON %I FOR ALL USING (true) WITH CHECK (true)', 'allow_all_' || t, t);
+    END IF;
+  END LOOP;
+END $$;
+
+INSERT INTO sender_profiles (id, name, from_name, from_email, reply_to, title, signature_html, is_default, created_at, updated_at)
+VALUES ('sender-default', 'Jamil', 'Novalyte AI', 'noreply@novalyte.io', NULL, NULL,
+  '<strong>Jamil</strong><br/><span style="color:#64748b;font-size:13px;">Novalyte · Men''s Health Growth Platform</span>',
+  true, to_timestamp(0), to_timestamp(0))
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO email_templates (id, name, subject, html, sender_profile_id, version, created_at, updated_at)
+VALUES
+  ('intro-market-data', 'Intro — Market Data Hook', '{{clinic.name}} — Untapped Patient Demand in {{marketZone.city}}',
+    '<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">
+  <p style="font-size:15px;line-height:1.7;">Hi {{decisionMaker.firstName}},</p>
+  <p style="font-size:15px;line-height:1.7;">I came across <strong>{{clinic.name}}</strong> while researching {{#if clinic.services}}{{clinic.services}} providers{{else}}men''s health clinics{{/if}} in {{marketZone.city}}.</p>
+  <p style="font-size:15px;line-height:1.7;">{{#if keyword.keyword}}Our data shows that <strong>"{{keyword.keyword}}"</strong> searches are growing <strong>{{keyword.growthRate}}%</strong> in your area — there''s significant untapped patient demand.{{else}}With a median household income of <strong>{{marketZone.medianIncome}}</strong> in {{marketZone.city}}, there''s strong demand for premium men''s health services.{{/if}}</p>
+  <p style="font-size:15px;line-height:1.7;">We help clinics like yours capture high-intent patients through data-driven marketing. Our clients typically see a <strong>30-40% increase</strong> in qualified patient inquiries within 90 days.</p>
+  <p style="font-size:15px;line-height:1.7;">Would you be open to a quick 15-minute call this week to see if there''s a fit?</p>
+  <p style="font-size:15px;line-height:1.7;margin-top:24px;">Best,<br/>{{{sender.signature}}}</p>
+</div>',
+    'sender-default', 1, to_timestamp(0), to_timestamp(0)),
+  ('follow-up-value', 'Follow-Up — Value Prop', 'Quick follow-up — {{marketZone.city}} market insights for {{clinic.name}}',
+    '<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">
+  <p style="font-size:15px;line-height:1.7;">Hi {{decisionMaker.firstName}},</p>
+  <p style="font-size:15px;line-height:1.7;">I reached out last week about helping <strong>{{clinic.name}}</strong> capture more high-intent patients in {{marketZone.city}}.</p>
+  <p style="font-size:15px;line-height:1.7;">I wanted to share a quick stat: clinics in markets with an affluence score of <strong>{{marketZone.affluenceScore}}/10</strong> like {{marketZone.city}} are seeing <strong>2-3x higher patient lifetime value</strong> for men''s health services.</p>
+  <p style="font-size:15px;line-height:1.7;">We''ve helped similar clinics build predictable patient pipelines. Happy to share a free market report for your area — no strings attached.</p>
+  <p style="font-size:15px;line-height:1.7;">Worth a quick chat?</p>
+  <p style="font-size:15px;line-height:1.7;margin-top:24px;">Best,<br/>{{{sender.signature}}}</p>
+</div>',
+    'sender-default', 1, to_timestamp(0), to_timestamp(0)),
+  ('breakup', 'Breakup — Last Touch', 'Closing the loop — {{clinic.name}}',
+    '<div style="font-family:Inter,Arial,sans-serif;color:#1e293b;max-width:600px;margin:0 auto;padding:24px;">
+  <p style="font-size:15px;line-height:1.7;">Hi {{decisionMaker.firstName}},</p>
+  <p style="font-size:15px;line-height:1.7;">I''ve reached out a couple of times about helping <strong>{{clinic.name}}</strong> grow its patient base, and I don''t want to be a bother.</p>
+  <p style="font-size:15px;line-height:1.7;">If the timing isn''t right, no worries at all. I''ll close out my notes on this for now.</p>
+  <p style="font-size:15px;line-height:1.7;">If things change down the road, feel free to reply to this email anytime — I''d be happy to help.</p>
+  <p style="font-size:15px;line-height:1.7;margin-top:24px;">All the best,<br/>{{{sender.signature}}}</p>
+</div>',
+    'sender-default', 1, to_timestamp(0), to_timestamp(0))
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO email_template_versions (id, template_id, version, name, subject, html, sender_profile_id, note, created_at)
+SELECT id || '-v1', id, 1, name, subject, html, sender_profile_id, 'Initial version', created_at
+FROM email_templates
+WHERE id IN ('intro-market-data', 'follow-up-value', 'breakup')
+ON CONFLICT (id) DO NOTHING;
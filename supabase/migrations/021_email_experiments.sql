@@ -0,0 +1,39 @@
+-- A/B and multivariate subject/body experiments.
+--
+-- An experiment targets a template or a sequence email step and holds two or
+-- more variants. resend-send / smtp-send stamp the drawn variant on each
+-- sent_emails row (from the 'experiment' / 'variant' tags), so per-variant
+-- open, click and reply rates come from the same webhook events as every
+-- other email. Scoring and winner promotion live in src/utils/experiments.ts.
+
+CREATE TABLE IF NOT EXISTS email_experiments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  target JSONB NOT NULL,
+  variants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  metric TEXT NOT NULL DEFAULT 'open',
+  status TEXT NOT NULL DEFAULT 'draft',
+  min_sample_per_variant INTEGER NOT NULL DEFAULT 50,
+  confidence NUMERIC NOT NULL DEFAULT 0.95,
+  winner_variant_id TEXT,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE IF EXISTS sent_emails
+  ADD COLUMN IF NOT EXISTS experiment_id TEXT,
+  ADD COLUMN IF NOT EXISTS variant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sent_emails_experiment ON sent_emails(experiment_id, variant_id);
+
+ALTER TABLE email_experiments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'email_experiments' AND policyname = 'allow_all_email_experiments'
+  ) THEN
+    CREATE POLICY allow_all_email_experiments ON email_experiments FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
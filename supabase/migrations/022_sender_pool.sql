@@ -0,0 +1,44 @@
+-- Sender pool: the mailboxes outbound email rotates across.
+--
+-- Each mailbox ramps its daily cap from warmup_start_cap by
+-- warmup_daily_increase per day up to max_daily_cap (src/utils/senderPool.ts).
+-- sent_emails.mailbox_id records which mailbox sent each message, so
+-- resend-webhook can pause a mailbox whose bounce / complaint rate crosses
+-- the block threshold (supabase/functions/_shared/senderHealth.ts).
+-- Seeds keep in sync with DEFAULT_SENDING_MAILBOXES.
+
+CREATE TABLE IF NOT EXISTS sending_mailboxes (
+  id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL CHECK (provider IN ('resend', 'smtp')),
+  from_email TEXT NOT NULL DEFAULT '',
+  from_name TEXT,
+  domain TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+  paused_reason TEXT,
+  warmup_started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  warmup_start_cap INTEGER NOT NULL DEFAULT 20,
+  warmup_daily_increase INTEGER NOT NULL DEFAULT 5,
+  max_daily_cap INTEGER NOT NULL DEFAULT 150,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE IF EXISTS sent_emails ADD COLUMN IF NOT EXISTS mailbox_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_sent_emails_mailbox ON sent_emails(mailbox_id, sent_at);
+
+ALTER TABLE sending_mailboxes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'sending_mailboxes' AND policyname = 'allow_all_sending_mailboxes'
+  ) THEN
+    CREATE POLICY allow_all_sending_mailboxes ON sending_mailboxes FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
+
+INSERT INTO sending_mailboxes (id, provider, from_email, from_name, domain, status, warmup_started_at, warmup_start_cap, warmup_daily_increase, max_daily_cap, created_at, updated_at)
+VALUES
+  ('mailbox-resend-default', 'resend', 'noreply@novalyte.io', 'Novalyte AI', 'novalyte.io', 'active', to_timestamp(0), 100, 0, 100, to_timestamp(0), to_timestamp(0)),
+  ('mailbox-smtp-default', 'smtp', '', NULL, 'SMTP_FROM', 'active', to_timestamp(0), 900, 0, 900, to_timestamp(0), to_timestamp(0))
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,96 @@
+-- Scheduled email sends (send-time optimization for sequence steps)
+-- The browser renders each message and queues it for the recipient's best
+-- local send time (src/utils/sendTime.ts); the email-dispatch edge function
+-- claims due rows and hands the payload to resend-send / smtp-send, which
+-- write sent_emails as usual. The queue lives here, so it survives reloads
+-- and sends with no browser open.
+--
+-- Keep the dispatcher ticking, e.g. with pg_cron + pg_net:
+--   SELECT cron.schedule('email-dispatch', '* * * * *', $$
+--     SELECT net.http_post(
+--       url := 'https://<project>.functions.supabase.co/email-dispatch',
+--       headers := '{"Authorization": "Bearer <service-role-key>", "Content-Type": "application/json"}'::jsonb,
+--       body := '{"batchSize": 10}'::jsonb)
+--   $$);
+
+CREATE TABLE IF NOT EXISTS email_send_jobs (
+  id TEXT PRIMARY KEY,
+  contact_id TEXT NOT NULL,
+  sequence_enrollment_id TEXT,
+  sequence_step_id TEXT,
+  provider TEXT NOT NULL CHECK (provider IN ('resend', 'smtp')),
+  -- Request body for the provider's send function, rendered by the client
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  send_at TIMESTAMPTZ NOT NULL,
+  timezone TEXT,
+  -- Which open history picked the hour: recipient | role_market | market | role | default
+  basis TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  sent_email_id TEXT,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_send_jobs_status_send_at
+  ON email_send_jobs(status, send_at);
+
+CREATE INDEX IF NOT EXISTS idx_email_send_jobs_enrollment
+  ON email_send_jobs(sequence_enrollment_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_email_send_jobs_active_step
+  ON email_send_jobs(sequence_enrollment_id, sequence_step_id)
+  WHERE status IN ('pending', 'sending');
+
+DROP TRIGGER IF EXISTS trg_email_send_jobs_updated_at ON email_send_jobs;
+CREATE TRIGGER trg_email_send_jobs_updated_at
+BEFORE UPDATE ON email_send_jobs
+FOR EACH ROW EXECUTE FUNCTION set_verification_updated_at();
+
+-- Claim due jobs. Rows stuck in 'sending' for 10 minutes (worker died) are reclaimed.
+CREATE OR REPLACE FUNCTION claim_email_send_jobs(p_worker TEXT, p_batch INTEGER DEFAULT 10)
+RETURNS SETOF email_send_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH picked AS (
+    SELECT j.id
+    FROM email_send_jobs j
+    WHERE (j.status = 'pending' AND j.send_at <= now())
+       OR (j.status = 'sending' AND j.locked_at < now() - interval '10 minutes')
+    ORDER BY j.send_at ASC, j.created_at ASC
+    LIMIT GREATEST(p_batch, 1)
+    FOR UPDATE SKIP LOCKED
+  ), updated AS (
+    UPDATE email_send_jobs j
+    SET
+      status = 'sending',
+      locked_by = p_worker,
+      locked_at = now(),
+      attempts = j.attempts + 1,
+      updated_at = now()
+    FROM picked p
+    WHERE j.id = p.id
+    RETURNING j.*
+  )
+  SELECT * FROM updated;
+END;
+$$;
+
+ALTER TABLE email_send_jobs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'email_send_jobs' AND policyname = 'allow_all_email_send_jobs'
+  ) THEN
+    CREATE POLICY allow_all_email_send_jobs ON email_send_jobs FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
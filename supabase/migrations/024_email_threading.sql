@@ -0,0 +1,24 @@
+-- Email threading for the CRM conversation view (src/utils/emailThreads.ts).
+--
+-- resend-send / smtp-send stamp every message with its own Message-ID and
+-- pass In-Reply-To / References through for replies written in the CRM.
+-- inbound-email stores the same headers plus the full body of each reply and
+-- matches it to the sent email whose message_id it references before falling
+-- back to the sender address.
+
+ALTER TABLE IF EXISTS sent_emails
+  ADD COLUMN IF NOT EXISTS message_id TEXT,
+  ADD COLUMN IF NOT EXISTS in_reply_to TEXT,
+  ADD COLUMN IF NOT EXISTS reference_ids TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS body_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sent_emails_message_id ON sent_emails(message_id);
+
+ALTER TABLE IF EXISTS email_replies
+  ADD COLUMN IF NOT EXISTS message_id TEXT,
+  ADD COLUMN IF NOT EXISTS in_reply_to TEXT,
+  ADD COLUMN IF NOT EXISTS reference_ids TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS body_text TEXT,
+  ADD COLUMN IF NOT EXISTS body_html TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_replies_message_id ON email_replies(message_id);
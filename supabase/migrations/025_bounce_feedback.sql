@@ -0,0 +1,15 @@
+-- Bounce feedback loop (src/utils/bounces.ts, supabase/functions/_shared/bouncePolicy.ts).
+--
+-- resend-webhook classifies each bounce as hard or soft and stores it here.
+-- Soft bounces carry the time their retry is allowed; the suppression entry
+-- for the address expires at the same moment. Repeated soft bounces are
+-- escalated and stored as hard. The client reads these columns to invalidate
+-- the address on the contact and queue re-enrichment (hard) or re-queue the
+-- sequence step (soft).
+
+ALTER TABLE IF EXISTS sent_emails
+  ADD COLUMN IF NOT EXISTS bounce_type TEXT CHECK (bounce_type IN ('hard', 'soft')),
+  ADD COLUMN IF NOT EXISTS bounce_reason TEXT,
+  ADD COLUMN IF NOT EXISTS bounce_retry_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_sent_emails_soft_bounces ON sent_emails(to_email, last_event_at) WHERE bounce_type = 'soft';
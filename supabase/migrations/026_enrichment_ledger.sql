@@ -0,0 +1,39 @@
+-- Enrichment credit ledger (src/utils/enrichmentWaterfall.ts).
+--
+-- One row per provider call made by the enrichment waterfall, in the app
+-- (services/enrichmentWaterfallService) and in dm-enrichment-batch
+-- (supabase/functions/_shared/enrichmentLedger.ts). Calls in the same run for
+-- a clinic share run_id. field is the field the waterfall was filling, or
+-- 'verify' for email verification. verified_emails counts the addresses the
+-- call found that ended the run verified valid; hit rate and cost per
+-- verified email per provider are computed from these rows.
+
+CREATE TABLE IF NOT EXISTS enrichment_ledger (
+  id TEXT PRIMARY KEY,
+  run_id TEXT NOT NULL,
+  clinic_id TEXT,
+  provider TEXT NOT NULL,
+  field TEXT NOT NULL CHECK (field IN ('name', 'title', 'email', 'phone', 'verify')),
+  credits NUMERIC NOT NULL DEFAULT 0,
+  cost_usd NUMERIC NOT NULL DEFAULT 0,
+  hit BOOLEAN NOT NULL DEFAULT false,
+  filled TEXT[] NOT NULL DEFAULT '{}',
+  emails_found INTEGER NOT NULL DEFAULT 0,
+  verified_emails INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_enrichment_ledger_provider ON enrichment_ledger(provider, created_at);
+CREATE INDEX IF NOT EXISTS idx_enrichment_ledger_created ON enrichment_ledger(created_at);
+
+ALTER TABLE enrichment_ledger ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'enrichment_ledger' AND policyname = 'allow_all_enrichment_ledger'
+  ) THEN
+    CREATE POLICY allow_all_enrichment_ledger ON enrichment_ledger FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
@@ -0,0 +1,12 @@
+-- Field-level provenance (src/utils/provenance.ts).
+-- Every value a source reported for a field, with source, first-seen time,
+-- confidence and email verification, plus the value a user pinned and the
+-- rule that picked the current winner. contacts.field_provenance covers the
+-- decision maker's name / title / email / phone; clinics.field_provenance
+-- covers the clinic email and website.
+
+ALTER TABLE IF EXISTS contacts
+  ADD COLUMN IF NOT EXISTS field_provenance JSONB;
+
+ALTER TABLE IF EXISTS clinics
+  ADD COLUMN IF NOT EXISTS field_provenance JSONB;
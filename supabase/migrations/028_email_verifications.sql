@@ -0,0 +1,29 @@
+-- Shared email verification cache (src/utils/emailVerification.ts).
+--
+-- One row per normalised address with the latest result, whoever checked it:
+-- RevenueBase (app and dm-enrichment-batch), the google-verify SMTP check, or
+-- a hard bounce. A result is reused until its status TTL runs out (valid 30
+-- days, risky 14, invalid 90, unknown 1); the app re-verifies stale addresses
+-- a sequence is about to email.
+
+CREATE TABLE IF NOT EXISTS email_verifications (
+  email TEXT PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('valid', 'invalid', 'risky', 'unknown')),
+  provider TEXT NOT NULL CHECK (provider IN ('revenuebase', 'google_verify', 'bounce')),
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  catch_all BOOLEAN NOT NULL DEFAULT false,
+  role_account BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_verifications_checked ON email_verifications(checked_at);
+
+ALTER TABLE email_verifications ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'email_verifications' AND policyname = 'allow_all_email_verifications'
+  ) THEN
+    CREATE POLICY allow_all_email_verifications ON email_verifications FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
@@ -0,0 +1,93 @@
+-- Incremental sync (src/utils/syncMerge.ts).
+--
+-- The app pulls only rows whose updated_at is past its per-table cursor, so
+-- updated_at has to be set by the server on every real change: clients clocks
+-- drift, and a no-op upsert (syncClinics re-sends unchanged rows) must not
+-- look like an edit. A contact's activities, keyword matches and decision
+-- maker live in their own tables; changing them bumps the contact so the
+-- delta carries them. The tables the app reacts to are added to the
+-- supabase_realtime publication, replacing the 15-second poll.
+
+ALTER TABLE clinics ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+ALTER TABLE decision_makers ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_clinics_updated_at ON clinics(updated_at);
+CREATE INDEX IF NOT EXISTS idx_contacts_updated_at ON contacts(updated_at);
+CREATE INDEX IF NOT EXISTS idx_contact_keyword_matches_contact ON contact_keyword_matches(contact_id);
+
+-- Server clock on insert and on updates that change something
+CREATE OR REPLACE FUNCTION touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW IS NOT DISTINCT FROM OLD THEN
+    RETURN NEW;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_clinics_touch_updated_at ON clinics;
+CREATE TRIGGER trg_clinics_touch_updated_at
+BEFORE INSERT OR UPDATE ON clinics
+FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS trg_contacts_touch_updated_at ON contacts;
+CREATE TRIGGER trg_contacts_touch_updated_at
+BEFORE INSERT OR UPDATE ON contacts
+FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS trg_decision_makers_touch_updated_at ON decision_makers;
+CREATE TRIGGER trg_decision_makers_touch_updated_at
+BEFORE INSERT OR UPDATE ON decision_makers
+FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+-- Child rows bump their contact
+CREATE OR REPLACE FUNCTION touch_contact_from_child()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'decision_makers' THEN
+    IF NEW.updated_at IS DISTINCT FROM OLD.updated_at THEN
+      UPDATE contacts SET updated_at = now() WHERE decision_maker_id = NEW.id;
+    END IF;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE contacts SET updated_at = now() WHERE id = OLD.contact_id;
+  ELSIF TG_OP = 'UPDATE' AND NEW IS NOT DISTINCT FROM OLD THEN
+    -- upsertContact re-sends every activity on each save; unchanged ones are not news
+    RETURN NULL;
+  ELSE
+    UPDATE contacts SET updated_at = now() WHERE id = NEW.contact_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_activities_touch_contact ON activities;
+CREATE TRIGGER trg_activities_touch_contact
+AFTER INSERT OR UPDATE ON activities
+FOR EACH ROW EXECUTE FUNCTION touch_contact_from_child();
+
+DROP TRIGGER IF EXISTS trg_contact_keyword_matches_touch_contact ON contact_keyword_matches;
+CREATE TRIGGER trg_contact_keyword_matches_touch_contact
+AFTER INSERT OR DELETE ON contact_keyword_matches
+FOR EACH ROW EXECUTE FUNCTION touch_contact_from_child();
+
+DROP TRIGGER IF EXISTS trg_decision_makers_touch_contact ON decision_makers;
+CREATE TRIGGER trg_decision_makers_touch_contact
+AFTER UPDATE ON decision_makers
+FOR EACH ROW EXECUTE FUNCTION touch_contact_from_child();
+
+-- Realtime feeds for the store
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['clinics', 'contacts', 'sent_emails', 'activities', 'suppression_list', 'email_send_jobs'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
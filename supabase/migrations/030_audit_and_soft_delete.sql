@@ -0,0 +1,127 @@
+-- Audit trail and soft deletes for destructive actions (src/utils/audit.ts).
+--
+-- Clearing a collection, deleting a contact or campaign and the factory reset
+-- used to delete rows outright. Each of them now writes an audit_log entry —
+-- who (the sessionTracker session), what it covered, and the records as they
+-- were — and tags the rows with deleted_at / deleted_by (the audit entry id)
+-- instead of deleting them. The app reads only untagged rows; restoring an
+-- entry clears the tag on every row it covered, and nothing else does — the
+-- app's upserts never carry deleted_at, so a stale write from another browser
+-- or a replayed outbox entry leaves a trashed row in the trash.
+--
+-- Tagged rows are kept until the entry's restore_until, then removed by
+-- purge_soft_deleted(). The app calls it at startup; to run it without a
+-- browser open, e.g. with pg_cron:
+--   SELECT cron.schedule('purge-soft-deleted', '0 4 * * *', $$ SELECT purge_soft_deleted(); $$);
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id TEXT PRIMARY KEY,
+  action TEXT NOT NULL,
+  -- { tables: [...], ids?: [...] } — no ids means whole tables
+  scope JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- { sessionId, role, name, company }
+  actor JSONB NOT NULL DEFAULT '{}'::jsonb,
+  record_count INTEGER NOT NULL DEFAULT 0,
+  -- Records before the action, as the app holds them
+  snapshot JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  restore_until TIMESTAMPTZ NOT NULL,
+  restored_at TIMESTAMPTZ,
+  restored_by JSONB,
+  purged_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_restore_until ON audit_log(restore_until) WHERE restored_at IS NULL AND purged_at IS NULL;
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'audit_log' AND policyname = 'allow_all_audit_log'
+  ) THEN
+    CREATE POLICY allow_all_audit_log ON audit_log FOR ALL USING (true) WITH CHECK (true);
+  END IF;
+END $$;
+
+-- Soft-delete columns on every table a destructive action touches
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['clinics', 'contacts', 'keyword_trends', 'voice_calls', 'campaigns', 'sent_emails', 'email_replies', 'sequence_enrollments'] LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ', t);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS deleted_by TEXT', t);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(deleted_by) WHERE deleted_at IS NOT NULL', 'idx_' || t || '_deleted_by', t);
+  END LOOP;
+END $$;
+
+-- Trashing a contact or enrollment cancels the calls and sends still queued
+-- for it, in the same statement, so the dispatchers never pick them up.
+-- Restoring doesn't re-queue them; the work is scheduled again from the app.
+CREATE OR REPLACE FUNCTION cancel_queued_work_on_soft_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL OR OLD.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'contacts' THEN
+    UPDATE call_jobs
+    SET status = 'cancelled', outcome_reason = 'Contact deleted', completed_at = now(), updated_at = now()
+    WHERE contact_id = NEW.id AND status IN ('pending', 'paused');
+
+    UPDATE email_send_jobs
+    SET status = 'cancelled', last_error = 'Contact deleted', locked_by = NULL, locked_at = NULL
+    WHERE contact_id = NEW.id AND status = 'pending';
+  ELSE
+    UPDATE email_send_jobs
+    SET status = 'cancelled', last_error = 'Enrollment deleted', locked_by = NULL, locked_at = NULL
+    WHERE sequence_enrollment_id = NEW.id AND status = 'pending';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_contacts_cancel_queued_work ON contacts;
+CREATE TRIGGER trg_contacts_cancel_queued_work
+AFTER UPDATE OF deleted_at ON contacts
+FOR EACH ROW EXECUTE FUNCTION cancel_queued_work_on_soft_delete();
+
+DROP TRIGGER IF EXISTS trg_sequence_enrollments_cancel_queued_work ON sequence_enrollments;
+CREATE TRIGGER trg_sequence_enrollments_cancel_queued_work
+AFTER UPDATE OF deleted_at ON sequence_enrollments
+FOR EACH ROW EXECUTE FUNCTION cancel_queued_work_on_soft_delete();
+
+-- Remove rows whose restore window has passed; returns the number of audit entries purged
+CREATE OR REPLACE FUNCTION purge_soft_deleted()
+RETURNS INTEGER AS $$
+DECLARE
+  expired TEXT[];
+BEGIN
+  SELECT coalesce(array_agg(id), '{}') INTO expired
+  FROM audit_log
+  WHERE restored_at IS NULL AND purged_at IS NULL AND restore_until < now();
+
+  IF cardinality(expired) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Children of purged contacts first (foreign keys)
+  DELETE FROM activities WHERE contact_id IN (SELECT id FROM contacts WHERE deleted_by = ANY(expired));
+  DELETE FROM contact_keyword_matches WHERE contact_id IN (SELECT id FROM contacts WHERE deleted_by = ANY(expired));
+  DELETE FROM email_replies WHERE deleted_by = ANY(expired);
+  DELETE FROM sent_emails WHERE deleted_by = ANY(expired);
+  DELETE FROM sequence_enrollments WHERE deleted_by = ANY(expired);
+  DELETE FROM voice_calls WHERE deleted_by = ANY(expired);
+  DELETE FROM contacts WHERE deleted_by = ANY(expired);
+  DELETE FROM campaigns WHERE deleted_by = ANY(expired);
+  DELETE FROM keyword_trends WHERE deleted_by = ANY(expired);
+  DELETE FROM clinics WHERE deleted_by = ANY(expired);
+
+  -- The entry stays as history; the snapshot goes with the rows
+  UPDATE audit_log SET purged_at = now(), snapshot = NULL WHERE id = ANY(expired);
+  RETURN cardinality(expired);
+END;
+$$ LANGUAGE plpgsql;